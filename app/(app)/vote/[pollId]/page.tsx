@@ -26,6 +26,7 @@ export default function PollDetailPage({ params }: PollPageProps) {
       pollId: number
       pollTitle: string
       choice: number
+      choiceLabel?: string
       weight: number
       cost: number
       txHash: string
@@ -38,6 +39,7 @@ export default function PollDetailPage({ params }: PollPageProps) {
         cost: String(data.cost),
         txHash: data.txHash,
       })
+      if (data.choiceLabel !== undefined) searchParams.set('choiceLabel', data.choiceLabel)
       router.push(`/vote/submitted?${searchParams.toString()}`)
     },
     [router]
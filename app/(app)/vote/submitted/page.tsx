@@ -15,6 +15,7 @@ function VoteSubmittedContent() {
   const pollId = Number(searchParams.get('pollId') || '0')
   const pollTitle = searchParams.get('pollTitle') || ''
   const choice = Number(searchParams.get('choice') || '0')
+  const choiceLabel = searchParams.get('choiceLabel') ?? undefined
   const weight = Number(searchParams.get('weight') || '0')
   const cost = Number(searchParams.get('cost') || '0')
   const txHash = searchParams.get('txHash') || ''
@@ -28,6 +29,7 @@ function VoteSubmittedContent() {
       pollId={pollId}
       pollTitle={pollTitle}
       choice={choice}
+      choiceLabel={choiceLabel}
       weight={weight}
       cost={cost}
       txHash={txHash}
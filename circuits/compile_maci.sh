@@ -35,6 +35,7 @@ if [ "$MODE" = "prod" ]; then
   TV_CIRCOM="TallyVotes_prod.circom"
   MP_NAME="MessageProcessor_prod"
   TV_NAME="TallyVotes_prod"
+  STATE_TREE_DEPTH=4; MESSAGE_TREE_DEPTH=4; MESSAGE_BATCH_SIZE=5; TALLY_BATCH_SIZE=5; MAX_VOTE_OPTIONS=25
 else
   BUILD_DIR="build_maci"
   PTAU_FILE="build/pot18_final.ptau"
@@ -42,6 +43,7 @@ else
   TV_CIRCOM="TallyVotes.circom"
   MP_NAME="MessageProcessor"
   TV_NAME="TallyVotes"
+  STATE_TREE_DEPTH=2; MESSAGE_TREE_DEPTH=2; MESSAGE_BATCH_SIZE=2; TALLY_BATCH_SIZE=2; MAX_VOTE_OPTIONS=5
 fi
 
 echo "============================================"
@@ -151,6 +153,43 @@ npx snarkjs zkey export solidityverifier \
   "$BUILD_DIR/Groth16VerifierTally.sol" \
   2>&1
 
+# ============ 6. Circuit Profile Manifest ============
+
+# The coordinator finds this build through circuit-profile.json (see
+# coordinator/src/config/circuits.ts) and checks each file against its hash.
+echo ""
+echo "Writing circuit profile manifest..."
+
+sha() { sha256sum "$BUILD_DIR/$1" | cut -d' ' -f1; }
+circuit_json() {
+  local name="$1"
+  cat <<EOF_CIRCUIT
+{
+    "wasm": "${name}_js/${name}.wasm",
+    "zkey": "${name}_final.zkey",
+    "vkey": "${name}_verification_key.json",
+    "sha256": {
+      "wasm": "$(sha "${name}_js/${name}.wasm")",
+      "zkey": "$(sha "${name}_final.zkey")",
+      "vkey": "$(sha "${name}_verification_key.json")"
+    }
+  }
+EOF_CIRCUIT
+}
+
+cat > "$BUILD_DIR/circuit-profile.json" <<EOF_PROFILE
+{
+  "name": "$MODE",
+  "stateTreeDepth": $STATE_TREE_DEPTH,
+  "messageTreeDepth": $MESSAGE_TREE_DEPTH,
+  "messageBatchSize": $MESSAGE_BATCH_SIZE,
+  "tallyBatchSize": $TALLY_BATCH_SIZE,
+  "maxVoteOptions": $MAX_VOTE_OPTIONS,
+  "processMessages": $(circuit_json "$MP_NAME"),
+  "tallyVotes": $(circuit_json "$TV_NAME")
+}
+EOF_PROFILE
+
 # ============ Done ============
 
 echo ""
@@ -174,11 +213,14 @@ echo "    .zkey:  ${BUILD_DIR}/${TV_NAME}_final.zkey"
 echo "    .vkey:  ${BUILD_DIR}/${TV_NAME}_verification_key.json"
 echo "    .sol:   ${BUILD_DIR}/Groth16VerifierTally.sol"
 echo ""
+echo "  Circuit profile: ${BUILD_DIR}/circuit-profile.json"
+echo ""
 if [ "$MODE" = "prod" ]; then
   echo "Next steps:"
   echo "  1. Copy .sol verifiers to contracts/src/"
   echo "  2. Deploy new verifiers on Sepolia"
-  echo "  3. Update coordinator run.ts params: STATE_TREE_DEPTH=4, BATCH_SIZE=5"
+  echo "  3. Register the verifying keys in VkRegistry for depth ${STATE_TREE_DEPTH}/${MESSAGE_TREE_DEPTH} (the coordinator"
+  echo "     picks this build for such polls via circuit-profile.json; set CIRCUIT_MODE=prod as the default)"
   echo "  4. Test with production circuit files"
 else
   echo "Next steps:"
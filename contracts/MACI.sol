@@ -28,6 +28,9 @@ contract MACI is DomainObjs {
     mapping(uint256 => address) public polls;
     uint256 public nextPollId;
 
+    /// @notice Most options a multi-choice poll can have (largest TallyVotes circuit: 5^2)
+    uint256 public constant MAX_VOTE_OPTIONS = 25;
+
     // ============ Proposal Token Gate (Multi-Token) ============
     struct TokenGate {
         address token;
@@ -51,6 +54,8 @@ contract MACI is DomainObjs {
     error ZeroDuration();
     error ZeroMessageTreeDepth();
     error ZeroThreshold();
+    error InvalidVoteOptions();
+    error ZeroMetadataHash();
 
     modifier onlyOwner() {
         if (msg.sender != owner) revert NotOwner();
@@ -204,7 +209,7 @@ contract MACI is DomainObjs {
         return 0;
     }
 
-    /// @notice Deploy a new Poll with associated MessageProcessor and Tally
+    /// @notice Deploy a new for/against/abstain Poll with associated MessageProcessor and Tally
     /// @dev No gates = owner only. With gates = must meet at least one threshold.
     function deployPoll(
         string calldata _title,
@@ -216,6 +221,92 @@ contract MACI is DomainObjs {
         address _vkRegistry,
         uint8 _messageTreeDepth
     ) external returns (uint256 pollId) {
+        string[] memory noOptions;
+        pollId = _deployPoll(
+            _title,
+            _duration,
+            _coordinatorPubKeyX,
+            _coordinatorPubKeyY,
+            _mpVerifier,
+            _tallyVerifier,
+            _vkRegistry,
+            _messageTreeDepth,
+            noOptions,
+            bytes32(0)
+        );
+    }
+
+    /// @notice Deploy a multi-choice Poll whose vote option i is labelled _voteOptions[i]
+    /// @param _voteOptions 2..MAX_VOTE_OPTIONS labels; the coordinator needs a circuit with at least as many options
+    function deployPollWithOptions(
+        string calldata _title,
+        uint256 _duration,
+        uint256 _coordinatorPubKeyX,
+        uint256 _coordinatorPubKeyY,
+        address _mpVerifier,
+        address _tallyVerifier,
+        address _vkRegistry,
+        uint8 _messageTreeDepth,
+        string[] calldata _voteOptions
+    ) external returns (uint256 pollId) {
+        if (_voteOptions.length < 2 || _voteOptions.length > MAX_VOTE_OPTIONS) revert InvalidVoteOptions();
+        pollId = _deployPoll(
+            _title,
+            _duration,
+            _coordinatorPubKeyX,
+            _coordinatorPubKeyY,
+            _mpVerifier,
+            _tallyVerifier,
+            _vkRegistry,
+            _messageTreeDepth,
+            _voteOptions,
+            bytes32(0)
+        );
+    }
+
+    /// @notice Deploy a Poll tied to an off-chain metadata document by its hash
+    /// @param _voteOptions [] for a for/against/abstain poll, otherwise 2..MAX_VOTE_OPTIONS labels
+    /// @param _metadataHash keccak256 of the canonical metadata JSON, stored as Poll.metadataHash
+    function deployPollWithMetadata(
+        string calldata _title,
+        uint256 _duration,
+        uint256 _coordinatorPubKeyX,
+        uint256 _coordinatorPubKeyY,
+        address _mpVerifier,
+        address _tallyVerifier,
+        address _vkRegistry,
+        uint8 _messageTreeDepth,
+        string[] calldata _voteOptions,
+        bytes32 _metadataHash
+    ) external returns (uint256 pollId) {
+        if (_voteOptions.length == 1 || _voteOptions.length > MAX_VOTE_OPTIONS) revert InvalidVoteOptions();
+        if (_metadataHash == bytes32(0)) revert ZeroMetadataHash();
+        pollId = _deployPoll(
+            _title,
+            _duration,
+            _coordinatorPubKeyX,
+            _coordinatorPubKeyY,
+            _mpVerifier,
+            _tallyVerifier,
+            _vkRegistry,
+            _messageTreeDepth,
+            _voteOptions,
+            _metadataHash
+        );
+    }
+
+    function _deployPoll(
+        string calldata _title,
+        uint256 _duration,
+        uint256 _coordinatorPubKeyX,
+        uint256 _coordinatorPubKeyY,
+        address _mpVerifier,
+        address _tallyVerifier,
+        address _vkRegistry,
+        uint8 _messageTreeDepth,
+        string[] memory _voteOptions,
+        bytes32 _metadataHash
+    ) internal returns (uint256 pollId) {
         if (!canCreatePoll(msg.sender)) revert InsufficientTokens();
         if (_mpVerifier == address(0) || _tallyVerifier == address(0)) revert InvalidVerifier();
         if (_mpVerifier == _tallyVerifier) revert SameVerifier();
@@ -224,7 +315,15 @@ contract MACI is DomainObjs {
         pollId = nextPollId++;
 
         Poll poll = new Poll(
-            _title, _duration, _coordinatorPubKeyX, _coordinatorPubKeyY, address(stateAq), numSignUps, _messageTreeDepth
+            _title,
+            _duration,
+            _coordinatorPubKeyX,
+            _coordinatorPubKeyY,
+            address(stateAq),
+            numSignUps,
+            _messageTreeDepth,
+            _voteOptions,
+            _metadataHash
         );
 
         // Coordinator = MACI owner (the coordinator service wallet), not msg.sender
@@ -19,6 +19,12 @@ contract Poll is DomainObjs {
 
     // ============ Config ============
     string public title;
+    /// @dev Option labels by vote option index; empty for a for/against/abstain poll
+    ///      (option 0 = against, 1 = for, 2 = abstain)
+    string[] internal voteOptions;
+    /// @notice keccak256 of the poll's metadata document (title, description, links); 0 = none
+    /// @dev The document lives off-chain (see sdk/src/metadata.ts); readers check it against this hash
+    bytes32 public immutable metadataHash;
     uint256 public immutable deployTime;
     uint256 public immutable duration;
     uint256 public immutable coordinatorPubKeyX;
@@ -47,7 +53,9 @@ contract Poll is DomainObjs {
         uint256 _coordPubKeyY,
         address _stateAq,
         uint256 _numSignUps,
-        uint8 _messageTreeDepth
+        uint8 _messageTreeDepth,
+        string[] memory _voteOptions,
+        bytes32 _metadataHash
     ) {
         if (_stateAq == address(0)) revert ZeroStateAq();
         if (_duration == 0) revert ZeroDuration();
@@ -59,6 +67,8 @@ contract Poll is DomainObjs {
         coordinatorPubKeyY = _coordPubKeyY;
         stateAqAddr = _stateAq;
         numSignUpsAtDeployment = _numSignUps;
+        voteOptions = _voteOptions;
+        metadataHash = _metadataHash;
 
         // Message AccQueue (quinary, subDepth=2)
         messageAq = new AccQueue(5, _messageTreeDepth);
@@ -141,6 +151,16 @@ contract Poll is DomainObjs {
         return (deployTime, duration);
     }
 
+    /// @notice Number of labelled vote options (0 = for/against/abstain poll)
+    function numVoteOptions() external view returns (uint256) {
+        return voteOptions.length;
+    }
+
+    /// @notice Vote option labels, indexed by vote option
+    function getOptionLabels() external view returns (string[] memory) {
+        return voteOptions;
+    }
+
     /// @notice Hash a message and its ephemeral public key into a single leaf
     /// @dev 12 inputs → 3-stage Poseidon: hash5(msg[0..4]), hash5(msg[5..9]), hash4(h1, h2, pkX, pkY)
     function hashMessageAndEncPubKey(uint256[10] calldata _msg, uint256 _encPubKeyX, uint256 _encPubKeyY)
@@ -0,0 +1,191 @@
+/**
+ * Incremental Event Indexer
+ *
+ * Same algorithm as the SDK's sdk/src/indexer.ts (the coordinator's rootDir
+ * keeps it from importing SDK sources — keep the two in sync):
+ *   - per (address, topic0) stream, the raw logs and last scanned block are
+ *     persisted, so each cycle only fetches blocks mined since the last one
+ *   - getLogs runs in adaptive chunks (halved on RPC errors such as
+ *     block-range limits, reset after a success)
+ *   - the last `reorgDepth` blocks are dropped and re-fetched on every sync
+ *
+ * Streams are stored as one JSON file each under INDEX_DIR. The files hold
+ * only public chain data; deleting them just forces a full rescan.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { ethers } from 'ethers';
+
+const INDEX_VERSION = 1;
+
+export interface IndexedLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+}
+
+export interface LogQuery {
+  address: string;
+  topics: string[];
+  fromBlock: number;
+  toBlock: number;
+}
+
+export interface LogSource {
+  getBlockNumber(): Promise<number>;
+  getLogs(query: LogQuery): Promise<IndexedLog[]>;
+}
+
+export interface IndexedStream {
+  fromBlock: number;         // first block of the stream (deploy block)
+  scannedTo: number;         // last block fully scanned (fromBlock - 1 = none)
+  logs: IndexedLog[];        // ascending (blockNumber, logIndex)
+}
+
+export interface IndexerStore {
+  load(key: string): Promise<IndexedStream | null>;
+  save(key: string, stream: IndexedStream): Promise<void>;
+}
+
+export interface EventIndexerOptions {
+  chunkSize?: number;        // blocks per getLogs call (default: 50000)
+  minChunkSize?: number;     // give up once a failing chunk is this small (default: 2000)
+  reorgDepth?: number;       // trailing blocks re-fetched on every sync (default: 12)
+  namespace?: string;        // key prefix, e.g. chain id
+}
+
+export class EventIndexer {
+  private source: LogSource;
+  private store: IndexerStore;
+  private chunkSize: number;
+  private minChunkSize: number;
+  private reorgDepth: number;
+  private namespace: string;
+  private inflight = new Map<string, Promise<IndexedStream>>();
+
+  constructor(source: LogSource, store: IndexerStore, options: EventIndexerOptions = {}) {
+    this.source = source;
+    this.store = store;
+    this.chunkSize = Math.max(1, options.chunkSize ?? 50_000);
+    this.minChunkSize = Math.min(this.chunkSize, Math.max(1, options.minChunkSize ?? 2000));
+    this.reorgDepth = Math.max(0, options.reorgDepth ?? 12);
+    this.namespace = options.namespace ?? '';
+  }
+
+  /** All logs of the stream from `fromBlock` to the chain head */
+  async getLogs(address: string, topic: string, fromBlock = 0): Promise<IndexedLog[]> {
+    return (await this.sync(address, topic, fromBlock)).logs;
+  }
+
+  /** Bring the stream up to the chain head (concurrent calls share one scan) */
+  sync(address: string, topic: string, fromBlock = 0): Promise<IndexedStream> {
+    const key = `${this.namespace ? `${this.namespace}:` : ''}${address.toLowerCase()}:${topic.toLowerCase()}`;
+    let pending = this.inflight.get(key);
+    if (!pending) {
+      pending = this.scan(key, address, topic, Math.max(0, fromBlock))
+        .finally(() => this.inflight.delete(key));
+      this.inflight.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async scan(key: string, address: string, topic: string, fromBlock: number): Promise<IndexedStream> {
+    let stream = await this.store.load(key);
+    if (!stream || stream.fromBlock !== fromBlock) {
+      stream = { fromBlock, scannedTo: fromBlock - 1, logs: [] };
+    }
+
+    const latest = await this.source.getBlockNumber();
+    // Re-check the last reorgDepth blocks we saw (or below a head that moved backwards)
+    const start = Math.max(fromBlock, Math.min(stream.scannedTo, latest) - this.reorgDepth + 1);
+    const kept = stream.logs.filter((l) => l.blockNumber < start);
+
+    const fresh = await this.fetchChunked(address, topic, start, latest);
+    const next: IndexedStream = {
+      fromBlock,
+      scannedTo: Math.max(latest, start - 1),
+      logs: [...kept, ...fresh].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex),
+    };
+    await this.store.save(key, next);
+    return next;
+  }
+
+  private async fetchChunked(address: string, topic: string, fromBlock: number, toBlock: number): Promise<IndexedLog[]> {
+    const logs: IndexedLog[] = [];
+    let start = fromBlock;
+    let chunk = this.chunkSize;
+
+    while (start <= toBlock) {
+      const end = Math.min(start + chunk - 1, toBlock);
+      try {
+        logs.push(...await this.source.getLogs({ address, topics: [topic], fromBlock: start, toBlock: end }));
+        start = end + 1;
+        chunk = this.chunkSize;
+      } catch (err) {
+        if (chunk <= this.minChunkSize) throw err;
+        chunk = Math.max(this.minChunkSize, Math.floor(chunk / 2));
+      }
+    }
+    return logs;
+  }
+}
+
+// ─── Store ───────────────────────────────────────────────────────────
+
+/** One JSON file per stream; atomic writes (tmp file + rename) */
+export class JsonIndexerStore implements IndexerStore {
+  readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  pathFor(key: string): string {
+    return join(this.dir, `${key.replace(/:/g, '-')}.json`);
+  }
+
+  /** A corrupt or version-mismatched file is ignored (full rescan) */
+  async load(key: string): Promise<IndexedStream | null> {
+    const path = this.pathFor(key);
+    if (!existsSync(path)) return null;
+    try {
+      const file = JSON.parse(readFileSync(path, 'utf8'));
+      if (file.version !== INDEX_VERSION) return null;
+      return { fromBlock: file.fromBlock, scannedTo: file.scannedTo, logs: file.logs };
+    } catch {
+      return null;
+    }
+  }
+
+  async save(key: string, stream: IndexedStream): Promise<void> {
+    mkdirSync(this.dir, { recursive: true });
+    const path = this.pathFor(key);
+    const tmp = `${path}.tmp`;
+    writeFileSync(tmp, JSON.stringify({ version: INDEX_VERSION, ...stream }));
+    renameSync(tmp, path);
+  }
+}
+
+// ─── Source ──────────────────────────────────────────────────────────
+
+/** LogSource over an ethers provider */
+export function ethersLogSource(provider: ethers.Provider): LogSource {
+  return {
+    getBlockNumber: () => provider.getBlockNumber(),
+    async getLogs(query) {
+      const logs = await provider.getLogs(query);
+      return logs.map((l) => ({
+        address: l.address,
+        topics: [...l.topics],
+        data: l.data,
+        blockNumber: l.blockNumber,
+        logIndex: l.index,
+        transactionHash: l.transactionHash,
+      }));
+    },
+  };
+}
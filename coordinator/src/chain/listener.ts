@@ -1,96 +1,325 @@
 /**
  * On-chain Event Listener
  *
- * Listens for MACI contract events and synchronizes off-chain state.
- * Events: SignUp, MessagePublished, PollDeployed
+ * Live view of one MACI deployment, kept in sync with the chain:
+ *   - backfills SignUp / DeployPoll / MessagePublished from the deploy block,
+ *     then re-syncs on every new block (provider 'block' subscription — a
+ *     websocket subscription or ethers' HTTP polling) or on a fixed interval
+ *   - state leaf hashes per signup, message list + deadline per poll
+ *   - emits `signUp`, `newMessage`, `pollDeployed`, `pollEnded` once the
+ *     backfill is done, so the runner can react instead of polling
+ *
+ * Log fetching goes through the shared EventIndexer (chunked scans, cached
+ * on disk). Its reorg window re-fetches recent blocks on every sync; items
+ * that disappear (or change) are rolled back and reported as a `reorg` event.
  */
 
 import { ethers } from 'ethers';
-import type { QuinaryMerkleTree } from '../trees/quinaryTree.js';
-import type { EncryptedMessage } from '../processing/processMessages.js';
+import type { CryptoKit } from '../crypto/kit.js';
+import type { EncryptedMessage, StateLeaf } from '../processing/processMessages.js';
+import type { EventIndexer, IndexedLog } from './eventIndexer.js';
+
+const MACI_EVENTS = new ethers.Interface([
+  'event SignUp(uint256 indexed stateIndex, uint256 indexed pubKeyX, uint256 pubKeyY, uint256 voiceCreditBalance, uint256 timestamp)',
+  'event DeployPoll(uint256 indexed pollId, address pollAddr, address messageProcessorAddr, address tallyAddr)',
+]);
+
+const POLL_ABI = [
+  'event MessagePublished(uint256 indexed messageIndex, uint256[10] encMessage, uint256 encPubKeyX, uint256 encPubKeyY)',
+  'function getDeployTimeAndDuration() view returns (uint256, uint256)',
+];
+const POLL_EVENTS = new ethers.Interface(POLL_ABI);
+
+const SIGNUP_TOPIC = MACI_EVENTS.getEvent('SignUp')!.topicHash;
+const DEPLOY_POLL_TOPIC = MACI_EVENTS.getEvent('DeployPoll')!.topicHash;
+const MESSAGE_TOPIC = POLL_EVENTS.getEvent('MessagePublished')!.topicHash;
 
 export interface ListenerConfig {
   provider: ethers.Provider;
   maciAddress: string;
-  pollAddress: string;
-  maciAbi: ethers.InterfaceAbi;
-  pollAbi: ethers.InterfaceAbi;
+  deployBlock: number;
+  crypto: CryptoKit;           // state leaf hashes
+  indexer: EventIndexer;       // shared with fetchEvents (same cache, same deploy block)
+  pollInterval?: number;       // ms between syncs; 0 = on every new block (default)
+}
+
+export interface SignUpEvent {
+  stateIndex: number;
+  leaf: StateLeaf;
+  leafHash: bigint;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface PollState {
+  pollId: number;
+  addrs: { poll: string; mp: string; tally: string };
+  deadline: number;            // unix seconds: deployTime + duration
+  ended: boolean;              // latest block timestamp >= deadline
+  messages: EncryptedMessage[];  // ascending messageIndex
+  blockNumber: number;
 }
 
 export interface OnchainState {
-  stateLeaves: Map<number, bigint>;  // stateIndex → stateLeafHash
-  messages: EncryptedMessage[];
+  blockNumber: number;
+  blockTimestamp: number;
+  stateLeaves: Map<number, bigint>;  // stateIndex → stateLeafHash (0 = blank leaf, not stored)
+  signUps: Map<number, SignUpEvent>;
+  polls: Map<number, PollState>;
   numSignUps: number;
 }
 
+export interface NewMessageEvent {
+  pollId: number;
+  message: EncryptedMessage;
+  numMessages: number;
+  blockNumber: number;
+}
+
+export interface ReorgEvent {
+  blockNumber: number;         // head after the rollback
+  signUps: number[];           // rolled-back state indices
+  messages: { pollId: number; messageIndex: number }[];
+  polls: number[];
+}
+
+export interface ListenerEvents {
+  signUp: SignUpEvent;
+  newMessage: NewMessageEvent;
+  pollDeployed: PollState;
+  pollEnded: PollState;
+  reorg: ReorgEvent;
+  error: Error;
+}
+
+type Handler<K extends keyof ListenerEvents> = (event: ListenerEvents[K]) => void;
+
 export class EventListener {
-  private maciContract: ethers.Contract;
-  private pollContract: ethers.Contract;
+  private config: ListenerConfig;
   private state: OnchainState;
+  private handlers = new Map<keyof ListenerEvents, Set<Handler<any>>>();
+  // messageIndex → tx hash per poll, to spot replaced messages after a reorg
+  private messageTx = new Map<number, Map<number, string>>();
+  private running = false;
+  private syncing: Promise<void> | null = null;
+  private resync = false;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private onBlock = () => this.schedule();
 
   constructor(config: ListenerConfig) {
-    this.maciContract = new ethers.Contract(config.maciAddress, config.maciAbi, config.provider);
-    this.pollContract = new ethers.Contract(config.pollAddress, config.pollAbi, config.provider);
+    this.config = config;
     this.state = {
+      blockNumber: 0,
+      blockTimestamp: 0,
       stateLeaves: new Map(),
-      messages: [],
+      signUps: new Map(),
+      polls: new Map(),
       numSignUps: 0,
     };
   }
 
+  /** Subscribe to an event; returns the unsubscribe function */
+  on<K extends keyof ListenerEvents>(event: K, handler: Handler<K>): () => void {
+    let set = this.handlers.get(event);
+    if (!set) this.handlers.set(event, (set = new Set()));
+    set.add(handler);
+    return () => set.delete(handler);
+  }
+
+  /** Backfill (no events emitted), then follow new blocks */
   async startListening(): Promise<void> {
-    // Listen for SignUp events
-    this.maciContract.on('SignUp', (stateIndex: bigint, pubKeyX: bigint, pubKeyY: bigint, voiceCredits: bigint) => {
-      this.state.stateLeaves.set(Number(stateIndex), 0n); // Will be computed
-      this.state.numSignUps++;
-    });
-
-    // Listen for MessagePublished events
-    this.pollContract.on('MessagePublished', (messageIndex: bigint, encMessage: bigint[], encPubKeyX: bigint, encPubKeyY: bigint) => {
-      this.state.messages.push({
-        data: encMessage.map((v) => BigInt(v)),
-        encPubKeyX: BigInt(encPubKeyX),
-        encPubKeyY: BigInt(encPubKeyY),
-        messageIndex: Number(messageIndex),
-      });
-    });
+    if (this.running) return;
+    await this.sync(false);
+    this.running = true;
+    const { provider, pollInterval = 0 } = this.config;
+    if (pollInterval > 0) {
+      this.timer = setInterval(this.onBlock, pollInterval);
+    } else {
+      await provider.on('block', this.onBlock);
+    }
   }
 
   stopListening(): void {
-    this.maciContract.removeAllListeners();
-    this.pollContract.removeAllListeners();
+    this.running = false;
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    void this.config.provider.off('block', this.onBlock);
   }
 
   getState(): OnchainState {
     return this.state;
   }
 
+  /** Backfill only, without subscribing (no events emitted) */
   async fetchPastEvents(): Promise<void> {
-    // Fetch past SignUp events
-    const signUpFilter = this.maciContract.filters.SignUp();
-    const signUpEvents = await this.maciContract.queryFilter(signUpFilter);
-
-    for (const event of signUpEvents) {
-      if ('args' in event) {
-        const args = event.args as any;
-        this.state.stateLeaves.set(Number(args.stateIndex), 0n);
-        this.state.numSignUps++;
+    await this.sync(false);
+  }
+
+  // Coalesce block notifications: at most one sync in flight plus one queued
+  private schedule(): void {
+    if (!this.running) return;
+    if (this.syncing) {
+      this.resync = true;
+      return;
+    }
+    this.syncing = this.sync(true)
+      .catch((err) => this.emit('error', err instanceof Error ? err : new Error(String(err))))
+      .finally(() => {
+        this.syncing = null;
+        if (this.resync) {
+          this.resync = false;
+          this.schedule();
+        }
+      });
+  }
+
+  private async sync(emit: boolean): Promise<void> {
+    const { provider, indexer, maciAddress, deployBlock } = this.config;
+    const head = await provider.getBlock('latest');
+    if (!head) throw new Error('Latest block unavailable');
+
+    const [signUpLogs, deployLogs] = await Promise.all([
+      indexer.getLogs(maciAddress, SIGNUP_TOPIC, deployBlock),
+      indexer.getLogs(maciAddress, DEPLOY_POLL_TOPIC, deployBlock),
+    ]);
+
+    const reorg: ReorgEvent = { blockNumber: head.number, signUps: [], messages: [], polls: [] };
+    const fired: (() => void)[] = [];
+
+    this.applySignUps(signUpLogs, reorg, fired);
+    await this.applyPolls(deployLogs, reorg, fired);
+
+    for (const poll of this.state.polls.values()) {
+      if (!poll.ended) {
+        const logs = await indexer.getLogs(poll.addrs.poll, MESSAGE_TOPIC, deployBlock);
+        this.applyMessages(poll, logs, reorg, fired);
       }
     }
 
-    // Fetch past MessagePublished events
-    const msgFilter = this.pollContract.filters.MessagePublished();
-    const msgEvents = await this.pollContract.queryFilter(msgFilter);
-
-    for (const event of msgEvents) {
-      if ('args' in event) {
-        const args = event.args as any;
-        this.state.messages.push({
-          data: args.encMessage.map((v: bigint) => BigInt(v)),
-          encPubKeyX: BigInt(args.encPubKeyX),
-          encPubKeyY: BigInt(args.encPubKeyY),
-          messageIndex: Number(args.messageIndex),
-        });
+    this.state.blockNumber = head.number;
+    this.state.blockTimestamp = head.timestamp;
+    for (const poll of this.state.polls.values()) {
+      if (!poll.ended && head.timestamp >= poll.deadline) {
+        poll.ended = true;
+        fired.push(() => this.emit('pollEnded', poll));
+      }
+    }
+
+    if (!emit) return;
+    if (reorg.signUps.length || reorg.messages.length || reorg.polls.length) this.emit('reorg', reorg);
+    for (const fire of fired) fire();
+  }
+
+  private applySignUps(logs: IndexedLog[], reorg: ReorgEvent, fired: (() => void)[]): void {
+    const { crypto } = this.config;
+    const seen = new Set<number>();
+    for (const log of logs) {
+      const a = MACI_EVENTS.parseLog(log)?.args;
+      if (!a) continue;
+      const stateIndex = Number(a.stateIndex);
+      seen.add(stateIndex);
+      const known = this.state.signUps.get(stateIndex);
+      if (known?.transactionHash === log.transactionHash) continue;
+      if (known) reorg.signUps.push(stateIndex);
+
+      const leaf: StateLeaf = {
+        pubKeyX: BigInt(a.pubKeyX),
+        pubKeyY: BigInt(a.pubKeyY),
+        voiceCreditBalance: BigInt(a.voiceCreditBalance),
+        timestamp: BigInt(a.timestamp),
+      };
+      const event: SignUpEvent = {
+        stateIndex, leaf, leafHash: crypto.hashStateLeaf(leaf), blockNumber: log.blockNumber, transactionHash: log.transactionHash,
+      };
+      this.state.signUps.set(stateIndex, event);
+      this.state.stateLeaves.set(stateIndex, event.leafHash);
+      fired.push(() => this.emit('signUp', event));
+    }
+
+    for (const stateIndex of this.state.signUps.keys()) {
+      if (seen.has(stateIndex)) continue;
+      this.state.signUps.delete(stateIndex);
+      this.state.stateLeaves.delete(stateIndex);
+      reorg.signUps.push(stateIndex);
+    }
+    this.state.numSignUps = this.state.signUps.size;
+  }
+
+  private async applyPolls(logs: IndexedLog[], reorg: ReorgEvent, fired: (() => void)[]): Promise<void> {
+    const seen = new Set<number>();
+    for (const log of logs) {
+      const a = MACI_EVENTS.parseLog(log)?.args;
+      if (!a) continue;
+      const pollId = Number(a.pollId);
+      seen.add(pollId);
+      const known = this.state.polls.get(pollId);
+      if (known && known.addrs.poll.toLowerCase() === String(a.pollAddr).toLowerCase()) continue;
+      if (known) reorg.polls.push(pollId);
+
+      const pollContract = new ethers.Contract(a.pollAddr, POLL_ABI, this.config.provider);
+      const [deployTime, duration] = await pollContract.getDeployTimeAndDuration();
+      const poll: PollState = {
+        pollId,
+        addrs: { poll: a.pollAddr, mp: a.messageProcessorAddr, tally: a.tallyAddr },
+        deadline: Number(deployTime) + Number(duration),
+        ended: false,
+        messages: [],
+        blockNumber: log.blockNumber,
+      };
+      this.state.polls.set(pollId, poll);
+      this.messageTx.set(pollId, new Map());
+      fired.push(() => this.emit('pollDeployed', poll));
+    }
+
+    for (const pollId of this.state.polls.keys()) {
+      if (seen.has(pollId)) continue;
+      this.state.polls.delete(pollId);
+      this.messageTx.delete(pollId);
+      reorg.polls.push(pollId);
+    }
+  }
+
+  private applyMessages(poll: PollState, logs: IndexedLog[], reorg: ReorgEvent, fired: (() => void)[]): void {
+    const txByIndex = this.messageTx.get(poll.pollId)!;
+    const messages: EncryptedMessage[] = [];
+    const added: { message: EncryptedMessage; blockNumber: number }[] = [];
+
+    for (const log of logs) {
+      const a = POLL_EVENTS.parseLog(log)?.args;
+      if (!a) continue;
+      const message: EncryptedMessage = {
+        data: a.encMessage.map((v: bigint) => BigInt(v)),
+        encPubKeyX: BigInt(a.encPubKeyX),
+        encPubKeyY: BigInt(a.encPubKeyY),
+        messageIndex: Number(a.messageIndex),
+      };
+      messages.push(message);
+      const knownTx = txByIndex.get(message.messageIndex);
+      if (knownTx === log.transactionHash) continue;
+      if (knownTx) reorg.messages.push({ pollId: poll.pollId, messageIndex: message.messageIndex });
+      txByIndex.set(message.messageIndex, log.transactionHash);
+      added.push({ message, blockNumber: log.blockNumber });
+    }
+
+    const current = new Set(messages.map((m) => m.messageIndex));
+    for (const messageIndex of [...txByIndex.keys()]) {
+      if (current.has(messageIndex)) continue;
+      txByIndex.delete(messageIndex);
+      reorg.messages.push({ pollId: poll.pollId, messageIndex });
+    }
+
+    poll.messages = messages.sort((x, y) => x.messageIndex - y.messageIndex);
+    for (const { message, blockNumber } of added) {
+      fired.push(() => this.emit('newMessage', { pollId: poll.pollId, message, numMessages: poll.messages.length, blockNumber }));
+    }
+  }
+
+  private emit<K extends keyof ListenerEvents>(event: K, payload: ListenerEvents[K]): void {
+    for (const handler of this.handlers.get(event) ?? []) {
+      try {
+        handler(payload);
+      } catch {
+        // A failing subscriber must not stop the listener
       }
     }
   }
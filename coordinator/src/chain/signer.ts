@@ -0,0 +1,161 @@
+/**
+ * Coordinator Wallet Signers
+ *
+ * Every coordinator write is signed by one of:
+ *
+ *   key      — raw private key from .env (default)
+ *   keystore — encrypted JSON keystore (geth / ethers format) + password
+ *   remote   — JSON-RPC signing service holding the key (Web3Signer,
+ *              Clef, a KMS proxy…); only `eth_signTransaction` is used and
+ *              the signed tx is broadcast through our own provider
+ *
+ * Selected with SIGNER=key|keystore|remote (see signerConfigFromEnv).
+ */
+
+import { ethers } from 'ethers';
+import { readFile } from 'fs/promises';
+
+export interface RemoteSignerConfig {
+  url: string;                 // JSON-RPC endpoint
+  address: string;             // account the service signs for
+  token?: string;              // sent as `Authorization: Bearer <token>`
+  timeoutMs?: number;
+}
+
+export type SignerConfig =
+  | { kind: 'key'; privateKey: string }
+  | { kind: 'keystore'; path: string; password: string }
+  | ({ kind: 'remote' } & RemoteSignerConfig);
+
+// ─── Remote ──────────────────────────────────────────────────────────
+
+/** Hex quantity fields as JSON-RPC expects them (no leading zeros) */
+function toRpcTransaction(tx: ethers.TransactionRequest): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const key of ['from', 'to', 'data'] as const) {
+    if (tx[key] != null) out[key] = String(tx[key]);
+  }
+  const quantities: [string, ethers.BigNumberish | null | undefined][] = [
+    ['nonce', tx.nonce], ['gas', tx.gasLimit], ['gasPrice', tx.gasPrice],
+    ['maxFeePerGas', tx.maxFeePerGas], ['maxPriorityFeePerGas', tx.maxPriorityFeePerGas],
+    ['value', tx.value], ['chainId', tx.chainId], ['type', tx.type],
+  ];
+  for (const [key, value] of quantities) {
+    if (value != null) out[key] = ethers.toQuantity(value);
+  }
+  return out;
+}
+
+export class RemoteSigner extends ethers.AbstractSigner {
+  private config: RemoteSignerConfig;
+  private nextId = 1;
+
+  constructor(config: RemoteSignerConfig, provider: ethers.Provider | null = null) {
+    super(provider);
+    this.config = config;
+  }
+
+  async getAddress(): Promise<string> {
+    return ethers.getAddress(this.config.address);
+  }
+
+  connect(provider: ethers.Provider | null): RemoteSigner {
+    return new RemoteSigner(this.config, provider);
+  }
+
+  /** Signed only — AbstractSigner.sendTransaction broadcasts it via the provider */
+  async signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    const raw = await this.rpc('eth_signTransaction', [toRpcTransaction({ ...tx, from: await this.getAddress() })]);
+    if (typeof raw !== 'string') throw new Error('Remote signer returned no raw transaction');
+
+    // Never broadcast something other than what was asked for
+    const signed = ethers.Transaction.from(raw);
+    if (signed.from?.toLowerCase() !== (await this.getAddress()).toLowerCase()) {
+      throw new Error(`Remote signer signed for ${signed.from}, expected ${this.config.address}`);
+    }
+    if (tx.nonce != null && signed.nonce !== Number(tx.nonce)) {
+      throw new Error(`Remote signer changed the nonce (${signed.nonce}, expected ${tx.nonce})`);
+    }
+    return raw;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const data = typeof message === 'string' ? ethers.hexlify(ethers.toUtf8Bytes(message)) : ethers.hexlify(message);
+    return String(await this.rpc('eth_sign', [await this.getAddress(), data]));
+  }
+
+  async signTypedData(): Promise<string> {
+    throw new Error('RemoteSigner does not support signTypedData');
+  }
+
+  private async rpc(method: string, params: unknown[]): Promise<unknown> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.token) headers.Authorization = `Bearer ${this.config.token}`;
+
+    const res = await fetch(this.config.url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ jsonrpc: '2.0', id: this.nextId++, method, params }),
+      signal: AbortSignal.timeout(this.config.timeoutMs ?? 30_000),
+    });
+    if (!res.ok) throw new Error(`Remote signer failed: HTTP ${res.status}`);
+
+    let json: { result?: unknown; error?: { message?: string } };
+    try {
+      json = await res.json() as typeof json;
+    } catch {
+      throw new Error('Remote signer returned a non-JSON response');
+    }
+    if (json.error) throw new Error(`Remote signer ${method} failed: ${String(json.error.message ?? 'unknown').slice(0, 120)}`);
+    return json.result;
+  }
+}
+
+// ─── Config ──────────────────────────────────────────────────────────
+
+/**
+ * SIGNER                   — key (default) | keystore | remote
+ * PRIVATE_KEY              — wallet key for SIGNER=key (the env var name is per deployment)
+ * WALLET_KEYSTORE_PATH     — encrypted JSON keystore (SIGNER=keystore)
+ * WALLET_KEYSTORE_PASSWORD — its password
+ * REMOTE_SIGNER_URL        — JSON-RPC signing endpoint (SIGNER=remote)
+ * REMOTE_SIGNER_ADDRESS    — account it signs for
+ * REMOTE_SIGNER_TOKEN      — optional bearer token
+ */
+export function signerConfigFromEnv(get: (k: string) => string | undefined, walletKeyEnv = 'PRIVATE_KEY'): SignerConfig {
+  const kind = get('SIGNER') || 'key';
+  switch (kind) {
+    case 'key': {
+      const key = get(walletKeyEnv);
+      if (!key) throw new Error(`${walletKeyEnv} not set in .env`);
+      return { kind, privateKey: key.startsWith('0x') ? key : `0x${key}` };
+    }
+    case 'keystore': {
+      const path = get('WALLET_KEYSTORE_PATH');
+      if (!path) throw new Error('SIGNER=keystore requires WALLET_KEYSTORE_PATH');
+      return { kind, path, password: get('WALLET_KEYSTORE_PASSWORD') ?? '' };
+    }
+    case 'remote': {
+      const url = get('REMOTE_SIGNER_URL');
+      const address = get('REMOTE_SIGNER_ADDRESS');
+      if (!url || !address) throw new Error('SIGNER=remote requires REMOTE_SIGNER_URL and REMOTE_SIGNER_ADDRESS');
+      return { kind, url, address, token: get('REMOTE_SIGNER_TOKEN') || undefined };
+    }
+    default:
+      throw new Error(`Unknown SIGNER: ${kind} (expected key, keystore or remote)`);
+  }
+}
+
+export async function createSigner(config: SignerConfig, provider: ethers.Provider): Promise<ethers.Signer> {
+  switch (config.kind) {
+    case 'key':
+      return new ethers.Wallet(config.privateKey, provider);
+    case 'keystore': {
+      const json = await readFile(config.path, 'utf8');
+      const wallet = await ethers.Wallet.fromEncryptedJson(json, config.password);
+      return wallet.connect(provider);
+    }
+    case 'remote':
+      return new RemoteSigner(config, provider);
+  }
+}
@@ -1,129 +1,440 @@
 /**
  * Transaction Submitter
  *
- * Submits MACI transactions to the blockchain:
+ * The only place the coordinator writes to the chain:
  *   1. AccQueue merge operations (post-voting)
- *   2. processMessages with Groth16 proof
+ *   2. processMessages with Groth16 proof, then completeProcessing
  *   3. tallyVotes with Groth16 proof
- *   4. publishResults with final tally
+ *   4. publishResults with the final tally
+ *   5. resetStateAqMerge on MACI
+ *
+ * Every send goes through one queue per wallet with a locally tracked nonce.
+ * A tx that is not mined within `confirmTimeoutMs` is replaced (same nonce)
+ * with EIP-1559 fees raised by `feeBumpPercent`. Each step is checked against
+ * on-chain state first, so a batch the contract already accepted (e.g. before
+ * a crash) is skipped instead of reverting. Reverts are decoded from the
+ * contracts' custom errors.
  */
 
 import { ethers } from 'ethers';
 import type { ProofResult } from '../processing/batchProof.js';
 
+const POLL_ABI = [
+  'function stateAqMerged() view returns (bool)',
+  'function messageAqMerged() view returns (bool)',
+  'function mergeMaciStateAqSubRoots(uint256 _numSrQueueOps)',
+  'function mergeMaciStateAq()',
+  'function mergeMessageAqSubRoots(uint256 _numSrQueueOps)',
+  'function mergeMessageAq()',
+];
+
+const MP_ABI = [
+  'function processMessages(uint256 _newStateCommitment, uint256[2] _pA, uint256[2][2] _pB, uint256[2] _pC)',
+  'function processingComplete() view returns (bool)',
+  'function completeProcessing()',
+  'function currentStateCommitment() view returns (uint256)',
+];
+
+const TALLY_ABI = [
+  'function tallyVotes(uint256 _newTallyCommitment, uint256[2] _pA, uint256[2][2] _pB, uint256[2] _pC)',
+  'function publishResults(uint256 _forVotes, uint256 _againstVotes, uint256 _abstainVotes, uint256 _totalVoters, uint256 _tallyResultsRoot, uint256 _totalSpent, uint256 _perOptionSpentRoot)',
+  'function tallyVerified() view returns (bool)',
+  'function tallyCommitment() view returns (uint256)',
+];
+
+const MACI_ABI = ['function resetStateAqMerge()'];
+
+// Custom errors of MACI, Poll, AccQueue, MessageProcessor and Tally (all argument-less)
+const CONTRACT_ERRORS = new ethers.Interface([
+  'AlreadyComplete', 'AlreadyMerged', 'AlreadyTallied', 'ExpectedBatchCountAlreadySet', 'IndexOutOfBounds',
+  'InsufficientTokens', 'InvalidProcessProof', 'InvalidTallyProof', 'LeafTooLarge', 'MessageAqNotMerged',
+  'NoBatchesProcessed', 'NoSubtrees', 'NotAllBatchesProcessed', 'NotCoordinator', 'NotMerged', 'NotOwner',
+  'ProcessingNotDone', 'StateAqNotMerged', 'SubRootsAlreadyMerged', 'SubRootsNotMerged', 'TallyCommitmentMismatch',
+  'TallyNotComputed', 'VoterCountExceedsSignups', 'VotingEnded', 'VotingNotEnded', 'VotingStillOpen',
+  'ZeroAddress', 'ZeroBatchCount',
+].map((name) => `error ${name}()`));
+
+// The step already happened (our earlier attempt, or another coordinator run)
+const ALREADY_DONE = new Set(['AlreadyComplete', 'AlreadyMerged', 'AlreadyTallied', 'SubRootsAlreadyMerged']);
+
+// Retrying cannot help: wrong key, bad proof, or results the contract rejects
+const PERMANENT = new Set([
+  'NotCoordinator', 'NotOwner', 'InvalidProcessProof', 'InvalidTallyProof',
+  'TallyCommitmentMismatch', 'VoterCountExceedsSignups', 'ZeroAddress',
+]);
+
+export interface RevertReason {
+  name: string;
+  args: unknown[];
+}
+
+function revertData(err: unknown): string | null {
+  // ethers nests the node's JSON-RPC error differently per code path
+  const e = err as { data?: unknown; info?: { error?: { data?: unknown } }; error?: { data?: unknown } };
+  for (const data of [e?.data, e?.info?.error?.data, e?.error?.data]) {
+    if (typeof data === 'string' && /^0x[0-9a-fA-F]{8}/.test(data)) return data;
+    if (data && typeof (data as { data?: unknown }).data === 'string') return (data as { data: string }).data;
+  }
+  return null;
+}
+
+/** Custom error / require message / panic behind a failed call or estimate, if any */
+export function decodeRevertReason(err: unknown): RevertReason | null {
+  const revert = (err as { revert?: { name: string; args: ArrayLike<unknown> } })?.revert;
+  if (revert?.name) return { name: revert.name, args: Array.from(revert.args ?? []) };
+
+  const data = revertData(err);
+  if (!data) return null;
+  // Also covers require() messages (Error(string)) and Panic(uint256)
+  const parsed = CONTRACT_ERRORS.parseError(data);
+  if (parsed) return { name: parsed.name, args: Array.from(parsed.args) };
+  return { name: `unknown error ${ethers.dataSlice(data, 0, 4)}`, args: [] };
+}
+
+export function formatRevertReason(reason: RevertReason): string {
+  return reason.args.length > 0 ? `${reason.name}(${reason.args.map(String).join(', ')})` : reason.name;
+}
+
+/**
+ * A coordinator write that failed for good (after retries and fee bumps).
+ * `pendingHashes` is set when the tx is stuck rather than reverted: it may
+ * still be mined, so it is never re-sent under a new nonce.
+ */
+export class TransactionError extends Error {
+  readonly label: string;
+  readonly reason: RevertReason | null;
+  readonly pendingHashes: string[];
+
+  constructor(label: string, reason: RevertReason | null, cause: unknown, pendingHashes: string[] = []) {
+    const detail = reason ? `reverted with ${formatRevertReason(reason)}` : ((cause as Error)?.message ?? String(cause));
+    super(`${label}: ${detail}`, { cause });
+    this.name = 'TransactionError';
+    this.label = label;
+    this.reason = reason;
+    this.pendingHashes = pendingHashes;
+  }
+}
+
+/** snarkjs proof → Groth16 verifier calldata (pi_b coordinates swapped) */
+export function toSolidityProof(result: ProofResult): {
+  pA: [bigint, bigint];
+  pB: [[bigint, bigint], [bigint, bigint]];
+  pC: [bigint, bigint];
+} {
+  const { pi_a, pi_b, pi_c } = result.proof;
+  return {
+    pA: [BigInt(pi_a[0]), BigInt(pi_a[1])],
+    pB: [
+      [BigInt(pi_b[0][1]), BigInt(pi_b[0][0])],
+      [BigInt(pi_b[1][1]), BigInt(pi_b[1][0])],
+    ],
+    pC: [BigInt(pi_c[0]), BigInt(pi_c[1])],
+  };
+}
+
 export interface SubmitterConfig {
-  signer: ethers.Signer;
-  pollAddress: string;
-  messageProcessorAddress: string;
-  tallyAddress: string;
-  pollAbi: ethers.InterfaceAbi;
-  mpAbi: ethers.InterfaceAbi;
-  tallyAbi: ethers.InterfaceAbi;
+  signer: ethers.Signer;       // must be connected to a provider
+  log?: (msg: string) => void;
+  confirmTimeoutMs?: number;   // before a pending tx is fee-bumped (default: 3 min)
+  receiptPollMs?: number;      // receipt polling interval (default: 4s)
+  feeBumpPercent?: number;     // per replacement; nodes require >= 10 (default: 20)
+  maxFeeBumps?: number;        // replacements before giving up (default: 3)
+  maxRetries?: number;         // re-sends after transient errors (default: 3)
+  retryDelayMs?: number;       // grows linearly per attempt (default: 2s)
+  /** Called when a tx is given up on while still pending (e.g. to alert an operator) */
+  onStuck?: (stuck: { label: string; nonce: number; hashes: string[] }) => void;
 }
 
+/** `skipped`: the on-chain state already reflected this step, nothing was sent */
+export interface TxResult {
+  hash: string | null;
+  receipt: ethers.TransactionReceipt | null;
+  skipped: boolean;
+}
+
+export interface TxRequest {
+  label: string;
+  contract: ethers.Contract;
+  method: string;
+  args: unknown[];
+  /** Idempotency check, run before every attempt */
+  isDone?: () => Promise<boolean>;
+  maxRetries?: number;
+}
+
+type Fees = { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint } | { gasPrice: bigint };
+
+const SKIPPED: TxResult = { hash: null, receipt: null, skipped: true };
+
 export class TransactionSubmitter {
-  private poll: ethers.Contract;
-  private mp: ethers.Contract;
-  private tally: ethers.Contract;
+  readonly signer: ethers.Signer;
+  readonly provider: ethers.Provider;
+  private log: (msg: string) => void;
+  private confirmTimeoutMs: number;
+  private receiptPollMs: number;
+  private feeBumpPercent: bigint;
+  private maxFeeBumps: number;
+  private maxRetries: number;
+  private retryDelayMs: number;
+  private onStuck: SubmitterConfig['onStuck'];
+  private nonce: number | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
 
   constructor(config: SubmitterConfig) {
-    this.poll = new ethers.Contract(config.pollAddress, config.pollAbi, config.signer);
-    this.mp = new ethers.Contract(config.messageProcessorAddress, config.mpAbi, config.signer);
-    this.tally = new ethers.Contract(config.tallyAddress, config.tallyAbi, config.signer);
-  }
-
-  /**
-   * Merge AccQueues (must be called after voting ends)
-   */
-  async mergeAccQueues(): Promise<void> {
-    console.log('Merging State AccQueue sub-roots...');
-    const tx1 = await this.poll.mergeMaciStateAqSubRoots(0);
-    await tx1.wait();
-
-    console.log('Merging State AccQueue...');
-    const tx2 = await this.poll.mergeMaciStateAq();
-    await tx2.wait();
-
-    console.log('Merging Message AccQueue sub-roots...');
-    const tx3 = await this.poll.mergeMessageAqSubRoots(0);
-    await tx3.wait();
-
-    console.log('Merging Message AccQueue...');
-    const tx4 = await this.poll.mergeMessageAq();
-    await tx4.wait();
-
-    console.log('All AccQueues merged.');
-  }
-
-  /**
-   * Submit processMessages proof
-   */
-  async submitProcessProof(
-    newStateCommitment: bigint,
-    proof: ProofResult,
-  ): Promise<ethers.TransactionReceipt | null> {
-    const { pi_a, pi_b, pi_c } = proof.proof;
-
-    const pA: [bigint, bigint] = [BigInt(pi_a[0]), BigInt(pi_a[1])];
-    const pB: [[bigint, bigint], [bigint, bigint]] = [
-      [BigInt(pi_b[0][1]), BigInt(pi_b[0][0])], // Note: reversed for Solidity
-      [BigInt(pi_b[1][1]), BigInt(pi_b[1][0])],
-    ];
-    const pC: [bigint, bigint] = [BigInt(pi_c[0]), BigInt(pi_c[1])];
-
-    console.log('Submitting processMessages proof...');
-    const tx = await this.mp.processMessages(newStateCommitment, pA, pB, pC);
-    return tx.wait();
-  }
-
-  /**
-   * Mark processing as complete
-   */
-  async completeProcessing(): Promise<ethers.TransactionReceipt | null> {
-    console.log('Completing processing...');
-    const tx = await this.mp.completeProcessing();
-    return tx.wait();
-  }
-
-  /**
-   * Submit tallyVotes proof
-   */
-  async submitTallyProof(
-    newTallyCommitment: bigint,
-    proof: ProofResult,
-  ): Promise<ethers.TransactionReceipt | null> {
-    const { pi_a, pi_b, pi_c } = proof.proof;
-
-    const pA: [bigint, bigint] = [BigInt(pi_a[0]), BigInt(pi_a[1])];
-    const pB: [[bigint, bigint], [bigint, bigint]] = [
-      [BigInt(pi_b[0][1]), BigInt(pi_b[0][0])],
-      [BigInt(pi_b[1][1]), BigInt(pi_b[1][0])],
-    ];
-    const pC: [bigint, bigint] = [BigInt(pi_c[0]), BigInt(pi_c[1])];
-
-    console.log('Submitting tallyVotes proof...');
-    const tx = await this.tally.tallyVotes(newTallyCommitment, pA, pB, pC);
-    return tx.wait();
-  }
-
-  /**
-   * Publish final results
-   */
-  async publishResults(
-    forVotes: bigint,
-    againstVotes: bigint,
-    abstainVotes: bigint,
-    totalVoters: bigint,
-    tallyResultsHash: bigint,
-  ): Promise<ethers.TransactionReceipt | null> {
-    console.log('Publishing results...');
-    const tx = await this.tally.publishResults(
-      forVotes,
-      againstVotes,
-      abstainVotes,
-      totalVoters,
-      tallyResultsHash,
-    );
-    return tx.wait();
+    if (!config.signer.provider) throw new Error('TransactionSubmitter: signer has no provider');
+    this.signer = config.signer;
+    this.provider = config.signer.provider;
+    this.log = config.log ?? console.log;
+    this.confirmTimeoutMs = config.confirmTimeoutMs ?? 3 * 60_000;
+    this.receiptPollMs = config.receiptPollMs ?? 4000;
+    this.feeBumpPercent = BigInt(Math.max(10, config.feeBumpPercent ?? 20));
+    this.maxFeeBumps = config.maxFeeBumps ?? 3;
+    this.maxRetries = config.maxRetries ?? 3;
+    this.retryDelayMs = config.retryDelayMs ?? 2000;
+    this.onStuck = config.onStuck;
+  }
+
+  getAddress(): Promise<string> {
+    return this.signer.getAddress();
+  }
+
+  // ─── MACI steps ──────────────────────────────────────────────────
+
+  /** Merge the state and message AccQueues (each step skipped once merged) */
+  async mergeAccQueues(pollAddr: string): Promise<void> {
+    const poll = this.contract(pollAddr, POLL_ABI);
+    const stateMerged = () => this.read(poll, 'stateAqMerged') as Promise<boolean>;
+    const messageMerged = () => this.read(poll, 'messageAqMerged') as Promise<boolean>;
+
+    await this.send({ label: 'mergeMaciStateAqSubRoots', contract: poll, method: 'mergeMaciStateAqSubRoots', args: [0], isDone: stateMerged });
+    await this.send({ label: 'mergeMaciStateAq', contract: poll, method: 'mergeMaciStateAq', args: [], isDone: stateMerged });
+    await this.send({ label: 'mergeMessageAqSubRoots', contract: poll, method: 'mergeMessageAqSubRoots', args: [0], isDone: messageMerged });
+    await this.send({ label: 'mergeMessageAq', contract: poll, method: 'mergeMessageAq', args: [], isDone: messageMerged });
+  }
+
+  /** Skipped if the on-chain state commitment already is `newStateCommitment` */
+  submitProcessProof(mpAddr: string, newStateCommitment: bigint, proof: ProofResult, label = 'processMessages'): Promise<TxResult> {
+    const mp = this.contract(mpAddr, MP_ABI);
+    const { pA, pB, pC } = toSolidityProof(proof);
+    return this.send({
+      label,
+      contract: mp,
+      method: 'processMessages',
+      args: [newStateCommitment, pA, pB, pC],
+      isDone: async () => BigInt(await this.read(mp, 'currentStateCommitment') as bigint) === newStateCommitment,
+    });
+  }
+
+  completeProcessing(mpAddr: string): Promise<TxResult> {
+    const mp = this.contract(mpAddr, MP_ABI);
+    return this.send({
+      label: 'completeProcessing',
+      contract: mp,
+      method: 'completeProcessing',
+      args: [],
+      isDone: () => this.read(mp, 'processingComplete') as Promise<boolean>,
+    });
+  }
+
+  /** Skipped if the on-chain tally commitment already is `newTallyCommitment` */
+  submitTallyProof(tallyAddr: string, newTallyCommitment: bigint, proof: ProofResult, label = 'tallyVotes'): Promise<TxResult> {
+    const tally = this.contract(tallyAddr, TALLY_ABI);
+    const { pA, pB, pC } = toSolidityProof(proof);
+    return this.send({
+      label,
+      contract: tally,
+      method: 'tallyVotes',
+      args: [newTallyCommitment, pA, pB, pC],
+      isDone: async () => BigInt(await this.read(tally, 'tallyCommitment') as bigint) === newTallyCommitment,
+    });
+  }
+
+  publishResults(
+    tallyAddr: string,
+    results: {
+      forVotes: bigint;
+      againstVotes: bigint;
+      abstainVotes: bigint;
+      totalVoters: bigint;
+      tallyResultsRoot: bigint;
+      totalSpent: bigint;
+      perOptionSpentRoot: bigint;
+    },
+  ): Promise<TxResult> {
+    const tally = this.contract(tallyAddr, TALLY_ABI);
+    return this.send({
+      label: 'publishResults',
+      contract: tally,
+      method: 'publishResults',
+      args: [
+        results.forVotes,
+        results.againstVotes,
+        results.abstainVotes,
+        results.totalVoters,
+        results.tallyResultsRoot,
+        results.totalSpent,
+        results.perOptionSpentRoot,
+      ],
+      isDone: () => this.read(tally, 'tallyVerified') as Promise<boolean>,
+      maxRetries: 5,
+    });
+  }
+
+  resetStateAqMerge(maciAddr: string): Promise<TxResult> {
+    return this.send({ label: 'resetStateAqMerge', contract: this.contract(maciAddr, MACI_ABI), method: 'resetStateAqMerge', args: [] });
+  }
+
+  // ─── Sending ─────────────────────────────────────────────────────
+
+  /** Queue a contract call; resolves once mined (or skipped), throws TransactionError */
+  send(req: TxRequest): Promise<TxResult> {
+    const run = this.queue.then(() => this.sendWithRetries(req));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async sendWithRetries(req: TxRequest): Promise<TxResult> {
+    const maxRetries = req.maxRetries ?? this.maxRetries;
+    for (let attempt = 0; ; attempt++) {
+      if (req.isDone && await this.isDone(req)) {
+        this.log(`  ${req.label}: already done on-chain (skipping)`);
+        return SKIPPED;
+      }
+      try {
+        return await this.broadcastAndConfirm(req);
+      } catch (err) {
+        const reason = err instanceof TransactionError ? err.reason : decodeRevertReason(err);
+        if (reason && ALREADY_DONE.has(reason.name)) {
+          this.log(`  ${req.label}: ${reason.name} (skipping)`);
+          return SKIPPED;
+        }
+        const failure = err instanceof TransactionError ? err : new TransactionError(req.label, reason, err);
+        const final = (reason && PERMANENT.has(reason.name)) || failure.pendingHashes.length > 0;
+        if (final || attempt >= maxRetries) throw failure;
+
+        const delay = this.retryDelayMs * (attempt + 1);
+        this.log(`  ${failure.message.slice(0, 120).replace(/0x[a-fA-F0-9]{40,}/g, '[REDACTED]')}. Retrying in ${delay}ms...`);
+        await new Promise((r) => setTimeout(r, delay));
+      }
+    }
+  }
+
+  private async isDone(req: TxRequest): Promise<boolean> {
+    try {
+      return await req.isDone!();
+    } catch {
+      return false; // e.g. a view that reverts before processing starts
+    }
+  }
+
+  private async broadcastAndConfirm({ label, contract, method, args }: TxRequest): Promise<TxResult> {
+    const from = await this.signer.getAddress();
+    const to = await contract.getAddress();
+    const data = contract.interface.encodeFunctionData(method, args);
+
+    // Reverts surface here, before anything is signed
+    const gas = await this.provider.estimateGas({ from, to, data });
+    const gasLimit = (gas * 120n) / 100n + 25_000n; // 20% buffer + 25k cushion
+
+    const nonce = await this.nextNonce(from);
+    let fees = await this.currentFees();
+    const hashes: string[] = [];
+
+    for (let bump = 0; ; bump++) {
+      try {
+        const tx = await this.signer.sendTransaction({ to, data, gasLimit, nonce, ...fees });
+        hashes.push(tx.hash);
+      } catch (err) {
+        // A replacement can lose the race against the tx it replaces
+        const mined = hashes.length > 0 ? await this.findReceipt(hashes) : null;
+        if (mined) return this.settle(label, nonce, mined, { from, to, data });
+        this.nonce = null;
+        throw err;
+      }
+      if (bump === 0) this.log(`  ${label}: sent ${hashes[0]}`);
+
+      const receipt = await this.waitForReceipt(hashes);
+      if (receipt) return this.settle(label, nonce, receipt, { from, to, data });
+
+      if (bump >= this.maxFeeBumps) {
+        this.nonce = null; // resync: the tx may still land later
+        this.onStuck?.({ label, nonce, hashes: [...hashes] });
+        throw new TransactionError(label, null, new Error(`not mined after ${bump} fee bump(s) (nonce ${nonce})`), hashes);
+      }
+      fees = this.bumpFees(fees, await this.currentFees());
+      this.log(`  ${label}: not mined after ${Math.round(this.confirmTimeoutMs / 1000)}s, replacing with higher fees (bump ${bump + 1}/${this.maxFeeBumps})`);
+    }
+  }
+
+  private async settle(label: string, nonce: number, receipt: ethers.TransactionReceipt, call: ethers.TransactionRequest): Promise<TxResult> {
+    this.nonce = nonce + 1;
+    if (receipt.status === 1) return { hash: receipt.hash, receipt, skipped: false };
+
+    // Mined but reverted: replay the call at that block to recover the reason
+    let reason: RevertReason | null = null;
+    try {
+      await this.provider.call({ ...call, blockTag: receipt.blockNumber });
+    } catch (err) {
+      reason = decodeRevertReason(err);
+    }
+    throw new TransactionError(label, reason, new Error(`reverted in ${receipt.hash}`));
+  }
+
+  private async nextNonce(from: string): Promise<number> {
+    this.nonce ??= await this.provider.getTransactionCount(from, 'pending');
+    return this.nonce;
+  }
+
+  private async currentFees(): Promise<Fees> {
+    const fee = await this.provider.getFeeData();
+    if (fee.maxFeePerGas != null && fee.maxPriorityFeePerGas != null) {
+      return { maxFeePerGas: fee.maxFeePerGas, maxPriorityFeePerGas: fee.maxPriorityFeePerGas };
+    }
+    if (fee.gasPrice == null) throw new Error('Provider returned no fee data');
+    return { gasPrice: fee.gasPrice };
+  }
+
+  /** Previous fees + feeBumpPercent, or the current market if that moved higher */
+  private bumpFees(prev: Fees, market: Fees): Fees {
+    const bump = (v: bigint) => (v * (100n + this.feeBumpPercent) + 99n) / 100n;
+    const max = (a: bigint, b: bigint) => (a > b ? a : b);
+    if ('gasPrice' in prev) {
+      return { gasPrice: max(bump(prev.gasPrice), 'gasPrice' in market ? market.gasPrice : market.maxFeePerGas) };
+    }
+    const marketTip = 'gasPrice' in market ? 0n : market.maxPriorityFeePerGas;
+    const marketMax = 'gasPrice' in market ? market.gasPrice : market.maxFeePerGas;
+    return {
+      maxFeePerGas: max(bump(prev.maxFeePerGas), marketMax),
+      maxPriorityFeePerGas: max(bump(prev.maxPriorityFeePerGas), marketTip),
+    };
+  }
+
+  /** Any of the replacements' receipts, or null after confirmTimeoutMs */
+  private async waitForReceipt(hashes: string[]): Promise<ethers.TransactionReceipt | null> {
+    const deadline = Date.now() + this.confirmTimeoutMs;
+    for (;;) {
+      const receipt = await this.findReceipt(hashes);
+      if (receipt) return receipt;
+      if (Date.now() >= deadline) return null;
+      await new Promise((r) => setTimeout(r, Math.min(this.receiptPollMs, Math.max(0, deadline - Date.now()))));
+    }
+  }
+
+  private async findReceipt(hashes: string[]): Promise<ethers.TransactionReceipt | null> {
+    for (const hash of hashes) {
+      try {
+        const receipt = await this.provider.getTransactionReceipt(hash);
+        if (receipt) return receipt;
+      } catch { /* transient RPC error: try again next poll */ }
+    }
+    return null;
+  }
+
+  private contract(address: string, abi: string[]): ethers.Contract {
+    return new ethers.Contract(address, abi, this.provider);
+  }
+
+  private async read(contract: ethers.Contract, method: string): Promise<unknown> {
+    return contract.getFunction(method).staticCall();
   }
 }
@@ -0,0 +1,351 @@
+#!/usr/bin/env tsx
+/**
+ * sigil-coordinator — admin CLI for coordinator operations
+ *
+ * Usage:
+ *   cd coordinator && npx tsx src/cli.ts <command> [--deployment <name>]
+ *   cd coordinator && npm run cli -- <command>      (or `sigil-coordinator <command>` once linked)
+ *
+ *   status              every poll: on-chain phase, whether its coordinator key is
+ *                       held, and what the running runner reports (if reachable)
+ *   process <pollId>    run the whole pipeline for one poll now, even one the
+ *                       runner gave up on [--dry-run [--prove], see run.ts]
+ *   merge <pollId>      merge the poll's state and message AccQueues
+ *   retry <pollId>      tell the running runner to take up a failed poll again
+ *   diagnose <pollId>   decrypt and check every message [--audit: the runner's audit log]
+ *   reset-state-aq      MACI.resetStateAqMerge (re-enables signups after a halt)
+ *   keys <command>      coordinator key management (generate|import|pubkey|list, see keys.ts)
+ *   circuits [list]     circuit profiles and which of their files are present
+ *   circuits check [<profile> | --poll <pollId>]
+ *                       hash each file and match every zkey against its vkey file
+ *                       and, with --poll, against the poll's VkRegistry key / verifier
+ *   circuits fetch [<profile>] [--url <base>]
+ *                       download missing files (resumable) from --url or CIRCUIT_BASE_URL
+ *
+ * Config, keys and crypto are set up exactly as the runner does (.env,
+ * DEPLOYMENTS_FILE; see run.ts). --deployment picks a DEPLOYMENTS_FILE entry
+ * (default: the first). `process`, `merge` and `reset-state-aq` send from the
+ * coordinator wallet: while a runner is up, prefer `retry` so the two don't
+ * compete for nonces.
+ *
+ * `retry` and the runner column of `status` use the runner's status server:
+ *   COORDINATOR_ADMIN_URL — default http://localhost:<STATUS_PORT>
+ *   ADMIN_TOKEN           — must match the runner's ADMIN_TOKEN
+ */
+
+import { ethers } from 'ethers';
+import { join } from 'path';
+import { initCrypto, type CryptoKit } from './crypto/kit.js';
+import { checkCircuitArtifacts, describeArtifactProblems, fetchCircuitArtifacts, type OnchainVerifyingKeys } from './config/circuitArtifacts.js';
+import type { CircuitProfile } from './config/circuits.js';
+import { shortPubKey, type CoordinatorKeyring } from './crypto/keystore.js';
+import type { DeploymentConfig } from './config/deployments.js';
+import type { PollPhase, PollStatusSnapshot } from './status/tracker.js';
+import {
+  AUDIT_DIR,
+  CIRCUIT_BASE_URL,
+  MACI_ABI,
+  MP_ABI,
+  POLL_ABI,
+  STATUS_PORT,
+  TALLY_ABI,
+  circuitRegistry,
+  connectDeployment,
+  connectRpc,
+  deploymentContexts,
+  fetchDeployPolls,
+  loadCoordinatorKeys,
+  loadDeployments,
+  processPoll,
+  readEnv,
+  readPollCircuit,
+  runInDeployment,
+  type DeploymentConnection,
+  type DeploymentContext,
+  type PollAddresses,
+  type ProcessOptions,
+} from './run.js';
+import { diagnosePoll, showAudit } from './diagnose.js';
+import { keysCommand } from './keys.js';
+
+const [command, ...rest] = process.argv.slice(2);
+
+function flag(name: string): string | undefined {
+  const i = rest.indexOf(`--${name}`);
+  return i >= 0 ? rest[i + 1] : undefined;
+}
+
+function pollIdArg(): number {
+  const raw = rest[0];
+  if (!raw || !/^\d+$/.test(raw)) throw new Error(`Usage: sigil-coordinator ${command} <pollId>`);
+  return Number(raw);
+}
+
+/** --deployment <name>, or the first (only) deployment */
+function selectDeployment(): { d: DeploymentConfig; ctx: DeploymentContext } {
+  const deployments = loadDeployments();
+  const name = flag('deployment');
+  const i = name === undefined ? 0 : deployments.findIndex(d => d.name === name);
+  if (i < 0) throw new Error(`Unknown deployment: ${name} (have: ${deployments.map(d => d.name).join(', ')})`);
+  return { d: deployments[i], ctx: deploymentContexts(deployments)[i] };
+}
+
+/** Wallet + keys + RPC as the runner sets them up */
+async function connect(options: ProcessOptions = {}): Promise<{ conn: DeploymentConnection; crypto: CryptoKit }> {
+  const { d, ctx } = selectDeployment();
+  const crypto = await initCrypto();
+  const conn = await runInDeployment(ctx, () => connectDeployment(d, ctx, crypto, options));
+  return { conn, crypto };
+}
+
+async function pollAddresses(conn: DeploymentConnection, pollId: number): Promise<PollAddresses> {
+  const pollMap = await runInDeployment(conn.ctx, () => fetchDeployPolls(conn.maci, conn.provider, conn.config.deployBlock));
+  const addrs = pollMap.get(pollId);
+  if (!addrs) throw new Error(`Poll ${pollId}: no DeployPoll event`);
+  return addrs;
+}
+
+// ─── status ──────────────────────────────────────────────────────────
+
+/** Where the poll is, judged from contract state alone */
+async function chainPhase(addrs: PollAddresses, provider: ethers.Provider): Promise<{ phase: PollPhase; detail: string }> {
+  const poll = new ethers.Contract(addrs.poll, POLL_ABI, provider);
+  if (await poll.isVotingOpen()) {
+    const [deployTime, duration] = await poll.getDeployTimeAndDuration();
+    const remaining = Number(deployTime) + Number(duration) - Math.floor(Date.now() / 1000);
+    return { phase: 'voting', detail: `${Math.max(0, Math.floor(remaining / 60))}m remaining` };
+  }
+  const tally = new ethers.Contract(addrs.tally, TALLY_ABI, provider);
+  if (await tally.tallyVerified().catch(() => false)) return { phase: 'finalized', detail: '' };
+  const mp = new ethers.Contract(addrs.mp, MP_ABI, provider);
+  if (await mp.processingComplete().catch(() => false)) return { phase: 'tallying', detail: 'messages processed' };
+  const [stateMerged, messageMerged] = await Promise.all([poll.stateAqMerged(), poll.messageAqMerged()]);
+  if (stateMerged && messageMerged) return { phase: 'processing', detail: 'AccQueues merged' };
+  return { phase: 'merging', detail: 'voting ended, awaiting merge' };
+}
+
+function adminUrl(d: DeploymentConfig): string {
+  const base = (readEnv()('COORDINATOR_ADMIN_URL') || `http://localhost:${STATUS_PORT}`).replace(/\/+$/, '');
+  return flag('deployment') !== undefined ? `${base}/deployments/${encodeURIComponent(d.name)}` : base;
+}
+
+/** The runner's per-poll view, or null if no runner answers */
+async function runnerPolls(d: DeploymentConfig): Promise<Map<number, PollStatusSnapshot> | null> {
+  try {
+    const res = await fetch(`${adminUrl(d)}/status`, { signal: AbortSignal.timeout(3000) });
+    if (!res.ok) return null;
+    const { polls } = await res.json() as { polls: PollStatusSnapshot[] };
+    return new Map(polls.map(p => [p.pollId, p]));
+  } catch {
+    return null;
+  }
+}
+
+async function status(): Promise<void> {
+  const { d, ctx } = selectDeployment();
+  const provider = await connectRpc(d.rpcUrls, d.chainId);
+  const maci = new ethers.Contract(d.maciAddress, MACI_ABI, provider);
+  console.log(`MACI: ${d.maciAddress}${d.name ? ` (${d.name})` : ''}`);
+
+  let keys: CoordinatorKeyring | null = null;
+  try {
+    keys = loadCoordinatorKeys(d.coordinatorKeyEnv);
+  } catch (err) {
+    console.log(`Coordinator keys: ${(err as Error).message?.slice(0, 80)}`);
+  }
+  const crypto = await initCrypto();
+
+  const nextPollId = Number(await maci.nextPollId());
+  const pollMap = await runInDeployment(ctx, () => fetchDeployPolls(maci, provider, d.deployBlock));
+  const runner = await runnerPolls(d);
+  console.log(`Runner: ${runner ? adminUrl(d) : 'not reachable (runner column omitted)'}`);
+  console.log(`\n${nextPollId} poll(s)\n`);
+
+  for (let i = 0; i < nextPollId; i++) {
+    const addrs = pollMap.get(i);
+    if (!addrs) {
+      console.log(`  Poll ${i}: no deploy event`);
+      continue;
+    }
+    const { phase, detail } = await chainPhase(addrs, provider);
+
+    const poll = new ethers.Contract(addrs.poll, POLL_ABI, provider);
+    const pubKey: [bigint, bigint] = [BigInt(await poll.coordinatorPubKeyX()), BigInt(await poll.coordinatorPubKeyY())];
+    const key = keys ? (keys.find(crypto, pubKey) ? 'key held' : `key ${shortPubKey(pubKey)} NOT HELD`) : 'key ?';
+
+    const seen = runner?.get(i);
+    const runnerView = !runner ? '' : seen
+      ? `  runner: ${seen.phase}${seen.failures ? ` (${seen.failures} failure(s): ${seen.lastError ?? ''})` : ''}`
+      : '  runner: -';
+    console.log(`  Poll ${i}: ${phase.padEnd(10)} ${detail ? `${detail}, ` : ''}${key}${runnerView}`);
+  }
+}
+
+// ─── Commands ────────────────────────────────────────────────────────
+
+async function retry(pollId: number): Promise<void> {
+  const { d } = selectDeployment();
+  const token = readEnv()('ADMIN_TOKEN');
+  if (!token) throw new Error('ADMIN_TOKEN not set in .env (must match the runner\'s)');
+
+  const url = `${adminUrl(d)}/admin/polls/${pollId}/retry`;
+  let res: Response;
+  try {
+    res = await fetch(url, { method: 'POST', headers: { Authorization: `Bearer ${token}` }, signal: AbortSignal.timeout(10_000) });
+  } catch (err) {
+    throw new Error(`Runner not reachable at ${url}: ${(err as Error).message?.slice(0, 80)}`);
+  }
+  if (res.status === 404) throw new Error('Runner has no admin endpoint (start it with ADMIN_TOKEN set) or unknown deployment');
+  if (!res.ok) throw new Error(`Runner refused: HTTP ${res.status}`);
+
+  const { retried } = await res.json() as { retried: boolean };
+  console.log(retried
+    ? `Poll ${pollId}: cleared, the runner is checking it now`
+    : `Poll ${pollId}: not blocked in the runner (never failed, or still in progress)`);
+}
+
+// ─── circuits ────────────────────────────────────────────────────────
+
+/** Named profile, or every profile when `name` is not given */
+function circuitProfiles(name: string | undefined): CircuitProfile[] {
+  const registry = circuitRegistry();
+  return name ? [registry.require(name)] : registry.names().map(n => registry.require(n));
+}
+
+async function circuits([sub = 'list', ...args]: string[]): Promise<void> {
+  const name = args[0] && !args[0].startsWith('--') ? args[0] : undefined;
+  const registry = circuitRegistry();
+
+  switch (sub) {
+    case 'list':
+      for (const p of circuitProfiles(name)) {
+        const missing = registry.missingFiles(p).length;
+        console.log(`  ${p.name.padEnd(10)} depth=${p.stateTreeDepth}/${p.messageTreeDepth} batch=${p.messageBatchSize}/${p.tallyBatchSize} `
+          + `options=${p.maxVoteOptions}  ${missing ? `${missing} file(s) missing` : 'ready'}  (${p.source})`);
+      }
+      return;
+
+    case 'check': {
+      let profiles = circuitProfiles(name);
+      let onchain: OnchainVerifyingKeys = {};
+      if (flag('poll') !== undefined) {
+        const pollId = Number(flag('poll'));
+        const { d, ctx } = selectDeployment();
+        const provider = await connectRpc(d.rpcUrls, d.chainId);
+        const maci = new ethers.Contract(d.maciAddress, MACI_ABI, provider);
+        const addrs = (await runInDeployment(ctx, () => fetchDeployPolls(maci, provider, d.deployBlock))).get(pollId);
+        if (!addrs) throw new Error(`Poll ${pollId}: no DeployPoll event`);
+        const shape = await runInDeployment(ctx, () => readPollCircuit(addrs, maci, provider));
+        onchain = shape.onchain;
+        profiles = [registry.select({ ...shape, ...onchain, voteOptions: shape.voteOptions.length }, ctx.circuitProfile)];
+        console.log(`Poll ${pollId}: depth=${shape.stateTreeDepth}/${shape.messageTreeDepth} → ${profiles[0].name}`
+          + ` (${onchain.processVk ? 'VkRegistry keys' : 'verifier bytecode'})`);
+      }
+      let bad = 0;
+      for (const p of profiles) {
+        const report = await checkCircuitArtifacts(p, onchain);
+        for (const f of report.files) console.log(`  ${p.name} ${f.circuit}.${f.file}: ${f.status}`);
+        for (const k of report.keys) console.log(`  ${p.name} ${k.circuit} zkey vs ${k.against}: ${k.match ? 'match' : 'MISMATCH'}`);
+        if (!report.ok) {
+          bad++;
+          console.log(describeArtifactProblems(report).split('\n').map(l => `  ✗ ${l}`).join('\n'));
+        }
+      }
+      if (bad > 0) throw new Error(`${bad} circuit profile(s) failed the check`);
+      return;
+    }
+
+    case 'fetch': {
+      const baseUrl = flag('url') ?? CIRCUIT_BASE_URL;
+      if (!baseUrl) throw new Error('No download location: pass --url or set CIRCUIT_BASE_URL');
+      for (const p of circuitProfiles(name)) {
+        const written = await fetchCircuitArtifacts(p, {
+          baseUrl,
+          token: readEnv()('CIRCUIT_BASE_TOKEN') || undefined,
+          log: (msg) => console.log(msg),
+        });
+        console.log(`${p.name}: ${written.length ? `${written.length} file(s) downloaded` : 'nothing missing'}`);
+      }
+      return;
+    }
+
+    default:
+      throw new Error('Usage: sigil-coordinator circuits list|check|fetch (see src/cli.ts)');
+  }
+}
+
+async function main() {
+  switch (command) {
+    case 'status':
+      await status();
+      return;
+
+    case 'process': {
+      const pollId = pollIdArg();
+      const options: ProcessOptions = { dryRun: rest.includes('--dry-run'), prove: rest.includes('--prove') };
+      const { conn, crypto } = await connect(options);
+      const addrs = await pollAddresses(conn, pollId);
+      if (await new ethers.Contract(addrs.poll, POLL_ABI, conn.provider).isVotingOpen()) {
+        throw new Error(`Poll ${pollId}: voting is still open`);
+      }
+      await runInDeployment(conn.ctx, () => processPoll(
+        pollId, addrs, conn.maci, conn.provider, conn.submitter, conn.coordinatorKeys, crypto, conn.config.deployBlock, options,
+      ));
+      return;
+    }
+
+    case 'merge': {
+      const pollId = pollIdArg();
+      const { conn } = await connect();
+      const addrs = await pollAddresses(conn, pollId);
+      await runInDeployment(conn.ctx, () => conn.submitter.mergeAccQueues(addrs.poll));
+      console.log(`Poll ${pollId}: state and message AccQueues merged`);
+      return;
+    }
+
+    case 'retry':
+      await retry(pollIdArg());
+      return;
+
+    case 'diagnose': {
+      const pollId = pollIdArg();
+      const { d } = selectDeployment();
+      if (rest.includes('--audit')) {
+        showAudit(pollId, d.maciAddress, join(AUDIT_DIR, d.stateDir));
+        return;
+      }
+      await diagnosePoll(
+        pollId,
+        { rpcUrl: d.rpcUrls[0], maciAddress: d.maciAddress, deployBlock: d.deployBlock },
+        loadCoordinatorKeys(d.coordinatorKeyEnv),
+      );
+      return;
+    }
+
+    case 'reset-state-aq': {
+      const { conn } = await connect();
+      const { skipped } = await runInDeployment(conn.ctx, () => conn.submitter.resetStateAqMerge(conn.config.maciAddress));
+      console.log(skipped ? 'State AccQueue merge already reset' : 'State AccQueue merge reset (new signups enabled)');
+      return;
+    }
+
+    case 'keys':
+      await keysCommand(rest);
+      return;
+
+    case 'circuits':
+      await circuits(rest);
+      return;
+
+    default:
+      console.log('Usage: sigil-coordinator status|process|merge|retry|diagnose|reset-state-aq|keys|circuits (see src/cli.ts)');
+      process.exit(command ? 1 : 0);
+  }
+}
+
+main().then(() => process.exit(0)).catch((err) => {
+  // Sanitized like the runner: never print raw keys
+  const errMsg = (err as Error).message?.slice(0, 160)?.replace(/0x[a-fA-F0-9]{40,}/g, '[REDACTED]') ?? 'unknown';
+  console.error(`Error: ${errMsg}`);
+  process.exit(1);
+});
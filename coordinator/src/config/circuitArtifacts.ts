@@ -0,0 +1,270 @@
+/**
+ * Circuit Artifact Integrity + Fetcher
+ *
+ * A proof from the wrong zkey reverts on-chain only after the coordinator has
+ * spent minutes proving it, so the files of a circuit profile (see
+ * config/circuits.ts) are checked before use:
+ *
+ *   - every file with a manifest sha256 must hash to it
+ *   - the verifying key embedded in each zkey must equal the profile's vkey
+ *     file (if there is one) and what the poll's contracts verify with: the VkRegistry entry,
+ *     or (no registry entry) the constants compiled into the deployed
+ *     Groth16 verifier
+ *
+ * Missing files can be downloaded from a base URL that serves them by file
+ * name (e.g. the GitHub release scripts/upload-circuits.sh creates). A
+ * download goes to `<file>.partial` first and resumes from there with an
+ * HTTP Range request after an interruption; it is only moved into place
+ * once complete and, when the manifest has a hash, verified.
+ */
+
+import { createWriteStream, existsSync, readFileSync, renameSync, rmSync, statSync } from 'fs';
+import { mkdir } from 'fs/promises';
+import { basename, dirname } from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import { ethers } from 'ethers';
+import { CircuitProfileError, sameVerifyingKey, sha256File, vkeyToArray, type CircuitFiles, type CircuitProfile } from './circuits.js';
+
+export type CircuitName = 'processMessages' | 'tallyVotes';
+export type ArtifactFile = 'wasm' | 'zkey' | 'vkey';
+
+const CIRCUITS: CircuitName[] = ['processMessages', 'tallyVotes'];
+const FILES: ArtifactFile[] = ['wasm', 'zkey', 'vkey'];
+
+/** snarkjs verification_key.json (Groth16) */
+export type Groth16Vkey = Parameters<typeof vkeyToArray>[0];
+
+/** What a poll's contracts verify proofs with (see readPollVerifyingKeys) */
+export interface OnchainVerifyingKeys {
+  processVk?: bigint[];          // VkRegistry.getProcessVk(stateTreeDepth, messageTreeDepth)
+  tallyVk?: bigint[];
+  processVerifierCode?: string;  // deployed bytecode of MessageProcessor.verifier()
+  tallyVerifierCode?: string;
+}
+
+export interface ArtifactFileCheck {
+  circuit: CircuitName;
+  file: ArtifactFile;
+  path: string;
+  status: 'ok' | 'unhashed' | 'missing' | 'hashMismatch';
+}
+
+export interface VerifyingKeyCheck {
+  circuit: CircuitName;
+  against: 'vkeyFile' | 'vkRegistry' | 'verifier';
+  match: boolean;
+}
+
+export interface ArtifactReport {
+  profile: string;
+  files: ArtifactFileCheck[];
+  keys: VerifyingKeyCheck[];
+  ok: boolean;
+}
+
+const VK_REGISTRY_ABI = [
+  'function getProcessVk(uint256 _stateTreeDepth, uint256 _messageTreeDepth) view returns (uint256[])',
+  'function getTallyVk(uint256 _stateTreeDepth, uint256 _messageTreeDepth) view returns (uint256[])',
+];
+
+const VERIFIER_OWNER_ABI = [
+  'function vkRegistry() view returns (address)',
+  'function verifier() view returns (address)',
+];
+
+/**
+ * VkRegistry entries and verifier bytecode for a poll's MessageProcessor /
+ * Tally. Depths without registered keys revert (ProcessVkNotSet /
+ * TallyVkNotSet) and come back undefined, as does everything when the poll
+ * was deployed without a registry.
+ */
+export async function readPollVerifyingKeys(
+  provider: ethers.Provider,
+  addrs: { mp: string; tally: string },
+  stateTreeDepth: number,
+  messageTreeDepth: number,
+): Promise<OnchainVerifyingKeys> {
+  const mp = new ethers.Contract(addrs.mp, VERIFIER_OWNER_ABI, provider);
+  const tally = new ethers.Contract(addrs.tally, VERIFIER_OWNER_ABI, provider);
+  const [vkRegistryAddr, mpVerifier, tallyVerifier] = await Promise.all([mp.vkRegistry(), mp.verifier(), tally.verifier()]);
+
+  const keys: OnchainVerifyingKeys = {};
+  if (vkRegistryAddr !== ethers.ZeroAddress) {
+    const vkRegistry = new ethers.Contract(vkRegistryAddr, VK_REGISTRY_ABI, provider);
+    const read = (fn: () => Promise<bigint[]>) => fn().then(vk => [...vk].map(BigInt), () => undefined);
+    [keys.processVk, keys.tallyVk] = await Promise.all([
+      read(() => vkRegistry.getProcessVk(stateTreeDepth, messageTreeDepth)),
+      read(() => vkRegistry.getTallyVk(stateTreeDepth, messageTreeDepth)),
+    ]);
+  }
+  [keys.processVerifierCode, keys.tallyVerifierCode] = await Promise.all([
+    provider.getCode(mpVerifier),
+    provider.getCode(tallyVerifier),
+  ]);
+  return keys;
+}
+
+/**
+ * Whether a snarkjs-exported Groth16 verifier was compiled for `vk`: its key
+ * is inlined as constants, so each value must appear (PUSH immediate, no
+ * leading zero bytes) in the runtime bytecode
+ */
+export function verifierCodeMatches(code: string, vk: bigint[]): boolean {
+  const hex = code.toLowerCase().replace(/^0x/, '');
+  if (hex.length === 0) return false;
+  return vk.every((v) => {
+    let word = v.toString(16);
+    if (word.length % 2) word = `0${word}`;
+    return hex.includes(word);
+  });
+}
+
+/** The verifying key embedded in a zkey (snarkjs reads only its header sections) */
+export async function zkeyVerifyingKey(zkeyPath: string): Promise<Groth16Vkey> {
+  const snarkjs = await import('snarkjs');
+  return snarkjs.zKey.exportVerificationKey(zkeyPath);
+}
+
+/**
+ * Hash every file of `profile` against its manifest and compare each zkey's
+ * embedded key with the vkey file and, when given, the poll's on-chain keys.
+ * A zkey that is missing or fails its hash is not opened.
+ */
+export async function checkCircuitArtifacts(
+  profile: CircuitProfile,
+  onchain: OnchainVerifyingKeys = {},
+  exportVkey: (zkeyPath: string) => Promise<Groth16Vkey> = zkeyVerifyingKey,
+): Promise<ArtifactReport> {
+  const files: ArtifactFileCheck[] = [];
+  const keys: VerifyingKeyCheck[] = [];
+
+  for (const circuit of CIRCUITS) {
+    const c: CircuitFiles = profile[circuit];
+    for (const file of FILES) {
+      const path = c[file];
+      const expected = c.sha256[file];
+      const status = !existsSync(path) ? 'missing'
+        : !expected ? 'unhashed'
+          : await sha256File(path) === expected ? 'ok' : 'hashMismatch';
+      files.push({ circuit, file, path, status });
+    }
+
+    const usable = (file: ArtifactFile) => files.some(f => f.circuit === circuit && f.file === file && (f.status === 'ok' || f.status === 'unhashed'));
+    if (!usable('zkey')) continue;
+    const zkeyVk = vkeyToArray(await exportVkey(c.zkey));
+
+    if (usable('vkey')) {
+      const fileVk = vkeyToArray(JSON.parse(readFileSync(c.vkey, 'utf8')));
+      keys.push({ circuit, against: 'vkeyFile', match: sameVerifyingKey(zkeyVk, fileVk) });
+    }
+    const registryVk = circuit === 'processMessages' ? onchain.processVk : onchain.tallyVk;
+    const verifierCode = circuit === 'processMessages' ? onchain.processVerifierCode : onchain.tallyVerifierCode;
+    if (registryVk) {
+      keys.push({ circuit, against: 'vkRegistry', match: sameVerifyingKey(zkeyVk, registryVk) });
+    } else if (verifierCode) {
+      keys.push({ circuit, against: 'verifier', match: verifierCodeMatches(verifierCode, zkeyVk) });
+    }
+  }
+
+  // Proving needs only wasm + zkey; a vkey file is one more cross-check when present
+  const ok = files.every(f => f.status === 'ok' || f.status === 'unhashed' || (f.status === 'missing' && f.file === 'vkey'))
+    && keys.every(k => k.match);
+  return { profile: profile.name, files, keys, ok };
+}
+
+/** One line per problem in a report ('' when it is ok; a missing vkey file is not one) */
+export function describeArtifactProblems(report: ArtifactReport): string {
+  const problems = [
+    ...report.files.filter(f => f.status === 'hashMismatch' || (f.status === 'missing' && f.file !== 'vkey'))
+      .map(f => `${f.path} ${f.status === 'missing' ? 'not found' : 'does not match its sha256'}`),
+    ...report.keys.filter(k => !k.match)
+      .map(k => `${report.profile} ${k.circuit} zkey does not match the ${k.against === 'vkeyFile' ? 'vkey file' : k.against === 'vkRegistry' ? 'VkRegistry key' : 'deployed verifier'}`),
+  ];
+  return problems.join('\n');
+}
+
+export interface FetchOptions {
+  baseUrl: string;             // files are fetched as <baseUrl>/<file name>
+  token?: string;              // sent as `Authorization: Bearer <token>`
+  attempts?: number;           // per file; each retry resumes the partial download (default: 3)
+  timeoutMs?: number;          // per request (default: 10 minutes, prod zkeys are large)
+  log?: (msg: string) => void;
+}
+
+/** false when the server has no such file (404) */
+async function download(url: string, path: string, expected: string | undefined, options: FetchOptions): Promise<boolean> {
+  const partial = `${path}.partial`;
+  await mkdir(dirname(path), { recursive: true });
+  const attempts = options.attempts ?? 3;
+
+  for (let attempt = 1; ; attempt++) {
+    const offset = existsSync(partial) ? statSync(partial).size : 0;
+    const headers: Record<string, string> = {};
+    if (options.token) headers.Authorization = `Bearer ${options.token}`;
+    if (offset > 0) headers.Range = `bytes=${offset}-`;
+
+    try {
+      const res = await fetch(url, { headers, signal: AbortSignal.timeout(options.timeoutMs ?? 600_000) });
+      if (res.status === 404) {
+        await res.body?.cancel();
+        return false;
+      }
+      if (res.status === 416 && offset > 0) {
+        // Nothing left to send: the partial file is already complete
+        await res.body?.cancel();
+      } else {
+        if (res.status !== 200 && res.status !== 206) throw new Error(`HTTP ${res.status}`);
+        if (!res.body) throw new Error('empty response');
+        // 200 to a Range request: the server ignored it, start over
+        const append = res.status === 206 && offset > 0;
+        if (offset > 0) options.log?.(`  ${basename(path)}: ${append ? `resuming at ${offset} bytes` : 'server does not resume, restarting'}`);
+        await pipeline(Readable.fromWeb(res.body as WebReadableStream<Uint8Array>), createWriteStream(partial, { flags: append ? 'a' : 'w' }));
+      }
+    } catch (err) {
+      if (attempt >= attempts) {
+        throw new CircuitProfileError(`Download of ${url} failed after ${attempts} attempt(s): ${(err as Error).message?.slice(0, 80)}`);
+      }
+      options.log?.(`  ${basename(path)}: ${(err as Error).message?.slice(0, 80)}, retrying (${attempt}/${attempts})`);
+      continue;
+    }
+
+    if (expected && await sha256File(partial) !== expected) {
+      rmSync(partial, { force: true });
+      throw new CircuitProfileError(`Downloaded ${basename(path)} does not match its sha256`);
+    }
+    renameSync(partial, path);
+    return true;
+  }
+}
+
+/**
+ * Download the files of `profile` that are missing or fail their hash.
+ * Verifying keys are optional (the zkey carries its own, and older releases
+ * don't have them); a wasm or zkey the server lacks is an error. Returns the
+ * paths written.
+ */
+export async function fetchCircuitArtifacts(profile: CircuitProfile, options: FetchOptions): Promise<string[]> {
+  const base = options.baseUrl.replace(/\/+$/, '');
+  const written: string[] = [];
+  for (const circuit of CIRCUITS) {
+    const c = profile[circuit];
+    for (const file of FILES) {
+      const path = c[file];
+      const expected = c.sha256[file];
+      if (existsSync(path) && (!expected || await sha256File(path) === expected)) continue;
+
+      const url = `${base}/${encodeURIComponent(basename(path))}`;
+      options.log?.(`  Fetching ${basename(path)} for circuit profile "${profile.name}"...`);
+      if (await download(url, path, expected, options)) {
+        written.push(path);
+      } else if (file === 'vkey') {
+        options.log?.(`  ${basename(path)}: not on the server, skipped`);
+      } else {
+        throw new CircuitProfileError(`${url} not found`);
+      }
+    }
+  }
+  return written;
+}
@@ -0,0 +1,343 @@
+/**
+ * Circuit Profiles
+ *
+ * A profile describes one compiled MessageProcessor + TallyVotes pair: the
+ * tree depths and batch sizes it was compiled with and where its wasm / zkey
+ * / verifying key live. Each build directory carries a manifest
+ * (`circuit-profile.json`, written by circuits/compile_maci.sh):
+ *
+ *   {
+ *     "name": "prod",
+ *     "stateTreeDepth": 4,
+ *     "messageTreeDepth": 4,
+ *     "messageBatchSize": 5,
+ *     "tallyBatchSize": 5,
+ *     "maxVoteOptions": 25,
+ *     "processMessages": {
+ *       "wasm": "MessageProcessor_prod_js/MessageProcessor_prod.wasm",
+ *       "zkey": "MessageProcessor_prod_final.zkey",
+ *       "vkey": "MessageProcessor_prod_verification_key.json",
+ *       "sha256": { "wasm": "…", "zkey": "…", "vkey": "…" }
+ *     },
+ *     "tallyVotes": { … same shape … }
+ *   }
+ *
+ * Paths are relative to the manifest; `sha256` entries are optional and, when
+ * present, checked before a file is used. The runner picks a profile per poll
+ * from the poll's on-chain shape (MACI.stateTreeDepth, the message AccQueue
+ * depth and the VkRegistry keys its MessageProcessor / Tally verify against),
+ * so a new circuit size is a new build directory, not a code change.
+ *
+ * The original `dev` (circuits/build_maci) and `prod` (circuits/build_prod)
+ * sets stay available as built-in profiles when no manifest of that name
+ * is found.
+ */
+
+import { createHash } from 'crypto';
+import { createReadStream, existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+
+export const PROFILE_MANIFEST = 'circuit-profile.json';
+
+/** One circuit's files; `sha256` maps a file kind to its expected hex digest */
+export interface CircuitFiles {
+  wasm: string;
+  zkey: string;
+  vkey: string;
+  sha256: Partial<Record<'wasm' | 'zkey' | 'vkey', string>>;
+}
+
+export interface CircuitProfile {
+  name: string;
+  stateTreeDepth: number;
+  messageTreeDepth: number;
+  messageBatchSize: number;
+  tallyBatchSize: number;
+  maxVoteOptions: number;      // options the tally covers (TallyVotes 5^voteOptionTreeDepth)
+  processMessages: CircuitFiles;
+  tallyVotes: CircuitFiles;
+  source: string;              // manifest path, or 'built-in'
+}
+
+/** What the chain says about a poll's circuits (see CircuitRegistry.select) */
+export interface PollCircuitShape {
+  stateTreeDepth: number;
+  messageTreeDepth: number;
+  /** VkRegistry entries for (stateTreeDepth, messageTreeDepth); undefined = not registered / no registry */
+  processVk?: bigint[];
+  tallyVk?: bigint[];
+  /** Labelled options of a multi-choice poll (Poll.numVoteOptions()); 0 / undefined = for/against/abstain */
+  voteOptions?: number;
+}
+
+/** No usable profile, a broken manifest or a circuit file that fails its hash */
+export class CircuitProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CircuitProfileError';
+  }
+}
+
+/** The circuits this repo has always shipped: dev (depth=2, batch=2) and prod (depth=4, batch=5) */
+export function builtinCircuitProfiles(projectRoot: string): CircuitProfile[] {
+  const files = (dir: string, name: string): CircuitFiles => ({
+    wasm: resolve(projectRoot, dir, `${name}_js/${name}.wasm`),
+    zkey: resolve(projectRoot, dir, `${name}_final.zkey`),
+    vkey: resolve(projectRoot, dir, `${name}_verification_key.json`),
+    sha256: {},
+  });
+  return [
+    {
+      name: 'dev',
+      stateTreeDepth: 2,
+      messageTreeDepth: 2,
+      messageBatchSize: 2,
+      tallyBatchSize: 2,
+      maxVoteOptions: 5,
+      processMessages: files('circuits/build_maci', 'MessageProcessor'),
+      tallyVotes: files('circuits/build_maci', 'TallyVotes'),
+      source: 'built-in',
+    },
+    {
+      name: 'prod',
+      stateTreeDepth: 4,
+      messageTreeDepth: 4,
+      messageBatchSize: 5,
+      tallyBatchSize: 5,
+      maxVoteOptions: 25,
+      processMessages: files('circuits/build_prod', 'MessageProcessor_prod'),
+      tallyVotes: files('circuits/build_prod', 'TallyVotes_prod'),
+      source: 'built-in',
+    },
+  ];
+}
+
+function fail(path: string, msg: string): never {
+  throw new CircuitProfileError(`Invalid circuit profile ${path}: ${msg}`);
+}
+
+function positiveInt(m: Record<string, unknown>, key: string, path: string): number {
+  const v = m[key];
+  if (typeof v !== 'number' || !Number.isInteger(v) || v <= 0) fail(path, `${key} must be a positive integer`);
+  return v;
+}
+
+function circuitFiles(m: Record<string, unknown>, key: string, path: string): CircuitFiles {
+  const c = m[key] as Record<string, unknown> | undefined;
+  if (typeof c !== 'object' || c === null) fail(path, `${key} must be an object`);
+  const file = (k: string) => {
+    if (typeof c[k] !== 'string' || !c[k]) fail(path, `${key}.${k} must be a path`);
+    return resolve(dirname(path), c[k] as string);
+  };
+  const sha256: CircuitFiles['sha256'] = {};
+  for (const [k, v] of Object.entries((c.sha256 ?? {}) as Record<string, unknown>)) {
+    if (k !== 'wasm' && k !== 'zkey' && k !== 'vkey') fail(path, `${key}.sha256 has unknown file "${k}"`);
+    if (typeof v !== 'string' || !/^(0x)?[0-9a-f]{64}$/i.test(v)) fail(path, `${key}.sha256.${k} must be a hex sha256`);
+    sha256[k] = v.replace(/^0x/, '').toLowerCase();
+  }
+  return { wasm: file('wasm'), zkey: file('zkey'), vkey: file('vkey'), sha256 };
+}
+
+/** Read and validate a manifest; file paths come back absolute */
+export function loadCircuitProfile(path: string): CircuitProfile {
+  let m: Record<string, unknown>;
+  try {
+    m = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (err) {
+    throw new CircuitProfileError(`Cannot read circuit profile ${path}: ${(err as Error).message}`);
+  }
+  if (typeof m !== 'object' || m === null) fail(path, 'must be a JSON object');
+  if (typeof m.name !== 'string' || !/^[A-Za-z0-9_.-]+$/.test(m.name)) {
+    fail(path, 'name may only contain letters, digits, ".", "_" and "-"');
+  }
+  return {
+    name: m.name,
+    stateTreeDepth: positiveInt(m, 'stateTreeDepth', path),
+    messageTreeDepth: positiveInt(m, 'messageTreeDepth', path),
+    messageBatchSize: positiveInt(m, 'messageBatchSize', path),
+    tallyBatchSize: positiveInt(m, 'tallyBatchSize', path),
+    maxVoteOptions: positiveInt(m, 'maxVoteOptions', path),
+    processMessages: circuitFiles(m, 'processMessages', path),
+    tallyVotes: circuitFiles(m, 'tallyVotes', path),
+    source: path,
+  };
+}
+
+/**
+ * snarkjs verification_key.json → the uint256[] layout VkRegistry stores:
+ * alpha1 (x, y), beta2, gamma2, delta2 (each x1, x0, y1, y0, the Solidity
+ * verifier's G2 order), then every IC point (x, y)
+ */
+export function vkeyToArray(vkey: {
+  vk_alpha_1: string[];
+  vk_beta_2: string[][];
+  vk_gamma_2: string[][];
+  vk_delta_2: string[][];
+  IC: string[][];
+}): bigint[] {
+  const g1 = (p: string[]) => [BigInt(p[0]), BigInt(p[1])];
+  const g2 = (p: string[][]) => [BigInt(p[0][1]), BigInt(p[0][0]), BigInt(p[1][1]), BigInt(p[1][0])];
+  return [
+    ...g1(vkey.vk_alpha_1),
+    ...g2(vkey.vk_beta_2),
+    ...g2(vkey.vk_gamma_2),
+    ...g2(vkey.vk_delta_2),
+    ...vkey.IC.flatMap(g1),
+  ];
+}
+
+/**
+ * Inverse of vkeyToArray: a VkRegistry entry as a snarkjs (bn128)
+ * verification key, so proofs can be checked against the on-chain key itself
+ */
+export function vkeyFromArray(vk: bigint[]) {
+  const s = vk.map(String);
+  const g1 = (i: number) => [s[i], s[i + 1], '1'];
+  const g2 = (i: number) => [[s[i + 1], s[i]], [s[i + 3], s[i + 2]], ['1', '0']];
+  const IC: string[][] = [];
+  for (let i = 14; i + 1 < s.length; i += 2) IC.push(g1(i));
+  return {
+    protocol: 'groth16', curve: 'bn128', nPublic: IC.length - 1,
+    vk_alpha_1: g1(0), vk_beta_2: g2(2), vk_gamma_2: g2(6), vk_delta_2: g2(10), IC,
+  };
+}
+
+/** Streaming sha256 (zkeys run to hundreds of MB) */
+export function sha256File(path: string): Promise<string> {
+  return new Promise((resolvePromise, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(path)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolvePromise(hash.digest('hex')));
+  });
+}
+
+/** Two flattened verifying keys (see vkeyToArray) are the same key */
+export function sameVerifyingKey(a: bigint[], b: bigint[]): boolean {
+  return a.length === b.length && a.every((v, i) => v === b[i]);
+}
+
+/**
+ * Profiles by name, plus per-poll selection (file integrity: see
+ * config/circuitArtifacts.ts). Built-in
+ * profiles only fill names no manifest claims; two manifests with the same
+ * name are an error.
+ */
+export class CircuitRegistry {
+  private readonly profiles = new Map<string, CircuitProfile>();
+  private readonly vks = new Map<string, bigint[] | null>();
+
+  constructor(profiles: CircuitProfile[], builtins: CircuitProfile[] = []) {
+    for (const p of profiles) {
+      const existing = this.profiles.get(p.name);
+      if (existing) throw new CircuitProfileError(`Circuit profile "${p.name}" defined twice (${existing.source}, ${p.source})`);
+      this.profiles.set(p.name, p);
+    }
+    for (const p of builtins) {
+      if (!this.profiles.has(p.name)) this.profiles.set(p.name, p);
+    }
+  }
+
+  get(name: string): CircuitProfile | undefined {
+    return this.profiles.get(name);
+  }
+
+  /** Like get, but an unknown name is an error listing the known ones */
+  require(name: string): CircuitProfile {
+    const profile = this.profiles.get(name);
+    if (!profile) throw new CircuitProfileError(`Unknown circuit profile "${name}" (have: ${this.names().join(', ')})`);
+    return profile;
+  }
+
+  names(): string[] {
+    return [...this.profiles.keys()];
+  }
+
+  /** Flattened verifying key (see vkeyToArray), or null if the file is missing / unreadable */
+  verifyingKey(path: string): bigint[] | null {
+    if (!this.vks.has(path)) {
+      let vk: bigint[] | null = null;
+      try {
+        vk = vkeyToArray(JSON.parse(readFileSync(path, 'utf8')));
+      } catch {
+        // missing or not a Groth16 key: can't match a VkRegistry entry
+      }
+      this.vks.set(path, vk);
+    }
+    return this.vks.get(path)!;
+  }
+
+  /**
+   * The profile a poll was deployed for: depths must match and the tally
+   * must cover the poll's options (3 for a for/against/abstain poll); when VkRegistry
+   * holds keys for the poll, the profile's verifying keys must equal them
+   * (proofs from any other zkey would revert). Several candidates left →
+   * `preferred` (the deployment's configured profile) breaks the tie.
+   */
+  select(shape: PollCircuitShape, preferred?: string): CircuitProfile {
+    const { stateTreeDepth, messageTreeDepth } = shape;
+    const voteOptions = Math.max(shape.voteOptions ?? 0, 3);
+    const byDepth = [...this.profiles.values()].filter(p =>
+      p.stateTreeDepth === stateTreeDepth && p.messageTreeDepth === messageTreeDepth && p.maxVoteOptions >= voteOptions);
+    if (byDepth.length === 0) {
+      throw new CircuitProfileError(
+        `No circuit profile for stateTreeDepth=${stateTreeDepth}, messageTreeDepth=${messageTreeDepth}, ${voteOptions} vote options (have: ${this.names().join(', ')})`);
+    }
+
+    const matches = (vk: bigint[] | undefined, path: string) => {
+      if (!vk) return true;
+      const local = this.verifyingKey(path);
+      return local !== null && sameVerifyingKey(local, vk);
+    };
+    const candidates = byDepth.filter(p =>
+      matches(shape.processVk, p.processMessages.vkey) && matches(shape.tallyVk, p.tallyVotes.vkey));
+    if (candidates.length === 0) {
+      throw new CircuitProfileError(
+        `VkRegistry keys for depth ${stateTreeDepth}/${messageTreeDepth} match none of ${byDepth.map(p => p.name).join(', ')} (verifying key files differ or are missing)`);
+    }
+    if (candidates.length === 1) return candidates[0];
+    const chosen = candidates.find(p => p.name === preferred);
+    if (!chosen) {
+      throw new CircuitProfileError(
+        `Several circuit profiles fit depth ${stateTreeDepth}/${messageTreeDepth} (${candidates.map(p => p.name).join(', ')}); set the deployment's circuitMode to one of them`);
+    }
+    return chosen;
+  }
+
+  /** Paths of the files proving with `profile` needs (wasm + zkey) that don't exist */
+  missingFiles(profile: CircuitProfile): string[] {
+    return [profile.processMessages, profile.tallyVotes]
+      .flatMap(c => [c.wasm, c.zkey])
+      .filter(f => !existsSync(f));
+  }
+}
+
+/** Manifests in each dir and in its immediate subdirectories (circuits/<build>/circuit-profile.json) */
+export function findCircuitProfiles(dirs: string[]): string[] {
+  const found: string[] = [];
+  for (const dir of dirs) {
+    if (!existsSync(dir)) continue;
+    if (statSync(dir).isFile()) {
+      found.push(dir);
+      continue;
+    }
+    if (existsSync(join(dir, PROFILE_MANIFEST))) found.push(join(dir, PROFILE_MANIFEST));
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      const manifest = join(dir, entry.name, PROFILE_MANIFEST);
+      if (entry.isDirectory() && existsSync(manifest)) found.push(manifest);
+    }
+  }
+  return [...new Set(found.map(f => resolve(f)))];
+}
+
+/**
+ * Registry for a checkout: manifests under circuits/ plus CIRCUIT_PROFILES
+ * (comma-separated manifest files or directories, relative to the project
+ * root), with the built-in dev/prod profiles behind them
+ */
+export function loadCircuitRegistry(projectRoot: string, get: (k: string) => string | undefined): CircuitRegistry {
+  const extra = (get('CIRCUIT_PROFILES') ?? '').split(',').map(s => s.trim()).filter(Boolean).map(p => resolve(projectRoot, p));
+  const manifests = findCircuitProfiles([resolve(projectRoot, 'circuits'), ...extra]);
+  return new CircuitRegistry(manifests.map(loadCircuitProfile), builtinCircuitProfiles(projectRoot));
+}
@@ -0,0 +1,114 @@
+/**
+ * Coordinator Deployments
+ *
+ * One runner can service several MACI instances, possibly on different
+ * chains. Each deployment is described in a JSON file (DEPLOYMENTS_FILE):
+ *
+ *   {
+ *     "deployments": [
+ *       {
+ *         "name": "sepolia-dev",
+ *         "chainId": 11155111,
+ *         "rpcUrls": ["https://ethereum-sepolia-rpc.publicnode.com"],
+ *         "maciAddress": "0x…",
+ *         "deployBlock": 7000000,
+ *         "circuitMode": "dev",
+ *         "coordinatorKeyEnv": "COORDINATOR_PRIVATE_KEY",
+ *         "walletKeyEnv": "PRIVATE_KEY"
+ *       }
+ *     ]
+ *   }
+ *
+ * Keys are never stored in the file: `coordinatorKeyEnv` / `walletKeyEnv`
+ * name the env (.env) variables that hold them. Runtime state (checkpoints,
+ * audit logs, tally.json) goes to a per-deployment subdirectory (`stateDir`,
+ * default: `name`) so instances never read each other's files. `circuitMode`
+ * names a circuit profile (see config/circuits.ts); each poll still gets the
+ * profile its on-chain depths and verifying keys call for.
+ */
+
+import { readFileSync } from 'fs';
+
+export interface DeploymentConfig {
+  name: string;                // log prefix, status route and default stateDir
+  chainId: number;             // checked against the RPC (0 = don't check)
+  rpcUrls: string[];           // tried in order until one answers with chainId
+  maciAddress: string;
+  deployBlock: number;
+  circuitMode: string;         // default circuit profile (config/circuits.ts) when a poll fits several
+  coordinatorKeyEnv: string;   // env var holding the Baby Jubjub key
+  walletKeyEnv: string;        // env var holding the tx signer key
+  stateDir: string;            // subdirectory for checkpoints / audit / tally ('' = shared root)
+}
+
+function fail(where: string, msg: string): never {
+  throw new Error(`Invalid deployments config: ${where} ${msg}`);
+}
+
+function str(d: Record<string, unknown>, key: string, where: string, fallback?: string): string {
+  const v = d[key] ?? fallback;
+  if (typeof v !== 'string' || v.length === 0) fail(where, `${key} must be a non-empty string`);
+  return v;
+}
+
+function int(d: Record<string, unknown>, key: string, where: string, fallback?: number): number {
+  const v = d[key] ?? fallback;
+  if (typeof v !== 'number' || !Number.isInteger(v) || v < 0) fail(where, `${key} must be a non-negative integer`);
+  return v;
+}
+
+/** Validate a parsed deployments file (see the header for the shape) */
+export function parseDeployments(raw: unknown): DeploymentConfig[] {
+  const list = (raw as { deployments?: unknown })?.deployments;
+  if (!Array.isArray(list) || list.length === 0) fail('root:', '"deployments" must be a non-empty array');
+
+  const deployments = list.map((entry, i): DeploymentConfig => {
+    if (typeof entry !== 'object' || entry === null) fail(`deployments[${i}]`, 'must be an object');
+    const d = entry as Record<string, unknown>;
+    const name = str(d, 'name', `deployments[${i}]`);
+    const where = `deployment "${name}":`;
+    if (!/^[A-Za-z0-9_.-]+$/.test(name)) fail(where, 'name may only contain letters, digits, ".", "_" and "-"');
+
+    const rpcUrls = d.rpcUrls;
+    if (!Array.isArray(rpcUrls) || rpcUrls.length === 0 || rpcUrls.some((u) => typeof u !== 'string' || !u)) {
+      fail(where, 'rpcUrls must be a non-empty array of URLs');
+    }
+    const maciAddress = str(d, 'maciAddress', where);
+    if (!/^0x[0-9a-fA-F]{40}$/.test(maciAddress)) fail(where, 'maciAddress must be a 20-byte hex address');
+    const circuitMode = str(d, 'circuitMode', where, 'dev');
+    if (!/^[A-Za-z0-9_.-]+$/.test(circuitMode)) fail(where, 'circuitMode must be a circuit profile name');
+    const stateDir = str(d, 'stateDir', where, name);
+    if (!/^[A-Za-z0-9_.-]+$/.test(stateDir) || stateDir === '.' || stateDir === '..') fail(where, 'stateDir must be a plain directory name');
+
+    return {
+      name,
+      chainId: int(d, 'chainId', where),
+      rpcUrls: rpcUrls as string[],
+      maciAddress,
+      deployBlock: int(d, 'deployBlock', where, 0),
+      circuitMode,
+      coordinatorKeyEnv: str(d, 'coordinatorKeyEnv', where, 'COORDINATOR_PRIVATE_KEY'),
+      walletKeyEnv: str(d, 'walletKeyEnv', where, 'PRIVATE_KEY'),
+      stateDir,
+    };
+  });
+
+  const seen = new Set<string>();
+  for (const d of deployments) {
+    for (const key of [`name:${d.name}`, `stateDir:${d.stateDir}`, `maci:${d.chainId}:${d.maciAddress.toLowerCase()}`]) {
+      if (seen.has(key)) fail(`deployment "${d.name}":`, `duplicates another deployment's ${key.split(':')[0]}`);
+      seen.add(key);
+    }
+  }
+  return deployments;
+}
+
+export function loadDeploymentsFile(path: string): DeploymentConfig[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (err) {
+    throw new Error(`Cannot read deployments file ${path}: ${(err as Error).message}`);
+  }
+  return parseDeployments(raw);
+}
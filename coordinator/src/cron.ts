@@ -7,34 +7,31 @@
  *
  * Usage:
  *   cd coordinator && npx tsx src/cron.ts
+ *   cd coordinator && npx tsx src/cron.ts --dry-run [--prove]   (no transactions; see run.ts)
  *
  * Environment:
- *   PRIVATE_KEY             — Ethereum private key for on-chain tx
- *   COORDINATOR_PRIVATE_KEY — Baby Jubjub private key for MACI ECDH
+ *   PRIVATE_KEY             — Ethereum private key for on-chain tx (or SIGNER=keystore|remote, see run.ts)
+ *   COORDINATOR_PRIVATE_KEY — Baby Jubjub private key for MACI ECDH (or COORDINATOR_KEYSTORE, see run.ts)
  *   SEPOLIA_RPC_URL         — RPC endpoint (default: publicnode)
+ *   CIRCUIT_MODE / CIRCUIT_PROFILES — circuit profiles (see run.ts, config/circuits.ts)
+ *   NOTIFY_*, LOW_BALANCE_ETH — operator alerts (see run.ts, notify/notifier.ts)
  */
 
 import { ethers } from 'ethers';
-import { existsSync } from 'fs';
-import { resolve, dirname } from 'path';
-import { fileURLToPath } from 'url';
 import {
+  circuitRegistry,
   loadConfig,
-  initCrypto,
+  createSubmitter,
+  checkBalance,
+  notifier,
+  fetchDeployPolls,
   processPoll,
   MACI_ABI,
+  type ProcessOptions,
   POLL_ABI,
   TALLY_ABI,
-  type PollAddresses,
 } from './run.js';
-
-const __dirname = dirname(fileURLToPath(import.meta.url));
-const PROJECT_ROOT = resolve(__dirname, '../..');
-
-const MP_WASM = resolve(PROJECT_ROOT, 'circuits/build_maci/MessageProcessor_js/MessageProcessor.wasm');
-const MP_ZKEY = resolve(PROJECT_ROOT, 'circuits/build_maci/MessageProcessor_final.zkey');
-const TV_WASM = resolve(PROJECT_ROOT, 'circuits/build_maci/TallyVotes_js/TallyVotes.wasm');
-const TV_ZKEY = resolve(PROJECT_ROOT, 'circuits/build_maci/TallyVotes_final.zkey');
+import { initCrypto } from './crypto/kit.js';
 
 function log(msg: string) {
   console.log(`[${new Date().toISOString()}] ${msg}`);
@@ -56,31 +53,34 @@ async function retryRpc<T>(fn: () => Promise<T>, maxRetries = 3): Promise<T> {
   throw new Error('retryRpc: unreachable');
 }
 
-async function main() {
-  log('SIGIL Coordinator Cron — one-shot mode');
+const options: ProcessOptions = { dryRun: process.argv.includes('--dry-run'), prove: process.argv.includes('--prove') };
 
-  // Verify circuit files exist
-  for (const f of [MP_WASM, MP_ZKEY, TV_WASM, TV_ZKEY]) {
-    if (!existsSync(f)) {
-      log(`FATAL: Circuit file not found: ${f}`);
-      process.exit(1);
+async function main() {
+  log(`SIGIL Coordinator Cron — one-shot mode${options.dryRun ? ' (DRY RUN: no transactions)' : ''}`);
+
+  // Each poll is proven with the profile its contracts call for (see config/circuits.ts);
+  // a profile without its files fails only the polls that need it
+  const circuits = circuitRegistry();
+  if (!options.dryRun || options.prove) {
+    for (const name of circuits.names()) {
+      const missing = circuits.missingFiles(circuits.require(name));
+      log(`Circuit profile ${name}: ${missing.length === 0 ? 'ready' : `${missing.length} file(s) missing`}`);
     }
   }
 
-  const config = loadConfig();
+  const config = loadConfig({ requireWallet: !options.dryRun });
   log(`RPC: ${config.rpcUrl}`);
   log(`MACI: ${config.maciAddress}`);
 
   const provider = new ethers.JsonRpcProvider(config.rpcUrl);
-  const signer = new ethers.Wallet(config.privateKey, provider);
-  log(`Coordinator wallet: ${signer.address}`);
+  const submitter = await createSubmitter(config.signer, provider, log);
+  const wallet = await submitter.getAddress();
+  log(`Coordinator wallet: ${wallet}`);
 
-  const balance = await provider.getBalance(signer.address);
+  const balance = await provider.getBalance(wallet);
   log(`Balance: ${ethers.formatEther(balance)} ETH`);
 
-  if (balance < ethers.parseEther('0.001')) {
-    log('WARNING: Low ETH balance. Transactions may fail.');
-  }
+  if (!options.dryRun) await checkBalance(wallet, balance);
 
   log('Initializing crypto...');
   const crypto = await initCrypto();
@@ -94,25 +94,13 @@ async function main() {
     return;
   }
 
-  // Fetch deploy events
-  const deployFilter = maci.filters.DeployPoll();
-  const deployEvents = await retryRpc(() => maci.queryFilter(deployFilter, config.deployBlock));
-
-  const pollMap = new Map<number, PollAddresses>();
-  for (const ev of deployEvents) {
-    if ('args' in ev) {
-      const a = ev.args as any;
-      pollMap.set(Number(a.pollId), {
-        poll: a.pollAddr,
-        mp: a.messageProcessorAddr,
-        tally: a.tallyAddr,
-      });
-    }
-  }
+  // Fetch deploy events (incremental across cron runs via INDEX_DIR)
+  const pollMap = await fetchDeployPolls(maci, provider, config.deployBlock);
 
   log(`Found ${nextPollId} poll(s). Checking...`);
   let processed = 0;
   let skipped = 0;
+  let failed = 0;
 
   for (let i = 0; i < nextPollId; i++) {
     const addrs = pollMap.get(i);
@@ -151,16 +139,20 @@ async function main() {
     // Process this poll
     log(`  Poll ${i}: needs processing — starting...`);
     try {
-      await processPoll(i, addrs, maci, provider, signer, config.coordinatorSk, crypto, config.deployBlock);
+      await processPoll(i, addrs, maci, provider, submitter, config.coordinatorKeys, crypto, config.deployBlock, options);
       log(`  Poll ${i}: DONE`);
       processed++;
     } catch (err) {
       const errMsg = (err as Error).message?.slice(0, 150)?.replace(/0x[a-fA-F0-9]{40,}/g, '[ADDR]') ?? 'unknown';
       log(`  Poll ${i}: FAILED — ${errMsg}`);
+      failed++;
+      if (!options.dryRun) await notifier.notify({ kind: 'pollFailed', pollId: i, error: errMsg, permanent: false });
     }
   }
 
-  log(`\nSummary: ${processed} processed, ${skipped} skipped, ${nextPollId} total`);
+  log(`\nSummary: ${processed} ${options.dryRun ? 'simulated' : 'processed'}, ${skipped} skipped, ${nextPollId} total`);
+  // A failed simulation (e.g. an invalid proof) should fail the CI job
+  if (options.dryRun && failed > 0) process.exit(1);
 }
 
 main()
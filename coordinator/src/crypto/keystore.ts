@@ -0,0 +1,245 @@
+/**
+ * Coordinator Key Management
+ *
+ * The Baby Jubjub key that decrypts votes lives in password-encrypted
+ * keystore files (scrypt + AES-256-GCM). The public key is stored in clear
+ * (and bound to the ciphertext) so keys can be listed and matched to polls
+ * without the password. A raw hex COORDINATOR_PRIVATE_KEY is still accepted.
+ *
+ * Every held key goes into one CoordinatorKeyring; each poll is processed
+ * with the key matching its on-chain coordinatorPubKeyX/Y, so a new key can
+ * be rolled out for new polls while older polls are still being tallied.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import type { CryptoKit } from './kit.js';
+
+export type PubKey = [bigint, bigint];
+
+/** Baby Jubjub prime subgroup order; generated keys are reduced mod it */
+export const BABYJUB_SUBORDER = 2736030358979909402780800718157159386076813972158567259200215660948447373041n;
+
+export interface CoordinatorKey {
+  sk: bigint;
+  pubKey: PubKey;
+  source: string;              // keystore path or env var name (never the key)
+}
+
+export interface KdfParams {
+  n: number;
+  r: number;
+  p: number;
+}
+
+export interface CoordinatorKeystore {
+  version: 1;
+  type: 'sigil-coordinator-key';
+  label?: string;
+  createdAt: string;
+  pubKey: [string, string];
+  crypto: {
+    kdf: 'scrypt';
+    kdfparams: KdfParams & { salt: string };
+    cipher: 'aes-256-gcm';
+    iv: string;
+    tag: string;
+    ciphertext: string;
+  };
+}
+
+// ~64 MiB / ~0.2s per unlock; only paid at startup
+const DEFAULT_KDF: KdfParams = { n: 2 ** 16, r: 8, p: 1 };
+
+export function derivePubKey(crypto: CryptoKit, sk: bigint): PubKey {
+  const { babyJub } = crypto;
+  const point = babyJub.mulPointEscalar(babyJub.Base8, sk);
+  return [BigInt(babyJub.F.toString(point[0])), BigInt(babyJub.F.toString(point[1]))];
+}
+
+export function generateCoordinatorSk(): bigint {
+  for (;;) {
+    // 512 random bits reduced mod the subgroup order: negligible bias
+    const sk = BigInt(`0x${randomBytes(64).toString('hex')}`) % BABYJUB_SUBORDER;
+    if (sk !== 0n) return sk;
+  }
+}
+
+/** Hex (with or without 0x), as in COORDINATOR_PRIVATE_KEY */
+export function parseCoordinatorSk(hex: string): bigint {
+  const clean = hex.trim().replace(/^0x/, '');
+  if (!/^[0-9a-fA-F]{1,64}$/.test(clean)) throw new Error('Coordinator private key must be hex');
+  const sk = BigInt(`0x${clean}`);
+  if (sk === 0n || sk >= 2n ** 253n) throw new Error('Coordinator private key is out of range');
+  return sk;
+}
+
+export function formatCoordinatorSk(sk: bigint): string {
+  return `0x${sk.toString(16).padStart(64, '0')}`;
+}
+
+/** Short form for logs: first digits of X */
+export function shortPubKey([x]: PubKey): string {
+  return `${x.toString().slice(0, 12)}...`;
+}
+
+// ─── Keystore files ──────────────────────────────────────────────────
+
+function keystoreAad(pubKey: [string, string]): Buffer {
+  return Buffer.from(`sigil-coordinator-key:${pubKey[0]}:${pubKey[1]}`);
+}
+
+function deriveKey(password: string, salt: Buffer, { n, r, p }: KdfParams): Buffer {
+  return scryptSync(password.normalize('NFKC'), salt, 32, { N: n, r, p, maxmem: 256 * n * r + 32 * 1024 * 1024 });
+}
+
+export function encryptCoordinatorKey(
+  key: { sk: bigint; pubKey: PubKey },
+  password: string,
+  opts: { label?: string; kdf?: KdfParams } = {},
+): CoordinatorKeystore {
+  const kdf = opts.kdf ?? DEFAULT_KDF;
+  const salt = randomBytes(32);
+  const iv = randomBytes(12);
+  const pubKey: [string, string] = [key.pubKey[0].toString(), key.pubKey[1].toString()];
+
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(password, salt, kdf), iv);
+  cipher.setAAD(keystoreAad(pubKey));
+  const ciphertext = Buffer.concat([cipher.update(Buffer.from(formatCoordinatorSk(key.sk).slice(2), 'hex')), cipher.final()]);
+
+  return {
+    version: 1,
+    type: 'sigil-coordinator-key',
+    ...(opts.label ? { label: opts.label } : {}),
+    createdAt: new Date().toISOString(),
+    pubKey,
+    crypto: {
+      kdf: 'scrypt',
+      kdfparams: { ...kdf, salt: salt.toString('hex') },
+      cipher: 'aes-256-gcm',
+      iv: iv.toString('hex'),
+      tag: cipher.getAuthTag().toString('hex'),
+      ciphertext: ciphertext.toString('hex'),
+    },
+  };
+}
+
+export function decryptCoordinatorKey(keystore: CoordinatorKeystore, password: string): bigint {
+  const { kdfparams, iv, tag, ciphertext } = keystore.crypto;
+  const decipher = createDecipheriv(
+    'aes-256-gcm',
+    deriveKey(password, Buffer.from(kdfparams.salt, 'hex'), kdfparams),
+    Buffer.from(iv, 'hex'),
+  );
+  decipher.setAAD(keystoreAad(keystore.pubKey));
+  decipher.setAuthTag(Buffer.from(tag, 'hex'));
+  try {
+    const plain = Buffer.concat([decipher.update(Buffer.from(ciphertext, 'hex')), decipher.final()]);
+    return BigInt(`0x${plain.toString('hex')}`);
+  } catch {
+    throw new Error('Wrong password or corrupt coordinator keystore');
+  }
+}
+
+export function keystorePubKey(keystore: CoordinatorKeystore): PubKey {
+  return [BigInt(keystore.pubKey[0]), BigInt(keystore.pubKey[1])];
+}
+
+export function readKeystore(path: string): CoordinatorKeystore {
+  let json: Partial<CoordinatorKeystore>;
+  try {
+    json = JSON.parse(readFileSync(path, 'utf8')) as Partial<CoordinatorKeystore>;
+  } catch (err) {
+    throw new Error(`Cannot read coordinator keystore ${path}: ${(err as Error).message?.slice(0, 80)}`);
+  }
+  if (json.type !== 'sigil-coordinator-key' || json.version !== 1 || !json.crypto || !Array.isArray(json.pubKey)) {
+    throw new Error(`Not a coordinator keystore (v1): ${path}`);
+  }
+  return json as CoordinatorKeystore;
+}
+
+/** Owner-only, never overwrites an existing file */
+export function writeKeystore(path: string, keystore: CoordinatorKeystore): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(keystore, null, 2) + '\n', { mode: 0o600, flag: 'wx' });
+}
+
+/** A keystore file, or every *.json in a directory (sorted) */
+export function keystoreFiles(path: string): string[] {
+  if (!existsSync(path)) throw new Error(`Coordinator keystore not found: ${path}`);
+  if (!statSync(path).isDirectory()) return [path];
+  return readdirSync(path).filter((f) => f.endsWith('.json')).sort().map((f) => join(path, f));
+}
+
+// ─── Keyring ─────────────────────────────────────────────────────────
+
+interface KeyringEntry {
+  sk: bigint;
+  source: string;
+  storedPubKey?: PubKey;
+  pubKey?: PubKey;
+}
+
+export class CoordinatorKeyring {
+  private entries: KeyringEntry[] = [];
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /** `storedPubKey` (from a keystore) is checked against the key on first use */
+  add(sk: bigint, source: string, storedPubKey?: PubKey): void {
+    this.entries.push({ sk, source, storedPubKey });
+  }
+
+  /** All held keys with their public keys (derived once per key) */
+  keys(crypto: CryptoKit): CoordinatorKey[] {
+    return this.entries.map((e) => {
+      if (!e.pubKey) {
+        const pubKey = derivePubKey(crypto, e.sk);
+        if (e.storedPubKey && (e.storedPubKey[0] !== pubKey[0] || e.storedPubKey[1] !== pubKey[1])) {
+          throw new Error(`Coordinator keystore ${e.source}: public key does not match its private key`);
+        }
+        e.pubKey = pubKey;
+      }
+      return { sk: e.sk, pubKey: e.pubKey, source: e.source };
+    });
+  }
+
+  /** The key for a poll's on-chain coordinatorPubKeyX/Y, or null if not held */
+  find(crypto: CryptoKit, [x, y]: PubKey): CoordinatorKey | null {
+    return this.keys(crypto).find((k) => k.pubKey[0] === x && k.pubKey[1] === y) ?? null;
+  }
+}
+
+/**
+ * COORDINATOR_PRIVATE_KEY       — raw hex key (the env var name is per deployment)
+ * COORDINATOR_KEYSTORE          — keystore file, or a directory of them (all are loaded)
+ * COORDINATOR_KEYSTORE_PASSWORD — password shared by those keystores
+ *
+ * At least one key is required.
+ */
+export function loadCoordinatorKeyring(
+  get: (k: string) => string | undefined,
+  coordinatorKeyEnv = 'COORDINATOR_PRIVATE_KEY',
+  baseDir = process.cwd(),
+): CoordinatorKeyring {
+  const keyring = new CoordinatorKeyring();
+
+  const raw = get(coordinatorKeyEnv);
+  if (raw) keyring.add(parseCoordinatorSk(raw), coordinatorKeyEnv);
+
+  const keystorePath = get('COORDINATOR_KEYSTORE');
+  if (keystorePath) {
+    const password = get('COORDINATOR_KEYSTORE_PASSWORD');
+    if (password === undefined || password === '') throw new Error('COORDINATOR_KEYSTORE requires COORDINATOR_KEYSTORE_PASSWORD');
+    for (const file of keystoreFiles(resolve(baseDir, keystorePath))) {
+      const keystore = readKeystore(file);
+      keyring.add(decryptCoordinatorKey(keystore, password), file, keystorePubKey(keystore));
+    }
+  }
+
+  if (keyring.size === 0) throw new Error(`${coordinatorKeyEnv} or COORDINATOR_KEYSTORE not set in .env`);
+  return keyring;
+}
@@ -0,0 +1,206 @@
+/**
+ * Coordinator Crypto Kit
+ *
+ * circomlibjs-backed primitives shared by the runner, the processing/tally
+ * engine and the CLIs (verify, diagnose, e2e). Byte-for-byte compatible with
+ * the SDK (sdk/src/crypto, sdk/src/command.ts) that builds voter messages:
+ *   - Baby Jubjub ECDH, EdDSA-Poseidon
+ *   - Poseidon DuplexSponge (t=4, rate=3), nonce 0, 7-element command plaintext
+ *   - 250-bit command packing (5 × 50 bits)
+ */
+
+import type { Command, StateLeaf, Ballot } from '../processing/processMessages.js';
+
+export interface CryptoKit {
+  poseidon: any;
+  F: any;
+  eddsa: any;
+  babyJub: any;
+  hash: (...inputs: bigint[]) => bigint;
+  ecdh: (sk: bigint, pub: [bigint, bigint]) => bigint[];
+  decrypt: (ct: bigint[], key: bigint[], nonce: bigint) => bigint[] | null;
+  encrypt: (pt: bigint[], key: bigint[], nonce: bigint) => bigint[];
+  verifyEdDSA: (msg: bigint, sig: { R8: bigint[]; S: bigint }, pk: bigint[]) => boolean;
+  hashStateLeaf: (l: StateLeaf) => bigint;
+  hashBallot: (b: Ballot) => bigint;
+  hashCommand: (c: Command) => bigint;
+  unpackCommand: (packed: bigint) => Command;
+  quinaryTreeRoot: (leaves: bigint[]) => bigint;
+}
+
+export async function initCrypto(): Promise<CryptoKit> {
+  const { buildPoseidon, buildBabyjub, buildEddsa } = await import('circomlibjs');
+  const poseidon = await buildPoseidon();
+  const babyJub = await buildBabyjub();
+  const eddsa = await buildEddsa();
+  const F = poseidon.F;
+
+  function hash(...inputs: bigint[]): bigint {
+    const h = poseidon(inputs.map(x => F.e(x)));
+    return BigInt(F.toString(h));
+  }
+
+  function ecdhFn(sk: bigint, pub: [bigint, bigint]): bigint[] {
+    // (0,0) is not on Baby Jubjub curve — padding messages use this.
+    // Circuit handles via Mux1 substitution; here we return dummy key
+    // so decryption fails auth tag → message treated as invalid.
+    if (pub[0] === 0n && pub[1] === 0n) {
+      return [0n, 0n];
+    }
+    const pt = [F.e(pub[0]), F.e(pub[1])];
+    const shared = babyJub.mulPointEscalar(pt, sk);
+    return [BigInt(F.toString(shared[0])), BigInt(F.toString(shared[1]))];
+  }
+
+  // Poseidon DuplexSponge decryption (t=4, rate=3)
+  // Must match src/crypto/duplexSponge.ts poseidonEncrypt exactly
+  const SNARK_FIELD = 21888242871839275222246405745257275088548364400416034343698204186575808495617n;
+  const TWO128 = 2n ** 128n;
+
+  // Full Poseidon permutation via circomlibjs 3-arg form:
+  // poseidon([s1,s2,s3], s0, 4) constructs state [s0,s1,s2,s3], permutes, returns all 4
+  function poseidonPerm(state: bigint[]): bigint[] {
+    const inputs = state.slice(1).map(s => F.e(s));
+    const initState = F.e(state[0]);
+    const result = poseidon(inputs, initState, 4);
+    return result.map((r: any) => BigInt(F.toString(r)));
+  }
+
+  function duplexDecrypt(ct: bigint[], key: bigint[], nonce: bigint): bigint[] | null {
+    // ct format: [encrypted[0..N-2], authTag] where N = ct.length
+    // MACI messages: plaintext length = 7, padded to 9, + 1 auth tag = 10 elements
+    const tag = ct[ct.length - 1];
+    const encrypted = ct.slice(0, -1);
+    const length = 7; // MACI command plaintext length
+
+    // Initial state must match poseidonEncrypt: [0, key[0], key[1], nonce + length * 2^128]
+    let state: bigint[] = [
+      0n,
+      key[0],
+      key[1],
+      (nonce + BigInt(length) * TWO128) % SNARK_FIELD,
+    ];
+
+    const plaintext: bigint[] = [];
+
+    for (let i = 0; i < encrypted.length; i += 3) {
+      // Permute
+      state = poseidonPerm(state);
+
+      // Recover plaintext: pt = ct - state (mod p) at rate positions [1,2,3]
+      const p0 = (encrypted[i] - state[1] + SNARK_FIELD) % SNARK_FIELD;
+      const p1 = (encrypted[i + 1] - state[2] + SNARK_FIELD) % SNARK_FIELD;
+      const p2 = (encrypted[i + 2] - state[3] + SNARK_FIELD) % SNARK_FIELD;
+      plaintext.push(p0, p1, p2);
+
+      // Set state rate portion to ciphertext values (for next permutation)
+      state[1] = encrypted[i];
+      state[2] = encrypted[i + 1];
+      state[3] = encrypted[i + 2];
+    }
+
+    // Verify authentication tag (mismatch: corrupted message or wrong key)
+    state = poseidonPerm(state);
+    if (state[1] !== tag) return null;
+
+    return plaintext.slice(0, length);
+  }
+
+  function duplexEncrypt(pt: bigint[], key: bigint[], nonce: bigint): bigint[] {
+    const length = pt.length;
+    const padded = [...pt];
+    while (padded.length % 3 !== 0) padded.push(0n);
+
+    let state: bigint[] = [
+      0n,
+      key[0],
+      key[1],
+      (nonce + BigInt(length) * TWO128) % SNARK_FIELD,
+    ];
+
+    const ciphertext: bigint[] = [];
+
+    for (let i = 0; i < padded.length; i += 3) {
+      state = poseidonPerm(state);
+      const c0 = (padded[i] + state[1]) % SNARK_FIELD;
+      const c1 = (padded[i + 1] + state[2]) % SNARK_FIELD;
+      const c2 = (padded[i + 2] + state[3]) % SNARK_FIELD;
+      ciphertext.push(c0, c1, c2);
+      state[1] = c0;
+      state[2] = c1;
+      state[3] = c2;
+    }
+
+    // Auth tag
+    state = poseidonPerm(state);
+    ciphertext.push(state[1]);
+    return ciphertext;
+  }
+
+  function verifyEdDSAFn(msg: bigint, sig: { R8: bigint[]; S: bigint }, pk: bigint[]): boolean {
+    try {
+      return eddsa.verifyPoseidon(
+        F.e(msg),
+        { R8: [F.e(sig.R8[0]), F.e(sig.R8[1])], S: sig.S },
+        [F.e(pk[0]), F.e(pk[1])],
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  function hashStateLeafFn(l: StateLeaf): bigint {
+    return hash(l.pubKeyX, l.pubKeyY, l.voiceCreditBalance, l.timestamp);
+  }
+
+  function hashBallotFn(b: Ballot): bigint {
+    return hash(b.nonce, b.voteOptionRoot);
+  }
+
+  function hashCommandFn(c: Command): bigint {
+    // Must match circuit: Poseidon(stateIndex, newPubKeyX, newPubKeyY, newVoteWeight, salt)
+    // NOT the packed version — circuit unpacks first then hashes individual fields
+    return hash(c.stateIndex, c.newPubKeyX, c.newPubKeyY, c.newVoteWeight, c.salt);
+  }
+
+  function unpackCommandFn(packed: bigint): Command {
+    const m50 = (1n << 50n) - 1n;
+    return {
+      stateIndex: packed & m50,
+      voteOptionIndex: (packed >> 50n) & m50,
+      newVoteWeight: (packed >> 100n) & m50,
+      nonce: (packed >> 150n) & m50,
+      pollId: (packed >> 200n) & m50,
+      newPubKeyX: 0n,
+      newPubKeyY: 0n,
+      salt: 0n,
+    };
+  }
+
+  // Compute root of a quinary tree from leaves (e.g., 25 leaves → depth 2)
+  // 5 leaves per node, hashed with Poseidon(5)
+  function quinaryTreeRoot(leaves: bigint[]): bigint {
+    let level = [...leaves];
+    while (level.length > 1) {
+      const next: bigint[] = [];
+      for (let i = 0; i < level.length; i += 5) {
+        const children = level.slice(i, i + 5);
+        while (children.length < 5) children.push(0n);
+        next.push(hash(...children));
+      }
+      level = next;
+    }
+    return level[0] ?? 0n;
+  }
+
+  return {
+    poseidon, F, eddsa, babyJub,
+    hash, ecdh: ecdhFn, decrypt: duplexDecrypt, encrypt: duplexEncrypt,
+    verifyEdDSA: verifyEdDSAFn,
+    hashStateLeaf: hashStateLeafFn,
+    hashBallot: hashBallotFn,
+    hashCommand: hashCommandFn,
+    unpackCommand: unpackCommandFn,
+    quinaryTreeRoot,
+  };
+}
@@ -2,16 +2,38 @@
 /**
  * Diagnostic script: decrypt and inspect Poll messages
  * Usage: cd coordinator && npx tsx src/diagnose.ts <pollId>
+ *        cd coordinator && npx tsx src/diagnose.ts audit <pollId> [maciAddress]
+ *
+ * `audit` prints the runner's per-message audit log (AUDIT_DIR) as a table:
+ * which messages were valid and which check each invalid one failed.
+ *
+ * Also available as `sigil-coordinator diagnose <pollId> [--audit]` (cli.ts).
  */
 import { ethers } from 'ethers';
-import { loadConfig, initCrypto, MACI_ABI, POLL_ABI, TALLY_ABI } from './run.js';
-
-const pollId = parseInt(process.argv[2] || '6');
+import { loadChainConfig, loadCoordinatorKeys, AUDIT_DIR, MACI_ABI, POLL_ABI, TALLY_ABI } from './run.js';
+import { initCrypto } from './crypto/kit.js';
+import type { CoordinatorKeyring } from './crypto/keystore.js';
+import { AuditLogStore, formatAuditTable } from './state/audit.js';
+
+export function showAudit(pollId: number, maciAddress = loadChainConfig().maciAddress, auditDir = AUDIT_DIR) {
+  const store = new AuditLogStore(auditDir);
+  const audit = store.load(maciAddress, pollId);
+  if (!audit) {
+    throw new Error(`No audit log for poll ${pollId} at ${store.pathFor(maciAddress, pollId)} (written by the runner when it processes the poll)`);
+  }
+  console.log(`\n=== AUDIT LOG: POLL ${pollId} (${maciAddress}) ===`);
+  console.log(`generated ${new Date(audit.generatedAt).toISOString()}\n`);
+  console.log(formatAuditTable(audit));
+}
 
-async function main() {
+/** Decrypt and check every message of a poll (defaults: the single .env / config.json deployment) */
+export async function diagnosePoll(
+  pollId: number,
+  config: { rpcUrl: string; maciAddress: string; deployBlock: number } = loadChainConfig(),
+  coordinatorKeys: CoordinatorKeyring = loadCoordinatorKeys(),
+) {
   console.log(`\n=== DIAGNOSING POLL ${pollId} ===\n`);
 
-  const config = loadConfig();
   const provider = new ethers.JsonRpcProvider(config.rpcUrl);
   const crypto = await initCrypto();
 
@@ -39,6 +61,8 @@ async function main() {
   console.log(`isVotingOpen: ${isOpen}`);
   console.log(`numMessages: ${numMsgs}`);
   console.log(`coordinatorPubKey: [${coordX}, ${coordY}]`);
+  const coordKey = coordinatorKeys.find(crypto, [BigInt(coordX), BigInt(coordY)]);
+  console.log(`coordinator key: ${coordKey ? coordKey.source : 'NOT HELD (messages cannot be decrypted)'}`);
 
   try {
     console.log(`tallyVerified: ${await tally.tallyVerified()}`);
@@ -79,7 +103,8 @@ async function main() {
     if (isPadding) { console.log('    → Padding message, skip'); continue; }
 
     // Decrypt
-    const sharedKey = crypto.ecdh(config.coordinatorSk, [encPubKeyX, encPubKeyY]);
+    if (!coordKey) { console.log('    → No matching coordinator key, skip'); continue; }
+    const sharedKey = crypto.ecdh(coordKey.sk, [encPubKeyX, encPubKeyY]);
     console.log(`    sharedKey: [${sharedKey[0].toString().slice(0,20)}..., ${sharedKey[1].toString().slice(0,20)}...]`);
 
     const plaintext = crypto.decrypt(data, sharedKey, 0n);
@@ -142,4 +167,11 @@ async function main() {
   console.log('\n=== DIAGNOSIS COMPLETE ===');
 }
 
-main().catch(err => { console.error('Error:', err.message); process.exit(1); });
+// Only auto-run when executed directly (not when imported by cli.ts)
+const isDirectRun = process.argv[1]?.endsWith('diagnose.ts') || process.argv[1]?.endsWith('diagnose.js');
+if (isDirectRun) {
+  const isAudit = process.argv[2] === 'audit';
+  const pollId = parseInt((isAudit ? process.argv[3] : process.argv[2]) || '6');
+  const run = isAudit ? async () => showAudit(pollId, process.argv[4] || undefined) : () => diagnosePoll(pollId);
+  run().catch(err => { console.error('Error:', err.message); process.exit(1); });
+}
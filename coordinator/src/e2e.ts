@@ -16,13 +16,14 @@ import { resolve, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import {
   loadConfig,
-  initCrypto,
+  createSubmitter,
   MACI_ABI,
   POLL_ABI,
   TALLY_ABI,
   processPoll,
   type PollAddresses,
 } from './run.js';
+import { initCrypto } from './crypto/kit.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const PROJECT_ROOT = resolve(__dirname, '../..');
@@ -55,10 +56,13 @@ async function main() {
   log(`RPC: ${config.rpcUrl}`);
 
   const provider = new ethers.JsonRpcProvider(config.rpcUrl);
-  const signer = new ethers.Wallet(config.privateKey, provider);
-  log(`Wallet: ${signer.address}`);
+  // Voter txs use the same wallet; the submitter syncs its nonce on first use
+  const submitter = await createSubmitter(config.signer, provider, log);
+  const signer = submitter.signer;
+  const walletAddress = await submitter.getAddress();
+  log(`Wallet: ${walletAddress}`);
 
-  const balance = await provider.getBalance(signer.address);
+  const balance = await provider.getBalance(walletAddress);
   log(`Balance: ${ethers.formatEther(balance)} ETH`);
 
   log('Initializing crypto...');
@@ -87,7 +91,7 @@ async function main() {
       'function symbol() view returns (string)',
     ];
     const tokenContract = new ethers.Contract(tokenAddress, erc20Abi, provider);
-    const tokenBalance = await tokenContract.balanceOf(signer.address);
+    const tokenBalance = await tokenContract.balanceOf(walletAddress);
     const decimals = await tokenContract.decimals();
     const symbol = await tokenContract.symbol();
     log(`${symbol} balance: ${ethers.formatUnits(tokenBalance, decimals)} ${symbol}`);
@@ -126,8 +130,8 @@ async function main() {
   // ── 5. Deploy a Poll ──
   log(`Deploying Poll (duration=${POLL_DURATION}s)...`);
 
-  const coordPubKeyX = BigInt(configJson.v2.coordinatorPubKeyX);
-  const coordPubKeyY = BigInt(configJson.v2.coordinatorPubKeyY);
+  // A key we hold: processPoll refuses polls whose coordinator key it cannot decrypt with
+  const [coordPubKeyX, coordPubKeyY] = config.coordinatorKeys.keys(crypto)[0].pubKey;
 
   const deployPollTx = await maci.deployPoll(
     'E2E Test V9 — Security Hardening',
@@ -272,7 +276,7 @@ async function main() {
   const maciRead = new ethers.Contract(config.maciAddress, MACI_ABI, provider);
 
   log('Starting coordinator processing...');
-  await processPoll(pollId, addrs, maciRead, provider, signer, config.coordinatorSk, crypto, config.deployBlock);
+  await processPoll(pollId, addrs, maciRead, provider, submitter, config.coordinatorKeys, crypto, config.deployBlock);
 
   // ── 9. Verify results on-chain ──
   log('\n═══ VERIFYING RESULTS ═══');
@@ -16,13 +16,33 @@
 export { QuinaryMerkleTree } from './trees/quinaryTree.js';
 export type { QuinaryMerkleProof } from './trees/quinaryTree.js';
 export { AccQueueOffchain } from './trees/accQueue.js';
-export { processMessages } from './processing/processMessages.js';
-export type { EncryptedMessage, Command, StateLeaf, Ballot, ProcessResult } from './processing/processMessages.js';
+export { initCrypto } from './crypto/kit.js';
+export type { CryptoKit } from './crypto/kit.js';
+export {
+  CoordinatorKeyring, loadCoordinatorKeyring, derivePubKey, generateCoordinatorSk, parseCoordinatorSk,
+  encryptCoordinatorKey, decryptCoordinatorKey, readKeystore, writeKeystore, keystorePubKey,
+} from './crypto/keystore.js';
+export type { CoordinatorKey, CoordinatorKeystore, PubKey } from './crypto/keystore.js';
+export { processMessages, hashMessage, BLANK_STATE_LEAF } from './processing/processMessages.js';
+export type { EncryptedMessage, Command, StateLeaf, Ballot, MessageOutcome, MessageRejection, ProcessedBatch, ProcessResult } from './processing/processMessages.js';
 export { tallyVotes } from './processing/tally.js';
-export type { TallyResult } from './processing/tally.js';
+export type { TallyBatch, TallyResult } from './processing/tally.js';
 export { generateProcessProof, generateTallyProof, computePublicInputHash } from './processing/batchProof.js';
 export type { ProofResult } from './processing/batchProof.js';
+export { SnarkjsProver, RapidsnarkProver, HttpProver, createProver, proverConfigFromEnv } from './processing/prover.js';
+export type { Prover, ProofTask, ProverConfig } from './processing/prover.js';
+export { createProverServer, startProverServer } from './processing/proverServer.js';
 export { EventListener } from './chain/listener.js';
-export type { ListenerConfig, OnchainState } from './chain/listener.js';
-export { TransactionSubmitter } from './chain/submitter.js';
-export type { SubmitterConfig } from './chain/submitter.js';
+export type { ListenerConfig, ListenerEvents, OnchainState, PollState, SignUpEvent, NewMessageEvent, ReorgEvent } from './chain/listener.js';
+export { EventIndexer, JsonIndexerStore, ethersLogSource } from './chain/eventIndexer.js';
+export type { IndexedLog, IndexedStream, IndexerStore, LogSource, EventIndexerOptions } from './chain/eventIndexer.js';
+export { TransactionSubmitter, TransactionError, decodeRevertReason, formatRevertReason, toSolidityProof } from './chain/submitter.js';
+export type { SubmitterConfig, TxRequest, TxResult, RevertReason } from './chain/submitter.js';
+export { RemoteSigner, createSigner, signerConfigFromEnv } from './chain/signer.js';
+export type { SignerConfig, RemoteSignerConfig } from './chain/signer.js';
+export { NotificationDispatcher, WebhookNotifier, SmtpNotifier, FileNotifier, createNotifier, notifierConfigFromEnv, describeEvent, parseSeverity } from './notify/notifier.js';
+export type { Notifier, Notification, NotifierConfig, CoordinatorEvent, Severity } from './notify/notifier.js';
+export { CircuitRegistry, CircuitProfileError, loadCircuitRegistry, loadCircuitProfile, builtinCircuitProfiles, findCircuitProfiles, vkeyToArray, vkeyFromArray, sameVerifyingKey, sha256File } from './config/circuits.js';
+export type { CircuitProfile, CircuitFiles, PollCircuitShape } from './config/circuits.js';
+export { checkCircuitArtifacts, describeArtifactProblems, fetchCircuitArtifacts, readPollVerifyingKeys, verifierCodeMatches, zkeyVerifyingKey } from './config/circuitArtifacts.js';
+export type { ArtifactReport, ArtifactFileCheck, VerifyingKeyCheck, OnchainVerifyingKeys, FetchOptions, Groth16Vkey } from './config/circuitArtifacts.js';
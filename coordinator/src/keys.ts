@@ -0,0 +1,156 @@
+#!/usr/bin/env tsx
+/**
+ * Coordinator key management (Baby Jubjub keys that decrypt votes)
+ *
+ * Usage:
+ *   cd coordinator && npx tsx src/keys.ts generate [--out <file>] [--label <text>]
+ *   cd coordinator && npx tsx src/keys.ts import   [--out <file>] [--label <text>]
+ *   cd coordinator && npx tsx src/keys.ts pubkey   [<keystore>]
+ *   cd coordinator && npx tsx src/keys.ts list
+ *   (or `sigil-coordinator keys <command>`, see cli.ts)
+ *
+ * generate — new key, written as a password-encrypted keystore
+ * import   — encrypt the raw COORDINATOR_PRIVATE_KEY from .env into a keystore
+ * pubkey   — public key of a keystore (no password needed) or of every held
+ *            key, in the form deployPoll and config.json expect
+ * list     — keys the runner would load (.env key + COORDINATOR_KEYSTORE)
+ *
+ * Keystores default to coordinator/.keys/ (point COORDINATOR_KEYSTORE at that
+ * directory to load them all). The password comes from
+ * COORDINATOR_KEYSTORE_PASSWORD or an interactive prompt.
+ */
+
+import { resolve, dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { initCrypto } from './crypto/kit.js';
+import {
+  derivePubKey, encryptCoordinatorKey, generateCoordinatorSk, keystoreFiles, keystorePubKey,
+  parseCoordinatorSk, readKeystore, writeKeystore, type PubKey,
+} from './crypto/keystore.js';
+import { loadCoordinatorKeys, readEnv } from './run.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const PROJECT_ROOT = resolve(__dirname, '../..');
+const DEFAULT_KEY_DIR = resolve(PROJECT_ROOT, 'coordinator/.keys');
+
+function flag(args: string[], name: string): string | undefined {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+function printPubKey([x, y]: PubKey, label?: string): void {
+  if (label) console.log(`\n${label}`);
+  console.log(`  coordinatorPubKeyX: ${x}`);
+  console.log(`  coordinatorPubKeyY: ${y}`);
+  console.log(`  deployPoll(_title, _duration, ${x}, ${y}, _mpVerifier, _tallyVerifier, _vkRegistry, _messageTreeDepth)`);
+  console.log(`  config.json v2: "coordinatorPubKeyX": "${x}", "coordinatorPubKeyY": "${y}"`);
+}
+
+/** Reads a line without echoing it (TTY), or a plain line from piped stdin */
+function prompt(question: string): Promise<string> {
+  return new Promise((resolvePromise, reject) => {
+    const { stdin, stdout } = process;
+    stdout.write(question);
+    if (!stdin.isTTY) {
+      let data = '';
+      stdin.setEncoding('utf8');
+      stdin.on('data', (c) => { data += c; });
+      stdin.on('end', () => resolvePromise(data.split('\n')[0]));
+      return;
+    }
+    let value = '';
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.setEncoding('utf8');
+    const onData = (ch: string) => {
+      if (ch === '\r' || ch === '\n' || ch === '\u0004') {
+        stdin.setRawMode(false);
+        stdin.pause();
+        stdin.off('data', onData);
+        stdout.write('\n');
+        resolvePromise(value);
+      } else if (ch === '\u0003') {
+        stdin.setRawMode(false);
+        reject(new Error('Cancelled'));
+      } else if (ch === '\u007f') {
+        value = value.slice(0, -1);
+      } else {
+        value += ch;
+      }
+    };
+    stdin.on('data', onData);
+  });
+}
+
+async function newPassword(): Promise<string> {
+  const fromEnv = readEnv()('COORDINATOR_KEYSTORE_PASSWORD');
+  if (fromEnv) return fromEnv;
+  const password = await prompt('Keystore password: ');
+  if (password.length < 8) throw new Error('Password must be at least 8 characters');
+  if (await prompt('Repeat password: ') !== password) throw new Error('Passwords do not match');
+  return password;
+}
+
+async function writeNewKeystore(sk: bigint, source: string, args: string[]): Promise<void> {
+  const crypto = await initCrypto();
+  const pubKey = derivePubKey(crypto, sk);
+  const password = await newPassword();
+  const label = flag(args, 'label');
+  const out = resolve(flag(args, 'out') ?? join(DEFAULT_KEY_DIR, `coordinator-${new Date().toISOString().replace(/[:.]/g, '-')}.json`));
+
+  writeKeystore(out, encryptCoordinatorKey({ sk, pubKey }, password, { label }));
+  console.log(`${source} → ${out}`);
+  printPubKey(pubKey);
+  console.log('\nBack up this file and its password: votes to polls using this key cannot be tallied without them.');
+}
+
+/** `keys <command> [args]`; also reached through `sigil-coordinator keys` */
+export async function keysCommand([command, ...rest]: string[]): Promise<void> {
+  switch (command) {
+    case 'generate':
+      await writeNewKeystore(generateCoordinatorSk(), 'New coordinator key', rest);
+      return;
+
+    case 'import': {
+      const raw = readEnv()('COORDINATOR_PRIVATE_KEY');
+      if (!raw) throw new Error('COORDINATOR_PRIVATE_KEY not set in .env');
+      await writeNewKeystore(parseCoordinatorSk(raw), 'COORDINATOR_PRIVATE_KEY', rest);
+      console.log('Remove COORDINATOR_PRIVATE_KEY from .env and set COORDINATOR_KEYSTORE once the runner loads the keystore.');
+      return;
+    }
+
+    case 'pubkey': {
+      if (rest[0] && !rest[0].startsWith('--')) {
+        for (const file of keystoreFiles(resolve(rest[0]))) {
+          const keystore = readKeystore(file);
+          printPubKey(keystorePubKey(keystore), `${file}${keystore.label ? ` (${keystore.label})` : ''}`);
+        }
+        return;
+      }
+      const crypto = await initCrypto();
+      for (const key of loadCoordinatorKeys().keys(crypto)) printPubKey(key.pubKey, key.source);
+      return;
+    }
+
+    case 'list': {
+      const crypto = await initCrypto();
+      const keys = loadCoordinatorKeys().keys(crypto);
+      console.log(`${keys.length} coordinator key(s):`);
+      for (const key of keys) console.log(`  ${key.pubKey[0].toString().slice(0, 20)}...  ${key.source}`);
+      return;
+    }
+
+    default:
+      console.log('Usage: tsx src/keys.ts generate|import|pubkey|list (see file header)');
+      process.exit(command ? 1 : 0);
+  }
+}
+
+// Only auto-run when executed directly (not when imported by cli.ts)
+const isDirectRun = process.argv[1]?.endsWith('keys.ts') || process.argv[1]?.endsWith('keys.js');
+if (isDirectRun) {
+  keysCommand(process.argv.slice(2)).then(() => process.exit(0)).catch((err) => {
+    console.error(`Error: ${(err as Error).message?.slice(0, 160) ?? 'unknown'}`);
+    process.exit(1);
+  });
+}
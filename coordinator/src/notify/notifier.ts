@@ -0,0 +1,490 @@
+/**
+ * Coordinator Alerting
+ *
+ * Conditions an operator has to act on (a poll that will not be tallied, a
+ * wallet running dry, a tx stuck in the mempool, the runner halting) are
+ * pushed to one or more sinks instead of only going to stdout:
+ *
+ *   WebhookNotifier — POSTs JSON with a Slack-compatible `text` field
+ *                     (Slack / Mattermost / Discord `/slack` incoming
+ *                     webhooks, or any HTTP endpoint)
+ *   SmtpNotifier    — plain-text email over SMTP (implicit TLS or STARTTLS)
+ *   FileNotifier    — appends one JSON line per notification
+ *
+ * Each sink has its own minimum severity; NotificationDispatcher fans out,
+ * rate-limits repeating conditions (low balance) and never throws, so a
+ * broken sink cannot take the runner down.
+ */
+
+import { appendFileSync, mkdirSync } from 'fs';
+import { hostname } from 'os';
+import { dirname, resolve } from 'path';
+import { connect as netConnect, type Socket } from 'net';
+import { connect as tlsConnect } from 'tls';
+import { formatEther } from 'ethers';
+
+export type Severity = 'info' | 'warning' | 'critical';
+
+const SEVERITY_RANK: Record<Severity, number> = { info: 0, warning: 1, critical: 2 };
+
+export function parseSeverity(value: string): Severity {
+  if (value === 'info' || value === 'warning' || value === 'critical') return value;
+  throw new Error(`Unknown severity: ${value} (expected info, warning or critical)`);
+}
+
+/** Everything the runner reports; `deployment` is the DEPLOYMENTS_FILE name, if any */
+export type CoordinatorEvent = { deployment?: string } & (
+  | {
+      kind: 'pollFinalized';
+      pollId: number;
+      forVotes: bigint;
+      againstVotes: bigint;
+      abstainVotes: bigint;
+      /** Per-option results of a multi-choice poll (labels from Poll.getOptionLabels()) */
+      options?: { label: string; votes: bigint }[];
+      totalVoters: number;
+      txHash: string | null;
+    }
+  | { kind: 'pollFailed'; pollId: number; error: string; permanent: boolean; attempts?: number }
+  | { kind: 'lowBalance'; address: string; balanceWei: bigint; thresholdWei: bigint }
+  | { kind: 'stuckTransaction'; label: string; nonce: number; hashes: string[] }
+  | { kind: 'halted'; reason: string }
+);
+
+/** What sinks receive (JSON-safe: amounts as decimal strings) */
+export interface Notification {
+  event: CoordinatorEvent['kind'];
+  severity: Severity;
+  title: string;
+  text: string;
+  deployment?: string;
+  pollId?: number;
+  details: Record<string, string | number | boolean | string[] | null>;
+  timestamp: string;
+}
+
+export function describeEvent(event: CoordinatorEvent, now = new Date()): Notification {
+  const where = event.deployment ? ` [${event.deployment}]` : '';
+  const base = { deployment: event.deployment, timestamp: now.toISOString() };
+
+  switch (event.kind) {
+    case 'pollFinalized':
+      return {
+        ...base,
+        event: event.kind,
+        severity: 'info',
+        pollId: event.pollId,
+        title: `Poll ${event.pollId} finalized${where}`,
+        text: event.options
+          ? `Results published: ${event.options.map(o => `${o.label}=${o.votes}`).join(' ')}, ${event.totalVoters} voter(s)`
+          : `Results published: FOR=${event.forVotes} AGAINST=${event.againstVotes} ABSTAIN=${event.abstainVotes}, ${event.totalVoters} voter(s)`,
+        details: {
+          forVotes: event.forVotes.toString(),
+          againstVotes: event.againstVotes.toString(),
+          abstainVotes: event.abstainVotes.toString(),
+          ...(event.options ? { options: event.options.map(o => `${o.label}=${o.votes}`) } : {}),
+          totalVoters: event.totalVoters,
+          txHash: event.txHash,
+        },
+      };
+    case 'pollFailed':
+      return {
+        ...base,
+        event: event.kind,
+        severity: event.permanent ? 'critical' : 'warning',
+        pollId: event.pollId,
+        title: `Poll ${event.pollId} ${event.permanent ? 'permanently failed' : 'failed'}${where}`,
+        text: event.permanent
+          ? `Will not retry; the poll's results cannot be published without intervention. ${event.error}`
+          : `Will retry. ${event.error}`,
+        details: { error: event.error, permanent: event.permanent, attempts: event.attempts ?? null },
+      };
+    case 'lowBalance':
+      return {
+        ...base,
+        event: event.kind,
+        severity: 'warning',
+        title: `Low coordinator balance${where}`,
+        text: `${event.address} holds ${formatEther(event.balanceWei)} ETH (threshold ${formatEther(event.thresholdWei)} ETH); transactions may fail`,
+        details: { address: event.address, balanceWei: event.balanceWei.toString(), thresholdWei: event.thresholdWei.toString() },
+      };
+    case 'stuckTransaction':
+      return {
+        ...base,
+        event: event.kind,
+        severity: 'critical',
+        title: `Transaction stuck: ${event.label}${where}`,
+        text: `Nonce ${event.nonce} not mined after ${event.hashes.length} attempt(s) with rising fees; later transactions from this wallet are blocked until it clears`,
+        details: { label: event.label, nonce: event.nonce, hashes: event.hashes },
+      };
+    case 'halted':
+      return {
+        ...base,
+        event: event.kind,
+        severity: 'critical',
+        title: `Coordinator halted${where}`,
+        text: event.reason,
+        details: { reason: event.reason },
+      };
+  }
+}
+
+export interface Notifier {
+  readonly name: string;
+  readonly minSeverity: Severity;
+  send(notification: Notification): Promise<void>;
+}
+
+function summary(n: Notification): string {
+  return `[SIGIL coordinator] ${n.severity.toUpperCase()}: ${n.title}`;
+}
+
+// ─── Webhook ─────────────────────────────────────────────────────────
+
+export interface WebhookNotifierConfig {
+  url: string;
+  token?: string;              // sent as `Authorization: Bearer <token>`
+  timeoutMs?: number;
+  minSeverity?: Severity;
+}
+
+export class WebhookNotifier implements Notifier {
+  readonly name = 'webhook';
+  readonly minSeverity: Severity;
+  private config: WebhookNotifierConfig;
+
+  constructor(config: WebhookNotifierConfig) {
+    this.config = config;
+    this.minSeverity = config.minSeverity ?? 'warning';
+  }
+
+  async send(n: Notification): Promise<void> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.token) headers.Authorization = `Bearer ${this.config.token}`;
+
+    // Slack-style webhooks render `text` (summary + detail) and ignore the structured fields
+    const res = await fetch(this.config.url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ ...n, text: `${summary(n)}\n${n.text}` }),
+      signal: AbortSignal.timeout(this.config.timeoutMs ?? 10_000),
+    });
+    if (!res.ok) throw new Error(`Webhook failed: HTTP ${res.status}`);
+  }
+}
+
+// ─── SMTP ────────────────────────────────────────────────────────────
+
+export interface SmtpNotifierConfig {
+  host: string;
+  port?: number;               // default: 465 with `secure`, else 587
+  secure?: boolean;            // implicit TLS; otherwise STARTTLS when offered
+  user?: string;
+  password?: string;
+  from: string;
+  to: string[];
+  timeoutMs?: number;
+  minSeverity?: Severity;
+}
+
+/** One SMTP conversation: reads complete (possibly multi-line) replies */
+class SmtpSession {
+  private socket!: Socket;
+  private timeoutMs: number;
+  private buffer = '';
+  private lines: string[] = [];
+  private waiter: (() => void) | null = null;
+  private failure: Error | null = null;
+  private onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString('utf8');
+    const parts = this.buffer.split('\r\n');
+    this.buffer = parts.pop() ?? '';
+    this.lines.push(...parts);
+    this.waiter?.();
+  };
+
+  constructor(socket: Socket, timeoutMs: number) {
+    this.timeoutMs = timeoutMs;
+    this.attach(socket);
+  }
+
+  /** Switch to a new transport (STARTTLS upgrade of the same connection) */
+  attach(socket: Socket): void {
+    this.socket?.off('data', this.onData);
+    this.socket = socket;
+    socket.on('data', this.onData);
+    socket.on('error', (err) => this.fail(err));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  get transport(): Socket {
+    return this.socket;
+  }
+
+  private fail(err: Error): void {
+    this.failure ??= err;
+    this.waiter?.();
+  }
+
+  /** Next reply; throws unless its code is one of `expect` */
+  async reply(expect: number[]): Promise<string> {
+    const deadline = Date.now() + this.timeoutMs;
+    for (;;) {
+      // A reply ends with "NNN text"; "NNN-text" lines continue it
+      const end = this.lines.findIndex((l) => /^\d{3}(?: |$)/.test(l));
+      if (end >= 0) {
+        const reply = this.lines.splice(0, end + 1);
+        const code = Number(reply[end].slice(0, 3));
+        if (!expect.includes(code)) throw new Error(`SMTP ${reply[end].slice(0, 120)}`);
+        return reply.join('\n');
+      }
+      if (this.failure) throw this.failure;
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) throw new Error('SMTP server timed out');
+      await new Promise<void>((r) => {
+        const timer = setTimeout(r, remaining);
+        this.waiter = () => {
+          clearTimeout(timer);
+          this.waiter = null;
+          r();
+        };
+      });
+    }
+  }
+
+  async command(line: string, expect: number[]): Promise<string> {
+    this.socket.write(`${line}\r\n`);
+    return this.reply(expect);
+  }
+
+  close(): void {
+    this.socket.removeAllListeners('close');
+    this.socket.destroy();
+  }
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+/** RFC 5322 message with a base64 UTF-8 body (safe for any 7-bit relay) */
+export function buildEmail(from: string, to: string[], n: Notification): string {
+  const body = [n.text, '', ...Object.entries(n.details).map(([k, v]) => `${k}: ${Array.isArray(v) ? v.join(', ') : v}`), '', n.timestamp].join('\r\n');
+  const headers = [
+    `From: ${from}`,
+    `To: ${to.join(', ')}`,
+    `Subject: ${encodeHeader(summary(n))}`,
+    `Date: ${new Date(n.timestamp).toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+  ];
+  const encoded = Buffer.from(body).toString('base64').match(/.{1,76}/g) ?? [];
+  return [...headers, '', ...encoded].join('\r\n');
+}
+
+export class SmtpNotifier implements Notifier {
+  readonly name = 'smtp';
+  readonly minSeverity: Severity;
+  private config: SmtpNotifierConfig;
+
+  constructor(config: SmtpNotifierConfig) {
+    if (config.to.length === 0) throw new Error('SmtpNotifier: no recipients');
+    this.config = config;
+    this.minSeverity = config.minSeverity ?? 'warning';
+  }
+
+  async send(n: Notification): Promise<void> {
+    const { host, secure, user, password, from, to } = this.config;
+    const port = this.config.port ?? (secure ? 465 : 587);
+    const socket = secure ? tlsConnect({ host, port, servername: host }) : netConnect({ host, port });
+    const session = new SmtpSession(socket, this.config.timeoutMs ?? 15_000);
+    try {
+      await session.reply([220]);
+      const features = await session.command(`EHLO ${hostname()}`, [250]);
+
+      let encrypted = !!secure;
+      if (!encrypted && /^250[- ]STARTTLS/im.test(features)) {
+        await session.command('STARTTLS', [220]);
+        const upgraded = tlsConnect({ socket: session.transport, servername: host });
+        session.attach(upgraded);
+        await new Promise<void>((r, reject) => {
+          upgraded.once('secureConnect', r);
+          upgraded.once('error', reject);
+        });
+        encrypted = true;
+        await session.command(`EHLO ${hostname()}`, [250]);
+      }
+
+      if (user) {
+        if (!encrypted) throw new Error('SMTP server offers no TLS; refusing to send credentials');
+        const token = Buffer.from(`\0${user}\0${password ?? ''}`).toString('base64');
+        await session.command(`AUTH PLAIN ${token}`, [235]);
+      }
+
+      await session.command(`MAIL FROM:<${from}>`, [250]);
+      for (const rcpt of to) await session.command(`RCPT TO:<${rcpt}>`, [250, 251]);
+      await session.command('DATA', [354]);
+      // Dot-stuffing is a no-op for base64 bodies, but headers could start with '.'
+      const message = buildEmail(from, to, n).replace(/^\./gm, '..');
+      await session.command(`${message}\r\n.`, [250]);
+      await session.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      session.close();
+    }
+  }
+}
+
+// ─── File ────────────────────────────────────────────────────────────
+
+export interface FileNotifierConfig {
+  path: string;
+  minSeverity?: Severity;
+}
+
+export class FileNotifier implements Notifier {
+  readonly name = 'file';
+  readonly minSeverity: Severity;
+  private path: string;
+
+  constructor(config: FileNotifierConfig) {
+    this.path = config.path;
+    this.minSeverity = config.minSeverity ?? 'info';
+    mkdirSync(dirname(this.path), { recursive: true });
+  }
+
+  async send(n: Notification): Promise<void> {
+    appendFileSync(this.path, JSON.stringify(n) + '\n');
+  }
+}
+
+// ─── Dispatch ────────────────────────────────────────────────────────
+
+export interface DispatcherOptions {
+  log?: (msg: string) => void;
+  /** Minimum gap between repeats of an ongoing condition (default: 6h) */
+  repeatIntervalMs?: number;
+}
+
+/** Conditions that stay true across loop cycles are only re-sent after repeatIntervalMs */
+function repeatKey(event: CoordinatorEvent): string | null {
+  return event.kind === 'lowBalance' ? `${event.deployment ?? ''}:lowBalance:${event.address}` : null;
+}
+
+export class NotificationDispatcher {
+  readonly notifiers: Notifier[];
+  private log: (msg: string) => void;
+  private repeatIntervalMs: number;
+  private lastSent = new Map<string, number>();
+
+  constructor(notifiers: Notifier[], options: DispatcherOptions = {}) {
+    this.notifiers = notifiers;
+    this.log = options.log ?? console.log;
+    this.repeatIntervalMs = options.repeatIntervalMs ?? 6 * 60 * 60_000;
+  }
+
+  /**
+   * Deliver to every sink whose threshold the event meets; failures are logged,
+   * never thrown. False if suppressed as a repeat of an ongoing condition.
+   */
+  async notify(event: CoordinatorEvent): Promise<boolean> {
+    const key = repeatKey(event);
+    if (key) {
+      const last = this.lastSent.get(key);
+      if (last !== undefined && Date.now() - last < this.repeatIntervalMs) return false;
+      this.lastSent.set(key, Date.now());
+    }
+
+    const notification = describeEvent(event);
+    const targets = this.notifiers.filter((s) => SEVERITY_RANK[notification.severity] >= SEVERITY_RANK[s.minSeverity]);
+    await Promise.all(targets.map(async (sink) => {
+      try {
+        await sink.send(notification);
+      } catch (err) {
+        this.log(`  Notification via ${sink.name} failed: ${(err as Error).message?.slice(0, 80) ?? 'unknown'}`);
+      }
+    }));
+    return true;
+  }
+
+  /** The condition cleared (e.g. wallet topped up): the next occurrence is sent at once */
+  resolve(event: CoordinatorEvent): void {
+    const key = repeatKey(event);
+    if (key) this.lastSent.delete(key);
+  }
+}
+
+// ─── Config ──────────────────────────────────────────────────────────
+
+export type NotifierConfig =
+  | ({ kind: 'webhook' } & WebhookNotifierConfig)
+  | ({ kind: 'smtp' } & SmtpNotifierConfig)
+  | ({ kind: 'file' } & FileNotifierConfig);
+
+/**
+ * NOTIFY_MIN_SEVERITY       — default threshold for every sink: info | warning | critical (default: warning)
+ * NOTIFY_WEBHOOK_URL        — webhook / Slack incoming webhook URL
+ * NOTIFY_WEBHOOK_TOKEN      — optional bearer token for NOTIFY_WEBHOOK_URL
+ * NOTIFY_SMTP_HOST          — SMTP relay (email sink enabled when set)
+ * NOTIFY_SMTP_PORT          — default: 465 with NOTIFY_SMTP_SECURE=true, else 587
+ * NOTIFY_SMTP_SECURE        — true = implicit TLS; otherwise STARTTLS when offered
+ * NOTIFY_SMTP_USER / NOTIFY_SMTP_PASSWORD — AUTH PLAIN credentials (TLS only)
+ * NOTIFY_SMTP_FROM          — sender address
+ * NOTIFY_SMTP_TO            — comma-separated recipients
+ * NOTIFY_FILE               — JSON-lines file every notification is appended to
+ *
+ * NOTIFY_<WEBHOOK|SMTP|FILE>_MIN_SEVERITY overrides the threshold per sink.
+ * No sink configured = no notifications.
+ */
+export function notifierConfigFromEnv(
+  get: (k: string) => string | undefined,
+  baseDir = process.cwd(),
+): NotifierConfig[] {
+  const severity = (name: string) => {
+    const value = get(`NOTIFY_${name}_MIN_SEVERITY`) || get('NOTIFY_MIN_SEVERITY');
+    return value ? parseSeverity(value) : undefined;
+  };
+  const configs: NotifierConfig[] = [];
+
+  const webhookUrl = get('NOTIFY_WEBHOOK_URL');
+  if (webhookUrl) {
+    configs.push({ kind: 'webhook', url: webhookUrl, token: get('NOTIFY_WEBHOOK_TOKEN') || undefined, minSeverity: severity('WEBHOOK') });
+  }
+
+  const smtpHost = get('NOTIFY_SMTP_HOST');
+  if (smtpHost) {
+    const from = get('NOTIFY_SMTP_FROM');
+    const to = (get('NOTIFY_SMTP_TO') ?? '').split(',').map((s) => s.trim()).filter(Boolean);
+    if (!from || to.length === 0) throw new Error('NOTIFY_SMTP_HOST requires NOTIFY_SMTP_FROM and NOTIFY_SMTP_TO');
+    const port = get('NOTIFY_SMTP_PORT');
+    configs.push({
+      kind: 'smtp',
+      host: smtpHost,
+      port: port ? Number(port) : undefined,
+      secure: get('NOTIFY_SMTP_SECURE') === 'true',
+      user: get('NOTIFY_SMTP_USER') || undefined,
+      password: get('NOTIFY_SMTP_PASSWORD') || undefined,
+      from,
+      to,
+      minSeverity: severity('SMTP'),
+    });
+  }
+
+  const file = get('NOTIFY_FILE');
+  if (file) {
+    configs.push({ kind: 'file', path: resolve(baseDir, file), minSeverity: severity('FILE') });
+  }
+
+  return configs;
+}
+
+export function createNotifier(config: NotifierConfig): Notifier {
+  switch (config.kind) {
+    case 'webhook':
+      return new WebhookNotifier(config);
+    case 'smtp':
+      return new SmtpNotifier(config);
+    case 'file':
+      return new FileNotifier(config);
+  }
+}
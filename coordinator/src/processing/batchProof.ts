@@ -1,15 +1,17 @@
 /**
  * Batch ZKP Generation
  *
- * Generates Groth16 proofs for message processing and vote tallying
- * using snarkjs. Creates circuit inputs and generates proofs from
- * .wasm and .zkey files.
+ * Generates Groth16 proofs for message processing and vote tallying.
+ * Creates circuit inputs and hands them, with the .wasm and .zkey files,
+ * to a Prover backend (snarkjs in-process by default; see prover.ts).
  *
  * IMPORTANT: Circuit input names MUST match the signal names in the .circom files exactly.
  * - MessageProcessor.circom: SHA256(currentStateCommitment, newStateCommitment, inputMessageRoot, numMessages)
  * - TallyVotes.circom: SHA256(stateCommitment, tallyCommitment, newTallyCommitment)
  */
 
+import { SnarkjsProver, type Prover } from './prover.js';
+
 export interface ProofResult {
   proof: {
     pi_a: string[];
@@ -52,11 +54,12 @@ export interface ProcessProofInput {
   msgPathIndices: bigint[][];  // [batchSize][depth]
 }
 
-export async function generateProcessProof(input: ProcessProofInput): Promise<ProofResult> {
-  const snarkjs = await import('snarkjs');
+/** Circuit inputs as decimal strings (JSON / IPC-transferable) */
+export type CircuitInputs = Record<string, unknown>;
 
+export function buildProcessCircuitInputs(input: ProcessProofInput): CircuitInputs {
   // Circuit input names must exactly match MessageProcessor.circom signal names
-  const circuitInputs = {
+  return {
     inputHash: input.inputHash.toString(),
     currentStateCommitment: input.currentStateCommitment.toString(),
     numMessages: input.numMessages.toString(),
@@ -80,14 +83,10 @@ export async function generateProcessProof(input: ProcessProofInput): Promise<Pr
     msgProofs: input.msgProofs.map((p) => p.map((l) => l.map((v) => v.toString()))),
     msgPathIndices: input.msgPathIndices.map((pi) => pi.map((v) => v.toString())),
   };
+}
 
-  const { proof, publicSignals } = await snarkjs.groth16.fullProve(
-    circuitInputs,
-    input.wasmPath,
-    input.zkeyPath,
-  );
-
-  return { proof, publicSignals };
+export async function generateProcessProof(input: ProcessProofInput, prover: Prover = new SnarkjsProver()): Promise<ProofResult> {
+  return prover.prove({ circuitInputs: buildProcessCircuitInputs(input), wasmPath: input.wasmPath, zkeyPath: input.zkeyPath });
 }
 
 // ─── TallyVotes Proof ────────────────────────────────────────────────
@@ -123,11 +122,9 @@ export interface TallyProofInput {
   newPerOptionSpentRoot: bigint;
 }
 
-export async function generateTallyProof(input: TallyProofInput): Promise<ProofResult> {
-  const snarkjs = await import('snarkjs');
-
+export function buildTallyCircuitInputs(input: TallyProofInput): CircuitInputs {
   // Circuit input names must exactly match TallyVotes.circom signal names
-  const circuitInputs = {
+  return {
     inputHash: input.inputHash.toString(),
     stateCommitment: input.stateCommitment.toString(),
     tallyCommitment: input.tallyCommitment.toString(),
@@ -150,14 +147,10 @@ export async function generateTallyProof(input: TallyProofInput): Promise<ProofR
     currentPerOptionSpentRoot: input.currentPerOptionSpentRoot.toString(),
     newPerOptionSpentRoot: input.newPerOptionSpentRoot.toString(),
   };
+}
 
-  const { proof, publicSignals } = await snarkjs.groth16.fullProve(
-    circuitInputs,
-    input.wasmPath,
-    input.zkeyPath,
-  );
-
-  return { proof, publicSignals };
+export async function generateTallyProof(input: TallyProofInput, prover: Prover = new SnarkjsProver()): Promise<ProofResult> {
+  return prover.prove({ circuitInputs: buildTallyCircuitInputs(input), wasmPath: input.wasmPath, zkeyPath: input.zkeyPath });
 }
 
 // ─── SHA256 Public Input Hash ────────────────────────────────────────
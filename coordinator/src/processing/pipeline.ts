@@ -0,0 +1,53 @@
+/**
+ * Pipelined Prove → Submit
+ *
+ * Batch circuit inputs are deterministic once messages are decrypted, so
+ * every proof can start up front (at most `concurrency` at a time, in batch
+ * order) while earlier batches are still being submitted. Submission stays
+ * strictly in order because each on-chain batch commits to the previous one.
+ *
+ * A failed proof or tx is reported via onError and the pipeline moves on,
+ * matching the runner's "log and continue" behaviour for single batches.
+ */
+
+export interface PipelineOptions<T, P> {
+  concurrency: number;
+  prove: (item: T) => Promise<P>;
+  submit: (item: T, proof: P) => Promise<void>;
+  onError: (item: T, err: unknown) => void;
+}
+
+export async function runPipelined<T, P>(items: T[], opts: PipelineOptions<T, P>): Promise<void> {
+  const limit = Math.max(1, Math.floor(opts.concurrency));
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  const acquire = async () => {
+    while (active >= limit) await new Promise<void>((r) => waiting.push(r));
+    active++;
+  };
+  const release = () => {
+    active--;
+    waiting.shift()?.();
+  };
+
+  const proofs = items.map(async (item) => {
+    await acquire();
+    try {
+      return await opts.prove(item);
+    } finally {
+      release();
+    }
+  });
+  // Rejections are handled in order below; don't let early ones surface as unhandled
+  for (const p of proofs) p.catch(() => {});
+
+  for (let i = 0; i < items.length; i++) {
+    try {
+      const proof = await proofs[i];
+      await opts.submit(items[i], proof);
+    } catch (err) {
+      opts.onError(items[i], err);
+    }
+  }
+}
@@ -7,12 +7,16 @@
  *   3. Decryption uses Poseidon DuplexSponge (not CTR)
  *   4. EdDSA-Poseidon signature verification
  *   5. Key Change support via newPubKey fields
+ *
+ * This is the engine the runner uses: it starts from the real SignUp state
+ * leaves, applies every message batch by batch, records why each message
+ * was accepted or rejected, and emits the exact MessageProcessor circuit
+ * inputs for every batch (only the .wasm/.zkey paths are left to the caller).
  */
 
-import type { QuinaryMerkleTree } from '../trees/quinaryTree.js';
-
-// Re-use crypto modules from src/crypto
-// In production, import from shared package
+import { QuinaryMerkleTree } from '../trees/quinaryTree.js';
+import type { CryptoKit } from '../crypto/kit.js';
+import { computePublicInputHash, type ProcessProofInput } from './batchProof.js';
 
 export interface EncryptedMessage {
   data: bigint[];       // 10 field elements (DuplexSponge encrypted)
@@ -45,29 +49,87 @@ export interface Ballot {
   voteOptionRoot: bigint;
 }
 
+/** State index 0: absorbs invalid messages (matches the contracts' blank leaf) */
+export const BLANK_STATE_LEAF: StateLeaf = { pubKeyX: 0n, pubKeyY: 0n, voiceCreditBalance: 2n ** 32n, timestamp: 0n };
+
+export type MessageRejection =
+  | 'decrypt-failed'       // DuplexSponge auth tag mismatch (corrupt, wrong key, or padding)
+  | 'bad-signature'        // not signed by the state leaf's current key
+  | 'bad-state-index'      // stateIndex 0 or >= numSignUps
+  | 'bad-nonce'            // nonce != ballot.nonce + 1
+  | 'insufficient-credits' // quadratic cost exceeds remaining voice credits
+  | 'bad-vote-option';     // vote option >= maxVoteOptions
+
+export interface MessageOutcome {
+  messageIndex: number;
+  batch: number;
+  valid: boolean;
+  /** Every failed check, in evaluation order (empty when valid) */
+  reasons: MessageRejection[];
+  /** Decrypted command (zeroed fields if decryption failed) */
+  command: Command;
+}
+
+export type ProcessCircuitInput = Omit<ProcessProofInput, 'wasmPath' | 'zkeyPath'>;
+
+export interface ProcessedBatch {
+  batch: number;               // 1-based, in processing order
+  messageIndices: number[];
+  currentStateCommitment: bigint;
+  newStateCommitment: bigint;
+  outputStateRoot: bigint;
+  outputBallotRoot: bigint;
+  circuitInput: ProcessCircuitInput;
+}
+
 export interface ProcessResult {
+  stateTree: QuinaryMerkleTree;
+  ballotTree: QuinaryMerkleTree;
+  stateLeaves: Map<number, StateLeaf>;
+  ballots: Map<number, Ballot>;
+  numSignUps: number;          // including the blank leaf
+  messageRoot: bigint;
   newStateRoot: bigint;
   newBallotRoot: bigint;
+  stateCommitment: bigint;     // poseidon(newStateRoot, newBallotRoot)
+  batches: ProcessedBatch[];
+  outcomes: MessageOutcome[];  // processing (reverse) order
   processedCount: number;
   invalidCount: number;
 }
 
-export interface ProcessBatchInput {
+export interface ProcessMessagesInput {
+  crypto: CryptoKit;
   coordinatorSk: bigint;
+  /** SignUp leaves in state index order (1..n); the blank leaf 0 is added here */
+  stateLeaves: StateLeaf[];
   messages: EncryptedMessage[];
-  stateTree: QuinaryMerkleTree;
-  ballotTree: QuinaryMerkleTree;
-  numSignUps: number;
+  stateTreeDepth: number;
+  batchSize: number;
   maxVoteOptions: number;
-  ecdh: (sk: bigint, pubKey: [bigint, bigint]) => bigint[];
-  decrypt: (ciphertext: bigint[], key: bigint[], nonce: bigint) => bigint[];
-  verifyEdDSA: (msg: bigint, sig: { R8: bigint[], S: bigint }, pubKey: bigint[]) => boolean;
-  hashStateLeaf: (leaf: StateLeaf) => bigint;
-  hashBallot: (ballot: Ballot) => bigint;
-  hashCommand: (cmd: Command) => bigint;
-  unpackCommand: (packed: bigint) => Command;
 }
 
+/** Message tree leaf: poseidon(poseidon(data[0..4]), poseidon(data[5..9]), encPubKeyX, encPubKeyY) */
+export function hashMessage(crypto: CryptoKit, msg: EncryptedMessage): bigint {
+  return crypto.hash(
+    crypto.hash(msg.data[0], msg.data[1], msg.data[2], msg.data[3], msg.data[4]),
+    crypto.hash(msg.data[5], msg.data[6], msg.data[7], msg.data[8], msg.data[9]),
+    msg.encPubKeyX,
+    msg.encPubKeyY,
+  );
+}
+
+function emptyBallot(maxVoteOptions: number): Ballot {
+  return { nonce: 0n, votes: new Array(maxVoteOptions).fill(0n), voteOptionRoot: 0n };
+}
+
+const PADDING_MESSAGE: EncryptedMessage = {
+  data: new Array(10).fill(0n),
+  encPubKeyX: 0n,
+  encPubKeyY: 0n,
+  messageIndex: 0,
+};
+
 /**
  * Process all messages in REVERSE order (MACI core)
  *
@@ -76,142 +138,191 @@ export interface ProcessBatchInput {
  * being coerced, the key change invalidates all prior messages signed
  * with the old key.
  */
-export async function processMessages(input: ProcessBatchInput): Promise<ProcessResult> {
-  const {
-    coordinatorSk,
-    messages,
-    stateTree,
-    ballotTree,
-    numSignUps,
-    maxVoteOptions,
-    ecdh,
-    decrypt,
-    verifyEdDSA,
-    hashStateLeaf,
-    hashBallot,
-    hashCommand,
-    unpackCommand,
-  } = input;
-
-  // ★★★ MACI CORE: Reverse processing (last message first) ★★★
-  const reversed = [...messages].reverse();
-
-  let processedCount = 0;
-  let invalidCount = 0;
-
-  // Track state leaves and ballots in memory
+export async function processMessages(input: ProcessMessagesInput): Promise<ProcessResult> {
+  const { crypto, coordinatorSk, messages, stateTreeDepth, batchSize, maxVoteOptions } = input;
+
+  // State + ballot trees: blank leaf at 0, registered voters from 1
+  const stateTree = new QuinaryMerkleTree(stateTreeDepth);
+  await stateTree.init();
+  const ballotTree = new QuinaryMerkleTree(stateTreeDepth);
+  await ballotTree.init();
   const stateLeaves = new Map<number, StateLeaf>();
   const ballots = new Map<number, Ballot>();
 
-  for (const msg of reversed) {
-    // 1. ECDH: shared key = coordinatorSk * encPubKey
-    const sharedKey = ecdh(coordinatorSk, [msg.encPubKeyX, msg.encPubKeyY]);
-
-    // 2. Poseidon DuplexSponge decryption
-    const plaintext = decrypt(msg.data, sharedKey, BigInt(msg.messageIndex));
+  const leaves = [BLANK_STATE_LEAF, ...input.stateLeaves];
+  for (let i = 0; i < leaves.length; i++) {
+    stateLeaves.set(i, { ...leaves[i] });
+    stateTree.insert(i, crypto.hashStateLeaf(leaves[i]));
+    const ballot = emptyBallot(maxVoteOptions);
+    ballots.set(i, ballot);
+    ballotTree.insert(i, crypto.hashBallot(ballot));
+  }
+  const numSignUps = leaves.length;
 
-    // 3. Unpack command
-    const command = unpackCommand(plaintext[0]);
-    command.newPubKeyX = plaintext[1];
-    command.newPubKeyY = plaintext[2];
-    command.salt = plaintext[3];
+  // Message tree for inclusion proofs
+  const msgTree = new QuinaryMerkleTree(stateTreeDepth);
+  await msgTree.init();
+  for (const msg of messages) msgTree.insert(msg.messageIndex, hashMessage(crypto, msg));
 
-    const signature = {
-      R8: [plaintext[4], plaintext[5]],
-      S: plaintext[6],
+  // ★★★ MACI CORE: Reverse processing (last message first) ★★★
+  const reversed = [...messages].sort((a, b) => b.messageIndex - a.messageIndex);
+
+  const batches: ProcessedBatch[] = [];
+  const outcomes: MessageOutcome[] = [];
+  // Contract initializes currentStateCommitment = 0, updated after each batch
+  let currentStateCommitment = 0n;
+
+  for (let bi = 0; bi < reversed.length; bi += batchSize) {
+    const batch = reversed.slice(bi, bi + batchSize);
+    const batchNum = bi / batchSize + 1;
+
+    const inputStateRoot = stateTree.root;
+    const inputBallotRoot = ballotTree.root;
+    const inputMessageRoot = msgTree.root;
+
+    const circuit = {
+      messages: [] as bigint[][],
+      encPubKeys: [] as bigint[][],
+      msgNonces: [] as bigint[],
+      stateLeaves: [] as bigint[][],
+      ballots: [] as bigint[][],
+      ballotVoteWeights: [] as bigint[],
+      stateProofs: [] as bigint[][][],
+      statePathIndices: [] as bigint[][],
+      ballotProofs: [] as bigint[][][],
+      ballotPathIndices: [] as bigint[][],
+      msgProofs: [] as bigint[][][],
+      msgPathIndices: [] as bigint[][],
     };
 
-    // 4. Get current state leaf
-    const stateIndex = Number(command.stateIndex);
-    let stateLeaf = stateLeaves.get(stateIndex);
-    if (!stateLeaf) {
-      // Load from tree (would need deserialization in production)
-      stateLeaf = {
-        pubKeyX: 0n,
-        pubKeyY: 0n,
-        voiceCreditBalance: 0n,
-        timestamp: 0n,
-      };
-    }
-
-    let ballot = ballots.get(stateIndex);
-    if (!ballot) {
-      ballot = {
-        nonce: 0n,
-        votes: new Array(maxVoteOptions).fill(0n),
-        voteOptionRoot: 0n,
-      };
+    // Short batches are padded to batchSize; padding never changes state
+    for (let mi = 0; mi < batchSize; mi++) {
+      const real = batch[mi];
+      const msg = real ?? PADDING_MESSAGE;
+
+      // 1. ECDH + DuplexSponge decryption (nonce is always 0 in our protocol)
+      const sharedKey = crypto.ecdh(coordinatorSk, [msg.encPubKeyX, msg.encPubKeyY]);
+      const plaintext = crypto.decrypt(msg.data, sharedKey, 0n);
+      const pt = plaintext ?? [0n, 0n, 0n, 0n, 0n, 0n, 0n];
+
+      // 2. Unpack command
+      const cmd = crypto.unpackCommand(pt[0] ?? 0n);
+      cmd.newPubKeyX = pt[1] ?? 0n;
+      cmd.newPubKeyY = pt[2] ?? 0n;
+      cmd.salt = pt[3] ?? 0n;
+      // Out-of-range option indices are clamped to 0 (never index past the ballot)
+      if (cmd.voteOptionIndex >= BigInt(maxVoteOptions)) cmd.voteOptionIndex = 0n;
+
+      const sig = { R8: [pt[4] ?? 0n, pt[5] ?? 0n], S: pt[6] ?? 0n };
+
+      // 3. Current leaf, ballot and Merkle proofs BEFORE the update
+      const stateIdx = Number(cmd.stateIndex);
+      const voteOptIdx = Number(cmd.voteOptionIndex);
+      const currentLeaf = stateLeaves.get(stateIdx) ?? { ...BLANK_STATE_LEAF };
+      const currentBallot = ballots.get(stateIdx) ?? emptyBallot(maxVoteOptions);
+      const stateProof = stateTree.getProof(stateIdx);
+      const ballotProof = ballotTree.getProof(stateIdx);
+      const msgProof = msgTree.getProof(msg.messageIndex);
+
+      // Circuit inputs (the circuit decrypts in-circuit, no cmd* needed)
+      circuit.messages.push(msg.data);
+      circuit.encPubKeys.push([msg.encPubKeyX, msg.encPubKeyY]);
+      circuit.msgNonces.push(0n);
+      circuit.stateLeaves.push([currentLeaf.pubKeyX, currentLeaf.pubKeyY, currentLeaf.voiceCreditBalance, currentLeaf.timestamp]);
+      circuit.ballots.push([currentBallot.nonce, currentBallot.voteOptionRoot]);
+      circuit.ballotVoteWeights.push(currentBallot.votes[voteOptIdx] ?? 0n);
+      circuit.stateProofs.push(stateProof.pathElements);
+      circuit.statePathIndices.push(stateProof.pathIndices.map(BigInt));
+      circuit.ballotProofs.push(ballotProof.pathElements);
+      circuit.ballotPathIndices.push(ballotProof.pathIndices.map(BigInt));
+      circuit.msgProofs.push(msgProof.pathElements);
+      circuit.msgPathIndices.push(msgProof.pathIndices.map(BigInt));
+
+      if (!real) continue;
+
+      // 4. Validity checks
+      const reasons: MessageRejection[] = [];
+      if (!plaintext) reasons.push('decrypt-failed');
+      const cmdHash = crypto.hashCommand(cmd);
+      if (!crypto.verifyEdDSA(cmdHash, sig, [currentLeaf.pubKeyX, currentLeaf.pubKeyY])) reasons.push('bad-signature');
+      if (stateIdx >= numSignUps || stateIdx <= 0) reasons.push('bad-state-index');
+      if (cmd.nonce !== currentBallot.nonce + 1n) reasons.push('bad-nonce');
+      const currentWeight = currentBallot.votes[voteOptIdx] ?? 0n;
+      const creditChange = currentWeight * currentWeight - cmd.newVoteWeight * cmd.newVoteWeight;
+      if (currentLeaf.voiceCreditBalance + creditChange < 0n) reasons.push('insufficient-credits');
+      if (voteOptIdx >= maxVoteOptions || voteOptIdx < 0) reasons.push('bad-vote-option');
+
+      // 5. Apply state transition
+      if (reasons.length === 0) {
+        // Key Change support
+        currentLeaf.pubKeyX = cmd.newPubKeyX;
+        currentLeaf.pubKeyY = cmd.newPubKeyY;
+        currentLeaf.voiceCreditBalance += creditChange;
+        stateLeaves.set(stateIdx, currentLeaf);
+        stateTree.update(stateIdx, crypto.hashStateLeaf(currentLeaf));
+
+        currentBallot.votes[voteOptIdx] = cmd.newVoteWeight;
+        currentBallot.nonce += 1n;
+        ballots.set(stateIdx, currentBallot);
+        ballotTree.update(stateIdx, crypto.hashBallot(currentBallot));
+      } else {
+        // ★ Invalid: route to index 0 (blank leaf, no real effect)
+        stateTree.update(0, crypto.hashStateLeaf(stateLeaves.get(0)!));
+        ballotTree.update(0, crypto.hashBallot(ballots.get(0)!));
+      }
+      outcomes.push({ messageIndex: msg.messageIndex, batch: batchNum, valid: reasons.length === 0, reasons, command: cmd });
     }
 
-    // 5. Validity checks
-    let isValid = true;
-
-    // 5a. EdDSA signature verification
-    const cmdHash = hashCommand(command);
-    const validSig = verifyEdDSA(cmdHash, signature, [stateLeaf.pubKeyX, stateLeaf.pubKeyY]);
-    if (!validSig) isValid = false;
-
-    // 5b. State index range
-    if (stateIndex >= numSignUps || stateIndex <= 0) isValid = false;
-
-    // 5c. Nonce check
-    if (command.nonce !== ballot.nonce + 1n) isValid = false;
-
-    // 5d. Voice credit balance check
-    const voteOptIdx = Number(command.voteOptionIndex);
-    const currentWeight = ballot.votes[voteOptIdx] ?? 0n;
-    const newWeight = command.newVoteWeight;
-    const creditChange = currentWeight * currentWeight - newWeight * newWeight;
-    if (stateLeaf.voiceCreditBalance + creditChange < 0n) isValid = false;
-
-    // 5e. Vote option range
-    if (voteOptIdx >= maxVoteOptions || voteOptIdx < 0) isValid = false;
-
-    // 6. Apply state transition
-    if (isValid) {
-      // Key Change support
-      stateLeaf.pubKeyX = command.newPubKeyX;
-      stateLeaf.pubKeyY = command.newPubKeyY;
-
-      // Update balance
-      stateLeaf.voiceCreditBalance += creditChange;
-
-      // Update ballot
-      ballot.votes[voteOptIdx] = newWeight;
-      ballot.nonce += 1n;
-
-      // Update trees
-      stateLeaves.set(stateIndex, stateLeaf);
-      ballots.set(stateIndex, ballot);
-
-      stateTree.update(stateIndex, hashStateLeaf(stateLeaf));
-      ballotTree.update(stateIndex, hashBallot(ballot));
-
-      processedCount++;
-    } else {
-      // ★ Invalid: route to index 0 (blank leaf)
-      // Apply command to blank leaf at index 0 (no real effect)
-      const blankLeaf = stateLeaves.get(0) ?? {
-        pubKeyX: 0n,
-        pubKeyY: 0n,
-        voiceCreditBalance: 0n,
-        timestamp: 0n,
-      };
-      stateTree.update(0, hashStateLeaf(blankLeaf));
-      ballotTree.update(0, hashBallot(ballots.get(0) ?? {
-        nonce: 0n,
-        votes: new Array(maxVoteOptions).fill(0n),
-        voteOptionRoot: 0n,
-      }));
-
-      invalidCount++;
-    }
+    const outputStateRoot = stateTree.root;
+    const outputBallotRoot = ballotTree.root;
+    const newStateCommitment = crypto.hash(outputStateRoot, outputBallotRoot);
+
+    // SHA256: 4 values matching MessageProcessor.sol contract
+    const inputHash = await computePublicInputHash([
+      currentStateCommitment,
+      newStateCommitment,
+      inputMessageRoot,
+      BigInt(messages.length),
+    ]);
+
+    batches.push({
+      batch: batchNum,
+      messageIndices: batch.map(m => m.messageIndex),
+      currentStateCommitment,
+      newStateCommitment,
+      outputStateRoot,
+      outputBallotRoot,
+      circuitInput: {
+        inputHash,
+        currentStateCommitment,
+        numMessages: BigInt(messages.length),
+        inputStateRoot,
+        outputStateRoot,
+        inputBallotRoot,
+        outputBallotRoot,
+        inputMessageRoot,
+        numSignUps: BigInt(numSignUps),
+        coordinatorSk,
+        ...circuit,
+      },
+    });
+    currentStateCommitment = newStateCommitment;
   }
 
+  const processedCount = outcomes.filter(o => o.valid).length;
   return {
+    stateTree,
+    ballotTree,
+    stateLeaves,
+    ballots,
+    numSignUps,
+    messageRoot: msgTree.root,
     newStateRoot: stateTree.root,
     newBallotRoot: ballotTree.root,
+    stateCommitment: crypto.hash(stateTree.root, ballotTree.root),
+    batches,
+    outcomes,
     processedCount,
-    invalidCount,
+    invalidCount: outcomes.length - processedCount,
   };
 }
@@ -0,0 +1,21 @@
+/**
+ * Proof Worker (forked by ProofWorkerPool)
+ *
+ * Receives { id, circuitInputs, wasmPath, zkeyPath } over IPC, runs snarkjs
+ * fullProve and replies with { id, result } or { id, error }.
+ */
+
+import { SnarkjsProver } from './prover.js';
+import type { ProofTaskMessage, ProofReplyMessage } from './proverPool.js';
+
+const prover = new SnarkjsProver();
+
+process.on('message', async (task: ProofTaskMessage) => {
+  let reply: ProofReplyMessage;
+  try {
+    reply = { id: task.id, result: await prover.prove(task) };
+  } catch (err) {
+    reply = { id: task.id, error: (err as Error).message ?? 'proof failed' };
+  }
+  process.send!(reply);
+});
@@ -0,0 +1,205 @@
+/**
+ * Groth16 Prover Backends
+ *
+ * Everything that turns circuit inputs into a proof goes through `Prover`,
+ * so heavy prod proofs can move off the coordinator host without touching
+ * the processing pipeline:
+ *
+ *   SnarkjsProver    — snarkjs fullProve in this process (default)
+ *   RapidsnarkProver — witness via snarkjs (.wasm), proof via the native
+ *                      rapidsnark `prover` binary (much faster on prod zkeys)
+ *   HttpProver       — POSTs inputs to a remote prover (see proverServer.ts)
+ *
+ * Selected with PROVER=snarkjs|rapidsnark|http (see proverConfigFromEnv).
+ *
+ * The circuit inputs include the coordinator's private key (coordinatorSk),
+ * which decrypts every vote. HttpProver hands it to the remote host, so run
+ * that host with the same trust as the coordinator itself; the URL must be
+ * https unless it is on this machine.
+ */
+
+import { execFile } from 'child_process';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { basename, join } from 'path';
+import { promisify } from 'util';
+import type { CircuitInputs, ProofResult } from './batchProof.js';
+
+const execFileAsync = promisify(execFile);
+
+export interface ProofTask {
+  circuitInputs: CircuitInputs;
+  wasmPath: string;
+  zkeyPath: string;
+}
+
+export interface Prover {
+  readonly name: string;
+  prove(task: ProofTask): Promise<ProofResult>;
+}
+
+/** Circuit id sent to remote provers: zkey file name without extension */
+export function circuitId(zkeyPath: string): string {
+  return basename(zkeyPath).replace(/\.zkey$/, '');
+}
+
+// ─── snarkjs ─────────────────────────────────────────────────────────
+
+export class SnarkjsProver implements Prover {
+  readonly name = 'snarkjs';
+
+  async prove({ circuitInputs, wasmPath, zkeyPath }: ProofTask): Promise<ProofResult> {
+    const snarkjs = await import('snarkjs');
+    const { proof, publicSignals } = await snarkjs.groth16.fullProve(circuitInputs, wasmPath, zkeyPath);
+    return { proof, publicSignals };
+  }
+}
+
+// ─── rapidsnark ──────────────────────────────────────────────────────
+
+export interface RapidsnarkConfig {
+  binary?: string;             // rapidsnark `prover` executable (default: on PATH)
+  timeoutMs?: number;
+}
+
+export class RapidsnarkProver implements Prover {
+  readonly name = 'rapidsnark';
+  private config: RapidsnarkConfig;
+
+  constructor(config: RapidsnarkConfig = {}) {
+    this.config = config;
+  }
+
+  async prove({ circuitInputs, wasmPath, zkeyPath }: ProofTask): Promise<ProofResult> {
+    const dir = await mkdtemp(join(tmpdir(), 'sigil-rapidsnark-'));
+    const witnessPath = join(dir, 'witness.wtns');
+    const proofPath = join(dir, 'proof.json');
+    const publicPath = join(dir, 'public.json');
+    try {
+      const snarkjs = await import('snarkjs');
+      await snarkjs.wtns.calculate(circuitInputs, wasmPath, witnessPath);
+
+      try {
+        await execFileAsync(this.config.binary ?? 'prover', [zkeyPath, witnessPath, proofPath, publicPath], {
+          timeout: this.config.timeoutMs ?? 0,
+        });
+      } catch (err) {
+        const stderr = String((err as { stderr?: string }).stderr ?? '').trim();
+        throw new Error(`rapidsnark failed: ${stderr.slice(0, 200) || (err as Error).message}`);
+      }
+
+      const proof = JSON.parse(await readFile(proofPath, 'utf8')) as ProofResult['proof'];
+      const publicSignals = JSON.parse(await readFile(publicPath, 'utf8')) as string[];
+      return { proof, publicSignals };
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+}
+
+// ─── Remote HTTP ─────────────────────────────────────────────────────
+
+export interface HttpProverConfig {
+  url: string;                 // POST endpoint, e.g. https://prover.example/prove
+  token?: string;              // sent as `Authorization: Bearer <token>`
+  timeoutMs?: number;
+}
+
+const LOCAL_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+/** Request body: the remote host resolves `circuit` to its own wasm/zkey copies */
+export interface RemoteProofRequest {
+  circuit: string;
+  inputs: CircuitInputs;
+}
+
+export class HttpProver implements Prover {
+  readonly name = 'http';
+  private config: HttpProverConfig;
+
+  constructor(config: HttpProverConfig) {
+    const { protocol, hostname } = new URL(config.url);
+    if (protocol !== 'https:' && !(protocol === 'http:' && LOCAL_HOSTS.has(hostname))) {
+      throw new Error(`Remote prover URL must be https (plain http only to localhost): ${config.url}`);
+    }
+    this.config = config;
+  }
+
+  async prove({ circuitInputs, zkeyPath }: ProofTask): Promise<ProofResult> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.token) headers.Authorization = `Bearer ${this.config.token}`;
+
+    const body: RemoteProofRequest = { circuit: circuitId(zkeyPath), inputs: circuitInputs };
+    const res = await fetch(this.config.url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      // prod proofs take minutes; default generously
+      signal: AbortSignal.timeout(this.config.timeoutMs ?? 15 * 60_000),
+    });
+
+    const text = await res.text();
+    if (!res.ok) {
+      let detail = '';
+      try {
+        detail = String((JSON.parse(text) as { error?: unknown }).error ?? '');
+      } catch { /* non-JSON error body */ }
+      throw new Error(`Remote prover failed: HTTP ${res.status}${detail ? ` (${detail.slice(0, 120)})` : ''}`);
+    }
+
+    let json: Partial<ProofResult>;
+    try {
+      json = JSON.parse(text) as Partial<ProofResult>;
+    } catch {
+      throw new Error('Remote prover returned a non-JSON response');
+    }
+    if (!json.proof || !Array.isArray(json.publicSignals)) {
+      throw new Error('Remote prover response has no proof');
+    }
+    return { proof: json.proof, publicSignals: json.publicSignals };
+  }
+}
+
+// ─── Config ──────────────────────────────────────────────────────────
+
+export type ProverConfig =
+  | { backend: 'snarkjs' }
+  | ({ backend: 'rapidsnark' } & RapidsnarkConfig)
+  | ({ backend: 'http' } & HttpProverConfig);
+
+/**
+ * PROVER            — snarkjs (default) | rapidsnark | http
+ * RAPIDSNARK_PATH   — rapidsnark `prover` binary (default: `prover` on PATH)
+ * PROVER_URL        — remote prover endpoint (required for http; https unless localhost).
+ *                     Receives the coordinator private key with every proof.
+ * PROVER_TOKEN      — bearer token for PROVER_URL
+ * PROVER_TIMEOUT_MS — per-proof timeout for rapidsnark / http
+ */
+export function proverConfigFromEnv(get: (k: string) => string | undefined): ProverConfig {
+  const backend = get('PROVER') || 'snarkjs';
+  const timeoutMs = get('PROVER_TIMEOUT_MS') ? Number(get('PROVER_TIMEOUT_MS')) : undefined;
+  switch (backend) {
+    case 'snarkjs':
+      return { backend };
+    case 'rapidsnark':
+      return { backend, binary: get('RAPIDSNARK_PATH') || undefined, timeoutMs };
+    case 'http': {
+      const url = get('PROVER_URL');
+      if (!url) throw new Error('PROVER=http requires PROVER_URL');
+      return { backend, url, token: get('PROVER_TOKEN') || undefined, timeoutMs };
+    }
+    default:
+      throw new Error(`Unknown PROVER backend: ${backend} (expected snarkjs, rapidsnark or http)`);
+  }
+}
+
+export function createProver(config: ProverConfig): Prover {
+  switch (config.backend) {
+    case 'snarkjs':
+      return new SnarkjsProver();
+    case 'rapidsnark':
+      return new RapidsnarkProver(config);
+    case 'http':
+      return new HttpProver(config);
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Proof Worker Pool
+ *
+ * Runs Groth16 proofs in forked prover processes so several batches can be
+ * proven at once. Processes (not worker_threads): snarkjs' own thread pool
+ * (web-worker) assumes any non-main thread is one of its workers, and a
+ * separate heap keeps a prod zkey OOM from taking down the coordinator.
+ *
+ * Provers are spawned lazily up to `size` and reused; one that crashes fails
+ * only its current task and is replaced on the next dispatch. Idle provers
+ * are unref'd so they never keep a one-shot process (cron.ts) alive.
+ */
+
+import { fork, type ChildProcess } from 'child_process';
+import { fileURLToPath } from 'url';
+import type { ProofResult } from './batchProof.js';
+import type { Prover, ProofTask } from './prover.js';
+
+export interface ProofTaskMessage extends ProofTask {
+  id: number;
+}
+
+export type ProofReplyMessage =
+  | { id: number; result: ProofResult }
+  | { id: number; error: string };
+
+interface Job {
+  msg: ProofTaskMessage;
+  resolve: (result: ProofResult) => void;
+  reject: (err: Error) => void;
+}
+
+interface Slot {
+  child: ChildProcess;
+  job: Job | null;
+}
+
+// tsx runs the .ts sources directly (and passes its loader to forks); tsc output ships proofWorker.js
+function defaultWorkerUrl(): URL {
+  const ext = import.meta.url.endsWith('.ts') ? 'ts' : 'js';
+  return new URL(`./proofWorker.${ext}`, import.meta.url);
+}
+
+/** Prover that fans in-process snarkjs proofs out to forked processes */
+export class ProofWorkerPool implements Prover {
+  readonly name = 'snarkjs-pool';
+  readonly size: number;
+  private readonly workerPath: string;
+  private slots: Slot[] = [];
+  private queue: Job[] = [];
+  private nextId = 1;
+  private closed = false;
+
+  constructor(size: number, workerUrl: URL = defaultWorkerUrl()) {
+    this.size = Math.max(1, Math.floor(size));
+    this.workerPath = fileURLToPath(workerUrl);
+  }
+
+  /** Queue a proof; resolves when a prover finishes it */
+  prove(task: ProofTask): Promise<ProofResult> {
+    if (this.closed) return Promise.reject(new Error('Proof worker pool is closed'));
+    return new Promise((resolvePromise, reject) => {
+      this.queue.push({ msg: { id: this.nextId++, ...task }, resolve: resolvePromise, reject });
+      this.dispatch();
+    });
+  }
+
+  /** Proofs queued or running */
+  get pending(): number {
+    return this.queue.length + this.slots.filter((s) => s.job).length;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    for (const job of this.queue.splice(0)) job.reject(new Error('Proof worker pool is closed'));
+    const slots = this.slots.splice(0);
+    for (const slot of slots) slot.job?.reject(new Error('Proof worker pool is closed'));
+    await Promise.all(slots.map((s) => new Promise<void>((res) => {
+      if (s.child.exitCode !== null || s.child.signalCode !== null) return res();
+      s.child.once('exit', () => res());
+      s.child.kill();
+    })));
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let slot = this.slots.find((s) => !s.job);
+      if (!slot) {
+        if (this.slots.length >= this.size) return;
+        slot = this.spawn();
+      }
+      const job = this.queue.shift()!;
+      slot.job = job;
+      setRef(slot.child, true);
+      slot.child.send(job.msg);
+    }
+  }
+
+  private spawn(): Slot {
+    const child = fork(this.workerPath, [], { stdio: ['ignore', 'inherit', 'inherit', 'ipc'] });
+    const slot: Slot = { child, job: null };
+
+    child.on('message', (reply: ProofReplyMessage) => {
+      const job = slot.job;
+      slot.job = null;
+      setRef(child, false);
+      if (job && job.msg.id === reply.id) {
+        if ('error' in reply) job.reject(new Error(reply.error));
+        else job.resolve(reply.result);
+      }
+      this.dispatch();
+    });
+
+    const fail = (err: Error) => {
+      const idx = this.slots.indexOf(slot);
+      if (idx === -1) return; // already handled ('error' may be followed by 'exit')
+      this.slots.splice(idx, 1);
+      slot.job?.reject(err);
+      slot.job = null;
+      if (!this.closed) this.dispatch();
+    };
+    child.on('error', fail);
+    child.on('exit', (code, signal) => fail(new Error(`Proof worker exited with ${signal ?? `code ${code}`}`)));
+
+    setRef(child, false);
+    this.slots.push(slot);
+    return slot;
+  }
+}
+
+function setRef(child: ChildProcess, ref: boolean): void {
+  if (ref) {
+    child.ref();
+    child.channel?.ref();
+  } else {
+    child.unref();
+    child.channel?.unref();
+  }
+}
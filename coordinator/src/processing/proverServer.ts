@@ -0,0 +1,109 @@
+/**
+ * Remote Prover HTTP Server
+ *
+ * The other end of HttpProver: wraps any local Prover (typically
+ * rapidsnark on a large host) behind
+ *   POST /prove  { circuit, inputs } → { proof, publicSignals }
+ *   GET  /healthz → { ok: true, circuits: [...] }
+ *
+ * `circuit` is the zkey file name without extension; only circuits listed
+ * in `circuits` are served. Also used as the local mock in tests.
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { Prover, RemoteProofRequest } from './prover.js';
+
+export interface ProverServerConfig {
+  prover: Prover;
+  circuits: Record<string, { wasmPath: string; zkeyPath: string }>;
+  token?: string;              // require `Authorization: Bearer <token>`
+  maxBodyBytes?: number;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage, limit: number): Promise<string> {
+  return new Promise((resolvePromise, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolvePromise(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function authorized(req: IncomingMessage, token: string): boolean {
+  const given = Buffer.from(req.headers.authorization ?? '');
+  const expected = Buffer.from(`Bearer ${token}`);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+export function createProverServer(config: ProverServerConfig): Server {
+  const limit = config.maxBodyBytes ?? 64 * 1024 * 1024;
+
+  return createServer((req: IncomingMessage, res: ServerResponse) => {
+    const path = (req.url ?? '/').split('?')[0].replace(/\/+$/, '') || '/';
+
+    if (req.method === 'GET' && path === '/healthz') {
+      sendJson(res, 200, { ok: true, circuits: Object.keys(config.circuits) });
+      return;
+    }
+    if (path !== '/prove') {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+    if (config.token && !authorized(req, config.token)) {
+      sendJson(res, 401, { error: 'Unauthorized' });
+      return;
+    }
+
+    readBody(req, limit)
+      .then(async (text) => {
+        let body: Partial<RemoteProofRequest>;
+        try {
+          body = JSON.parse(text) as Partial<RemoteProofRequest>;
+        } catch {
+          sendJson(res, 400, { error: 'Invalid JSON' });
+          return;
+        }
+        const circuit = typeof body.circuit === 'string' ? config.circuits[body.circuit] : undefined;
+        if (!circuit || !body.inputs) {
+          sendJson(res, 404, { error: `Unknown circuit: ${String(body.circuit)}` });
+          return;
+        }
+        const result = await config.prover.prove({ circuitInputs: body.inputs, ...circuit });
+        sendJson(res, 200, result);
+      })
+      .catch((err) => {
+        if (!res.headersSent) sendJson(res, 500, { error: (err as Error).message?.slice(0, 200) ?? 'proof failed' });
+      });
+  });
+}
+
+/** Start listening; resolves once the port is bound. */
+export function startProverServer(config: ProverServerConfig, port: number, host = '0.0.0.0'): Promise<Server> {
+  const server = createProverServer(config);
+  return new Promise((resolvePromise, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolvePromise(server);
+    });
+  });
+}
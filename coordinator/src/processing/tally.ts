@@ -1,97 +1,173 @@
 /**
  * Vote Tallying
  *
- * After message processing, aggregate vote weights from ballots.
- * Compute tally commitment: poseidon_3(tallyResultsRoot, totalSpent, perOptionSpentRoot)
+ * After message processing, aggregate vote weights from ballots batch by
+ * batch, producing the exact TallyVotes circuit inputs for every batch.
  *
- * D1: tally += votingPower (1:1 linear)
- * D2: tally += numVotes (quadratic cost already verified in MessageProcessor)
+ * Per-batch commitment: poseidon_3(tallyResultsRoot, totalSpent, perOptionSpentRoot)
+ * Spent credits per vote: weight² (quadratic cost already verified in MessageProcessor)
  */
 
 import type { QuinaryMerkleTree } from '../trees/quinaryTree.js';
+import type { CryptoKit } from '../crypto/kit.js';
+import { computePublicInputHash, type TallyProofInput } from './batchProof.js';
+import { BLANK_STATE_LEAF, type StateLeaf, type Ballot } from './processMessages.js';
+
+export type TallyCircuitInput = Omit<TallyProofInput, 'wasmPath' | 'zkeyPath'>;
+
+export interface TallyBatch {
+  batch: number;               // 1-based
+  newTallyCommitment: bigint;
+  circuitInput: TallyCircuitInput;
+}
 
 export interface TallyResult {
   forVotes: bigint;
   againstVotes: bigint;
-  abstainVotes: bigint;    // D1 only, 0 for D2
-  totalVoters: number;
-  totalSpentVoiceCredits: bigint;
-  perOptionTally: bigint[];
+  abstainVotes: bigint;
+  tally: bigint[];             // per vote option
   perOptionSpent: bigint[];
-  tallyCommitment: bigint;
+  totalSpent: bigint;
+  tallyResultsRoot: bigint;
+  perOptionSpentRoot: bigint;
+  tallyCommitment: bigint;     // commitment of the last batch (0 if no batches)
+  stateCommitment: bigint;
+  batches: TallyBatch[];
 }
 
 export interface TallyInput {
+  crypto: CryptoKit;
   stateTree: QuinaryMerkleTree;
-  ballotTree: QuinaryMerkleTree;
-  numSignUps: number;
+  stateLeaves: Map<number, StateLeaf>;
+  ballots: Map<number, Ballot>;
+  numSignUps: number;          // including the blank leaf
+  stateCommitment: bigint;     // poseidon(stateRoot, ballotRoot) after processing
+  batchSize: number;
   numVoteOptions: number;
-  isD2: boolean;            // true = quadratic (D2), false = linear (D1)
-  getStateLeaf: (index: number) => { voiceCreditBalance: bigint };
-  getBallot: (index: number) => { votes: bigint[] };
-  poseidonHash3: (a: bigint, b: bigint, c: bigint) => bigint;
-  computeTallyResultsRoot: (tally: bigint[]) => bigint;
-  computePerOptionSpentRoot: (spent: bigint[]) => bigint;
 }
 
 export async function tallyVotes(input: TallyInput): Promise<TallyResult> {
-  const {
-    numSignUps,
-    numVoteOptions,
-    isD2,
-    getStateLeaf,
-    getBallot,
-    poseidonHash3,
-    computeTallyResultsRoot,
-    computePerOptionSpentRoot,
-  } = input;
-
-  const perOptionTally = new Array(numVoteOptions).fill(0n);
-  const perOptionSpent = new Array(numVoteOptions).fill(0n);
-  let totalSpentVoiceCredits = 0n;
-  let totalVoters = 0;
-
-  // Iterate over all registered voters (skip index 0 = blank leaf)
-  for (let i = 1; i < numSignUps; i++) {
-    const ballot = getBallot(i);
-    const stateLeaf = getStateLeaf(i);
-    let hasVoted = false;
-
-    for (let j = 0; j < numVoteOptions; j++) {
-      const weight = ballot.votes[j] ?? 0n;
-      if (weight > 0n) {
-        hasVoted = true;
-        perOptionTally[j] += weight;
-
-        // Spent credits: weight^2
-        const spent = weight * weight;
-        perOptionSpent[j] += spent;
-        totalSpentVoiceCredits += spent;
+  const { crypto, stateTree, stateLeaves, ballots, numSignUps, stateCommitment, batchSize, numVoteOptions } = input;
+  const numBatches = Math.ceil(numSignUps / batchSize);
+
+  // Running accumulators
+  let currentTally = new Array(numVoteOptions).fill(0n) as bigint[];
+  let currentTotalSpent = 0n;
+  let currentPerOptionSpent = new Array(numVoteOptions).fill(0n) as bigint[];
+  let currentTallyResultsRoot = crypto.quinaryTreeRoot(currentTally);
+  let currentPerOptionSpentRoot = crypto.quinaryTreeRoot(currentPerOptionSpent);
+  let prevTallyCommitment = 0n; // First batch has no previous
+
+  const batches: TallyBatch[] = [];
+  for (let batchNum = 0; batchNum < numBatches; batchNum++) {
+    const batchStart = batchNum * batchSize;
+
+    const batchStateLeaves: bigint[][] = [];
+    const batchBallotNonces: bigint[] = [];
+    const batchVoteWeights: bigint[][] = [];
+    const batchVoteOptionRoots: bigint[] = [];
+    const batchStateProofs: bigint[][][] = [];
+    const batchStatePathIndices: bigint[][] = [];
+
+    const newTally = [...currentTally];
+    let newTotalSpent = currentTotalSpent;
+    const newPerOptionSpent = [...currentPerOptionSpent];
+
+    for (let i = 0; i < batchSize; i++) {
+      const voterIdx = batchStart + i;
+
+      if (voterIdx < numSignUps) {
+        const leaf = stateLeaves.get(voterIdx) ?? BLANK_STATE_LEAF;
+        const ballot = ballots.get(voterIdx);
+        const weights = Array.from({ length: numVoteOptions }, (_, j) => ballot?.votes[j] ?? 0n);
+
+        batchStateLeaves.push([leaf.pubKeyX, leaf.pubKeyY, leaf.voiceCreditBalance, leaf.timestamp]);
+        batchBallotNonces.push(ballot?.nonce ?? 0n);
+        batchVoteWeights.push(weights);
+        batchVoteOptionRoots.push(ballot?.voteOptionRoot ?? 0n);
+
+        const proof = stateTree.getProof(voterIdx);
+        batchStateProofs.push(proof.pathElements);
+        batchStatePathIndices.push(proof.pathIndices.map(BigInt));
+
+        for (let j = 0; j < numVoteOptions; j++) {
+          const spent = weights[j] * weights[j];
+          newTally[j] += weights[j];
+          newPerOptionSpent[j] += spent;
+          newTotalSpent += spent;
+        }
+      } else {
+        // Padding: use blank values with valid Merkle proof
+        const blank = BLANK_STATE_LEAF;
+        batchStateLeaves.push([blank.pubKeyX, blank.pubKeyY, blank.voiceCreditBalance, blank.timestamp]);
+        batchBallotNonces.push(0n);
+        batchVoteWeights.push(new Array(numVoteOptions).fill(0n));
+        batchVoteOptionRoots.push(0n);
+
+        const proof = stateTree.getProof(0); // Use blank leaf proof
+        batchStateProofs.push(proof.pathElements);
+        batchStatePathIndices.push(proof.pathIndices.map(BigInt));
       }
     }
 
-    if (hasVoted) totalVoters++;
-  }
+    const newTallyResultsRoot = crypto.quinaryTreeRoot(newTally);
+    const newPerOptionSpentRoot = crypto.quinaryTreeRoot(newPerOptionSpent);
+    const newTallyCommitment = crypto.hash(newTallyResultsRoot, newTotalSpent, newPerOptionSpentRoot);
 
-  // Map vote options to for/against/abstain
-  // Convention: option 0 = against, option 1 = for, option 2 = abstain (D1 only)
-  const againstVotes = perOptionTally[0] ?? 0n;
-  const forVotes = perOptionTally[1] ?? 0n;
-  const abstainVotes = isD2 ? 0n : (perOptionTally[2] ?? 0n);
+    // SHA256: 3 values matching Tally.sol contract
+    const inputHash = await computePublicInputHash([
+      stateCommitment, prevTallyCommitment, newTallyCommitment,
+    ]);
 
-  // Compute tally commitment: poseidon_3(tallyResultsRoot, totalSpent, perOptionSpentRoot)
-  const tallyResultsRoot = computeTallyResultsRoot(perOptionTally);
-  const perOptionSpentRoot = computePerOptionSpentRoot(perOptionSpent);
-  const tallyCommitment = poseidonHash3(tallyResultsRoot, totalSpentVoiceCredits, perOptionSpentRoot);
+    batches.push({
+      batch: batchNum + 1,
+      newTallyCommitment,
+      circuitInput: {
+        inputHash,
+        stateCommitment,
+        tallyCommitment: prevTallyCommitment,
+        newTallyCommitment,
+        batchNum: BigInt(batchNum),
+        stateLeaves: batchStateLeaves,
+        ballotNonces: batchBallotNonces,
+        voteWeights: batchVoteWeights,
+        voteOptionRoots: batchVoteOptionRoots,
+        stateProofs: batchStateProofs,
+        statePathIndices: batchStatePathIndices,
+        currentTally,
+        newTally,
+        currentTotalSpent,
+        newTotalSpent,
+        currentPerOptionSpent,
+        newPerOptionSpent,
+        currentTallyResultsRoot,
+        newTallyResultsRoot,
+        currentPerOptionSpentRoot,
+        newPerOptionSpentRoot,
+      },
+    });
+
+    // Update running accumulators for next batch
+    currentTally = newTally;
+    currentTotalSpent = newTotalSpent;
+    currentPerOptionSpent = newPerOptionSpent;
+    currentTallyResultsRoot = newTallyResultsRoot;
+    currentPerOptionSpentRoot = newPerOptionSpentRoot;
+    prevTallyCommitment = newTallyCommitment;
+  }
 
+  // Convention: option 0 = against, option 1 = for, option 2 = abstain
   return {
-    forVotes,
-    againstVotes,
-    abstainVotes,
-    totalVoters,
-    totalSpentVoiceCredits,
-    perOptionTally,
-    perOptionSpent,
-    tallyCommitment,
+    forVotes: currentTally[1] ?? 0n,
+    againstVotes: currentTally[0] ?? 0n,
+    abstainVotes: currentTally[2] ?? 0n,
+    tally: currentTally,
+    perOptionSpent: currentPerOptionSpent,
+    totalSpent: currentTotalSpent,
+    tallyResultsRoot: currentTallyResultsRoot,
+    perOptionSpentRoot: currentPerOptionSpentRoot,
+    tallyCommitment: prevTallyCommitment,
+    stateCommitment,
+    batches,
   };
 }
@@ -0,0 +1,166 @@
+/**
+ * Tally Artifact (tally.json)
+ *
+ * MACI-style record of a finalized poll, written next to publishResults so
+ * anyone can check the on-chain numbers without trusting the coordinator:
+ *   - per-option results + tallyResultsRoot (and the poll's option labels)
+ *   - per-option spent voice credits + perOptionSpentRoot
+ *   - totalSpent and the final tallyCommitment
+ *   - every processMessages / tallyVotes batch: commitment, proof, public signals, tx
+ *
+ * tallyCommitment = poseidon(results.root, totalSpent, perOptionSpent.root).
+ * The TallyVotes circuit commits to unsalted quinary roots, so unlike
+ * upstream MACI there are no salt fields to publish.
+ *
+ * All field elements are decimal strings. The artifact hash is the sha256 of
+ * the exact bytes written, so a downloaded copy can be checked byte-for-byte.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { PollCheckpoint } from '../state/checkpoint.js';
+import type { ProofResult } from '../processing/batchProof.js';
+
+export const TALLY_ARTIFACT_VERSION = 1;
+
+export interface TallyArtifactBatch {
+  batch: number;               // 1-based, same numbering as the checkpoint
+  commitment: string;          // newStateCommitment / newTallyCommitment
+  proof: ProofResult['proof'] | null;
+  publicSignals: string[] | null;
+  txHash: string | null;
+}
+
+export interface TallyArtifact {
+  version: number;
+  maci: string;
+  pollId: number;
+  chainId: string;
+  contracts: { poll: string; messageProcessor: string; tally: string };
+  circuit: {
+    mode: string;
+    stateTreeDepth: number;
+    messageBatchSize: number;
+    tallyBatchSize: number;
+    voteOptions: number;
+  };
+  // Poll.getOptionLabels(): label of results.tally[i]; [] for a for/against/abstain poll
+  // (absent from artifacts written before multi-choice polls)
+  voteOptions?: string[];
+  stateCommitment: string;
+  tallyCommitment: string;
+  results: {
+    tally: string[];
+    root: string;
+  };
+  perOptionSpent: {
+    tally: string[];
+    root: string;
+  };
+  totalSpent: string;
+  // Values sent to Tally.publishResults (option 0 = against, 1 = for, 2 = abstain)
+  published: {
+    forVotes: string;
+    againstVotes: string;
+    abstainVotes: string;
+    totalVoters: number;
+    txHash: string | null;
+  };
+  processBatches: TallyArtifactBatch[];
+  tallyBatches: TallyArtifactBatch[];
+  createdAt: string;
+}
+
+export interface TallyArtifactInput {
+  maci: string;
+  pollId: number;
+  chainId: bigint;
+  contracts: TallyArtifact['contracts'];
+  circuit: TallyArtifact['circuit'];
+  voteOptions: string[];
+  stateCommitment: bigint;
+  tallyCommitment: bigint;
+  tally: bigint[];
+  tallyResultsRoot: bigint;
+  perOptionSpent: bigint[];
+  perOptionSpentRoot: bigint;
+  totalSpent: bigint;
+  totalVoters: number;
+  checkpoint: PollCheckpoint;
+}
+
+// ─── Build ───────────────────────────────────────────────────────────
+
+export function buildTallyArtifact(input: TallyArtifactInput): TallyArtifact {
+  const cp = input.checkpoint;
+  const s = (v: bigint) => v.toString();
+
+  return {
+    version: TALLY_ARTIFACT_VERSION,
+    maci: input.maci,
+    pollId: input.pollId,
+    chainId: s(input.chainId),
+    contracts: input.contracts,
+    circuit: input.circuit,
+    voteOptions: input.voteOptions,
+    stateCommitment: s(input.stateCommitment),
+    tallyCommitment: s(input.tallyCommitment),
+    results: {
+      tally: input.tally.map(s),
+      root: s(input.tallyResultsRoot),
+    },
+    perOptionSpent: {
+      tally: input.perOptionSpent.map(s),
+      root: s(input.perOptionSpentRoot),
+    },
+    totalSpent: s(input.totalSpent),
+    published: {
+      forVotes: s(input.tally[1] ?? 0n),
+      againstVotes: s(input.tally[0] ?? 0n),
+      abstainVotes: s(input.tally[2] ?? 0n),
+      totalVoters: input.totalVoters,
+      txHash: cp.publishTx ?? null,
+    },
+    processBatches: cp.processBatches.map((b) => ({
+      batch: b.batch,
+      commitment: s(b.newStateCommitment),
+      proof: b.proof?.proof ?? null,
+      publicSignals: b.proof?.publicSignals ?? null,
+      txHash: b.txHash ?? null,
+    })),
+    tallyBatches: cp.tallyBatches.map((b) => ({
+      batch: b.batch,
+      commitment: s(b.newTallyCommitment),
+      proof: b.proof?.proof ?? null,
+      publicSignals: b.proof?.publicSignals ?? null,
+      txHash: b.txHash ?? null,
+    })),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+// ─── Serialize / hash ────────────────────────────────────────────────
+
+export function serializeTallyArtifact(artifact: TallyArtifact): string {
+  return JSON.stringify(artifact, null, 2) + '\n';
+}
+
+/** 0x-prefixed sha256 of the serialized artifact */
+export function hashTallyArtifact(content: string): string {
+  return '0x' + createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
+export function tallyArtifactFileName(maci: string, pollId: number): string {
+  return `${maci.toLowerCase()}-poll-${pollId}-tally.json`;
+}
+
+/** Atomically write the artifact under `dir`; returns the file path */
+export function writeTallyArtifact(dir: string, fileName: string, content: string): string {
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  const file = join(dir, fileName);
+  const tmp = `${file}.tmp`;
+  writeFileSync(tmp, content);
+  renameSync(tmp, file);
+  return file;
+}
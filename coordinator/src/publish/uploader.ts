@@ -0,0 +1,70 @@
+/**
+ * Artifact Uploaders
+ *
+ * Pluggable publishing of the tally artifact to content-addressed storage.
+ * The local file is always written first; an uploader only adds a public URI.
+ *
+ *   HttpArtifactUploader — POSTs the JSON to a pinning endpoint
+ *     (IPFS HTTP API `/api/v0/add`, a pinning service, or any store that
+ *     answers with { cid | Hash | IpfsHash } or { uri | url }).
+ */
+
+export interface ArtifactUploader {
+  readonly name: string;
+  /** Upload `content` and return a URI (ipfs://<cid>, https://...) */
+  upload(fileName: string, content: string): Promise<string>;
+}
+
+export interface HttpUploaderConfig {
+  url: string;
+  token?: string;              // sent as `Authorization: Bearer <token>`
+  timeoutMs?: number;
+}
+
+export class HttpArtifactUploader implements ArtifactUploader {
+  readonly name = 'http';
+  private config: HttpUploaderConfig;
+
+  constructor(config: HttpUploaderConfig) {
+    this.config = config;
+  }
+
+  async upload(fileName: string, content: string): Promise<string> {
+    const form = new FormData();
+    form.append('file', new Blob([content], { type: 'application/json' }), fileName);
+
+    const headers: Record<string, string> = {};
+    if (this.config.token) headers.Authorization = `Bearer ${this.config.token}`;
+
+    const res = await fetch(this.config.url, {
+      method: 'POST',
+      headers,
+      body: form,
+      signal: AbortSignal.timeout(this.config.timeoutMs ?? 30_000),
+    });
+    if (!res.ok) {
+      throw new Error(`Artifact upload failed: HTTP ${res.status}`);
+    }
+    return parseUploadResponse(await res.text());
+  }
+}
+
+/** Extract a URI from a pinning service response */
+export function parseUploadResponse(body: string): string {
+  let json: Record<string, unknown>;
+  try {
+    // IPFS /api/v0/add may stream one JSON object per line; the last one is the file
+    const lines = body.trim().split('\n');
+    json = JSON.parse(lines[lines.length - 1]) as Record<string, unknown>;
+  } catch {
+    throw new Error('Artifact upload returned a non-JSON response');
+  }
+
+  for (const key of ['uri', 'url']) {
+    if (typeof json[key] === 'string') return json[key] as string;
+  }
+  for (const key of ['cid', 'Hash', 'IpfsHash']) {
+    if (typeof json[key] === 'string') return `ipfs://${json[key] as string}`;
+  }
+  throw new Error('Artifact upload response has no cid or uri');
+}
@@ -2,7 +2,8 @@
 /**
  * SIGIL Coordinator Auto-Runner
  *
- * Watches for ended polls and automatically:
+ * Watches for ended polls (a live EventListener wakes the loop on poll end)
+ * and automatically:
  *   1. Merges AccQueues on-chain
  *   2. Fetches all encrypted votes
  *   3. Processes messages in reverse order (off-chain)
@@ -13,65 +14,237 @@
  *
  * Usage:
  *   cd coordinator && npx tsx src/run.ts
+ *   cd coordinator && npx tsx src/run.ts --dry-run [--prove]
+ *
+ * --dry-run runs one pass: merge checks, event fetch, decryption, processing
+ * and tally all happen locally and the expected commitments/results are
+ * printed, but no transaction is sent and no checkpoint is written.
+ * --prove additionally generates every batch proof and verifies it off-chain
+ * against the circuit verifying keys. PRIVATE_KEY is optional in a dry run.
+ *
+ * All writes go through TransactionSubmitter (chain/submitter.ts): one nonce
+ * queue per wallet, fee bumps for stuck txs, and steps the chain already
+ * reflects are skipped.
  *
  * Environment (.env at project root):
- *   PRIVATE_KEY             — Ethereum private key for on-chain tx
- *   COORDINATOR_PRIVATE_KEY — Baby Jubjub private key for MACI ECDH
+ *   PRIVATE_KEY             — Ethereum private key for on-chain tx (SIGNER=key)
+ *   SIGNER                  — wallet signer: key | keystore | remote (default: key)
+ *   WALLET_KEYSTORE_PATH / WALLET_KEYSTORE_PASSWORD — encrypted JSON keystore (SIGNER=keystore)
+ *   REMOTE_SIGNER_URL / REMOTE_SIGNER_ADDRESS / REMOTE_SIGNER_TOKEN — JSON-RPC signing service (SIGNER=remote)
+ *   TX_CONFIRM_TIMEOUT_MS   — wait before a pending tx is re-sent with higher fees (default: 180000)
+ *   COORDINATOR_PRIVATE_KEY — Baby Jubjub private key for MACI ECDH (raw hex)
+ *   COORDINATOR_KEYSTORE / COORDINATOR_KEYSTORE_PASSWORD — encrypted coordinator key file(s) or
+ *                             directory (see `npm run keys`); each poll uses the key matching its
+ *                             on-chain coordinatorPubKey, polls with no matching key are refused
  *   SEPOLIA_RPC_URL         — RPC endpoint (default: publicnode)
- *   CIRCUIT_MODE            — 'dev' or 'prod' (default: 'dev')
+ *   CIRCUIT_MODE            — default circuit profile (default: 'dev'); each poll runs on the profile
+ *                             its on-chain depths + VkRegistry keys call for (see config/circuits.ts)
+ *   CIRCUIT_PROFILES        — extra circuit-profile.json files / directories (comma-separated);
+ *                             manifests in circuits/<build>/ are always loaded
+ *   CIRCUIT_BASE_URL        — download missing circuit files from <url>/<file name> (resumable);
+ *                             every zkey is checked against the poll's VkRegistry key / verifier first
+ *   CIRCUIT_BASE_TOKEN      — optional bearer token for CIRCUIT_BASE_URL
+ *   DEPLOYMENTS_FILE        — optional JSON list of MACI deployments (chains, RPCs, keys by env
+ *                             var name) serviced in one loop; replaces the single-MACI settings
+ *   CHECKPOINT_DIR          — per-poll resume checkpoints (default: coordinator/.checkpoints)
+ *   AUDIT_DIR               — per-message processing audit logs, coordinator-private (default: coordinator/.audit)
+ *   INDEX_DIR               — incremental SignUp / MessagePublished / DeployPoll log cache (default: coordinator/.index)
+ *   STATUS_PORT             — status/metrics HTTP port (default: 8787, 0 = disabled)
+ *   STATUS_HOST             — status server bind address (default: 127.0.0.1; 0.0.0.0 exposes wallet,
+ *                             balance and poll state to the network — put TLS in front if ADMIN_TOKEN is set)
+ *   ADMIN_TOKEN             — bearer token enabling the status server's admin endpoints
+ *                             (`sigil-coordinator retry`, see cli.ts); unset = read-only
+ *   TALLY_ARTIFACT_DIR      — where tally.json artifacts are written (default: coordinator/.tally)
+ *   TALLY_UPLOAD_URL        — optional pinning endpoint for tally.json (IPFS /api/v0/add etc.)
+ *   TALLY_UPLOAD_TOKEN      — optional bearer token for TALLY_UPLOAD_URL
+ *   PROOF_CONCURRENCY       — proofs generated in parallel (default: 1)
+ *   PROVER                  — proof backend: snarkjs | rapidsnark | http (default: snarkjs)
+ *   RAPIDSNARK_PATH         — rapidsnark `prover` binary (default: `prover` on PATH)
+ *   PROVER_URL / PROVER_TOKEN — remote prover endpoint + bearer token (PROVER=http); https unless
+ *                             localhost — the remote host receives the coordinator private key
+ *   LOW_BALANCE_ETH         — wallet balance below which a lowBalance alert is raised (default: 0.001)
+ *   NOTIFY_WEBHOOK_URL / NOTIFY_SMTP_* / NOTIFY_FILE — alert sinks for finalized / failed polls,
+ *                             low balance, stuck txs and halts (see notify/notifier.ts)
+ *   NOTIFY_MIN_SEVERITY     — info | warning | critical (default: warning; per sink NOTIFY_<SINK>_MIN_SEVERITY)
+ *   NOTIFY_REPEAT_MS        — minimum gap between repeated low-balance alerts (default: 21600000)
  */
 
 import { ethers } from 'ethers';
+import { AsyncLocalStorage } from 'async_hooks';
 import { readFileSync, existsSync } from 'fs';
-import { resolve, dirname } from 'path';
+import { resolve, dirname, join } from 'path';
 import { fileURLToPath } from 'url';
-import { QuinaryMerkleTree } from './trees/quinaryTree.js';
-import { type EncryptedMessage, type StateLeaf, type Ballot } from './processing/processMessages.js';
-import { generateProcessProof, generateTallyProof, computePublicInputHash, type ProcessProofInput, type TallyProofInput } from './processing/batchProof.js';
+import { initCrypto, type CryptoKit } from './crypto/kit.js';
+import { loadCoordinatorKeyring, shortPubKey, type CoordinatorKeyring } from './crypto/keystore.js';
+import { loadDeploymentsFile, type DeploymentConfig } from './config/deployments.js';
+import { CircuitProfileError, loadCircuitRegistry, type CircuitProfile, type CircuitRegistry } from './config/circuits.js';
+import {
+  checkCircuitArtifacts, describeArtifactProblems, fetchCircuitArtifacts, readPollVerifyingKeys, type OnchainVerifyingKeys,
+} from './config/circuitArtifacts.js';
+import { processMessages, type EncryptedMessage, type StateLeaf, type ProcessResult } from './processing/processMessages.js';
+import { tallyVotes } from './processing/tally.js';
+import { buildProcessCircuitInputs, buildTallyCircuitInputs, type CircuitInputs, type ProcessProofInput, type TallyProofInput } from './processing/batchProof.js';
+import { ProofWorkerPool } from './processing/proverPool.js';
+import { createProver, proverConfigFromEnv, type Prover } from './processing/prover.js';
+import { runPipelined } from './processing/pipeline.js';
+import { AuditLogStore } from './state/audit.js';
+import { EventIndexer, JsonIndexerStore, ethersLogSource } from './chain/eventIndexer.js';
+import { EventListener } from './chain/listener.js';
+import { createSigner, signerConfigFromEnv, type SignerConfig } from './chain/signer.js';
+import { TransactionSubmitter } from './chain/submitter.js';
+import { CheckpointStore, upsertBatch, type PollCheckpoint, type ProcessBatchCheckpoint, type TallyBatchCheckpoint } from './state/checkpoint.js';
+import { StatusTracker } from './status/tracker.js';
+import { startStatusServer } from './status/server.js';
+import { buildTallyArtifact, serializeTallyArtifact, hashTallyArtifact, tallyArtifactFileName, writeTallyArtifact } from './publish/tallyArtifact.js';
+import { HttpArtifactUploader, type ArtifactUploader } from './publish/uploader.js';
+import { NotificationDispatcher, createNotifier, notifierConfigFromEnv, type CoordinatorEvent } from './notify/notifier.js';
 
 // ─── Constants ────────────────────────────────────────────────────────
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const PROJECT_ROOT = resolve(__dirname, '../..');
+// Process environment first, then .env at the project root
+const env = readEnv();
 
 const POLL_CHECK_INTERVAL = 10_000; // 10s between checks
+// With a live EventListener the loop wakes on pollEnded; this only retries failed polls
+const IDLE_RECHECK_INTERVAL = 5 * 60_000;
+
+// Crash-safe resume: events, batch commitments, proofs and tx hashes per poll
+const CHECKPOINT_DIR = env('CHECKPOINT_DIR') || resolve(PROJECT_ROOT, 'coordinator/.checkpoints');
+const checkpoints = new CheckpointStore(CHECKPOINT_DIR);
+
+// Why each message was accepted or routed to the blank leaf (decrypted votes: keep private)
+export const AUDIT_DIR = env('AUDIT_DIR') || resolve(PROJECT_ROOT, 'coordinator/.audit');
+const auditLogs = new AuditLogStore(AUDIT_DIR);
+
+// Scanned logs + last block per event stream, so each cycle only fetches new blocks
+const INDEX_DIR = env('INDEX_DIR') || resolve(PROJECT_ROOT, 'coordinator/.index');
+const eventIndex = new JsonIndexerStore(INDEX_DIR);
+
+// Live progress for the status/metrics server (GET /status, /metrics)
+export const STATUS_PORT = Number(env('STATUS_PORT') || 8787);
+const STATUS_HOST = env('STATUS_HOST') || '127.0.0.1';
+export const status = new StatusTracker();
+// Enables the status server's POST /admin/* endpoints (used by `sigil-coordinator retry`)
+const ADMIN_TOKEN = env('ADMIN_TOKEN') || undefined;
+
+// Verifiable tally.json per finalized poll, optionally pinned to content-addressed storage
+export const TALLY_ARTIFACT_DIR = env('TALLY_ARTIFACT_DIR') || resolve(PROJECT_ROOT, 'coordinator/.tally');
+const artifactUploader: ArtifactUploader | null = env('TALLY_UPLOAD_URL')
+  ? new HttpArtifactUploader({ url: env('TALLY_UPLOAD_URL'), token: env('TALLY_UPLOAD_TOKEN') || undefined })
+  : null;
+
+// Operator alerts (webhook / SMTP / file sinks, see notify/notifier.ts); none configured = stdout only
+export const notifier = new NotificationDispatcher(notifierConfigFromEnv(env, PROJECT_ROOT).map(createNotifier), {
+  log,
+  repeatIntervalMs: Number(env('NOTIFY_REPEAT_MS')) || undefined,
+});
+// A wallet below this raises a lowBalance alert (re-sent every NOTIFY_REPEAT_MS while it lasts)
+export const LOW_BALANCE_WEI = ethers.parseEther(env('LOW_BALANCE_ETH') || '0.001');
+
+// In-process snarkjs is fanned out to forked provers (each holds its own copy of
+// the zkey in memory); rapidsnark / remote backends already run out of process
+const PROOF_CONCURRENCY = Math.max(1, Number(env('PROOF_CONCURRENCY') || 1) || 1);
+const PROVER_CONFIG = proverConfigFromEnv(env);
+let activeProver: Prover | null = null;
+function prover(): Prover {
+  activeProver ??= PROVER_CONFIG.backend === 'snarkjs'
+    ? new ProofWorkerPool(PROOF_CONCURRENCY)
+    : createProver(PROVER_CONFIG);
+  return activeProver;
+}
 
-// Circuit mode: 'prod' or 'dev' (from env or default)
-const CIRCUIT_MODE = process.env.CIRCUIT_MODE ?? 'dev';
+// Replace a tx still pending after this long with higher fees (same nonce)
+const TX_CONFIRM_TIMEOUT_MS = Number(env('TX_CONFIRM_TIMEOUT_MS')) || 3 * 60_000;
+
+// Default circuit profile (from env or 'dev'); per deployment with DEPLOYMENTS_FILE
+const CIRCUIT_MODE = env('CIRCUIT_MODE') || 'dev';
 const IS_PROD = CIRCUIT_MODE === 'prod';
 
-// Tree params: dev (depth=2, batch=2) or prod (depth=4, batch=5)
-const STATE_TREE_DEPTH = IS_PROD ? 4 : 2;
-const BATCH_SIZE = IS_PROD ? 5 : 2;
-const TALLY_BATCH_SIZE = IS_PROD ? 5 : 2;
-const MAX_VOTE_OPTIONS = IS_PROD ? 25 : 5; // voteOptionTreeDepth: prod=2 (25), dev=1 (5)
-const TALLY_NUM_OPTIONS = IS_PROD ? 25 : 5; // match circuit compile params (TallyVotes)
-
-const MP_WASM = IS_PROD
-  ? resolve(PROJECT_ROOT, 'circuits/build_prod/MessageProcessor_prod_js/MessageProcessor_prod.wasm')
-  : resolve(PROJECT_ROOT, 'circuits/build_maci/MessageProcessor_js/MessageProcessor.wasm');
-const MP_ZKEY = IS_PROD
-  ? resolve(PROJECT_ROOT, 'circuits/build_prod/MessageProcessor_prod_final.zkey')
-  : resolve(PROJECT_ROOT, 'circuits/build_maci/MessageProcessor_final.zkey');
-const TV_WASM = IS_PROD
-  ? resolve(PROJECT_ROOT, 'circuits/build_prod/TallyVotes_prod_js/TallyVotes_prod.wasm')
-  : resolve(PROJECT_ROOT, 'circuits/build_maci/TallyVotes_js/TallyVotes.wasm');
-const TV_ZKEY = IS_PROD
-  ? resolve(PROJECT_ROOT, 'circuits/build_prod/TallyVotes_prod_final.zkey')
-  : resolve(PROJECT_ROOT, 'circuits/build_maci/TallyVotes_final.zkey');
+// Compiled circuit sets by name (manifests under circuits/ + CIRCUIT_PROFILES, see config/circuits.ts)
+let registry: CircuitRegistry | null = null;
+export function circuitRegistry(): CircuitRegistry {
+  registry ??= loadCircuitRegistry(PROJECT_ROOT, env);
+  return registry;
+}
+// Where missing circuit files are downloaded from, by file name (see scripts/upload-circuits.sh)
+export const CIRCUIT_BASE_URL = env('CIRCUIT_BASE_URL') || undefined;
+const CIRCUIT_BASE_TOKEN = env('CIRCUIT_BASE_TOKEN') || undefined;
+
+// Optional multi-deployment config (see config/deployments.ts); unset = single MACI from .env
+const DEPLOYMENTS_FILE = env('DEPLOYMENTS_FILE') || undefined;
+
+/**
+ * Everything that differs between MACI deployments serviced by one runner.
+ * The active one is carried by AsyncLocalStorage so processPoll and its
+ * helpers (and their logs) stay isolated without threading it everywhere.
+ */
+export interface DeploymentContext {
+  name: string;                // '' for the legacy single deployment (no log prefix)
+  circuitProfile: string;      // tie-break when a poll fits several profiles
+  checkpoints: CheckpointStore;
+  auditLogs: AuditLogStore;
+  eventIndex: JsonIndexerStore;
+  artifactDir: string;
+  status: StatusTracker;
+}
+
+export function createDeploymentContext(name: string, circuitProfile: string, stateDir: string, tracker = new StatusTracker()): DeploymentContext {
+  return {
+    name,
+    circuitProfile,
+    checkpoints: new CheckpointStore(join(CHECKPOINT_DIR, stateDir)),
+    auditLogs: new AuditLogStore(join(AUDIT_DIR, stateDir)),
+    eventIndex: new JsonIndexerStore(join(INDEX_DIR, stateDir)),
+    artifactDir: join(TALLY_ARTIFACT_DIR, stateDir),
+    status: tracker,
+  };
+}
+
+const defaultDeployment: DeploymentContext = {
+  name: '',
+  circuitProfile: CIRCUIT_MODE,
+  checkpoints,
+  auditLogs,
+  eventIndex,
+  artifactDir: TALLY_ARTIFACT_DIR,
+  status,
+};
+const deploymentScope = new AsyncLocalStorage<DeploymentContext>();
+
+function deployment(): DeploymentContext {
+  return deploymentScope.getStore() ?? defaultDeployment;
+}
+
+/** Run `fn` (e.g. processPoll) against a deployment's default circuit profile, state dirs, status and log prefix */
+export function runInDeployment<T>(ctx: DeploymentContext, fn: () => Promise<T>): Promise<T> {
+  return deploymentScope.run(ctx, fn);
+}
+
+/** Per-run behaviour for processPoll (CLI flags) */
+export interface ProcessOptions {
+  /** Compute everything locally; never send a tx or write a checkpoint */
+  dryRun?: boolean;
+  /** Dry run only: also generate each batch proof and verify it with the vkey */
+  prove?: boolean;
+}
 
 // ─── Load Configuration ───────────────────────────────────────────────
 
-interface Config {
-  privateKey: string;
-  coordinatorSk: bigint;
+interface ChainConfig {
   rpcUrl: string;
   maciAddress: string;
   deployBlock: number;
 }
 
-export function loadConfig(): Config {
-  // Parse .env (simple key=value parser, no dependency needed)
+interface Config extends ChainConfig {
+  signer: SignerConfig;
+  coordinatorKeys: CoordinatorKeyring;
+}
+
+// Parse .env (simple key=value parser, no dependency needed)
+export function readEnv(): (k: string) => string {
   const envPath = resolve(PROJECT_ROOT, '.env');
   const envVars: Record<string, string> = {};
   if (existsSync(envPath)) {
@@ -80,35 +253,119 @@ export function loadConfig(): Config {
       if (m) envVars[m[1].trim()] = m[2].trim();
     }
   }
-  const get = (k: string) => process.env[k] || envVars[k] || '';
+  return (k: string) => process.env[k] || envVars[k] || '';
+}
 
-  const privateKey = get('PRIVATE_KEY');
-  const coordKey = get('COORDINATOR_PRIVATE_KEY');
+/** RPC + MACI address only — enough for read-only tools (verify.ts) */
+export function loadChainConfig(): ChainConfig {
+  const get = readEnv();
   const rpcUrl = get('SEPOLIA_RPC_URL') || 'https://ethereum-sepolia-rpc.publicnode.com';
 
-  if (!privateKey) throw new Error('PRIVATE_KEY not set in .env');
-  if (!coordKey) throw new Error('COORDINATOR_PRIVATE_KEY not set in .env');
-
   const configJson = JSON.parse(readFileSync(resolve(PROJECT_ROOT, 'src/config.json'), 'utf8'));
   // MACI_ADDRESS env overrides config.json (allows prod circuits with v2 contract)
   const maciAddress = get('MACI_ADDRESS') || (IS_PROD ? configJson.prod?.maci : configJson.v2?.maci);
   if (!maciAddress) throw new Error(`MACI address not found in config.json (mode=${CIRCUIT_MODE})`);
 
   return {
-    privateKey: privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`,
-    coordinatorSk: BigInt(`0x${coordKey.replace(/^0x/, '')}`),
     rpcUrl,
     maciAddress,
     deployBlock: configJson.deployBlock || 0,
   };
 }
 
+/** Read the wallet signer (see chain/signer.ts) + coordinator keys (see crypto/keystore.ts) from the named env vars */
+function loadKeys(walletKeyEnv: string, coordinatorKeyEnv: string, requireWallet: boolean): { signer: SignerConfig; coordinatorKeys: CoordinatorKeyring } {
+  const get = readEnv();
+
+  const signer: SignerConfig = !requireWallet && (get('SIGNER') || 'key') === 'key' && !get(walletKeyEnv)
+    ? { kind: 'key', privateKey: ethers.Wallet.createRandom().privateKey }
+    : signerConfigFromEnv(get, walletKeyEnv);
+
+  return {
+    signer,
+    coordinatorKeys: loadCoordinatorKeyring(get, coordinatorKeyEnv, PROJECT_ROOT),
+  };
+}
+
+/** Signer from the config, wrapped in the submitter every coordinator write goes through */
+export async function createSubmitter(config: SignerConfig, provider: ethers.Provider, logFn: (msg: string) => void = log): Promise<TransactionSubmitter> {
+  return new TransactionSubmitter({
+    signer: await createSigner(config, provider),
+    log: logFn,
+    confirmTimeoutMs: TX_CONFIRM_TIMEOUT_MS,
+    onStuck: (stuck) => void notify({ kind: 'stuckTransaction', ...stuck }),
+  });
+}
+
+/** Coordinator keys alone (.env key and/or COORDINATOR_KEYSTORE) — for tools that only decrypt */
+export function loadCoordinatorKeys(coordinatorKeyEnv = 'COORDINATOR_PRIVATE_KEY'): CoordinatorKeyring {
+  return loadCoordinatorKeyring(readEnv(), coordinatorKeyEnv, PROJECT_ROOT);
+}
+
+/** Dry runs only read the chain, so PRIVATE_KEY may be omitted (a throwaway key is used) */
+export function loadConfig(opts: { requireWallet?: boolean } = {}): Config {
+  return {
+    ...loadChainConfig(),
+    ...loadKeys('PRIVATE_KEY', 'COORDINATOR_PRIVATE_KEY', opts.requireWallet ?? true),
+  };
+}
+
+/**
+ * State dirs / tracker per deployment: the legacy single deployment keeps the
+ * shared dirs and the exported tracker, each file deployment gets its own
+ * subdirectories and status tracker
+ */
+export function deploymentContexts(deployments: DeploymentConfig[]): DeploymentContext[] {
+  return DEPLOYMENTS_FILE
+    ? deployments.map((d, i) => createDeploymentContext(d.name, d.circuitMode, d.stateDir, i === 0 ? status : undefined))
+    : [defaultDeployment];
+}
+
+/** DEPLOYMENTS_FILE entries, or the single .env / config.json deployment */
+export function loadDeployments(): DeploymentConfig[] {
+  if (DEPLOYMENTS_FILE) return loadDeploymentsFile(resolve(PROJECT_ROOT, DEPLOYMENTS_FILE));
+  const chain = loadChainConfig();
+  return [{
+    name: '',
+    chainId: 0,
+    rpcUrls: [chain.rpcUrl],
+    maciAddress: chain.maciAddress,
+    deployBlock: chain.deployBlock,
+    circuitMode: CIRCUIT_MODE,
+    coordinatorKeyEnv: 'COORDINATOR_PRIVATE_KEY',
+    walletKeyEnv: 'PRIVATE_KEY',
+    stateDir: '',
+  }];
+}
+
+/** First RPC URL that answers (and, if chainId is set, is on that chain) */
+export async function connectRpc(rpcUrls: string[], chainId: number): Promise<ethers.JsonRpcProvider> {
+  for (const url of rpcUrls) {
+    const provider = chainId
+      ? new ethers.JsonRpcProvider(url, chainId, { staticNetwork: true })
+      : new ethers.JsonRpcProvider(url);
+    try {
+      const actual = Number(await retryRpc(() => provider.send('eth_chainId', [])));
+      if (!chainId || actual === chainId) {
+        log(`RPC: ${url}${chainId ? ` (chain ${chainId})` : ''}`);
+        return provider;
+      }
+      log(`  RPC ${url} is on chain ${actual}, expected ${chainId} (skipping)`);
+    } catch (err) {
+      log(`  RPC ${url} unreachable: ${(err as Error).message?.slice(0, 80) ?? 'unknown'}`);
+    }
+    provider.destroy();
+  }
+  throw new Error(`No usable RPC endpoint (tried ${rpcUrls.length})`);
+}
+
 // ─── ABIs (coordinator needs merge/process/tally functions) ───────────
 
 export const MACI_ABI = [
   'function nextPollId() view returns (uint256)',
   'function polls(uint256) view returns (address)',
   'function numSignUps() view returns (uint256)',
+  'function stateTreeDepth() view returns (uint8)',
   'function resetStateAqMerge()',
   'event SignUp(uint256 indexed stateIndex, uint256 indexed pubKeyX, uint256 pubKeyY, uint256 voiceCreditBalance, uint256 timestamp)',
   'event DeployPoll(uint256 indexed pollId, address pollAddr, address messageProcessorAddr, address tallyAddr)',
@@ -127,16 +384,22 @@ export const POLL_ABI = [
   'function mergeMessageAqSubRoots(uint256 _numSrQueueOps)',
   'function mergeMessageAq()',
   'function numSignUpsAtDeployment() view returns (uint256)',
+  'function messageAq() view returns (address)',
+  'function getOptionLabels() view returns (string[])',
   'event MessagePublished(uint256 indexed messageIndex, uint256[10] encMessage, uint256 encPubKeyX, uint256 encPubKeyY)',
 ];
 
-const MP_ABI = [
+export const MP_ABI = [
   'function processMessages(uint256 _newStateCommitment, uint256[2] _pA, uint256[2][2] _pB, uint256[2] _pC)',
   'function processingComplete() view returns (bool)',
   'function completeProcessing()',
   'function currentStateCommitment() view returns (uint256)',
 ];
 
+const ACC_QUEUE_ABI = [
+  'function SUB_DEPTH() view returns (uint256)',
+];
+
 export const TALLY_ABI = [
   'function tallyVotes(uint256 _newTallyCommitment, uint256[2] _pA, uint256[2][2] _pB, uint256[2] _pC)',
   'function publishResults(uint256 _forVotes, uint256 _againstVotes, uint256 _abstainVotes, uint256 _totalVoters, uint256 _tallyResultsRoot, uint256 _totalSpent, uint256 _perOptionSpentRoot)',
@@ -144,302 +407,113 @@ export const TALLY_ABI = [
   'function tallyCommitment() view returns (uint256)',
 ];
 
-// ─── Crypto Adapter ───────────────────────────────────────────────────
-
-interface CryptoKit {
-  poseidon: any;
-  F: any;
-  eddsa: any;
-  babyJub: any;
-  hash: (...inputs: bigint[]) => bigint;
-  ecdh: (sk: bigint, pub: [bigint, bigint]) => bigint[];
-  decrypt: (ct: bigint[], key: bigint[], nonce: bigint) => bigint[] | null;
-  encrypt: (pt: bigint[], key: bigint[], nonce: bigint) => bigint[];
-  verifyEdDSA: (msg: bigint, sig: { R8: bigint[]; S: bigint }, pk: bigint[]) => boolean;
-  hashStateLeaf: (l: StateLeaf) => bigint;
-  hashBallot: (b: Ballot) => bigint;
-  hashCommand: (c: Command) => bigint;
-  unpackCommand: (packed: bigint) => Command;
-  quinaryTreeRoot: (leaves: bigint[]) => bigint;
-}
+// ─── Poll Processing Pipeline ─────────────────────────────────────────
 
-interface Command {
-  stateIndex: bigint;
-  newPubKeyX: bigint;
-  newPubKeyY: bigint;
-  voteOptionIndex: bigint;
-  newVoteWeight: bigint;
-  nonce: bigint;
-  pollId: bigint;
-  salt: bigint;
+export interface PollAddresses {
+  poll: string;
+  mp: string;
+  tally: string;
 }
 
-export async function initCrypto(): Promise<CryptoKit> {
-  const { buildPoseidon, buildBabyjub, buildEddsa } = await import('circomlibjs');
-  const poseidon = await buildPoseidon();
-  const babyJub = await buildBabyjub();
-  const eddsa = await buildEddsa();
-  const F = poseidon.F;
-
-  function hash(...inputs: bigint[]): bigint {
-    const h = poseidon(inputs.map(x => F.e(x)));
-    return BigInt(F.toString(h));
-  }
-
-  function ecdhFn(sk: bigint, pub: [bigint, bigint]): bigint[] {
-    // (0,0) is not on Baby Jubjub curve — padding messages use this.
-    // Circuit handles via Mux1 substitution; here we return dummy key
-    // so decryption fails auth tag → message treated as invalid.
-    if (pub[0] === 0n && pub[1] === 0n) {
-      return [0n, 0n];
-    }
-    const pt = [F.e(pub[0]), F.e(pub[1])];
-    const shared = babyJub.mulPointEscalar(pt, sk);
-    return [BigInt(F.toString(shared[0])), BigInt(F.toString(shared[1]))];
-  }
-
-  // Poseidon DuplexSponge decryption (t=4, rate=3)
-  // Must match src/crypto/duplexSponge.ts poseidonEncrypt exactly
-  const SNARK_FIELD = 21888242871839275222246405745257275088548364400416034343698204186575808495617n;
-  const TWO128 = 2n ** 128n;
-
-  // Full Poseidon permutation via circomlibjs 3-arg form:
-  // poseidon([s1,s2,s3], s0, 4) constructs state [s0,s1,s2,s3], permutes, returns all 4
-  function poseidonPerm(state: bigint[]): bigint[] {
-    const inputs = state.slice(1).map(s => F.e(s));
-    const initState = F.e(state[0]);
-    const result = poseidon(inputs, initState, 4);
-    return result.map((r: any) => BigInt(F.toString(r)));
-  }
-
-  function duplexDecrypt(ct: bigint[], key: bigint[], nonce: bigint): bigint[] | null {
-    // ct format: [encrypted[0..N-2], authTag] where N = ct.length
-    // MACI messages: plaintext length = 7, padded to 9, + 1 auth tag = 10 elements
-    const tag = ct[ct.length - 1];
-    const encrypted = ct.slice(0, -1);
-    const length = 7; // MACI command plaintext length
-
-    // Initial state must match poseidonEncrypt: [0, key[0], key[1], nonce + length * 2^128]
-    let state: bigint[] = [
-      0n,
-      key[0],
-      key[1],
-      (nonce + BigInt(length) * TWO128) % SNARK_FIELD,
-    ];
-
-    const plaintext: bigint[] = [];
-
-    for (let i = 0; i < encrypted.length; i += 3) {
-      // Permute
-      state = poseidonPerm(state);
-
-      // Recover plaintext: pt = ct - state (mod p) at rate positions [1,2,3]
-      const p0 = (encrypted[i] - state[1] + SNARK_FIELD) % SNARK_FIELD;
-      const p1 = (encrypted[i + 1] - state[2] + SNARK_FIELD) % SNARK_FIELD;
-      const p2 = (encrypted[i + 2] - state[3] + SNARK_FIELD) % SNARK_FIELD;
-      plaintext.push(p0, p1, p2);
-
-      // Set state rate portion to ciphertext values (for next permutation)
-      state[1] = encrypted[i];
-      state[2] = encrypted[i + 1];
-      state[3] = encrypted[i + 2];
-    }
-
-    // Verify authentication tag
-    state = poseidonPerm(state);
-    if (state[1] !== tag) {
-      log(`  ⚠ DuplexSponge auth tag mismatch (message corrupted or wrong key)`);
-      return null;
-    }
-
-    return plaintext.slice(0, length);
-  }
-
-  function duplexEncrypt(pt: bigint[], key: bigint[], nonce: bigint): bigint[] {
-    const length = pt.length;
-    const padded = [...pt];
-    while (padded.length % 3 !== 0) padded.push(0n);
-
-    let state: bigint[] = [
-      0n,
-      key[0],
-      key[1],
-      (nonce + BigInt(length) * TWO128) % SNARK_FIELD,
-    ];
-
-    const ciphertext: bigint[] = [];
-
-    for (let i = 0; i < padded.length; i += 3) {
-      state = poseidonPerm(state);
-      const c0 = (padded[i] + state[1]) % SNARK_FIELD;
-      const c1 = (padded[i + 1] + state[2]) % SNARK_FIELD;
-      const c2 = (padded[i + 2] + state[3]) % SNARK_FIELD;
-      ciphertext.push(c0, c1, c2);
-      state[1] = c0;
-      state[2] = c1;
-      state[3] = c2;
-    }
-
-    // Auth tag
-    state = poseidonPerm(state);
-    ciphertext.push(state[1]);
-    return ciphertext;
-  }
-
-  function verifyEdDSAFn(msg: bigint, sig: { R8: bigint[]; S: bigint }, pk: bigint[]): boolean {
-    try {
-      return eddsa.verifyPoseidon(
-        F.e(msg),
-        { R8: [F.e(sig.R8[0]), F.e(sig.R8[1])], S: sig.S },
-        [F.e(pk[0]), F.e(pk[1])],
-      );
-    } catch {
-      return false;
-    }
-  }
+/**
+ * Step 1: Merge AccQueues on-chain. Resolves to whether both queues are
+ * merged (false only in a dry run); throws if a merge left either unmerged.
+ */
+async function mergeAccQueues(
+  pollAddr: string,
+  submitter: TransactionSubmitter,
+  dryRun = false,
+): Promise<boolean> {
+  const pollRead = new ethers.Contract(pollAddr, POLL_ABI, submitter.provider);
+  const merged = async () => {
+    const [stateM, msgM] = await Promise.all([
+      retryRpc(() => pollRead.stateAqMerged()),
+      retryRpc(() => pollRead.messageAqMerged()),
+    ]);
+    return { stateM: Boolean(stateM), msgM: Boolean(msgM) };
+  };
 
-  function hashStateLeafFn(l: StateLeaf): bigint {
-    return hash(l.pubKeyX, l.pubKeyY, l.voiceCreditBalance, l.timestamp);
-  }
+  const { stateM, msgM } = await merged();
 
-  function hashBallotFn(b: Ballot): bigint {
-    return hash(b.nonce, b.voteOptionRoot);
+  if (dryRun) {
+    log(`  [dry-run] State AccQueue: ${stateM ? 'already merged' : 'would merge (mergeMaciStateAqSubRoots + mergeMaciStateAq)'}`);
+    log(`  [dry-run] Message AccQueue: ${msgM ? 'already merged' : 'would merge (mergeMessageAqSubRoots + mergeMessageAq)'}`);
+    return stateM && msgM;
   }
 
-  function hashCommandFn(c: Command): bigint {
-    // Must match circuit: Poseidon(stateIndex, newPubKeyX, newPubKeyY, newVoteWeight, salt)
-    // NOT the packed version — circuit unpacks first then hashes individual fields
-    return hash(c.stateIndex, c.newPubKeyX, c.newPubKeyY, c.newVoteWeight, c.salt);
+  if (stateM && msgM) {
+    log('  AccQueues: already merged');
+    return true;
   }
-
-  function unpackCommandFn(packed: bigint): Command {
-    const m50 = (1n << 50n) - 1n;
-    const cmd: Command = {
-      stateIndex: packed & m50,
-      voteOptionIndex: (packed >> 50n) & m50,
-      newVoteWeight: (packed >> 100n) & m50,
-      nonce: (packed >> 150n) & m50,
-      pollId: (packed >> 200n) & m50,
-      newPubKeyX: 0n,
-      newPubKeyY: 0n,
-      salt: 0n,
-    };
-
-    // Range validation: clamp out-of-bounds values to prevent undefined behavior
-    if (cmd.voteOptionIndex >= BigInt(MAX_VOTE_OPTIONS)) {
-      log(`  ⚠ unpackCommand: voteOptionIndex ${cmd.voteOptionIndex} out of range (max ${MAX_VOTE_OPTIONS}), clamping to 0`);
-      cmd.voteOptionIndex = 0n;
-    }
-    if (cmd.nonce >= (1n << 50n)) {
-      log(`  ⚠ unpackCommand: nonce ${cmd.nonce} out of range, clamping to 0`);
-      cmd.nonce = 0n;
-    }
-
-    return cmd;
+  try {
+    log('  Merging AccQueues...');
+    await submitter.mergeAccQueues(pollAddr);
+  } catch (e) {
+    log(`  AccQueue merge: ${(e as Error).message?.slice(0, 80)}`);
   }
-
-  // Compute root of a quinary tree from leaves (e.g., 25 leaves → depth 2)
-  // 5 leaves per node, hashed with Poseidon(5)
-  function quinaryTreeRoot(leaves: bigint[]): bigint {
-    let level = [...leaves];
-    while (level.length > 1) {
-      const next: bigint[] = [];
-      for (let i = 0; i < level.length; i += 5) {
-        const children = level.slice(i, i + 5);
-        while (children.length < 5) children.push(0n);
-        next.push(hash(...children));
-      }
-      level = next;
-    }
-    return level[0] ?? 0n;
+  // A failed tx may still have been beaten by someone else's merge: trust the chain, not the error
+  const after = await merged();
+  if (!after.stateM || !after.msgM) {
+    throw new Error(`AccQueues not merged (state: ${after.stateM}, message: ${after.msgM})`);
   }
-
-  return {
-    poseidon, F, eddsa, babyJub,
-    hash, ecdh: ecdhFn, decrypt: duplexDecrypt, encrypt: duplexEncrypt,
-    verifyEdDSA: verifyEdDSAFn,
-    hashStateLeaf: hashStateLeafFn,
-    hashBallot: hashBallotFn,
-    hashCommand: hashCommandFn,
-    unpackCommand: unpackCommandFn,
-    quinaryTreeRoot,
-  };
+  log('  AccQueues merged');
+  return true;
 }
 
-// ─── Poll Processing Pipeline ─────────────────────────────────────────
+// One indexer per provider (= per deployment), shared by fetchEvents and the listener
+const indexers = new WeakMap<ethers.Provider, EventIndexer>();
 
-export interface PollAddresses {
-  poll: string;
-  mp: string;
-  tally: string;
-}
-
-/** Step 1: Merge AccQueues on-chain */
-async function mergeAccQueues(
-  pollAddr: string,
-  signer: ethers.Wallet,
-): Promise<void> {
-  const poll = new ethers.Contract(pollAddr, POLL_ABI, signer);
-  const pollRead = new ethers.Contract(pollAddr, POLL_ABI, signer.provider);
-
-  const stateM = await retryRpc(() => pollRead.stateAqMerged());
-  const msgM = await retryRpc(() => pollRead.messageAqMerged());
-
-  if (!stateM) {
-    try {
-      log('  Merging State AccQueue sub-roots...');
-      const tx1 = await poll.mergeMaciStateAqSubRoots(0);
-      await tx1.wait();
-    } catch (e) {
-      log(`  State sub-roots: ${(e as Error).message?.includes('Already') ? 'already merged' : (e as Error).message?.slice(0, 80)}`);
-    }
-    try {
-      log('  Merging State AccQueue...');
-      const tx2 = await poll.mergeMaciStateAq();
-      await tx2.wait();
-      log('  State AccQueue merged');
-    } catch (e) {
-      log(`  State AQ merge: ${(e as Error).message?.slice(0, 80)}`);
-    }
-  } else {
-    log('  State AccQueue: already merged');
+/** Incremental log scans for the active deployment (namespaced by chain id) */
+async function eventIndexer(provider: ethers.Provider): Promise<EventIndexer> {
+  let indexer = indexers.get(provider);
+  if (!indexer) {
+    const { chainId } = await retryRpc(() => provider.getNetwork());
+    indexer = new EventIndexer(ethersLogSource(provider), deployment().eventIndex, { namespace: chainId.toString() });
+    indexers.set(provider, indexer);
   }
+  return indexer;
+}
 
-  if (!msgM) {
-    try {
-      log('  Merging Message AccQueue sub-roots...');
-      const tx3 = await poll.mergeMessageAqSubRoots(0);
-      await tx3.wait();
-    } catch (e) {
-      log(`  Message sub-roots: ${(e as Error).message?.includes('Already') ? 'already merged' : (e as Error).message?.slice(0, 80)}`);
-    }
-    try {
-      log('  Merging Message AccQueue...');
-      const tx4 = await poll.mergeMessageAq();
-      await tx4.wait();
-      log('  Message AccQueue merged');
-    } catch (e) {
-      log(`  Message AQ merge: ${(e as Error).message?.slice(0, 80)}`);
-    }
-  } else {
-    log('  Message AccQueue: already merged');
+/** DeployPoll events → poll contract addresses by pollId */
+export async function fetchDeployPolls(
+  maciContract: ethers.Contract,
+  provider: ethers.Provider,
+  deployBlock: number,
+): Promise<Map<number, PollAddresses>> {
+  const indexer = await eventIndexer(provider);
+  const topic = maciContract.interface.getEvent('DeployPoll')!.topicHash;
+  const logs = await retryRpc(() => indexer.getLogs(String(maciContract.target), topic, deployBlock));
+
+  const pollMap = new Map<number, PollAddresses>();
+  for (const log of logs) {
+    const a = maciContract.interface.parseLog(log)?.args;
+    if (!a) continue;
+    pollMap.set(Number(a.pollId), {
+      poll: a.pollAddr,
+      mp: a.messageProcessorAddr,
+      tally: a.tallyAddr,
+    });
   }
+  return pollMap;
 }
 
 /** Step 2: Fetch on-chain events */
-async function fetchEvents(
+export async function fetchEvents(
   maciContract: ethers.Contract,
   pollAddr: string,
   provider: ethers.Provider,
   deployBlock: number,
 ): Promise<{ stateLeaves: StateLeaf[]; messages: EncryptedMessage[] }> {
-  // SignUp events (from deploy block to avoid RPC block range limit)
-  const suFilter = maciContract.filters.SignUp();
-  const suEvents = await retryRpc(() => maciContract.queryFilter(suFilter, deployBlock));
+  // Chunked + cached scans from the deploy block (RPCs limit getLogs block ranges)
+  const indexer = await eventIndexer(provider);
+
+  // SignUp events
+  const suTopic = maciContract.interface.getEvent('SignUp')!.topicHash;
+  const suLogs = await retryRpc(() => indexer.getLogs(String(maciContract.target), suTopic, deployBlock));
   const stateLeaves: StateLeaf[] = [];
-  for (const ev of suEvents) {
-    if (!('args' in ev)) continue;
-    const a = ev.args as any;
+  for (const log of suLogs) {
+    const a = maciContract.interface.parseLog(log)?.args;
+    if (!a) continue;
     stateLeaves.push({
       pubKeyX: BigInt(a.pubKeyX),
       pubKeyY: BigInt(a.pubKeyY),
@@ -449,13 +523,13 @@ async function fetchEvents(
   }
 
   // MessagePublished events
-  const pollContract = new ethers.Contract(pollAddr, POLL_ABI, provider);
-  const msgFilter = pollContract.filters.MessagePublished();
-  const msgEvents = await retryRpc(() => pollContract.queryFilter(msgFilter, deployBlock));
+  const pollInterface = new ethers.Interface(POLL_ABI);
+  const msgTopic = pollInterface.getEvent('MessagePublished')!.topicHash;
+  const msgLogs = await retryRpc(() => indexer.getLogs(pollAddr, msgTopic, deployBlock));
   const messages: EncryptedMessage[] = [];
-  for (const ev of msgEvents) {
-    if (!('args' in ev)) continue;
-    const a = ev.args as any;
+  for (const log of msgLogs) {
+    const a = pollInterface.parseLog(log)?.args;
+    if (!a) continue;
     messages.push({
       data: a.encMessage.map((v: any) => BigInt(v)),
       encPubKeyX: BigInt(a.encPubKeyX),
@@ -467,513 +541,367 @@ async function fetchEvents(
   return { stateLeaves, messages };
 }
 
-/** Step 3-5: Process messages batch-by-batch, generate proofs, submit */
+/** Step 3-5: Replay the engine's batches against the chain, generate proofs, submit */
 async function processAndSubmitProofs(
   pollId: number,
   addrs: PollAddresses,
-  stateLeaves: StateLeaf[],
-  messages: EncryptedMessage[],
-  coordinatorSk: bigint,
-  signer: ethers.Wallet,
-  crypto: CryptoKit,
-): Promise<{ newStateRoot: bigint; newBallotRoot: bigint; stateMap: Map<number, StateLeaf>; ballotMap: Map<number, Ballot>; stateTree: QuinaryMerkleTree; ballotTree: QuinaryMerkleTree }> {
-  // Initialize trees
-  const stateTree = new QuinaryMerkleTree(STATE_TREE_DEPTH);
-  await stateTree.init();
-  const ballotTree = new QuinaryMerkleTree(STATE_TREE_DEPTH);
-  await ballotTree.init();
-
-  // Maintain full leaf data (trees only store hashes)
-  const stateMap = new Map<number, StateLeaf>();
-  const ballotMap = new Map<number, Ballot>();
-
-  // Index 0: blank leaf
-  const blank: StateLeaf = { pubKeyX: 0n, pubKeyY: 0n, voiceCreditBalance: 2n ** 32n, timestamp: 0n };
-  stateMap.set(0, blank);
-  stateTree.insert(0, crypto.hashStateLeaf(blank));
-
-  const blankBallot: Ballot = { nonce: 0n, votes: new Array(MAX_VOTE_OPTIONS).fill(0n), voteOptionRoot: 0n };
-  ballotMap.set(0, blankBallot);
-  ballotTree.insert(0, crypto.hashBallot(blankBallot));
-
-  // Insert registered voters (1-indexed)
-  const numSignUps = stateLeaves.length + 1;
-  for (let i = 0; i < stateLeaves.length; i++) {
-    const leaf = stateLeaves[i];
-    stateMap.set(i + 1, { ...leaf });
-    stateTree.insert(i + 1, crypto.hashStateLeaf(leaf));
-
-    const ballot: Ballot = { nonce: 0n, votes: new Array(MAX_VOTE_OPTIONS).fill(0n), voteOptionRoot: 0n };
-    ballotMap.set(i + 1, ballot);
-    ballotTree.insert(i + 1, crypto.hashBallot(ballot));
-  }
-
-  log(`  State tree initialized: ${numSignUps} leaves (${stateLeaves.length} voters + blank)`);
-
-  // Build message tree for Merkle proofs
-  const msgTree = new QuinaryMerkleTree(STATE_TREE_DEPTH);
-  await msgTree.init();
-  for (const msg of messages) {
-    // Message leaf = hash of message data
-    const msgLeaf = crypto.hash(
-      crypto.hash(msg.data[0], msg.data[1], msg.data[2], msg.data[3], msg.data[4]),
-      crypto.hash(msg.data[5], msg.data[6], msg.data[7], msg.data[8], msg.data[9]),
-      msg.encPubKeyX,
-      msg.encPubKeyY,
-    );
-    msgTree.insert(msg.messageIndex, msgLeaf);
+  circuit: CircuitProfile,
+  processed: ProcessResult,
+  submitter: TransactionSubmitter,
+  checkpoint: PollCheckpoint,
+  options: ProcessOptions = {},
+): Promise<void> {
+  const { checkpoints, status } = deployment();
+  log(`  State tree initialized: ${processed.numSignUps} leaves (${processed.numSignUps - 1} voters + blank)`);
+  for (const batch of processed.batches) {
+    log(`  Batch ${batch.batch}: messages ${batch.messageIndices.join(', ')}`);
+    for (const o of processed.outcomes.filter(x => x.batch === batch.batch)) {
+      const c = o.command;
+      log(o.valid
+        ? `    msg[${o.messageIndex}]: VALID (voter ${c.stateIndex}, option ${c.voteOptionIndex}, weight ${c.newVoteWeight})`
+        : `    msg[${o.messageIndex}]: INVALID (${o.reasons.join(', ')}) → routed to index 0`);
+    }
   }
 
-  // Process in REVERSE order, batch by batch
-  const reversed = [...messages].sort((a, b) => b.messageIndex - a.messageIndex);
-  const mpContract = new ethers.Contract(addrs.mp, MP_ABI, signer);
-
-  // Track state commitment across batches (matches contract's stored value)
-  // Contract initializes currentStateCommitment = 0, updated after each batch
-  let currentStateCommitmentTracker = 0n;
-
-  let batchCount = 0;
-  for (let bi = 0; bi < reversed.length; bi += BATCH_SIZE) {
-    const batch = reversed.slice(bi, bi + BATCH_SIZE);
-    batchCount++;
-
-    log(`  Batch ${batchCount}: messages ${batch.map(m => m.messageIndex).join(', ')}`);
-
-    // Capture BEFORE roots
-    const inputStateRoot = stateTree.root;
-    const inputBallotRoot = ballotTree.root;
-    const inputMessageRoot = msgTree.root;
-
-    // Prepare batch circuit inputs (matching MessageProcessor.circom signals)
-    const batchMsgs: bigint[][] = [];
-    const batchEncPubKeys: bigint[][] = [];
-    const batchMsgNonces: bigint[] = [];
-    const batchStateLeaves: bigint[][] = [];
-    const batchBallots: bigint[][] = [];
-    const batchBallotVoteWeights: bigint[] = [];
-    const batchStateProofs: bigint[][][] = [];
-    const batchStatePathIndices: bigint[][] = [];
-    const batchBallotProofs: bigint[][][] = [];
-    const batchBallotPathIndices: bigint[][] = [];
-    const batchMsgProofs: bigint[][][] = [];
-    const batchMsgPathIndices: bigint[][] = [];
-
-    // Process each message in the batch
-    for (let mi = 0; mi < BATCH_SIZE; mi++) {
-      const msg = batch[mi] ?? {
-        data: new Array(10).fill(0n),
-        encPubKeyX: 0n,
-        encPubKeyY: 0n,
-        messageIndex: 0,
-      };
-
-      // Decrypt
-      const sharedKey = crypto.ecdh(coordinatorSk, [msg.encPubKeyX, msg.encPubKeyY]);
-      const plaintext = crypto.decrypt(msg.data, sharedKey, 0n);
-
-      // Auth tag failure → treat as invalid message
-      let decryptFailed = false;
-      const pt = plaintext ?? [0n, 0n, 0n, 0n, 0n, 0n, 0n];
-      if (!plaintext) {
-        decryptFailed = true;
-        log(`    msg[${msg.messageIndex}]: decryption failed (auth tag mismatch)`);
-      }
-
-      // Unpack command
-      const cmd = crypto.unpackCommand(pt[0] ?? 0n);
-      cmd.newPubKeyX = pt[1] ?? 0n;
-      cmd.newPubKeyY = pt[2] ?? 0n;
-      cmd.salt = pt[3] ?? 0n;
-
-      const sig = {
-        R8: [pt[4] ?? 0n, pt[5] ?? 0n],
-        S: pt[6] ?? 0n,
-      };
-
-      const stateIdx = Number(cmd.stateIndex);
-
-      // Get CURRENT state leaf and Merkle proof BEFORE update
-      const currentLeaf = stateMap.get(stateIdx) ?? { ...blank };
-      const stateProof = stateTree.getProof(stateIdx);
-      const ballotProof = ballotTree.getProof(stateIdx);
-      const msgProof = msgTree.getProof(msg.messageIndex);
-
-      const currentBallot = ballotMap.get(stateIdx) ?? { ...blankBallot, votes: [...blankBallot.votes] };
-
-      // Collect circuit inputs (the circuit decrypts in-circuit, no cmd* needed)
-      batchMsgs.push(msg.data);
-      batchEncPubKeys.push([msg.encPubKeyX, msg.encPubKeyY]);
-      batchMsgNonces.push(0n); // DuplexSponge nonce (always 0 in our protocol)
-      batchStateLeaves.push([currentLeaf.pubKeyX, currentLeaf.pubKeyY, currentLeaf.voiceCreditBalance, currentLeaf.timestamp]);
-      batchBallots.push([currentBallot.nonce, currentBallot.voteOptionRoot]);
-      const voteOptIdx = Number(cmd.voteOptionIndex);
-      batchBallotVoteWeights.push(currentBallot.votes[voteOptIdx] ?? 0n);
-      batchStateProofs.push(stateProof.pathElements);
-      batchStatePathIndices.push(stateProof.pathIndices.map(BigInt));
-      batchBallotProofs.push(ballotProof.pathElements);
-      batchBallotPathIndices.push(ballotProof.pathIndices.map(BigInt));
-      batchMsgProofs.push(msgProof.pathElements);
-      batchMsgPathIndices.push(msgProof.pathIndices.map(BigInt));
-
-      // Validate & apply state transition
-      let isValid = !decryptFailed;
-
-      // 5a. Signature check
-      const cmdHash = crypto.hashCommand(cmd);
-      const sigOk = crypto.verifyEdDSA(cmdHash, sig, [currentLeaf.pubKeyX, currentLeaf.pubKeyY]);
-      if (!sigOk) { isValid = false; if (batch[mi]) log(`    [DEBUG] sig FAIL: stateIdx=${stateIdx} cmdHash=${cmdHash.toString().slice(0,20)}... leaf.pk=[${currentLeaf.pubKeyX.toString().slice(0,15)}..., ${currentLeaf.pubKeyY.toString().slice(0,15)}...]`); }
-
-      // 5b. Range check
-      const rangeOk = stateIdx < numSignUps && stateIdx > 0;
-      if (!rangeOk) { isValid = false; if (batch[mi]) log(`    [DEBUG] range FAIL: stateIdx=${stateIdx} numSignUps=${numSignUps}`); }
-
-      // 5c. Nonce check
-      const nonceOk = cmd.nonce === currentBallot.nonce + 1n;
-      if (!nonceOk) { isValid = false; if (batch[mi]) log(`    [DEBUG] nonce FAIL: cmd.nonce=${cmd.nonce} expected=${currentBallot.nonce + 1n}`); }
-
-      // 5d. Credit check
-      const currentWeight = currentBallot.votes[voteOptIdx] ?? 0n;
-      const creditChange = currentWeight * currentWeight - cmd.newVoteWeight * cmd.newVoteWeight;
-      const creditOk = currentLeaf.voiceCreditBalance + creditChange >= 0n;
-      if (!creditOk) { isValid = false; if (batch[mi]) log(`    [DEBUG] credit FAIL: balance=${currentLeaf.voiceCreditBalance} change=${creditChange}`); }
-
-      // 5e. Vote option range
-      const voteOptOk = voteOptIdx < MAX_VOTE_OPTIONS && voteOptIdx >= 0;
-      if (!voteOptOk) { isValid = false; if (batch[mi]) log(`    [DEBUG] voteOpt FAIL: idx=${voteOptIdx} max=${MAX_VOTE_OPTIONS}`); }
-
-      if (batch[mi] && !decryptFailed) {
-        log(`    [DEBUG] msg[${msg.messageIndex}] checks: sig=${sigOk} range=${rangeOk} nonce=${nonceOk} credit=${creditOk} voteOpt=${voteOptOk} → ${isValid ? 'VALID' : 'INVALID'}`);
-        log(`    [DEBUG] cmd: stateIdx=${cmd.stateIndex} voteOpt=${cmd.voteOptionIndex} weight=${cmd.newVoteWeight} nonce=${cmd.nonce} pollId=${cmd.pollId}`);
-      }
-
-      if (isValid && batch[mi]) {
-        // Apply valid transition
-        currentLeaf.pubKeyX = cmd.newPubKeyX;
-        currentLeaf.pubKeyY = cmd.newPubKeyY;
-        currentLeaf.voiceCreditBalance += creditChange;
-        stateMap.set(stateIdx, currentLeaf);
-        stateTree.update(stateIdx, crypto.hashStateLeaf(currentLeaf));
-
-        currentBallot.votes[voteOptIdx] = cmd.newVoteWeight;
-        currentBallot.nonce += 1n;
-        ballotMap.set(stateIdx, currentBallot);
-        ballotTree.update(stateIdx, crypto.hashBallot(currentBallot));
-
-        log(`    msg[${msg.messageIndex}]: VALID (voter ${stateIdx}, option ${voteOptIdx}, weight ${cmd.newVoteWeight})`);
-      } else if (batch[mi]) {
-        // Invalid: route to index 0
-        const b0 = stateMap.get(0)!;
-        stateTree.update(0, crypto.hashStateLeaf(b0));
-        ballotTree.update(0, crypto.hashBallot(ballotMap.get(0)!));
-        log(`    msg[${msg.messageIndex}]: INVALID → routed to index 0`);
-      }
+  const mpRead = new ethers.Contract(addrs.mp, MP_ABI, submitter.provider);
+
+  // Resume: batches up to the on-chain commitment were accepted before a restart
+  const onChainCommitment = BigInt(await retryRpc(() => mpRead.currentStateCommitment()));
+  let caughtUp = onChainCommitment === 0n;
+  if (!caughtUp) log(`  Resuming: on-chain state commitment ${onChainCommitment.toString().slice(0, 20)}...`);
+
+  // Phase 1: attach wasm/zkey paths to every batch not yet on-chain
+  const pending: { record: ProcessBatchCheckpoint; proofInput: ProcessProofInput }[] = [];
+  const totalBatches = processed.batches.length;
+  status.setBatch(pollId, 'process', 0, totalBatches);
+  for (const batch of processed.batches) {
+    const { newStateCommitment } = batch;
+    if (!caughtUp) {
+      if (newStateCommitment === onChainCommitment) caughtUp = true;
+      log(`  Batch ${batch.batch}: already on-chain (skipping)`);
+      continue;
     }
 
-    // Capture AFTER roots
-    const outputStateRoot = stateTree.root;
-    const outputBallotRoot = ballotTree.root;
+    const saved = checkpoint.processBatches.find(b => b.batch === batch.batch);
+    pending.push({
+      record: {
+        batch: batch.batch,
+        messageIndices: batch.messageIndices,
+        newStateCommitment,
+        outputStateRoot: batch.outputStateRoot,
+        outputBallotRoot: batch.outputBallotRoot,
+        proof: saved?.newStateCommitment === newStateCommitment ? saved.proof : undefined,
+      },
+      proofInput: { wasmPath: circuit.processMessages.wasm, zkeyPath: circuit.processMessages.zkey, ...batch.circuitInput },
+    });
+  }
 
-    // Compute newStateCommitment = Poseidon(outputStateRoot, outputBallotRoot)
-    const newStateCommitment = crypto.hash(outputStateRoot, outputBallotRoot);
+  if (!caughtUp) {
+    throw new Error('On-chain state commitment does not match any locally computed batch');
+  }
 
-    // SHA256: 4 values matching MessageProcessor.sol contract
-    const inputHash = await computePublicInputHash([
-      currentStateCommitmentTracker,
-      newStateCommitment,
-      inputMessageRoot,
-      BigInt(messages.length),
-    ]);
+  if (options.dryRun) {
+    await dryRunBatches('processMessages', pending.map(({ record, proofInput }) => ({
+      batch: record.batch,
+      commitment: record.newStateCommitment,
+      proofInput,
+      circuitInputs: () => buildProcessCircuitInputs(proofInput),
+    })), circuit.processMessages.vkey, options.prove ?? false);
+    log(`  [dry-run] Would call completeProcessing()`);
+    return;
+  }
 
-    // Generate processMessages proof
-    log(`  Generating processMessages proof (batch ${batchCount})...`);
-    try {
-      const proofInput: ProcessProofInput = {
-        wasmPath: MP_WASM,
-        zkeyPath: MP_ZKEY,
-        inputHash,
-        currentStateCommitment: currentStateCommitmentTracker,
-        numMessages: BigInt(messages.length),
-        inputStateRoot,
-        outputStateRoot,
-        inputBallotRoot,
-        outputBallotRoot,
-        inputMessageRoot,
-        numSignUps: BigInt(numSignUps),
-        messages: batchMsgs,
-        encPubKeys: batchEncPubKeys,
-        coordinatorSk,
-        msgNonces: batchMsgNonces,
-        stateLeaves: batchStateLeaves,
-        ballots: batchBallots,
-        ballotVoteWeights: batchBallotVoteWeights,
-        stateProofs: batchStateProofs,
-        statePathIndices: batchStatePathIndices,
-        ballotProofs: batchBallotProofs,
-        ballotPathIndices: batchBallotPathIndices,
-        msgProofs: batchMsgProofs,
-        msgPathIndices: batchMsgPathIndices,
-      };
-
-      const proofResult = await generateProcessProof(proofInput);
-      const { pi_a, pi_b, pi_c } = proofResult.proof;
-      const pA: [bigint, bigint] = [BigInt(pi_a[0]), BigInt(pi_a[1])];
-      const pB: [[bigint, bigint], [bigint, bigint]] = [
-        [BigInt(pi_b[0][1]), BigInt(pi_b[0][0])],
-        [BigInt(pi_b[1][1]), BigInt(pi_b[1][0])],
-      ];
-      const pC: [bigint, bigint] = [BigInt(pi_c[0]), BigInt(pi_c[1])];
-
-      log(`  Submitting processMessages proof (batch ${batchCount})...`);
-      await sendTxWithRetry(
-        `processMessages batch ${batchCount}`,
-        async () => {
-          const gas = await estimateGasWithBuffer(() => mpContract.processMessages.estimateGas(newStateCommitment, pA, pB, pC));
-          const tx = await mpContract.processMessages(newStateCommitment, pA, pB, pC, gas ? { gasLimit: gas } : {});
-          await tx.wait();
-        },
-      );
-      log(`  Batch ${batchCount} proof submitted`);
-
-      // Update state commitment tracker (matches contract's currentStateCommitment)
-      currentStateCommitmentTracker = newStateCommitment;
-    } catch (err) {
+  // Prove (worker pool) and submit (in order) every remaining batch
+  if (pending.length > 0) {
+    log(`  Proving ${pending.length} batch(es) with concurrency ${PROOF_CONCURRENCY}...`);
+  }
+  await runPipelined(pending, {
+    concurrency: PROOF_CONCURRENCY,
+    prove: async ({ record, proofInput }) => {
+      if (record.proof) {
+        log(`  Reusing checkpointed proof (batch ${record.batch})`);
+        return record.proof;
+      }
+      log(`  Generating processMessages proof (batch ${record.batch})...`);
+      const proofStart = Date.now();
+      const proofResult = await prover().prove({
+        circuitInputs: buildProcessCircuitInputs(proofInput),
+        wasmPath: proofInput.wasmPath,
+        zkeyPath: proofInput.zkeyPath,
+      });
+      status.recordProof(pollId, 'process', Date.now() - proofStart);
+      upsertBatch(checkpoint.processBatches, { ...record, proof: proofResult });
+      checkpoints.save(checkpoint);
+      return proofResult;
+    },
+    submit: async ({ record }, proofResult) => {
+      status.setBatch(pollId, 'process', record.batch, totalBatches);
+
+      log(`  Submitting processMessages proof (batch ${record.batch})...`);
+      const { hash } = await submitter.submitProcessProof(addrs.mp, record.newStateCommitment, proofResult, `processMessages batch ${record.batch}`);
+      upsertBatch(checkpoint.processBatches, { ...record, proof: proofResult, txHash: hash ?? undefined });
+      checkpoints.save(checkpoint);
+      log(`  Batch ${record.batch} proof submitted`);
+    },
+    onError: ({ record }, err) => {
       // Sanitize: only log error type and short message, never raw stack or secrets
       const errType = (err as Error).constructor?.name ?? 'Error';
       const errMsg = (err as Error).message?.slice(0, 80)?.replace(/0x[a-fA-F0-9]{40,}/g, '[REDACTED]') ?? 'unknown';
-      log(`  Proof generation/submission failed: [${errType}] ${errMsg}`);
+      log(`  Proof generation/submission failed (batch ${record.batch}): [${errType}] ${errMsg}`);
       log(`  Off-chain processing continues (results will be available for manual submission)`);
-      // Still update tracker for next batch's circuit input
-      currentStateCommitmentTracker = newStateCommitment;
-    }
-  }
+    },
+  });
 
   // Complete processing
   try {
-    const isComplete = await new ethers.Contract(addrs.mp, MP_ABI, signer.provider).processingComplete();
-    if (!isComplete) {
-      const tx = await mpContract.completeProcessing();
-      await tx.wait();
+    const { hash } = await submitter.completeProcessing(addrs.mp);
+    if (hash) {
+      checkpoint.processingCompleteTx = hash;
+      checkpoints.save(checkpoint);
       log('  Processing marked complete');
     }
   } catch (err) {
     log(`  completeProcessing: ${(err as Error).message?.slice(0, 80)}`);
   }
-
-  return {
-    newStateRoot: stateTree.root,
-    newBallotRoot: ballotTree.root,
-    stateMap,
-    ballotMap,
-    stateTree,
-    ballotTree,
-  };
 }
 
 /** Step 6-7: Tally votes and publish results (batch-based with full circuit inputs) */
 async function tallyAndPublish(
   pollId: number,
   addrs: PollAddresses,
-  numSignUps: number,
-  stateMap: Map<number, StateLeaf>,
-  ballotMap: Map<number, Ballot>,
-  stateTree: QuinaryMerkleTree,
-  newStateRoot: bigint,
-  newBallotRoot: bigint,
-  signer: ethers.Wallet,
+  circuit: CircuitProfile,
+  processed: ProcessResult,
+  submitter: TransactionSubmitter,
   crypto: CryptoKit,
+  checkpoint: PollCheckpoint,
+  options: ProcessOptions = {},
 ): Promise<void> {
+  const { checkpoints, status, artifactDir } = deployment();
   log('  [6/7] Tallying votes...');
-
-  const stateCommitment = crypto.hash(newStateRoot, newBallotRoot);
-  const numBatches = Math.ceil(numSignUps / TALLY_BATCH_SIZE);
-
-  // Running accumulators
-  let currentTally = new Array(TALLY_NUM_OPTIONS).fill(0n) as bigint[];
-  let currentTotalSpent = 0n;
-  let currentPerOptionSpent = new Array(TALLY_NUM_OPTIONS).fill(0n) as bigint[];
-  let currentTallyResultsRoot = crypto.quinaryTreeRoot(currentTally);
-  let currentPerOptionSpentRoot = crypto.quinaryTreeRoot(currentPerOptionSpent);
-  let prevTallyCommitment = 0n; // First batch has no previous
-
-  const blank: StateLeaf = { pubKeyX: 0n, pubKeyY: 0n, voiceCreditBalance: 2n ** 32n, timestamp: 0n };
-
-  for (let batchNum = 0; batchNum < numBatches; batchNum++) {
-    const batchStart = batchNum * TALLY_BATCH_SIZE;
-
-    const batchStateLeaves: bigint[][] = [];
-    const batchBallotNonces: bigint[] = [];
-    const batchVoteWeights: bigint[][] = [];
-    const batchVoteOptionRoots: bigint[] = [];
-    const batchStateProofs: bigint[][][] = [];
-    const batchStatePathIndices: bigint[][] = [];
-
-    const newTally = [...currentTally];
-    let newTotalSpent = currentTotalSpent;
-    const newPerOptionSpent = [...currentPerOptionSpent];
-
-    for (let i = 0; i < TALLY_BATCH_SIZE; i++) {
-      const voterIdx = batchStart + i;
-
-      if (voterIdx < numSignUps) {
-        const leaf = stateMap.get(voterIdx) ?? blank;
-        const defaultBallot: Ballot = { nonce: 0n, votes: new Array<bigint>(MAX_VOTE_OPTIONS).fill(0n), voteOptionRoot: 0n };
-        const ballot = ballotMap.get(voterIdx) ?? defaultBallot;
-
-        batchStateLeaves.push([leaf.pubKeyX, leaf.pubKeyY, leaf.voiceCreditBalance, leaf.timestamp]);
-        batchBallotNonces.push(ballot.nonce);
-        batchVoteWeights.push(ballot.votes.slice(0, TALLY_NUM_OPTIONS));
-        batchVoteOptionRoots.push(ballot.voteOptionRoot);
-
-        const proof = stateTree.getProof(voterIdx);
-        batchStateProofs.push(proof.pathElements);
-        batchStatePathIndices.push(proof.pathIndices.map(BigInt));
-
-        // Accumulate vote weights (skip index 0 blank leaf for voter count)
-        for (let j = 0; j < TALLY_NUM_OPTIONS; j++) {
-          const weight = ballot.votes[j] ?? 0n;
-          newTally[j] += weight;
-          const spent = weight * weight;
-          newPerOptionSpent[j] += spent;
-          newTotalSpent += spent;
-        }
-      } else {
-        // Padding: use blank values with valid Merkle proof
-        batchStateLeaves.push([blank.pubKeyX, blank.pubKeyY, blank.voiceCreditBalance, blank.timestamp]);
-        batchBallotNonces.push(0n);
-        batchVoteWeights.push(new Array(TALLY_NUM_OPTIONS).fill(0n));
-        batchVoteOptionRoots.push(0n);
-
-        const proof = stateTree.getProof(0); // Use blank leaf proof
-        batchStateProofs.push(proof.pathElements);
-        batchStatePathIndices.push(proof.pathIndices.map(BigInt));
-      }
+  status.setPhase(pollId, 'tallying');
+
+  const { numSignUps } = processed;
+  const result = await tallyVotes({
+    crypto,
+    stateTree: processed.stateTree,
+    stateLeaves: processed.stateLeaves,
+    ballots: processed.ballots,
+    numSignUps,
+    stateCommitment: processed.stateCommitment,
+    batchSize: circuit.tallyBatchSize,
+    numVoteOptions: circuit.maxVoteOptions,
+  });
+  const { stateCommitment } = result;
+  const numBatches = result.batches.length;
+
+  // Resume: skip tally batches the contract already accepted
+  const tallyRead = new ethers.Contract(addrs.tally, TALLY_ABI, submitter.provider);
+  const onChainTallyCommitment = BigInt(await retryRpc(() => tallyRead.tallyCommitment()));
+  let caughtUp = onChainTallyCommitment === 0n;
+  if (!caughtUp) log(`  Resuming: on-chain tally commitment ${onChainTallyCommitment.toString().slice(0, 20)}...`);
+
+  // Phase 1: attach wasm/zkey paths to every batch not yet on-chain
+  const pending: { record: TallyBatchCheckpoint; proofInput: TallyProofInput }[] = [];
+  status.setBatch(pollId, 'tally', 0, numBatches);
+  for (const batch of result.batches) {
+    const { newTallyCommitment } = batch;
+    if (!caughtUp) {
+      if (newTallyCommitment === onChainTallyCommitment) caughtUp = true;
+      log(`  Tally batch ${batch.batch}/${numBatches}: already on-chain (skipping)`);
+      continue;
     }
+    const saved = checkpoint.tallyBatches.find(b => b.batch === batch.batch);
+    pending.push({
+      record: { batch: batch.batch, newTallyCommitment, proof: saved?.newTallyCommitment === newTallyCommitment ? saved.proof : undefined },
+      proofInput: { wasmPath: circuit.tallyVotes.wasm, zkeyPath: circuit.tallyVotes.zkey, ...batch.circuitInput },
+    });
+  }
 
-    const newTallyResultsRoot = crypto.quinaryTreeRoot(newTally);
-    const newPerOptionSpentRoot = crypto.quinaryTreeRoot(newPerOptionSpent);
-    const newTallyCommitment = crypto.hash(newTallyResultsRoot, newTotalSpent, newPerOptionSpentRoot);
-
-    // SHA256: 3 values matching Tally.sol contract
-    const inputHash = await computePublicInputHash([
-      stateCommitment, prevTallyCommitment, newTallyCommitment,
-    ]);
-
-    log(`  Tally batch ${batchNum + 1}/${numBatches}: generating proof...`);
-    try {
-      const tallyInput: TallyProofInput = {
-        wasmPath: TV_WASM,
-        zkeyPath: TV_ZKEY,
-        inputHash,
-        stateCommitment,
-        tallyCommitment: prevTallyCommitment,
-        newTallyCommitment,
-        batchNum: BigInt(batchNum),
-        stateLeaves: batchStateLeaves,
-        ballotNonces: batchBallotNonces,
-        voteWeights: batchVoteWeights,
-        voteOptionRoots: batchVoteOptionRoots,
-        stateProofs: batchStateProofs,
-        statePathIndices: batchStatePathIndices,
-        currentTally,
-        newTally,
-        currentTotalSpent,
-        newTotalSpent,
-        currentPerOptionSpent,
-        newPerOptionSpent,
-        currentTallyResultsRoot,
-        newTallyResultsRoot,
-        currentPerOptionSpentRoot,
-        newPerOptionSpentRoot,
-      };
-
-      const proofResult = await generateTallyProof(tallyInput);
-      const { pi_a, pi_b, pi_c } = proofResult.proof;
-      const pA: [bigint, bigint] = [BigInt(pi_a[0]), BigInt(pi_a[1])];
-      const pB: [[bigint, bigint], [bigint, bigint]] = [
-        [BigInt(pi_b[0][1]), BigInt(pi_b[0][0])],
-        [BigInt(pi_b[1][1]), BigInt(pi_b[1][0])],
-      ];
-      const pC: [bigint, bigint] = [BigInt(pi_c[0]), BigInt(pi_c[1])];
-
-      const tallyContract = new ethers.Contract(addrs.tally, TALLY_ABI, signer);
-      await sendTxWithRetry(
-        `tallyVotes batch ${batchNum + 1}`,
-        async () => {
-          const gas = await estimateGasWithBuffer(() => tallyContract.tallyVotes.estimateGas(newTallyCommitment, pA, pB, pC));
-          const tx = await tallyContract.tallyVotes(newTallyCommitment, pA, pB, pC, gas ? { gasLimit: gas } : {});
-          await tx.wait();
-        },
-      );
-      log(`  Tally batch ${batchNum + 1} proof submitted`);
-    } catch (err) {
-      const errMsg = (err as Error).message?.slice(0, 80)?.replace(/0x[a-fA-F0-9]{40,}/g, '[REDACTED]') ?? 'unknown';
-      log(`  Tally batch ${batchNum + 1} failed: ${errMsg}`);
-    }
+  if (!caughtUp) {
+    throw new Error('On-chain tally commitment does not match any locally computed batch');
+  }
 
-    // Update running accumulators for next batch
-    currentTally = newTally;
-    currentTotalSpent = newTotalSpent;
-    currentPerOptionSpent = newPerOptionSpent;
-    currentTallyResultsRoot = newTallyResultsRoot;
-    currentPerOptionSpentRoot = newPerOptionSpentRoot;
-    prevTallyCommitment = newTallyCommitment;
+  if (options.dryRun) {
+    await dryRunBatches('tallyVotes', pending.map(({ record, proofInput }) => ({
+      batch: record.batch,
+      commitment: record.newTallyCommitment,
+      proofInput,
+      circuitInputs: () => buildTallyCircuitInputs(proofInput),
+    })), circuit.tallyVotes.vkey, options.prove ?? false);
+  } else {
+    await runPipelined(pending, {
+      concurrency: PROOF_CONCURRENCY,
+      prove: async ({ record, proofInput }) => {
+        log(`  Tally batch ${record.batch}/${numBatches}: ${record.proof ? 'reusing checkpointed proof' : 'generating proof'}...`);
+        if (record.proof) return record.proof;
+        const proofStart = Date.now();
+        const proofResult = await prover().prove({
+          circuitInputs: buildTallyCircuitInputs(proofInput),
+          wasmPath: proofInput.wasmPath,
+          zkeyPath: proofInput.zkeyPath,
+        });
+        status.recordProof(pollId, 'tally', Date.now() - proofStart);
+        upsertBatch(checkpoint.tallyBatches, { ...record, proof: proofResult });
+        checkpoints.save(checkpoint);
+        return proofResult;
+      },
+      submit: async ({ record }, proofResult) => {
+        status.setBatch(pollId, 'tally', record.batch, numBatches);
+        const { hash } = await submitter.submitTallyProof(addrs.tally, record.newTallyCommitment, proofResult, `tallyVotes batch ${record.batch}`);
+        upsertBatch(checkpoint.tallyBatches, { ...record, proof: proofResult, txHash: hash ?? undefined });
+        checkpoints.save(checkpoint);
+        log(`  Tally batch ${record.batch} proof submitted`);
+      },
+      onError: ({ record }, err) => {
+        const errMsg = (err as Error).message?.slice(0, 80)?.replace(/0x[a-fA-F0-9]{40,}/g, '[REDACTED]') ?? 'unknown';
+        log(`  Tally batch ${record.batch} failed: ${errMsg}`);
+      },
+    });
   }
 
-  // Final results
-  const againstVotes = currentTally[0] ?? 0n;
-  const forVotes = currentTally[1] ?? 0n;
-  const abstainVotes = currentTally[2] ?? 0n;
+  // Final results; publishResults takes options 0-2, a multi-choice poll's full tally goes to tally.json
+  const { forVotes, againstVotes, abstainVotes } = result;
 
   // Read numSignUpsAtDeployment from Poll contract to cap totalVoters
   // Tally.publishResults() reverts with VoterCountExceedsSignups if totalVoters > numSignUpsAtDeployment
   // This happens when users sign up AFTER poll deployment (auto-registration on first vote)
-  const pollContract = new ethers.Contract(addrs.poll, POLL_ABI, signer.provider);
-  const numSignUpsAtDeploy = Number(await retryRpc(() => pollContract.numSignUpsAtDeployment()));
+  const pollContract = new ethers.Contract(addrs.poll, POLL_ABI, submitter.provider);
+  const [numSignUpsAtDeploy, voteOptions] = await Promise.all([
+    retryRpc(() => pollContract.numSignUpsAtDeployment()).then(Number),
+    readVoteOptions(pollContract),
+  ]);
   const totalVoters = Math.min(numSignUps - 1, numSignUpsAtDeploy); // Exclude blank leaf, cap at deployment count
-
-  log(`  Results: FOR=${forVotes}, AGAINST=${againstVotes}, ABSTAIN=${abstainVotes}, voters=${totalVoters} (allSignUps=${numSignUps - 1}, atDeployment=${numSignUpsAtDeploy})`);
+  const optionResults = voteOptions.length > 0
+    ? voteOptions.map((label, i) => ({ label, votes: result.tally[i] ?? 0n }))
+    : undefined;
+  const summary = optionResults
+    ? optionResults.map(o => `${o.label}=${o.votes}`).join(', ')
+    : `FOR=${forVotes}, AGAINST=${againstVotes}, ABSTAIN=${abstainVotes}`;
+
+  log(`  Results: ${summary}, voters=${totalVoters} (allSignUps=${numSignUps - 1}, atDeployment=${numSignUpsAtDeploy})`);
+
+  if (options.dryRun) {
+    const [onChainState, onChainTally] = await Promise.all([
+      retryRpc(() => new ethers.Contract(addrs.mp, MP_ABI, submitter.provider).currentStateCommitment()),
+      retryRpc(() => tallyRead.tallyCommitment()),
+    ]);
+    log(`  [dry-run] Expected state commitment: ${stateCommitment} (on-chain: ${onChainState})`);
+    log(`  [dry-run] Expected tally commitment: ${result.tallyCommitment} (on-chain: ${onChainTally})`);
+    log(`  [dry-run] tallyResultsRoot=${result.tallyResultsRoot} totalSpent=${result.totalSpent} perOptionSpentRoot=${result.perOptionSpentRoot}`);
+    log(`  [dry-run] Would call publishResults(FOR=${forVotes}, AGAINST=${againstVotes}, ABSTAIN=${abstainVotes}, voters=${totalVoters})`);
+    return;
+  }
 
   // Publish results on-chain
   log('  [7/7] Publishing results on-chain...');
-  const tallyContract = new ethers.Contract(addrs.tally, TALLY_ABI, signer);
+  status.setPhase(pollId, 'publishing');
   try {
-    await sendTxWithRetry(
-      'publishResults',
-      async () => {
-        const gas = await estimateGasWithBuffer(() => tallyContract.publishResults.estimateGas(
-          forVotes,
-          againstVotes,
-          abstainVotes,
-          BigInt(totalVoters),
-          currentTallyResultsRoot,
-          currentTotalSpent,
-          currentPerOptionSpentRoot,
-        ));
-        const tx = await tallyContract.publishResults(
-          forVotes,
-          againstVotes,
-          abstainVotes,
-          BigInt(totalVoters),
-          currentTallyResultsRoot,
-          currentTotalSpent,
-          currentPerOptionSpentRoot,
-          gas ? { gasLimit: gas } : {},
-        );
-        await tx.wait();
-      },
-      5,
-    );
-    log(`  Results published! FOR=${forVotes} AGAINST=${againstVotes} ABSTAIN=${abstainVotes}`);
+    const { hash } = await submitter.publishResults(addrs.tally, {
+      forVotes,
+      againstVotes,
+      abstainVotes,
+      totalVoters: BigInt(totalVoters),
+      tallyResultsRoot: result.tallyResultsRoot,
+      totalSpent: result.totalSpent,
+      perOptionSpentRoot: result.perOptionSpentRoot,
+    });
+    if (hash) checkpoint.publishTx = hash;
+    checkpoints.save(checkpoint);
+    log(`  Results published! ${summary}`);
+    await notify({ kind: 'pollFinalized', pollId, forVotes, againstVotes, abstainVotes, options: optionResults, totalVoters, txHash: hash });
   } catch (err) {
     const errMsg = (err as Error).message?.slice(0, 80)?.replace(/0x[a-fA-F0-9]{40,}/g, '[REDACTED]') ?? 'unknown';
     log(`  publishResults failed: ${errMsg}`);
+    return;
+  }
+
+  // tally.json: failures here never block finalization
+  try {
+    const artifact = buildTallyArtifact({
+      maci: checkpoint.maciAddress,
+      pollId,
+      chainId: (await retryRpc(() => submitter.provider.getNetwork())).chainId,
+      contracts: { poll: addrs.poll, messageProcessor: addrs.mp, tally: addrs.tally },
+      circuit: {
+        mode: circuit.name,
+        stateTreeDepth: circuit.stateTreeDepth,
+        messageBatchSize: circuit.messageBatchSize,
+        tallyBatchSize: circuit.tallyBatchSize,
+        voteOptions: circuit.maxVoteOptions,
+      },
+      voteOptions,
+      stateCommitment,
+      tallyCommitment: result.tallyCommitment,
+      tally: result.tally,
+      tallyResultsRoot: result.tallyResultsRoot,
+      perOptionSpent: result.perOptionSpent,
+      perOptionSpentRoot: result.perOptionSpentRoot,
+      totalSpent: result.totalSpent,
+      totalVoters,
+      checkpoint,
+    });
+    const content = serializeTallyArtifact(artifact);
+    const hash = hashTallyArtifact(content);
+    const fileName = tallyArtifactFileName(checkpoint.maciAddress, pollId);
+    const file = writeTallyArtifact(artifactDir, fileName, content);
+    log(`  Tally artifact: ${fileName} (sha256 ${hash.slice(0, 18)}...)`);
+
+    let uri: string | null = null;
+    if (artifactUploader) {
+      try {
+        uri = await artifactUploader.upload(fileName, content);
+        log(`  Tally artifact uploaded: ${uri}`);
+      } catch (err) {
+        log(`  Tally artifact upload failed: ${(err as Error).message?.slice(0, 80) ?? 'unknown'}`);
+      }
+    }
+    status.setArtifact(pollId, { hash, uri }, file);
+    checkpoint.tallyArtifact = { hash, uri };
+    checkpoints.save(checkpoint);
+  } catch (err) {
+    log(`  Tally artifact failed: ${(err as Error).message?.slice(0, 80) ?? 'unknown'}`);
   }
 }
 
+/** Re-register a finalized poll's tally.json after a restart, so the status server keeps serving it */
+function restoreTallyArtifact(maciAddress: string, pollId: number): void {
+  const { checkpoints, status, artifactDir } = deployment();
+  if (status.getArtifactFile(pollId)) return;
+  const file = join(artifactDir, tallyArtifactFileName(maciAddress, pollId));
+  if (!existsSync(file)) return;
+  const hash = hashTallyArtifact(readFileSync(file, 'utf8'));
+  // The upload URI only lives in the checkpoint; it is kept if the file is unchanged
+  const saved = checkpoints.load(maciAddress, pollId).tallyArtifact;
+  status.setArtifact(pollId, { hash, uri: saved?.hash === hash ? saved.uri : null }, file);
+}
+
 // ─── Main Loop ────────────────────────────────────────────────────────
 
 function log(msg: string) {
-  console.log(`[${new Date().toLocaleTimeString()}] ${msg}`);
+  const { name } = deployment();
+  console.log(`[${new Date().toLocaleTimeString()}]${name ? ` [${name}]` : ''} ${msg}`);
+}
+
+/** Alert operators (see notifier); tagged with the active deployment's name */
+function notify(event: CoordinatorEvent): Promise<boolean> {
+  return notifier.notify(inCurrentDeployment(event));
+}
+
+function inCurrentDeployment(event: CoordinatorEvent): CoordinatorEvent {
+  const { name } = deployment();
+  return name ? { ...event, deployment: name } : event;
+}
+
+/** Warn (and alert) while the wallet is below LOW_BALANCE_WEI; repeats are rate-limited */
+export async function checkBalance(wallet: string, balance: bigint): Promise<void> {
+  const event: CoordinatorEvent = { kind: 'lowBalance', address: wallet, balanceWei: balance, thresholdWei: LOW_BALANCE_WEI };
+  if (balance >= LOW_BALANCE_WEI) {
+    notifier.resolve(inCurrentDeployment(event));
+    return;
+  }
+  if (await notify(event)) {
+    log(`⚠ Low ETH balance: ${ethers.formatEther(balance)} ETH (threshold ${ethers.formatEther(LOW_BALANCE_WEI)}). Transactions may fail.`);
+  }
 }
 
 async function retryRpc<T>(fn: () => Promise<T>, maxRetries = 3): Promise<T> {
@@ -992,35 +920,42 @@ async function retryRpc<T>(fn: () => Promise<T>, maxRetries = 3): Promise<T> {
   throw new Error('retryRpc: unreachable');
 }
 
-async function estimateGasWithBuffer(fn: () => Promise<bigint>): Promise<bigint | null> {
-  try {
-    const gas = await retryRpc(fn, 2);
-    // 20% buffer + 25k cushion
-    return (gas * 120n) / 100n + 25_000n;
-  } catch {
-    return null;
-  }
-}
-
-async function sendTxWithRetry(
+/**
+ * Dry run stand-in for prove + submit: lists each batch's commitment and,
+ * with `prove`, generates the proof and checks it off-chain against the vkey
+ * (and that its public signal is the expected SHA256 input hash).
+ */
+async function dryRunBatches(
   label: string,
-  send: () => Promise<void>,
-  maxRetries = 3,
+  items: { batch: number; commitment: bigint; proofInput: { inputHash: bigint; wasmPath: string; zkeyPath: string }; circuitInputs: () => CircuitInputs }[],
+  vkeyPath: string,
+  prove: boolean,
 ): Promise<void> {
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      await send();
-      return;
-    } catch (err) {
-      const errMsg = (err as Error).message?.slice(0, 80)?.replace(/0x[a-fA-F0-9]{40,}/g, '[REDACTED]') ?? 'unknown';
-      if (attempt === maxRetries) {
-        throw err;
-      }
-      const delay = 2000 * (attempt + 1);
-      log(`  ${label} failed: ${errMsg}. Retrying in ${delay}ms...`);
-      await new Promise((r) => setTimeout(r, delay));
-    }
+  if (!prove) {
+    for (const item of items) log(`  [dry-run] Would call ${label} (batch ${item.batch}): commitment ${item.commitment}`);
+    return;
   }
+
+  const vkey = existsSync(vkeyPath) ? JSON.parse(readFileSync(vkeyPath, 'utf8')) : null;
+  if (!vkey) log(`  [dry-run] ⚠ Verifying key not found (${vkeyPath}); proofs will not be verified`);
+  const snarkjs = await import('snarkjs');
+
+  let failures = 0;
+  await runPipelined(items, {
+    concurrency: PROOF_CONCURRENCY,
+    prove: (item) => prover().prove({ circuitInputs: item.circuitInputs(), wasmPath: item.proofInput.wasmPath, zkeyPath: item.proofInput.zkeyPath }),
+    submit: async (item, proofResult) => {
+      const signalOk = proofResult.publicSignals.length === 1 && BigInt(proofResult.publicSignals[0]) === item.proofInput.inputHash;
+      const verified = vkey ? await snarkjs.groth16.verify(vkey, proofResult.publicSignals, proofResult.proof) : null;
+      if (!signalOk || verified === false) failures++;
+      log(`  [dry-run] ${label} (batch ${item.batch}): commitment ${item.commitment}, proof ${!signalOk ? 'has wrong public signal' : verified === null ? 'generated (unverified)' : verified ? 'verified ✓' : 'INVALID ✗'}`);
+    },
+    onError: (item, err) => {
+      failures++;
+      log(`  [dry-run] ${label} (batch ${item.batch}): proof failed: ${(err as Error).message?.slice(0, 80) ?? 'unknown'}`);
+    },
+  });
+  if (failures > 0) throw new Error(`Dry run: ${failures} ${label} proof(s) failed`);
 }
 
 export async function processPoll(
@@ -1028,20 +963,38 @@ export async function processPoll(
   addrs: PollAddresses,
   maci: ethers.Contract,
   provider: ethers.JsonRpcProvider,
-  signer: ethers.Wallet,
-  coordinatorSk: bigint,
+  submitter: TransactionSubmitter,
+  coordinatorKeys: CoordinatorKeyring,
   crypto: CryptoKit,
   deployBlock: number,
+  options: ProcessOptions = {},
 ): Promise<void> {
-  log(`\n  ★ Processing Poll ${pollId}`);
+  const { checkpoints, auditLogs, status } = deployment();
+  log(`\n  ★ ${options.dryRun ? 'Dry run:' : 'Processing'} Poll ${pollId}`);
+
+  // Before any tx: votes to this poll can only be decrypted with its own key
+  const coordinatorSk = await selectCoordinatorKey(pollId, addrs.poll, provider, coordinatorKeys, crypto);
+  // ...and only be proven with the circuits its contracts were deployed for
+  const circuit = await selectCircuit(addrs, maci, provider, !options.dryRun || options.prove === true);
 
   // Step 1: Merge
   log('  [1/7] AccQueue merge...');
-  await mergeAccQueues(addrs.poll, signer);
+  status.setPhase(pollId, 'merging');
+  const merged = await mergeAccQueues(addrs.poll, submitter, options.dryRun);
+
+  // Resume state from a previous (crashed) run, if any
+  const checkpoint = checkpoints.load(String(maci.target), pollId);
 
-  // Step 2: Fetch events
+  // Step 2: Fetch events (stable only once both AccQueues are merged, so cached from then on)
   log('  [2/7] Fetching on-chain events...');
-  const { stateLeaves, messages } = await fetchEvents(maci, addrs.poll, provider, deployBlock);
+  status.setPhase(pollId, 'fetching');
+  if (!checkpoint.events) {
+    checkpoint.events = await fetchEvents(maci, addrs.poll, provider, deployBlock);
+    if (merged && !options.dryRun) checkpoints.save(checkpoint);
+  } else {
+    log('  Using checkpointed events');
+  }
+  const { stateLeaves, messages } = checkpoint.events;
   log(`  Found ${stateLeaves.length} signups, ${messages.length} messages`);
 
   // Skip if no real votes (only padding message exists)
@@ -1057,61 +1010,51 @@ export async function processPoll(
     return;
   }
 
-  // Initialize trees (needed for both message processing and tally)
-  const initTrees = async () => {
-    const stTree = new QuinaryMerkleTree(STATE_TREE_DEPTH);
-    await stTree.init();
-    const blTree = new QuinaryMerkleTree(STATE_TREE_DEPTH);
-    await blTree.init();
-
-    const blank: StateLeaf = { pubKeyX: 0n, pubKeyY: 0n, voiceCreditBalance: 2n ** 32n, timestamp: 0n };
-    const blankBallot: Ballot = { nonce: 0n, votes: new Array(MAX_VOTE_OPTIONS).fill(0n), voteOptionRoot: 0n };
-
-    const stMap = new Map<number, StateLeaf>();
-    const blMap = new Map<number, Ballot>();
-
-    stMap.set(0, blank);
-    stTree.insert(0, crypto.hashStateLeaf(blank));
-    blMap.set(0, blankBallot);
-    blTree.insert(0, crypto.hashBallot(blankBallot));
-
-    for (let i = 0; i < stateLeaves.length; i++) {
-      stMap.set(i + 1, { ...stateLeaves[i] });
-      stTree.insert(i + 1, crypto.hashStateLeaf(stateLeaves[i]));
-      const ballot: Ballot = { nonce: 0n, votes: new Array(MAX_VOTE_OPTIONS).fill(0n), voteOptionRoot: 0n };
-      blMap.set(i + 1, ballot);
-      blTree.insert(i + 1, crypto.hashBallot(ballot));
-    }
-
-    return { stateTree: stTree, ballotTree: blTree, stateMap: stMap, ballotMap: blMap };
-  };
+  // Replay every message off-chain (also builds the trees the tally needs)
+  log('  [3/7] Reconstructing state...');
+  status.setPhase(pollId, 'processing');
+  const processed = await processMessages({
+    crypto,
+    coordinatorSk,
+    stateLeaves,
+    messages,
+    stateTreeDepth: circuit.stateTreeDepth,
+    batchSize: circuit.messageBatchSize,
+    maxVoteOptions: circuit.maxVoteOptions,
+  });
 
-  const numSignUps = stateLeaves.length + 1; // Including blank
+  if (messages.length > 0) {
+    try {
+      auditLogs.write(String(maci.target), pollId, processed.outcomes);
+      log(`  Audit log: ${auditLogs.pathFor(String(maci.target), pollId)}`);
+    } catch (err) {
+      log(`  Audit log failed: ${(err as Error).message?.slice(0, 80) ?? 'unknown'}`);
+    }
+  }
 
   if (messages.length === 0) {
     log('  No messages to process. Skipping to tally with zero results...');
-    const { stateTree, ballotTree, stateMap, ballotMap } = await initTrees();
-    await tallyAndPublish(pollId, addrs, numSignUps, stateMap, ballotMap, stateTree, stateTree.root, ballotTree.root, signer, crypto);
-    return;
+  } else {
+    // Steps 4-5: Prove + submit
+    log(`  ${processed.processedCount} valid, ${processed.invalidCount} invalid message(s)`);
+    await processAndSubmitProofs(pollId, addrs, circuit, processed, submitter, checkpoint, options);
   }
 
-  // Steps 3-5: Process + prove
-  log('  [3/7] Reconstructing state...');
-  const { stateMap, ballotMap, stateTree, newStateRoot, newBallotRoot } = await processAndSubmitProofs(
-    pollId, addrs, stateLeaves, messages, coordinatorSk, signer, crypto,
-  );
-
   // Steps 6-7: Tally + publish
-  await tallyAndPublish(pollId, addrs, numSignUps, stateMap, ballotMap, stateTree, newStateRoot, newBallotRoot, signer, crypto);
+  await tallyAndPublish(pollId, addrs, circuit, processed, submitter, crypto, checkpoint, options);
+
+  if (options.dryRun) {
+    log(`  [dry-run] Would call resetStateAqMerge()`);
+    log(`  ★ Poll ${pollId} dry run complete (no transactions sent)`);
+    return;
+  }
 
   // Reset State AccQueue merge state so future signups are possible
   // Retry up to 3 times (5s interval) since this is critical for system health
   let resetSuccess = false;
   for (let attempt = 1; attempt <= 3; attempt++) {
     try {
-      const maciWithSigner = maci.connect(signer) as ethers.Contract;
-      const resetTx = await maciWithSigner.resetStateAqMerge();
-      await resetTx.wait();
+      await submitter.resetStateAqMerge(String(maci.target));
       log('  State AccQueue merge reset (new signups enabled)');
       resetSuccess = true;
       break;
@@ -1125,13 +1068,353 @@ export async function processPoll(
   }
   if (!resetSuccess) {
     log('  ✗ CRITICAL: resetStateAqMerge failed after 3 attempts — new signups will be blocked!');
+    await notify({ kind: 'halted', reason: `resetStateAqMerge failed after 3 attempts (poll ${pollId}): new signups are blocked until it is called` });
     process.exit(1);
   }
 
+  status.setPhase(pollId, 'finalized');
   log(`  ★ Poll ${pollId} processing complete!`);
 }
 
+/** The held key matching the poll's on-chain coordinatorPubKeyX/Y; throws if there is none */
+async function selectCoordinatorKey(
+  pollId: number,
+  pollAddr: string,
+  provider: ethers.Provider,
+  coordinatorKeys: CoordinatorKeyring,
+  crypto: CryptoKit,
+): Promise<bigint> {
+  const poll = new ethers.Contract(pollAddr, POLL_ABI, provider);
+  const [x, y] = await Promise.all([
+    retryRpc(() => poll.coordinatorPubKeyX()),
+    retryRpc(() => poll.coordinatorPubKeyY()),
+  ]);
+  const pubKey: [bigint, bigint] = [BigInt(x), BigInt(y)];
+  const key = coordinatorKeys.find(crypto, pubKey);
+  if (!key) {
+    throw new Error(`Poll ${pollId} uses coordinator key ${shortPubKey(pubKey)}, which this coordinator does not hold — refusing to process`);
+  }
+  if (coordinatorKeys.size > 1) log(`  Coordinator key: ${shortPubKey(key.pubKey)} (${key.source})`);
+  return key.sk;
+}
+
+/** A poll's tree depths and the verifying keys its contracts check proofs with */
+export async function readPollCircuit(
+  addrs: PollAddresses,
+  maci: ethers.Contract,
+  provider: ethers.Provider,
+): Promise<{ stateTreeDepth: number; messageTreeDepth: number; voteOptions: string[]; onchain: OnchainVerifyingKeys }> {
+  const poll = new ethers.Contract(addrs.poll, POLL_ABI, provider);
+  const [stateDepth, messageAqAddr, voteOptions] = await Promise.all([
+    retryRpc(() => maci.stateTreeDepth()),
+    retryRpc(() => poll.messageAq()),
+    readVoteOptions(poll),
+  ]);
+  const messageAq = new ethers.Contract(messageAqAddr, ACC_QUEUE_ABI, provider);
+  const stateTreeDepth = Number(stateDepth);
+  const messageTreeDepth = Number(await retryRpc(() => messageAq.SUB_DEPTH()));
+  const onchain = await retryRpc(() => readPollVerifyingKeys(provider, addrs, stateTreeDepth, messageTreeDepth));
+  return { stateTreeDepth, messageTreeDepth, voteOptions, onchain };
+}
+
+/** Poll.getOptionLabels(): [] for a for/against/abstain poll, including polls deployed before multi-choice polls */
+async function readVoteOptions(poll: ethers.Contract): Promise<string[]> {
+  try {
+    return [...await retryRpc(() => poll.getOptionLabels())];
+  } catch (err) {
+    if (ethers.isError(err, 'CALL_EXCEPTION') || ethers.isError(err, 'BAD_DATA')) return [];
+    throw err;
+  }
+}
+
+/**
+ * The circuit profile a poll was deployed for, from MACI.stateTreeDepth, the
+ * message AccQueue depth and the VkRegistry keys its MessageProcessor / Tally
+ * verify against (see CircuitRegistry.select). With `prove`, the profile's
+ * files must exist (or be fetched) and pass ensureCircuitArtifacts.
+ */
+export async function selectCircuit(
+  addrs: PollAddresses,
+  maci: ethers.Contract,
+  provider: ethers.Provider,
+  prove = true,
+): Promise<CircuitProfile> {
+  const { stateTreeDepth, messageTreeDepth, voteOptions, onchain } = await readPollCircuit(addrs, maci, provider);
+  const { processVk, tallyVk } = onchain;
+  const circuit = circuitRegistry().select(
+    { stateTreeDepth, messageTreeDepth, processVk, tallyVk, voteOptions: voteOptions.length }, deployment().circuitProfile);
+  const multiChoice = voteOptions.length > 0 ? `, ${voteOptions.length} options` : '';
+  log(`  Circuit profile: ${circuit.name} (depth=${stateTreeDepth}/${messageTreeDepth}, batch=${circuit.messageBatchSize}${multiChoice}${processVk ? ', VkRegistry match' : ''})`);
+  if (prove) await ensureCircuitArtifacts(circuit, onchain, addrs);
+  return circuit;
+}
+
+// Profiles already checked against a poll's verifiers (profile + MessageProcessor/Tally verifier code)
+const checkedArtifacts = new Map<string, Promise<void>>();
+
+/**
+ * Fetch the profile's missing files (CIRCUIT_BASE_URL), then check hashes and
+ * that each zkey proves for the poll's on-chain verifying keys
+ * (config/circuitArtifacts.ts). Throws instead of spending a proof on a bad zkey.
+ */
+async function ensureCircuitArtifacts(circuit: CircuitProfile, onchain: OnchainVerifyingKeys, addrs: PollAddresses): Promise<void> {
+  const key = `${circuit.name}:${onchain.processVk ? 'registry' : `${addrs.mp}:${addrs.tally}`}`;
+  let pending = checkedArtifacts.get(key);
+  if (!pending) {
+    pending = (async () => {
+      if (CIRCUIT_BASE_URL && circuitRegistry().missingFiles(circuit).length > 0) {
+        const written = await fetchCircuitArtifacts(circuit, { baseUrl: CIRCUIT_BASE_URL, token: CIRCUIT_BASE_TOKEN, log });
+        log(`  Fetched ${written.length} circuit file(s) for "${circuit.name}"`);
+      }
+      const report = await checkCircuitArtifacts(circuit, onchain);
+      if (!report.ok) throw new CircuitProfileError(`Circuit profile "${circuit.name}": ${describeArtifactProblems(report).split('\n')[0]}`);
+    })();
+    // A failed check is retried next time (files may be fixed or fetched in place)
+    pending.catch(() => checkedArtifacts.delete(key));
+    checkedArtifacts.set(key, pending);
+  }
+  return pending;
+}
+
+/** One MACI deployment's chain connection, wallet and coordinator keys (runner and admin CLI) */
+export interface DeploymentConnection {
+  config: DeploymentConfig;
+  ctx: DeploymentContext;
+  provider: ethers.JsonRpcProvider;
+  submitter: TransactionSubmitter;
+  wallet: string;
+  coordinatorKeys: CoordinatorKeyring;
+  maci: ethers.Contract;
+}
+
+/** One serviced MACI instance: chain connection + poll bookkeeping */
+interface DeploymentRunner extends DeploymentConnection {
+  // Live chain view; null in dry runs or if it failed to start (fixed-interval polling)
+  listener: EventListener | null;
+  // Track processed polls to avoid re-processing
+  processedPolls: Set<number>;
+  // Track polls that permanently failed (e.g. EdDSA sig mismatch) — stop retrying
+  failedPolls: Map<number, number>; // pollId → failCount
+}
+
+const MAX_RETRIES = 2;
+
+// Set while the main loop sleeps; a pollEnded from any deployment cuts the sleep short
+let wakeLoop: (() => void) | null = null;
+let wakeRequested = false;
+
+function requestWake(): void {
+  wakeRequested = true;
+  wakeLoop?.();
+}
+
+function sleepUntilWake(ms: number): Promise<void> {
+  if (wakeRequested) {
+    wakeRequested = false;
+    return Promise.resolve();
+  }
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      wakeLoop = null;
+      wakeRequested = false;
+      resolve();
+    }
+    wakeLoop = done;
+  });
+}
+
+/** Backfill + follow the deployment's events; the runner reacts to pollEnded */
+async function startListener(d: DeploymentConfig, ctx: DeploymentContext, provider: ethers.JsonRpcProvider, crypto: CryptoKit): Promise<EventListener | null> {
+  const listener = new EventListener({
+    provider,
+    maciAddress: d.maciAddress,
+    deployBlock: d.deployBlock,
+    crypto,
+    indexer: await eventIndexer(provider),
+  });
+  const inDeployment = (fn: () => void) => void runInDeployment(ctx, async () => fn());
+
+  listener.on('pollEnded', (p) => inDeployment(() => {
+    log(`Poll ${p.pollId}: voting ended (${p.messages.length} message(s))`);
+    requestWake();
+  }));
+  listener.on('reorg', (e) => inDeployment(() => {
+    log(`⚠ Reorg at block ${e.blockNumber}: rolled back ${e.signUps.length} signup(s), ${e.messages.length} message(s), ${e.polls.length} poll(s)`);
+  }));
+  listener.on('error', (err) => inDeployment(() => log(`Listener error: ${err.message?.slice(0, 100) ?? 'unknown'}`)));
+
+  try {
+    await listener.startListening();
+    const { numSignUps, polls } = listener.getState();
+    log(`Listening for events (${numSignUps} signup(s), ${polls.size} poll(s) backfilled)`);
+    return listener;
+  } catch (err) {
+    listener.stopListening();
+    log(`⚠ Event listener unavailable, polling every ${POLL_CHECK_INTERVAL / 1000}s: ${(err as Error).message?.slice(0, 80) ?? 'unknown'}`);
+    return null;
+  }
+}
+
+/** Keys, RPC and wallet for a deployment (call inside runInDeployment(ctx)); dry runs need no wallet key */
+export async function connectDeployment(d: DeploymentConfig, ctx: DeploymentContext, crypto: CryptoKit, options: ProcessOptions = {}): Promise<DeploymentConnection> {
+  const circuit = circuitRegistry().require(ctx.circuitProfile);
+  const keys = loadKeys(d.walletKeyEnv, d.coordinatorKeyEnv, !options.dryRun);
+  log(`Circuit profile: ${circuit.name} by default (depth=${circuit.stateTreeDepth}, batch=${circuit.messageBatchSize}, maxVoters=${5 ** circuit.stateTreeDepth - 1})`);
+
+  const provider = await connectRpc(d.rpcUrls, d.chainId);
+  log(`MACI: ${d.maciAddress}`);
+
+  const submitter = await createSubmitter(keys.signer, provider);
+  const wallet = await submitter.getAddress();
+  log(`Coordinator wallet: ${wallet} (${keys.signer.kind} signer)`);
+  log(`Coordinator key(s): ${keys.coordinatorKeys.keys(crypto).map(k => shortPubKey(k.pubKey)).join(', ')}`);
+
+  const balance = await provider.getBalance(wallet);
+  log(`Balance: ${ethers.formatEther(balance)} ETH`);
+  ctx.status.setWallet(wallet, balance);
+
+  return {
+    config: d,
+    ctx,
+    provider,
+    submitter,
+    wallet,
+    coordinatorKeys: keys.coordinatorKeys,
+    maci: new ethers.Contract(d.maciAddress, MACI_ABI, provider),
+  };
+}
+
+async function startDeployment(d: DeploymentConfig, ctx: DeploymentContext, crypto: CryptoKit, options: ProcessOptions): Promise<DeploymentRunner> {
+  const connection = await connectDeployment(d, ctx, crypto, options);
+  const listener = options.dryRun ? null : await startListener(d, ctx, connection.provider, crypto);
+  return {
+    ...connection,
+    listener,
+    processedPolls: new Set(),
+    failedPolls: new Map(),
+  };
+}
+
+/**
+ * Admin `retry` (POST /admin/polls/:id/retry): forget that a poll failed or
+ * was handled so the next pass takes it up again, and run that pass now.
+ * False if the poll was not blocked.
+ */
+function retryPoll(runners: DeploymentRunner[], deploymentName: string, pollId: number): boolean {
+  const r = runners.find(r => r.ctx.name === deploymentName);
+  if (!r) return false;
+  const wasFailed = r.failedPolls.delete(pollId);
+  const wasDone = r.processedPolls.delete(pollId);
+  const blocked = wasFailed || wasDone;
+  if (blocked) {
+    void runInDeployment(r.ctx, async () => log(`Poll ${pollId}: retry requested by admin`));
+    requestWake();
+  }
+  return blocked;
+}
+
+/** One pass over a deployment's polls (errors stay within this deployment) */
+async function checkDeployment(r: DeploymentRunner, crypto: CryptoKit, options: ProcessOptions): Promise<void> {
+  const { maci, provider, submitter, wallet, processedPolls, failedPolls } = r;
+  const { status } = r.ctx;
+  try {
+    const nextPollId = Number(await retryRpc(() => maci.nextPollId()));
+    if (nextPollId === 0) {
+      log('No polls deployed yet. Waiting...');
+      return;
+    }
+
+    // Incremental: only blocks since the last cycle are fetched
+    const pollMap = await fetchDeployPolls(maci, provider, r.config.deployBlock);
+
+    log(`Checking ${nextPollId} poll(s)...`);
+    const balance = await retryRpc(() => provider.getBalance(wallet));
+    status.setWallet(wallet, balance);
+    if (!options.dryRun) await checkBalance(wallet, balance);
+
+    for (let i = 0; i < nextPollId; i++) {
+      if (processedPolls.has(i)) continue;
+      const fc = failedPolls.get(i) ?? 0;
+      if (fc >= MAX_RETRIES) continue; // permanently failed, stop retrying
+
+      const addrs = pollMap.get(i);
+      if (!addrs) {
+        log(`  Poll ${i}: no deploy event (skipping)`);
+        continue;
+      }
+
+      const poll = new ethers.Contract(addrs.poll, POLL_ABI, provider);
+
+      const isOpen = await retryRpc(() => poll.isVotingOpen());
+      if (isOpen) {
+        const [deployTime, duration] = await poll.getDeployTimeAndDuration();
+        const endTime = Number(deployTime) + Number(duration);
+        const remaining = endTime - Math.floor(Date.now() / 1000);
+        if (remaining > 0) {
+          const mins = Math.floor(remaining / 60);
+          const secs = remaining % 60;
+          log(`  Poll ${i}: voting open (${mins}m ${secs}s remaining)`);
+        } else {
+          log(`  Poll ${i}: voting should be closed but isVotingOpen()=true`);
+        }
+        status.setPhase(i, 'voting');
+        continue;
+      }
+
+      // Check finalized
+      const tally = new ethers.Contract(addrs.tally, TALLY_ABI, provider);
+      try {
+        const verified = await tally.tallyVerified();
+        if (verified) {
+          log(`  Poll ${i}: finalized ✓`);
+          status.setPhase(i, 'finalized');
+          restoreTallyArtifact(String(maci.target), i);
+          processedPolls.add(i);
+          continue;
+        }
+      } catch {
+        // tallyVerified might revert if not yet processed
+      }
+
+      // This poll needs processing!
+      try {
+        await processPoll(i, addrs, maci, provider, submitter, r.coordinatorKeys, crypto, r.config.deployBlock, options);
+        processedPolls.add(i);
+      } catch (err) {
+        const newCount = (failedPolls.get(i) ?? 0) + 1;
+        failedPolls.set(i, newCount);
+        const errMsg = (err as Error).message?.slice(0, 120) ?? 'unknown';
+        status.recordFailure(i, newCount, errMsg);
+        await notify({
+          kind: 'pollFailed',
+          pollId: i,
+          error: errMsg.replace(/0x[a-fA-F0-9]{40,}/g, '[REDACTED]'),
+          permanent: newCount >= MAX_RETRIES,
+          attempts: newCount,
+        });
+        if (newCount >= MAX_RETRIES) {
+          log(`  ✗ Poll ${i} permanently failed (${newCount}/${MAX_RETRIES}): ${(err as Error).message?.slice(0, 120)}`);
+          log(`    → Will not retry. Create a new poll to continue.`);
+        } else {
+          log(`  ✗ Poll ${i} failed (${newCount}/${MAX_RETRIES}): ${(err as Error).message?.slice(0, 150)}`);
+        }
+      }
+    }
+  } catch (err) {
+    const errMsg = (err as Error).message ?? '';
+    log(`Loop error: ${errMsg.slice(0, 100)}`);
+    if (errMsg.includes('ECONNRESET') || errMsg.includes('ETIMEDOUT')) {
+      log('Network error detected. Waiting 10s before retry...');
+      await new Promise(r => setTimeout(r, 10_000));
+    }
+  }
+}
+
 async function main() {
+  const options: ProcessOptions = { dryRun: process.argv.includes('--dry-run'), prove: process.argv.includes('--prove') };
+
   console.log('');
   console.log('  ╔═══════════════════════════════════════╗');
   console.log('  ║   SIGIL Coordinator Auto-Runner       ║');
@@ -1139,144 +1422,75 @@ async function main() {
   console.log('  ╚═══════════════════════════════════════╝');
   console.log('');
 
-  // Verify circuit files exist
-  for (const f of [MP_WASM, MP_ZKEY, TV_WASM, TV_ZKEY]) {
-    if (!existsSync(f)) {
+  const deployments = loadDeployments();
+  const contexts = deploymentContexts(deployments);
+
+  // Verify the default profiles exist and have their circuit files
+  const circuits = circuitRegistry();
+  log(`Circuit profiles: ${circuits.names().join(', ')}`);
+  for (const name of new Set(contexts.map(c => c.circuitProfile))) {
+    for (const f of circuits.missingFiles(circuits.require(name))) {
       console.warn(`  ⚠ Circuit file not found: ${f}`);
     }
   }
 
-  const config = loadConfig();
-  log(`Circuit mode: ${CIRCUIT_MODE} (depth=${STATE_TREE_DEPTH}, batch=${BATCH_SIZE}, maxVoters=${5 ** STATE_TREE_DEPTH - 1})`);
-  log(`RPC: ${config.rpcUrl}`);
-  log(`MACI: ${config.maciAddress}`);
+  if (options.dryRun) log(`DRY RUN${options.prove ? ' (with proofs)' : ''}: no transactions will be sent`);
+  log(`Prover: ${prover().name} (concurrency=${PROOF_CONCURRENCY})`);
+  if (DEPLOYMENTS_FILE) log(`Deployments: ${deployments.map(d => d.name).join(', ')} (${DEPLOYMENTS_FILE})`);
 
-  const provider = new ethers.JsonRpcProvider(config.rpcUrl);
-  const signer = new ethers.Wallet(config.privateKey, provider);
-  log(`Coordinator wallet: ${signer.address}`);
+  // Filled below; the admin endpoint only sees deployments that started
+  const runners: DeploymentRunner[] = [];
 
-  const balance = await provider.getBalance(signer.address);
-  log(`Balance: ${ethers.formatEther(balance)} ETH`);
+  if (STATUS_PORT > 0 && !options.dryRun) {
+    const byName = Object.fromEntries(contexts.filter(c => c.name).map(c => [c.name, c.status]));
+    const admin = ADMIN_TOKEN
+      ? { token: ADMIN_TOKEN, retryPoll: (name: string | null, pollId: number) => retryPoll(runners, name ?? contexts[0].name, pollId) }
+      : undefined;
+    await startStatusServer(status, STATUS_PORT, STATUS_HOST, byName, admin);
+    log(`Status server: http://${STATUS_HOST}:${STATUS_PORT}/status (metrics: /metrics${admin ? ', admin enabled' : ''})`);
+  }
 
   log('Initializing cryptographic modules...');
   const crypto = await initCrypto();
   log('Crypto ready.\n');
 
-  const maci = new ethers.Contract(config.maciAddress, MACI_ABI, provider);
-
-  // Fetch DeployPoll events once (cache)
-  const deployFilter = maci.filters.DeployPoll();
-  let deployEvents = await retryRpc(() => maci.queryFilter(deployFilter, config.deployBlock));
-  let lastDeployFetch = Date.now();
-
-  // Track processed polls to avoid re-processing
-  const processedPolls = new Set<number>();
-  // Track polls that permanently failed (e.g. EdDSA sig mismatch) — stop retrying
-  const failedPolls = new Map<number, number>(); // pollId → failCount
-  const MAX_RETRIES = 2;
-
-  while (true) {
+  // A deployment that can't start (bad RPC, missing key) is skipped, not fatal,
+  // unless it is the only one
+  for (let i = 0; i < deployments.length; i++) {
+    const ctx = contexts[i];
     try {
-      const nextPollId = Number(await retryRpc(() => maci.nextPollId()));
-      if (nextPollId === 0) {
-        log('No polls deployed yet. Waiting...');
-      } else {
-        // Refresh deploy events periodically
-        if (Date.now() - lastDeployFetch > 60_000) {
-          deployEvents = await retryRpc(() => maci.queryFilter(deployFilter, config.deployBlock));
-          lastDeployFetch = Date.now();
-        }
+      runners.push(await runInDeployment(ctx, () => startDeployment(deployments[i], ctx, crypto, options)));
+    } catch (err) {
+      if (deployments.length === 1) throw err;
+      await runInDeployment(ctx, async () => log(`✗ Deployment disabled: ${(err as Error).message?.slice(0, 120)?.replace(/0x[a-fA-F0-9]{40,}/g, '[REDACTED]')}`));
+    }
+  }
+  if (runners.length === 0) throw new Error('No deployment could be started');
 
-        const pollMap = new Map<number, PollAddresses>();
-        for (const ev of deployEvents) {
-          if ('args' in ev) {
-            const a = ev.args as any;
-            pollMap.set(Number(a.pollId), {
-              poll: a.pollAddr,
-              mp: a.messageProcessorAddr,
-              tally: a.tallyAddr,
-            });
-          }
-        }
+  while (true) {
+    for (const r of runners) {
+      await runInDeployment(r.ctx, () => checkDeployment(r, crypto, options));
+    }
 
-        log(`Checking ${nextPollId} poll(s)...`);
-
-        for (let i = 0; i < nextPollId; i++) {
-          if (processedPolls.has(i)) continue;
-          const fc = failedPolls.get(i) ?? 0;
-          if (fc >= MAX_RETRIES) continue; // permanently failed, stop retrying
-
-          const addrs = pollMap.get(i);
-          if (!addrs) {
-            log(`  Poll ${i}: no deploy event (skipping)`);
-            continue;
-          }
-
-          const poll = new ethers.Contract(addrs.poll, POLL_ABI, provider);
-
-          const isOpen = await retryRpc(() => poll.isVotingOpen());
-          if (isOpen) {
-            const [deployTime, duration] = await poll.getDeployTimeAndDuration();
-            const endTime = Number(deployTime) + Number(duration);
-            const remaining = endTime - Math.floor(Date.now() / 1000);
-            if (remaining > 0) {
-              const mins = Math.floor(remaining / 60);
-              const secs = remaining % 60;
-              log(`  Poll ${i}: voting open (${mins}m ${secs}s remaining)`);
-            } else {
-              log(`  Poll ${i}: voting should be closed but isVotingOpen()=true`);
-            }
-            continue;
-          }
-
-          // Check finalized
-          const tally = new ethers.Contract(addrs.tally, TALLY_ABI, provider);
-          try {
-            const verified = await tally.tallyVerified();
-            if (verified) {
-              log(`  Poll ${i}: finalized ✓`);
-              processedPolls.add(i);
-              continue;
-            }
-          } catch {
-            // tallyVerified might revert if not yet processed
-          }
-
-          // This poll needs processing!
-          try {
-            await processPoll(i, addrs, maci, provider, signer, config.coordinatorSk, crypto, config.deployBlock);
-            processedPolls.add(i);
-          } catch (err) {
-            const newCount = (failedPolls.get(i) ?? 0) + 1;
-            failedPolls.set(i, newCount);
-            if (newCount >= MAX_RETRIES) {
-              log(`  ✗ Poll ${i} permanently failed (${newCount}/${MAX_RETRIES}): ${(err as Error).message?.slice(0, 120)}`);
-              log(`    → Will not retry. Create a new poll to continue.`);
-            } else {
-              log(`  ✗ Poll ${i} failed (${newCount}/${MAX_RETRIES}): ${(err as Error).message?.slice(0, 150)}`);
-            }
-          }
-        }
-      }
-    } catch (err) {
-      const errMsg = (err as Error).message ?? '';
-      log(`Loop error: ${errMsg.slice(0, 100)}`);
-      if (errMsg.includes('ECONNRESET') || errMsg.includes('ETIMEDOUT')) {
-        log('Network error detected. Waiting 10s before retry...');
-        await new Promise(r => setTimeout(r, 10_000));
-        continue;
-      }
+    if (options.dryRun) {
+      log('Dry run complete.');
+      return;
     }
 
-    log(`\nNext check in ${POLL_CHECK_INTERVAL / 1000}s...\n`);
-    await new Promise(r => setTimeout(r, POLL_CHECK_INTERVAL));
+    if (runners.every(r => r.listener)) {
+      log(`\nWaiting for a poll to end (recheck in ${IDLE_RECHECK_INTERVAL / 1000}s)...\n`);
+      await sleepUntilWake(IDLE_RECHECK_INTERVAL);
+    } else {
+      log(`\nNext check in ${POLL_CHECK_INTERVAL / 1000}s...\n`);
+      await sleepUntilWake(POLL_CHECK_INTERVAL);
+    }
   }
 }
 
 // Only auto-run when executed directly (not when imported as a module)
 const isDirectRun = process.argv[1]?.endsWith('run.ts') || process.argv[1]?.endsWith('run.js');
 if (isDirectRun) {
-  main().catch(err => {
+  main().then(() => process.exit(0)).catch(err => {
     // Sanitize fatal errors — never log raw stack or private keys
     const errMsg = (err as Error).message?.slice(0, 120)?.replace(/0x[a-fA-F0-9]{40,}/g, '[REDACTED]') ?? 'unknown';
     console.error(`Fatal error: ${errMsg}`);
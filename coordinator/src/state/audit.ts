@@ -0,0 +1,146 @@
+/**
+ * Message Processing Audit Log
+ *
+ * One record per processed message: index, batch, claimed state index, the
+ * decrypted command and every check it failed. Invalid messages are routed
+ * to the blank leaf on-chain with no trace, so this file is the only place
+ * an operator (or a voter asking "why didn't my vote count?") can find out.
+ *
+ * COORDINATOR-PRIVATE: records hold decrypted commands, i.e. who voted for
+ * what. Files are written 0600 and must never be published with tally.json.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { MessageOutcome, MessageRejection } from '../processing/processMessages.js';
+
+const AUDIT_VERSION = 1;
+
+export interface AuditRecord {
+  messageIndex: number;
+  batch: number;
+  stateIndex: string;
+  valid: boolean;
+  reasons: MessageRejection[];
+  command: {
+    voteOptionIndex: string;
+    newVoteWeight: string;
+    nonce: string;
+    pollId: string;
+    newPubKeyX: string;
+    newPubKeyY: string;
+  };
+}
+
+export interface PollAudit {
+  version: number;
+  maciAddress: string;
+  pollId: number;
+  generatedAt: number;
+  records: AuditRecord[];     // ascending messageIndex
+}
+
+export const REJECTION_LABELS: Record<MessageRejection, string> = {
+  'decrypt-failed': 'decryption failed (auth tag mismatch)',
+  'bad-signature': 'signature does not match the voter key',
+  'bad-state-index': 'state index out of range',
+  'bad-nonce': 'wrong nonce',
+  'insufficient-credits': 'insufficient voice credits',
+  'bad-vote-option': 'vote option out of range',
+};
+
+export function buildAuditRecords(outcomes: MessageOutcome[]): AuditRecord[] {
+  return outcomes
+    .map((o) => ({
+      messageIndex: o.messageIndex,
+      batch: o.batch,
+      stateIndex: o.command.stateIndex.toString(),
+      valid: o.valid,
+      reasons: o.reasons,
+      command: {
+        voteOptionIndex: o.command.voteOptionIndex.toString(),
+        newVoteWeight: o.command.newVoteWeight.toString(),
+        nonce: o.command.nonce.toString(),
+        pollId: o.command.pollId.toString(),
+        newPubKeyX: o.command.newPubKeyX.toString(),
+        newPubKeyY: o.command.newPubKeyY.toString(),
+      },
+    }))
+    .sort((a, b) => a.messageIndex - b.messageIndex);
+}
+
+function shorten(v: string, n = 10): string {
+  return v.length > n ? `${v.slice(0, n)}…` : v;
+}
+
+/** Plain-text table, one row per message (used by `diagnose audit`) */
+export function formatAuditTable(audit: PollAudit): string {
+  const header = ['msg', 'batch', 'state', 'option', 'weight', 'nonce', 'newPubKeyX', 'result'];
+  const rows = audit.records.map((r) => {
+    // Fields of an undecryptable message are meaningless zeros
+    const decrypted = !r.reasons.includes('decrypt-failed');
+    const field = (v: string) => (decrypted ? v : '-');
+    return [
+      String(r.messageIndex),
+      String(r.batch),
+      field(r.stateIndex),
+      field(r.command.voteOptionIndex),
+      field(r.command.newVoteWeight),
+      field(r.command.nonce),
+      field(shorten(r.command.newPubKeyX)),
+      r.valid ? 'VALID' : `INVALID: ${r.reasons.map((x) => REJECTION_LABELS[x]).join('; ')}`,
+    ];
+  });
+
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((row) => row[i].length)));
+  const line = (cells: string[]) => cells.map((c, i) => (i === cells.length - 1 ? c : c.padEnd(widths[i]))).join('  ');
+
+  const valid = audit.records.filter((r) => r.valid).length;
+  return [
+    line(header),
+    line(widths.map((w) => '-'.repeat(w))),
+    ...rows.map(line),
+    '',
+    `${audit.records.length} message(s): ${valid} valid, ${audit.records.length - valid} invalid`,
+  ].join('\n');
+}
+
+// ─── Store ───────────────────────────────────────────────────────────
+
+export class AuditLogStore {
+  readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  pathFor(maciAddress: string, pollId: number): string {
+    return join(this.dir, `${maciAddress.toLowerCase()}-poll-${pollId}-audit.json`);
+  }
+
+  /** Overwrite the poll's audit log (re-processing yields the same records) */
+  write(maciAddress: string, pollId: number, outcomes: MessageOutcome[]): PollAudit {
+    const audit: PollAudit = {
+      version: AUDIT_VERSION,
+      maciAddress,
+      pollId,
+      generatedAt: Date.now(),
+      records: buildAuditRecords(outcomes),
+    };
+    mkdirSync(this.dir, { recursive: true, mode: 0o700 });
+    const path = this.pathFor(maciAddress, pollId);
+    const tmp = `${path}.tmp`;
+    writeFileSync(tmp, JSON.stringify(audit, null, 2), { mode: 0o600 });
+    renameSync(tmp, path);
+    return audit;
+  }
+
+  /** Null if the poll has not been processed on this host */
+  load(maciAddress: string, pollId: number): PollAudit | null {
+    const path = this.pathFor(maciAddress, pollId);
+    if (!existsSync(path)) return null;
+    const audit = JSON.parse(readFileSync(path, 'utf8')) as PollAudit;
+    if (audit.version !== AUDIT_VERSION) throw new Error(`Unsupported audit log version ${audit.version}: ${path}`);
+    return audit;
+  }
+}
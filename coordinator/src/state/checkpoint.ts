@@ -0,0 +1,139 @@
+/**
+ * Poll Checkpoint Store
+ *
+ * Persists per-poll processing progress to disk so a crashed runner can
+ * resume instead of restarting from scratch:
+ *   - fetched SignUp / MessagePublished events (stable once AccQueues merge)
+ *   - per-batch roots and commitments (processMessages + tallyVotes)
+ *   - generated proofs and submitted tx hashes
+ *   - the published tally.json's hash and upload URI
+ *
+ * One JSON file per (MACI, poll). Writes are atomic (tmp file + rename).
+ * The chain stays the source of truth: on restart the runner reads
+ * currentStateCommitment() / tallyCommitment() and only uses the checkpoint
+ * to skip work (re-fetching events, re-generating proofs).
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { EncryptedMessage, StateLeaf } from '../processing/processMessages.js';
+import type { ProofResult } from '../processing/batchProof.js';
+
+const CHECKPOINT_VERSION = 1;
+
+export interface ProcessBatchCheckpoint {
+  batch: number;               // 1-based, matches runner log output
+  messageIndices: number[];
+  newStateCommitment: bigint;
+  outputStateRoot: bigint;
+  outputBallotRoot: bigint;
+  proof?: ProofResult;
+  txHash?: string;
+}
+
+export interface TallyBatchCheckpoint {
+  batch: number;               // 1-based
+  newTallyCommitment: bigint;
+  proof?: ProofResult;
+  txHash?: string;
+}
+
+export interface PollCheckpoint {
+  version: number;
+  maciAddress: string;
+  pollId: number;
+  events?: {
+    stateLeaves: StateLeaf[];
+    messages: EncryptedMessage[];
+  };
+  processBatches: ProcessBatchCheckpoint[];
+  processingCompleteTx?: string;
+  tallyBatches: TallyBatchCheckpoint[];
+  publishTx?: string;
+  // tally.json written after publishing (file: tallyArtifactFileName), so a restart can serve it again
+  tallyArtifact?: { hash: string; uri: string | null };
+  updatedAt: number;
+}
+
+// ─── (De)serialization ───────────────────────────────────────────────
+
+// bigint → "123n" so field elements survive a JSON round-trip
+function replacer(_key: string, value: unknown): unknown {
+  return typeof value === 'bigint' ? `${value.toString()}n` : value;
+}
+
+function reviver(_key: string, value: unknown): unknown {
+  if (typeof value === 'string' && /^-?\d+n$/.test(value)) {
+    return BigInt(value.slice(0, -1));
+  }
+  return value;
+}
+
+export function serializeCheckpoint(cp: PollCheckpoint): string {
+  return JSON.stringify(cp, replacer, 2);
+}
+
+export function deserializeCheckpoint(json: string): PollCheckpoint {
+  return JSON.parse(json, reviver) as PollCheckpoint;
+}
+
+// ─── Store ───────────────────────────────────────────────────────────
+
+export class CheckpointStore {
+  readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  private pathFor(maciAddress: string, pollId: number): string {
+    return join(this.dir, `${maciAddress.toLowerCase()}-poll-${pollId}.json`);
+  }
+
+  /**
+   * Load the checkpoint for a poll, or a fresh empty one.
+   * A corrupt or version-mismatched file is ignored (treated as empty).
+   */
+  load(maciAddress: string, pollId: number): PollCheckpoint {
+    const path = this.pathFor(maciAddress, pollId);
+    if (existsSync(path)) {
+      try {
+        const cp = deserializeCheckpoint(readFileSync(path, 'utf8'));
+        if (cp.version === CHECKPOINT_VERSION && cp.pollId === pollId) return cp;
+      } catch {
+        // fall through to a fresh checkpoint
+      }
+    }
+    return {
+      version: CHECKPOINT_VERSION,
+      maciAddress,
+      pollId,
+      processBatches: [],
+      tallyBatches: [],
+      updatedAt: Date.now(),
+    };
+  }
+
+  save(cp: PollCheckpoint): void {
+    mkdirSync(this.dir, { recursive: true });
+    cp.updatedAt = Date.now();
+    const path = this.pathFor(cp.maciAddress, cp.pollId);
+    const tmp = `${path}.tmp`;
+    writeFileSync(tmp, serializeCheckpoint(cp));
+    renameSync(tmp, path);
+  }
+
+  clear(maciAddress: string, pollId: number): void {
+    rmSync(this.pathFor(maciAddress, pollId), { force: true });
+  }
+}
+
+/** Insert or replace the record for `batch` (keeps the list sorted). */
+export function upsertBatch<T extends { batch: number }>(list: T[], entry: T): void {
+  const idx = list.findIndex((b) => b.batch === entry.batch);
+  if (idx >= 0) list[idx] = entry;
+  else {
+    list.push(entry);
+    list.sort((a, b) => a.batch - b.batch);
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Coordinator Status HTTP Server
+ *
+ * JSON + Prometheus endpoints over a StatusTracker:
+ *   GET /healthz              → { ok: true }
+ *   GET /status               → runner snapshot (wallet, all polls)
+ *   GET /status/polls/:id     → one poll (404 if the runner hasn't seen it)
+ *   GET /status/polls/:id/tally.json → published tally artifact
+ *   GET /metrics              → Prometheus text format
+ *
+ * With an admin token configured (ADMIN_TOKEN), runner control for the
+ * admin CLI, authorized with `Authorization: Bearer <token>`:
+ *   POST /admin/polls/:id/retry → clear the poll's failure block ({ retried })
+ *
+ * A runner servicing several deployments (DEPLOYMENTS_FILE) serves the
+ * first one at the paths above and every one under /deployments/<name>/…
+ * (GET /deployments lists the names).
+ *
+ * CORS is open so the frontend can poll it directly. Binds 127.0.0.1 by
+ * default: anyone who can reach the port sees the wallet, its balance and
+ * every poll, and the admin token is sent in the clear, so only listen on a
+ * public interface (STATUS_HOST) behind a TLS proxy.
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { readFile } from 'fs/promises';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { StatusTracker } from './tracker.js';
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Cache-Control': 'no-store',
+  });
+  res.end(JSON.stringify(body));
+}
+
+/** Runner hooks behind POST /admin/*; `deployment` is null for the default one */
+export interface StatusAdmin {
+  token: string;
+  retryPoll(deployment: string | null, pollId: number): boolean;
+}
+
+function authorized(req: IncomingMessage, token: string): boolean {
+  const given = Buffer.from(req.headers.authorization ?? '');
+  const expected = Buffer.from(`Bearer ${token}`);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+export function createStatusServer(
+  defaultTracker: StatusTracker,
+  deployments: Record<string, StatusTracker> = {},
+  admin?: StatusAdmin,
+): Server {
+  return createServer((req: IncomingMessage, res: ServerResponse) => {
+    let path = (req.url ?? '/').split('?')[0].replace(/\/+$/, '') || '/';
+    let tracker = defaultTracker;
+    let deployment: string | null = null;
+
+    if (path === '/deployments') {
+      sendJson(res, 200, { deployments: Object.keys(deployments) });
+      return;
+    }
+    const d = path.match(/^\/deployments\/([^/]+)(\/.*)?$/);
+    if (d) {
+      if (!Object.hasOwn(deployments, d[1])) {
+        sendJson(res, 404, { error: `Unknown deployment: ${d[1]}` });
+        return;
+      }
+      tracker = deployments[d[1]];
+      deployment = d[1];
+      path = d[2] ?? '/';
+    }
+
+    if (path.startsWith('/admin/')) {
+      if (!admin) {
+        sendJson(res, 404, { error: 'Admin endpoints disabled (ADMIN_TOKEN not set)' });
+        return;
+      }
+      if (req.method !== 'POST') {
+        sendJson(res, 405, { error: 'Method not allowed' });
+        return;
+      }
+      if (!authorized(req, admin.token)) {
+        sendJson(res, 401, { error: 'Unauthorized' });
+        return;
+      }
+      const r = path.match(/^\/admin\/polls\/(\d+)\/retry$/);
+      if (r) {
+        sendJson(res, 200, { pollId: Number(r[1]), retried: admin.retryPoll(deployment, Number(r[1])) });
+        return;
+      }
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (req.method !== 'GET') {
+      sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    if (path === '/healthz') {
+      sendJson(res, 200, { ok: true });
+      return;
+    }
+    if (path === '/status') {
+      sendJson(res, 200, tracker.snapshot());
+      return;
+    }
+    const m = path.match(/^\/status\/polls\/(\d+)$/);
+    if (m) {
+      const poll = tracker.getPoll(Number(m[1]));
+      if (poll) sendJson(res, 200, poll);
+      else sendJson(res, 404, { error: `Poll ${m[1]} not tracked` });
+      return;
+    }
+    const a = path.match(/^\/status\/polls\/(\d+)\/tally\.json$/);
+    if (a) {
+      const file = tracker.getArtifactFile(Number(a[1]));
+      if (!file) {
+        sendJson(res, 404, { error: `No tally artifact for poll ${a[1]}` });
+        return;
+      }
+      readFile(file).then(
+        (content) => {
+          res.writeHead(200, {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+          });
+          res.end(content);
+        },
+        () => sendJson(res, 404, { error: `No tally artifact for poll ${a[1]}` }),
+      );
+      return;
+    }
+    if (path === '/metrics') {
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' });
+      res.end(tracker.toPrometheus());
+      return;
+    }
+
+    sendJson(res, 404, { error: 'Not found' });
+  });
+}
+
+/** Start listening; resolves once the port is bound. */
+export function startStatusServer(
+  tracker: StatusTracker,
+  port: number,
+  host = '127.0.0.1',
+  deployments: Record<string, StatusTracker> = {},
+  admin?: StatusAdmin,
+): Promise<Server> {
+  const server = createStatusServer(tracker, deployments, admin);
+  return new Promise((resolvePromise, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolvePromise(server);
+    });
+  });
+}
@@ -0,0 +1,198 @@
+/**
+ * Coordinator Status Tracker
+ *
+ * In-memory view of what the auto-runner is doing, fed by run.ts and
+ * served by the status HTTP server:
+ *   - per-poll phase (one of the 7 pipeline steps)
+ *   - current batch N/M for processMessages / tallyVotes
+ *   - proof generation durations
+ *   - failure counts (mirrors the runner's failedPolls map)
+ *   - published tally artifact hash / URI
+ *   - coordinator wallet balance
+ */
+
+export type PollPhase =
+  | 'voting'
+  | 'merging'        // [1/7]
+  | 'fetching'       // [2/7]
+  | 'processing'     // [3-5/7]
+  | 'tallying'       // [6/7]
+  | 'publishing'     // [7/7]
+  | 'finalized'
+  | 'failed';
+
+const PHASE_STEP: Record<PollPhase, number> = {
+  voting: 0,
+  merging: 1,
+  fetching: 2,
+  processing: 3,
+  tallying: 6,
+  publishing: 7,
+  finalized: 7,
+  failed: 0,
+};
+
+export type ProofKind = 'process' | 'tally';
+
+export interface BatchProgress {
+  kind: ProofKind;
+  current: number;
+  total: number;
+}
+
+export interface TallyArtifactRef {
+  hash: string;                // sha256 of tally.json
+  uri: string | null;          // content-addressed URI when an uploader is configured
+}
+
+export interface PollStatusSnapshot {
+  pollId: number;
+  phase: PollPhase;
+  step: number;
+  totalSteps: 7;
+  batch: BatchProgress | null;
+  proofDurationsMs: Record<ProofKind, number[]>;
+  failures: number;
+  lastError: string | null;
+  artifact: TallyArtifactRef | null;
+  updatedAt: number;
+}
+
+export interface CoordinatorStatusSnapshot {
+  startedAt: number;
+  wallet: { address: string; balanceWei: string } | null;
+  polls: PollStatusSnapshot[];
+}
+
+export class StatusTracker {
+  private readonly startedAt = Date.now();
+  private polls = new Map<number, PollStatusSnapshot>();
+  private wallet: { address: string; balanceWei: bigint } | null = null;
+  private artifactFiles = new Map<number, string>();
+
+  private entry(pollId: number): PollStatusSnapshot {
+    let s = this.polls.get(pollId);
+    if (!s) {
+      s = {
+        pollId,
+        phase: 'voting',
+        step: 0,
+        totalSteps: 7,
+        batch: null,
+        proofDurationsMs: { process: [], tally: [] },
+        failures: 0,
+        lastError: null,
+        artifact: null,
+        updatedAt: Date.now(),
+      };
+      this.polls.set(pollId, s);
+    }
+    return s;
+  }
+
+  setPhase(pollId: number, phase: PollPhase): void {
+    const s = this.entry(pollId);
+    s.phase = phase;
+    s.step = PHASE_STEP[phase];
+    if (phase !== 'processing' && phase !== 'tallying') s.batch = null;
+    s.updatedAt = Date.now();
+  }
+
+  setBatch(pollId: number, kind: ProofKind, current: number, total: number): void {
+    const s = this.entry(pollId);
+    s.batch = { kind, current, total };
+    // Steps 4 (prove) / 5 (submit) happen inside the processing loop
+    if (kind === 'process') s.step = current > 0 ? 4 : 3;
+    s.updatedAt = Date.now();
+  }
+
+  recordProof(pollId: number, kind: ProofKind, durationMs: number): void {
+    const s = this.entry(pollId);
+    s.proofDurationsMs[kind].push(durationMs);
+    s.updatedAt = Date.now();
+  }
+
+  recordFailure(pollId: number, failures: number, error: string): void {
+    const s = this.entry(pollId);
+    s.failures = failures;
+    s.lastError = error;
+    s.phase = 'failed';
+    s.batch = null;
+    s.updatedAt = Date.now();
+  }
+
+  setArtifact(pollId: number, artifact: TallyArtifactRef, filePath: string): void {
+    const s = this.entry(pollId);
+    s.artifact = artifact;
+    this.artifactFiles.set(pollId, filePath);
+    s.updatedAt = Date.now();
+  }
+
+  /** Local tally.json path for the status server (not part of the snapshot) */
+  getArtifactFile(pollId: number): string | null {
+    return this.artifactFiles.get(pollId) ?? null;
+  }
+
+  setWallet(address: string, balanceWei: bigint): void {
+    this.wallet = { address, balanceWei };
+  }
+
+  getPoll(pollId: number): PollStatusSnapshot | null {
+    const s = this.polls.get(pollId);
+    return s ? structuredClone(s) : null;
+  }
+
+  snapshot(): CoordinatorStatusSnapshot {
+    return {
+      startedAt: this.startedAt,
+      wallet: this.wallet
+        ? { address: this.wallet.address, balanceWei: this.wallet.balanceWei.toString() }
+        : null,
+      polls: [...this.polls.values()]
+        .sort((a, b) => a.pollId - b.pollId)
+        .map((s) => structuredClone(s)),
+    };
+  }
+
+  /** Prometheus text exposition format (v0.0.4) */
+  toPrometheus(): string {
+    const lines: string[] = [];
+    const metric = (name: string, type: string, help: string, samples: string[]) => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, ...samples);
+    };
+
+    metric('sigil_coordinator_uptime_seconds', 'gauge', 'Seconds since the runner started',
+      [`sigil_coordinator_uptime_seconds ${Math.floor((Date.now() - this.startedAt) / 1000)}`]);
+
+    if (this.wallet) {
+      metric('sigil_coordinator_wallet_balance_wei', 'gauge', 'Coordinator wallet balance in wei',
+        [`sigil_coordinator_wallet_balance_wei{address="${this.wallet.address}"} ${this.wallet.balanceWei}`]);
+    }
+
+    const polls = [...this.polls.values()].sort((a, b) => a.pollId - b.pollId);
+    metric('sigil_poll_step', 'gauge', 'Current pipeline step (0-7) per poll',
+      polls.map((p) => `sigil_poll_step{poll="${p.pollId}",phase="${p.phase}"} ${p.step}`));
+    metric('sigil_poll_batch_current', 'gauge', 'Current proof batch per poll',
+      polls.filter((p) => p.batch).map((p) => `sigil_poll_batch_current{poll="${p.pollId}",kind="${p.batch!.kind}"} ${p.batch!.current}`));
+    metric('sigil_poll_batch_total', 'gauge', 'Total proof batches per poll',
+      polls.filter((p) => p.batch).map((p) => `sigil_poll_batch_total{poll="${p.pollId}",kind="${p.batch!.kind}"} ${p.batch!.total}`));
+    metric('sigil_poll_failures_total', 'counter', 'Failed processing attempts per poll',
+      polls.map((p) => `sigil_poll_failures_total{poll="${p.pollId}"} ${p.failures}`));
+
+    const proofSamples: string[] = [];
+    for (const p of polls) {
+      for (const kind of ['process', 'tally'] as const) {
+        const d = p.proofDurationsMs[kind];
+        if (d.length === 0) continue;
+        const sum = d.reduce((a, b) => a + b, 0) / 1000;
+        proofSamples.push(
+          `sigil_proof_duration_seconds_sum{poll="${p.pollId}",kind="${kind}"} ${sum}`,
+          `sigil_proof_duration_seconds_count{poll="${p.pollId}",kind="${kind}"} ${d.length}`,
+        );
+      }
+    }
+    metric('sigil_proof_duration_seconds', 'summary', 'Groth16 proof generation time', proofSamples);
+
+    return lines.join('\n') + '\n';
+  }
+}
@@ -18,4 +18,16 @@ declare module 'snarkjs' {
       proof: any,
     ): Promise<boolean>;
   }
+
+  export namespace zKey {
+    function exportVerificationKey(zkeyName: string): Promise<any>;
+  }
+
+  export namespace wtns {
+    function calculate(
+      input: Record<string, any>,
+      wasmFile: string,
+      wtnsFile: string,
+    ): Promise<void>;
+  }
 }
@@ -0,0 +1,218 @@
+#!/usr/bin/env tsx
+/**
+ * Tally verification CLI: audit a finalized poll without trusting the coordinator
+ *
+ * Usage: cd coordinator && npx tsx src/verify.ts <pollId> [tally.json path or URL] [--allow-skip]
+ *   default artifact: $TALLY_ARTIFACT_DIR/<maci>-poll-<id>-tally.json
+ *
+ * Only needs SEPOLIA_RPC_URL / MACI_ADDRESS (no keys). Checks:
+ *   - results / perOptionSpent leaves hash to the published roots
+ *   - poseidon(tallyResultsRoot, totalSpent, perOptionSpentRoot) == Tally.tallyCommitment()
+ *   - on-chain for/against/abstain == results leaves [1] / [0] / [2]
+ *   - message root rebuilt from MessagePublished events == Poll message AccQueue root
+ *   - batch commitment chains end at the on-chain MessageProcessor / Tally values
+ *   - every Groth16 batch proof verifies with the poll's verifying keys: its
+ *     VkRegistry entry, else a local profile's key that the deployed verifier
+ *     has inlined (the artifact's own circuit name is never trusted)
+ *
+ * Exits 1 if any check fails, or was skipped (missing proof or key) unless
+ * --allow-skip is given.
+ */
+import { ethers } from 'ethers';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { circuitRegistry, loadChainConfig, fetchDeployPolls, fetchEvents, readPollCircuit, MACI_ABI, POLL_ABI, TALLY_ARTIFACT_DIR } from './run.js';
+import { vkeyFromArray } from './config/circuits.js';
+import { verifierCodeMatches } from './config/circuitArtifacts.js';
+import { initCrypto } from './crypto/kit.js';
+import { QuinaryMerkleTree } from './trees/quinaryTree.js';
+import { hashMessage } from './processing/processMessages.js';
+import { computePublicInputHash } from './processing/batchProof.js';
+import { hashTallyArtifact, tallyArtifactFileName, type TallyArtifact, type TallyArtifactBatch } from './publish/tallyArtifact.js';
+
+const READ_ABI = [
+  'function messageAq() view returns (address)',
+  'function mainRoot() view returns (uint256)',
+  'function currentStateCommitment() view returns (uint256)',
+  'function tallyCommitment() view returns (uint256)',
+  'function tallyVerified() view returns (bool)',
+  'function forVotes() view returns (uint256)',
+  'function againstVotes() view returns (uint256)',
+  'function abstainVotes() view returns (uint256)',
+  'function totalVoters() view returns (uint256)',
+];
+
+const args = process.argv.slice(2).filter(a => !a.startsWith('--'));
+const pollId = parseInt(args[0] ?? '');
+const artifactArg = args[1];
+const allowSkip = process.argv.includes('--allow-skip');
+
+let failed = 0;
+let skipped = 0;
+function check(name: string, pass: boolean, detail = '') {
+  if (!pass) failed++;
+  console.log(`  ${pass ? 'PASS' : 'FAIL'}  ${name}${detail ? `  (${detail})` : ''}`);
+}
+function skip(name: string, reason: string) {
+  skipped++;
+  console.log(`  SKIP  ${name}  (${reason})`);
+}
+
+async function loadArtifact(maciAddress: string): Promise<string> {
+  const source = artifactArg ?? join(TALLY_ARTIFACT_DIR, tallyArtifactFileName(maciAddress, pollId));
+  if (source.startsWith('ipfs://')) {
+    const res = await fetch(`https://ipfs.io/ipfs/${source.slice('ipfs://'.length)}`);
+    if (!res.ok) throw new Error(`Artifact fetch failed: HTTP ${res.status}`);
+    return res.text();
+  }
+  if (/^https?:\/\//.test(source)) {
+    const res = await fetch(source);
+    if (!res.ok) throw new Error(`Artifact fetch failed: HTTP ${res.status}`);
+    return res.text();
+  }
+  return readFileSync(source, 'utf8');
+}
+
+async function main() {
+  if (Number.isNaN(pollId)) {
+    console.log('Usage: npx tsx src/verify.ts <pollId> [tally.json path or URL] [--allow-skip]');
+    process.exit(1);
+  }
+  console.log(`\n=== VERIFYING POLL ${pollId} ===\n`);
+
+  const config = loadChainConfig();
+  const provider = new ethers.JsonRpcProvider(config.rpcUrl);
+  const crypto = await initCrypto();
+  const maci = new ethers.Contract(config.maciAddress, MACI_ABI, provider);
+
+  const addrs = (await fetchDeployPolls(maci, provider, config.deployBlock)).get(pollId);
+  if (!addrs) { console.log('Poll not found'); process.exit(1); }
+
+  const content = await loadArtifact(config.maciAddress);
+  const artifact = JSON.parse(content) as TallyArtifact;
+  console.log(`Artifact sha256: ${hashTallyArtifact(content)}`);
+
+  // Verifying keys from the poll's contracts, not from the circuit the artifact claims
+  const { stateTreeDepth, messageTreeDepth, onchain } = await readPollCircuit(addrs, maci, provider);
+  const resolveVkey = (kind: 'processMessages' | 'tallyVotes', registryVk?: bigint[], verifierCode?: string) => {
+    if (registryVk) return { vkey: vkeyFromArray(registryVk), source: 'VkRegistry' };
+    const registry = circuitRegistry();
+    for (const name of registry.names()) {
+      const profile = registry.require(name);
+      if (profile.stateTreeDepth !== stateTreeDepth || profile.messageTreeDepth !== messageTreeDepth) continue;
+      const vk = registry.verifyingKey(profile[kind].vkey);
+      if (vk && verifierCode && verifierCodeMatches(verifierCode, vk)) {
+        return { vkey: vkeyFromArray(vk), source: `profile "${name}", inlined in the verifier` };
+      }
+    }
+    return null;
+  };
+  const mpKey = resolveVkey('processMessages', onchain.processVk, onchain.processVerifierCode);
+  const tvKey = resolveVkey('tallyVotes', onchain.tallyVk, onchain.tallyVerifierCode);
+  console.log(`Verifying keys: process ${mpKey?.source ?? 'not found'}, tally ${tvKey?.source ?? 'not found'}\n`);
+
+  const poll = new ethers.Contract(addrs.poll, [...POLL_ABI, ...READ_ABI], provider);
+  const mp = new ethers.Contract(addrs.mp, READ_ABI, provider);
+  const tally = new ethers.Contract(addrs.tally, READ_ABI, provider);
+  const messageAq = new ethers.Contract(await poll.messageAq(), READ_ABI, provider);
+
+  const numMessages = Number(await poll.numMessages());
+  const messageRoot = BigInt(await messageAq.mainRoot());
+  const stateCommitment = BigInt(await mp.currentStateCommitment());
+  const tallyCommitment = BigInt(await tally.tallyCommitment());
+  const [tallyVerified, forVotes, againstVotes, abstainVotes, totalVoters] = await Promise.all([
+    tally.tallyVerified(), tally.forVotes(), tally.againstVotes(), tally.abstainVotes(), tally.totalVoters(),
+  ]);
+  const { stateLeaves, messages } = await fetchEvents(maci, addrs.poll, provider, config.deployBlock);
+
+  const sameAddr = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+  check('artifact matches poll contracts', artifact.pollId === pollId
+    && sameAddr(artifact.contracts.poll, addrs.poll)
+    && sameAddr(artifact.contracts.messageProcessor, addrs.mp)
+    && sameAddr(artifact.contracts.tally, addrs.tally));
+
+  // Roots + commitment
+  const leaves = artifact.results.tally.map(BigInt);
+  const spent = artifact.perOptionSpent.tally.map(BigInt);
+  const totalSpent = BigInt(artifact.totalSpent);
+  const resultsRoot = crypto.quinaryTreeRoot(leaves);
+  const spentRoot = crypto.quinaryTreeRoot(spent);
+  check('results root', resultsRoot === BigInt(artifact.results.root));
+  check('perOptionSpent root', spentRoot === BigInt(artifact.perOptionSpent.root));
+  check('totalSpent', spent.reduce((a, b) => a + b, 0n) === totalSpent, `${totalSpent}`);
+
+  const commitment = crypto.hash(resultsRoot, totalSpent, spentRoot);
+  check('tally commitment', commitment === tallyCommitment && commitment === BigInt(artifact.tallyCommitment),
+    `on-chain ${tallyCommitment.toString().slice(0, 20)}...`);
+
+  // Published results (option 0 = against, 1 = for, 2 = abstain)
+  check('published results', tallyVerified
+    && BigInt(forVotes) === (leaves[1] ?? 0n)
+    && BigInt(againstVotes) === (leaves[0] ?? 0n)
+    && BigInt(abstainVotes) === (leaves[2] ?? 0n),
+    `FOR=${forVotes} AGAINST=${againstVotes} ABSTAIN=${abstainVotes}`);
+  check('voter count', BigInt(totalVoters) <= BigInt(stateLeaves.length),
+    `totalVoters=${totalVoters}, signUps=${stateLeaves.length}`);
+
+  // Message root from MessagePublished events (the engine's tree: state tree depth)
+  const msgTree = new QuinaryMerkleTree(stateTreeDepth);
+  await msgTree.init();
+  for (const msg of messages) {
+    msgTree.insert(msg.messageIndex, hashMessage(crypto, msg));
+  }
+  check('message root', msgTree.root === messageRoot && messages.length === numMessages,
+    `${messages.length} MessagePublished events, numMessages=${numMessages}`);
+
+  // Batch chains
+  const expectedProcess = Math.ceil(numMessages / artifact.circuit.messageBatchSize);
+  const lastProcess = artifact.processBatches[artifact.processBatches.length - 1];
+  check('process batches', artifact.processBatches.length === expectedProcess
+    && (lastProcess ? BigInt(lastProcess.commitment) : 0n) === stateCommitment
+    && BigInt(artifact.stateCommitment) === stateCommitment,
+    `${artifact.processBatches.length}/${expectedProcess}`);
+  const expectedTally = Math.ceil((stateLeaves.length + 1) / artifact.circuit.tallyBatchSize);
+  const lastTally = artifact.tallyBatches[artifact.tallyBatches.length - 1];
+  check('tally batches', artifact.tallyBatches.length === expectedTally
+    && (lastTally ? BigInt(lastTally.commitment) : 0n) === tallyCommitment,
+    `${artifact.tallyBatches.length}/${expectedTally}`);
+
+  // Groth16 proofs
+  const snarkjs = await import('snarkjs');
+
+  const verifyBatch = async (name: string, batch: TallyArtifactBatch, inputHash: bigint, vkey: unknown) => {
+    if (!batch.proof || !batch.publicSignals) { skip(name, 'proof not in artifact'); return; }
+    if (batch.publicSignals.length !== 1 || BigInt(batch.publicSignals[0]) !== inputHash) {
+      check(name, false, 'public signal does not match recomputed input hash');
+      return;
+    }
+    if (!vkey) { skip(name, 'no on-chain verifying key found'); return; }
+    check(name, await snarkjs.groth16.verify(vkey, [inputHash.toString()], batch.proof));
+  };
+
+  let prevState = 0n;
+  for (const b of artifact.processBatches) {
+    const next = BigInt(b.commitment);
+    await verifyBatch(`process proof #${b.batch}`, b,
+      await computePublicInputHash([prevState, next, messageRoot, BigInt(numMessages)]), mpKey?.vkey);
+    prevState = next;
+  }
+  let prevTally = 0n;
+  for (const b of artifact.tallyBatches) {
+    const next = BigInt(b.commitment);
+    await verifyBatch(`tally proof #${b.batch}`, b,
+      await computePublicInputHash([stateCommitment, prevTally, next]), tvKey?.vkey);
+    prevTally = next;
+  }
+
+  const ok = failed === 0 && (skipped === 0 || allowSkip);
+  if (failed === 0 && skipped > 0) {
+    console.log(`\n  ${skipped} check(s) skipped${allowSkip ? ' (accepted with --allow-skip)' : ': pass --allow-skip to accept'}`);
+  }
+  console.log(`\n=== ${ok ? 'VERIFIED' : failed > 0 ? `${failed} CHECK(S) FAILED` : `${skipped} CHECK(S) SKIPPED`} ===\n`);
+  process.exit(ok ? 0 : 1);
+}
+
+main().catch((err) => {
+  console.error(`Fatal error: ${(err as Error).message?.slice(0, 120) ?? 'unknown'}`);
+  process.exit(1);
+});
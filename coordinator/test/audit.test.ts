@@ -0,0 +1,90 @@
+/**
+ * Audit Log Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuditLogStore, buildAuditRecords, formatAuditTable } from '../src/state/audit.js';
+import type { Command, MessageOutcome } from '../src/processing/processMessages.js';
+
+const MACI = '0xAbC0000000000000000000000000000000000001';
+
+function cmd(overrides: Partial<Command> = {}): Command {
+  return {
+    stateIndex: 1n, newPubKeyX: 12345678901234567890n, newPubKeyY: 2n,
+    voteOptionIndex: 1n, newVoteWeight: 3n, nonce: 1n, pollId: 0n, salt: 9n,
+    ...overrides,
+  };
+}
+
+const OUTCOMES: MessageOutcome[] = [
+  { messageIndex: 2, batch: 1, valid: false, reasons: ['decrypt-failed', 'bad-signature'], command: cmd({ stateIndex: 0n }) },
+  { messageIndex: 1, batch: 1, valid: false, reasons: ['bad-nonce', 'insufficient-credits'], command: cmd({ stateIndex: 2n, nonce: 3n }) },
+  { messageIndex: 0, batch: 2, valid: true, reasons: [], command: cmd() },
+];
+
+describe('buildAuditRecords', () => {
+  it('should order by message index and stringify the command', () => {
+    const records = buildAuditRecords(OUTCOMES);
+    expect(records.map(r => r.messageIndex)).toEqual([0, 1, 2]);
+    expect(records[1]).toEqual({
+      messageIndex: 1,
+      batch: 1,
+      stateIndex: '2',
+      valid: false,
+      reasons: ['bad-nonce', 'insufficient-credits'],
+      command: { voteOptionIndex: '1', newVoteWeight: '3', nonce: '3', pollId: '0', newPubKeyX: '12345678901234567890', newPubKeyY: '2' },
+    });
+    expect(records[1]).not.toHaveProperty('command.salt');
+  });
+});
+
+describe('formatAuditTable', () => {
+  it('should render one row per message with readable reasons', () => {
+    const table = formatAuditTable({ version: 1, maciAddress: MACI, pollId: 0, generatedAt: 0, records: buildAuditRecords(OUTCOMES) });
+    const lines = table.split('\n');
+
+    expect(lines[0]).toMatch(/^msg\s+batch\s+state\s+option\s+weight\s+nonce\s+newPubKeyX\s+result$/);
+    expect(lines[2]).toMatch(/^0\s+2\s+1\s+1\s+3\s+1\s+1234567890…\s+VALID$/);
+    expect(lines[3]).toContain('INVALID: wrong nonce; insufficient voice credits');
+    // Undecryptable: command fields are hidden
+    expect(lines[4]).toMatch(/^2\s+1\s+-\s+-\s+-\s+-\s+-\s+INVALID: decryption failed/);
+    expect(lines[lines.length - 1]).toBe('3 message(s): 1 valid, 2 invalid');
+  });
+});
+
+describe('AuditLogStore', () => {
+  let dir: string;
+  let store: AuditLogStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'sigil-audit-'));
+    store = new AuditLogStore(join(dir, 'audit'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should return null when a poll has no audit log', () => {
+    expect(store.load(MACI, 0)).toBeNull();
+  });
+
+  it('should write a private file and load it back', () => {
+    const written = store.write(MACI, 4, OUTCOMES);
+    const path = store.pathFor(MACI, 4);
+
+    expect(path).toContain(`${MACI.toLowerCase()}-poll-4-audit.json`);
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+    expect(store.load(MACI, 4)).toEqual(written);
+    expect(written.records).toHaveLength(3);
+  });
+
+  it('should reject an unknown version', () => {
+    store.write(MACI, 1, []);
+    writeFileSync(store.pathFor(MACI, 1), JSON.stringify({ version: 99, records: [] }));
+    expect(() => store.load(MACI, 1)).toThrow('Unsupported audit log version 99');
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Checkpoint Store Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, readdirSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  CheckpointStore, upsertBatch, serializeCheckpoint, deserializeCheckpoint,
+} from '../src/state/checkpoint.js';
+
+const MACI = '0xAbC0000000000000000000000000000000000001';
+
+describe('CheckpointStore', () => {
+  let dir: string;
+  let store: CheckpointStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'sigil-cp-'));
+    store = new CheckpointStore(dir);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should return an empty checkpoint when none exists', () => {
+    const cp = store.load(MACI, 3);
+    expect(cp.pollId).toBe(3);
+    expect(cp.events).toBeUndefined();
+    expect(cp.processBatches).toEqual([]);
+    expect(cp.tallyBatches).toEqual([]);
+  });
+
+  it('should round-trip events and batch records with bigints', () => {
+    const cp = store.load(MACI, 0);
+    cp.events = {
+      stateLeaves: [{ pubKeyX: 1n, pubKeyY: 2n, voiceCreditBalance: 100n, timestamp: 42n }],
+      messages: [{ data: [5n, 6n], encPubKeyX: 7n, encPubKeyY: 8n, messageIndex: 0 }],
+    };
+    upsertBatch(cp.processBatches, {
+      batch: 1,
+      messageIndices: [1, 0],
+      newStateCommitment: 2n ** 250n,
+      outputStateRoot: 11n,
+      outputBallotRoot: 12n,
+      txHash: '0xabc',
+    });
+    store.save(cp);
+
+    const loaded = store.load(MACI, 0);
+    expect(loaded.events!.stateLeaves[0].voiceCreditBalance).toBe(100n);
+    expect(loaded.events!.messages[0].data).toEqual([5n, 6n]);
+    expect(loaded.processBatches[0].newStateCommitment).toBe(2n ** 250n);
+    expect(loaded.processBatches[0].txHash).toBe('0xabc');
+  });
+
+  it('should key checkpoints by MACI address and poll', () => {
+    const a = store.load(MACI, 1);
+    a.publishTx = '0x1';
+    store.save(a);
+
+    expect(store.load(MACI, 2).publishTx).toBeUndefined();
+    expect(store.load(MACI.toLowerCase(), 1).publishTx).toBe('0x1');
+  });
+
+  it('should not leave temp files behind', () => {
+    store.save(store.load(MACI, 0));
+    expect(readdirSync(dir).some((f) => f.endsWith('.tmp'))).toBe(false);
+  });
+
+  it('should ignore a corrupt checkpoint file', () => {
+    writeFileSync(join(dir, `${MACI.toLowerCase()}-poll-0.json`), '{not json');
+    const cp = store.load(MACI, 0);
+    expect(cp.processBatches).toEqual([]);
+  });
+
+  it('should clear a checkpoint', () => {
+    const cp = store.load(MACI, 0);
+    cp.publishTx = '0x1';
+    store.save(cp);
+    store.clear(MACI, 0);
+    expect(store.load(MACI, 0).publishTx).toBeUndefined();
+  });
+});
+
+describe('upsertBatch', () => {
+  it('should replace existing batch and keep order', () => {
+    const list = [{ batch: 2, v: 'b' }];
+    upsertBatch(list, { batch: 1, v: 'a' });
+    upsertBatch(list, { batch: 2, v: 'c' });
+    expect(list).toEqual([{ batch: 1, v: 'a' }, { batch: 2, v: 'c' }]);
+  });
+
+  it('should not treat non-numeric strings as bigints', () => {
+    const json = serializeCheckpoint({
+      version: 1, maciAddress: MACI, pollId: 0,
+      processBatches: [], tallyBatches: [], publishTx: '0x12n', updatedAt: 0,
+    });
+    expect(deserializeCheckpoint(json).publishTx).toBe('0x12n');
+  });
+});
@@ -0,0 +1,209 @@
+// @vitest-environment node
+/**
+ * Circuit Artifact Tests
+ *
+ * zkeys are stand-in bytes: their embedded verifying key comes from an
+ * injected exporter. Downloads go to a local static server with Range support.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'crypto';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { vkeyToArray, type CircuitFiles, type CircuitProfile } from '../src/config/circuits.js';
+import {
+  checkCircuitArtifacts, describeArtifactProblems, fetchCircuitArtifacts, verifierCodeMatches, type Groth16Vkey,
+} from '../src/config/circuitArtifacts.js';
+
+function vkey(seed: number): Groth16Vkey {
+  const g1 = (n: number) => [String(n), String(n + 1), '1'];
+  const g2 = (n: number) => [[String(n), String(n + 1)], [String(n + 2), String(n + 3)], ['1', '0']];
+  return { vk_alpha_1: g1(seed), vk_beta_2: g2(seed + 10), vk_gamma_2: g2(seed + 20), vk_delta_2: g2(seed + 30), IC: [g1(seed + 40)] };
+}
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+
+/** Each circuit's zkey "contains" the key named in its first line */
+const exportVkey = async (zkeyPath: string) => vkey(Number(readFileSync(zkeyPath, 'utf8').split('\n')[0]));
+
+function profile(dir: string, hashes: { processMessages?: CircuitFiles['sha256']; tallyVotes?: CircuitFiles['sha256'] } = {}): CircuitProfile {
+  const files = (name: string, sha: CircuitFiles['sha256'] = {}): CircuitFiles => ({
+    wasm: join(dir, `${name}.wasm`), zkey: join(dir, `${name}.zkey`), vkey: join(dir, `${name}_vkey.json`), sha256: sha,
+  });
+  return {
+    name: 'd3', stateTreeDepth: 3, messageTreeDepth: 3, messageBatchSize: 4, tallyBatchSize: 4, maxVoteOptions: 25,
+    processMessages: files('mp', hashes.processMessages), tallyVotes: files('tv', hashes.tallyVotes), source: join(dir, 'circuit-profile.json'),
+  };
+}
+
+describe('circuit artifacts', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'sigil-artifacts-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeCircuit(name: string, seed: number, zkeySeed = seed): void {
+    writeFileSync(join(dir, `${name}.wasm`), `${name} wasm`);
+    writeFileSync(join(dir, `${name}.zkey`), `${zkeySeed}\n${name} zkey`);
+    writeFileSync(join(dir, `${name}_vkey.json`), JSON.stringify(vkey(seed)));
+  }
+
+  it('should check hashes and match each zkey against its vkey file and the on-chain keys', async () => {
+    writeCircuit('mp', 1);
+    writeCircuit('tv', 100);
+    const p = profile(dir, { processMessages: { wasm: sha256('mp wasm') } });
+
+    const clean = await checkCircuitArtifacts(p, { processVk: vkeyToArray(vkey(1)) }, exportVkey);
+    expect(clean.ok).toBe(true);
+    expect(clean.files.map(f => f.status)).toEqual(['ok', 'unhashed', 'unhashed', 'unhashed', 'unhashed', 'unhashed']);
+    expect(clean.keys).toEqual([
+      { circuit: 'processMessages', against: 'vkeyFile', match: true },
+      { circuit: 'processMessages', against: 'vkRegistry', match: true },
+      { circuit: 'tallyVotes', against: 'vkeyFile', match: true },
+    ]);
+
+    // A zkey from another setup: wrong for the registry and for its own vkey file
+    writeCircuit('mp', 1, 7);
+    const swapped = await checkCircuitArtifacts(p, { processVk: vkeyToArray(vkey(1)) }, exportVkey);
+    expect(swapped.ok).toBe(false);
+    expect(describeArtifactProblems(swapped)).toBe('d3 processMessages zkey does not match the vkey file\nd3 processMessages zkey does not match the VkRegistry key');
+
+    writeFileSync(join(dir, 'mp.wasm'), 'tampered');
+    rmSync(join(dir, 'tv.zkey'));
+    const broken = await checkCircuitArtifacts(p, {}, exportVkey);
+    expect(describeArtifactProblems(broken).split('\n')).toEqual([
+      `${join(dir, 'mp.wasm')} does not match its sha256`,
+      `${join(dir, 'tv.zkey')} not found`,
+      'd3 processMessages zkey does not match the vkey file',
+    ]);
+  });
+
+  it('should fall back to the constants inlined in the deployed verifier', async () => {
+    writeCircuit('mp', 1);
+    writeCircuit('tv', 100);
+    const code = (vk: bigint[]) => `0x6080${vk.map(v => `7f${v.toString(16).padStart(64, '0')}`).join('60')}00`;
+    expect(verifierCodeMatches(code(vkeyToArray(vkey(1))), vkeyToArray(vkey(1)))).toBe(true);
+    expect(verifierCodeMatches('0x', vkeyToArray(vkey(1)))).toBe(false);
+
+    const report = await checkCircuitArtifacts(profile(dir), {
+      processVerifierCode: code(vkeyToArray(vkey(1))),
+      tallyVerifierCode: code(vkeyToArray(vkey(5))),
+    }, exportVkey);
+    expect(report.keys.filter(k => k.against === 'verifier')).toEqual([
+      { circuit: 'processMessages', against: 'verifier', match: true },
+      { circuit: 'tallyVotes', against: 'verifier', match: false },
+    ]);
+  });
+
+  describe('fetch', () => {
+    let server: Server;
+    let baseUrl: string;
+    let served: Record<string, Buffer>;
+    let requests: { path: string; range?: string; auth?: string }[];
+    let cutFirst: Set<string>;
+    let honourRange: boolean;
+
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        const name = decodeURIComponent(req.url!.replace(/^\/circuits-v2\//, ''));
+        requests.push({ path: name, range: req.headers.range, auth: req.headers.authorization });
+        const body = served[name];
+        if (!body) {
+          res.statusCode = 404;
+          res.end();
+          return;
+        }
+        const start = honourRange && req.headers.range ? Number(/bytes=(\d+)-/.exec(req.headers.range)![1]) : 0;
+        if (start >= body.length && start > 0) {
+          res.statusCode = 416;
+          res.end();
+          return;
+        }
+        res.statusCode = start > 0 ? 206 : 200;
+        res.setHeader('Content-Length', body.length - start);
+        if (cutFirst.delete(name)) {
+          // Drop the connection halfway through
+          res.write(body.subarray(start, start + 10));
+          setTimeout(() => res.destroy(), 20);
+          return;
+        }
+        res.end(body.subarray(start));
+      });
+      await new Promise<void>((r) => server.listen(0, '127.0.0.1', r));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/circuits-v2/`;
+    });
+
+    afterAll(() => new Promise<void>((r) => server.close(() => r())));
+
+    beforeEach(() => {
+      requests = [];
+      cutFirst = new Set();
+      honourRange = true;
+      served = {
+        'mp.wasm': Buffer.from('mp wasm'.repeat(20)),
+        'mp.zkey': Buffer.from('1\n' + 'mp zkey'.repeat(20)),
+        'mp_vkey.json': Buffer.from(JSON.stringify(vkey(1))),
+        'tv.wasm': Buffer.from('tv wasm'.repeat(20)),
+        'tv.zkey': Buffer.from('100\n' + 'tv zkey'.repeat(20)),
+        'tv_vkey.json': Buffer.from(JSON.stringify(vkey(100))),
+      };
+    });
+
+    it('should download missing files, resuming an interrupted transfer', async () => {
+      const build = join(dir, 'build_d3');
+      mkdirSync(build);
+      writeFileSync(join(build, 'mp.wasm'), served['mp.wasm']);
+      const p = profile(build, { processMessages: { zkey: sha256(served['mp.zkey']) } });
+      cutFirst.add('mp.zkey');
+
+      const logs: string[] = [];
+      const written = await fetchCircuitArtifacts(p, { baseUrl, token: 't', log: (m) => logs.push(m) });
+      expect(written).toEqual(['mp.zkey', 'mp_vkey.json', 'tv.wasm', 'tv.zkey', 'tv_vkey.json'].map(f => join(build, f)));
+      expect(readFileSync(join(build, 'mp.zkey'))).toEqual(served['mp.zkey']);
+      expect(existsSync(join(build, 'mp.zkey.partial'))).toBe(false);
+      expect(requests.filter(r => r.path === 'mp.zkey').map(r => r.range)).toEqual([undefined, 'bytes=10-']);
+      expect(requests.every(r => r.auth === 'Bearer t')).toBe(true);
+      expect(logs).toContain('  mp.zkey: resuming at 10 bytes');
+
+      expect((await checkCircuitArtifacts(p, {}, exportVkey)).ok).toBe(true);
+      expect(await fetchCircuitArtifacts(p, { baseUrl })).toEqual([]);
+    });
+
+    it('should restart when the server ignores Range, and reject a corrupt download', async () => {
+      const build = join(dir, 'build_d3');
+      mkdirSync(build);
+      writeFileSync(join(build, 'mp.zkey.partial'), 'stale bytes');
+      honourRange = false;
+      const p = profile(build, { processMessages: { zkey: sha256(served['mp.zkey']) } });
+      await fetchCircuitArtifacts(p, { baseUrl });
+      expect(readFileSync(join(build, 'mp.zkey'))).toEqual(served['mp.zkey']);
+
+      served['tv.zkey'] = Buffer.from('corrupted');
+      rmSync(join(build, 'tv.zkey'));
+      const strict = profile(build, { tallyVotes: { zkey: sha256('100\n' + 'tv zkey'.repeat(20)) } });
+      await expect(fetchCircuitArtifacts(strict, { baseUrl })).rejects.toThrow('Downloaded tv.zkey does not match its sha256');
+      expect(existsSync(join(build, 'tv.zkey.partial'))).toBe(false);
+
+      // Verifying keys are optional, circuit files are not
+      served['tv.zkey'] = Buffer.from('100\n' + 'tv zkey'.repeat(20));
+      delete served['tv_vkey.json'];
+      rmSync(join(build, 'tv_vkey.json'));
+      const logs: string[] = [];
+      expect(await fetchCircuitArtifacts(profile(build), { baseUrl, log: (m) => logs.push(m) })).toEqual([join(build, 'tv.zkey')]);
+      expect(logs).toContain('  tv_vkey.json: not on the server, skipped');
+      expect((await checkCircuitArtifacts(profile(build), {}, exportVkey)).ok).toBe(true);
+
+      delete served['tv.wasm'];
+      rmSync(join(build, 'tv.wasm'));
+      await expect(fetchCircuitArtifacts(profile(build), { baseUrl })).rejects.toThrow('tv.wasm not found');
+    });
+  });
+});
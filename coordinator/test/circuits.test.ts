@@ -0,0 +1,135 @@
+/**
+ * Circuit Profile Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  CircuitRegistry, builtinCircuitProfiles, loadCircuitProfile, loadCircuitRegistry, vkeyToArray, vkeyFromArray,
+} from '../src/config/circuits.js';
+
+/** Groth16 vkey in snarkjs JSON form; `seed` makes each key distinct */
+function vkey(seed: number) {
+  const g1 = (n: number) => [String(n), String(n + 1), '1'];
+  const g2 = (n: number) => [[String(n), String(n + 1)], [String(n + 2), String(n + 3)], ['1', '0']];
+  return {
+    protocol: 'groth16', curve: 'bn128', nPublic: 1,
+    vk_alpha_1: g1(seed), vk_beta_2: g2(seed + 10), vk_gamma_2: g2(seed + 20), vk_delta_2: g2(seed + 30),
+    IC: [g1(seed + 40), g1(seed + 50)],
+  };
+}
+
+function manifest(name: string, overrides: Record<string, unknown> = {}) {
+  const files = (c: string) => ({ wasm: `${c}_js/${c}.wasm`, zkey: `${c}_final.zkey`, vkey: `${c}_verification_key.json` });
+  return {
+    name, stateTreeDepth: 3, messageTreeDepth: 3, messageBatchSize: 4, tallyBatchSize: 4, maxVoteOptions: 25,
+    processMessages: files('MessageProcessor_d3'), tallyVotes: files('TallyVotes_d3'),
+    ...overrides,
+  };
+}
+
+describe('circuit profiles', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'sigil-circuits-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** circuits/<build>/ with a manifest and the two verifying keys */
+  function build(subdir: string, m: Record<string, unknown>, seeds = [1, 100]): string {
+    const buildDir = join(dir, 'circuits', subdir);
+    mkdirSync(buildDir, { recursive: true });
+    writeFileSync(join(buildDir, 'MessageProcessor_d3_verification_key.json'), JSON.stringify(vkey(seeds[0])));
+    writeFileSync(join(buildDir, 'TallyVotes_d3_verification_key.json'), JSON.stringify(vkey(seeds[1])));
+    writeFileSync(join(buildDir, 'circuit-profile.json'), JSON.stringify(m));
+    return buildDir;
+  }
+
+  it('should keep the built-in dev and prod circuits', () => {
+    const [dev, prod] = builtinCircuitProfiles('/repo');
+    expect([dev.stateTreeDepth, dev.messageBatchSize, dev.maxVoteOptions]).toEqual([2, 2, 5]);
+    expect([prod.stateTreeDepth, prod.messageTreeDepth, prod.messageBatchSize, prod.maxVoteOptions]).toEqual([4, 4, 5, 25]);
+    expect(dev.processMessages.zkey).toBe('/repo/circuits/build_maci/MessageProcessor_final.zkey');
+    expect(prod.tallyVotes.wasm).toBe('/repo/circuits/build_prod/TallyVotes_prod_js/TallyVotes_prod.wasm');
+  });
+
+  it('should load manifests with paths relative to their build directory', () => {
+    const buildDir = build('build_d3', manifest('d3', {
+      processMessages: { ...manifest('d3').processMessages, sha256: { vkey: `0x${'AB'.repeat(32)}` } },
+    }));
+    const profile = loadCircuitProfile(join(buildDir, 'circuit-profile.json'));
+    expect(profile).toMatchObject({ name: 'd3', stateTreeDepth: 3, messageTreeDepth: 3, messageBatchSize: 4 });
+    expect(profile.processMessages.wasm).toBe(join(buildDir, 'MessageProcessor_d3_js/MessageProcessor_d3.wasm'));
+    expect(profile.processMessages.sha256).toEqual({ vkey: 'ab'.repeat(32) });
+
+    const bad = (m: Record<string, unknown>) => {
+      writeFileSync(join(buildDir, 'circuit-profile.json'), JSON.stringify(m));
+      return () => loadCircuitProfile(join(buildDir, 'circuit-profile.json'));
+    };
+    expect(bad(manifest('d3', { messageTreeDepth: 0 }))).toThrow('messageTreeDepth must be a positive integer');
+    expect(bad(manifest('../d3'))).toThrow('name may only contain');
+    expect(bad(manifest('d3', { tallyVotes: { wasm: 'a', zkey: 'b' } }))).toThrow('tallyVotes.vkey must be a path');
+    expect(bad(manifest('d3', { tallyVotes: { ...manifest('d3').tallyVotes, sha256: { r1cs: 'ab'.repeat(32) } } })))
+      .toThrow('unknown file "r1cs"');
+  });
+
+  it('should find manifests under circuits/ and CIRCUIT_PROFILES, overriding built-ins by name', () => {
+    build('build_d3', manifest('d3'));
+    build('build_maci', manifest('dev', { stateTreeDepth: 2, messageTreeDepth: 2 }));
+    const external = mkdtempSync(join(dir, 'ext-'));
+    writeFileSync(join(external, 'circuit-profile.json'), JSON.stringify(manifest('d5', { stateTreeDepth: 5 })));
+
+    const registry = loadCircuitRegistry(dir, (k) => (k === 'CIRCUIT_PROFILES' ? external.slice(dir.length + 1) : undefined));
+    expect(registry.names().sort()).toEqual(['d3', 'd5', 'dev', 'prod']);
+    expect(registry.require('dev').source).toBe(join(dir, 'circuits/build_maci/circuit-profile.json'));
+    expect(registry.require('prod').source).toBe('built-in');
+    expect(() => registry.require('huge')).toThrow('Unknown circuit profile "huge"');
+
+    build('build_d3_copy', manifest('d3'));
+    expect(() => loadCircuitRegistry(dir, () => undefined)).toThrow('"d3" defined twice');
+  });
+
+  it('should select the profile matching a poll\'s depths and VkRegistry keys', () => {
+    const a = loadCircuitProfile(join(build('build_a', manifest('a'), [1, 100]), 'circuit-profile.json'));
+    const b = loadCircuitProfile(join(build('build_b', manifest('b', { messageBatchSize: 8 }), [200, 300]), 'circuit-profile.json'));
+    const registry = new CircuitRegistry([a, b], builtinCircuitProfiles(dir));
+
+    expect(registry.select({ stateTreeDepth: 4, messageTreeDepth: 4 }).name).toBe('prod');
+    expect(() => registry.select({ stateTreeDepth: 6, messageTreeDepth: 4 })).toThrow('No circuit profile for stateTreeDepth=6');
+
+    // Same depths: the registered keys decide, else the deployment's default
+    expect(registry.select({ stateTreeDepth: 3, messageTreeDepth: 3, processVk: vkeyToArray(vkey(200)), tallyVk: vkeyToArray(vkey(300)) }).name).toBe('b');
+    expect(registry.select({ stateTreeDepth: 3, messageTreeDepth: 3 }, 'b').name).toBe('b');
+    expect(() => registry.select({ stateTreeDepth: 3, messageTreeDepth: 3 }, 'dev')).toThrow('Several circuit profiles fit depth 3/3 (a, b)');
+    expect(() => registry.select({ stateTreeDepth: 3, messageTreeDepth: 3, processVk: vkeyToArray(vkey(7)) }, 'a'))
+      .toThrow('VkRegistry keys for depth 3/3 match none of a, b');
+
+    // A multi-choice poll needs a circuit with room for all of its options
+    expect(registry.select({ stateTreeDepth: 4, messageTreeDepth: 4, voteOptions: 25 }).name).toBe('prod');
+    expect(() => registry.select({ stateTreeDepth: 4, messageTreeDepth: 4, voteOptions: 26 })).toThrow('26 vote options');
+  });
+
+  it('should flatten verifying keys in Solidity verifier order', () => {
+    const flat = vkeyToArray(vkey(1));
+    expect(flat.slice(0, 6)).toEqual([1n, 2n, 12n, 11n, 14n, 13n]);
+    expect(flat).toHaveLength(2 + 3 * 4 + 2 * 2);
+    expect(vkeyFromArray(flat)).toEqual(vkey(1));
+  });
+
+  it('should list the circuit files a profile is missing', () => {
+    const buildDir = build('build_d3', manifest('d3'));
+    writeFileSync(join(buildDir, 'MessageProcessor_d3_final.zkey'), 'zkey bytes');
+    const profile = loadCircuitProfile(join(buildDir, 'circuit-profile.json'));
+    expect(new CircuitRegistry([profile]).missingFiles(profile)).toEqual([
+      join(buildDir, 'MessageProcessor_d3_js/MessageProcessor_d3.wasm'),
+      join(buildDir, 'TallyVotes_d3_js/TallyVotes_d3.wasm'),
+      join(buildDir, 'TallyVotes_d3_final.zkey'),
+    ]);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Deployments Config Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadDeploymentsFile, parseDeployments } from '../src/config/deployments.js';
+
+const MACI_A = '0x26428484F192D1dA677111A47615378Bc889d441';
+const MACI_B = '0xb0f974154837997C66193e5FDCE80F34C5220a34';
+
+function entry(overrides: Record<string, unknown> = {}) {
+  return { name: 'sepolia', chainId: 11155111, rpcUrls: ['https://rpc.example'], maciAddress: MACI_A, ...overrides };
+}
+
+describe('parseDeployments', () => {
+  it('should fill defaults for optional fields', () => {
+    expect(parseDeployments({ deployments: [entry()] })).toEqual([{
+      name: 'sepolia',
+      chainId: 11155111,
+      rpcUrls: ['https://rpc.example'],
+      maciAddress: MACI_A,
+      deployBlock: 0,
+      circuitMode: 'dev',
+      coordinatorKeyEnv: 'COORDINATOR_PRIVATE_KEY',
+      walletKeyEnv: 'PRIVATE_KEY',
+      stateDir: 'sepolia',
+    }]);
+  });
+
+  it('should keep explicit settings per deployment', () => {
+    const [, b] = parseDeployments({
+      deployments: [
+        entry(),
+        entry({
+          name: 'op-prod', chainId: 10, rpcUrls: ['https://a', 'https://b'], maciAddress: MACI_B,
+          deployBlock: 123, circuitMode: 'prod', coordinatorKeyEnv: 'OP_COORD_KEY', walletKeyEnv: 'OP_WALLET_KEY', stateDir: 'op',
+        }),
+      ],
+    });
+    expect(b).toMatchObject({ chainId: 10, rpcUrls: ['https://a', 'https://b'], deployBlock: 123, circuitMode: 'prod', coordinatorKeyEnv: 'OP_COORD_KEY', stateDir: 'op' });
+  });
+
+  it('should allow the same MACI address on different chains', () => {
+    expect(parseDeployments({ deployments: [entry(), entry({ name: 'op', chainId: 10 })] })).toHaveLength(2);
+  });
+
+  it('should reject malformed entries', () => {
+    expect(() => parseDeployments({})).toThrow('"deployments" must be a non-empty array');
+    expect(() => parseDeployments({ deployments: [entry({ rpcUrls: [] })] })).toThrow('deployment "sepolia": rpcUrls');
+    expect(() => parseDeployments({ deployments: [entry({ maciAddress: '0x1234' })] })).toThrow('maciAddress');
+    expect(() => parseDeployments({ deployments: [entry({ circuitMode: '../huge' })] })).toThrow('circuitMode');
+    expect(() => parseDeployments({ deployments: [entry({ chainId: -1 })] })).toThrow('chainId');
+    expect(() => parseDeployments({ deployments: [entry({ name: '../x' })] })).toThrow('name may only contain');
+    expect(() => parseDeployments({ deployments: [entry({ stateDir: '..' })] })).toThrow('stateDir');
+  });
+
+  it('should reject duplicate names, state dirs and deployments', () => {
+    expect(() => parseDeployments({ deployments: [entry(), entry({ maciAddress: MACI_B })] })).toThrow("duplicates another deployment's name");
+    expect(() => parseDeployments({ deployments: [entry(), entry({ name: 'b', maciAddress: MACI_B, stateDir: 'sepolia' })] })).toThrow('stateDir');
+    expect(() => parseDeployments({ deployments: [entry(), entry({ name: 'b', maciAddress: MACI_A.toLowerCase() })] })).toThrow('maci');
+  });
+});
+
+describe('loadDeploymentsFile', () => {
+  it('should read and validate a JSON file', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'sigil-deploy-'));
+    try {
+      const file = join(dir, 'deployments.json');
+      writeFileSync(file, JSON.stringify({ deployments: [entry()] }));
+      expect(loadDeploymentsFile(file)[0].name).toBe('sepolia');
+
+      writeFileSync(file, '{ nope');
+      expect(() => loadDeploymentsFile(file)).toThrow(`Cannot read deployments file ${file}`);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,208 @@
+// @vitest-environment node
+/**
+ * Processing / Tally Engine Tests
+ *
+ * Messages are built with the SDK (the same code voters run) and replayed
+ * through the coordinator engine.
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { initCrypto, type CryptoKit } from '../src/crypto/kit.js';
+import { processMessages, BLANK_STATE_LEAF, type EncryptedMessage, type StateLeaf } from '../src/processing/processMessages.js';
+import { tallyVotes } from '../src/processing/tally.js';
+import { computePublicInputHash } from '../src/processing/batchProof.js';
+import { buildEncryptedVoteMessage, buildEncryptedKeyChangeMessage } from '../../sdk/src/message.js';
+import { derivePublicKey } from '../../sdk/src/crypto/ecdh.js';
+import { eddsaDerivePublicKey } from '../../sdk/src/crypto/eddsa.js';
+
+const COORD_SK = 1234567890123456789n;
+const DEPTH = 2;
+const BATCH_SIZE = 2;
+const MAX_VOTE_OPTIONS = 5;
+
+let crypto: CryptoKit;
+let coordPub: [bigint, bigint];
+const voterSks = [111n, 222n, 333n];
+let voterPubs: [bigint, bigint][];
+let stateLeaves: StateLeaf[];
+
+function toEngineMessage(msg: { encMessage: bigint[]; ephemeralPubKey: [bigint, bigint] }, messageIndex: number): EncryptedMessage {
+  return { data: msg.encMessage, encPubKeyX: msg.ephemeralPubKey[0], encPubKeyY: msg.ephemeralPubKey[1], messageIndex };
+}
+
+async function vote(voter: number, option: bigint, weight: bigint, nonce: bigint, messageIndex: number, sk = voterSks[voter - 1]) {
+  const msg = await buildEncryptedVoteMessage({
+    stateIndex: BigInt(voter),
+    voteOptionIndex: option,
+    newVoteWeight: weight,
+    nonce,
+    pollId: 0n,
+    voterSk: sk,
+    voterPubKey: await eddsaDerivePublicKey(sk),
+    coordinatorPubKey: coordPub,
+  });
+  return toEngineMessage(msg, messageIndex);
+}
+
+function run(messages: EncryptedMessage[]) {
+  return processMessages({
+    crypto,
+    coordinatorSk: COORD_SK,
+    stateLeaves,
+    messages,
+    stateTreeDepth: DEPTH,
+    batchSize: BATCH_SIZE,
+    maxVoteOptions: MAX_VOTE_OPTIONS,
+  });
+}
+
+beforeAll(async () => {
+  crypto = await initCrypto();
+  coordPub = await derivePublicKey(COORD_SK);
+  voterPubs = await Promise.all(voterSks.map(sk => eddsaDerivePublicKey(sk)));
+  stateLeaves = voterPubs.map(([x, y], i) => ({ pubKeyX: x, pubKeyY: y, voiceCreditBalance: 100n, timestamp: BigInt(1000 + i) }));
+}, 30_000);
+
+describe('processMessages', () => {
+  it('should start from the real signup leaves', async () => {
+    const result = await run([]);
+    expect(result.numSignUps).toBe(4);
+    expect(result.batches).toEqual([]);
+    expect(result.stateLeaves.get(0)).toEqual(BLANK_STATE_LEAF);
+    expect(result.stateLeaves.get(2)).toEqual(stateLeaves[1]);
+    expect(result.stateTree.getLeaf(3)).toBe(crypto.hashStateLeaf(stateLeaves[2]));
+  });
+
+  it('should decrypt SDK messages and apply valid votes', async () => {
+    const messages = [
+      await vote(1, 1n, 3n, 1n, 0),
+      await vote(2, 0n, 5n, 1n, 1),
+    ];
+    const result = await run(messages);
+
+    expect(result.outcomes.map(o => [o.messageIndex, o.valid])).toEqual([[1, true], [0, true]]);
+    expect(result.ballots.get(1)!.votes[1]).toBe(3n);
+    expect(result.ballots.get(1)!.nonce).toBe(1n);
+    expect(result.stateLeaves.get(1)!.voiceCreditBalance).toBe(100n - 9n);
+    expect(result.stateLeaves.get(2)!.voiceCreditBalance).toBe(100n - 25n);
+    expect(result.stateCommitment).toBe(crypto.hash(result.newStateRoot, result.newBallotRoot));
+  });
+
+  it('should report why each invalid message was rejected', async () => {
+    const garbage = await vote(3, 0n, 1n, 1n, 4);
+    garbage.data = [...garbage.data];
+    garbage.data[9] += 1n;
+
+    const messages = [
+      await vote(1, 1n, 2n, 2n, 0),                 // nonce should be 1
+      await vote(2, 1n, 2n, 1n, 1, voterSks[0]),    // signed by voter 1's key
+      await vote(3, 1n, 11n, 1n, 2),                // 121 credits > 100
+      await vote(7, 1n, 1n, 1n, 3, 777n),           // never signed up
+      garbage,                                      // tampered ciphertext
+    ];
+    const result = await run(messages);
+    const reasons = Object.fromEntries(result.outcomes.map(o => [o.messageIndex, o.reasons]));
+
+    expect(reasons[0]).toEqual(['bad-nonce']);
+    expect(reasons[1]).toEqual(['bad-signature']);
+    expect(reasons[2]).toEqual(['insufficient-credits']);
+    expect(reasons[3]).toContain('bad-state-index');
+    expect(reasons[4]).toContain('decrypt-failed');
+    expect(result.invalidCount).toBe(5);
+
+    // Nothing changed except the blank leaf being rewritten with itself
+    const untouched = await run([]);
+    expect(result.newStateRoot).toBe(untouched.newStateRoot);
+    expect(result.newBallotRoot).toBe(untouched.newBallotRoot);
+  });
+
+  it('should let the last message win (reverse processing)', async () => {
+    const result = await run([
+      await vote(1, 1n, 4n, 1n, 0),
+      await vote(1, 0n, 2n, 1n, 1),
+    ]);
+    expect(result.outcomes.map(o => [o.messageIndex, o.reasons])).toEqual([[1, []], [0, ['bad-nonce']]]);
+    expect(result.ballots.get(1)!.votes.slice(0, 2)).toEqual([2n, 0n]);
+  });
+
+  it('should invalidate messages signed with a key the voter changed away from', async () => {
+    const newPub = await eddsaDerivePublicKey(444n);
+    const keyChange = await buildEncryptedKeyChangeMessage({
+      stateIndex: 1n, nonce: 1n, pollId: 0n, currentSk: voterSks[0], newPubKey: newPub, coordinatorPubKey: coordPub,
+    });
+    const result = await run([
+      await vote(1, 1n, 4n, 1n, 0),                 // coerced vote, old key
+      toEngineMessage(keyChange, 1),                // later key change wins
+    ]);
+
+    const byIndex = Object.fromEntries(result.outcomes.map(o => [o.messageIndex, o]));
+    expect(byIndex[1].valid).toBe(true);
+    expect(byIndex[0].reasons).toEqual(['bad-signature', 'bad-nonce']);
+    expect(result.stateLeaves.get(1)!.pubKeyX).toBe(newPub[0]);
+    expect(result.ballots.get(1)!.votes[1]).toBe(0n);
+  });
+
+  it('should emit chained circuit inputs for every padded batch', async () => {
+    const messages = [
+      await vote(1, 1n, 3n, 1n, 0),
+      await vote(2, 0n, 5n, 1n, 1),
+      await vote(3, 2n, 1n, 1n, 2),
+    ];
+    const result = await run(messages);
+
+    expect(result.batches.map(b => b.messageIndices)).toEqual([[2, 1], [0]]);
+    const [first, second] = result.batches;
+    expect(first.currentStateCommitment).toBe(0n);
+    expect(second.currentStateCommitment).toBe(first.newStateCommitment);
+    expect(second.newStateCommitment).toBe(result.stateCommitment);
+
+    const input = second.circuitInput;
+    expect(input.messages).toHaveLength(BATCH_SIZE);
+    expect(input.messages[1]).toEqual(new Array(10).fill(0n));  // padding
+    expect(input.stateProofs[0]).toHaveLength(DEPTH);
+    expect(input.numSignUps).toBe(4n);
+    expect(input.numMessages).toBe(3n);
+    expect(input.inputStateRoot).toBe(first.outputStateRoot);
+    expect(input.inputMessageRoot).toBe(result.messageRoot);
+    expect(input.inputHash).toBe(await computePublicInputHash([
+      first.newStateCommitment, second.newStateCommitment, result.messageRoot, 3n,
+    ]));
+  });
+});
+
+describe('tallyVotes', () => {
+  it('should tally processed ballots with quadratic spend', async () => {
+    const processed = await run([
+      await vote(1, 1n, 3n, 1n, 0),
+      await vote(2, 0n, 5n, 1n, 1),
+      await vote(3, 1n, 4n, 1n, 2),
+    ]);
+    const result = await tallyVotes({
+      crypto,
+      stateTree: processed.stateTree,
+      stateLeaves: processed.stateLeaves,
+      ballots: processed.ballots,
+      numSignUps: processed.numSignUps,
+      stateCommitment: processed.stateCommitment,
+      batchSize: 2,
+      numVoteOptions: MAX_VOTE_OPTIONS,
+    });
+
+    expect(result.forVotes).toBe(7n);
+    expect(result.againstVotes).toBe(5n);
+    expect(result.abstainVotes).toBe(0n);
+    expect(result.perOptionSpent.slice(0, 2)).toEqual([25n, 25n]);
+    expect(result.totalSpent).toBe(50n);
+    expect(result.tallyCommitment).toBe(crypto.hash(result.tallyResultsRoot, 50n, result.perOptionSpentRoot));
+
+    expect(result.batches).toHaveLength(2);
+    const [first, second] = result.batches;
+    expect(first.circuitInput.tallyCommitment).toBe(0n);
+    expect(second.circuitInput.tallyCommitment).toBe(first.newTallyCommitment);
+    expect(second.circuitInput.currentTally).toEqual(first.circuitInput.newTally);
+    expect(second.circuitInput.batchNum).toBe(1n);
+    expect(second.circuitInput.inputHash).toBe(await computePublicInputHash([
+      processed.stateCommitment, first.newTallyCommitment, second.newTallyCommitment,
+    ]));
+  });
+});
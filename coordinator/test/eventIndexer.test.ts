@@ -0,0 +1,86 @@
+/**
+ * Event Indexer Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EventIndexer, JsonIndexerStore, type IndexedLog, type LogQuery, type LogSource } from '../src/chain/eventIndexer.js';
+
+const MACI = '0x26428484F192D1dA677111A47615378Bc889d441';
+const TOPIC = '0x' + 'cd'.repeat(32);
+
+function makeLog(blockNumber: number, data = '0x'): IndexedLog {
+  return { address: MACI, topics: [TOPIC], data, blockNumber, logIndex: 0, transactionHash: '0x01' };
+}
+
+/** Fake RPC with a block-range limit */
+class FakeChain implements LogSource {
+  head = 0;
+  logs: IndexedLog[] = [];
+  maxRange = Infinity;
+  queries: LogQuery[] = [];
+
+  async getBlockNumber() {
+    return this.head;
+  }
+
+  async getLogs(query: LogQuery) {
+    this.queries.push(query);
+    if (query.toBlock - query.fromBlock + 1 > this.maxRange) throw new Error('query exceeds max block range');
+    return this.logs.filter((l) => l.blockNumber >= query.fromBlock && l.blockNumber <= query.toBlock);
+  }
+}
+
+describe('EventIndexer (JSON store)', () => {
+  let dir: string;
+  let store: JsonIndexerStore;
+  let chain: FakeChain;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'sigil-index-'));
+    store = new JsonIndexerStore(join(dir, 'index'));
+    chain = new FakeChain();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should split scans that hit an RPC block-range limit', async () => {
+    chain.head = 12_000;
+    chain.maxRange = 5000;
+    chain.logs = [makeLog(3), makeLog(11_999)];
+    const indexer = new EventIndexer(chain, store, { chunkSize: 10_000, minChunkSize: 2000 });
+
+    expect((await indexer.getLogs(MACI, TOPIC, 0)).map((l) => l.blockNumber)).toEqual([3, 11_999]);
+    expect(chain.queries.every((q) => q.toBlock - q.fromBlock < 10_000)).toBe(true);
+  });
+
+  it('should resume from disk and re-check the reorg window', async () => {
+    chain.head = 1000;
+    chain.logs = [makeLog(10), makeLog(995, '0xstale')];
+    await new EventIndexer(chain, store, { reorgDepth: 10, namespace: '11155111' }).getLogs(MACI, TOPIC, 0);
+
+    // New process: the log at 995 was reorged out, a new one landed at 1003
+    chain.head = 1005;
+    chain.logs = [makeLog(10), makeLog(1003)];
+    chain.queries = [];
+    const logs = await new EventIndexer(chain, store, { reorgDepth: 10, namespace: '11155111' }).getLogs(MACI, TOPIC, 0);
+
+    expect(chain.queries.map((q) => [q.fromBlock, q.toBlock])).toEqual([[991, 1005]]);
+    expect(logs.map((l) => l.blockNumber)).toEqual([10, 1003]);
+  });
+
+  it('should treat a corrupt index file as empty', async () => {
+    chain.head = 50;
+    chain.logs = [makeLog(7)];
+    const key = `${MACI.toLowerCase()}:${TOPIC}`;
+    await new EventIndexer(chain, store).getLogs(MACI, TOPIC, 0);
+    writeFileSync(store.pathFor(key), '{ nope');
+
+    expect(await store.load(key)).toBeNull();
+    expect(await new EventIndexer(chain, store).getLogs(MACI, TOPIC, 0)).toHaveLength(1);
+  });
+});
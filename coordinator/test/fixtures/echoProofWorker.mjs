@@ -0,0 +1,9 @@
+// Test stand-in for proofWorker.ts: echoes inputHash as the public signal
+process.on('message', (task) => {
+  const { inputHash, delayMs = 0, fail = false, crash = false } = task.circuitInputs;
+  if (crash) process.exit(3);
+  setTimeout(() => {
+    if (fail) process.send({ id: task.id, error: 'constraint failed' });
+    else process.send({ id: task.id, result: { proof: { pi_a: [], pi_b: [], pi_c: [] }, publicSignals: [String(inputHash)] } });
+  }, delayMs);
+});
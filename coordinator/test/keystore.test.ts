@@ -0,0 +1,101 @@
+// @vitest-environment node
+/**
+ * Coordinator Keystore Tests
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { initCrypto, type CryptoKit } from '../src/crypto/kit.js';
+import {
+  CoordinatorKeyring, decryptCoordinatorKey, derivePubKey, encryptCoordinatorKey, generateCoordinatorSk,
+  loadCoordinatorKeyring, parseCoordinatorSk, readKeystore, writeKeystore, BABYJUB_SUBORDER,
+} from '../src/crypto/keystore.js';
+
+// Fast scrypt for tests; real keystores use the (slow) default
+const KDF = { n: 1024, r: 8, p: 1 };
+
+describe('coordinator keystore', () => {
+  let crypto: CryptoKit;
+  let dir: string;
+
+  beforeAll(async () => {
+    crypto = await initCrypto();
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'sigil-keys-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should generate keys in the subgroup and derive the circuit public key', () => {
+    const sk = generateCoordinatorSk();
+    expect(sk > 0n && sk < BABYJUB_SUBORDER).toBe(true);
+
+    // pk = sk · Base8, the same point ECDH uses
+    const pubKey = derivePubKey(crypto, sk);
+    const eph = 12345n;
+    const ephPub = derivePubKey(crypto, eph);
+    expect(crypto.ecdh(sk, ephPub)).toEqual(crypto.ecdh(eph, pubKey));
+
+    expect(parseCoordinatorSk(`0x${sk.toString(16)}`)).toBe(sk);
+    expect(() => parseCoordinatorSk('0xnothex')).toThrow('must be hex');
+    expect(() => parseCoordinatorSk('0x0')).toThrow('out of range');
+  });
+
+  it('should round-trip through an owner-only keystore file and reject wrong passwords', () => {
+    const sk = generateCoordinatorSk();
+    const pubKey = derivePubKey(crypto, sk);
+    const path = join(dir, 'coord.json');
+    writeKeystore(path, encryptCoordinatorKey({ sk, pubKey }, 'correct horse', { label: 'poll 7+', kdf: KDF }));
+
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+    expect(readFileSync(path, 'utf8')).not.toContain(sk.toString(16));
+    const keystore = readKeystore(path);
+    expect(keystore.pubKey).toEqual([pubKey[0].toString(), pubKey[1].toString()]);
+    expect(decryptCoordinatorKey(keystore, 'correct horse')).toBe(sk);
+    expect(() => decryptCoordinatorKey(keystore, 'wrong')).toThrow('Wrong password');
+
+    // The clear-text public key is authenticated: swapping it breaks decryption
+    const swapped = { ...keystore, pubKey: ['1', '2'] as [string, string] };
+    expect(() => decryptCoordinatorKey(swapped, 'correct horse')).toThrow('Wrong password');
+
+    expect(() => writeKeystore(path, keystore)).toThrow();
+  });
+
+  it('should load .env + keystore keys and pick the one matching a poll', () => {
+    const oldSk = 0x1234n;
+    const newSk = generateCoordinatorSk();
+    const newPub = derivePubKey(crypto, newSk);
+    writeKeystore(join(dir, 'keys', 'new.json'), encryptCoordinatorKey({ sk: newSk, pubKey: newPub }, 'pw', { kdf: KDF }));
+
+    const env: Record<string, string> = {
+      COORDINATOR_PRIVATE_KEY: '0x1234',
+      COORDINATOR_KEYSTORE: 'keys',
+      COORDINATOR_KEYSTORE_PASSWORD: 'pw',
+    };
+    const keyring = loadCoordinatorKeyring((k) => env[k], 'COORDINATOR_PRIVATE_KEY', dir);
+    expect(keyring.size).toBe(2);
+
+    expect(keyring.find(crypto, derivePubKey(crypto, oldSk))?.source).toBe('COORDINATOR_PRIVATE_KEY');
+    expect(keyring.find(crypto, newPub)?.sk).toBe(newSk);
+    expect(keyring.find(crypto, [111n, 222n])).toBeNull();
+
+    expect(() => loadCoordinatorKeyring(() => undefined, 'OP_COORDINATOR_KEY')).toThrow('OP_COORDINATOR_KEY or COORDINATOR_KEYSTORE not set');
+    expect(() => loadCoordinatorKeyring((k) => ({ ...env, COORDINATOR_KEYSTORE_PASSWORD: '' })[k], 'X', dir))
+      .toThrow('requires COORDINATOR_KEYSTORE_PASSWORD');
+  });
+
+  it('should refuse a keystore whose public key does not belong to its private key', () => {
+    const keyring = new CoordinatorKeyring();
+    keyring.add(5n, 'forged.json', derivePubKey(crypto, 6n));
+    expect(() => keyring.keys(crypto)).toThrow('does not match');
+
+    writeFileSync(join(dir, 'junk.json'), '{"hello":1}');
+    expect(() => readKeystore(join(dir, 'junk.json'))).toThrow('Not a coordinator keystore');
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Event Listener Tests
+ *
+ * A fake chain serves logs (through the real EventIndexer), blocks and the
+ * poll's getDeployTimeAndDuration(); new blocks are pushed by hand.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { EventListener, type ListenerEvents } from '../src/chain/listener.js';
+import { EventIndexer, type IndexedLog, type IndexedStream, type IndexerStore, type LogQuery, type LogSource } from '../src/chain/eventIndexer.js';
+import type { CryptoKit } from '../src/crypto/kit.js';
+
+const MACI = '0x26428484F192D1dA677111A47615378Bc889d441';
+const POLL = '0xb0f974154837997C66193e5FDCE80F34C5220a34';
+const MP = '0x0000000000000000000000000000000000000a01';
+const TALLY = '0x0000000000000000000000000000000000000a02';
+const DEADLINE = 10_000;
+
+const maciIface = new ethers.Interface([
+  'event SignUp(uint256 indexed stateIndex, uint256 indexed pubKeyX, uint256 pubKeyY, uint256 voiceCreditBalance, uint256 timestamp)',
+  'event DeployPoll(uint256 indexed pollId, address pollAddr, address messageProcessorAddr, address tallyAddr)',
+]);
+const pollIface = new ethers.Interface([
+  'event MessagePublished(uint256 indexed messageIndex, uint256[10] encMessage, uint256 encPubKeyX, uint256 encPubKeyY)',
+  'function getDeployTimeAndDuration() view returns (uint256, uint256)',
+]);
+
+// Leaf hash stand-in: enough to check it is computed per signup
+const crypto = { hashStateLeaf: (l: { pubKeyX: bigint }) => l.pubKeyX * 10n } as unknown as CryptoKit;
+
+class FakeChain implements LogSource {
+  head = 100;
+  timestamp = 1000;
+  logs: IndexedLog[] = [];
+  private onBlock: (() => void) | null = null;
+
+  // LogSource (indexer)
+  async getBlockNumber() {
+    return this.head;
+  }
+
+  async getLogs(q: LogQuery) {
+    return this.logs.filter((l) => l.address.toLowerCase() === q.address.toLowerCase()
+      && l.topics[0] === q.topics[0] && l.blockNumber >= q.fromBlock && l.blockNumber <= q.toBlock);
+  }
+
+  // Provider surface used by the listener
+  provider = {
+    getBlock: async () => ({ number: this.head, timestamp: this.timestamp }),
+    on: async (_: string, fn: () => void) => { this.onBlock = fn; },
+    off: async () => { this.onBlock = null; },
+    call: async () => pollIface.encodeFunctionResult('getDeployTimeAndDuration', [DEADLINE - 3600, 3600]),
+  } as unknown as ethers.Provider;
+
+  mine(blocks = 1, seconds = 12) {
+    this.head += blocks;
+    this.timestamp += blocks * seconds;
+    this.onBlock?.();
+  }
+
+  add(address: string, iface: ethers.Interface, event: string, values: unknown[], blockNumber: number, tx = `0x${blockNumber.toString(16).padStart(64, '0')}`) {
+    const { data, topics } = iface.encodeEventLog(event, values);
+    this.logs.push({ address, topics, data, blockNumber, logIndex: this.logs.length, transactionHash: tx });
+  }
+
+  signUp(stateIndex: number, blockNumber: number) {
+    this.add(MACI, maciIface, 'SignUp', [stateIndex, 100 + stateIndex, 7, 100, 1000], blockNumber);
+  }
+
+  message(messageIndex: number, blockNumber: number, tx?: string) {
+    this.add(POLL, pollIface, 'MessagePublished', [messageIndex, new Array(10).fill(messageIndex), 1, 2], blockNumber, tx);
+  }
+}
+
+class MapStore implements IndexerStore {
+  streams = new Map<string, IndexedStream>();
+  async load(key: string) { return this.streams.get(key) ?? null; }
+  async save(key: string, s: IndexedStream) { this.streams.set(key, s); }
+}
+
+describe('EventListener', () => {
+  let chain: FakeChain;
+  let listener: EventListener;
+  let events: { type: keyof ListenerEvents; payload: any }[];
+
+  beforeEach(() => {
+    chain = new FakeChain();
+    chain.add(MACI, maciIface, 'DeployPoll', [0, POLL, MP, TALLY], 10);
+    chain.signUp(1, 11);
+    chain.message(0, 20);
+
+    listener = new EventListener({
+      provider: chain.provider,
+      maciAddress: MACI,
+      deployBlock: 0,
+      crypto,
+      indexer: new EventIndexer(chain, new MapStore(), { reorgDepth: 5 }),
+    });
+    events = [];
+    for (const type of ['signUp', 'newMessage', 'pollDeployed', 'pollEnded', 'reorg', 'error'] as const) {
+      listener.on(type, (payload) => events.push({ type, payload }));
+    }
+  });
+
+  it('should backfill state without emitting events', async () => {
+    await listener.startListening();
+    const state = listener.getState();
+
+    expect(events).toEqual([]);
+    expect(state.numSignUps).toBe(1);
+    expect(state.stateLeaves.get(1)).toBe(1010n);
+    expect(state.signUps.get(1)!.leaf.voiceCreditBalance).toBe(100n);
+    const poll = state.polls.get(0)!;
+    expect(poll.addrs).toEqual({ poll: POLL, mp: MP, tally: TALLY });
+    expect(poll.deadline).toBe(DEADLINE);
+    expect(poll.ended).toBe(false);
+    expect(poll.messages.map((m) => m.messageIndex)).toEqual([0]);
+    listener.stopListening();
+  });
+
+  it('should emit new signups and messages, then pollEnded once', async () => {
+    await listener.startListening();
+
+    chain.signUp(2, 101);
+    chain.message(1, 101);
+    chain.mine();
+    await vi.waitFor(() => expect(events.map((e) => e.type)).toEqual(['signUp', 'newMessage']));
+    expect(events[1].payload).toMatchObject({ pollId: 0, numMessages: 2, blockNumber: 101 });
+    expect(events[1].payload.message.messageIndex).toBe(1);
+
+    chain.mine(1, DEADLINE);
+    await vi.waitFor(() => expect(events.map((e) => e.type)).toContain('pollEnded'));
+    chain.mine();
+    await vi.waitFor(() => expect(listener.getState().blockNumber).toBe(chain.head));
+    expect(events.filter((e) => e.type === 'pollEnded')).toHaveLength(1);
+    expect(listener.getState().polls.get(0)!.ended).toBe(true);
+    listener.stopListening();
+  });
+
+  it('should roll back messages and signups that a reorg removed', async () => {
+    chain.signUp(2, 98);
+    chain.message(1, 99);
+    await listener.startListening();
+    expect(listener.getState().polls.get(0)!.messages).toHaveLength(2);
+
+    // Blocks 98-99 reorged out; message 1 re-included by another tx
+    chain.logs = chain.logs.filter((l) => l.blockNumber < 98);
+    chain.message(1, 101, '0x' + 'ee'.repeat(32));
+    chain.mine();
+    await vi.waitFor(() => expect(events.map((e) => e.type)).toContain('reorg'));
+
+    const reorg = events.find((e) => e.type === 'reorg')!.payload;
+    expect(reorg.signUps).toEqual([2]);
+    expect(reorg.messages).toEqual([{ pollId: 0, messageIndex: 1 }]);
+    expect(listener.getState().numSignUps).toBe(1);
+    expect(listener.getState().stateLeaves.has(2)).toBe(false);
+    await vi.waitFor(() => expect(events.map((e) => e.type)).toContain('newMessage'));
+    listener.stopListening();
+  });
+});
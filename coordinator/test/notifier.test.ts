@@ -0,0 +1,221 @@
+// @vitest-environment node
+/**
+ * Notifier Tests
+ *
+ * Webhook and SMTP sinks talk to local stand-ins (an HTTP server and a
+ * minimal SMTP server on net); the file sink writes to a temp dir.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createServer as createHttpServer, type Server } from 'http';
+import { createServer as createNetServer, type AddressInfo, type Server as NetServer } from 'net';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  FileNotifier, NotificationDispatcher, SmtpNotifier, WebhookNotifier, describeEvent, notifierConfigFromEnv,
+  type CoordinatorEvent, type Notification, type Notifier, type Severity,
+} from '../src/notify/notifier.js';
+
+const FINALIZED: CoordinatorEvent = {
+  kind: 'pollFinalized', pollId: 3, forVotes: 5n, againstVotes: 2n, abstainVotes: 1n, totalVoters: 4, txHash: '0xabc',
+};
+const FAILED: CoordinatorEvent = { kind: 'pollFailed', pollId: 4, error: 'processMessages: reverted with InvalidProcessProof', permanent: true, attempts: 2 };
+const LOW: CoordinatorEvent = { kind: 'lowBalance', address: '0x00000000000000000000000000000000000000c0', balanceWei: 10n ** 14n, thresholdWei: 10n ** 15n };
+
+class MemoryNotifier implements Notifier {
+  readonly name = 'memory';
+  received: Notification[] = [];
+  constructor(readonly minSeverity: Severity) {}
+  async send(n: Notification) {
+    this.received.push(n);
+  }
+}
+
+describe('NotificationDispatcher', () => {
+  it('should route by severity threshold and rate-limit ongoing conditions', async () => {
+    const all = new MemoryNotifier('info');
+    const critical = new MemoryNotifier('critical');
+    const broken: Notifier = { name: 'broken', minSeverity: 'info', send: async () => { throw new Error('down'); } };
+    const logs: string[] = [];
+    const dispatcher = new NotificationDispatcher([all, critical, broken], { log: (m) => logs.push(m) });
+
+    await dispatcher.notify(FINALIZED);
+    await dispatcher.notify({ ...FAILED, deployment: 'sepolia' });
+    expect(all.received.map((n) => n.event)).toEqual(['pollFinalized', 'pollFailed']);
+    expect(critical.received).toHaveLength(1);
+    expect(critical.received[0].title).toBe('Poll 4 permanently failed [sepolia]');
+    expect(logs).toEqual(['  Notification via broken failed: down', '  Notification via broken failed: down']);
+
+    expect(await dispatcher.notify(LOW)).toBe(true);
+    expect(await dispatcher.notify(LOW)).toBe(false);
+    dispatcher.resolve(LOW);
+    expect(await dispatcher.notify(LOW)).toBe(true);
+    expect(all.received.filter((n) => n.event === 'lowBalance')).toHaveLength(2);
+  });
+
+  it('should describe events with JSON-safe details and event-specific severities', () => {
+    const n = describeEvent(FINALIZED, new Date(0));
+    expect(n).toMatchObject({ severity: 'info', pollId: 3, timestamp: '1970-01-01T00:00:00.000Z' });
+    expect(n.details).toEqual({ forVotes: '5', againstVotes: '2', abstainVotes: '1', totalVoters: 4, txHash: '0xabc' });
+    const multi = describeEvent({ ...FINALIZED, options: [{ label: 'Red', votes: 2n }, { label: 'Blue', votes: 5n }] });
+    expect(multi.text).toBe('Results published: Red=2 Blue=5, 4 voter(s)');
+    expect(multi.details.options).toEqual(['Red=2', 'Blue=5']);
+    expect(describeEvent({ ...FAILED, permanent: false }).severity).toBe('warning');
+    expect(describeEvent(LOW).text).toContain('0.0001 ETH (threshold 0.001 ETH)');
+    expect(describeEvent({ kind: 'stuckTransaction', label: 'publishResults', nonce: 9, hashes: ['0x1', '0x2'] }).severity).toBe('critical');
+  });
+
+  it('should build sink configs from env', () => {
+    const env = (vars: Record<string, string>) => (k: string) => vars[k];
+    expect(notifierConfigFromEnv(env({}))).toEqual([]);
+    const configs = notifierConfigFromEnv(env({
+      NOTIFY_MIN_SEVERITY: 'critical',
+      NOTIFY_WEBHOOK_URL: 'http://hook',
+      NOTIFY_FILE: 'alerts.jsonl',
+      NOTIFY_FILE_MIN_SEVERITY: 'info',
+      NOTIFY_SMTP_HOST: 'mail',
+      NOTIFY_SMTP_FROM: 'c@x',
+      NOTIFY_SMTP_TO: 'a@x, b@x',
+    }), '/srv');
+    expect(configs.map((c) => [c.kind, c.minSeverity])).toEqual([['webhook', 'critical'], ['smtp', 'critical'], ['file', 'info']]);
+    expect(configs[1]).toMatchObject({ to: ['a@x', 'b@x'], secure: false });
+    expect(configs[2]).toMatchObject({ path: '/srv/alerts.jsonl' });
+    expect(() => notifierConfigFromEnv(env({ NOTIFY_SMTP_HOST: 'mail' }))).toThrow('NOTIFY_SMTP_FROM');
+    expect(() => notifierConfigFromEnv(env({ NOTIFY_FILE: 'a', NOTIFY_MIN_SEVERITY: 'loud' }))).toThrow('Unknown severity');
+  });
+});
+
+describe('sinks', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'sigil-notify-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('webhook', () => {
+    let server: Server;
+    let url: string;
+    let requests: { auth?: string; body: Record<string, unknown> }[];
+    let statusCode = 200;
+
+    beforeAll(async () => {
+      server = createHttpServer((req, res) => {
+        let body = '';
+        req.on('data', (c) => { body += c; });
+        req.on('end', () => {
+          requests.push({ auth: req.headers.authorization, body: JSON.parse(body) });
+          res.statusCode = statusCode;
+          res.end('ok');
+        });
+      });
+      await new Promise<void>((r) => server.listen(0, '127.0.0.1', r));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+    });
+
+    afterAll(() => new Promise<void>((r) => server.close(() => r())));
+
+    it('should post Slack-compatible JSON and report HTTP errors', async () => {
+      requests = [];
+      const hook = new WebhookNotifier({ url, token: 't' });
+      await hook.send(describeEvent(FAILED));
+      expect(requests[0].auth).toBe('Bearer t');
+      expect(requests[0].body.text).toBe(
+        '[SIGIL coordinator] CRITICAL: Poll 4 permanently failed\n'
+        + "Will not retry; the poll's results cannot be published without intervention. processMessages: reverted with InvalidProcessProof",
+      );
+      expect(requests[0].body).toMatchObject({ event: 'pollFailed', severity: 'critical', pollId: 4 });
+
+      statusCode = 500;
+      await expect(hook.send(describeEvent(FAILED))).rejects.toThrow('HTTP 500');
+      statusCode = 200;
+    });
+  });
+
+  describe('smtp', () => {
+    let server: NetServer;
+    let port: number;
+    let transcript: string[];
+    let message: string;
+
+    beforeAll(async () => {
+      // Just enough of RFC 5321 to accept one message per connection
+      server = createNetServer((socket) => {
+        let buffer = '';
+        let inData = false;
+        socket.write('220 stand-in ESMTP\r\n');
+        socket.on('data', (chunk) => {
+          buffer += chunk.toString();
+          let i: number;
+          while ((i = buffer.indexOf('\r\n')) >= 0) {
+            const line = buffer.slice(0, i);
+            buffer = buffer.slice(i + 2);
+            if (inData) {
+              if (line === '.') {
+                inData = false;
+                socket.write('250 queued\r\n');
+              } else {
+                message += `${line}\r\n`;
+              }
+              continue;
+            }
+            transcript.push(line);
+            if (line.startsWith('EHLO')) socket.write('250-stand-in\r\n250 8BITMIME\r\n');
+            else if (line === 'DATA') { inData = true; socket.write('354 go ahead\r\n'); }
+            else if (line.startsWith('RCPT TO:<nobody')) socket.write('550 no such user\r\n');
+            else if (line === 'QUIT') socket.end('221 bye\r\n');
+            else socket.write('250 ok\r\n');
+          }
+        });
+      });
+      await new Promise<void>((r) => server.listen(0, '127.0.0.1', r));
+      port = (server.address() as AddressInfo).port;
+    });
+
+    afterAll(() => new Promise<void>((r) => server.close(() => r())));
+
+    beforeEach(() => {
+      transcript = [];
+      message = '';
+    });
+
+    it('should deliver a plain-text email', async () => {
+      const smtp = new SmtpNotifier({ host: '127.0.0.1', port, from: 'coord@example.com', to: ['ops@example.com', 'oncall@example.com'] });
+      await smtp.send(describeEvent(LOW));
+
+      expect(transcript.slice(1)).toEqual([
+        'MAIL FROM:<coord@example.com>', 'RCPT TO:<ops@example.com>', 'RCPT TO:<oncall@example.com>', 'DATA', 'QUIT',
+      ]);
+      const [headers, body] = message.split('\r\n\r\n');
+      expect(headers).toContain('Subject: [SIGIL coordinator] WARNING: Low coordinator balance');
+      expect(headers).toContain('To: ops@example.com, oncall@example.com');
+      const text = Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8');
+      expect(text).toContain('transactions may fail');
+      expect(text).toContain(`address: ${(LOW as { address: string }).address}`);
+    });
+
+    it('should surface rejections and refuse to send credentials without TLS', async () => {
+      const rejected = new SmtpNotifier({ host: '127.0.0.1', port, from: 'c@x', to: ['nobody@x'] });
+      await expect(rejected.send(describeEvent(LOW))).rejects.toThrow('SMTP 550 no such user');
+
+      const authed = new SmtpNotifier({ host: '127.0.0.1', port, from: 'c@x', to: ['a@x'], user: 'u', password: 'p' });
+      await expect(authed.send(describeEvent(LOW))).rejects.toThrow('refusing to send credentials');
+      expect(transcript.some((l) => l.startsWith('AUTH'))).toBe(false);
+    });
+  });
+
+  it('should append one JSON line per notification to the file sink', async () => {
+    const path = join(dir, 'nested', 'alerts.jsonl');
+    const file = new FileNotifier({ path });
+    await file.send(describeEvent(FINALIZED));
+    await file.send(describeEvent(FAILED));
+
+    const lines = readFileSync(path, 'utf8').trim().split('\n').map((l) => JSON.parse(l));
+    expect(lines.map((l) => l.event)).toEqual(['pollFinalized', 'pollFailed']);
+    expect(lines[0].details.forVotes).toBe('5');
+  });
+});
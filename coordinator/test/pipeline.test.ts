@@ -0,0 +1,98 @@
+// @vitest-environment node
+/**
+ * Proof Pipeline Tests
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { runPipelined } from '../src/processing/pipeline.js';
+import { ProofWorkerPool } from '../src/processing/proverPool.js';
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe('runPipelined', () => {
+  it('should submit in order even when proofs finish out of order', async () => {
+    const submitted: number[] = [];
+    await runPipelined([30, 5, 15, 0], {
+      concurrency: 4,
+      prove: async (ms) => { await sleep(ms); return ms * 2; },
+      submit: async (ms, proof) => { submitted.push(proof); },
+      onError: () => { throw new Error('unexpected'); },
+    });
+    expect(submitted).toEqual([60, 10, 30, 0]);
+  });
+
+  it('should respect the concurrency limit and start proofs in order', async () => {
+    let active = 0;
+    let peak = 0;
+    const started: number[] = [];
+    await runPipelined([0, 1, 2, 3, 4], {
+      concurrency: 2,
+      prove: async (i) => {
+        started.push(i);
+        peak = Math.max(peak, ++active);
+        await sleep(5);
+        active--;
+        return i;
+      },
+      submit: async () => {},
+      onError: () => {},
+    });
+    expect(peak).toBe(2);
+    expect(started).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('should report failures and keep going', async () => {
+    const submitted: number[] = [];
+    const failed: number[] = [];
+    await runPipelined([1, 2, 3], {
+      concurrency: 2,
+      prove: async (i) => { if (i === 1) throw new Error('prove'); return i; },
+      submit: async (i) => { if (i === 3) throw new Error('tx'); submitted.push(i); },
+      onError: (i) => { failed.push(i); },
+    });
+    expect(submitted).toEqual([2]);
+    expect(failed).toEqual([1, 3]);
+  });
+});
+
+describe('ProofWorkerPool', () => {
+  const workerUrl = new URL('./fixtures/echoProofWorker.mjs', import.meta.url);
+  let pool: ProofWorkerPool;
+
+  afterEach(async () => {
+    await pool.close();
+  });
+
+  const task = (circuitInputs: Record<string, unknown>) => ({ circuitInputs, wasmPath: 'x.wasm', zkeyPath: 'x.zkey' });
+
+  it('should run proofs in worker processes and match replies to tasks', async () => {
+    pool = new ProofWorkerPool(2, workerUrl);
+    const results = await Promise.all([
+      pool.prove(task({ inputHash: '1', delayMs: 20 })),
+      pool.prove(task({ inputHash: '2' })),
+      pool.prove(task({ inputHash: '3' })),
+    ]);
+    expect(results.map((r) => r.publicSignals[0])).toEqual(['1', '2', '3']);
+    expect(pool.pending).toBe(0);
+  });
+
+  it('should reject a failed proof without affecting others', async () => {
+    pool = new ProofWorkerPool(1, workerUrl);
+    await expect(pool.prove(task({ inputHash: '1', fail: true }))).rejects.toThrow('constraint failed');
+    const ok = await pool.prove(task({ inputHash: '2' }));
+    expect(ok.publicSignals).toEqual(['2']);
+  });
+
+  it('should replace a worker that crashes', async () => {
+    pool = new ProofWorkerPool(1, workerUrl);
+    await expect(pool.prove(task({ inputHash: '1', crash: true }))).rejects.toThrow('exited with code 3');
+    const ok = await pool.prove(task({ inputHash: '2' }));
+    expect(ok.publicSignals).toEqual(['2']);
+  });
+
+  it('should reject new work after close', async () => {
+    pool = new ProofWorkerPool(1, workerUrl);
+    await pool.close();
+    await expect(pool.prove(task({ inputHash: '1' }))).rejects.toThrow('closed');
+  });
+});
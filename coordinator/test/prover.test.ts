@@ -0,0 +1,111 @@
+// @vitest-environment node
+/**
+ * Prover Backend Tests
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  HttpProver, RapidsnarkProver, SnarkjsProver, createProver, proverConfigFromEnv, circuitId,
+  type Prover, type ProofTask,
+} from '../src/processing/prover.js';
+import { startProverServer } from '../src/processing/proverServer.js';
+import { generateTallyProof, type ProofResult, type TallyProofInput } from '../src/processing/batchProof.js';
+
+const FAKE_PROOF: ProofResult['proof'] = { pi_a: ['1', '2', '1'], pi_b: [['3', '4'], ['5', '6'], ['1', '0']], pi_c: ['7', '8', '1'] };
+
+/** Echoes inputHash as the public signal; fails on demand */
+class MockProver implements Prover {
+  readonly name = 'mock';
+  tasks: ProofTask[] = [];
+
+  async prove(task: ProofTask): Promise<ProofResult> {
+    this.tasks.push(task);
+    if (task.circuitInputs.fail) throw new Error('constraint failed');
+    return { proof: FAKE_PROOF, publicSignals: [String(task.circuitInputs.inputHash)] };
+  }
+}
+
+describe('proverConfigFromEnv', () => {
+  const env = (vars: Record<string, string>) => (k: string) => vars[k];
+
+  it('should default to in-process snarkjs', () => {
+    expect(proverConfigFromEnv(env({}))).toEqual({ backend: 'snarkjs' });
+    expect(createProver(proverConfigFromEnv(env({})))).toBeInstanceOf(SnarkjsProver);
+  });
+
+  it('should build rapidsnark and http backends', () => {
+    const rs = proverConfigFromEnv(env({ PROVER: 'rapidsnark', RAPIDSNARK_PATH: '/opt/prover', PROVER_TIMEOUT_MS: '5000' }));
+    expect(rs).toEqual({ backend: 'rapidsnark', binary: '/opt/prover', timeoutMs: 5000 });
+    expect(createProver(rs)).toBeInstanceOf(RapidsnarkProver);
+
+    const http = proverConfigFromEnv(env({ PROVER: 'http', PROVER_URL: 'https://p/prove', PROVER_TOKEN: 't' }));
+    expect(http).toMatchObject({ backend: 'http', url: 'https://p/prove', token: 't' });
+    expect(createProver(http)).toBeInstanceOf(HttpProver);
+  });
+
+  it('should refuse plain http to a remote prover', () => {
+    expect(() => new HttpProver({ url: 'http://prover.example/prove' })).toThrow('must be https');
+    expect(new HttpProver({ url: 'http://localhost:9000/prove' })).toBeInstanceOf(HttpProver);
+  });
+
+  it('should reject missing PROVER_URL and unknown backends', () => {
+    expect(() => proverConfigFromEnv(env({ PROVER: 'http' }))).toThrow('PROVER_URL');
+    expect(() => proverConfigFromEnv(env({ PROVER: 'gpu' }))).toThrow('Unknown PROVER backend');
+  });
+});
+
+describe('HttpProver + prover server', () => {
+  const mock = new MockProver();
+  let server: Server;
+  let url: string;
+
+  beforeAll(async () => {
+    server = await startProverServer({
+      prover: mock,
+      token: 'secret',
+      circuits: { TallyVotes_final: { wasmPath: '/remote/TallyVotes.wasm', zkeyPath: '/remote/TallyVotes_final.zkey' } },
+    }, 0, '127.0.0.1');
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/prove`;
+  });
+
+  afterAll(() => new Promise<void>((r) => server.close(() => r())));
+
+  const task = (circuitInputs: Record<string, unknown>, zkeyPath = '/local/TallyVotes_final.zkey'): ProofTask =>
+    ({ circuitInputs, wasmPath: '/local/TallyVotes.wasm', zkeyPath });
+
+  it('should prove remotely using the server-side circuit files', async () => {
+    const prover = new HttpProver({ url, token: 'secret' });
+    const result = await prover.prove(task({ inputHash: '42' }));
+    expect(result).toEqual({ proof: FAKE_PROOF, publicSignals: ['42'] });
+    expect(mock.tasks.at(-1)).toMatchObject({ wasmPath: '/remote/TallyVotes.wasm', zkeyPath: '/remote/TallyVotes_final.zkey' });
+  });
+
+  it('should plug into generateTallyProof', async () => {
+    const input: TallyProofInput = {
+      wasmPath: '/x/TallyVotes.wasm', zkeyPath: '/x/TallyVotes_final.zkey', inputHash: 7n,
+      stateCommitment: 0n, tallyCommitment: 0n, newTallyCommitment: 0n, batchNum: 0n,
+      stateLeaves: [], ballotNonces: [], voteWeights: [], voteOptionRoots: [], stateProofs: [], statePathIndices: [],
+      currentTally: [], newTally: [], currentTotalSpent: 0n, newTotalSpent: 0n,
+      currentPerOptionSpent: [], newPerOptionSpent: [],
+      currentTallyResultsRoot: 0n, newTallyResultsRoot: 0n, currentPerOptionSpentRoot: 0n, newPerOptionSpentRoot: 0n,
+    };
+    const result = await generateTallyProof(input, new HttpProver({ url, token: 'secret' }));
+    expect(result.publicSignals).toEqual(['7']);
+    expect(mock.tasks.at(-1)!.circuitInputs.inputHash).toBe('7');
+  });
+
+  it('should surface auth, unknown circuit and proof errors', async () => {
+    await expect(new HttpProver({ url, token: 'wrong' }).prove(task({ inputHash: '1' })))
+      .rejects.toThrow('HTTP 401');
+    await expect(new HttpProver({ url, token: 'secret' }).prove(task({ inputHash: '1' }, '/local/Other.zkey')))
+      .rejects.toThrow('Unknown circuit: Other');
+    await expect(new HttpProver({ url, token: 'secret' }).prove(task({ fail: true })))
+      .rejects.toThrow('HTTP 500 (constraint failed)');
+  });
+
+  it('should derive circuit ids from zkey file names', () => {
+    expect(circuitId('/a/b/MessageProcessor_prod_final.zkey')).toBe('MessageProcessor_prod_final');
+  });
+});
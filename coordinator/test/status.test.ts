@@ -0,0 +1,169 @@
+/**
+ * Status Tracker + HTTP Server Tests
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { StatusTracker } from '../src/status/tracker.js';
+import { startStatusServer } from '../src/status/server.js';
+
+describe('StatusTracker', () => {
+  it('should track phase, batch progress and proof durations', () => {
+    const t = new StatusTracker();
+    t.setPhase(2, 'processing');
+    t.setBatch(2, 'process', 3, 7);
+    t.recordProof(2, 'process', 1500);
+
+    const p = t.getPoll(2)!;
+    expect(p.phase).toBe('processing');
+    expect(p.step).toBe(4);
+    expect(p.batch).toEqual({ kind: 'process', current: 3, total: 7 });
+    expect(p.proofDurationsMs.process).toEqual([1500]);
+  });
+
+  it('should clear batch progress when leaving a proving phase', () => {
+    const t = new StatusTracker();
+    t.setBatch(0, 'tally', 1, 2);
+    t.setPhase(0, 'publishing');
+    expect(t.getPoll(0)!.batch).toBeNull();
+    expect(t.getPoll(0)!.step).toBe(7);
+  });
+
+  it('should record failures', () => {
+    const t = new StatusTracker();
+    t.recordFailure(1, 2, 'boom');
+    expect(t.getPoll(1)).toMatchObject({ phase: 'failed', failures: 2, lastError: 'boom' });
+  });
+
+  it('should render Prometheus metrics', () => {
+    const t = new StatusTracker();
+    t.setWallet('0xabc', 10n ** 18n);
+    t.setBatch(4, 'tally', 2, 5);
+    t.recordProof(4, 'tally', 2000);
+    t.recordFailure(5, 1, 'x');
+
+    const text = t.toPrometheus();
+    expect(text).toContain('sigil_coordinator_wallet_balance_wei{address="0xabc"} 1000000000000000000');
+    expect(text).toContain('sigil_poll_batch_current{poll="4",kind="tally"} 2');
+    expect(text).toContain('sigil_poll_batch_total{poll="4",kind="tally"} 5');
+    expect(text).toContain('sigil_proof_duration_seconds_count{poll="4",kind="tally"} 1');
+    expect(text).toContain('sigil_poll_failures_total{poll="5"} 1');
+    expect(text.endsWith('\n')).toBe(true);
+  });
+});
+
+describe('status server', () => {
+  const tracker = new StatusTracker();
+  const other = new StatusTracker();
+  const dir = mkdtempSync(join(tmpdir(), 'sigil-status-'));
+  let server: Server;
+  let base: string;
+
+  beforeAll(async () => {
+    tracker.setPhase(0, 'tallying');
+    tracker.setBatch(0, 'tally', 1, 3);
+    const file = join(dir, 'tally.json');
+    writeFileSync(file, '{"pollId":1}\n');
+    tracker.setArtifact(1, { hash: '0xabc', uri: null }, file);
+    other.setPhase(5, 'merging');
+    server = await startStatusServer(tracker, 0, '127.0.0.1', { optimism: other });
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((r) => server.close(() => r()));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should serve the full snapshot', async () => {
+    const res = await fetch(`${base}/status`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('access-control-allow-origin')).toBe('*');
+    const body = await res.json();
+    expect(body.polls).toHaveLength(2);
+    expect(body.polls[0].phase).toBe('tallying');
+  });
+
+  it('should serve a single poll', async () => {
+    const res = await fetch(`${base}/status/polls/0`);
+    const body = await res.json();
+    expect(body.batch).toEqual({ kind: 'tally', current: 1, total: 3 });
+  });
+
+  it('should 404 for unknown polls and paths', async () => {
+    expect((await fetch(`${base}/status/polls/9`)).status).toBe(404);
+    expect((await fetch(`${base}/nope`)).status).toBe(404);
+  });
+
+  it('should serve the tally artifact and expose its hash', async () => {
+    const poll = await (await fetch(`${base}/status/polls/1`)).json();
+    expect(poll.artifact).toEqual({ hash: '0xabc', uri: null });
+
+    const res = await fetch(`${base}/status/polls/1/tally.json`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ pollId: 1 });
+    expect((await fetch(`${base}/status/polls/0/tally.json`)).status).toBe(404);
+  });
+
+  it('should route /deployments/<name>/… to that deployment', async () => {
+    expect(await (await fetch(`${base}/deployments`)).json()).toEqual({ deployments: ['optimism'] });
+
+    const body = await (await fetch(`${base}/deployments/optimism/status`)).json();
+    expect(body.polls.map((p: { pollId: number }) => p.pollId)).toEqual([5]);
+    expect((await (await fetch(`${base}/deployments/optimism/status/polls/5`)).json()).phase).toBe('merging');
+    expect(await (await fetch(`${base}/deployments/optimism/metrics`)).text()).toContain('poll="5"');
+
+    expect((await fetch(`${base}/deployments/optimism/status/polls/0`)).status).toBe(404);
+    expect((await fetch(`${base}/deployments/nope/status`)).status).toBe(404);
+  });
+
+  it('should serve Prometheus metrics', async () => {
+    const res = await fetch(`${base}/metrics`);
+    expect(res.headers.get('content-type')).toContain('text/plain');
+    expect(await res.text()).toContain('sigil_poll_step{poll="0",phase="tallying"} 6');
+  });
+});
+
+describe('status server admin endpoints', () => {
+  const retried: [string | null, number][] = [];
+  let server: Server;
+  let base: string;
+
+  beforeAll(async () => {
+    server = await startStatusServer(new StatusTracker(), 0, '127.0.0.1', { optimism: new StatusTracker() }, {
+      token: 'secret',
+      retryPoll: (deployment, pollId) => {
+        retried.push([deployment, pollId]);
+        return pollId === 3;
+      },
+    });
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>((r) => server.close(() => r())));
+
+  const post = (path: string, token = 'secret') =>
+    fetch(`${base}${path}`, { method: 'POST', headers: { Authorization: `Bearer ${token}` } });
+
+  it('should clear a poll failure block for an authorized caller', async () => {
+    expect(await (await post('/admin/polls/3/retry')).json()).toEqual({ pollId: 3, retried: true });
+    expect(await (await post('/deployments/optimism/admin/polls/4/retry')).json()).toEqual({ pollId: 4, retried: false });
+    expect(retried).toEqual([[null, 3], ['optimism', 4]]);
+  });
+
+  it('should reject bad tokens and non-POST requests, and stay read-only without a token', async () => {
+    expect((await post('/admin/polls/3/retry', 'wrong')).status).toBe(401);
+    expect((await fetch(`${base}/admin/polls/3/retry`)).status).toBe(405);
+    expect((await fetch(`${base}/status`, { method: 'POST' })).status).toBe(405);
+    expect(retried).toHaveLength(2);
+
+    const readOnly = await startStatusServer(new StatusTracker(), 0, '127.0.0.1');
+    const url = `http://127.0.0.1:${(readOnly.address() as AddressInfo).port}/admin/polls/3/retry`;
+    expect((await fetch(url, { method: 'POST' })).status).toBe(404);
+    await new Promise<void>((r) => readOnly.close(() => r()));
+  });
+});
@@ -0,0 +1,234 @@
+// @vitest-environment node
+/**
+ * Transaction Submitter + Signer Tests
+ *
+ * A fake provider mines on demand and answers the contracts' view calls;
+ * the remote signer talks to a local JSON-RPC stand-in backed by a Wallet.
+ */
+
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { TransactionSubmitter, TransactionError, decodeRevertReason } from '../src/chain/submitter.js';
+import { RemoteSigner, createSigner, signerConfigFromEnv } from '../src/chain/signer.js';
+import type { ProofResult } from '../src/processing/batchProof.js';
+
+const MP = '0x0000000000000000000000000000000000000a01';
+const TALLY = '0x0000000000000000000000000000000000000a02';
+const FROM = '0x00000000000000000000000000000000000000c0';
+const PROOF: ProofResult = { proof: { pi_a: ['1', '2', '1'], pi_b: [['3', '4'], ['5', '6'], ['1', '0']], pi_c: ['7', '8', '1'] }, publicSignals: ['9'] };
+
+const views = new ethers.Interface([
+  'function currentStateCommitment() view returns (uint256)',
+  'function processingComplete() view returns (bool)',
+  'function tallyCommitment() view returns (uint256)',
+  'function tallyVerified() view returns (bool)',
+]);
+const errors = new ethers.Interface(['error InvalidProcessProof()', 'error AlreadyComplete()']);
+
+/** Node-style estimateGas failure carrying revert data */
+function revertError(name: string): Error {
+  return Object.assign(new Error('execution reverted'), { info: { error: { data: errors.encodeErrorResult(name, []) } } });
+}
+
+type Sent = { hash: string; nonce: number; maxFeePerGas: bigint; maxPriorityFeePerGas: bigint; data: string };
+
+class FakeChain {
+  state: Record<string, unknown> = { currentStateCommitment: 0n, processingComplete: false, tallyCommitment: 0n, tallyVerified: false };
+  nonce = 7;
+  sent: Sent[] = [];
+  mined = new Map<string, ethers.TransactionReceipt>();
+  estimateError: Error | null = null;
+  /** Mine each tx as soon as it is sent (false = leave it pending) */
+  autoMine = true;
+
+  provider = {
+    getTransactionCount: async () => this.nonce,
+    getFeeData: async () => ({ maxFeePerGas: 100n, maxPriorityFeePerGas: 10n, gasPrice: null }),
+    estimateGas: async () => {
+      if (this.estimateError) throw this.estimateError;
+      return 100_000n;
+    },
+    getTransactionReceipt: async (hash: string) => this.mined.get(hash) ?? null,
+    call: async (tx: { data: string }) => {
+      const fn = views.parseTransaction({ data: tx.data })!;
+      return views.encodeFunctionResult(fn.name, [this.state[fn.name]]);
+    },
+  } as unknown as ethers.Provider;
+
+  signer = {
+    provider: this.provider,
+    getAddress: async () => FROM,
+    sendTransaction: async (tx: ethers.TransactionRequest) => {
+      const hash = ethers.id(`tx-${this.sent.length}`);
+      this.sent.push({
+        hash,
+        nonce: Number(tx.nonce),
+        maxFeePerGas: BigInt(tx.maxFeePerGas!),
+        maxPriorityFeePerGas: BigInt(tx.maxPriorityFeePerGas!),
+        data: String(tx.data),
+      });
+      if (this.autoMine) this.mine(hash);
+      return { hash };
+    },
+  } as unknown as ethers.Signer;
+
+  mine(hash: string, status = 1) {
+    this.mined.set(hash, { hash, status, blockNumber: 1 } as ethers.TransactionReceipt);
+    this.nonce++;
+  }
+}
+
+describe('TransactionSubmitter', () => {
+  let chain: FakeChain;
+  let submitter: TransactionSubmitter;
+  let logs: string[];
+
+  beforeEach(() => {
+    chain = new FakeChain();
+    logs = [];
+    submitter = new TransactionSubmitter({
+      signer: chain.signer,
+      log: (m) => logs.push(m),
+      confirmTimeoutMs: 30,
+      receiptPollMs: 5,
+      retryDelayMs: 1,
+    });
+  });
+
+  it('should send with sequential nonces and skip steps already on-chain', async () => {
+    const [a, b] = await Promise.all([
+      submitter.submitProcessProof(MP, 11n, PROOF),
+      submitter.submitTallyProof(TALLY, 22n, PROOF),
+    ]);
+    expect(a.skipped).toBe(false);
+    expect(b.hash).toBe(chain.sent[1].hash);
+    expect(chain.sent.map((t) => t.nonce)).toEqual([7, 8]);
+
+    // Restart after a crash: the contract already holds this commitment
+    chain.state.currentStateCommitment = 11n;
+    chain.state.processingComplete = true;
+    expect(await submitter.submitProcessProof(MP, 11n, PROOF)).toEqual({ hash: null, receipt: null, skipped: true });
+    expect((await submitter.completeProcessing(MP)).skipped).toBe(true);
+    expect(chain.sent).toHaveLength(2);
+  });
+
+  it('should replace a stuck tx with bumped fees on the same nonce', async () => {
+    chain.autoMine = false;
+    submitter = new TransactionSubmitter({ signer: chain.signer, log: () => {}, confirmTimeoutMs: 200, receiptPollMs: 5 });
+    const pending = submitter.publishResults(TALLY, {
+      forVotes: 3n, againstVotes: 1n, abstainVotes: 0n, totalVoters: 2n,
+      tallyResultsRoot: 5n, totalSpent: 10n, perOptionSpentRoot: 6n,
+    });
+    await expect.poll(() => chain.sent.length, { interval: 5 }).toBe(2);
+    chain.mine(chain.sent[1].hash);
+
+    const result = await pending;
+    expect(result.hash).toBe(chain.sent[1].hash);
+    expect(chain.sent.map((t) => t.nonce)).toEqual([7, 7]);
+    expect(chain.sent[1].maxFeePerGas).toBe(120n);
+    expect(chain.sent[1].maxPriorityFeePerGas).toBe(12n);
+  });
+
+  it('should give up on a tx that stays stuck without re-sending under a new nonce', async () => {
+    chain.autoMine = false;
+    const stuck: { label: string; nonce: number; hashes: string[] }[] = [];
+    submitter = new TransactionSubmitter({
+      signer: chain.signer, log: () => {}, confirmTimeoutMs: 10, receiptPollMs: 2, maxFeeBumps: 1, onStuck: (s) => stuck.push(s),
+    });
+
+    const err = await submitter.completeProcessing(MP).catch((e) => e);
+    expect(err).toBeInstanceOf(TransactionError);
+    expect(err.pendingHashes).toHaveLength(2);
+    expect(stuck).toEqual([{ label: 'completeProcessing', nonce: 7, hashes: err.pendingHashes }]);
+    expect(new Set(chain.sent.map((t) => t.nonce))).toEqual(new Set([7]));
+  });
+
+  it('should decode custom errors: fail fast on bad proofs, skip already-done steps', async () => {
+    chain.estimateError = revertError('InvalidProcessProof');
+    const err = await submitter.submitProcessProof(MP, 11n, PROOF).catch((e) => e);
+    expect(err).toBeInstanceOf(TransactionError);
+    expect(err.message).toBe('processMessages: reverted with InvalidProcessProof');
+    expect(logs.some((l) => l.includes('Retrying'))).toBe(false);
+
+    chain.estimateError = revertError('AlreadyComplete');
+    expect((await submitter.completeProcessing(MP)).skipped).toBe(true);
+    expect(chain.sent).toHaveLength(0);
+  });
+});
+
+describe('decodeRevertReason', () => {
+  it('should read custom errors, require messages and nothing from network errors', () => {
+    expect(decodeRevertReason(revertError('AlreadyComplete'))).toEqual({ name: 'AlreadyComplete', args: [] });
+    const data = ethers.concat(['0x08c379a0', ethers.AbiCoder.defaultAbiCoder().encode(['string'], ['nope'])]);
+    expect(decodeRevertReason({ data })).toEqual({ name: 'Error', args: ['nope'] });
+    expect(decodeRevertReason(new Error('ECONNRESET'))).toBeNull();
+  });
+});
+
+describe('signers', () => {
+  const wallet = ethers.Wallet.createRandom();
+  let server: Server;
+  let url: string;
+  let signAs = wallet;
+
+  beforeAll(async () => {
+    // Minimal eth_signTransaction service (Web3Signer / Clef stand-in)
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (c) => { body += c; });
+      req.on('end', async () => {
+        const { id, params } = JSON.parse(body);
+        const [tx] = params;
+        if (req.headers.authorization !== 'Bearer t') {
+          res.end(JSON.stringify({ jsonrpc: '2.0', id, error: { message: 'unauthorized' } }));
+          return;
+        }
+        const raw = await signAs.signTransaction({
+          to: tx.to, data: tx.data, nonce: Number(tx.nonce), gasLimit: tx.gas, chainId: tx.chainId,
+          maxFeePerGas: tx.maxFeePerGas, maxPriorityFeePerGas: tx.maxPriorityFeePerGas, type: 2,
+        });
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, result: raw }));
+      });
+    });
+    await new Promise<void>((r) => server.listen(0, '127.0.0.1', r));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>((r) => server.close(() => r())));
+
+  const tx: ethers.TransactionRequest = {
+    to: MP, data: '0x1234', nonce: 3, gasLimit: 50_000n, chainId: 11155111n,
+    maxFeePerGas: 100n, maxPriorityFeePerGas: 10n, type: 2,
+  };
+
+  it('should build signer configs from env', () => {
+    const env = (vars: Record<string, string>) => (k: string) => vars[k];
+    expect(signerConfigFromEnv(env({ PRIVATE_KEY: 'ab' }))).toEqual({ kind: 'key', privateKey: '0xab' });
+    expect(() => signerConfigFromEnv(env({}), 'OP_PRIVATE_KEY')).toThrow('OP_PRIVATE_KEY not set in .env');
+    expect(signerConfigFromEnv(env({ SIGNER: 'remote', REMOTE_SIGNER_URL: 'http://s', REMOTE_SIGNER_ADDRESS: FROM })))
+      .toEqual({ kind: 'remote', url: 'http://s', address: FROM, token: undefined });
+    expect(() => signerConfigFromEnv(env({ SIGNER: 'keystore' }))).toThrow('WALLET_KEYSTORE_PATH');
+    expect(() => signerConfigFromEnv(env({ SIGNER: 'hsm' }))).toThrow('Unknown SIGNER');
+  });
+
+  it('should sign through the remote service and check who signed', async () => {
+    const provider = new ethers.JsonRpcProvider(url, 11155111, { staticNetwork: true });
+    const signer = await createSigner({ kind: 'remote', url, address: wallet.address, token: 't' }, provider);
+    expect(signer).toBeInstanceOf(RemoteSigner);
+    provider.destroy();
+
+    const raw = await signer.signTransaction(tx);
+    const parsed = ethers.Transaction.from(raw);
+    expect(parsed.from).toBe(wallet.address);
+    expect([parsed.nonce, parsed.to, parsed.data]).toEqual([3, MP, '0x1234']);
+
+    signAs = ethers.Wallet.createRandom();
+    await expect(signer.signTransaction(tx)).rejects.toThrow('Remote signer signed for');
+    signAs = wallet;
+
+    const anonymous = new RemoteSigner({ url, address: wallet.address });
+    await expect(anonymous.signTransaction(tx)).rejects.toThrow('unauthorized');
+  });
+});
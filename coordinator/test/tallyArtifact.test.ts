@@ -0,0 +1,121 @@
+/**
+ * Tally Artifact + Uploader Tests
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  buildTallyArtifact, serializeTallyArtifact, hashTallyArtifact, tallyArtifactFileName, writeTallyArtifact,
+  type TallyArtifactInput,
+} from '../src/publish/tallyArtifact.js';
+import { parseUploadResponse } from '../src/publish/uploader.js';
+import type { PollCheckpoint } from '../src/state/checkpoint.js';
+
+const MACI = '0xAbC0000000000000000000000000000000000001';
+const PROOF = {
+  proof: { pi_a: ['1', '2', '1'], pi_b: [['3', '4'], ['5', '6'], ['1', '0']], pi_c: ['7', '8', '1'] },
+  publicSignals: ['99'],
+};
+
+function makeInput(): TallyArtifactInput {
+  const checkpoint: PollCheckpoint = {
+    version: 1,
+    maciAddress: MACI,
+    pollId: 2,
+    processBatches: [
+      { batch: 1, messageIndices: [1, 0], newStateCommitment: 11n, outputStateRoot: 1n, outputBallotRoot: 2n, proof: PROOF, txHash: '0xp1' },
+    ],
+    tallyBatches: [
+      { batch: 1, newTallyCommitment: 21n, txHash: '0xt1' },
+    ],
+    publishTx: '0xpub',
+    updatedAt: 0,
+  };
+  return {
+    maci: MACI,
+    pollId: 2,
+    chainId: 11155111n,
+    contracts: { poll: '0x01', messageProcessor: '0x02', tally: '0x03' },
+    circuit: { mode: 'dev', stateTreeDepth: 2, messageBatchSize: 2, tallyBatchSize: 2, voteOptions: 5 },
+    voteOptions: [],
+    stateCommitment: 5n,
+    tallyCommitment: 21n,
+    tally: [3n, 4n, 1n, 0n, 0n],
+    tallyResultsRoot: 77n,
+    perOptionSpent: [9n, 16n, 1n, 0n, 0n],
+    perOptionSpentRoot: 88n,
+    totalSpent: 26n,
+    totalVoters: 3,
+    checkpoint,
+  };
+}
+
+describe('buildTallyArtifact', () => {
+  it('should map option indices to published for/against/abstain', () => {
+    const a = buildTallyArtifact(makeInput());
+    expect(a.published).toEqual({
+      forVotes: '4', againstVotes: '3', abstainVotes: '1', totalVoters: 3, txHash: '0xpub',
+    });
+    expect(a.results).toEqual({ tally: ['3', '4', '1', '0', '0'], root: '77' });
+    expect(a.perOptionSpent.root).toBe('88');
+    expect(a.totalSpent).toBe('26');
+    expect(a.chainId).toBe('11155111');
+  });
+
+  it('should label the per-option results of a multi-choice poll', () => {
+    const a = buildTallyArtifact({ ...makeInput(), voteOptions: ['Red', 'Green', 'Blue', 'Black'] });
+    expect(a.voteOptions).toEqual(['Red', 'Green', 'Blue', 'Black']);
+    expect(a.results.tally).toEqual(['3', '4', '1', '0', '0']);
+    expect(buildTallyArtifact(makeInput()).voteOptions).toEqual([]);
+  });
+
+  it('should include batch commitments, proofs and tx hashes', () => {
+    const a = buildTallyArtifact(makeInput());
+    expect(a.processBatches[0]).toEqual({
+      batch: 1, commitment: '11', proof: PROOF.proof, publicSignals: ['99'], txHash: '0xp1',
+    });
+    // Batches accepted before a restart may have no stored proof
+    expect(a.tallyBatches[0]).toMatchObject({ commitment: '21', proof: null, publicSignals: null });
+  });
+});
+
+describe('artifact file', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should hash the exact bytes written', () => {
+    dir = mkdtempSync(join(tmpdir(), 'sigil-tally-'));
+    const content = serializeTallyArtifact(buildTallyArtifact(makeInput()));
+    const file = writeTallyArtifact(dir, tallyArtifactFileName(MACI, 2), content);
+
+    expect(file.endsWith(`${MACI.toLowerCase()}-poll-2-tally.json`)).toBe(true);
+    expect(hashTallyArtifact(readFileSync(file, 'utf8'))).toBe(hashTallyArtifact(content));
+    expect(hashTallyArtifact(content)).toMatch(/^0x[0-9a-f]{64}$/);
+  });
+});
+
+describe('parseUploadResponse', () => {
+  it('should turn CIDs into ipfs:// URIs', () => {
+    expect(parseUploadResponse('{"cid":"bafy123"}')).toBe('ipfs://bafy123');
+    expect(parseUploadResponse('{"IpfsHash":"Qm1"}')).toBe('ipfs://Qm1');
+  });
+
+  it('should take the last line of a streamed IPFS add response', () => {
+    const body = '{"Name":"x","Bytes":10}\n{"Name":"tally.json","Hash":"QmLast","Size":"10"}\n';
+    expect(parseUploadResponse(body)).toBe('ipfs://QmLast');
+  });
+
+  it('should prefer an explicit uri', () => {
+    expect(parseUploadResponse('{"uri":"https://cdn/x.json","cid":"abc"}')).toBe('https://cdn/x.json');
+  });
+
+  it('should reject responses without a location', () => {
+    expect(() => parseUploadResponse('{"ok":true}')).toThrow('no cid or uri');
+    expect(() => parseUploadResponse('<html>')).toThrow('non-JSON');
+  });
+});
@@ -25,7 +25,7 @@ contract DeployMACIScript is Script {
         AccQueue stateAq = new AccQueue(5, 2);
         console.log("AccQueue:", address(stateAq));
 
-        // Fresh MACI with security hardening
+        // Fresh MACI with deployPollWithOptions / deployPollWithMetadata
         MACI maci = new MACI(GATEKEEPER, VOICE_CREDIT_PROXY, 2, address(stateAq));
         console.log("MACI:", address(maci));
 
@@ -35,9 +35,12 @@ contract DeployMACIScript is Script {
 
         vm.stopBroadcast();
 
-        console.log("\n=== MACI V10 Deployment (canCreatePoll owner-only fix) ===");
+        console.log("\n=== MACI V11 Deployment (multi-choice polls, poll metadata) ===");
         console.log("  maci:", address(maci));
         console.log("  stateAq:", address(stateAq));
         console.log("  Reused: gatekeeper, voiceCreditProxy, verifiers, vkRegistry");
+        console.log("\nNext steps:");
+        console.log("  1. Update src/config.json v2: maci, accQueue, deployBlock (messageTreeDepth=2, maxVoteOptions=5)");
+        console.log("  2. Restart the coordinator (it reads src/config.json unless MACI_ADDRESS is set)");
     }
 }
@@ -63,10 +63,11 @@ contract DeployProdScript is Script {
         console.log("  tallyVerifier:", address(tallyVerifier));
         console.log("  vkRegistry:", address(vkRegistry));
         console.log("\nNext steps:");
-        console.log("  1. Update src/config.json with new addresses");
+        console.log("  1. Update src/config.json with new addresses (messageTreeDepth=4, maxVoteOptions=25)");
         console.log("  2. Set CIRCUIT_MODE=prod in .env for coordinator");
         console.log(
             "  3. Deploy a poll: MACI.deployPoll(title, duration, coordPubX, coordPubY, mpVerifier, tallyVerifier, vkRegistry, 4)"
         );
+        console.log("     or deployPollWithOptions(..., 4, labels) for up to 25 labelled options");
     }
 }
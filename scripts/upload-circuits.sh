@@ -1,15 +1,21 @@
 #!/bin/bash
 # Upload circuit files to GitHub Release for CI/CD use
 # Run once: bash scripts/upload-circuits.sh
+#
+# Assets are flat file names, so the release doubles as a coordinator
+# download location: CIRCUIT_BASE_URL=https://github.com/<owner>/<repo>/releases/download/<tag>
+# (see coordinator/src/config/circuitArtifacts.ts, `sigil-coordinator circuits fetch`)
 
 set -e
 
-RELEASE_TAG="circuits-v1"
+RELEASE_TAG="${RELEASE_TAG:-circuits-v1}"
 FILES=(
   "circuits/build_maci/MessageProcessor_final.zkey"
   "circuits/build_maci/TallyVotes_final.zkey"
   "circuits/build_maci/MessageProcessor_js/MessageProcessor.wasm"
   "circuits/build_maci/TallyVotes_js/TallyVotes.wasm"
+  "circuits/build_maci/MessageProcessor_verification_key.json"
+  "circuits/build_maci/TallyVotes_verification_key.json"
 )
 
 echo "Checking circuit files..."
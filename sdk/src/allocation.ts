@@ -0,0 +1,95 @@
+/**
+ * Split Votes
+ *
+ * A MACI ballot holds a weight per vote option, set by one command each.
+ * Spreading voice credits over several options therefore takes one message
+ * per option, all signed by the same key with consecutive nonces.
+ *
+ * The coordinator processes messages last-first and accepts a command only
+ * when its nonce is ballot.nonce + 1, so the batch is published highest
+ * nonce first: the message sent last carries the lowest nonce and is
+ * applied first.
+ *
+ * Until that last message is on-chain, the ones already published are not
+ * applied (the lowest of them is still ahead of the ballot's nonce), so an
+ * interrupted batch is finished by publishing the rest, not by voting again
+ * at later nonces.
+ */
+
+import type { AllocationReceipt, VoteAllocation } from './types.js';
+
+/** One command of a split vote, in publish order */
+export interface AllocationMessage extends VoteAllocation {
+  nonce: number;
+}
+
+/** Quadratic cost of a split vote: sum of numVotes² */
+export function allocationCost(allocations: VoteAllocation[]): number {
+  return allocations.reduce((sum, a) => sum + a.numVotes * a.numVotes, 0);
+}
+
+/**
+ * Check a split vote against the poll's options and the voter's balance.
+ * @returns The credits it spends
+ */
+export function validateAllocation(
+  allocations: VoteAllocation[],
+  numOptions: number,
+  voiceCredits: number,
+): number {
+  if (allocations.length === 0) throw new Error('Allocation must name at least one option');
+
+  const seen = new Set<number>();
+  for (const { optionIndex, numVotes } of allocations) {
+    if (!Number.isInteger(optionIndex) || optionIndex < 0 || optionIndex >= numOptions) {
+      throw new Error(`Option ${optionIndex} out of range: poll has ${numOptions} options`);
+    }
+    if (seen.has(optionIndex)) throw new Error(`Option ${optionIndex} allocated twice`);
+    seen.add(optionIndex);
+    if (!Number.isInteger(numVotes) || numVotes < 0) {
+      throw new Error(`Votes for option ${optionIndex} must be a non-negative integer`);
+    }
+  }
+
+  const cost = allocationCost(allocations);
+  if (cost > voiceCredits) {
+    throw new Error(`Allocation costs ${cost} credits but only ${voiceCredits} are available`);
+  }
+  return cost;
+}
+
+/**
+ * Assign nonces firstNonce.. to the allocations (in the order given) and
+ * return them in publish order, highest nonce first.
+ */
+export function planAllocationMessages(allocations: VoteAllocation[], firstNonce: number): AllocationMessage[] {
+  return allocations
+    .map((a, i) => ({ optionIndex: a.optionIndex, numVotes: a.numVotes, nonce: firstNonce + i }))
+    .reverse();
+}
+
+/**
+ * Thrown when publishing a split vote fails after some of its messages
+ * went out. Those messages only count once the rest are published, which
+ * resume() does with the same messages and nonces; the voter's nonce moves
+ * past the batch only when it completes.
+ */
+export class AllocationInterruptedError extends Error {
+  constructor(
+    /** publishMessage transactions that did go through, in order */
+    readonly txHashes: string[],
+    /** Messages in the batch */
+    readonly total: number,
+    /** Publish the remaining messages; throws this error again if interrupted */
+    readonly resume: () => Promise<AllocationReceipt>,
+    cause: unknown,
+  ) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Allocation interrupted after ${txHashes.length} of ${total} messages: ${reason}`, { cause });
+    this.name = 'AllocationInterruptedError';
+  }
+
+  get published(): number {
+    return this.txHashes.length;
+  }
+}
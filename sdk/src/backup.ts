@@ -0,0 +1,201 @@
+/**
+ * Encrypted Key Backups
+ *
+ * Exports a wallet's MACI keys, state index and per-poll nonces so they can
+ * be restored on another device. Rotated poll keys (after a key change)
+ * can't be re-derived from the wallet signature, so losing them breaks
+ * re-votes; the nonces matter as much, since a message with a stale nonce
+ * is silently discarded by the coordinator.
+ *
+ * File format (JSON):
+ *   { format: 'sigil-key-backup', version: 1,
+ *     kdf: { name: 'scrypt', N, r, p, salt },    // hex salt
+ *     cipher: { name: 'AES-GCM', iv },            // hex 96-bit IV
+ *     ciphertext }                                 // base64 of the contents JSON
+ *
+ * The AES-256 key comes from the passphrase through scrypt; the GCM tag
+ * rejects a wrong passphrase or a modified file.
+ */
+
+import { scryptAsync } from '@noble/hashes/scrypt.js';
+import { bytesToHex, hexToBytes, randomBytes, utf8ToBytes } from '@noble/hashes/utils.js';
+import { aesGcmDecrypt, aesGcmEncrypt, fromBase64, toBase64 } from './crypto/aesGcm.js';
+
+export const KEY_BACKUP_FORMAT = 'sigil-key-backup';
+export const KEY_BACKUP_VERSION = 1;
+
+export interface ScryptParams {
+  /** CPU/memory cost, a power of 2 */
+  N: number;
+  r: number;
+  p: number;
+}
+
+/** 2^17 × 8 × 128 bytes = 128 MiB, about a second in a browser */
+export const DEFAULT_SCRYPT_PARAMS: ScryptParams = { N: 2 ** 17, r: 8, p: 1 };
+
+// scrypt holds 128·N·r bytes and p repeats the work: a file may cost at most
+// 4× the default (512 MiB), so a crafted backup can't exhaust memory
+const MAX_SCRYPT_COST = 4 * DEFAULT_SCRYPT_PARAMS.N * DEFAULT_SCRYPT_PARAMS.r * DEFAULT_SCRYPT_PARAMS.p;
+const MAX_SCRYPT_R = 16;
+const MAX_SCRYPT_P = 4;
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export interface KeyBackupPoll {
+  pollId: number;
+  /** Poll-specific key after a key change (decimal strings); absent while the poll uses the signUp key */
+  sk?: string;
+  pubKey?: [string, string];
+  /** Next MACI nonce for this poll */
+  nonce: number;
+}
+
+export interface KeyBackupAccount {
+  maciAddress: string;
+  /** Wallet address */
+  address: string;
+  /** State leaf from the SignUp event; null if the wallet never signed up */
+  stateIndex: number | null;
+  /** Key registered at signUp (decimal strings) */
+  sk: string | null;
+  pubKey: [string, string] | null;
+  polls: KeyBackupPoll[];
+}
+
+export interface KeyBackupContents {
+  version: typeof KEY_BACKUP_VERSION;
+  /** Unix time in seconds */
+  createdAt: number;
+  accounts: KeyBackupAccount[];
+}
+
+export interface KeyBackupFile {
+  format: typeof KEY_BACKUP_FORMAT;
+  version: typeof KEY_BACKUP_VERSION;
+  kdf: { name: 'scrypt'; salt: string } & ScryptParams;
+  cipher: { name: 'AES-GCM'; iv: string };
+  ciphertext: string;
+}
+
+/** Encrypt backup contents under a passphrase */
+export async function encryptKeyBackup(
+  contents: KeyBackupContents,
+  passphrase: string,
+  params: ScryptParams = DEFAULT_SCRYPT_PARAMS,
+): Promise<KeyBackupFile> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Backup passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  validateContents(contents);
+  checkScryptParams(params);
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const key = await deriveKey(passphrase, salt, params);
+  const ciphertext = await aesGcmEncrypt(key, iv, utf8ToBytes(JSON.stringify(contents)));
+  return {
+    format: KEY_BACKUP_FORMAT,
+    version: KEY_BACKUP_VERSION,
+    kdf: { name: 'scrypt', N: params.N, r: params.r, p: params.p, salt: bytesToHex(salt) },
+    cipher: { name: 'AES-GCM', iv: bytesToHex(iv) },
+    ciphertext: toBase64(ciphertext),
+  };
+}
+
+/** Decrypt a backup file (parsed JSON); throws on a wrong passphrase or a malformed file */
+export async function decryptKeyBackup(file: unknown, passphrase: string): Promise<KeyBackupContents> {
+  const f = file as Partial<KeyBackupFile> | null;
+  if (f?.format !== KEY_BACKUP_FORMAT) throw new Error('Not a key backup file');
+  if (f.version !== KEY_BACKUP_VERSION) throw new Error(`Unsupported key backup version ${String(f.version)}`);
+  const { kdf, cipher } = f;
+  if (kdf?.name !== 'scrypt' || cipher?.name !== 'AES-GCM' || typeof f.ciphertext !== 'string') {
+    throw new Error('Unsupported key backup encryption');
+  }
+  const params = { N: kdf.N, r: kdf.r, p: kdf.p };
+  checkScryptParams(params);
+
+  const key = await deriveKey(passphrase, hexToBytes(kdf.salt), params);
+  let plaintext: Uint8Array;
+  try {
+    plaintext = await aesGcmDecrypt(key, hexToBytes(cipher.iv), fromBase64(f.ciphertext));
+  } catch {
+    throw new Error('Wrong passphrase or corrupted key backup');
+  }
+  const contents = JSON.parse(new TextDecoder().decode(plaintext)) as KeyBackupContents;
+  validateContents(contents);
+  return contents;
+}
+
+/**
+ * Check an account from a backup before restoring it: every key must match
+ * its public key, and the signUp key must be the one registered on-chain
+ * for the account's state index (signUpPubKey, from its SignUp event; null
+ * when there is no such event).
+ */
+export async function verifyBackupAccount(
+  account: KeyBackupAccount,
+  signUpPubKey: [bigint, bigint] | null,
+  derivePublicKey: (sk: bigint) => Promise<[bigint, bigint]>,
+): Promise<void> {
+  const matches = async (sk: string, pubKey: [string, string]) => {
+    const derived = await derivePublicKey(BigInt(sk));
+    return derived[0] === BigInt(pubKey[0]) && derived[1] === BigInt(pubKey[1]);
+  };
+
+  if (account.sk && account.pubKey && !(await matches(account.sk, account.pubKey))) {
+    throw new Error(`Backup key of ${account.address} does not match its public key`);
+  }
+  for (const poll of account.polls) {
+    if (poll.sk && poll.pubKey && !(await matches(poll.sk, poll.pubKey))) {
+      throw new Error(`Backup key of ${account.address} for poll ${poll.pollId} does not match its public key`);
+    }
+  }
+  if (account.stateIndex === null) return;
+  if (!signUpPubKey) throw new Error(`No SignUp event for state index ${account.stateIndex}`);
+  if (!account.pubKey || BigInt(account.pubKey[0]) !== signUpPubKey[0] || BigInt(account.pubKey[1]) !== signUpPubKey[1]) {
+    throw new Error(`Backup key of ${account.address} is not the one signed up at state index ${account.stateIndex}`);
+  }
+}
+
+function validateContents(contents: KeyBackupContents): void {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid key backup: ${reason}`);
+  };
+  const isKey = (v: unknown) => typeof v === 'string' && /^\d+$/.test(v);
+  const isPubKey = (v: unknown) => Array.isArray(v) && v.length === 2 && v.every(isKey);
+
+  if (contents?.version !== KEY_BACKUP_VERSION || !Array.isArray(contents.accounts)) fail('missing accounts');
+  for (const a of contents.accounts) {
+    if (typeof a.maciAddress !== 'string' || typeof a.address !== 'string') fail('account without addresses');
+    if (a.stateIndex !== null && !(Number.isInteger(a.stateIndex) && a.stateIndex > 0)) fail(`bad state index for ${a.address}`);
+    if ((a.sk === null) !== (a.pubKey === null) || (a.sk !== null && (!isKey(a.sk) || !isPubKey(a.pubKey)))) {
+      fail(`bad signUp key for ${a.address}`);
+    }
+    if (!Array.isArray(a.polls)) fail(`polls missing for ${a.address}`);
+    for (const p of a.polls) {
+      if (!Number.isInteger(p.pollId) || p.pollId < 0 || !Number.isInteger(p.nonce) || p.nonce < 1) {
+        fail(`bad poll entry for ${a.address}`);
+      }
+      if ((p.sk === undefined) !== (p.pubKey === undefined) || (p.sk !== undefined && (!isKey(p.sk) || !isPubKey(p.pubKey)))) {
+        fail(`bad key for ${a.address} in poll ${p.pollId}`);
+      }
+    }
+  }
+}
+
+function checkScryptParams({ N, r, p }: ScryptParams): void {
+  if (!isPowerOf2(N) || !inRange(r, MAX_SCRYPT_R) || !inRange(p, MAX_SCRYPT_P) || N * r * p > MAX_SCRYPT_COST) {
+    throw new Error('Key backup scrypt parameters out of range');
+  }
+}
+
+function deriveKey(passphrase: string, salt: Uint8Array, params: ScryptParams): Promise<Uint8Array> {
+  return scryptAsync(utf8ToBytes(passphrase.normalize('NFKC')), salt, { ...params, dkLen: 32 });
+}
+
+function isPowerOf2(n: unknown): boolean {
+  return Number.isInteger(n) && (n as number) > 1 && ((n as number) & ((n as number) - 1)) === 0;
+}
+
+function inRange(n: unknown, max: number): boolean {
+  return Number.isInteger(n) && (n as number) >= 1 && (n as number) <= max;
+}
@@ -13,24 +13,53 @@
  *
  *   // Vote (auto-registers if needed)
  *   await sigil.vote(0, 'for', 3); // 3 votes = 9 credits
+ *   await sigil.voteOption(1, 2, 1); // multi-choice poll: option index 2
+ *   await sigil.voteAllocation(1, [{ optionIndex: 0, numVotes: 2 }, { optionIndex: 2, numVotes: 1 }]); // 5 credits
  *
  *   // Get results (after finalization)
  *   const results = await sigil.getResults(0);
+ *   const perOption = await sigil.getOptionResults(1, { artifactUrl });
+ *
+ *   // Follow a poll (polling with backoff; also an async iterable)
+ *   sigil.watchPoll(0).on('finalized', (ev) => console.log(ev.results));
+ *
+ *   // Audit the coordinator's tally.json against the chain
+ *   const report = await sigil.verifyTally(0, { artifactUrl });
  */
 
 import { ethers } from 'ethers';
 import type {
   Poll, PollStatus, PollResults, VoteChoice, VoteReceipt,
   SignUpResult, VoteOptions, KeyChangeResult,
-  ExecutionState,
+  ExecutionState, PollOptionResults,
+  VoteAllocation, AllocationOptions, AllocationReceipt,
+  SigilEvent, SigilEventType, PollSnapshot, WatchPollOptions, GetPollsOptions,
+  KeyRestoreReport,
 } from './types.js';
+import { DEFAULT_VOTE_OPTIONS } from './types.js';
 import type { SigilStorage } from './storage.js';
 import { createDefaultStorage } from './storage.js';
 import { createStorageKeys, type StorageKeys } from './storageKeys.js';
+import {
+  EventIndexer, ethersLogSource, createDefaultIndexerStore,
+  type IndexerStore, type IndexedLog,
+} from './indexer.js';
 import { KeyManager } from './keyManager.js';
 import { buildEncryptedVoteMessage, buildEncryptedKeyChangeMessage } from './message.js';
+import { validateAllocation, planAllocationMessages, AllocationInterruptedError } from './allocation.js';
 import { eddsaDerivePublicKey } from './crypto/eddsa.js';
 import { derivePrivateKey } from './crypto/blake512.js';
+import { SigilEventEmitter, PollWatcher, type SigilEventHandler } from './events.js';
+import { MulticallReader, MULTICALL3_ADDRESS, type ContractCall } from './multicall.js';
+import { readPollMetadata, type MetadataStore, type PollMetadata } from './metadata.js';
+import {
+  encryptKeyBackup, decryptKeyBackup, verifyBackupAccount, KEY_BACKUP_VERSION,
+  type KeyBackupFile, type ScryptParams,
+} from './backup.js';
+import {
+  verifyTallyArtifact, fetchTallyArtifact, readOptionResults,
+  type VerifyTallyOptions, type TallyVerificationReport,
+} from './verify.js';
 
 export interface SigilConfig {
   /** MACI contract address */
@@ -43,8 +72,14 @@ export interface SigilConfig {
   coordinatorPubKey?: [bigint, bigint];
   /** Deploy block for MACI (used for efficient log scans) */
   deployBlock?: number | bigint;
-  /** Log chunk size for event scanning (default: 2000 blocks) */
+  /** Log chunk size for event scanning (default: 2000 blocks, halved on RPC errors) */
   logChunkSize?: number;
+  /** Event cache for incremental log scans (defaults to IndexedDB or in-memory) */
+  indexerStore?: IndexerStore;
+  /** Multicall3 address for batched reads (default: the canonical deployment; null: individual calls) */
+  multicallAddress?: string | null;
+  /** Where poll metadata documents are read from (getPolls, getPollMetadata) and written to (storePollMetadata) */
+  metadataStore?: MetadataStore;
   /** Custom storage backend (defaults to localStorage or MemoryStorage) */
   storage?: SigilStorage;
   /** TimelockExecutor contract address */
@@ -59,7 +94,8 @@ const MACI_ABI = [
   'function nextPollId() view returns (uint256)',
   'function polls(uint256) view returns (address)',
   'function numSignUps() view returns (uint256)',
-  'event SignUp(uint256 indexed _stateIndex, uint256 indexed _pubKeyX, uint256 indexed _pubKeyY, uint256 _voiceCreditBalance, uint256 _timestamp)',
+  'function stateTreeDepth() view returns (uint8)',
+  'event SignUp(uint256 indexed _stateIndex, uint256 indexed _pubKeyX, uint256 _pubKeyY, uint256 _voiceCreditBalance, uint256 _timestamp)',
   'event DeployPoll(uint256 indexed pollId, address pollAddr, address messageProcessorAddr, address tallyAddr)',
 ];
 
@@ -72,6 +108,22 @@ const POLL_ABI = [
   'function coordinatorPubKeyY() view returns (uint256)',
   'function stateAqMerged() view returns (bool)',
   'function messageAqMerged() view returns (bool)',
+  'function messageAq() view returns (address)',
+  'function getOptionLabels() view returns (string[])',
+  'function title() view returns (string)',
+  'function metadataHash() view returns (bytes32)',
+  'event MessagePublished(uint256 indexed messageIndex, uint256[10] encMessage, uint256 encPubKeyX, uint256 encPubKeyY)',
+];
+
+const MESSAGE_PROCESSOR_ABI = [
+  'function currentStateCommitment() view returns (uint256)',
+  'function processedBatchCount() view returns (uint256)',
+  'function expectedBatchCount() view returns (uint256)',
+  'function processingComplete() view returns (bool)',
+];
+
+const ACC_QUEUE_ABI = [
+  'function mainRoot() view returns (uint256)',
 ];
 
 const TALLY_ABI = [
@@ -80,6 +132,7 @@ const TALLY_ABI = [
   'function againstVotes() view returns (uint256)',
   'function abstainVotes() view returns (uint256)',
   'function totalVoters() view returns (uint256)',
+  'function tallyCommitment() view returns (uint256)',
 ];
 
 const TIMELOCK_EXECUTOR_ABI = [
@@ -103,6 +156,18 @@ const DELEGATION_REGISTRY_ABI = [
 
 const MACI_KEY_MESSAGE = 'SIGIL Voting Key v1';
 
+/** Fields of a poll that never change once it is deployed */
+type PollStatic = {
+  address: string;
+  tallyAddr: string | null;
+  title: string;
+  deployTime: number;
+  duration: number;
+  labels: string[];
+  /** null for a poll deployed without metadata */
+  metadataHash: string | null;
+};
+
 type DeployPollEvent = {
   pollId: number;
   pollAddr: string;
@@ -119,13 +184,21 @@ export class SigilClient {
   private coordinatorPubKeyCache = new Map<number, [bigint, bigint]>();
   private keyManager: KeyManager;
   private storageKeys: StorageKeys;
-  private storage: SigilStorage;
   private timelockExecutorAddress?: string;
   private delegationRegistryAddress?: string;
   private deployBlock?: number;
   private logChunkSize: number;
   private deployPollCache?: { block: number; events: DeployPollEvent[] };
+  private indexerStore: IndexerStore;
+  private indexer?: Promise<EventIndexer>;
   private maciInterface = new ethers.Interface(MACI_ABI);
+  private pollInterface = new ethers.Interface(POLL_ABI);
+  private tallyInterface = new ethers.Interface(TALLY_ABI);
+  private multicall: MulticallReader;
+  private pollStaticCache = new Map<number, PollStatic>();
+  private metadataStore?: MetadataStore;
+  private metadataCache = new Map<string, PollMetadata | null>();
+  private events = new SigilEventEmitter();
 
   constructor(config: SigilConfig) {
     this.provider = config.provider;
@@ -133,13 +206,15 @@ export class SigilClient {
     this.maciAddress = config.maciAddress;
     this.coordinatorPubKeyOverride = config.coordinatorPubKey;
     this.maci = new ethers.Contract(config.maciAddress, MACI_ABI, config.signer ?? config.provider);
-    this.storage = config.storage ?? createDefaultStorage();
     this.storageKeys = createStorageKeys(config.maciAddress);
-    this.keyManager = new KeyManager(this.storage, this.storageKeys);
+    this.keyManager = new KeyManager(config.storage ?? createDefaultStorage(), this.storageKeys);
     this.timelockExecutorAddress = config.timelockExecutorAddress;
     this.delegationRegistryAddress = config.delegationRegistryAddress;
     this.deployBlock = typeof config.deployBlock === 'bigint' ? Number(config.deployBlock) : config.deployBlock;
     this.logChunkSize = config.logChunkSize && config.logChunkSize > 0 ? config.logChunkSize : 2000;
+    this.indexerStore = config.indexerStore ?? createDefaultIndexerStore();
+    this.metadataStore = config.metadataStore;
+    this.multicall = new MulticallReader(this.provider, config.multicallAddress === undefined ? MULTICALL3_ADDRESS : config.multicallAddress);
   }
 
   /** Get total number of deployed polls */
@@ -147,38 +222,35 @@ export class SigilClient {
     return Number(await this.maci.nextPollId());
   }
 
+  /** Indexer namespaced by chain id, so one IndexedDB serves every network */
+  private getIndexer(): Promise<EventIndexer> {
+    this.indexer ??= this.provider.getNetwork().then((network) => new EventIndexer(
+      ethersLogSource(this.provider),
+      this.indexerStore,
+      { chunkSize: this.logChunkSize, minChunkSize: Math.min(this.logChunkSize, 100), namespace: network.chainId.toString() },
+    ));
+    return this.indexer;
+  }
+
   private async getDeployPollEvents(): Promise<DeployPollEvent[]> {
     const latest = await this.provider.getBlockNumber();
     if (this.deployPollCache && this.deployPollCache.block === latest) {
       return this.deployPollCache.events;
     }
 
-    const fromBlock = Math.max(0, this.deployBlock ?? 0);
+    const topic = this.maciInterface.getEvent('DeployPoll')!.topicHash;
     const events: DeployPollEvent[] = [];
-    const deployEvent = this.maciInterface.getEvent('DeployPoll');
-    const topic = this.maciInterface.getEventTopic(deployEvent);
-
-    for (let start = fromBlock; start <= latest; start += this.logChunkSize) {
-      const end = Math.min(start + this.logChunkSize - 1, latest);
-      const logs = await this.provider.getLogs({
-        address: this.maciAddress,
-        fromBlock: start,
-        toBlock: end,
-        topics: [topic],
-      });
-      for (const log of logs) {
-        try {
-          const parsed = this.maciInterface.parseLog(log);
-          const pollId = Number(parsed.args.pollId);
-          events.push({
-            pollId,
-            pollAddr: parsed.args.pollAddr,
-            messageProcessorAddr: parsed.args.messageProcessorAddr,
-            tallyAddr: parsed.args.tallyAddr,
-          });
-        } catch {
-          // Skip unparseable log
-        }
+    for (const log of await this.scanLogs(this.maciAddress, topic)) {
+      try {
+        const parsed = this.maciInterface.parseLog(log)!;
+        events.push({
+          pollId: Number(parsed.args.pollId),
+          pollAddr: parsed.args.pollAddr,
+          messageProcessorAddr: parsed.args.messageProcessorAddr,
+          tallyAddr: parsed.args.tallyAddr,
+        });
+      } catch {
+        // Skip unparseable log
       }
     }
 
@@ -193,65 +265,178 @@ export class SigilClient {
     return match?.tallyAddr ?? null;
   }
 
-  /** Get all polls with their status */
-  async getPolls(): Promise<Poll[]> {
+  /**
+   * Polls in ID order with their status.
+   *
+   * Reads are batched through Multicall3 (or sent concurrently where it is
+   * not deployed); fields fixed at deployment are cached per poll. offset /
+   * limit page through poll IDs, or through the matching polls when status
+   * is given (which reads every poll's status to filter).
+   */
+  async getPolls(options: GetPollsOptions = {}): Promise<Poll[]> {
+    const { offset = 0, limit = Infinity, status } = options;
     const count = await this.getPollCount();
-    if (count === 0) return [];
+    const from = status ? 0 : Math.max(0, offset);
+    const to = status ? count : Math.min(count, from + Math.max(0, limit));
+    const polls = await this.readPolls(Array.from({ length: Math.max(0, to - from) }, (_, i) => from + i));
+    return status ? polls.filter((p) => p.status === status).slice(offset, offset + limit) : polls;
+  }
 
-    const events = await this.getDeployPollEvents();
-    const tallyMap = new Map<number, string>();
-    for (const ev of events) {
-      tallyMap.set(ev.pollId, ev.tallyAddr);
+  /** Get a single poll by ID */
+  async getPoll(pollId: number): Promise<Poll | null> {
+    if (!Number.isInteger(pollId) || pollId < 0 || pollId >= await this.getPollCount()) return null;
+    const [poll] = await this.readPolls([pollId]);
+    return poll ?? null;
+  }
+
+  /**
+   * The metadata document a poll was deployed with, checked against
+   * Poll.metadataHash and the poll's option labels. Null if the poll has no
+   * metadata or the store doesn't have it; throws on a mismatch.
+   */
+  async getPollMetadata(pollId: number): Promise<PollMetadata | null> {
+    if (!this.metadataStore) throw new Error('metadataStore required to read poll metadata');
+    if (!Number.isInteger(pollId) || pollId < 0 || pollId >= await this.getPollCount()) return null;
+    const s = (await this.readPollStatics([pollId])).get(pollId);
+    if (!s?.metadataHash) return null;
+
+    const metadata = await this.loadMetadata(s.metadataHash);
+    if (metadata?.options && s.labels.length > 0 && metadata.options.join('\n') !== s.labels.join('\n')) {
+      throw new Error(`Poll ${pollId} metadata options do not match its on-chain labels`);
     }
+    return metadata;
+  }
 
-    const polls: Poll[] = [];
-    for (let i = 0; i < count; i++) {
-      const pollAddr = await this.maci.polls(i);
-      if (pollAddr === ethers.ZeroAddress) continue;
+  /** Current state of the given polls, in two batched reads once their static fields are cached */
+  private async readPolls(ids: number[]): Promise<Poll[]> {
+    if (ids.length === 0) return [];
+    const statics = await this.readPollStatics(ids);
+    const live = ids.filter((id) => statics.get(id));
+
+    const groups: ContractCall[][] = live.map((id) => {
+      const { address, tallyAddr } = statics.get(id)!;
+      const pollCall = (method: string): ContractCall => ({ target: address, iface: this.pollInterface, method });
+      return [
+        pollCall('isVotingOpen'),
+        pollCall('numMessages'),
+        pollCall('stateAqMerged'),
+        pollCall('messageAqMerged'),
+        ...(tallyAddr ? [{ target: tallyAddr, iface: this.tallyInterface, method: 'tallyVerified' }] : []),
+      ];
+    });
+    const [numSignUpsResult, ...flat] = await this.multicall.read([
+      { target: this.maciAddress, iface: this.maciInterface, method: 'numSignUps' },
+      ...groups.flat(),
+    ]);
+    if (!numSignUpsResult) throw new Error('MACI numSignUps() reverted');
+    const numSignUps = Number(numSignUpsResult[0]);
 
-      const poll = new ethers.Contract(pollAddr, POLL_ABI, this.provider);
-      const [isOpen, timePair, numMsgs] = await Promise.all([
-        poll.isVotingOpen(),
-        poll.getDeployTimeAndDuration(),
-        poll.numMessages(),
-      ]);
+    let cursor = 0;
+    const polls = live.map((id, i): Poll => {
+      const [isOpen, numMsgs, stateM, msgM, tallyVerified] = flat.slice(cursor, cursor + groups[i].length);
+      cursor += groups[i].length;
+      const s = statics.get(id)!;
+      if (!isOpen || !numMsgs) throw new Error(`Poll ${id} at ${s.address} did not answer isVotingOpen() / numMessages()`);
 
       let status: PollStatus = 'active';
-      if (!isOpen) {
-        status = 'processing';
-        const tallyAddr = tallyMap.get(i);
-        if (tallyAddr && tallyAddr !== ethers.ZeroAddress) {
-          try {
-            const tally = new ethers.Contract(tallyAddr, TALLY_ABI, this.provider);
-            if (await tally.tallyVerified()) status = 'finalized';
-          } catch { /* skip */ }
-        }
-        try {
-          const stateM = await poll.stateAqMerged();
-          const msgM = await poll.messageAqMerged();
-          if (!stateM || !msgM) status = 'merging';
-        } catch { /* skip */ }
+      if (!isOpen[0]) {
+        status = tallyVerified?.[0] ? 'finalized' : 'processing';
+        // Unreadable merge flags leave the status as is
+        if ((stateM && !stateM[0]) || (msgM && !msgM[0])) status = 'merging';
       }
 
-      polls.push({
-        id: i,
-        address: pollAddr,
-        title: `Proposal #${i + 1}`,
+      return {
+        id,
+        address: s.address,
+        title: s.title || `Proposal #${id + 1}`,
+        voteOptions: s.labels.length > 0 ? [...s.labels] : [...DEFAULT_VOTE_OPTIONS],
+        multiChoice: s.labels.length > 0,
         status,
-        deployTime: Number(timePair[0]),
-        duration: Number(timePair[1]),
-        numMessages: Number(numMsgs),
-        numSignUps: Number(await this.maci.numSignUps()),
-      });
-    }
+        deployTime: s.deployTime,
+        duration: s.duration,
+        numMessages: Number(numMsgs[0]),
+        numSignUps,
+        metadataHash: s.metadataHash,
+      };
+    });
 
+    // A missing or invalid document leaves `metadata` unset rather than failing the listing
+    await Promise.all(polls.map(async (poll) => {
+      if (!poll.metadataHash || !this.metadataStore) return;
+      const metadata = await this.loadMetadata(poll.metadataHash).catch(() => null);
+      if (!metadata) return;
+      poll.metadata = metadata;
+      if (!statics.get(poll.id)!.title) poll.title = metadata.title;
+    }));
     return polls;
   }
 
-  /** Get a single poll by ID */
-  async getPoll(pollId: number): Promise<Poll | null> {
-    const polls = await this.getPolls();
-    return polls.find(p => p.id === pollId) ?? null;
+  /** Verified metadata by hash; documents are immutable, so found ones are cached */
+  private async loadMetadata(hash: string): Promise<PollMetadata | null> {
+    const cached = this.metadataCache.get(hash);
+    if (cached) return cached;
+    const metadata = await readPollMetadata(this.metadataStore!, hash);
+    if (metadata) this.metadataCache.set(hash, metadata);
+    return metadata;
+  }
+
+  /** Addresses, timing and labels of the given polls (null: no poll at that ID) */
+  private async readPollStatics(ids: number[]): Promise<Map<number, PollStatic | null>> {
+    const result = new Map<number, PollStatic | null>();
+    const missing = ids.filter((id) => {
+      const cached = this.pollStaticCache.get(id);
+      if (cached) result.set(id, cached);
+      return !cached;
+    });
+    if (missing.length === 0) return result;
+
+    // Addresses from DeployPoll logs; MACI.polls() for any the scan missed
+    const deploys = new Map((await this.getDeployPollEvents()).map((ev) => [ev.pollId, ev]));
+    const unindexed = missing.filter((id) => !deploys.has(id));
+    const polled = await this.multicall.read(
+      unindexed.map((id) => ({ target: this.maciAddress, iface: this.maciInterface, method: 'polls', args: [id] })),
+    );
+    const addresses = new Map<number, string>(missing.map((id) => [id, deploys.get(id)?.pollAddr ?? ethers.ZeroAddress]));
+    unindexed.forEach((id, i) => addresses.set(id, polled[i]?.[0] ?? ethers.ZeroAddress));
+
+    const deployed = missing.filter((id) => addresses.get(id) !== ethers.ZeroAddress);
+    for (const id of missing) if (addresses.get(id) === ethers.ZeroAddress) result.set(id, null);
+    const reads = await this.multicall.read(deployed.flatMap((id) => [
+      { target: addresses.get(id)!, iface: this.pollInterface, method: 'getDeployTimeAndDuration' },
+      { target: addresses.get(id)!, iface: this.pollInterface, method: 'title' },
+      // These revert on polls deployed before option labels / metadata existed
+      { target: addresses.get(id)!, iface: this.pollInterface, method: 'getOptionLabels' },
+      { target: addresses.get(id)!, iface: this.pollInterface, method: 'metadataHash' },
+    ]));
+
+    deployed.forEach((id, i) => {
+      const [timePair, title, labels, metadataHash] = reads.slice(4 * i, 4 * i + 4);
+      if (!timePair) throw new Error(`Poll ${id} at ${addresses.get(id)} did not answer getDeployTimeAndDuration()`);
+      const tallyAddr = deploys.get(id)?.tallyAddr;
+      const entry: PollStatic = {
+        address: addresses.get(id)!,
+        tallyAddr: tallyAddr && tallyAddr !== ethers.ZeroAddress ? tallyAddr : null,
+        title: title?.[0] ?? '',
+        deployTime: Number(timePair[0]),
+        duration: Number(timePair[1]),
+        labels: labels ? [...labels[0]] : [],
+        metadataHash: metadataHash && metadataHash[0] !== ethers.ZeroHash ? metadataHash[0] : null,
+      };
+      // Without its DeployPoll log the tally address is unknown; look again next time
+      if (entry.tallyAddr) this.pollStaticCache.set(id, entry);
+      result.set(id, entry);
+    });
+    return result;
+  }
+
+  /**
+   * Option labels of a poll by vote option index: the labels it was
+   * deployed with, or DEFAULT_VOTE_OPTIONS for a for/against/abstain poll
+   */
+  async getVoteOptions(pollId: number): Promise<string[]> {
+    const pollAddr = await this.maci.polls(pollId);
+    const labels = await readVoteOptions(new ethers.Contract(pollAddr, POLL_ABI, this.provider));
+    return labels.length > 0 ? labels : [...DEFAULT_VOTE_OPTIONS];
   }
 
   /** Get finalized results for a poll */
@@ -296,6 +481,112 @@ export class SigilClient {
     };
   }
 
+  /**
+   * Per-option results of a finalized poll from the coordinator's tally.json.
+   *
+   * Tally only publishes for/against/abstain on-chain; the other options'
+   * counts are read from the artifact after checking it against
+   * Tally.tallyCommitment(). Returns null until the tally is verified.
+   */
+  async getOptionResults(
+    pollId: number,
+    options: Pick<VerifyTallyOptions, 'artifact' | 'artifactUrl' | 'ipfsGateway'>,
+  ): Promise<PollOptionResults | null> {
+    const deploy = (await this.getDeployPollEvents()).find((ev) => ev.pollId === pollId);
+    if (!deploy) throw new Error(`Poll ${pollId} not found`);
+
+    const tally = new ethers.Contract(deploy.tallyAddr, TALLY_ABI, this.provider);
+    const [tallyVerified, tallyCommitment, totalVoters, labels] = await Promise.all([
+      tally.tallyVerified(),
+      tally.tallyCommitment(),
+      tally.totalVoters(),
+      this.getVoteOptions(pollId),
+    ]);
+    if (!tallyVerified) return null;
+
+    const artifact = options.artifact
+      ?? (options.artifactUrl ? await fetchTallyArtifact(options.artifactUrl, options.ipfsGateway) : undefined);
+    if (!artifact) throw new Error('getOptionResults requires artifact or artifactUrl');
+    if (artifact.pollId !== pollId) throw new Error(`Artifact is for poll ${artifact.pollId}, not ${pollId}`);
+
+    const results = await readOptionResults(artifact, BigInt(tallyCommitment), labels);
+    return { pollId, ...results, totalVoters: BigInt(totalVoters) };
+  }
+
+  /**
+   * Verify a finalized poll against the coordinator's tally.json.
+   *
+   * Fetches SignUp / MessagePublished events and the on-chain commitments,
+   * then runs every check in verifyTallyArtifact(). Pass `verifyingKeys`
+   * and a Groth16 verifier (e.g. snarkjs.groth16) to also check batch proofs;
+   * without them the proofs are skipped and the report is not ok unless
+   * `allowSkip` is set.
+   */
+  async verifyTally(pollId: number, options: VerifyTallyOptions = {}): Promise<TallyVerificationReport> {
+    const deploy = (await this.getDeployPollEvents()).find((ev) => ev.pollId === pollId);
+    if (!deploy) throw new Error(`Poll ${pollId} not found`);
+
+    const artifact = options.artifact
+      ?? (options.artifactUrl ? await fetchTallyArtifact(options.artifactUrl, options.ipfsGateway) : undefined);
+    if (!artifact) throw new Error('verifyTally requires artifact or artifactUrl');
+    if (artifact.pollId !== pollId) throw new Error(`Artifact is for poll ${artifact.pollId}, not ${pollId}`);
+
+    const poll = new ethers.Contract(deploy.pollAddr, POLL_ABI, this.provider);
+    const mp = new ethers.Contract(deploy.messageProcessorAddr, MESSAGE_PROCESSOR_ABI, this.provider);
+    const tally = new ethers.Contract(deploy.tallyAddr, TALLY_ABI, this.provider);
+
+    const [
+      stateTreeDepth, numMessages, messageAqAddr, stateCommitment, tallyCommitment,
+      tallyVerified, forVotes, againstVotes, abstainVotes, totalVoters,
+    ] = await Promise.all([
+      this.maci.stateTreeDepth(),
+      poll.numMessages(),
+      poll.messageAq(),
+      mp.currentStateCommitment(),
+      tally.tallyCommitment(),
+      tally.tallyVerified(),
+      tally.forVotes(),
+      tally.againstVotes(),
+      tally.abstainVotes(),
+      tally.totalVoters(),
+    ]);
+    const messageRoot = await new ethers.Contract(messageAqAddr, ACC_QUEUE_ABI, this.provider).mainRoot();
+
+    // SignUp logs are only counted; MessagePublished logs are decoded
+    const [signUps, messageLogs] = await Promise.all([
+      this.scanLogs(this.maciAddress, this.maciInterface.getEvent('SignUp')!.topicHash),
+      this.scanLogs(deploy.pollAddr, this.pollInterface.getEvent('MessagePublished')!.topicHash)
+        .then((logs) => logs.map((log) => this.pollInterface.parseLog(log)!)),
+    ]);
+
+    return verifyTallyArtifact(artifact, {
+      contracts: { poll: deploy.pollAddr, messageProcessor: deploy.messageProcessorAddr, tally: deploy.tallyAddr },
+      messages: messageLogs.map((ev) => ({
+        data: (ev.args.encMessage as bigint[]).map((v) => BigInt(v)),
+        encPubKeyX: BigInt(ev.args.encPubKeyX),
+        encPubKeyY: BigInt(ev.args.encPubKeyY),
+        messageIndex: Number(ev.args.messageIndex),
+      })),
+      stateTreeDepth: Number(stateTreeDepth),
+      numSignUps: signUps.length,
+      numMessages: Number(numMessages),
+      messageRoot: BigInt(messageRoot),
+      stateCommitment: BigInt(stateCommitment),
+      tallyCommitment: BigInt(tallyCommitment),
+      tallyVerified: Boolean(tallyVerified),
+      forVotes: BigInt(forVotes),
+      againstVotes: BigInt(againstVotes),
+      abstainVotes: BigInt(abstainVotes),
+      totalVoters: BigInt(totalVoters),
+    }, options);
+  }
+
+  /** Logs for one event topic from deployBlock to latest (incremental, via the indexer) */
+  private async scanLogs(address: string, topic: string): Promise<IndexedLog[]> {
+    const indexer = await this.getIndexer();
+    return indexer.getLogs(address, topic, Math.max(0, this.deployBlock ?? 0));
+  }
+
   /**
    * Register a user for MACI voting.
    *
@@ -354,23 +645,20 @@ export class SigilClient {
     }
 
     // Store keypair and mark as registered
-    this.storage.setItem(this.storageKeys.sk(address), sk.toString());
-    this.storage.setItem(
-      this.storageKeys.pk(address),
-      JSON.stringify([pubKey[0].toString(), pubKey[1].toString()]),
-    );
+    await this.keyManager.storeGlobalKeypair(address, sk, pubKey);
     this.keyManager.markSignedUp(address, stateIndex);
 
     return { txHash: receipt.hash, stateIndex, pubKey };
   }
 
   /**
-   * Cast a vote.
+   * Cast a for/against/abstain vote.
    *
    * Auto-registers if the user hasn't signed up yet.
    * Auto-changes key on re-vote for MACI anti-collusion.
    * Encrypts the vote with the coordinator's public key.
    * Uses quadratic cost: numVotes² credits.
+   * Multi-choice polls take voteOption() instead.
    *
    * @param pollId — Which proposal to vote on
    * @param choice — 'for', 'against', or 'abstain'
@@ -386,59 +674,148 @@ export class SigilClient {
   ): Promise<VoteReceipt> {
     if (!this.signer) throw new Error('Signer required for voting');
 
-    const address = await this.signer.getAddress();
-    const { autoRegister = true, autoKeyChange = true } = options;
-    const creditsSpent = numVotes * numVotes;
-
-    // Auto-register if needed
-    if (!this.keyManager.isSignedUp(address) && autoRegister) {
-      await this.signUp();
+    const pollAddr = await this.maci.polls(pollId);
+    const labels = await readVoteOptions(new ethers.Contract(pollAddr, POLL_ABI, this.provider));
+    if (labels.length > 0) {
+      throw new Error(`Poll ${pollId} is a multi-choice poll; use voteOption()`);
     }
 
-    if (!this.keyManager.isSignedUp(address)) {
-      throw new Error('User not registered. Call signUp() first.');
+    const optionIndex = DEFAULT_VOTE_OPTIONS.indexOf(choice);
+    if (optionIndex < 0) throw new Error(`Unknown vote choice "${choice}"`);
+    const receipt = await this.castVote(pollId, optionIndex, numVotes, options);
+    return { ...receipt, choice };
+  }
+
+  /**
+   * Cast a vote for one option of a poll by its index (see getVoteOptions()).
+   * Works for multi-choice and for/against/abstain polls alike; registration,
+   * key change and cost are as in vote().
+   *
+   * @param pollId — Which proposal to vote on
+   * @param optionIndex — Index into the poll's option labels
+   * @param numVotes — Number of votes (cost = numVotes²)
+   * @param options — Additional options
+   */
+  async voteOption(
+    pollId: number,
+    optionIndex: number,
+    numVotes: number = 1,
+    options: VoteOptions = {},
+  ): Promise<VoteReceipt> {
+    if (!this.signer) throw new Error('Signer required for voting');
+
+    const labels = await this.getVoteOptions(pollId);
+    if (!Number.isInteger(optionIndex) || optionIndex < 0 || optionIndex >= labels.length) {
+      throw new Error(`Option ${optionIndex} out of range: poll ${pollId} has ${labels.length} options`);
     }
+    return this.castVote(pollId, optionIndex, numVotes, options);
+  }
 
-    // Get coordinator pub key
-    const coordPubKey = await this.getCoordinatorPubKey(pollId);
+  /**
+   * Split voice credits across several options of a poll in one submission.
+   *
+   * Each allocation becomes one vote message; all of them are signed with
+   * the same key and take consecutive nonces, and are published so the
+   * coordinator applies every one (see allocation.ts). The total cost,
+   * sum of numVotes², is checked against the voter's voice credits first.
+   * Registration and key change are as in vote().
+   *
+   * If a transaction fails after part of the batch is published, throws an
+   * AllocationInterruptedError whose resume() sends the rest.
+   *
+   * @param pollId — Which proposal to vote on
+   * @param allocations — Votes per option index (each option at most once)
+   * @param options — Additional options
+   * @returns One receipt covering every message of the batch
+   */
+  async voteAllocation(
+    pollId: number,
+    allocations: VoteAllocation[],
+    options: AllocationOptions = {},
+  ): Promise<AllocationReceipt> {
+    if (!this.signer) throw new Error('Signer required for voting');
 
-    // Get current keypair
-    const kp = await this.keyManager.getOrCreateKeypair(address, pollId);
-    let voteSk = kp.sk;
-    let votePubKey = kp.pubKey;
+    const labels = await this.getVoteOptions(pollId);
+    // Balance unknown before sign-up: check the shape now, the cost once registered
+    validateAllocation(allocations, labels.length, Infinity);
 
-    // Auto key change on re-vote
-    const nonce = this.keyManager.getNonce(address, pollId);
-    const isReVote = nonce > 1;
+    const address = await this.signer.getAddress();
+    const voter = await this.prepareVoter(pollId, address, options);
+    const voiceCredits = options.voiceCredits ?? await this.getVoiceCreditBalance(voter.stateIndex);
+    const creditsSpent = validateAllocation(allocations, labels.length, voiceCredits);
+
+    // Encrypt the whole batch before sending anything
+    const firstNonce = this.keyManager.getNonce(address, pollId);
+    const messages = await Promise.all(
+      planAllocationMessages(allocations, firstNonce).map((m) => buildEncryptedVoteMessage({
+        stateIndex: BigInt(voter.stateIndex),
+        voteOptionIndex: BigInt(m.optionIndex),
+        newVoteWeight: BigInt(m.numVotes),
+        nonce: BigInt(m.nonce),
+        pollId: BigInt(pollId),
+        voterSk: voter.sk,
+        voterPubKey: voter.pubKey,
+        coordinatorPubKey: voter.coordPubKey,
+      })),
+    );
 
-    if (isReVote && autoKeyChange) {
-      const kcResult = await this.changeKeyInternal(pollId, address, voteSk, coordPubKey);
-      voteSk = kcResult.newSk;
-      votePubKey = kcResult.newPubKey;
-    }
+    const pollAddr = await this.maci.polls(pollId);
+    const poll = new ethers.Contract(pollAddr, POLL_ABI, this.signer);
+    const txHashes: string[] = [];
+    // Sends the messages not yet on-chain; also the resume() of an interruption
+    const publish = async (): Promise<AllocationReceipt> => {
+      try {
+        for (const { encMessage, ephemeralPubKey } of messages.slice(txHashes.length)) {
+          const tx = await poll.publishMessage(encMessage, ephemeralPubKey[0], ephemeralPubKey[1]);
+          const receipt = await tx.wait();
+          txHashes.push(receipt.hash);
+        }
+      } catch (err) {
+        if (txHashes.length === 0) throw err;
+        // The published part only counts once the lower nonces follow, so the nonce stays put
+        throw new AllocationInterruptedError([...txHashes], messages.length, publish, err);
+      }
+      for (let i = 0; i < messages.length; i++) this.keyManager.incrementNonce(address, pollId);
+
+      return {
+        txHashes: [...txHashes],
+        pollId,
+        allocations: allocations.map(({ optionIndex, numVotes }) => ({ optionIndex, numVotes })),
+        creditsSpent,
+        timestamp: Math.floor(Date.now() / 1000),
+      };
+    };
+    return publish();
+  }
 
-    // Map choice to number
-    const choiceMap: Record<VoteChoice, number> = { against: 0, for: 1, abstain: 2 };
-    const choiceNum = choiceMap[choice];
+  /** Shared by vote() and voteOption(); optionIndex is already validated */
+  private async castVote(
+    pollId: number,
+    optionIndex: number,
+    numVotes: number,
+    options: VoteOptions,
+  ): Promise<VoteReceipt> {
+    const address = await this.signer!.getAddress();
+    const creditsSpent = numVotes * numVotes;
+    const voter = await this.prepareVoter(pollId, address, options);
 
     // Build encrypted vote message
-    const stateIndex = BigInt(this.keyManager.getStateIndex(address, pollId));
     const currentNonce = BigInt(this.keyManager.getNonce(address, pollId));
 
     const { encMessage, ephemeralPubKey } = await buildEncryptedVoteMessage({
-      stateIndex,
-      voteOptionIndex: BigInt(choiceNum),
+      stateIndex: BigInt(voter.stateIndex),
+      voteOptionIndex: BigInt(optionIndex),
       newVoteWeight: BigInt(numVotes),
       nonce: currentNonce,
       pollId: BigInt(pollId),
-      voterSk: voteSk,
-      voterPubKey: votePubKey,
-      coordinatorPubKey: coordPubKey,
+      voterSk: voter.sk,
+      voterPubKey: voter.pubKey,
+      coordinatorPubKey: voter.coordPubKey,
     });
 
     // Get poll contract address
     const pollAddr = await this.maci.polls(pollId);
-    const poll = new ethers.Contract(pollAddr, POLL_ABI, this.signer);
+    const poll = new ethers.Contract(pollAddr, POLL_ABI, this.signer!);
 
     // Submit on-chain
     const tx = await poll.publishMessage(encMessage, ephemeralPubKey[0], ephemeralPubKey[1]);
@@ -450,13 +827,114 @@ export class SigilClient {
     return {
       txHash: receipt.hash,
       pollId,
-      choice,
+      optionIndex,
       numVotes,
       creditsSpent,
       timestamp: Math.floor(Date.now() / 1000),
     };
   }
 
+  /**
+   * Registration and key state for a vote: auto-registers if needed and
+   * auto-changes key on re-vote, returning the key that signs the vote.
+   */
+  private async prepareVoter(
+    pollId: number,
+    address: string,
+    options: VoteOptions,
+  ): Promise<{ sk: bigint; pubKey: [bigint, bigint]; stateIndex: number; coordPubKey: [bigint, bigint] }> {
+    const { autoRegister = true, autoKeyChange = true } = options;
+
+    // Auto-register if needed
+    if (!this.keyManager.isSignedUp(address) && autoRegister) {
+      await this.signUp();
+    }
+
+    if (!this.keyManager.isSignedUp(address)) {
+      throw new Error('User not registered. Call signUp() first.');
+    }
+
+    // Get coordinator pub key
+    const coordPubKey = await this.getCoordinatorPubKey(pollId);
+
+    // Get current keypair
+    const kp = await this.keyManager.getOrCreateKeypair(address, pollId);
+    let sk = kp.sk;
+    let pubKey = kp.pubKey;
+
+    // Auto key change on re-vote
+    const isReVote = this.keyManager.getNonce(address, pollId) > 1;
+
+    if (isReVote && autoKeyChange) {
+      const kcResult = await this.changeKeyInternal(pollId, address, sk, coordPubKey);
+      sk = kcResult.newSk;
+      pubKey = kcResult.newPubKey;
+    }
+
+    return { sk, pubKey, stateIndex: this.keyManager.getStateIndex(address, pollId), coordPubKey };
+  }
+
+  /** Initial voice credits of a state leaf, from its SignUp event */
+  private async getVoiceCreditBalance(stateIndex: number): Promise<number> {
+    const signUp = await this.getSignUpEvent(stateIndex);
+    if (!signUp) throw new Error(`No SignUp event for state index ${stateIndex}`);
+    return signUp.voiceCreditBalance;
+  }
+
+  private async getSignUpEvent(stateIndex: number): Promise<{ pubKey: [bigint, bigint]; voiceCreditBalance: number } | null> {
+    const logs = await this.scanLogs(this.maciAddress, this.maciInterface.getEvent('SignUp')!.topicHash);
+    for (const log of logs) {
+      const ev = this.maciInterface.parseLog(log);
+      if (ev && Number(ev.args._stateIndex) === stateIndex) {
+        return { pubKey: [ev.args._pubKeyX, ev.args._pubKeyY], voiceCreditBalance: Number(ev.args._voiceCreditBalance) };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Passphrase-encrypted backup of the signer's keys, state index and poll
+   * nonces for this MACI deployment (see backup.ts). Save it as JSON.
+   */
+  async exportKeys(passphrase: string, options: { scrypt?: ScryptParams } = {}): Promise<KeyBackupFile> {
+    if (!this.signer) throw new Error('Signer required to export keys');
+    const address = await this.signer.getAddress();
+    const count = await this.getPollCount();
+    const account = await this.keyManager.exportAccount(
+      this.maciAddress, address, Array.from({ length: count }, (_, i) => i),
+    );
+    if (!account) throw new Error(`No keys stored for ${address}`);
+    return encryptKeyBackup(
+      { version: KEY_BACKUP_VERSION, createdAt: Math.floor(Date.now() / 1000), accounts: [account] },
+      passphrase,
+      options.scrypt,
+    );
+  }
+
+  /**
+   * Restore keys from a backup file (parsed JSON). Every account for this
+   * MACI deployment is checked against its on-chain SignUp event before
+   * anything is written; a mismatch throws and restores nothing.
+   */
+  async importKeys(file: unknown, passphrase: string): Promise<KeyRestoreReport> {
+    const contents = await decryptKeyBackup(file, passphrase);
+    const ours = contents.accounts.filter((a) => a.maciAddress.toLowerCase() === this.maciAddress.toLowerCase());
+
+    for (const account of ours) {
+      const signUp = account.stateIndex === null ? null : await this.getSignUpEvent(account.stateIndex);
+      await verifyBackupAccount(account, signUp?.pubKey ?? null, eddsaDerivePublicKey);
+    }
+    const accounts: KeyRestoreReport['accounts'] = [];
+    for (const account of ours) {
+      accounts.push({
+        address: account.address,
+        stateIndex: account.stateIndex,
+        ...await this.keyManager.importAccount(account),
+      });
+    }
+    return { accounts, otherDeployments: contents.accounts.length - ours.length };
+  }
+
   /**
    * Change EdDSA key for MACI anti-collusion.
    *
@@ -514,6 +992,7 @@ export class SigilClient {
 
     // Increment nonce (key changes use the shared counter)
     this.keyManager.incrementNonce(address, pollId);
+    this.events.emit({ type: 'keychange', pollId, txHash: receipt.hash, newPubKey: newKp.pubKey });
 
     return {
       txHash: receipt.hash,
@@ -543,6 +1022,79 @@ export class SigilClient {
     return key;
   }
 
+  // ============ Events ============
+
+  /**
+   * Subscribe to events of every poll watched with watchPoll(), plus this
+   * client's own key changes. '*' receives all of them.
+   * @returns A function that removes the handler
+   */
+  on<T extends SigilEventType>(type: T, handler: SigilEventHandler<T>): () => void;
+  on(type: '*', handler: (event: SigilEvent) => void): () => void;
+  on(type: SigilEventType | '*', handler: (event: never) => void): () => void {
+    return this.events.on(type as '*', handler as (event: SigilEvent) => void);
+  }
+
+  /**
+   * Watch a poll's sign-ups, messages, end, merge / processing progress and
+   * finalization. Polls the chain every options.intervalMs, backing off
+   * while reads fail, and stops once the tally is finalized. The watcher is
+   * also an async iterable of its events.
+   */
+  watchPoll(pollId: number, options: WatchPollOptions = {}): PollWatcher {
+    let deploy: Promise<DeployPollEvent> | null = null;
+    const resolveDeploy = () => {
+      deploy ??= this.getDeployPollEvents().then((events) => {
+        const match = events.find((ev) => ev.pollId === pollId);
+        if (!match) throw new Error(`Poll ${pollId} not found`);
+        return match;
+      });
+      // Retry the lookup next round if it failed (e.g. poll not indexed yet)
+      deploy.catch(() => { deploy = null; });
+      return deploy;
+    };
+
+    return new PollWatcher(pollId, {
+      read: async () => this.readPollSnapshot(await resolveDeploy()),
+      results: async () => {
+        const results = await this.getResults(pollId);
+        if (!results) throw new Error(`Poll ${pollId} results not available yet`);
+        return results;
+      },
+    }, options, (event) => this.events.emit(event));
+  }
+
+  private async readPollSnapshot(deploy: DeployPollEvent): Promise<PollSnapshot> {
+    const poll = new ethers.Contract(deploy.pollAddr, POLL_ABI, this.provider);
+    const mp = new ethers.Contract(deploy.messageProcessorAddr, MESSAGE_PROCESSOR_ABI, this.provider);
+    const tally = new ethers.Contract(deploy.tallyAddr, TALLY_ABI, this.provider);
+    const [
+      numSignUps, numMessages, votingOpen, stateAqMerged, messageAqMerged,
+      processedBatches, expectedBatches, processingComplete, tallyVerified,
+    ] = await Promise.all([
+      this.maci.numSignUps(),
+      poll.numMessages(),
+      poll.isVotingOpen(),
+      poll.stateAqMerged(),
+      poll.messageAqMerged(),
+      mp.processedBatchCount(),
+      mp.expectedBatchCount(),
+      mp.processingComplete(),
+      tally.tallyVerified(),
+    ]);
+    return {
+      numSignUps: Number(numSignUps),
+      numMessages: Number(numMessages),
+      votingOpen: Boolean(votingOpen),
+      stateAqMerged: Boolean(stateAqMerged),
+      messageAqMerged: Boolean(messageAqMerged),
+      processedBatches: Number(processedBatches),
+      expectedBatches: Number(expectedBatches),
+      processingComplete: Boolean(processingComplete),
+      tallyVerified: Boolean(tallyVerified),
+    };
+  }
+
   // ============ Governance: Timelock Execution ============
 
   /** Register an on-chain execution target for a poll */
@@ -647,6 +1199,16 @@ export class SigilClient {
   }
 }
 
+/** Poll.getOptionLabels(); [] for a for/against/abstain poll, including polls deployed before multi-choice polls */
+async function readVoteOptions(poll: ethers.Contract): Promise<string[]> {
+  try {
+    return [...await poll.getOptionLabels()];
+  } catch (err) {
+    if (ethers.isError(err, 'CALL_EXCEPTION') || ethers.isError(err, 'BAD_DATA')) return [];
+    throw err;
+  }
+}
+
 function hexToBytes(hex: string): Uint8Array {
   const clean = hex.startsWith('0x') ? hex.slice(2) : hex;
   const matches = clean.match(/.{2}/g);
@@ -0,0 +1,54 @@
+/**
+ * AES-256-GCM via WebCrypto, for data encrypted at rest (key backups,
+ * EncryptedStorage). Keys are raw 32-byte outputs of a KDF.
+ */
+
+export async function aesGcmEncrypt(
+  key: Uint8Array,
+  iv: Uint8Array,
+  plaintext: Uint8Array,
+  additionalData?: Uint8Array,
+): Promise<Uint8Array> {
+  const ciphertext = await crypto.subtle.encrypt(params(iv, additionalData), await importKey(key), toBuffer(plaintext));
+  return new Uint8Array(ciphertext);
+}
+
+/** Throws if the key, IV or associated data differ or the ciphertext was modified */
+export async function aesGcmDecrypt(
+  key: Uint8Array,
+  iv: Uint8Array,
+  ciphertext: Uint8Array,
+  additionalData?: Uint8Array,
+): Promise<Uint8Array> {
+  const plaintext = await crypto.subtle.decrypt(params(iv, additionalData), await importKey(key), toBuffer(ciphertext));
+  return new Uint8Array(plaintext);
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary);
+}
+
+export function fromBase64(b64: string): Uint8Array {
+  return Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
+}
+
+function params(iv: Uint8Array, additionalData?: Uint8Array): AesGcmParams {
+  return additionalData
+    ? { name: 'AES-GCM', iv: toBuffer(iv), additionalData: toBuffer(additionalData) }
+    : { name: 'AES-GCM', iv: toBuffer(iv) };
+}
+
+function importKey(key: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', toBuffer(key), 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Copy into a view over a fresh ArrayBuffer: WebCrypto's BufferSource typing
+ * rejects views of SharedArrayBuffer, and a bare ArrayBuffer from another
+ * realm (e.g. jsdom) fails its runtime check where a view does not.
+ */
+function toBuffer(bytes: Uint8Array): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(bytes);
+}
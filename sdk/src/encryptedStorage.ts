@@ -0,0 +1,216 @@
+/**
+ * Encrypted Storage
+ *
+ * A SigilStorage that keeps MACI private keys encrypted at rest under a
+ * root key the storage itself doesn't reveal: derived from a wallet
+ * signature over a domain-separated message (keyStoreMessage), or from a
+ * passphrase through scrypt. Each value is encrypted under its own key,
+ * HKDF-derived from the root with a random salt, and bound to its storage
+ * key as AES-GCM associated data, so values can't be swapped between slots.
+ *
+ *   const storage = new EncryptedStorage();
+ *   await storage.unlockWithSignature(address, (m) => signer.signMessage(m));
+ *   const sigil = new SigilClient({ maciAddress, provider, signer, storage });
+ *
+ * Value format:
+ *   enc:v2:<s|p>:<salt>:<iv>:<ciphertext>   s = signature, p = passphrase; base64 fields
+ * Older values are still read, and re-encrypted on read once unlocked:
+ *   enc:<base64>   v1 — AES-GCM under PBKDF2(address, fixed salt); readable by anyone with the storage
+ *   plain text     keys stored before encryption
+ */
+
+import { hkdf } from '@noble/hashes/hkdf.js';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2.js';
+import { scryptAsync } from '@noble/hashes/scrypt.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { hexToBytes, randomBytes, utf8ToBytes } from '@noble/hashes/utils.js';
+import { aesGcmDecrypt, aesGcmEncrypt, fromBase64, toBase64 } from './crypto/aesGcm.js';
+import { DEFAULT_SCRYPT_PARAMS } from './backup.js';
+import { createDefaultStorage, type SigilStorage } from './storage.js';
+
+/** First line of the message signed to unlock; distinct from the message that derives the MACI key */
+export const KEY_STORE_MESSAGE = 'SIGIL Key Storage v1';
+
+export type KeyStoreMode = 'signature' | 'passphrase';
+
+/** Root key of one account's stored secrets */
+export interface KeyStoreRoot {
+  mode: KeyStoreMode;
+  key: Uint8Array;
+}
+
+const V1_PREFIX = 'enc:';
+const V2_PREFIX = 'enc:v2:';
+const V1_SALT = utf8ToBytes('zk-dex-maci-keys');
+const V1_ITERATIONS = 100_000;
+const MIN_PASSPHRASE_LENGTH = 8;
+
+/** Message to sign for an account's root key. Lower-cased so every wallet signs the same bytes */
+export function keyStoreMessage(address: string): string {
+  return `${KEY_STORE_MESSAGE}\n\n`
+    + 'Sign to unlock the voting keys stored on this device. This is not a transaction and costs no gas.\n\n'
+    + `Account: ${address.toLowerCase()}`;
+}
+
+/**
+ * Root key from a signature over keyStoreMessage(). Wallets that sign
+ * deterministically (RFC 6979) give the same root every session; with one
+ * that doesn't, use a passphrase.
+ */
+export function keyStoreRootFromSignature(signature: string): KeyStoreRoot {
+  const bytes = hexToBytes(signature.replace(/^0x/, ''));
+  if (bytes.length !== 65) throw new Error('Invalid key storage signature: expected 65 bytes');
+  return { mode: 'signature', key: hkdf(sha256, bytes, undefined, utf8ToBytes('sigil-keystore/signature'), 32) };
+}
+
+/** Root key from a passphrase (scrypt, salted with the address) */
+export async function keyStoreRootFromPassphrase(address: string, passphrase: string): Promise<KeyStoreRoot> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Key storage passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  const salt = utf8ToBytes(`sigil-keystore/passphrase/${address.toLowerCase()}`);
+  const key = await scryptAsync(utf8ToBytes(passphrase.normalize('NFKC')), salt, { ...DEFAULT_SCRYPT_PARAMS, dkLen: 32 });
+  return { mode: 'passphrase', key };
+}
+
+/** Format version of a stored value: 2 current, 1 legacy `enc:`, 0 plain text */
+export function storedValueVersion(stored: string): 0 | 1 | 2 {
+  if (stored.startsWith(V2_PREFIX)) return 2;
+  return stored.startsWith(V1_PREFIX) ? 1 : 0;
+}
+
+/** Which root a current-format value needs; null for older values */
+export function storedValueMode(stored: string): KeyStoreMode | null {
+  if (!stored.startsWith(V2_PREFIX)) return null;
+  return stored[V2_PREFIX.length] === 'p' ? 'passphrase' : 'signature';
+}
+
+export async function encryptStoredValue(root: KeyStoreRoot, storageKey: string, value: string): Promise<string> {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const ciphertext = await aesGcmEncrypt(entryKey(root, salt), iv, utf8ToBytes(value), utf8ToBytes(storageKey));
+  const mode = root.mode === 'passphrase' ? 'p' : 's';
+  return `${V2_PREFIX}${mode}:${toBase64(salt)}:${toBase64(iv)}:${toBase64(ciphertext)}`;
+}
+
+/** Decrypt a current-format value; throws on a wrong root or a value moved from another key */
+export async function decryptStoredValue(root: KeyStoreRoot, storageKey: string, stored: string): Promise<string> {
+  const parts = stored.slice(V2_PREFIX.length).split(':');
+  if (parts.length !== 4) throw new Error(`Malformed encrypted value at ${storageKey}`);
+  const mode = storedValueMode(stored)!;
+  if (mode !== root.mode) throw new Error(`${storageKey} is encrypted under a ${mode}; unlock with it first`);
+  try {
+    const [salt, iv, ciphertext] = parts.slice(1).map(fromBase64);
+    const plaintext = await aesGcmDecrypt(entryKey(root, salt), iv, ciphertext, utf8ToBytes(storageKey));
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new Error(`Cannot decrypt ${storageKey}: wrong ${mode} or modified value`);
+  }
+}
+
+/** Decrypt a v1 `enc:` value (key derived from the address alone); null if it doesn't decrypt */
+export async function decryptLegacyValue(address: string, stored: string): Promise<string | null> {
+  try {
+    const combined = fromBase64(stored.slice(V1_PREFIX.length));
+    const key = await pbkdf2Async(sha256, utf8ToBytes(address.toLowerCase()), V1_SALT, { c: V1_ITERATIONS, dkLen: 32 });
+    const plaintext = await aesGcmDecrypt(key, combined.slice(0, 12), combined.slice(12));
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    return null;
+  }
+}
+
+function entryKey(root: KeyStoreRoot, salt: Uint8Array): Uint8Array {
+  return hkdf(sha256, root.key, salt, utf8ToBytes('sigil-keystore/v2/entry'), 32);
+}
+
+/**
+ * SigilStorage that encrypts secrets (getSecret / setSecret) and passes
+ * everything else through to the inner storage. Each account is unlocked
+ * separately; reading a current-format secret or storing one while locked
+ * throws.
+ */
+export class EncryptedStorage implements SigilStorage {
+  private inner: SigilStorage;
+  private roots = new Map<string, KeyStoreRoot>();
+
+  constructor(inner: SigilStorage = createDefaultStorage()) {
+    this.inner = inner;
+  }
+
+  getItem(key: string): string | null {
+    return this.inner.getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.inner.setItem(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.inner.removeItem(key);
+  }
+
+  unlock(owner: string, root: KeyStoreRoot): void {
+    this.roots.set(owner.toLowerCase(), root);
+  }
+
+  /** Unlock with a signature over keyStoreMessage(owner), e.g. `(m) => signer.signMessage(m)` */
+  async unlockWithSignature(owner: string, sign: (message: string) => Promise<string>): Promise<void> {
+    this.unlock(owner, keyStoreRootFromSignature(await sign(keyStoreMessage(owner))));
+  }
+
+  async unlockWithPassphrase(owner: string, passphrase: string): Promise<void> {
+    this.unlock(owner, await keyStoreRootFromPassphrase(owner, passphrase));
+  }
+
+  /** Forget the root key of one account, or of all */
+  lock(owner?: string): void {
+    if (owner === undefined) this.roots.clear();
+    else this.roots.delete(owner.toLowerCase());
+  }
+
+  isUnlocked(owner: string): boolean {
+    return this.roots.has(owner.toLowerCase());
+  }
+
+  /** Root key of an unlocked account, or null */
+  unlockedMode(owner: string): KeyStoreMode | null {
+    return this.roots.get(owner.toLowerCase())?.mode ?? null;
+  }
+
+  async getSecret(key: string, owner: string): Promise<string | null> {
+    const stored = this.inner.getItem(key);
+    if (stored === null) return null;
+    const root = this.roots.get(owner.toLowerCase());
+    const version = storedValueVersion(stored);
+    if (version === 2) {
+      if (!root) throw new Error(`Encrypted storage is locked for ${owner}`);
+      return decryptStoredValue(root, key, stored);
+    }
+
+    const value = version === 1 ? await decryptLegacyValue(owner, stored) : stored;
+    if (value !== null && root) this.inner.setItem(key, await encryptStoredValue(root, key, value));
+    return value;
+  }
+
+  async setSecret(key: string, value: string, owner: string): Promise<void> {
+    const root = this.roots.get(owner.toLowerCase());
+    if (!root) throw new Error(`Encrypted storage is locked for ${owner}`);
+    this.inner.setItem(key, await encryptStoredValue(root, key, value));
+  }
+
+  /**
+   * Move an account's secrets to a new root key, e.g. from a signature to a
+   * passphrase. Every key is read first, so a locked or undecryptable one
+   * aborts before anything is rewritten.
+   */
+  async reencrypt(owner: string, keys: string[], root: KeyStoreRoot): Promise<void> {
+    const values = new Map<string, string>();
+    for (const key of keys) {
+      const value = await this.getSecret(key, owner);
+      if (value !== null) values.set(key, value);
+    }
+    this.unlock(owner, root);
+    for (const [key, value] of values) await this.setSecret(key, value, owner);
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Poll Event Subscriptions
+ *
+ * PollWatcher reads a poll's on-chain progress on an interval and turns the
+ * differences between rounds into SigilEvents. Reads back off exponentially
+ * while they fail. The first round compares against an empty poll, so
+ * subscribers start from the current state (sign-ups so far, voting ended,
+ * merged...). Watching stops by itself once the tally is finalized.
+ *
+ *   const watcher = sigil.watchPoll(0);
+ *   watcher.on('vote', (ev) => console.log(ev.numMessages));
+ *   for await (const ev of watcher) { ... } // leaving the loop stops it
+ */
+
+import type {
+  PollResults, PollSnapshot, PollStatus, SigilEvent, SigilEventOf, SigilEventType, WatchPollOptions,
+} from './types.js';
+
+const DEFAULT_INTERVAL_MS = 12_000;
+const DEFAULT_MAX_INTERVAL_MS = 120_000;
+
+const EMPTY_SNAPSHOT: PollSnapshot = {
+  numSignUps: 0,
+  numMessages: 0,
+  votingOpen: true,
+  stateAqMerged: false,
+  messageAqMerged: false,
+  processedBatches: 0,
+  expectedBatches: 0,
+  processingComplete: false,
+  tallyVerified: false,
+};
+
+export type SigilEventHandler<T extends SigilEventType> = (event: SigilEventOf<T>) => void;
+
+/** Typed handler registry; '*' receives every event */
+export class SigilEventEmitter {
+  private handlers = new Map<SigilEventType | '*', Set<(event: SigilEvent) => void>>();
+
+  /** @param onHandlerError — Receives handler exceptions (default: console.error) */
+  constructor(private onHandlerError: (error: Error) => void = (error) => console.error(error)) {}
+
+  /** @returns A function that removes the handler */
+  on<T extends SigilEventType>(type: T, handler: SigilEventHandler<T>): () => void;
+  on(type: '*', handler: (event: SigilEvent) => void): () => void;
+  on(type: SigilEventType | '*', handler: (event: never) => void): () => void {
+    const set = this.handlers.get(type) ?? new Set();
+    this.handlers.set(type, set);
+    const fn = handler as (event: SigilEvent) => void;
+    set.add(fn);
+    return () => { set.delete(fn); };
+  }
+
+  emit(event: SigilEvent): void {
+    // A failing handler must not keep the event from the others
+    for (const handler of [...(this.handlers.get(event.type) ?? []), ...(this.handlers.get('*') ?? [])]) {
+      try {
+        handler(event);
+      } catch (err) {
+        this.onHandlerError(err instanceof Error ? err : new Error(String(err)));
+      }
+    }
+  }
+}
+
+/** Lifecycle stage of a poll from its snapshot */
+export function pollStatusOf(snapshot: PollSnapshot): PollStatus {
+  if (snapshot.votingOpen) return 'active';
+  if (!snapshot.stateAqMerged || !snapshot.messageAqMerged) return 'merging';
+  return snapshot.tallyVerified ? 'finalized' : 'processing';
+}
+
+/**
+ * Events for the change from one snapshot to the next (prev null: from an
+ * empty poll). `results` is required once next.tallyVerified is new.
+ */
+export function diffSnapshots(
+  pollId: number,
+  prev: PollSnapshot | null,
+  next: PollSnapshot,
+  results?: PollResults,
+): SigilEvent[] {
+  const p = prev ?? EMPTY_SNAPSHOT;
+  const events: SigilEvent[] = [];
+
+  if (next.numSignUps > p.numSignUps) {
+    events.push({ type: 'signup', pollId, numSignUps: next.numSignUps, newSignUps: next.numSignUps - p.numSignUps });
+  }
+  if (next.numMessages > p.numMessages) {
+    events.push({ type: 'vote', pollId, numMessages: next.numMessages, newMessages: next.numMessages - p.numMessages });
+  }
+  if (p.votingOpen && !next.votingOpen) {
+    events.push({ type: 'votingEnded', pollId });
+  }
+  if (next.stateAqMerged !== p.stateAqMerged || next.messageAqMerged !== p.messageAqMerged) {
+    events.push({ type: 'merge', pollId, stateAqMerged: next.stateAqMerged, messageAqMerged: next.messageAqMerged });
+  }
+  if (next.processedBatches !== p.processedBatches || next.expectedBatches !== p.expectedBatches
+    || next.processingComplete !== p.processingComplete) {
+    events.push({
+      type: 'processing', pollId,
+      processedBatches: next.processedBatches, expectedBatches: next.expectedBatches, complete: next.processingComplete,
+    });
+  }
+  if (next.tallyVerified && !p.tallyVerified) {
+    if (!results) throw new Error('diffSnapshots: results required for a finalized poll');
+    events.push({ type: 'finalized', pollId, results });
+  }
+  return events;
+}
+
+/** What a PollWatcher reads from the chain */
+export interface PollSnapshotSource {
+  read(): Promise<PollSnapshot>;
+  /** Tally results, read once the tally is verified */
+  results(): Promise<PollResults>;
+}
+
+export class PollWatcher implements AsyncIterable<SigilEvent> {
+  private emitter: SigilEventEmitter;
+  private last: PollSnapshot | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private delay: number;
+  private isStopped = false;
+  private onStop = new Set<() => void>();
+
+  constructor(
+    readonly pollId: number,
+    private source: PollSnapshotSource,
+    private options: WatchPollOptions = {},
+    /** Also receives every event (SigilClient.on subscribers) */
+    private forward?: (event: SigilEvent) => void,
+  ) {
+    this.emitter = new SigilEventEmitter(options.onError);
+    this.delay = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+    void this.tick();
+  }
+
+  /** Latest snapshot read, null before the first round completes */
+  get snapshot(): PollSnapshot | null {
+    return this.last;
+  }
+
+  get stopped(): boolean {
+    return this.isStopped;
+  }
+
+  on<T extends SigilEventType>(type: T, handler: SigilEventHandler<T>): () => void;
+  on(type: '*', handler: (event: SigilEvent) => void): () => void;
+  on(type: SigilEventType | '*', handler: (event: never) => void): () => void {
+    return this.emitter.on(type as '*', handler as (event: SigilEvent) => void);
+  }
+
+  stop(): void {
+    if (this.isStopped) return;
+    this.isStopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    for (const fn of this.onStop) fn();
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<SigilEvent> {
+    const queue: SigilEvent[] = [];
+    let wake: (() => void) | null = null;
+    const off = this.on('*', (event) => { queue.push(event); wake?.(); });
+    const onStop = () => wake?.();
+    this.onStop.add(onStop);
+
+    const finish = (): IteratorResult<SigilEvent> => {
+      off();
+      this.onStop.delete(onStop);
+      return { done: true, value: undefined };
+    };
+
+    return {
+      next: async () => {
+        while (queue.length === 0 && !this.isStopped) {
+          await new Promise<void>((resolve) => { wake = resolve; });
+          wake = null;
+        }
+        // Events from the final round are delivered before the iterator ends
+        return queue.length > 0 ? { done: false, value: queue.shift()! } : finish();
+      },
+      return: async () => {
+        this.stop();
+        return finish();
+      },
+    };
+  }
+
+  private async tick(): Promise<void> {
+    this.timer = null;
+    let events: SigilEvent[];
+    let next: PollSnapshot;
+    try {
+      next = await this.source.read();
+      const results = next.tallyVerified && !this.last?.tallyVerified ? await this.source.results() : undefined;
+      events = diffSnapshots(this.pollId, this.last, next, results);
+    } catch (err) {
+      if (this.isStopped) return;
+      this.options.onError?.(err instanceof Error ? err : new Error(String(err)));
+      this.delay = Math.min(this.delay * 2, this.options.maxIntervalMs ?? DEFAULT_MAX_INTERVAL_MS);
+      this.timer = setTimeout(() => void this.tick(), this.delay);
+      return;
+    }
+    if (this.isStopped) return;
+
+    this.last = next;
+    this.delay = this.options.intervalMs ?? DEFAULT_INTERVAL_MS;
+    for (const event of events) {
+      this.emitter.emit(event);
+      this.forward?.(event);
+    }
+
+    if (next.tallyVerified) this.stop();
+    else if (!this.isStopped) this.timer = setTimeout(() => void this.tick(), this.delay);
+  }
+}
@@ -23,14 +23,68 @@ export {
   type VoteReceipt, type KeyPair, type SigilEvent,
   type SignUpResult, type VoteOptions, type KeyChangeResult,
   type ExecutionState, type ExecutionInfo, type DelegationInfo,
-  type TallyStatus, type ResultsStatus,
+  type TallyStatus, type ResultsStatus, type OptionResult, type PollOptionResults,
+  type VoteAllocation, type AllocationOptions, type AllocationReceipt,
+  type SigilEventType, type SigilEventOf, type PollSnapshot, type WatchPollOptions,
+  type GetPollsOptions, type KeyRestoreReport,
+  DEFAULT_VOTE_OPTIONS,
 } from './types.js';
 
+// Event subscriptions
+export {
+  PollWatcher, SigilEventEmitter, pollStatusOf, diffSnapshots,
+  type SigilEventHandler, type PollSnapshotSource,
+} from './events.js';
+
+// Batched reads
+export { MulticallReader, MULTICALL3_ADDRESS, type ContractCall } from './multicall.js';
+
+// Poll metadata
+export {
+  MemoryMetadataStore, HttpMetadataStore, readPollMetadata, validatePollMetadata,
+  encodePollMetadata, hashPollMetadata, POLL_METADATA_VERSION,
+  type MetadataStore, type PollMetadata, type PollMetadataLink,
+} from './metadata.js';
+
+// Key backup
+export {
+  encryptKeyBackup, decryptKeyBackup, verifyBackupAccount,
+  KEY_BACKUP_FORMAT, KEY_BACKUP_VERSION, DEFAULT_SCRYPT_PARAMS,
+  type KeyBackupFile, type KeyBackupContents, type KeyBackupAccount, type KeyBackupPoll, type ScryptParams,
+} from './backup.js';
+
+// Split votes
+export {
+  allocationCost, validateAllocation, planAllocationMessages, AllocationInterruptedError, type AllocationMessage,
+} from './allocation.js';
+
+// Tally verification
+export {
+  verifyTallyArtifact, fetchTallyArtifact, computePublicInputHash, readOptionResults,
+  type TallyArtifact, type TallyArtifactBatch, type TallyChainData,
+  type Groth16Verifier, type VerifyTallyOptions,
+  type TallyCheck, type TallyCheckStatus, type TallyVerificationReport,
+} from './verify.js';
+
 // Storage
 export {
   type SigilStorage, MemoryStorage, BrowserStorage, createDefaultStorage,
 } from './storage.js';
 
+// Encrypted key storage
+export {
+  EncryptedStorage, keyStoreMessage, keyStoreRootFromSignature, keyStoreRootFromPassphrase,
+  encryptStoredValue, decryptStoredValue, decryptLegacyValue, storedValueVersion, storedValueMode,
+  KEY_STORE_MESSAGE, type KeyStoreMode, type KeyStoreRoot,
+} from './encryptedStorage.js';
+
+// Event indexing
+export {
+  EventIndexer, MemoryIndexerStore, IndexedDBIndexerStore, createDefaultIndexerStore, ethersLogSource,
+  type IndexedLog, type IndexedStream, type IndexerStore, type LogSource, type LogQuery,
+  type EventIndexerOptions,
+} from './indexer.js';
+
 // Key management
 export { KeyManager, type MaciKeypair } from './keyManager.js';
 export { createStorageKeys, type StorageKeys } from './storageKeys.js';
@@ -0,0 +1,247 @@
+/**
+ * EventIndexer — Incremental, reorg-aware log cache
+ *
+ * Keeps the raw logs of one (address, topic0) stream plus the last block
+ * scanned, so each sync only asks the RPC for blocks it has not seen:
+ *
+ *   const indexer = new EventIndexer(ethersLogSource(provider), new IndexedDBIndexerStore());
+ *   const logs = await indexer.getLogs(maciAddress, deployPollTopic, deployBlock);
+ *
+ * Scans run in adaptive chunks (halved on RPC errors, e.g. block-range
+ * limits, then reset after a success). The last `reorgDepth` blocks are
+ * dropped and re-fetched on every sync, so a reorged-out log never
+ * outlives the reorg window.
+ *
+ * Dependency-free on purpose: the SDK (ethers), the frontend (viem +
+ * IndexedDB) and the coordinator (JSON files) plug in their own LogSource
+ * and IndexerStore.
+ */
+
+/** A raw log, normalized across ethers / viem */
+export interface IndexedLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+}
+
+export interface LogQuery {
+  address: string;
+  topics: string[];
+  fromBlock: number;
+  toBlock: number;
+}
+
+/** Minimal RPC surface the indexer needs */
+export interface LogSource {
+  getBlockNumber(): Promise<number>;
+  getLogs(query: LogQuery): Promise<IndexedLog[]>;
+}
+
+/** Persisted state of one stream */
+export interface IndexedStream {
+  fromBlock: number;         // first block of the stream (deploy block)
+  scannedTo: number;         // last block fully scanned (fromBlock - 1 = none)
+  logs: IndexedLog[];        // ascending (blockNumber, logIndex)
+}
+
+export interface IndexerStore {
+  load(key: string): Promise<IndexedStream | null>;
+  save(key: string, stream: IndexedStream): Promise<void>;
+}
+
+export interface EventIndexerOptions {
+  /** Blocks per getLogs call (default: 50000, like getLogsChunked) */
+  chunkSize?: number;
+  /** Give up once a failing chunk is this small (default: 2000) */
+  minChunkSize?: number;
+  /** Trailing blocks re-fetched on every sync (default: 12) */
+  reorgDepth?: number;
+  /** Key prefix, e.g. a chain id, when one store serves several chains */
+  namespace?: string;
+}
+
+const DEFAULT_CHUNK_SIZE = 50_000;
+const DEFAULT_MIN_CHUNK_SIZE = 2000;
+const DEFAULT_REORG_DEPTH = 12;
+
+export class EventIndexer {
+  private source: LogSource;
+  private store: IndexerStore;
+  private chunkSize: number;
+  private minChunkSize: number;
+  private reorgDepth: number;
+  private namespace: string;
+  private inflight = new Map<string, Promise<IndexedStream>>();
+
+  constructor(source: LogSource, store: IndexerStore = new MemoryIndexerStore(), options: EventIndexerOptions = {}) {
+    this.source = source;
+    this.store = store;
+    this.chunkSize = Math.max(1, options.chunkSize ?? DEFAULT_CHUNK_SIZE);
+    this.minChunkSize = Math.min(this.chunkSize, Math.max(1, options.minChunkSize ?? DEFAULT_MIN_CHUNK_SIZE));
+    this.reorgDepth = Math.max(0, options.reorgDepth ?? DEFAULT_REORG_DEPTH);
+    this.namespace = options.namespace ?? '';
+  }
+
+  /** All logs of the stream from `fromBlock` to the chain head */
+  async getLogs(address: string, topic: string, fromBlock = 0): Promise<IndexedLog[]> {
+    return (await this.sync(address, topic, fromBlock)).logs;
+  }
+
+  /** Bring the stream up to the chain head (concurrent calls share one scan) */
+  sync(address: string, topic: string, fromBlock = 0): Promise<IndexedStream> {
+    const key = streamKey(this.namespace, address, topic);
+    let pending = this.inflight.get(key);
+    if (!pending) {
+      pending = this.scan(key, address, topic, Math.max(0, fromBlock))
+        .finally(() => this.inflight.delete(key));
+      this.inflight.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async scan(key: string, address: string, topic: string, fromBlock: number): Promise<IndexedStream> {
+    let stream = await this.store.load(key);
+    // A different start block means a different stream (e.g. redeployed MACI)
+    if (!stream || stream.fromBlock !== fromBlock) {
+      stream = { fromBlock, scannedTo: fromBlock - 1, logs: [] };
+    }
+
+    const latest = await this.source.getBlockNumber();
+    // Re-check the last reorgDepth blocks we saw (or below a head that moved backwards)
+    const start = Math.max(fromBlock, Math.min(stream.scannedTo, latest) - this.reorgDepth + 1);
+    const kept = stream.logs.filter((l) => l.blockNumber < start);
+
+    const fresh = await this.fetchChunked(address, topic, start, latest);
+    const next: IndexedStream = {
+      fromBlock,
+      scannedTo: Math.max(latest, start - 1),
+      logs: [...kept, ...fresh].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex),
+    };
+    await this.store.save(key, next);
+    return next;
+  }
+
+  private async fetchChunked(address: string, topic: string, fromBlock: number, toBlock: number): Promise<IndexedLog[]> {
+    const logs: IndexedLog[] = [];
+    let start = fromBlock;
+    let chunk = this.chunkSize;
+
+    while (start <= toBlock) {
+      const end = Math.min(start + chunk - 1, toBlock);
+      try {
+        logs.push(...await this.source.getLogs({ address, topics: [topic], fromBlock: start, toBlock: end }));
+        start = end + 1;
+        chunk = this.chunkSize;
+      } catch (err) {
+        if (chunk <= this.minChunkSize) throw err;
+        chunk = Math.max(this.minChunkSize, Math.floor(chunk / 2));
+      }
+    }
+    return logs;
+  }
+}
+
+function streamKey(namespace: string, address: string, topic: string): string {
+  return `${namespace ? `${namespace}:` : ''}${address.toLowerCase()}:${topic.toLowerCase()}`;
+}
+
+// ─── Stores ──────────────────────────────────────────────────────────
+
+/**
+ * In-memory store (Node.js / tests). Only saves RPC calls within one process.
+ */
+export class MemoryIndexerStore implements IndexerStore {
+  private streams = new Map<string, IndexedStream>();
+
+  async load(key: string): Promise<IndexedStream | null> {
+    return this.streams.get(key) ?? null;
+  }
+
+  async save(key: string, stream: IndexedStream): Promise<void> {
+    this.streams.set(key, stream);
+  }
+}
+
+/**
+ * Browser IndexedDB store — survives reloads, so returning visitors only
+ * fetch blocks mined since their last visit.
+ */
+export class IndexedDBIndexerStore implements IndexerStore {
+  private dbName: string;
+  private db?: Promise<IDBDatabase>;
+
+  constructor(dbName = 'sigil-indexer') {
+    this.dbName = dbName;
+  }
+
+  async load(key: string): Promise<IndexedStream | null> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const req = db.transaction('streams', 'readonly').objectStore('streams').get(key);
+      req.onsuccess = () => resolve((req.result as IndexedStream | undefined) ?? null);
+      req.onerror = () => reject(req.error);
+    });
+  }
+
+  async save(key: string, stream: IndexedStream): Promise<void> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction('streams', 'readwrite');
+      tx.objectStore('streams').put(stream, key);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= new Promise((resolve, reject) => {
+      const req = indexedDB.open(this.dbName, 1);
+      req.onupgradeneeded = () => req.result.createObjectStore('streams');
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    return this.db;
+  }
+}
+
+/**
+ * IndexedDB when available, otherwise in-memory.
+ */
+export function createDefaultIndexerStore(): IndexerStore {
+  if (typeof indexedDB !== 'undefined') {
+    return new IndexedDBIndexerStore();
+  }
+  return new MemoryIndexerStore();
+}
+
+// ─── Sources ─────────────────────────────────────────────────────────
+
+/** Structural subset of ethers.Provider (keeps this module import-free) */
+interface EthersLikeProvider {
+  getBlockNumber(): Promise<number>;
+  getLogs(filter: { address: string; topics: string[]; fromBlock: number; toBlock: number }): Promise<ReadonlyArray<{
+    address: string; topics: ReadonlyArray<string>; data: string;
+    blockNumber: number; index: number; transactionHash: string;
+  }>>;
+}
+
+/** LogSource over an ethers v6 provider */
+export function ethersLogSource(provider: EthersLikeProvider): LogSource {
+  return {
+    getBlockNumber: () => provider.getBlockNumber(),
+    async getLogs(query) {
+      const logs = await provider.getLogs(query);
+      return logs.map((l) => ({
+        address: l.address,
+        topics: [...l.topics],
+        data: l.data,
+        blockNumber: l.blockNumber,
+        logIndex: l.index,
+        transactionHash: l.transactionHash,
+      }));
+    },
+  };
+}
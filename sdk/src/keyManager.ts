@@ -2,13 +2,15 @@
  * KeyManager — EdDSA keypair management for MACI
  *
  * Handles keypair creation, storage, retrieval, state index tracking,
- * and MACI nonce management. Works with any SigilStorage backend.
+ * and MACI nonce management. Works with any SigilStorage backend; private
+ * keys go through its getSecret / setSecret when it has them.
  */
 
 import type { SigilStorage } from './storage.js';
 import type { StorageKeys } from './storageKeys.js';
 import { derivePrivateKey, generateRandomPrivateKey } from './crypto/blake512.js';
 import { eddsaDerivePublicKey } from './crypto/eddsa.js';
+import type { KeyBackupAccount, KeyBackupPoll } from './backup.js';
 
 export interface MaciKeypair {
   sk: bigint;
@@ -34,7 +36,7 @@ export class KeyManager {
     signatureBytes?: Uint8Array,
   ): Promise<MaciKeypair> {
     // Try poll-specific key first
-    const pollSkStr = this.storage.getItem(this.keys.skPoll(address, pollId));
+    const pollSkStr = await this.readSecret(this.keys.skPoll(address, pollId), address);
     if (pollSkStr) {
       const sk = BigInt(pollSkStr);
       const pubKey = await this.loadOrDerivePubKey(address, pollId, sk);
@@ -42,7 +44,7 @@ export class KeyManager {
     }
 
     // Try global key
-    const globalSkStr = this.storage.getItem(this.keys.sk(address));
+    const globalSkStr = await this.readSecret(this.keys.sk(address), address);
     if (globalSkStr) {
       const sk = BigInt(globalSkStr);
       const pubKey = await this.loadOrDeriveGlobalPubKey(address, sk);
@@ -59,13 +61,20 @@ export class KeyManager {
     const pubKey = await eddsaDerivePublicKey(sk);
 
     // Store globally
-    this.storage.setItem(this.keys.sk(address), sk.toString());
+    await this.storeGlobalKeypair(address, sk, pubKey);
+    return { sk, pubKey };
+  }
+
+  /**
+   * Store the keypair registered at signUp (used by every poll without a
+   * poll-specific key).
+   */
+  async storeGlobalKeypair(address: string, sk: bigint, pubKey: [bigint, bigint]): Promise<void> {
+    await this.writeSecret(this.keys.sk(address), sk.toString(), address);
     this.storage.setItem(
       this.keys.pk(address),
       JSON.stringify([pubKey[0].toString(), pubKey[1].toString()]),
     );
-
-    return { sk, pubKey };
   }
 
   /**
@@ -76,15 +85,15 @@ export class KeyManager {
     const sk = generateRandomPrivateKey();
     const pubKey = await eddsaDerivePublicKey(sk);
 
-    this.storeKeypair(address, pollId, sk, pubKey);
+    await this.storeKeypair(address, pollId, sk, pubKey);
     return { sk, pubKey };
   }
 
   /**
    * Store a keypair for a specific poll.
    */
-  storeKeypair(address: string, pollId: number, sk: bigint, pubKey: [bigint, bigint]): void {
-    this.storage.setItem(this.keys.skPoll(address, pollId), sk.toString());
+  async storeKeypair(address: string, pollId: number, sk: bigint, pubKey: [bigint, bigint]): Promise<void> {
+    await this.writeSecret(this.keys.skPoll(address, pollId), sk.toString(), address);
     this.storage.setItem(
       this.keys.pubkey(address, pollId),
       JSON.stringify([pubKey[0].toString(), pubKey[1].toString()]),
@@ -95,9 +104,9 @@ export class KeyManager {
    * Load a keypair for a specific poll. Returns null if not found.
    */
   async loadKeypair(address: string, pollId: number): Promise<MaciKeypair | null> {
-    const skStr = this.storage.getItem(this.keys.skPoll(address, pollId));
+    const skStr = await this.readSecret(this.keys.skPoll(address, pollId), address);
     if (!skStr) {
-      const globalStr = this.storage.getItem(this.keys.sk(address));
+      const globalStr = await this.readSecret(this.keys.sk(address), address);
       if (!globalStr) return null;
       const sk = BigInt(globalStr);
       const pubKey = await this.loadOrDeriveGlobalPubKey(address, sk);
@@ -158,6 +167,79 @@ export class KeyManager {
     this.saveStateIndex(address, stateIndex);
   }
 
+  /**
+   * Keys, state index and nonces of an address for a backup (see backup.ts).
+   * Polls without a rotated key or a used nonce are left out; null if
+   * nothing at all is stored for the address.
+   */
+  async exportAccount(maciAddress: string, address: string, pollIds: number[]): Promise<KeyBackupAccount | null> {
+    const skStr = await this.readSecret(this.keys.sk(address), address);
+    const pubKey = skStr ? await this.loadOrDeriveGlobalPubKey(address, BigInt(skStr)) : null;
+    const polls: KeyBackupPoll[] = [];
+    for (const pollId of pollIds) {
+      const pollSk = await this.readSecret(this.keys.skPoll(address, pollId), address);
+      const nonce = this.getNonce(address, pollId);
+      if (!pollSk && nonce === 1) continue;
+      const entry: KeyBackupPoll = { pollId, nonce };
+      if (pollSk) {
+        const pollPubKey = await this.loadOrDerivePubKey(address, pollId, BigInt(pollSk));
+        entry.sk = pollSk;
+        entry.pubKey = [pollPubKey[0].toString(), pollPubKey[1].toString()];
+      }
+      polls.push(entry);
+    }
+
+    const stateIndex = this.isSignedUp(address) ? this.getStateIndex(address, 0) : null;
+    if (!skStr && stateIndex === null && polls.length === 0) return null;
+    return {
+      maciAddress,
+      address,
+      stateIndex,
+      sk: skStr,
+      pubKey: pubKey ? [pubKey[0].toString(), pubKey[1].toString()] : null,
+      polls,
+    };
+  }
+
+  /**
+   * Write an account from a verified backup. Nonces never move backwards:
+   * a poll whose local nonce is ahead of the backup (used since it was
+   * made) keeps its local key and nonce.
+   */
+  async importAccount(account: KeyBackupAccount): Promise<{ restoredPolls: number[]; skippedPolls: number[] }> {
+    const { address } = account;
+    if (account.sk && account.pubKey) {
+      await this.writeSecret(this.keys.sk(address), account.sk, address);
+      this.storage.setItem(this.keys.pk(address), JSON.stringify(account.pubKey));
+    }
+    if (account.stateIndex !== null) this.markSignedUp(address, account.stateIndex);
+
+    const restoredPolls: number[] = [];
+    const skippedPolls: number[] = [];
+    for (const poll of account.polls) {
+      if (this.getNonce(address, poll.pollId) > poll.nonce) {
+        skippedPolls.push(poll.pollId);
+        continue;
+      }
+      if (poll.sk && poll.pubKey) {
+        await this.writeSecret(this.keys.skPoll(address, poll.pollId), poll.sk, address);
+        this.storage.setItem(this.keys.pubkey(address, poll.pollId), JSON.stringify(poll.pubKey));
+      }
+      this.storage.setItem(this.keys.nonce(address, poll.pollId), String(poll.nonce));
+      restoredPolls.push(poll.pollId);
+    }
+    return { restoredPolls, skippedPolls };
+  }
+
+  private async readSecret(key: string, address: string): Promise<string | null> {
+    return this.storage.getSecret ? this.storage.getSecret(key, address) : this.storage.getItem(key);
+  }
+
+  private async writeSecret(key: string, value: string, address: string): Promise<void> {
+    if (this.storage.setSecret) await this.storage.setSecret(key, value, address);
+    else this.storage.setItem(key, value);
+  }
+
   private async loadOrDerivePubKey(
     address: string,
     pollId: number,
@@ -0,0 +1,192 @@
+/**
+ * Poll Metadata
+ *
+ * Title, markdown description, option labels and links live off-chain in a
+ * small JSON document. Polls deployed with MACI.deployPollWithMetadata()
+ * store its keccak256 as Poll.metadataHash, so any store can serve the
+ * document and readers accept it only if it hashes to the on-chain value.
+ *
+ * The hash covers the canonical encoding: JSON with sorted keys, no
+ * whitespace, absent optional fields omitted. A store may re-serialize the
+ * document without changing its hash.
+ *
+ *   const hash = await store.put({ version: 1, title, description });
+ *   // deployPollWithMetadata(..., hash)
+ *   const metadata = await readPollMetadata(store, await poll.metadataHash());
+ */
+
+import { keccak_256 } from '@noble/hashes/sha3.js';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils.js';
+
+export const POLL_METADATA_VERSION = 1;
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 10_000;
+const MAX_OPTIONS = 25;
+const MAX_LINKS = 10;
+const ZERO_HASH = '0x' + '0'.repeat(64);
+
+export interface PollMetadataLink {
+  label: string;
+  /** http(s) or ipfs URL */
+  url: string;
+}
+
+export interface PollMetadata {
+  version: typeof POLL_METADATA_VERSION;
+  title: string;
+  /** Markdown */
+  description: string;
+  /** Option labels of a multi-choice poll, matching Poll.getOptionLabels() */
+  options?: string[];
+  links?: PollMetadataLink[];
+  /** Free-form, usually the creator's address */
+  author?: string;
+}
+
+/** Check an untrusted value against the schema; returns it with unknown fields dropped */
+export function validatePollMetadata(value: unknown): PollMetadata {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid poll metadata: ${reason}`);
+  };
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) fail('not an object');
+  const v = value as Record<string, unknown>;
+
+  if (v.version !== POLL_METADATA_VERSION) fail(`unsupported version ${String(v.version)}`);
+  if (typeof v.title !== 'string' || !v.title.trim()) fail('title is required');
+  if ((v.title as string).length > MAX_TITLE_LENGTH) fail(`title exceeds ${MAX_TITLE_LENGTH} characters`);
+  if (typeof v.description !== 'string') fail('description must be a string');
+  if ((v.description as string).length > MAX_DESCRIPTION_LENGTH) fail(`description exceeds ${MAX_DESCRIPTION_LENGTH} characters`);
+
+  const metadata: PollMetadata = {
+    version: POLL_METADATA_VERSION,
+    title: v.title as string,
+    description: v.description as string,
+  };
+  if (v.options !== undefined) {
+    if (!Array.isArray(v.options) || v.options.some((o) => typeof o !== 'string' || !o.trim())) {
+      fail('options must be non-empty strings');
+    }
+    if ((v.options as string[]).length < 2 || (v.options as string[]).length > MAX_OPTIONS) {
+      fail(`options must list 2..${MAX_OPTIONS} labels`);
+    }
+    metadata.options = [...(v.options as string[])];
+  }
+  if (v.links !== undefined) {
+    if (!Array.isArray(v.links) || v.links.length > MAX_LINKS) fail(`links must be an array of at most ${MAX_LINKS}`);
+    metadata.links = (v.links as unknown[]).map((link) => {
+      const l = link as Record<string, unknown> | null;
+      if (typeof l?.label !== 'string' || typeof l.url !== 'string') fail('each link needs a label and url');
+      if (!/^(https?|ipfs):\/\//.test(l!.url as string)) fail(`unsupported link URL ${String(l!.url)}`);
+      return { label: l!.label as string, url: l!.url as string };
+    });
+  }
+  if (v.author !== undefined) {
+    if (typeof v.author !== 'string') fail('author must be a string');
+    metadata.author = v.author as string;
+  }
+  return metadata;
+}
+
+/** Canonical JSON of a metadata document (the bytes that are hashed) */
+export function encodePollMetadata(metadata: PollMetadata): string {
+  return canonicalJson(validatePollMetadata(metadata));
+}
+
+/** keccak256 of the canonical encoding, 0x-prefixed; the value stored as Poll.metadataHash */
+export function hashPollMetadata(metadata: PollMetadata): string {
+  return '0x' + bytesToHex(keccak_256(utf8ToBytes(encodePollMetadata(metadata))));
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// ─── Stores ──────────────────────────────────────────────────────────
+
+/** Content-addressed storage for metadata documents */
+export interface MetadataStore {
+  /** Store a document; resolves to its hash */
+  put(metadata: PollMetadata): Promise<string>;
+  /** The document stored under a hash, null if absent. Unverified: use readPollMetadata() */
+  get(hash: string): Promise<unknown>;
+}
+
+/**
+ * Fetch and verify the metadata a poll was deployed with. Null for a poll
+ * without metadata (zero hash) or when the store doesn't have it; throws if
+ * the stored document is malformed or doesn't match the hash.
+ */
+export async function readPollMetadata(store: MetadataStore, hash: string): Promise<PollMetadata | null> {
+  const expected = hash.toLowerCase();
+  if (expected === ZERO_HASH) return null;
+  const raw = await store.get(expected);
+  if (raw === null || raw === undefined) return null;
+
+  const metadata = validatePollMetadata(raw);
+  const actual = hashPollMetadata(metadata);
+  if (actual !== expected) throw new Error(`Poll metadata hash mismatch: expected ${expected}, got ${actual}`);
+  return metadata;
+}
+
+/** In-memory store for Node.js / testing environments */
+export class MemoryMetadataStore implements MetadataStore {
+  private documents = new Map<string, string>();
+
+  async put(metadata: PollMetadata): Promise<string> {
+    const hash = hashPollMetadata(metadata);
+    this.documents.set(hash, encodePollMetadata(metadata));
+    return hash;
+  }
+
+  async get(hash: string): Promise<unknown> {
+    const json = this.documents.get(hash.toLowerCase());
+    return json === undefined ? null : JSON.parse(json);
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+}
+
+/**
+ * JSON documents over HTTP, addressed by hash: PUT / GET {baseUrl}/{hash}.
+ * Any static file host or object store with that layout works for reads;
+ * an ipfs:// base is read through the gateway.
+ */
+export class HttpMetadataStore implements MetadataStore {
+  private baseUrl: string;
+  private options: { headers?: Record<string, string>; ipfsGateway?: string };
+
+  constructor(baseUrl: string, options: { headers?: Record<string, string>; ipfsGateway?: string } = {}) {
+    this.options = options;
+    const gateway = options.ipfsGateway ?? 'https://ipfs.io/ipfs/';
+    const resolved = baseUrl.startsWith('ipfs://') ? gateway + baseUrl.slice('ipfs://'.length) : baseUrl;
+    this.baseUrl = resolved.replace(/\/+$/, '');
+  }
+
+  async put(metadata: PollMetadata): Promise<string> {
+    const hash = hashPollMetadata(metadata);
+    const res = await fetch(`${this.baseUrl}/${hash}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...this.options.headers },
+      body: encodePollMetadata(metadata),
+    });
+    if (!res.ok) throw new Error(`Failed to store poll metadata: HTTP ${res.status}`);
+    return hash;
+  }
+
+  async get(hash: string): Promise<unknown> {
+    const res = await fetch(`${this.baseUrl}/${hash.toLowerCase()}`, { headers: this.options.headers });
+    if (res.status === 404) return null;
+    if (!res.ok) throw new Error(`Failed to fetch poll metadata: HTTP ${res.status}`);
+    return res.json();
+  }
+}
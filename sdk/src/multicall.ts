@@ -0,0 +1,91 @@
+/**
+ * Batched Contract Reads
+ *
+ * Packs view calls into Multicall3.aggregate3() requests, one eth_call per
+ * batch instead of one per read. Multicall3 lives at the same address on
+ * most chains; where it has no code (local devnets, new chains) the reads
+ * fall back to individual eth_calls, sent concurrently.
+ *
+ * A reverting call yields null rather than failing the batch, so callers
+ * can treat optional getters (e.g. on older contract versions) as absent.
+ */
+
+import { ethers } from 'ethers';
+
+/** Multicall3's deterministic deployment address */
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+/** Calls per aggregate3() request, small enough for RPC gas caps */
+const BATCH_SIZE = 200;
+
+const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+];
+
+export interface ContractCall {
+  target: string;
+  iface: ethers.Interface;
+  method: string;
+  args?: unknown[];
+}
+
+export class MulticallReader {
+  private multicall: ethers.Contract | null;
+  private available?: Promise<boolean>;
+
+  /** @param address — Multicall3 address, or null to always read directly */
+  constructor(private provider: ethers.Provider, address: string | null = MULTICALL3_ADDRESS) {
+    this.multicall = address ? new ethers.Contract(address, MULTICALL3_ABI, provider) : null;
+  }
+
+  /** Decoded results in call order; null for a call that reverted */
+  async read(calls: ContractCall[]): Promise<(ethers.Result | null)[]> {
+    if (calls.length === 0) return [];
+    if (!(await this.isAvailable())) return Promise.all(calls.map((call) => this.readOne(call)));
+
+    const results: (ethers.Result | null)[] = [];
+    for (let i = 0; i < calls.length; i += BATCH_SIZE) {
+      const batch = calls.slice(i, i + BATCH_SIZE);
+      const returned: { success: boolean; returnData: string }[] = await this.multicall!.aggregate3.staticCall(
+        batch.map((call) => ({
+          target: call.target,
+          allowFailure: true,
+          callData: call.iface.encodeFunctionData(call.method, call.args ?? []),
+        })),
+      );
+      returned.forEach((r, j) => results.push(r.success ? decode(batch[j], r.returnData) : null));
+    }
+    return results;
+  }
+
+  private isAvailable(): Promise<boolean> {
+    if (!this.multicall) return Promise.resolve(false);
+    this.available ??= this.provider.getCode(this.multicall.target as string)
+      .then((code) => code !== '0x')
+      .catch(() => {
+        // Ask again next time rather than settle on "unavailable" after a network error
+        this.available = undefined;
+        return false;
+      });
+    return this.available;
+  }
+
+  private async readOne(call: ContractCall): Promise<ethers.Result | null> {
+    try {
+      const data = await this.provider.call({ to: call.target, data: call.iface.encodeFunctionData(call.method, call.args ?? []) });
+      return decode(call, data);
+    } catch (err) {
+      if ((err as { code?: string }).code === 'CALL_EXCEPTION') return null;
+      throw err;
+    }
+  }
+}
+
+function decode(call: ContractCall, data: string): ethers.Result | null {
+  try {
+    return call.iface.decodeFunctionResult(call.method, data);
+  } catch {
+    // Empty or malformed return data (e.g. no contract at the target)
+    return null;
+  }
+}
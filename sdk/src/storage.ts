@@ -8,6 +8,13 @@ export interface SigilStorage {
   getItem(key: string): string | null;
   setItem(key: string, value: string): void;
   removeItem(key: string): void;
+  /**
+   * Private keys go through these when present, so a storage can keep them
+   * encrypted at rest (see EncryptedStorage); owner is the wallet address.
+   * Without them, secrets are stored with setItem like everything else.
+   */
+  getSecret?(key: string, owner: string): Promise<string | null>;
+  setSecret?(key: string, value: string, owner: string): Promise<void>;
 }
 
 /**
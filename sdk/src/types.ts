@@ -2,19 +2,40 @@
  * Core types for sigil-sdk
  */
 
+import type { PollMetadata } from './metadata.js';
+
 export type VoteChoice = 'for' | 'against' | 'abstain';
 
+/** Option labels of a for/against/abstain poll, by vote option index */
+export const DEFAULT_VOTE_OPTIONS: readonly VoteChoice[] = ['against', 'for', 'abstain'];
+
 export type PollStatus = 'active' | 'merging' | 'processing' | 'finalized';
 
 export interface Poll {
   id: number;
   address: string;
   title: string;
+  /** Option labels by vote option index (DEFAULT_VOTE_OPTIONS unless multi-choice) */
+  voteOptions: string[];
+  multiChoice: boolean;
   status: PollStatus;
   deployTime: number;
   duration: number;
   numMessages: number;
   numSignUps: number;
+  /** Poll.metadataHash, null if the poll was deployed without metadata */
+  metadataHash: string | null;
+  /** The verified metadata document, when a metadataStore is configured and has it */
+  metadata?: PollMetadata;
+}
+
+export interface GetPollsOptions {
+  /** Skip this many polls (default: 0) */
+  offset?: number;
+  /** Return at most this many polls (default: all) */
+  limit?: number;
+  /** Only polls in this stage; offset / limit then page through the matches */
+  status?: PollStatus;
 }
 
 export interface PollResults {
@@ -25,6 +46,22 @@ export interface PollResults {
   isFinalized: boolean;
 }
 
+export interface OptionResult {
+  index: number;
+  label: string;
+  votes: bigint;
+  /** Voice credits spent on this option (sum of weight² over voters) */
+  spentCredits: bigint;
+}
+
+/** Per-option results of a finalized poll, checked against Tally.tallyCommitment() */
+export interface PollOptionResults {
+  pollId: number;
+  options: OptionResult[];
+  totalSpent: bigint;
+  totalVoters: bigint;
+}
+
 export type TallyStatus = 'missing' | 'pending' | 'finalized';
 
 export interface ResultsStatus {
@@ -36,22 +73,80 @@ export interface ResultsStatus {
 export interface VoteReceipt {
   txHash: string;
   pollId: number;
-  choice: VoteChoice;
+  optionIndex: number;
+  /** Set for a for/against/abstain vote cast with vote() */
+  choice?: VoteChoice;
   numVotes: number;
   creditsSpent: number;
   timestamp: number;
 }
 
+/** Votes for one option within a split vote (cost = numVotes²) */
+export interface VoteAllocation {
+  optionIndex: number;
+  numVotes: number;
+}
+
+/** One receipt for a split vote, whatever the number of messages it took */
+export interface AllocationReceipt {
+  /** publishMessage transactions, in the order they were sent */
+  txHashes: string[];
+  pollId: number;
+  allocations: VoteAllocation[];
+  /** Sum of numVotes² over the allocations */
+  creditsSpent: number;
+  timestamp: number;
+}
+
 export interface KeyPair {
   publicKey: [bigint, bigint];
   privateKey: bigint;
 }
 
-export interface SigilEvent {
-  type: 'signup' | 'vote' | 'keychange' | 'finalized';
+interface SigilEventBase {
   pollId: number;
   txHash?: string;
-  data?: Record<string, unknown>;
+}
+
+/**
+ * Events from SigilClient.on() / watchPoll(). Messages are encrypted, so
+ * 'vote' counts every new message (key changes included); 'keychange' is
+ * only emitted for this client's own key changes.
+ */
+export type SigilEvent =
+  | (SigilEventBase & { type: 'signup'; numSignUps: number; newSignUps: number })
+  | (SigilEventBase & { type: 'vote'; numMessages: number; newMessages: number })
+  | (SigilEventBase & { type: 'keychange'; newPubKey: [bigint, bigint] })
+  | (SigilEventBase & { type: 'votingEnded' })
+  | (SigilEventBase & { type: 'merge'; stateAqMerged: boolean; messageAqMerged: boolean })
+  | (SigilEventBase & { type: 'processing'; processedBatches: number; expectedBatches: number; complete: boolean })
+  | (SigilEventBase & { type: 'finalized'; results: PollResults });
+
+export type SigilEventType = SigilEvent['type'];
+
+/** The event variant for one type, e.g. SigilEventOf<'vote'> */
+export type SigilEventOf<T extends SigilEventType> = Extract<SigilEvent, { type: T }>;
+
+/** On-chain progress of a poll, as read by one watchPoll() round */
+export interface PollSnapshot {
+  numSignUps: number;
+  numMessages: number;
+  votingOpen: boolean;
+  stateAqMerged: boolean;
+  messageAqMerged: boolean;
+  processedBatches: number;
+  expectedBatches: number;
+  processingComplete: boolean;
+  tallyVerified: boolean;
+}
+
+export interface WatchPollOptions {
+  /** Delay between polls (default: 12000 ms) */
+  intervalMs?: number;
+  /** Upper bound for the delay while reads keep failing (default: 120000 ms) */
+  maxIntervalMs?: number;
+  /** Called for each failed read (watching continues with a longer delay) and handler exception */
+  onError?: (error: Error) => void;
 }
 
 export interface SignUpResult {
@@ -69,6 +164,11 @@ export interface VoteOptions {
   salt?: bigint;
 }
 
+export interface AllocationOptions extends VoteOptions {
+  /** Voice credit balance to check against (default: read from the SignUp event) */
+  voiceCredits?: number;
+}
+
 export interface KeyChangeResult {
   txHash: string;
   newPubKey: [bigint, bigint];
@@ -92,3 +192,16 @@ export interface DelegationInfo {
   delegate: string;
   isDelegating: boolean;
 }
+
+/** Result of SigilClient.importKeys() */
+export interface KeyRestoreReport {
+  accounts: {
+    address: string;
+    stateIndex: number | null;
+    restoredPolls: number[];
+    /** Polls used on this device since the backup was made; their local keys and nonces were kept */
+    skippedPolls: number[];
+  }[];
+  /** Accounts in the backup that belong to other MACI deployments (not restored) */
+  otherDeployments: number;
+}
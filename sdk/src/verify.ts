@@ -0,0 +1,361 @@
+/**
+ * Tally Verification
+ *
+ * Checks a finalized poll against the coordinator's tally.json without
+ * trusting the coordinator:
+ *   - results / perOptionSpent leaves hash to the published roots
+ *   - poseidon(tallyResultsRoot, totalSpent, perOptionSpentRoot) == Tally.tallyCommitment()
+ *   - on-chain for/against/abstain == results leaves [1] / [0] / [2]
+ *   - message root rebuilt from MessagePublished events == Poll message AccQueue root
+ *   - batch commitment chains end at the on-chain MessageProcessor / Tally values
+ *   - every Groth16 batch proof verifies against its recomputed SHA256 public input
+ *
+ * Proof checks need the verifying keys and a Groth16 verifier
+ * (snarkjs.groth16 fits the interface); without them they are skipped, and
+ * a skipped check fails the report unless `allowSkip` is set.
+ */
+
+// @ts-expect-error - circomlibjs doesn't have types
+import { buildPoseidon } from 'circomlibjs';
+import { sha256 } from '@noble/hashes/sha2.js';
+import type { OptionResult } from './types.js';
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface TallyArtifactBatch {
+  batch: number;
+  commitment: string;
+  proof: { pi_a: string[]; pi_b: string[][]; pi_c: string[] } | null;
+  publicSignals: string[] | null;
+  txHash: string | null;
+}
+
+/** tally.json written by the coordinator (field elements as decimal strings) */
+export interface TallyArtifact {
+  version: number;
+  maci: string;
+  pollId: number;
+  chainId: string;
+  contracts: { poll: string; messageProcessor: string; tally: string };
+  circuit: {
+    mode: string;
+    stateTreeDepth: number;
+    messageBatchSize: number;
+    tallyBatchSize: number;
+    voteOptions: number;
+  };
+  /** Poll option labels by index; [] for a for/against/abstain poll (absent in older artifacts) */
+  voteOptions?: string[];
+  stateCommitment: string;
+  tallyCommitment: string;
+  results: { tally: string[]; root: string };
+  perOptionSpent: { tally: string[]; root: string };
+  totalSpent: string;
+  published: {
+    forVotes: string;
+    againstVotes: string;
+    abstainVotes: string;
+    totalVoters: number;
+    txHash: string | null;
+  };
+  processBatches: TallyArtifactBatch[];
+  tallyBatches: TallyArtifactBatch[];
+  createdAt: string;
+}
+
+/** On-chain view of a poll, gathered by SigilClient.verifyTally() */
+export interface TallyChainData {
+  contracts: { poll: string; messageProcessor: string; tally: string };
+  messages: { data: bigint[]; encPubKeyX: bigint; encPubKeyY: bigint; messageIndex: number }[];
+  stateTreeDepth: number;      // MACI.stateTreeDepth(), also the message tree depth
+  numSignUps: number;          // SignUp events (blank leaf not included)
+  numMessages: number;         // Poll.numMessages()
+  messageRoot: bigint;         // message AccQueue mainRoot()
+  stateCommitment: bigint;     // MessageProcessor.currentStateCommitment()
+  tallyCommitment: bigint;     // Tally.tallyCommitment()
+  tallyVerified: boolean;
+  forVotes: bigint;
+  againstVotes: bigint;
+  abstainVotes: bigint;
+  totalVoters: bigint;
+}
+
+/** Minimal Groth16 verifier — snarkjs.groth16 satisfies this */
+export interface Groth16Verifier {
+  verify(vkey: object, publicSignals: string[], proof: object): Promise<boolean>;
+}
+
+export interface VerifyTallyOptions {
+  /** Parsed tally.json (takes precedence over artifactUrl) */
+  artifact?: TallyArtifact;
+  /** Where to fetch tally.json (https://, or ipfs:// via ipfsGateway) */
+  artifactUrl?: string;
+  /** IPFS gateway for ipfs:// URLs (default: https://ipfs.io/ipfs/) */
+  ipfsGateway?: string;
+  verifyingKeys?: { processMessages: object; tallyVotes: object };
+  groth16?: Groth16Verifier;
+  /** Accept a report whose only non-passing checks were skipped (e.g. no verifying keys) */
+  allowSkip?: boolean;
+}
+
+export type TallyCheckStatus = 'pass' | 'fail' | 'skip';
+
+export interface TallyCheck {
+  name: string;
+  status: TallyCheckStatus;
+  detail?: string;
+}
+
+export interface TallyVerificationReport {
+  pollId: number;
+  /** true when every check passed (skipped ones too, with `allowSkip`) */
+  ok: boolean;
+  checks: TallyCheck[];
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+/** SHA256 over abi.encodePacked(uint256...) masked to 253 bits (matches the contracts) */
+export function computePublicInputHash(values: bigint[]): bigint {
+  const buf = new Uint8Array(32 * values.length);
+  values.forEach((value, i) => {
+    let v = value;
+    for (let j = 31; j >= 0; j--) {
+      buf[i * 32 + j] = Number(v & 0xffn);
+      v >>= 8n;
+    }
+  });
+  let result = 0n;
+  for (const byte of sha256(buf)) result = (result << 8n) | BigInt(byte);
+  return result & ((1n << 253n) - 1n);
+}
+
+type Hasher = (...inputs: bigint[]) => bigint;
+
+async function createHasher(): Promise<Hasher> {
+  const poseidon = await buildPoseidon();
+  const F = poseidon.F;
+  return (...inputs: bigint[]) => BigInt(F.toString(poseidon(inputs.map((x) => F.e(x)))));
+}
+
+// Compact quinary root (zero-padded leaves), as used for tally / perOptionSpent roots
+function quinaryRoot(hash: Hasher, leaves: bigint[]): bigint {
+  let level = [...leaves];
+  while (level.length > 1) {
+    const next: bigint[] = [];
+    for (let i = 0; i < level.length; i += 5) {
+      const children = level.slice(i, i + 5);
+      while (children.length < 5) children.push(0n);
+      next.push(hash(...children));
+    }
+    level = next;
+  }
+  return level[0] ?? 0n;
+}
+
+// Fixed-depth quinary root with hashed zero subtrees, as used for the message tree
+function fixedDepthQuinaryRoot(hash: Hasher, depth: number, leaves: Map<number, bigint>): bigint {
+  let zero = 0n;
+  let level = new Map(leaves);
+  for (let d = 0; d < depth; d++) {
+    const next = new Map<number, bigint>();
+    const parents = new Set([...level.keys()].map((i) => Math.floor(i / 5)));
+    for (const p of parents) {
+      const children: bigint[] = [];
+      for (let c = 0; c < 5; c++) children.push(level.get(p * 5 + c) ?? zero);
+      next.set(p, hash(...children));
+    }
+    zero = hash(zero, zero, zero, zero, zero);
+    level = next;
+  }
+  return level.get(0) ?? zero;
+}
+
+function short(v: bigint | string): string {
+  const s = v.toString();
+  return s.length > 20 ? `${s.slice(0, 20)}...` : s;
+}
+
+const DEFAULT_IPFS_GATEWAY = 'https://ipfs.io/ipfs/';
+
+/** Download tally.json from an https:// or ipfs:// URL */
+export async function fetchTallyArtifact(url: string, ipfsGateway = DEFAULT_IPFS_GATEWAY): Promise<TallyArtifact> {
+  const resolved = url.startsWith('ipfs://') ? ipfsGateway + url.slice('ipfs://'.length) : url;
+  const res = await fetch(resolved);
+  if (!res.ok) throw new Error(`Failed to fetch tally artifact: HTTP ${res.status}`);
+  return (await res.json()) as TallyArtifact;
+}
+
+// ─── Per-option results ──────────────────────────────────────────────
+
+/**
+ * Per-option votes and spent credits from a tally.json, trusted only after
+ * its leaves hash to the on-chain Tally.tallyCommitment(). `labels` come
+ * from the Poll contract; leaves past the last label are not returned.
+ */
+export async function readOptionResults(
+  artifact: TallyArtifact,
+  tallyCommitment: bigint,
+  labels: string[],
+): Promise<{ options: OptionResult[]; totalSpent: bigint }> {
+  const hash = await createHasher();
+  const tally = artifact.results.tally.map(BigInt);
+  const perOptionSpent = artifact.perOptionSpent.tally.map(BigInt);
+  const totalSpent = BigInt(artifact.totalSpent);
+  const commitment = hash(quinaryRoot(hash, tally), totalSpent, quinaryRoot(hash, perOptionSpent));
+  if (commitment !== tallyCommitment) {
+    throw new Error(`Tally artifact does not match the on-chain commitment (computed ${short(commitment)}, on-chain ${short(tallyCommitment)})`);
+  }
+  return {
+    options: labels.map((label, index) => ({
+      index,
+      label,
+      votes: tally[index] ?? 0n,
+      spentCredits: perOptionSpent[index] ?? 0n,
+    })),
+    totalSpent,
+  };
+}
+
+// ─── Verification ────────────────────────────────────────────────────
+
+/** Run every check of a tally.json against on-chain data */
+export async function verifyTallyArtifact(
+  artifact: TallyArtifact,
+  chain: TallyChainData,
+  options: Pick<VerifyTallyOptions, 'verifyingKeys' | 'groth16' | 'allowSkip'> = {},
+): Promise<TallyVerificationReport> {
+  const hash = await createHasher();
+  const checks: TallyCheck[] = [];
+  const check = (name: string, pass: boolean, detail?: string) => {
+    checks.push({ name, status: pass ? 'pass' : 'fail', ...(detail ? { detail } : {}) });
+  };
+
+  const sameAddr = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+  check(
+    'artifact matches poll contracts',
+    sameAddr(artifact.contracts.poll, chain.contracts.poll)
+      && sameAddr(artifact.contracts.messageProcessor, chain.contracts.messageProcessor)
+      && sameAddr(artifact.contracts.tally, chain.contracts.tally),
+  );
+
+  // 1. Roots
+  const tally = artifact.results.tally.map(BigInt);
+  const perOptionSpent = artifact.perOptionSpent.tally.map(BigInt);
+  const resultsRoot = quinaryRoot(hash, tally);
+  const spentRoot = quinaryRoot(hash, perOptionSpent);
+  const totalSpent = BigInt(artifact.totalSpent);
+  check('results root', resultsRoot === BigInt(artifact.results.root), `computed ${short(resultsRoot)}`);
+  check('perOptionSpent root', spentRoot === BigInt(artifact.perOptionSpent.root), `computed ${short(spentRoot)}`);
+  const spentSum = perOptionSpent.reduce((a, b) => a + b, 0n);
+  check('totalSpent', spentSum === totalSpent, `sum(perOptionSpent) = ${spentSum}`);
+
+  // 2. Tally commitment
+  const commitment = hash(resultsRoot, totalSpent, spentRoot);
+  check(
+    'tally commitment',
+    commitment === chain.tallyCommitment && commitment === BigInt(artifact.tallyCommitment),
+    `computed ${short(commitment)}, on-chain ${short(chain.tallyCommitment)}`,
+  );
+
+  // 3. Published results (option 0 = against, 1 = for, 2 = abstain)
+  const forVotes = tally[1] ?? 0n;
+  const againstVotes = tally[0] ?? 0n;
+  const abstainVotes = tally[2] ?? 0n;
+  check(
+    'published results',
+    chain.tallyVerified
+      && chain.forVotes === forVotes
+      && chain.againstVotes === againstVotes
+      && chain.abstainVotes === abstainVotes,
+    `on-chain FOR=${chain.forVotes} AGAINST=${chain.againstVotes} ABSTAIN=${chain.abstainVotes}, `
+      + `leaves FOR=${forVotes} AGAINST=${againstVotes} ABSTAIN=${abstainVotes}`,
+  );
+  check(
+    'voter count',
+    chain.totalVoters <= BigInt(chain.numSignUps),
+    `totalVoters=${chain.totalVoters}, signUps=${chain.numSignUps}`,
+  );
+
+  // 4. Message root from events (same depth as the coordinator's engine: the on-chain state tree depth)
+  const leaves = new Map<number, bigint>();
+  for (const m of chain.messages) {
+    leaves.set(m.messageIndex, hash(
+      hash(m.data[0], m.data[1], m.data[2], m.data[3], m.data[4]),
+      hash(m.data[5], m.data[6], m.data[7], m.data[8], m.data[9]),
+      m.encPubKeyX,
+      m.encPubKeyY,
+    ));
+  }
+  const messageRoot = fixedDepthQuinaryRoot(hash, chain.stateTreeDepth, leaves);
+  check(
+    'message root',
+    messageRoot === chain.messageRoot && chain.messages.length === chain.numMessages,
+    `${chain.messages.length} MessagePublished events, numMessages=${chain.numMessages}`,
+  );
+
+  // 5. Batch chains
+  const expectedProcess = Math.ceil(chain.numMessages / artifact.circuit.messageBatchSize);
+  const lastProcess = artifact.processBatches[artifact.processBatches.length - 1];
+  check(
+    'process batches',
+    artifact.processBatches.length === expectedProcess
+      && (lastProcess ? BigInt(lastProcess.commitment) : 0n) === chain.stateCommitment
+      && BigInt(artifact.stateCommitment) === chain.stateCommitment,
+    `${artifact.processBatches.length}/${expectedProcess} batches`,
+  );
+  const expectedTally = Math.ceil((chain.numSignUps + 1) / artifact.circuit.tallyBatchSize);
+  const lastTally = artifact.tallyBatches[artifact.tallyBatches.length - 1];
+  check(
+    'tally batches',
+    artifact.tallyBatches.length === expectedTally
+      && (lastTally ? BigInt(lastTally.commitment) : 0n) === chain.tallyCommitment,
+    `${artifact.tallyBatches.length}/${expectedTally} batches`,
+  );
+
+  // 6. Groth16 proofs
+  const { verifyingKeys, groth16 } = options;
+  const verifyBatch = async (name: string, batch: TallyArtifactBatch, inputHash: bigint, vkey?: object) => {
+    if (!batch.proof || !batch.publicSignals) {
+      checks.push({ name, status: 'skip', detail: 'proof not in artifact' });
+      return;
+    }
+    if (batch.publicSignals.length !== 1 || BigInt(batch.publicSignals[0]) !== inputHash) {
+      check(name, false, 'public signal does not match recomputed input hash');
+      return;
+    }
+    if (!vkey || !groth16) {
+      checks.push({ name, status: 'skip', detail: 'no verifying key / Groth16 verifier' });
+      return;
+    }
+    let valid = false;
+    try {
+      valid = await groth16.verify(vkey, [inputHash.toString()], batch.proof);
+    } catch {
+      valid = false;
+    }
+    check(name, valid);
+  };
+
+  let prevState = 0n;
+  for (const b of artifact.processBatches) {
+    const next = BigInt(b.commitment);
+    const inputHash = computePublicInputHash([prevState, next, chain.messageRoot, BigInt(chain.numMessages)]);
+    await verifyBatch(`process proof #${b.batch}`, b, inputHash, verifyingKeys?.processMessages);
+    prevState = next;
+  }
+
+  let prevTally = 0n;
+  for (const b of artifact.tallyBatches) {
+    const next = BigInt(b.commitment);
+    const inputHash = computePublicInputHash([chain.stateCommitment, prevTally, next]);
+    await verifyBatch(`tally proof #${b.batch}`, b, inputHash, verifyingKeys?.tallyVotes);
+    prevTally = next;
+  }
+
+  return {
+    pollId: artifact.pollId,
+    ok: checks.every((c) => c.status === 'pass' || (c.status === 'skip' && options.allowSkip === true)),
+    checks,
+  };
+}
@@ -23,6 +23,7 @@ import { ethers } from 'ethers';
 import { SigilClient } from './client.js';
 import type { PollResults, VoteChoice, PollStatus } from './types.js';
 import { MemoryStorage } from './storage.js';
+import { pollStatusOf, type PollWatcher } from './events.js';
 
 // ─── Types ───────────────────────────────────────────────────────────
 
@@ -183,6 +184,7 @@ export function mountSigilWidget(config: WidgetConfig): WidgetHandle {
 
   // State
   let client: SigilClient | null = null;
+  let watcher: PollWatcher | null = null;
   let walletAddress: string | null = null;
   let pollStatus: PollStatus = 'active';
   let results: PollResults | null = null;
@@ -518,6 +520,7 @@ export function mountSigilWidget(config: WidgetConfig): WidgetHandle {
       });
 
       await refresh();
+      watch();
     } catch (err) {
       errorMsg = (err as Error).message;
       isLoading = false;
@@ -579,6 +582,22 @@ export function mountSigilWidget(config: WidgetConfig): WidgetHandle {
     }
   }
 
+  /** Keep status and results current as the poll moves on */
+  function watch() {
+    watcher?.stop();
+    const w = client!.watchPoll(pollId);
+    w.on('finalized', (ev) => {
+      // refresh() already reported results for a poll finalized before watching
+      if (!results) config.onResults?.(ev.results);
+      results = ev.results;
+    });
+    w.on('*', () => {
+      pollStatus = pollStatusOf(w.snapshot!);
+      render();
+    });
+    watcher = w;
+  }
+
   // ─── Helpers ───────────────────────────────────────────────────
 
   function el(tag: string, styles: Record<string, string>): HTMLElement {
@@ -598,6 +617,7 @@ export function mountSigilWidget(config: WidgetConfig): WidgetHandle {
 
   return {
     unmount: () => {
+      watcher?.stop();
       root.remove();
     },
     refresh,
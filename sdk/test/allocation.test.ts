@@ -0,0 +1,161 @@
+/**
+ * Split Vote Tests
+ *
+ * SigilClient.voteAllocation runs against a provider that serves a SignUp
+ * log encoded as MACI.sol emits it, plus polls() and getOptionLabels(), and
+ * a signer whose publishMessage transactions can be made to fail.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { SigilClient } from '../src/client.js';
+import { MemoryIndexerStore } from '../src/indexer.js';
+import { MemoryStorage } from '../src/storage.js';
+import { createStorageKeys } from '../src/storageKeys.js';
+import { KeyManager } from '../src/keyManager.js';
+import {
+  allocationCost,
+  validateAllocation,
+  planAllocationMessages,
+  AllocationInterruptedError,
+  type AllocationMessage,
+} from '../src/allocation.js';
+
+/** The coordinator's rule: messages last-first, each valid iff nonce == ballot.nonce + 1 */
+function applyInReverse(published: AllocationMessage[], ballotNonce: number): Map<number, number> {
+  const votes = new Map<number, number>();
+  let nonce = ballotNonce;
+  for (const m of [...published].reverse()) {
+    if (m.nonce !== nonce + 1) continue;
+    votes.set(m.optionIndex, m.numVotes);
+    nonce = m.nonce;
+  }
+  return votes;
+}
+
+describe('validateAllocation', () => {
+  it('should return the quadratic cost', () => {
+    const allocations = [{ optionIndex: 0, numVotes: 3 }, { optionIndex: 2, numVotes: 4 }];
+    expect(allocationCost(allocations)).toBe(25);
+    expect(validateAllocation(allocations, 3, 25)).toBe(25);
+  });
+
+  it('should reject allocations over the balance', () => {
+    expect(() => validateAllocation([{ optionIndex: 0, numVotes: 3 }, { optionIndex: 1, numVotes: 4 }], 3, 24))
+      .toThrow('Allocation costs 25 credits but only 24 are available');
+  });
+
+  it('should reject bad option indexes and vote counts', () => {
+    expect(() => validateAllocation([], 3, 100)).toThrow('at least one option');
+    expect(() => validateAllocation([{ optionIndex: 3, numVotes: 1 }], 3, 100)).toThrow('Option 3 out of range: poll has 3 options');
+    expect(() => validateAllocation([{ optionIndex: 1, numVotes: 1 }, { optionIndex: 1, numVotes: 2 }], 3, 100))
+      .toThrow('Option 1 allocated twice');
+    expect(() => validateAllocation([{ optionIndex: 1, numVotes: 1.5 }], 3, 100)).toThrow('non-negative integer');
+    expect(() => validateAllocation([{ optionIndex: 1, numVotes: -1 }], 3, 100)).toThrow('non-negative integer');
+  });
+});
+
+describe('planAllocationMessages', () => {
+  it('should assign consecutive nonces and publish the highest first', () => {
+    const plan = planAllocationMessages([
+      { optionIndex: 4, numVotes: 1 },
+      { optionIndex: 0, numVotes: 2 },
+      { optionIndex: 2, numVotes: 3 },
+    ], 1);
+    expect(plan).toEqual([
+      { optionIndex: 2, numVotes: 3, nonce: 3 },
+      { optionIndex: 0, numVotes: 2, nonce: 2 },
+      { optionIndex: 4, numVotes: 1, nonce: 1 },
+    ]);
+  });
+
+  it('should have every message applied by reverse processing', () => {
+    const plan = planAllocationMessages([
+      { optionIndex: 0, numVotes: 2 },
+      { optionIndex: 1, numVotes: 1 },
+      { optionIndex: 2, numVotes: 5 },
+    ], 1);
+    expect(applyInReverse(plan, 0)).toEqual(new Map([[0, 2], [1, 1], [2, 5]]));
+
+    // Published lowest nonce first, only the first message would count
+    expect(applyInReverse([...plan].reverse(), 0)).toEqual(new Map([[0, 2]]));
+  });
+});
+
+describe('SigilClient.voteAllocation', () => {
+  const MACI = '0x' + '11'.repeat(20);
+  const POLL = '0x' + '22'.repeat(20);
+  const VOTER = '0x' + '33'.repeat(20);
+  // Event as declared in contracts/MACI.sol: pubKeyY is not indexed
+  const MACI_IFACE = new ethers.Interface([
+    'event SignUp(uint256 indexed stateIndex, uint256 indexed pubKeyX, uint256 pubKeyY, uint256 voiceCreditBalance, uint256 timestamp)',
+    'function polls(uint256) view returns (address)',
+    'function getOptionLabels() view returns (string[])',
+  ]);
+
+  /** failAt: 0-based publishMessage call that throws, once */
+  async function clientWithBalance(voiceCredits: number, failAt = -1) {
+    const log = MACI_IFACE.encodeEventLog('SignUp', [3, 111, 222, voiceCredits, 1000]);
+    const published: string[] = [];
+    let calls = 0;
+    const provider = {
+      getNetwork: async () => ({ chainId: 31337n }),
+      getBlockNumber: async () => 100,
+      getLogs: async () => [{ address: MACI, topics: log.topics, data: log.data, blockNumber: 10, index: 0, transactionHash: '0x' + '00'.repeat(32) }],
+      call: async ({ data }: { data: string }) => {
+        const fn = MACI_IFACE.parseTransaction({ data })!;
+        return MACI_IFACE.encodeFunctionResult(fn.name, fn.name === 'polls' ? [POLL] : [['Red', 'Green', 'Blue']]);
+      },
+      getTransactionReceipt: async (hash: string) => ({ hash, logs: [], status: 1, blockNumber: 11, confirmations: async () => 1 }),
+    };
+    const sendTransaction = async (tx: { to: string; data: string }) => {
+      if (calls++ === failAt) throw new Error('nonce too low');
+      const hash = ethers.id(`tx${published.length}`);
+      published.push(tx.data);
+      return { hash, to: tx.to, from: VOTER, data: tx.data, nonce: 0, gasLimit: 0n, value: 0n, chainId: 31337n, blockNumber: null, signature: ethers.Signature.from({ r: '0x' + '01'.repeat(32), s: '0x' + '01'.repeat(32), v: 27 }) };
+    };
+    const signer = { provider, getAddress: async () => VOTER, call: provider.call, sendTransaction };
+
+    const storage = new MemoryStorage();
+    const km = new KeyManager(storage, createStorageKeys(MACI));
+    await km.getOrCreateKeypair(VOTER, 0, new Uint8Array(65).fill(0xab));
+    km.markSignedUp(VOTER, 3);
+
+    const client = new SigilClient({
+      maciAddress: MACI,
+      provider: provider as unknown as ethers.Provider,
+      signer: signer as unknown as ethers.Signer,
+      coordinatorPubKey: [1n, 2n],
+      storage,
+      indexerStore: new MemoryIndexerStore(),
+    });
+    return { client, km, published };
+  }
+
+  it('should check the cost against the balance in the SignUp event', async () => {
+    const { client } = await clientWithBalance(100);
+    await expect(client.voteAllocation(1, [{ optionIndex: 0, numVotes: 8 }, { optionIndex: 2, numVotes: 7 }]))
+      .rejects.toThrow('Allocation costs 113 credits but only 100 are available');
+  });
+
+  it('should keep the nonce on an interrupted batch and finish it with resume()', async () => {
+    const { client, km, published } = await clientWithBalance(100, 1);
+    const allocations = [{ optionIndex: 0, numVotes: 3 }, { optionIndex: 1, numVotes: 2 }, { optionIndex: 2, numVotes: 1 }];
+
+    const err = await client.voteAllocation(1, allocations).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(AllocationInterruptedError);
+    const interrupted = err as AllocationInterruptedError;
+    expect(interrupted.message).toBe('Allocation interrupted after 1 of 3 messages: nonce too low');
+    expect([interrupted.published, interrupted.total]).toEqual([1, 3]);
+    expect(interrupted.txHashes).toHaveLength(1);
+    // The published message (nonce 3) is not applied before nonces 1 and 2
+    expect(km.getNonce(VOTER, 1)).toBe(1);
+
+    const receipt = await interrupted.resume();
+    expect(receipt.txHashes).toHaveLength(3);
+    expect(receipt.txHashes[0]).toBe(interrupted.txHashes[0]);
+    expect(new Set(published).size).toBe(3);
+    expect(receipt.creditsSpent).toBe(14);
+    expect(km.getNonce(VOTER, 1)).toBe(4);
+  });
+});
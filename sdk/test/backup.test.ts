@@ -0,0 +1,218 @@
+/**
+ * Key Backup Tests
+ *
+ * Uses small scrypt parameters; the format is the same at any cost.
+ * SigilClient.importKeys runs against a provider that only serves SignUp logs.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ethers } from 'ethers';
+import { SigilClient } from '../src/client.js';
+import { MemoryIndexerStore } from '../src/indexer.js';
+import { MemoryStorage } from '../src/storage.js';
+import { createStorageKeys } from '../src/storageKeys.js';
+import { KeyManager } from '../src/keyManager.js';
+import { eddsaDerivePublicKey } from '../src/crypto/eddsa.js';
+import {
+  encryptKeyBackup, decryptKeyBackup, verifyBackupAccount,
+  type KeyBackupAccount, type KeyBackupContents,
+} from '../src/backup.js';
+
+const FAKE_MACI = '0x1234567890abcdef';
+const FAKE_ADDR = '0xdeadbeefdeadbeef';
+const PASSPHRASE = 'correct horse battery staple';
+const FAST = { N: 2 ** 10, r: 8, p: 1 };
+
+function newKeyManager() {
+  return new KeyManager(new MemoryStorage(), createStorageKeys(FAKE_MACI));
+}
+
+/** Signed up at state index 3, key changed and voted twice in poll 1, voted once in poll 2 */
+async function usedAccount(km: KeyManager) {
+  const sigBytes = new Uint8Array(65).fill(0xab);
+  const signUpKey = await km.getOrCreateKeypair(FAKE_ADDR, 0, sigBytes);
+  km.markSignedUp(FAKE_ADDR, 3);
+  const pollKey = await km.generateNewKeypair(FAKE_ADDR, 1);
+  km.incrementNonce(FAKE_ADDR, 1);
+  km.incrementNonce(FAKE_ADDR, 1);
+  km.incrementNonce(FAKE_ADDR, 2);
+  return { signUpKey, pollKey };
+}
+
+describe('encryptKeyBackup / decryptKeyBackup', () => {
+  const contents: KeyBackupContents = {
+    version: 1,
+    createdAt: 1_700_000_000,
+    accounts: [{
+      maciAddress: FAKE_MACI, address: FAKE_ADDR, stateIndex: 3, sk: '12345', pubKey: ['1', '2'],
+      polls: [{ pollId: 0, nonce: 2 }],
+    }],
+  };
+
+  it('should round-trip through JSON', async () => {
+    const file = await encryptKeyBackup(contents, PASSPHRASE, FAST);
+    expect(file).toMatchObject({ format: 'sigil-key-backup', version: 1, kdf: { name: 'scrypt', ...FAST } });
+    expect(file.ciphertext).not.toContain('12345');
+    expect(await decryptKeyBackup(JSON.parse(JSON.stringify(file)), PASSPHRASE)).toEqual(contents);
+  });
+
+  it('should reject a wrong passphrase or a modified file', async () => {
+    const file = await encryptKeyBackup(contents, PASSPHRASE, FAST);
+    await expect(decryptKeyBackup(file, 'incorrect horse')).rejects.toThrow('Wrong passphrase or corrupted key backup');
+
+    const bytes = Uint8Array.from(atob(file.ciphertext), (c) => c.charCodeAt(0));
+    bytes[0] ^= 1;
+    const tampered = { ...file, ciphertext: btoa(String.fromCharCode(...bytes)) };
+    await expect(decryptKeyBackup(tampered, PASSPHRASE)).rejects.toThrow('Wrong passphrase or corrupted key backup');
+  });
+
+  it('should reject other files, short passphrases and oversized scrypt parameters', async () => {
+    await expect(encryptKeyBackup(contents, 'short', FAST)).rejects.toThrow('at least 8 characters');
+    await expect(decryptKeyBackup({ version: 1 }, PASSPHRASE)).rejects.toThrow('Not a key backup file');
+
+    const file = await encryptKeyBackup(contents, PASSPHRASE, FAST);
+    await expect(decryptKeyBackup({ ...file, version: 2 }, PASSPHRASE)).rejects.toThrow('Unsupported key backup version 2');
+    await expect(decryptKeyBackup({ ...file, kdf: { ...file.kdf, N: 2 ** 24 } }, PASSPHRASE)).rejects.toThrow('out of range');
+    await expect(decryptKeyBackup({ ...file, kdf: { ...file.kdf, N: 1000 } }, PASSPHRASE)).rejects.toThrow('out of range');
+    // 128 · 2^20 · 16 bytes = 2 GiB
+    await expect(decryptKeyBackup({ ...file, kdf: { ...file.kdf, N: 2 ** 20, r: 16 } }, PASSPHRASE)).rejects.toThrow('out of range');
+    await expect(encryptKeyBackup(contents, PASSPHRASE, { N: 2 ** 20, r: 16, p: 1 })).rejects.toThrow('out of range');
+  });
+});
+
+describe('KeyManager.exportAccount / importAccount', () => {
+  let km: KeyManager;
+
+  beforeEach(() => {
+    km = newKeyManager();
+  });
+
+  it('should export keys, state index and used nonces', async () => {
+    const { signUpKey, pollKey } = await usedAccount(km);
+    const account = await km.exportAccount(FAKE_MACI, FAKE_ADDR, [0, 1, 2]);
+
+    expect(account).toEqual({
+      maciAddress: FAKE_MACI,
+      address: FAKE_ADDR,
+      stateIndex: 3,
+      sk: signUpKey.sk.toString(),
+      pubKey: signUpKey.pubKey.map(String),
+      polls: [
+        { pollId: 1, nonce: 3, sk: pollKey.sk.toString(), pubKey: pollKey.pubKey.map(String) },
+        { pollId: 2, nonce: 2 },
+      ],
+    });
+    expect(await km.exportAccount(FAKE_MACI, '0xunknown', [0, 1, 2])).toBeNull();
+  });
+
+  it('should restore an account on a fresh device', async () => {
+    const { signUpKey, pollKey } = await usedAccount(km);
+    const account = (await km.exportAccount(FAKE_MACI, FAKE_ADDR, [0, 1, 2]))!;
+
+    const restored = newKeyManager();
+    expect(await restored.importAccount(account)).toEqual({ restoredPolls: [1, 2], skippedPolls: [] });
+    expect(restored.isSignedUp(FAKE_ADDR)).toBe(true);
+    expect(restored.getStateIndex(FAKE_ADDR, 1)).toBe(3);
+    expect((await restored.loadKeypair(FAKE_ADDR, 0))!.sk).toBe(signUpKey.sk);
+    expect((await restored.loadKeypair(FAKE_ADDR, 1))!.sk).toBe(pollKey.sk);
+    expect(restored.getNonce(FAKE_ADDR, 1)).toBe(3);
+    expect(restored.getNonce(FAKE_ADDR, 2)).toBe(2);
+  });
+
+  it('should keep local keys and nonces that are ahead of the backup', async () => {
+    await usedAccount(km);
+    const account = (await km.exportAccount(FAKE_MACI, FAKE_ADDR, [0, 1, 2]))!;
+
+    // Poll 1 used again after the backup
+    const newer = await km.generateNewKeypair(FAKE_ADDR, 1);
+    km.incrementNonce(FAKE_ADDR, 1);
+
+    expect(await km.importAccount(account)).toEqual({ restoredPolls: [2], skippedPolls: [1] });
+    expect((await km.loadKeypair(FAKE_ADDR, 1))!.sk).toBe(newer.sk);
+    expect(km.getNonce(FAKE_ADDR, 1)).toBe(4);
+  });
+});
+
+describe('verifyBackupAccount', () => {
+  let account: KeyBackupAccount;
+  let signUpPubKey: [bigint, bigint];
+
+  beforeEach(async () => {
+    const km = newKeyManager();
+    const { signUpKey } = await usedAccount(km);
+    account = (await km.exportAccount(FAKE_MACI, FAKE_ADDR, [0, 1, 2]))!;
+    signUpPubKey = signUpKey.pubKey;
+  });
+
+  it('should accept an account matching its SignUp event', async () => {
+    await expect(verifyBackupAccount(account, signUpPubKey, eddsaDerivePublicKey)).resolves.toBeUndefined();
+  });
+
+  it('should reject a key signed up by someone else or missing on-chain', async () => {
+    const other: [bigint, bigint] = [signUpPubKey[0] + 1n, signUpPubKey[1]];
+    await expect(verifyBackupAccount(account, other, eddsaDerivePublicKey))
+      .rejects.toThrow('is not the one signed up at state index 3');
+    await expect(verifyBackupAccount(account, null, eddsaDerivePublicKey))
+      .rejects.toThrow('No SignUp event for state index 3');
+  });
+
+  it('should reject a key that does not match its public key', async () => {
+    const polls = account.polls.map((p) => (p.pollId === 1 ? { ...p, sk: '42' } : p));
+    await expect(verifyBackupAccount({ ...account, polls }, signUpPubKey, eddsaDerivePublicKey))
+      .rejects.toThrow('for poll 1 does not match its public key');
+  });
+});
+
+describe('SigilClient.importKeys', () => {
+  const MACI = '0x' + '11'.repeat(20);
+  const SIGNUP_IFACE = new ethers.Interface([
+    'event SignUp(uint256 indexed _stateIndex, uint256 indexed _pubKeyX, uint256 _pubKeyY, uint256 _voiceCreditBalance, uint256 _timestamp)',
+  ]);
+
+  function clientWithSignUp(stateIndex: number, pubKey: [bigint, bigint]) {
+    const log = SIGNUP_IFACE.encodeEventLog('SignUp', [stateIndex, pubKey[0], pubKey[1], 100, 1000]);
+    const provider = {
+      getNetwork: async () => ({ chainId: 31337n }),
+      getBlockNumber: async () => 100,
+      getLogs: async () => [{ address: MACI, topics: log.topics, data: log.data, blockNumber: 10, index: 0, transactionHash: '0x' + '00'.repeat(32) }],
+    };
+    const storage = new MemoryStorage();
+    const client = new SigilClient({
+      maciAddress: MACI,
+      provider: provider as unknown as ethers.Provider,
+      storage,
+      indexerStore: new MemoryIndexerStore(),
+    });
+    return { client, km: new KeyManager(storage, createStorageKeys(MACI)) };
+  }
+
+  async function backupOf(maciAddress: string) {
+    const km = new KeyManager(new MemoryStorage(), createStorageKeys(maciAddress));
+    const { signUpKey } = await usedAccount(km);
+    const account = (await km.exportAccount(maciAddress, FAKE_ADDR, [0, 1, 2]))!;
+    return { signUpKey, account };
+  }
+
+  it('should restore accounts of this deployment that match their SignUp event', async () => {
+    const ours = await backupOf(MACI);
+    const other = await backupOf('0x' + '22'.repeat(20));
+    const file = await encryptKeyBackup({ version: 1, createdAt: 0, accounts: [ours.account, other.account] }, PASSPHRASE, FAST);
+
+    const { client, km } = clientWithSignUp(3, ours.signUpKey.pubKey);
+    expect(await client.importKeys(file, PASSPHRASE)).toEqual({
+      accounts: [{ address: FAKE_ADDR, stateIndex: 3, restoredPolls: [1, 2], skippedPolls: [] }],
+      otherDeployments: 1,
+    });
+    expect(km.getNonce(FAKE_ADDR, 1)).toBe(3);
+  });
+
+  it('should write nothing when the signUp key is not the one on-chain', async () => {
+    const { account } = await backupOf(MACI);
+    const file = await encryptKeyBackup({ version: 1, createdAt: 0, accounts: [account] }, PASSPHRASE, FAST);
+
+    const { client, km } = clientWithSignUp(3, [1n, 2n]);
+    await expect(client.importKeys(file, PASSPHRASE)).rejects.toThrow('is not the one signed up at state index 3');
+    expect(km.isSignedUp(FAKE_ADDR)).toBe(false);
+    expect(km.getNonce(FAKE_ADDR, 1)).toBe(1);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * EncryptedStorage Tests
+ *
+ * Signatures come from ethers wallets, which sign deterministically like
+ * browser wallets do. legacyEncrypt() writes a v1 `enc:` value the way the
+ * frontend's keyStore did before the v2 format.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ethers } from 'ethers';
+import { MemoryStorage } from '../src/storage.js';
+import { createStorageKeys } from '../src/storageKeys.js';
+import { KeyManager } from '../src/keyManager.js';
+import {
+  EncryptedStorage, keyStoreMessage, keyStoreRootFromPassphrase, storedValueMode, storedValueVersion,
+} from '../src/encryptedStorage.js';
+
+const wallet = new ethers.Wallet('0x' + '42'.repeat(32));
+const other = new ethers.Wallet('0x' + '43'.repeat(32));
+const ADDR = wallet.address;
+const SK_KEY = 'maci-123456-sk-' + ADDR;
+const sign = (w: ethers.Wallet) => (message: string) => w.signMessage(message);
+
+async function legacyEncrypt(address: string, value: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const material = await crypto.subtle.importKey('raw', encoder.encode(address.toLowerCase()), 'PBKDF2', false, ['deriveKey']);
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: encoder.encode('zk-dex-maci-keys'), iterations: 100_000, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt'],
+  );
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(value)));
+  return 'enc:' + btoa(String.fromCharCode(...iv, ...ciphertext));
+}
+
+describe('EncryptedStorage', () => {
+  let inner: MemoryStorage;
+  let storage: EncryptedStorage;
+
+  beforeEach(() => {
+    inner = new MemoryStorage();
+    storage = new EncryptedStorage(inner);
+  });
+
+  it('should sign a domain-separated message bound to the account', () => {
+    expect(keyStoreMessage(ADDR)).toMatch(/^SIGIL Key Storage v1\n/);
+    expect(keyStoreMessage(ADDR)).toContain(ADDR.toLowerCase());
+    expect(keyStoreMessage(ADDR)).not.toBe(keyStoreMessage(other.address));
+  });
+
+  it('should encrypt secrets under a wallet signature with a fresh salt per write', async () => {
+    await storage.unlockWithSignature(ADDR, sign(wallet));
+    await storage.setSecret(SK_KEY, '12345', ADDR);
+    const first = inner.getItem(SK_KEY)!;
+    await storage.setSecret(SK_KEY, '12345', ADDR);
+
+    expect(storedValueVersion(first)).toBe(2);
+    expect(storedValueMode(first)).toBe('signature');
+    expect(first).not.toContain('12345');
+    expect(inner.getItem(SK_KEY)).not.toBe(first);
+
+    // A new session re-derives the root from the same signature
+    const next = new EncryptedStorage(inner);
+    await next.unlockWithSignature(ADDR, sign(wallet));
+    expect(await next.getSecret(SK_KEY, ADDR)).toBe('12345');
+  });
+
+  it('should refuse to read or write while locked, or with the wrong signature', async () => {
+    await storage.unlockWithSignature(ADDR, sign(wallet));
+    await storage.setSecret(SK_KEY, '12345', ADDR);
+    storage.lock(ADDR);
+
+    await expect(storage.getSecret(SK_KEY, ADDR)).rejects.toThrow('locked');
+    await expect(storage.setSecret(SK_KEY, '1', ADDR)).rejects.toThrow('locked');
+
+    await storage.unlockWithSignature(ADDR, sign(other));
+    await expect(storage.getSecret(SK_KEY, ADDR)).rejects.toThrow('wrong signature or modified value');
+  });
+
+  it('should reject a value copied to another key', async () => {
+    await storage.unlockWithSignature(ADDR, sign(wallet));
+    await storage.setSecret(SK_KEY, '12345', ADDR);
+    inner.setItem(SK_KEY + '-3', inner.getItem(SK_KEY)!);
+    await expect(storage.getSecret(SK_KEY + '-3', ADDR)).rejects.toThrow('wrong signature or modified value');
+  });
+
+  it('should read plain-text and v1 values, and migrate them once unlocked', async () => {
+    inner.setItem(SK_KEY, '12345');
+    inner.setItem(SK_KEY + '-0', await legacyEncrypt(ADDR, '67890'));
+
+    expect(await storage.getSecret(SK_KEY, ADDR)).toBe('12345');
+    expect(await storage.getSecret(SK_KEY + '-0', ADDR)).toBe('67890');
+    expect(inner.getItem(SK_KEY)).toBe('12345');
+
+    await storage.unlockWithSignature(ADDR, sign(wallet));
+    expect(await storage.getSecret(SK_KEY, ADDR)).toBe('12345');
+    expect(await storage.getSecret(SK_KEY + '-0', ADDR)).toBe('67890');
+    expect(storedValueVersion(inner.getItem(SK_KEY)!)).toBe(2);
+    expect(storedValueVersion(inner.getItem(SK_KEY + '-0')!)).toBe(2);
+  });
+
+  it('should move secrets from a signature to a passphrase', async () => {
+    await storage.unlockWithSignature(ADDR, sign(wallet));
+    await storage.setSecret(SK_KEY, '12345', ADDR);
+    await storage.setSecret(SK_KEY + '-1', '555', ADDR);
+
+    await storage.reencrypt(ADDR, [SK_KEY, SK_KEY + '-1', SK_KEY + '-2'], await keyStoreRootFromPassphrase(ADDR, 'correct horse battery'));
+    expect(storedValueMode(inner.getItem(SK_KEY)!)).toBe('passphrase');
+    expect(inner.getItem(SK_KEY + '-2')).toBeNull();
+
+    const next = new EncryptedStorage(inner);
+    await next.unlockWithSignature(ADDR, sign(wallet));
+    await expect(next.getSecret(SK_KEY, ADDR)).rejects.toThrow('encrypted under a passphrase');
+    await next.unlockWithPassphrase(ADDR, 'correct horse battery');
+    expect(await next.getSecret(SK_KEY + '-1', ADDR)).toBe('555');
+    await expect(next.unlockWithPassphrase(ADDR, 'short')).rejects.toThrow('at least 8 characters');
+  });
+
+  it('should keep KeyManager private keys encrypted', async () => {
+    await storage.unlockWithSignature(ADDR, sign(wallet));
+    const keys = createStorageKeys('0x1234567890abcdef');
+    const km = new KeyManager(storage, keys);
+
+    const kp = await km.getOrCreateKeypair(ADDR, 0, new Uint8Array(65).fill(0xab));
+    const pollKp = await km.generateNewKeypair(ADDR, 1);
+    expect(storedValueVersion(inner.getItem(keys.sk(ADDR))!)).toBe(2);
+    expect(storedValueVersion(inner.getItem(keys.skPoll(ADDR, 1))!)).toBe(2);
+
+    storage.lock();
+    await expect(km.loadKeypair(ADDR, 1)).rejects.toThrow('locked');
+    await storage.unlockWithSignature(ADDR, sign(wallet));
+    expect((await km.loadKeypair(ADDR, 0))!.sk).toBe(kp.sk);
+    expect((await km.loadKeypair(ADDR, 1))!.sk).toBe(pollKp.sk);
+  });
+});
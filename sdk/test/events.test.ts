@@ -0,0 +1,169 @@
+/**
+ * Poll Event Subscription Tests
+ *
+ * The watcher reads from a scripted source; fake timers drive its rounds.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PollWatcher, diffSnapshots, pollStatusOf, type PollSnapshotSource } from '../src/events.js';
+import type { PollResults, PollSnapshot, SigilEvent } from '../src/types.js';
+
+const OPEN: PollSnapshot = {
+  numSignUps: 2, numMessages: 0, votingOpen: true, stateAqMerged: false, messageAqMerged: false,
+  processedBatches: 0, expectedBatches: 0, processingComplete: false, tallyVerified: false,
+};
+
+const RESULTS: PollResults = { forVotes: 3n, againstVotes: 1n, abstainVotes: 0n, totalVoters: 2n, isFinalized: true };
+
+/** Returns the scripted snapshots in turn (an Error entry fails that read), repeating the last */
+function scripted(...rounds: (PollSnapshot | Error)[]): PollSnapshotSource & { reads: number } {
+  const source = {
+    reads: 0,
+    read: async () => {
+      const round = rounds[Math.min(source.reads++, rounds.length - 1)];
+      if (round instanceof Error) throw round;
+      return round;
+    },
+    results: async () => RESULTS,
+  };
+  return source;
+}
+
+describe('diffSnapshots', () => {
+  it('should report the current state against an empty poll', () => {
+    const ended = { ...OPEN, numMessages: 5, votingOpen: false, stateAqMerged: true };
+    expect(diffSnapshots(0, null, ended).map((e) => e.type)).toEqual(['signup', 'vote', 'votingEnded', 'merge']);
+    expect(diffSnapshots(0, ended, ended)).toEqual([]);
+  });
+
+  it('should report counts, merge and processing progress as they change', () => {
+    const events = diffSnapshots(1, OPEN, {
+      ...OPEN, numSignUps: 3, numMessages: 4, votingOpen: false, stateAqMerged: true, messageAqMerged: true,
+      processedBatches: 1, expectedBatches: 2,
+    });
+    expect(events).toEqual([
+      { type: 'signup', pollId: 1, numSignUps: 3, newSignUps: 1 },
+      { type: 'vote', pollId: 1, numMessages: 4, newMessages: 4 },
+      { type: 'votingEnded', pollId: 1 },
+      { type: 'merge', pollId: 1, stateAqMerged: true, messageAqMerged: true },
+      { type: 'processing', pollId: 1, processedBatches: 1, expectedBatches: 2, complete: false },
+    ]);
+    expect(() => diffSnapshots(1, OPEN, { ...OPEN, tallyVerified: true })).toThrow('results required');
+    expect(diffSnapshots(1, OPEN, { ...OPEN, tallyVerified: true }, RESULTS)).toEqual([{ type: 'finalized', pollId: 1, results: RESULTS }]);
+  });
+
+  it('should derive the poll status', () => {
+    expect(pollStatusOf(OPEN)).toBe('active');
+    expect(pollStatusOf({ ...OPEN, votingOpen: false, stateAqMerged: true })).toBe('merging');
+    expect(pollStatusOf({ ...OPEN, votingOpen: false, stateAqMerged: true, messageAqMerged: true })).toBe('processing');
+    expect(pollStatusOf({ ...OPEN, votingOpen: false, stateAqMerged: true, messageAqMerged: true, tallyVerified: true })).toBe('finalized');
+  });
+});
+
+describe('PollWatcher', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should emit typed events per round and stop once finalized', async () => {
+    const source = scripted(
+      OPEN,
+      { ...OPEN, numMessages: 3 },
+      { ...OPEN, numMessages: 3, votingOpen: false, stateAqMerged: true, messageAqMerged: true, tallyVerified: true },
+    );
+    const forwarded: SigilEvent[] = [];
+    const watcher = new PollWatcher(7, source, { intervalMs: 1000 }, (ev) => forwarded.push(ev));
+    const votes: number[] = [];
+    watcher.on('vote', (ev) => votes.push(ev.numMessages));
+    const finalized = vi.fn();
+    watcher.on('finalized', finalized);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(forwarded.map((e) => e.type)).toEqual(['signup']);
+    expect(watcher.snapshot).toEqual(OPEN);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(votes).toEqual([3]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(finalized).toHaveBeenCalledWith({ type: 'finalized', pollId: 7, results: RESULTS });
+    expect(forwarded.map((e) => e.type)).toEqual(['signup', 'vote', 'votingEnded', 'merge', 'finalized']);
+    expect(watcher.stopped).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(source.reads).toBe(3);
+  });
+
+  it('should back off while reads fail and reset after a success', async () => {
+    const fail = new Error('rpc down');
+    const source = scripted(fail, fail, fail, OPEN, { ...OPEN, numSignUps: 4 });
+    const onError = vi.fn();
+    const watcher = new PollWatcher(0, source, { intervalMs: 1000, maxIntervalMs: 5000, onError });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(source.reads).toBe(1);
+    await vi.advanceTimersByTimeAsync(2000); // 2s after the first failure
+    expect(source.reads).toBe(2);
+    await vi.advanceTimersByTimeAsync(3999); // 4s after the second
+    expect(source.reads).toBe(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(source.reads).toBe(3);
+    await vi.advanceTimersByTimeAsync(5000); // capped at 5s
+    expect(source.reads).toBe(4);
+    expect(onError).toHaveBeenCalledTimes(3);
+    expect(onError).toHaveBeenCalledWith(fail);
+
+    await vi.advanceTimersByTimeAsync(1000); // back to the normal interval
+    expect(source.reads).toBe(5);
+    watcher.stop();
+  });
+
+  it('should keep delivering to other handlers when one throws', async () => {
+    const onError = vi.fn();
+    const watcher = new PollWatcher(0, scripted(OPEN), { intervalMs: 1000, onError });
+    const seen = vi.fn();
+    watcher.on('signup', () => { throw new Error('handler bug'); });
+    watcher.on('signup', seen);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(seen).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(new Error('handler bug'));
+    watcher.stop();
+  });
+
+  it('should iterate events asynchronously and stop when the loop exits', async () => {
+    const watcher = new PollWatcher(0, scripted(
+      OPEN,
+      { ...OPEN, numMessages: 1 },
+      { ...OPEN, numMessages: 2 },
+    ), { intervalMs: 1000 });
+
+    const seen: string[] = [];
+    const loop = (async () => {
+      for await (const ev of watcher) {
+        seen.push(ev.type);
+        if (ev.type === 'vote' && ev.numMessages === 2) break;
+      }
+    })();
+
+    await vi.advanceTimersByTimeAsync(2000);
+    await loop;
+    expect(seen).toEqual(['signup', 'vote', 'vote']);
+    expect(watcher.stopped).toBe(true);
+  });
+
+  it('should end the iteration after the final round', async () => {
+    const watcher = new PollWatcher(0, scripted({ ...OPEN, tallyVerified: true }), { intervalMs: 1000 });
+    const seen: string[] = [];
+    const loop = (async () => {
+      for await (const ev of watcher) seen.push(ev.type);
+    })();
+    await vi.advanceTimersByTimeAsync(0);
+    await loop;
+    expect(seen).toEqual(['signup', 'finalized']);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Event Indexer Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EventIndexer, MemoryIndexerStore, type IndexedLog, type LogQuery, type LogSource } from '../src/indexer.js';
+
+const MACI = '0x26428484F192D1dA677111A47615378Bc889d441';
+const TOPIC = '0x' + 'ab'.repeat(32);
+
+function makeLog(blockNumber: number, logIndex = 0, data = '0x'): IndexedLog {
+  return { address: MACI, topics: [TOPIC], data, blockNumber, logIndex, transactionHash: `0x${blockNumber.toString(16)}` };
+}
+
+/** Fake chain: a head, its logs, and an optional max block range per getLogs */
+class FakeChain implements LogSource {
+  head = 0;
+  logs: IndexedLog[] = [];
+  maxRange = Infinity;
+  queries: LogQuery[] = [];
+
+  async getBlockNumber() {
+    return this.head;
+  }
+
+  async getLogs(query: LogQuery) {
+    this.queries.push(query);
+    if (query.toBlock - query.fromBlock + 1 > this.maxRange) throw new Error('block range too large');
+    return this.logs.filter((l) => l.blockNumber >= query.fromBlock && l.blockNumber <= query.toBlock);
+  }
+}
+
+describe('EventIndexer', () => {
+  let chain: FakeChain;
+  let store: MemoryIndexerStore;
+
+  beforeEach(() => {
+    chain = new FakeChain();
+    store = new MemoryIndexerStore();
+  });
+
+  it('should halve the chunk on RPC range errors and reset after success', async () => {
+    chain.head = 1099;
+    chain.maxRange = 300;
+    chain.logs = [makeLog(150), makeLog(900, 1), makeLog(900, 0)];
+    const indexer = new EventIndexer(chain, store, { chunkSize: 1000, minChunkSize: 100 });
+
+    const logs = await indexer.getLogs(MACI, TOPIC, 100);
+    expect(logs.map((l) => [l.blockNumber, l.logIndex])).toEqual([[150, 0], [900, 0], [900, 1]]);
+    // 1000 → 500 → 250 succeeds, then back to full size (the 750 blocks left)
+    expect(chain.queries.slice(0, 4).map((q) => q.toBlock - q.fromBlock + 1)).toEqual([1000, 500, 250, 750]);
+  });
+
+  it('should give up once the minimum chunk still fails', async () => {
+    chain.head = 5000;
+    chain.maxRange = 10;
+    const indexer = new EventIndexer(chain, store, { chunkSize: 400, minChunkSize: 100 });
+    await expect(indexer.getLogs(MACI, TOPIC, 0)).rejects.toThrow('block range too large');
+  });
+
+  it('should only scan new blocks plus the reorg window on later syncs', async () => {
+    chain.head = 1000;
+    chain.logs = [makeLog(10)];
+    const indexer = new EventIndexer(chain, store, { reorgDepth: 5 });
+    await indexer.getLogs(MACI, TOPIC, 0);
+
+    chain.head = 1200;
+    chain.logs.push(makeLog(1100));
+    chain.queries = [];
+    const logs = await indexer.getLogs(MACI, TOPIC, 0);
+
+    expect(chain.queries.map((q) => [q.fromBlock, q.toBlock])).toEqual([[996, 1200]]);
+    expect(logs.map((l) => l.blockNumber)).toEqual([10, 1100]);
+    expect((await store.load(`${MACI.toLowerCase()}:${TOPIC}`))?.scannedTo).toBe(1200);
+  });
+
+  it('should drop logs reorged out of the recent blocks', async () => {
+    chain.head = 100;
+    chain.logs = [makeLog(50), makeLog(98, 0, '0xold')];
+    const indexer = new EventIndexer(chain, store, { reorgDepth: 10 });
+    await indexer.getLogs(MACI, TOPIC, 0);
+
+    // Block 98 reorged: its log moved to block 101
+    chain.head = 102;
+    chain.logs = [makeLog(50), makeLog(101, 0, '0xnew')];
+    const logs = await indexer.getLogs(MACI, TOPIC, 0);
+    expect(logs.map((l) => [l.blockNumber, l.data])).toEqual([[50, '0x'], [101, '0xnew']]);
+  });
+
+  it('should resume from a persisted store in a new indexer', async () => {
+    chain.head = 500;
+    chain.logs = [makeLog(20)];
+    await new EventIndexer(chain, store, { reorgDepth: 0 }).getLogs(MACI, TOPIC, 0);
+
+    chain.queries = [];
+    chain.head = 510;
+    const logs = await new EventIndexer(chain, store, { reorgDepth: 0 }).getLogs(MACI, TOPIC, 0);
+    expect(chain.queries.map((q) => [q.fromBlock, q.toBlock])).toEqual([[501, 510]]);
+    expect(logs).toHaveLength(1);
+  });
+
+  it('should rescan from scratch when the start block changes', async () => {
+    chain.head = 300;
+    chain.logs = [makeLog(50), makeLog(250)];
+    const indexer = new EventIndexer(chain, store);
+    expect(await indexer.getLogs(MACI, TOPIC, 100)).toHaveLength(1);
+    expect(await indexer.getLogs(MACI, TOPIC, 0)).toHaveLength(2);
+  });
+
+  it('should share one scan between concurrent callers', async () => {
+    chain.head = 100;
+    const indexer = new EventIndexer(chain, store);
+    await Promise.all([indexer.getLogs(MACI, TOPIC), indexer.getLogs(MACI.toLowerCase(), TOPIC)]);
+    expect(chain.queries).toHaveLength(1);
+  });
+
+  it('should keep namespaces apart', async () => {
+    chain.head = 100;
+    chain.logs = [makeLog(5)];
+    await new EventIndexer(chain, store, { namespace: '1' }).getLogs(MACI, TOPIC);
+    expect(await store.load(`1:${MACI.toLowerCase()}:${TOPIC}`)).not.toBeNull();
+    expect(await store.load(`${MACI.toLowerCase()}:${TOPIC}`)).toBeNull();
+  });
+});
@@ -57,7 +57,7 @@ describe('KeyManager', () => {
     const sk = derivePrivateKey(seed);
     const pubKey = await eddsaDerivePublicKey(sk);
 
-    km.storeKeypair(FAKE_ADDR, 0, sk, pubKey);
+    await km.storeKeypair(FAKE_ADDR, 0, sk, pubKey);
 
     const loaded = await km.loadKeypair(FAKE_ADDR, 0);
     expect(loaded).not.toBeNull();
@@ -0,0 +1,103 @@
+/**
+ * Poll Metadata Tests
+ *
+ * HttpMetadataStore runs against a local server that keeps documents in a
+ * Map under the hash in the URL path.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  HttpMetadataStore, MemoryMetadataStore, encodePollMetadata, hashPollMetadata,
+  readPollMetadata, validatePollMetadata, type PollMetadata,
+} from '../src/metadata.js';
+
+const METADATA: PollMetadata = {
+  version: 1,
+  title: 'Raise the quorum',
+  description: '## Motivation\n\nTurnout has doubled since launch.',
+  links: [{ label: 'Forum', url: 'https://forum.example.org/t/42' }],
+  author: '0x9f2429c483802e5A8dcF8cD6AF4e30c0479cD841',
+};
+
+describe('hashPollMetadata', () => {
+  it('should hash the canonical encoding regardless of key order', () => {
+    const reordered = JSON.parse(JSON.stringify({
+      author: METADATA.author, links: METADATA.links, description: METADATA.description,
+      title: METADATA.title, version: 1,
+    }));
+    expect(hashPollMetadata(reordered)).toBe(hashPollMetadata(METADATA));
+    expect(hashPollMetadata(METADATA)).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(encodePollMetadata({ version: 1, title: 'T', description: '' })).toBe('{"description":"","title":"T","version":1}');
+    expect(hashPollMetadata({ ...METADATA, title: 'Lower the quorum' })).not.toBe(hashPollMetadata(METADATA));
+  });
+
+  it('should drop unknown fields and reject invalid documents', () => {
+    expect(validatePollMetadata({ ...METADATA, extra: true })).toEqual(METADATA);
+    expect(() => validatePollMetadata({ ...METADATA, version: 2 })).toThrow('unsupported version 2');
+    expect(() => validatePollMetadata({ ...METADATA, title: ' ' })).toThrow('title is required');
+    expect(() => validatePollMetadata({ ...METADATA, options: ['Only'] })).toThrow('2..25 labels');
+    expect(() => validatePollMetadata({ ...METADATA, links: [{ label: 'x', url: 'javascript:alert(1)' }] }))
+      .toThrow('unsupported link URL');
+  });
+});
+
+describe('MemoryMetadataStore', () => {
+  it('should store by hash and verify on read', async () => {
+    const store = new MemoryMetadataStore();
+    const hash = await store.put(METADATA);
+    expect(hash).toBe(hashPollMetadata(METADATA));
+    expect(await readPollMetadata(store, hash.toUpperCase().replace('0X', '0x'))).toEqual(METADATA);
+    expect(await readPollMetadata(store, '0x' + '0'.repeat(64))).toBeNull();
+    expect(await readPollMetadata(store, '0x' + '1'.repeat(64))).toBeNull();
+  });
+});
+
+describe('HttpMetadataStore', () => {
+  const documents = new Map<string, string>();
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const key = req.url!.replace(/^\/metadata\//, '');
+      if (req.method === 'PUT') {
+        let body = '';
+        req.on('data', (chunk) => { body += chunk; });
+        req.on('end', () => {
+          documents.set(key, body);
+          res.writeHead(201).end();
+        });
+        return;
+      }
+      const doc = documents.get(key);
+      if (doc === undefined) res.writeHead(404).end();
+      else res.writeHead(200, { 'Content-Type': 'application/json' }).end(doc);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/metadata/`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should round-trip documents through the server', async () => {
+    const store = new HttpMetadataStore(baseUrl);
+    const hash = await store.put(METADATA);
+    expect(documents.get(hash)).toBe(encodePollMetadata(METADATA));
+    expect(await readPollMetadata(store, hash)).toEqual(METADATA);
+    expect(await store.get('0x' + 'ab'.repeat(32))).toBeNull();
+  });
+
+  it('should accept a re-serialized document but reject a modified one', async () => {
+    const store = new HttpMetadataStore(baseUrl);
+    const hash = hashPollMetadata(METADATA);
+    documents.set(hash, JSON.stringify(METADATA, null, 2));
+    expect(await readPollMetadata(store, hash)).toEqual(METADATA);
+
+    documents.set(hash, JSON.stringify({ ...METADATA, description: 'Turnout has halved.' }));
+    await expect(readPollMetadata(store, hash)).rejects.toThrow('hash mismatch');
+  });
+});
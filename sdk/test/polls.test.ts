@@ -0,0 +1,221 @@
+/**
+ * Poll Listing Tests
+ *
+ * SigilClient runs against an in-memory chain that answers eth_call for
+ * MACI, three polls, their tallies and (optionally) Multicall3, and counts
+ * the eth_calls each listing costs.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { SigilClient } from '../src/client.js';
+import { MemoryIndexerStore } from '../src/indexer.js';
+import { MULTICALL3_ADDRESS } from '../src/multicall.js';
+import { MemoryMetadataStore, hashPollMetadata, type MetadataStore, type PollMetadata } from '../src/metadata.js';
+
+const MACI = '0x' + '11'.repeat(20);
+const pollAddr = (id: number) => '0x' + `a${id}`.repeat(20);
+const tallyAddr = (id: number) => '0x' + `c${id}`.repeat(20);
+
+const MACI_IFACE = new ethers.Interface([
+  'function nextPollId() view returns (uint256)',
+  'function polls(uint256) view returns (address)',
+  'function numSignUps() view returns (uint256)',
+  'event DeployPoll(uint256 indexed pollId, address pollAddr, address messageProcessorAddr, address tallyAddr)',
+]);
+const POLL_IFACE = new ethers.Interface([
+  'function isVotingOpen() view returns (bool)',
+  'function numMessages() view returns (uint256)',
+  'function getDeployTimeAndDuration() view returns (uint256, uint256)',
+  'function stateAqMerged() view returns (bool)',
+  'function messageAqMerged() view returns (bool)',
+  'function getOptionLabels() view returns (string[])',
+  'function title() view returns (string)',
+  'function metadataHash() view returns (bytes32)',
+]);
+const TALLY_IFACE = new ethers.Interface(['function tallyVerified() view returns (bool)']);
+const MULTICALL_IFACE = new ethers.Interface([
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+]);
+
+type PollState = {
+  open: boolean; messages: number; merged: boolean; verified: boolean; labels?: string[]; metadataHash?: string;
+};
+
+const METADATA: PollMetadata = {
+  version: 1,
+  title: 'Treasury colour',
+  description: 'Pick the **new** colour.',
+  options: ['Red', 'Green', 'Blue'],
+};
+
+function revert(): Error {
+  return Object.assign(new Error('execution reverted'), { code: 'CALL_EXCEPTION' });
+}
+
+/**
+ * Poll 0 finalized (deployed before labels and metadata), poll 1 a
+ * multi-choice poll with metadata being processed, poll 2 open
+ */
+function fakeChain(withMulticall: boolean, metadataStore?: MetadataStore) {
+  const polls: PollState[] = [
+    { open: false, messages: 4, merged: true, verified: true },
+    {
+      open: false, messages: 2, merged: true, verified: false,
+      labels: ['Red', 'Green', 'Blue'], metadataHash: hashPollMetadata(METADATA),
+    },
+    { open: true, messages: 1, merged: false, verified: false },
+  ];
+  const calls: string[] = [];
+
+  function answer(to: string, data: string): string {
+    const target = to.toLowerCase();
+    if (target === MACI) {
+      const { name, args } = MACI_IFACE.parseTransaction({ data })!;
+      const value = name === 'nextPollId' ? [polls.length] : name === 'numSignUps' ? [6] : [pollAddr(Number(args[0]))];
+      return MACI_IFACE.encodeFunctionResult(name, value);
+    }
+    const id = polls.findIndex((_, i) => target === pollAddr(i) || target === tallyAddr(i));
+    if (id < 0) throw revert();
+    const p = polls[id];
+    if (target === tallyAddr(id)) return TALLY_IFACE.encodeFunctionResult('tallyVerified', [p.verified]);
+
+    const { name } = POLL_IFACE.parseTransaction({ data })!;
+    if (id === 0 && (name === 'getOptionLabels' || name === 'metadataHash')) throw revert(); // older Poll
+    const values: Record<string, unknown[]> = {
+      isVotingOpen: [p.open],
+      numMessages: [p.messages],
+      getDeployTimeAndDuration: [1000 + id, 3600],
+      stateAqMerged: [p.merged],
+      messageAqMerged: [p.merged],
+      getOptionLabels: [p.labels ?? []],
+      title: [id === 2 ? 'Raise the quorum' : ''],
+      metadataHash: [p.metadataHash ?? ethers.ZeroHash],
+    };
+    return POLL_IFACE.encodeFunctionResult(name, values[name]);
+  }
+
+  const deployLogs = polls.map((_, id) => {
+    const log = MACI_IFACE.encodeEventLog('DeployPoll', [id, pollAddr(id), '0x' + `b${id}`.repeat(20), tallyAddr(id)]);
+    return { address: MACI, topics: log.topics, data: log.data, blockNumber: 10 + id, index: 0, transactionHash: '0x' + '00'.repeat(32) };
+  });
+
+  const provider = {
+    getNetwork: async () => ({ chainId: 31337n }),
+    getBlockNumber: async () => 100,
+    getLogs: async () => deployLogs,
+    getCode: async (address: string) => (withMulticall && address === MULTICALL3_ADDRESS ? '0x6080' : '0x'),
+    call: async ({ to, data }: { to: string; data: string }) => {
+      if (to === MULTICALL3_ADDRESS) {
+        const [batch] = MULTICALL_IFACE.decodeFunctionData('aggregate3', data);
+        calls.push(`aggregate3(${batch.length})`);
+        const results = batch.map((c: { target: string; callData: string }) => {
+          try {
+            return { success: true, returnData: answer(c.target, c.callData) };
+          } catch {
+            return { success: false, returnData: '0x' };
+          }
+        });
+        return MULTICALL_IFACE.encodeFunctionResult('aggregate3', [results]);
+      }
+      calls.push('call');
+      return answer(to, data);
+    },
+  };
+
+  const client = new SigilClient({
+    maciAddress: MACI,
+    provider: provider as unknown as ethers.Provider,
+    indexerStore: new MemoryIndexerStore(),
+    metadataStore,
+  });
+  return { client, polls, calls };
+}
+
+describe('getPolls', () => {
+  it('should read every poll in batched calls and cache deploy-time fields', async () => {
+    const { client, calls } = fakeChain(true);
+
+    const polls = await client.getPolls();
+    expect(polls.map((p) => [p.id, p.status, p.numMessages, p.numSignUps])).toEqual([
+      [0, 'finalized', 4, 6],
+      [1, 'processing', 2, 6],
+      [2, 'active', 1, 6],
+    ]);
+    expect(polls[0]).toMatchObject({ address: ethers.getAddress(pollAddr(0)), deployTime: 1000, duration: 3600, voteOptions: ['against', 'for', 'abstain'], multiChoice: false });
+    expect(polls[1]).toMatchObject({ voteOptions: ['Red', 'Green', 'Blue'], multiChoice: true });
+    expect(polls.map((p) => [p.title, p.metadataHash])).toEqual([
+      ['Proposal #1', null],
+      ['Proposal #2', hashPollMetadata(METADATA)],
+      ['Raise the quorum', null],
+    ]);
+    // nextPollId, deploy-time fields, then numSignUps and the live state of each poll
+    expect(calls).toEqual(['call', 'aggregate3(12)', 'aggregate3(16)']);
+
+    calls.length = 0;
+    await client.getPolls();
+    expect(calls).toEqual(['call', 'aggregate3(16)']);
+  });
+
+  it('should page through poll IDs, or through the polls in a status', async () => {
+    const { client, polls } = fakeChain(true);
+    expect((await client.getPolls({ offset: 1, limit: 1 })).map((p) => p.id)).toEqual([1]);
+    expect((await client.getPolls({ offset: 2, limit: 10 })).map((p) => p.id)).toEqual([2]);
+    expect(await client.getPolls({ offset: 5 })).toEqual([]);
+
+    polls[2].open = false;
+    expect((await client.getPolls({ status: 'merging' })).map((p) => p.id)).toEqual([2]);
+    expect((await client.getPolls({ status: 'finalized', offset: 1 }))).toEqual([]);
+  });
+
+  it('should fall back to individual calls without Multicall3', async () => {
+    const batched = await fakeChain(true).client.getPolls();
+    const { client, calls } = fakeChain(false);
+    expect(await client.getPolls()).toEqual(batched);
+    expect(calls.every((c) => c === 'call')).toBe(true);
+  });
+});
+
+describe('getPoll', () => {
+  it('should read only the requested poll', async () => {
+    const { client, calls } = fakeChain(true);
+    expect(await client.getPoll(1)).toMatchObject({ id: 1, status: 'processing', multiChoice: true });
+    expect(calls).toEqual(['call', 'aggregate3(4)', 'aggregate3(6)']);
+    expect(await client.getPoll(3)).toBeNull();
+    expect(await client.getPoll(-1)).toBeNull();
+  });
+});
+
+describe('poll metadata', () => {
+  it('should attach verified metadata to listed polls', async () => {
+    const store = new MemoryMetadataStore();
+    await store.put(METADATA);
+    const { client } = fakeChain(true, store);
+
+    const polls = await client.getPolls();
+    expect(polls[1].metadata).toEqual(METADATA);
+    expect(polls[1].title).toBe('Treasury colour');
+    expect(polls[0].metadata).toBeUndefined();
+    expect(await client.getPollMetadata(1)).toEqual(METADATA);
+    expect(await client.getPollMetadata(0)).toBeNull();
+  });
+
+  it('should reject a document that does not match the poll', async () => {
+    const tampered: MetadataStore = {
+      put: async () => { throw new Error('read-only'); },
+      get: async () => ({ ...METADATA, description: 'Pick Red.' }),
+    };
+    const { client } = fakeChain(true, tampered);
+    expect((await client.getPolls())[1].metadata).toBeUndefined();
+    await expect(client.getPollMetadata(1)).rejects.toThrow('hash mismatch');
+
+    const relabelled = new MemoryMetadataStore();
+    const { client: other, polls } = fakeChain(true, relabelled);
+    polls[1].metadataHash = await relabelled.put({ ...METADATA, options: ['Red', 'Blue', 'Green'] });
+    await expect(other.getPollMetadata(1)).rejects.toThrow('do not match its on-chain labels');
+  });
+
+  it('should require a metadata store', async () => {
+    await expect(fakeChain(true).client.getPollMetadata(1)).rejects.toThrow('metadataStore required');
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Tally Verification Tests
+ *
+ * Builds a self-consistent tally.json + chain view, then tampers with
+ * individual fields and checks the matching check fails.
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { createHash } from 'crypto';
+// @ts-expect-error - circomlibjs doesn't have types
+import { buildPoseidon } from 'circomlibjs';
+import {
+  verifyTallyArtifact, computePublicInputHash, readOptionResults,
+  type TallyArtifact, type TallyChainData, type Groth16Verifier,
+} from '../src/verify.js';
+
+const CONTRACTS = { poll: '0x' + '1'.repeat(40), messageProcessor: '0x' + '2'.repeat(40), tally: '0x' + '3'.repeat(40) };
+const PROOF = { pi_a: ['1', '2', '1'], pi_b: [['3', '4'], ['5', '6'], ['1', '0']], pi_c: ['7', '8', '1'] };
+
+let hash: (...inputs: bigint[]) => bigint;
+
+beforeAll(async () => {
+  const poseidon = await buildPoseidon();
+  hash = (...inputs: bigint[]) => BigInt(poseidon.F.toString(poseidon(inputs.map((x) => poseidon.F.e(x)))));
+});
+
+// Dev circuit: 5 options, depth 2; no messages, 1 voter → 1 tally batch
+function fixture(): { artifact: TallyArtifact; chain: TallyChainData } {
+  const tally = [3n, 4n, 1n, 0n, 0n];
+  const spent = tally.map((v) => v * v);
+  const totalSpent = spent.reduce((a, b) => a + b, 0n);
+  const resultsRoot = hash(...tally);
+  const spentRoot = hash(...spent);
+  const commitment = hash(resultsRoot, totalSpent, spentRoot);
+  const zero1 = hash(0n, 0n, 0n, 0n, 0n);
+  const emptyMessageRoot = hash(zero1, zero1, zero1, zero1, zero1);
+
+  const artifact: TallyArtifact = {
+    version: 1,
+    maci: '0x' + 'a'.repeat(40),
+    pollId: 0,
+    chainId: '11155111',
+    contracts: CONTRACTS,
+    circuit: { mode: 'dev', stateTreeDepth: 2, messageBatchSize: 2, tallyBatchSize: 2, voteOptions: 5 },
+    stateCommitment: '0',
+    tallyCommitment: commitment.toString(),
+    results: { tally: tally.map(String), root: resultsRoot.toString() },
+    perOptionSpent: { tally: spent.map(String), root: spentRoot.toString() },
+    totalSpent: totalSpent.toString(),
+    published: { forVotes: '4', againstVotes: '3', abstainVotes: '1', totalVoters: 1, txHash: '0xpub' },
+    processBatches: [],
+    tallyBatches: [{
+      batch: 1,
+      commitment: commitment.toString(),
+      proof: PROOF,
+      publicSignals: [computePublicInputHash([0n, 0n, commitment]).toString()],
+      txHash: '0xt1',
+    }],
+    createdAt: '2026-01-01T00:00:00.000Z',
+  };
+
+  const chain: TallyChainData = {
+    contracts: CONTRACTS,
+    messages: [],
+    stateTreeDepth: 2,
+    numSignUps: 1,
+    numMessages: 0,
+    messageRoot: emptyMessageRoot,
+    stateCommitment: 0n,
+    tallyCommitment: commitment,
+    tallyVerified: true,
+    forVotes: 4n,
+    againstVotes: 3n,
+    abstainVotes: 1n,
+    totalVoters: 1n,
+  };
+  return { artifact, chain };
+}
+
+const status = (report: { checks: { name: string; status: string }[] }, name: string) =>
+  report.checks.find((c) => c.name === name)?.status;
+
+describe('computePublicInputHash', () => {
+  it('should match sha256(abi.encodePacked(...)) masked to 253 bits', () => {
+    const values = [1n, 2n ** 200n, 3n];
+    const buf = Buffer.concat(values.map((v) => Buffer.from(v.toString(16).padStart(64, '0'), 'hex')));
+    const expected = BigInt('0x' + createHash('sha256').update(buf).digest('hex')) & ((1n << 253n) - 1n);
+    expect(computePublicInputHash(values)).toBe(expected);
+  });
+});
+
+describe('verifyTallyArtifact', () => {
+  it('should pass a consistent artifact and verify proofs', async () => {
+    const { artifact, chain } = fixture();
+    const calls: string[][] = [];
+    const groth16: Groth16Verifier = {
+      verify: async (_vkey, signals) => { calls.push(signals); return true; },
+    };
+
+    const report = await verifyTallyArtifact(artifact, chain, {
+      groth16, verifyingKeys: { processMessages: {}, tallyVotes: {} },
+    });
+
+    expect(report.checks.filter((c) => c.status !== 'pass')).toEqual([]);
+    expect(report.ok).toBe(true);
+    expect(calls).toEqual([artifact.tallyBatches[0].publicSignals]);
+  });
+
+  it('should skip proof checks without a verifier and only pass with allowSkip', async () => {
+    const { artifact, chain } = fixture();
+    const report = await verifyTallyArtifact(artifact, chain);
+    expect(status(report, 'tally proof #1')).toBe('skip');
+    expect(report.ok).toBe(false);
+    expect((await verifyTallyArtifact(artifact, chain, { allowSkip: true })).ok).toBe(true);
+  });
+
+  it('should rebuild the message root at the on-chain depth, not the artifact\'s', async () => {
+    const { artifact, chain } = fixture();
+    artifact.circuit.stateTreeDepth = 3;
+    const report = await verifyTallyArtifact(artifact, chain);
+    expect(status(report, 'message root')).toBe('pass');
+  });
+
+  it('should fail when on-chain results differ from the results leaves', async () => {
+    const { artifact, chain } = fixture();
+    chain.forVotes = 40n;
+    const report = await verifyTallyArtifact(artifact, chain);
+    expect(status(report, 'published results')).toBe('fail');
+    expect(report.ok).toBe(false);
+  });
+
+  it('should fail when a results leaf is altered', async () => {
+    const { artifact, chain } = fixture();
+    artifact.results.tally[1] = '5';
+    const report = await verifyTallyArtifact(artifact, chain);
+    expect(status(report, 'results root')).toBe('fail');
+    expect(status(report, 'tally commitment')).toBe('fail');
+  });
+
+  it('should fail when events do not rebuild the message root', async () => {
+    const { artifact, chain } = fixture();
+    chain.messages = [{ data: new Array(10).fill(1n), encPubKeyX: 2n, encPubKeyY: 3n, messageIndex: 0 }];
+    chain.numMessages = 1;
+    const report = await verifyTallyArtifact(artifact, chain);
+    expect(status(report, 'message root')).toBe('fail');
+    expect(status(report, 'process batches')).toBe('fail');
+  });
+
+  it('should fail a proof whose public signal does not match', async () => {
+    const { artifact, chain } = fixture();
+    artifact.tallyBatches[0].publicSignals = ['123'];
+    const groth16: Groth16Verifier = { verify: async () => true };
+    const report = await verifyTallyArtifact(artifact, chain, {
+      groth16, verifyingKeys: { processMessages: {}, tallyVotes: {} },
+    });
+    expect(status(report, 'tally proof #1')).toBe('fail');
+  });
+});
+
+describe('readOptionResults', () => {
+  it('should label the leaves of an artifact that matches the on-chain commitment', async () => {
+    const { artifact, chain } = fixture();
+    const { options, totalSpent } = await readOptionResults(artifact, chain.tallyCommitment, ['Red', 'Green', 'Blue', 'Cyan']);
+    expect(options.map((o) => [o.label, o.votes, o.spentCredits])).toEqual([
+      ['Red', 3n, 9n], ['Green', 4n, 16n], ['Blue', 1n, 1n], ['Cyan', 0n, 0n],
+    ]);
+    expect(totalSpent).toBe(26n);
+  });
+
+  it('should reject an artifact whose leaves were altered', async () => {
+    const { artifact, chain } = fixture();
+    artifact.results.tally[3] = '7';
+    await expect(readOptionResults(artifact, chain.tallyCommitment, ['a', 'b', 'c', 'd']))
+      .rejects.toThrow('does not match the on-chain commitment');
+  });
+});
@@ -8,14 +8,20 @@ import {
   TALLY_VERIFIER_ADDRESS,
   VK_REGISTRY_ADDRESS,
   MACI_ABI,
+  MESSAGE_TREE_DEPTH,
+  MAX_VOTE_OPTIONS,
   DEFAULT_COORD_PUB_KEY_X,
   DEFAULT_COORD_PUB_KEY_Y,
+  HAS_COORD_PUB_KEY,
 } from '../contractV2'
 import { storageKey } from '../storageKeys'
 import { useTranslation } from '../i18n'
 import { TransactionModal } from './voting/TransactionModal'
 import { useVoiceCreditToken } from '../hooks/useVoiceCreditToken'
+import { useMaciFeatures } from '../hooks/useMaciFeatures'
 import { estimateGasWithBuffer } from '../utils/gas'
+import { metadataStore } from '../utils/pollMetadata'
+import type { PollMetadata } from '../../sdk/src/metadata'
 
 interface CreatePollFormProps {
   onPollCreated: (pollId: number, pollAddress: `0x${string}`, title?: string, durationSeconds?: number) => void
@@ -24,6 +30,8 @@ interface CreatePollFormProps {
 
 type DurationPreset = '5m' | '1h' | '3d' | '7d' | 'custom'
 
+const MAX_OPTION_LENGTH = 64
+
 function getDurationPresets(t: ReturnType<typeof useTranslation>['t']): { key: DurationPreset; label: string; minutes: number }[] {
   return [
     { key: '5m', label: t.createPoll.preset5m, minutes: 5 },
@@ -65,9 +73,12 @@ export default function CreatePollForm({ onPollCreated, onSelectPoll }: CreatePo
   })
 
   const token = useVoiceCreditToken()
+  const features = useMaciFeatures()
 
   const [title, setTitle] = useState('')
   const [description, setDescription] = useState('')
+  // [] = a for/against poll; otherwise the labels of a multi-choice poll
+  const [voteOptions, setVoteOptions] = useState<string[]>([])
   const [durationMinutes, setDurationMinutes] = useState(60)
   const [durationPreset, setDurationPreset] = useState<DurationPreset>('1h')
   const [isSubmitting, setIsSubmitting] = useState(false)
@@ -80,46 +91,69 @@ export default function CreatePollForm({ onPollCreated, onSelectPoll }: CreatePo
 
   const handleSubmit = useCallback(async () => {
     if (!address || !title.trim()) return
+    // Votes to a poll deployed without a real coordinator key could never be tallied
+    if (!HAS_COORD_PUB_KEY) {
+      setError(t.createPoll.errorCoordinatorKey)
+      return
+    }
     setIsSubmitting(true)
     setError(null)
     setTxStage('submitting')
 
     try {
       const durationSeconds = BigInt(durationMinutes * 60)
+      const labels = voteOptions.map((o) => o.trim())
+
+      // Title and options are on-chain already; only a description needs a
+      // metadata document, stored first so the poll is deployed with its hash.
+      // Without one, or on a MACI without deployPollWithMetadata, the plain
+      // deploy functions are used and the description stays in this browser.
+      let metadataHash: string | null = null
+      if (description.trim() && features.metadata) {
+        const metadata: PollMetadata = {
+          version: 1,
+          title: title.trim(),
+          description: description.trim(),
+          ...(labels.length > 0 ? { options: labels } : {}),
+          author: address,
+        }
+        metadataHash = await metadataStore.put(metadata).catch(() => null)
+        if (!metadataHash) {
+          setError(t.createPoll.errorMetadata)
+          return
+        }
+      }
+
+      const functionName = metadataHash
+        ? 'deployPollWithMetadata'
+        : labels.length > 0 ? 'deployPollWithOptions' : 'deployPoll'
+      const args = [
+        title.trim(),
+        durationSeconds,
+        DEFAULT_COORD_PUB_KEY_X,
+        DEFAULT_COORD_PUB_KEY_Y,
+        MSG_PROCESSOR_VERIFIER_ADDRESS as `0x${string}`,
+        TALLY_VERIFIER_ADDRESS as `0x${string}`,
+        VK_REGISTRY_ADDRESS as `0x${string}`,
+        MESSAGE_TREE_DEPTH,
+        ...(metadataHash ? [labels, metadataHash as `0x${string}`] : labels.length > 0 ? [labels] : []),
+      ]
 
       setTxStage('confirming')
       const gas = await estimateGasWithBuffer({
         publicClient,
         address: MACI_V2_ADDRESS as `0x${string}`,
         abi: MACI_ABI,
-        functionName: 'deployPoll',
-        args: [
-          title.trim(),
-          durationSeconds,
-          DEFAULT_COORD_PUB_KEY_X,
-          DEFAULT_COORD_PUB_KEY_Y,
-          MSG_PROCESSOR_VERIFIER_ADDRESS as `0x${string}`,
-          TALLY_VERIFIER_ADDRESS as `0x${string}`,
-          VK_REGISTRY_ADDRESS as `0x${string}`,
-          2,
-        ],
+        functionName,
+        args,
         account: address,
         fallbackGas: 15_000_000n,
       })
       const hash = await writeContract({
         address: MACI_V2_ADDRESS as `0x${string}`,
         abi: MACI_ABI,
-        functionName: 'deployPoll',
-        args: [
-          title.trim(),
-          durationSeconds,
-          DEFAULT_COORD_PUB_KEY_X,
-          DEFAULT_COORD_PUB_KEY_Y,
-          MSG_PROCESSOR_VERIFIER_ADDRESS as `0x${string}`,
-          TALLY_VERIFIER_ADDRESS as `0x${string}`,
-          VK_REGISTRY_ADDRESS as `0x${string}`,
-          2,
-        ],
+        functionName,
+        args,
         gas,
         account: address,
       })
@@ -155,15 +189,15 @@ export default function CreatePollForm({ onPollCreated, onSelectPoll }: CreatePo
               localStorage.setItem('maci-last-poll-id', newPollId.toString())
               localStorage.setItem('maci-last-poll-addr', pollAddr)
               localStorage.setItem(storageKey.pollTitle(newPollId), title.trim())
+              if (!metadataHash && description.trim()) {
+                localStorage.setItem(storageKey.pollDesc(newPollId), description.trim())
+              }
               if (messageProcessorAddr) {
                 localStorage.setItem(storageKey.pollTitle(newPollId) + ':mp', messageProcessorAddr)
               }
               if (tallyAddr) {
                 localStorage.setItem(storageKey.pollTitle(newPollId) + ':tally', tallyAddr)
               }
-              if (description.trim()) {
-                localStorage.setItem(storageKey.pollDesc(newPollId), description.trim())
-              }
 
               setCreatedPollId(newPollId)
               setCreatedPollAddr(pollAddr)
@@ -186,11 +220,11 @@ export default function CreatePollForm({ onPollCreated, onSelectPoll }: CreatePo
                 localStorage.setItem('maci-last-poll-id', newPollId.toString())
                 localStorage.setItem('maci-last-poll-addr', pollAddr)
                 localStorage.setItem(storageKey.pollTitle(newPollId), title.trim())
-                localStorage.setItem(storageKey.pollTitle(newPollId) + ':mp', messageProcessorAddr)
-                localStorage.setItem(storageKey.pollTitle(newPollId) + ':tally', tallyAddr)
-                if (description.trim()) {
+                if (!metadataHash && description.trim()) {
                   localStorage.setItem(storageKey.pollDesc(newPollId), description.trim())
                 }
+                localStorage.setItem(storageKey.pollTitle(newPollId) + ':mp', messageProcessorAddr)
+                localStorage.setItem(storageKey.pollTitle(newPollId) + ':tally', tallyAddr)
                 setCreatedPollId(newPollId)
                 setCreatedPollAddr(pollAddr)
                 setCreatedTitle(title.trim())
@@ -219,12 +253,14 @@ export default function CreatePollForm({ onPollCreated, onSelectPoll }: CreatePo
       setIsSubmitting(false)
       setTxStage('idle')
     }
-  }, [address, title, description, durationMinutes, publicClient, onPollCreated, t])
+  }, [address, title, description, voteOptions, durationMinutes, publicClient, onPollCreated, t, features.metadata])
 
   const titleLen = title.trim().length
   const descLen = description.length
   const titleValid = titleLen >= 3 && titleLen <= 200
   const descValid = descLen <= 1000
+  const optionsValid = voteOptions.length === 0
+    || new Set(voteOptions.map((o) => o.trim().toLowerCase()).filter(Boolean)).size === voteOptions.length
 
   const handlePresetSelect = useCallback((preset: DurationPreset) => {
     setDurationPreset(preset)
@@ -309,6 +345,7 @@ export default function CreatePollForm({ onPollCreated, onSelectPoll }: CreatePo
                 setCreatedPollAddr(null)
                 setTitle('')
                 setDescription('')
+                setVoteOptions([])
               }}
             >
               {t.createPoll.close}
@@ -333,7 +370,7 @@ export default function CreatePollForm({ onPollCreated, onSelectPoll }: CreatePo
   }
 
   // Checking eligibility (wait for BOTH gateCount and canCreatePoll to load)
-  if (checkingEligibility || loadingGateCount) {
+  if (checkingEligibility || loadingGateCount || features.isLoading) {
     return (
       <div className="w-full px-6 py-16">
         <div className="flex items-center justify-center gap-3">
@@ -469,6 +506,80 @@ export default function CreatePollForm({ onPollCreated, onSelectPoll }: CreatePo
           )}
         </div>
 
+        {/* Vote Options */}
+        <div>
+          <label className="block font-display font-black text-sm uppercase tracking-widest mb-3">
+            {t.createPoll.optionsLabel}
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            {([
+              { multi: false, label: t.createPoll.optionsForAgainst },
+              { multi: true, label: t.createPoll.optionsMultiChoice },
+            ]).map(({ multi, label }) => (
+              <button
+                key={label}
+                type="button"
+                aria-pressed={(voteOptions.length > 0) === multi}
+                onClick={() => setVoteOptions(multi ? (voteOptions.length > 0 ? voteOptions : ['', '']) : [])}
+                disabled={isSubmitting || (multi && !features.multiChoice)}
+                className={`h-14 border-2 border-black font-display font-bold text-sm uppercase tracking-wide transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                  (voteOptions.length > 0) === multi
+                    ? 'bg-black text-white'
+                    : 'bg-white text-black hover:bg-slate-50'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {!features.multiChoice && (
+            <p className="text-xs font-mono text-slate-400 mt-2">{t.createPoll.optionsUnsupported}</p>
+          )}
+          {voteOptions.length > 0 && (
+            <div className="mt-4 space-y-3">
+              {voteOptions.map((option, i) => (
+                <div key={i} className="flex gap-3">
+                  <input
+                    type="text"
+                    value={option}
+                    onChange={(e) => setVoteOptions(voteOptions.map((o, j) => (j === i ? e.target.value : o)))}
+                    placeholder={t.createPoll.optionPlaceholder.replace('{n}', String(i + 1))}
+                    aria-label={t.createPoll.optionPlaceholder.replace('{n}', String(i + 1))}
+                    disabled={isSubmitting}
+                    maxLength={MAX_OPTION_LENGTH}
+                    className="technical-input flex-1 h-12 px-4 font-display font-bold bg-white placeholder:text-slate-300 placeholder:font-normal"
+                  />
+                  {voteOptions.length > 2 && (
+                    <button
+                      type="button"
+                      onClick={() => setVoteOptions(voteOptions.filter((_, j) => j !== i))}
+                      disabled={isSubmitting}
+                      aria-label={t.createPoll.removeOption}
+                      className="w-12 h-12 border-2 border-black bg-white hover:bg-slate-50 flex items-center justify-center"
+                    >
+                      <span className="material-symbols-outlined text-base" aria-hidden="true">close</span>
+                    </button>
+                  )}
+                </div>
+              ))}
+              <div className="flex items-center justify-between">
+                <button
+                  type="button"
+                  onClick={() => setVoteOptions([...voteOptions, ''])}
+                  disabled={isSubmitting || voteOptions.length >= MAX_VOTE_OPTIONS}
+                  className="h-10 px-4 border-2 border-black bg-white font-display font-bold text-xs uppercase tracking-wide hover:bg-slate-50 disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-1"
+                >
+                  <span className="material-symbols-outlined text-sm" aria-hidden="true">add</span>
+                  {t.createPoll.addOption}
+                </button>
+                <span className={`text-xs font-mono ${optionsValid ? 'text-slate-400' : 'text-red-500'}`}>
+                  {t.createPoll.optionsHint.replace('{max}', String(MAX_VOTE_OPTIONS))}
+                </span>
+              </div>
+            </div>
+          )}
+        </div>
+
         {/* Proposal Description */}
         <div>
           <label
@@ -487,6 +598,9 @@ export default function CreatePollForm({ onPollCreated, onSelectPoll }: CreatePo
             maxLength={1000}
             className="technical-input w-full px-5 py-4 text-base bg-white placeholder:text-slate-300 resize-none leading-relaxed"
           />
+          {!features.metadata && (
+            <p className="text-xs font-mono text-slate-400 mt-2">{t.createPoll.descLocalOnly}</p>
+          )}
           <div className="flex justify-end mt-2">
             <span className={`text-xs font-mono ${!descValid ? 'text-red-500' : 'text-slate-400'}`}>
               {descLen}/1000
@@ -497,7 +611,7 @@ export default function CreatePollForm({ onPollCreated, onSelectPoll }: CreatePo
         {/* Submit Button */}
         <button
           onClick={handleSubmit}
-          disabled={!titleValid || !descValid || isSubmitting || !address}
+          disabled={!titleValid || !descValid || !optionsValid || isSubmitting || !address}
           className="cta-button w-full h-16 bg-primary text-white font-display font-black text-xl italic uppercase tracking-tight flex items-center justify-center gap-3 disabled:opacity-40 disabled:cursor-not-allowed hover:bg-primary/90 transition-colors"
         >
           <span className="material-symbols-outlined text-2xl">bolt</span>
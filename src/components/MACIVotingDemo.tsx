@@ -28,7 +28,7 @@ import {
   DEFAULT_COORD_PUB_KEY_Y,
 } from '../contractV2'
 import { VoteFormV2 } from './voting/VoteFormV2'
-import { getLastVote } from './voting/voteUtils'
+import { getLastVote, formatVoteSelection } from './voting/voteUtils'
 import { TallyingStatus } from './voting/TallyingStatus'
 import { ResultsDisplay } from './voting/ResultsDisplay'
 import { PollTimer } from './voting/PollTimer'
@@ -38,6 +38,8 @@ import { storageKey } from '../storageKeys'
 import { preloadCrypto } from '../crypto/preload'
 import type { CryptoModules } from '../crypto/preload'
 import { getLogsChunked } from '../utils/viemLogs'
+import { loadPollMetadata } from '../utils/pollMetadata'
+import type { PollMetadataLink } from '../../sdk/src/metadata'
 
 const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000' as `0x${string}`
 
@@ -75,6 +77,7 @@ interface VoteSubmittedData {
   pollId: number
   pollTitle: string
   choice: number
+  choiceLabel?: string // multi-choice polls only
   weight: number
   cost: number
   txHash: string
@@ -103,7 +106,10 @@ export default function MACIVotingDemo({ pollId: propPollId, onBack, onVoteSubmi
   const [, setIsSigningUp] = useState(false)
   const [isLoadingPoll, setIsLoadingPoll] = useState(true)
   const [pollTitle, setPollTitle] = useState<string | null>(null)
+  // Option labels of a multi-choice poll; [] for For / Against
+  const [voteOptions, setVoteOptions] = useState<string[]>([])
   const [pollDescription, setPollDescription] = useState<string | null>(null)
+  const [pollLinks, setPollLinks] = useState<PollMetadataLink[]>([])
   const [isPollExpired, setIsPollExpired] = useState(false)
   const [showReVoteForm, setShowReVoteForm] = useState(false)
   const [votingEndTime, setVotingEndTime] = useState<number | null>(null)
@@ -121,7 +127,9 @@ export default function MACIVotingDemo({ pollId: propPollId, onBack, onVoteSubmi
     setTallyAddress(null)
     setMessageProcessorAddress(null)
     setPollTitle(null)
+    setVoteOptions([])
     setPollDescription(null)
+    setPollLinks([])
     setVotingEndTime(null)
     setIsLoadingPoll(true)
   }, [propPollId])
@@ -237,9 +245,30 @@ export default function MACIVotingDemo({ pollId: propPollId, onBack, onVoteSubmi
             const title = localStorage.getItem(storageKey.pollTitle(propPollId))
             if (title) setPollTitle(title)
           }
+
+          // Polls deployed before multi-choice support have no getOptionLabels()
+          try {
+            const labels = await publicClient.readContract({
+              address: pollAddr,
+              abi: POLL_ABI,
+              functionName: 'getOptionLabels',
+            }) as readonly string[]
+            setVoteOptions([...labels])
+          } catch {
+            setVoteOptions([])
+          }
+
+          const metadata = await loadPollMetadata(publicClient, pollAddr)
+          if (metadata) {
+            setPollTitle((title) => title || metadata.title)
+            setPollDescription(metadata.description || null)
+            setPollLinks(metadata.links ?? [])
+          } else {
+            // Polls created before metadata documents kept the description in this browser only
+            const desc = localStorage.getItem(storageKey.pollDesc(propPollId))
+            if (desc) setPollDescription(desc)
+          }
         }
-        const desc = localStorage.getItem(storageKey.pollDesc(propPollId))
-        if (desc) setPollDescription(desc)
 
         for (const log of logs) {
           const args = log.args as { pollId?: bigint; pollAddr?: `0x${string}`; messageProcessorAddr?: `0x${string}`; tallyAddr?: `0x${string}` }
@@ -658,6 +687,9 @@ export default function MACIVotingDemo({ pollId: propPollId, onBack, onVoteSubmi
 
   // My vote info
   const myVote = address ? getLastVote(address, propPollId) : null
+  const choiceLabel = (choice: number) => voteOptions.length > 0
+    ? (voteOptions[choice] ?? `#${choice}`)
+    : choice === 1 ? t.voteForm.for : t.voteForm.against
   const hasVoted = myVote !== null
 
   // Receipt ID: use the actual tx hash stored in localStorage (real on-chain proof)
@@ -872,7 +904,29 @@ export default function MACIVotingDemo({ pollId: propPollId, onBack, onVoteSubmi
                   <h4 className="text-xs font-bold uppercase tracking-widest text-primary mb-6 flex items-center gap-2">
                     <span className="w-2 h-2 bg-primary"></span> {t.proposalDetail.proposalDesc}
                   </h4>
-                  <p className="text-slate-600 leading-relaxed text-lg">{pollDescription}</p>
+                  <p className="text-slate-600 leading-relaxed text-lg whitespace-pre-line">{pollDescription}</p>
+                </div>
+              )}
+              {pollLinks.length > 0 && (
+                <div>
+                  <h4 className="text-xs font-bold uppercase tracking-widest text-primary mb-4 flex items-center gap-2">
+                    <span className="w-2 h-2 bg-primary"></span> {t.proposalDetail.links}
+                  </h4>
+                  <ul className="space-y-2">
+                    {pollLinks.map((link) => (
+                      <li key={link.url}>
+                        <a
+                          href={link.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 font-mono text-sm text-primary underline"
+                        >
+                          {link.label}
+                          <span className="material-symbols-outlined text-sm" aria-hidden="true">open_in_new</span>
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
                 </div>
               )}
 
@@ -939,6 +993,7 @@ export default function MACIVotingDemo({ pollId: propPollId, onBack, onVoteSubmi
                       voiceCredits={voiceCredits}
                       isExpired={isPollExpired}
                       isRegistered={signedUp}
+                      voteOptions={voteOptions}
                       onSignUp={handleSignUp}
                       onVoteSubmitted={(voteTxHash) => {
                         setTxHash(voteTxHash)
@@ -950,6 +1005,7 @@ export default function MACIVotingDemo({ pollId: propPollId, onBack, onVoteSubmi
                             pollId: propPollId,
                             pollTitle: displayTitle,
                             choice: vote.choice,
+                            choiceLabel: voteOptions.length > 0 ? formatVoteSelection(vote, choiceLabel) : undefined,
                             weight: vote.weight,
                             cost: vote.cost,
                             txHash: voteTxHash,
@@ -981,7 +1037,7 @@ export default function MACIVotingDemo({ pollId: propPollId, onBack, onVoteSubmi
                         <div className="flex flex-col">
                           <span className="text-xs font-bold text-slate-400 uppercase tracking-[0.2em] mb-2">{t.proposalDetail.yourSelection}</span>
                           <div className="text-4xl font-display font-black italic text-black">
-                            {myVote!.choice === 1 ? t.voteForm.for : t.voteForm.against}
+                            {formatVoteSelection(myVote!, choiceLabel)}
                           </div>
                         </div>
 
@@ -1068,6 +1124,7 @@ export default function MACIVotingDemo({ pollId: propPollId, onBack, onVoteSubmi
           pollDescription={pollDescription}
           pollId={propPollId}
           myVote={myVote}
+          voteOptions={voteOptions}
           numSignUps={numSignUps}
           onBack={onBack}
         />
@@ -1135,7 +1192,7 @@ export default function MACIVotingDemo({ pollId: propPollId, onBack, onVoteSubmi
               <div>
                 <span className="font-display font-bold uppercase text-sm">{t.myVote.title}</span>
                 <div className="flex items-center gap-4 mt-1 text-sm text-slate-600">
-                  <span>{t.voteHistory.lastChoice}: <strong className={myVote.choice === 1 ? 'text-emerald-500' : 'text-red-500'}>{myVote.choice === 1 ? t.voteForm.for : t.voteForm.against}</strong></span>
+                  <span>{t.voteHistory.lastChoice}: <strong className={voteOptions.length > 0 ? 'text-black' : myVote.choice === 1 ? 'text-emerald-500' : 'text-red-500'}>{formatVoteSelection(myVote, choiceLabel)}</strong></span>
                   <span>{t.voteHistory.lastWeight}: <strong>{myVote.weight}</strong></span>
                   <span>{t.voteHistory.lastCost}: <strong>{myVote.cost} {t.voteForm.credits}</strong></span>
                 </div>
@@ -1287,7 +1344,7 @@ export default function MACIVotingDemo({ pollId: propPollId, onBack, onVoteSubmi
             {/* Left Column: Voting Breakdown + ZK Verification */}
             <div className="lg:col-span-2">
               {tallyAddress && tallyAddress !== ZERO_ADDRESS ? (
-                <ResultsDisplay tallyAddress={tallyAddress} pollAddress={pollAddress || undefined} />
+                <ResultsDisplay tallyAddress={tallyAddress} pollAddress={pollAddress || undefined} pollId={propPollId} voteOptions={voteOptions} />
               ) : (
                 <div className="border-2 border-black bg-white p-8 text-center">
                   <h3 className="font-display text-2xl font-black uppercase mb-2">{t.results.title}</h3>
@@ -20,7 +20,8 @@ import {
 } from '../contractV2'
 import { useTranslation } from '../i18n'
 import { storageKey } from '../storageKeys'
-import { getLogsChunked } from '../utils/viemLogs'
+import { getEventsIndexed } from '../utils/eventIndexer'
+import { loadPollMetadata } from '../utils/pollMetadata'
 import CreatePollForm from './CreatePollForm'
 
 interface PollInfo {
@@ -147,23 +148,20 @@ export default function ProposalsList({ onSelectPoll }: ProposalsListProps) {
       // Pre-fetch DeployPoll events to get tally addresses
       const tallyMap = new Map<number, `0x${string}`>()
       try {
-        const logs = await getLogsChunked(
+        const logs = await getEventsIndexed(
           publicClient,
+          MACI_V2_ADDRESS,
           {
-            address: MACI_V2_ADDRESS,
-            event: {
-              type: 'event',
-              name: 'DeployPoll',
-              inputs: [
-                { name: 'pollId', type: 'uint256', indexed: true },
-                { name: 'pollAddr', type: 'address', indexed: false },
-                { name: 'messageProcessorAddr', type: 'address', indexed: false },
-                { name: 'tallyAddr', type: 'address', indexed: false },
-              ],
-            },
+            type: 'event',
+            name: 'DeployPoll',
+            inputs: [
+              { name: 'pollId', type: 'uint256', indexed: true },
+              { name: 'pollAddr', type: 'address', indexed: false },
+              { name: 'messageProcessorAddr', type: 'address', indexed: false },
+              { name: 'tallyAddr', type: 'address', indexed: false },
+            ],
           },
           MACI_DEPLOY_BLOCK,
-          'latest',
         )
         for (const log of logs) {
           const args = log.args as { pollId?: bigint; tallyAddr?: `0x${string}` }
@@ -201,7 +199,8 @@ export default function ProposalsList({ onSelectPoll }: ProposalsListProps) {
           publicClient.readContract({ address: pollAddr, abi: POLL_ABI, functionName: 'getDeployTimeAndDuration' }),
           publicClient.readContract({ address: pollAddr, abi: POLL_ABI, functionName: 'numMessages' }),
           publicClient.readContract({ address: pollAddr, abi: POLL_ABI, functionName: 'title' }).catch(() => null),
-        ]).then(async ([isOpen, timeData, numMsgs, onChainTitle]) => {
+          loadPollMetadata(publicClient, pollAddr),
+        ]).then(async ([isOpen, timeData, numMsgs, onChainTitle, metadata]) => {
           let isFinalized = false
           let voters = 0
           const tallyAddr = tallyMap.get(i)
@@ -224,8 +223,8 @@ export default function ProposalsList({ onSelectPoll }: ProposalsListProps) {
           return {
             id: i,
             address: pollAddr,
-            title: (onChainTitle as string) || localStorage.getItem(storageKey.pollTitle(i)) || `#${i + 1}`,
-            description: localStorage.getItem(storageKey.pollDesc(i)) || undefined,
+            title: (onChainTitle as string) || metadata?.title || localStorage.getItem(storageKey.pollTitle(i)) || `#${i + 1}`,
+            description: metadata?.description || localStorage.getItem(storageKey.pollDesc(i)) || undefined,
             isOpen: isOpen as boolean,
             isFinalized,
             deployTime: Number(td[0]),
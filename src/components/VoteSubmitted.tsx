@@ -12,6 +12,7 @@ interface VoteSubmittedProps {
   pollId: number
   pollTitle: string
   choice: number // 0=against, 1=for
+  choiceLabel?: string // option label of a multi-choice poll
   weight: number
   cost: number
   txHash: string
@@ -22,6 +23,7 @@ export default function VoteSubmitted({
   pollId,
   pollTitle,
   choice,
+  choiceLabel: optionLabel,
   weight,
   cost,
   txHash,
@@ -32,8 +34,10 @@ export default function VoteSubmitted({
 
   const explorerUrl = hasTxHash ? `https://sepolia.etherscan.io/tx/${txHash}` : ''
 
-  const choiceLabel = choice === 1 ? t.voteForm.for : t.voteForm.against
-  const choiceIcon = choice === 1 ? 'thumb_up' : 'thumb_down'
+  const multiChoice = optionLabel !== undefined
+  const choiceLabel = optionLabel ?? (choice === 1 ? t.voteForm.for : t.voteForm.against)
+  const choiceIcon = multiChoice ? 'how_to_vote' : choice === 1 ? 'thumb_up' : 'thumb_down'
+  const choiceColor = multiChoice ? 'text-black' : choice === 1 ? 'text-emerald-500' : 'text-red-500'
 
   return (
     <div className="w-full min-h-[80vh] flex items-center justify-center px-6 py-16">
@@ -67,12 +71,12 @@ export default function VoteSubmitted({
             <p className="text-xs font-mono text-slate-400 uppercase tracking-widest mb-3">{t.voteSubmittedPage.myChoice}</p>
             <div className="flex items-center gap-3">
               <span
-                className={`material-symbols-outlined text-4xl ${choice === 1 ? 'text-emerald-500' : 'text-red-500'}`}
+                className={`material-symbols-outlined text-4xl ${choiceColor}`}
               >
                 {choiceIcon}
               </span>
               <span
-                className={`text-3xl font-display font-black uppercase tracking-tight ${choice === 1 ? 'text-emerald-500' : 'text-red-500'}`}
+                className={`text-3xl font-display font-black uppercase tracking-tight break-words ${choiceColor}`}
               >
                 {choiceLabel}
               </span>
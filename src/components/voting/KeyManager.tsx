@@ -7,17 +7,23 @@
  *
  * Displayed as a collapsible "Advanced Options" section to reduce
  * cognitive load for regular users.
+ *
+ * Also exports / restores a passphrase-encrypted backup of the keys and
+ * nonces, since a rotated key only exists in this browser, and switches how
+ * the stored keys are encrypted (wallet signature or passphrase).
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, type ChangeEvent } from 'react';
 import { useAccount, usePublicClient } from 'wagmi';
 import { writeContract } from '../../writeHelper';
-import { POLL_ABI } from '../../contractV2';
+import { MACI_ABI, MACI_V2_ADDRESS, POLL_ABI } from '../../contractV2';
 import { useTranslation } from '../../i18n';
 import { preloadCrypto } from '../../crypto/preload';
 import { estimateGasWithBuffer } from '../../utils/gas';
 import { getMaciNonce, incrementMaciNonce } from './voteUtils';
 import { storageKey } from '../../storageKeys';
+import { exportKeyBackup, restoreKeyBackup } from '../../utils/keyBackup';
+import { getKeyStoreMode, isKeyStoreUnlocked, setKeyStorePassphrase, unlockKeyStore } from '../../crypto/keyStore';
 
 interface KeyManagerProps {
   pollId: number;
@@ -42,12 +48,22 @@ export function KeyManager({
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
   const [showTooltip, setShowTooltip] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [backupBusy, setBackupBusy] = useState<'export' | 'restore' | null>(null);
+  const [backupMessage, setBackupMessage] = useState<string | null>(null);
+  const [backupError, setBackupError] = useState<string | null>(null);
+  const [keyPassphrase, setKeyPassphrase] = useState('');
+  const [storageMode, setStorageMode] = useState(() => (address ? getKeyStoreMode(address) : 'signature'));
+  const [storageLocked, setStorageLocked] = useState(false);
+  const [storageBusy, setStorageBusy] = useState(false);
+  const [storageMessage, setStorageMessage] = useState<string | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
   const { t } = useTranslation();
 
   // writeContract from writeHelper.ts
 
   // Load current key from localStorage (poll-specific > global)
-  useEffect(() => {
+  const loadCurrentPubKey = useCallback(() => {
     if (!address) return;
     const pollPk = localStorage.getItem(storageKey.pubkey(address, pollId));
     const globalPk = localStorage.getItem(storageKey.pk(address));
@@ -61,7 +77,32 @@ export function KeyManager({
         localStorage.removeItem(storageKey.pk(address));
       }
     }
-  }, [address, pollId, isRegistered]);
+  }, [address, pollId]);
+
+  useEffect(() => {
+    loadCurrentPubKey();
+  }, [loadCurrentPubKey, isRegistered]);
+
+  useEffect(() => {
+    if (!address) return;
+    const mode = getKeyStoreMode(address);
+    setStorageMode(mode);
+    setStorageLocked(mode === 'passphrase' && !isKeyStoreUnlocked(address));
+  }, [address]);
+
+  // Storage keys of the private keys held for this wallet, across all polls
+  const storedKeyNames = useCallback(async (): Promise<string[]> => {
+    if (!address || !publicClient) return [];
+    const pollCount = await publicClient.readContract({
+      address: MACI_V2_ADDRESS,
+      abi: MACI_ABI,
+      functionName: 'nextPollId',
+    });
+    return [
+      storageKey.sk(address),
+      ...Array.from({ length: Number(pollCount) }, (_, i) => storageKey.skPoll(address, i)),
+    ];
+  }, [address, publicClient]);
 
   const handleKeyChange = useCallback(async () => {
     if (!address || !pollAddress) return;
@@ -219,6 +260,76 @@ export function KeyManager({
     }
   }, [address, pollId, coordinatorPubKeyX, coordinatorPubKeyY, pollAddress, publicClient, t.keyManager.error]);
 
+  const handleExportBackup = useCallback(async () => {
+    if (!address || !publicClient) return;
+    setBackupBusy('export');
+    setBackupError(null);
+    setBackupMessage(null);
+    try {
+      const pollCount = await publicClient.readContract({
+        address: MACI_V2_ADDRESS,
+        abi: MACI_ABI,
+        functionName: 'nextPollId',
+      });
+      const backup = await exportKeyBackup(address, Number(pollCount), passphrase);
+      const url = URL.createObjectURL(new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `sigil-keys-${address.slice(0, 8)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setBackupMessage(t.keyManager.backupSaved);
+    } catch (err) {
+      setBackupError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBackupBusy(null);
+    }
+  }, [address, publicClient, passphrase, t.keyManager.backupSaved]);
+
+  const handleRestoreBackup = useCallback(async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !address || !publicClient) return;
+    setBackupBusy('restore');
+    setBackupError(null);
+    setBackupMessage(null);
+    try {
+      const result = await restoreKeyBackup(publicClient, address, JSON.parse(await file.text()), passphrase);
+      loadCurrentPubKey();
+      const restored = t.keyManager.restored.replace('{n}', String(result.restoredPolls.length));
+      setBackupMessage(result.skippedPolls.length > 0
+        ? `${restored} ${t.keyManager.restoredSkipped.replace('{n}', String(result.skippedPolls.length))}`
+        : restored);
+    } catch (err) {
+      setBackupError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBackupBusy(null);
+    }
+  }, [address, publicClient, passphrase, loadCurrentPubKey, t.keyManager.restored, t.keyManager.restoredSkipped]);
+
+  const handleStorage = useCallback(async (action: 'unlock' | 'passphrase' | 'signature') => {
+    if (!address) return;
+    setStorageBusy(true);
+    setStorageError(null);
+    setStorageMessage(null);
+    try {
+      const keys = await storedKeyNames();
+      if (action === 'unlock') {
+        await unlockKeyStore(address, keyPassphrase, keys);
+      } else {
+        await setKeyStorePassphrase(address, action === 'passphrase' ? keyPassphrase : null, keys);
+        setStorageMessage(t.keyManager.storageUpdated);
+      }
+      setKeyPassphrase('');
+      setStorageMode(getKeyStoreMode(address));
+      setStorageLocked(false);
+    } catch (err) {
+      setStorageError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setStorageBusy(false);
+    }
+  }, [address, keyPassphrase, storedKeyNames, t.keyManager.storageUpdated]);
+
   return (
     <div className="border-t-2 border-slate-200 pt-6">
       <div className="flex items-center justify-between mb-4">
@@ -287,6 +398,76 @@ export function KeyManager({
 
       {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
       {success && <p className="mt-2 text-xs text-green-600 font-bold">{t.keyManager.success}</p>}
+
+      <div className="mt-6 space-y-3">
+        <h5 className="text-xs font-bold uppercase tracking-wider">{t.keyManager.backupTitle}</h5>
+        <p className="text-xs text-slate-500">{t.keyManager.backupDesc}</p>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder={t.keyManager.passphrase}
+          aria-label={t.keyManager.passphrase}
+          autoComplete="new-password"
+          className="w-full border-2 border-black px-3 py-2 text-xs"
+        />
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={handleExportBackup}
+            disabled={backupBusy !== null || !address || passphrase.length < 8}
+            className="border-2 border-black px-4 py-2 text-xs font-bold uppercase hover:bg-slate-50 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {backupBusy === 'export' ? t.keyManager.exporting : t.keyManager.exportBackup}
+          </button>
+          <label
+            className={`border-2 border-black px-4 py-2 text-xs font-bold uppercase transition-colors ${
+              backupBusy !== null || !address || passphrase.length < 8 ? 'opacity-40 cursor-not-allowed' : 'cursor-pointer hover:bg-slate-50'
+            }`}
+          >
+            {backupBusy === 'restore' ? t.keyManager.restoring : t.keyManager.restoreBackup}
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={handleRestoreBackup}
+              disabled={backupBusy !== null || !address || passphrase.length < 8}
+              className="sr-only"
+            />
+          </label>
+        </div>
+        {backupError && <p className="text-xs text-red-600">{backupError}</p>}
+        {backupMessage && <p className="text-xs text-green-600 font-bold">{backupMessage}</p>}
+      </div>
+
+      <div className="mt-6 space-y-3">
+        <h5 className="text-xs font-bold uppercase tracking-wider">{t.keyManager.storageTitle}</h5>
+        <p className="text-xs text-slate-500">
+          {storageMode === 'signature'
+            ? t.keyManager.storageSignature
+            : storageLocked ? t.keyManager.storageLocked : t.keyManager.storagePassphrase}
+        </p>
+        {(storageMode === 'signature' || storageLocked) && (
+          <input
+            type="password"
+            value={keyPassphrase}
+            onChange={(e) => setKeyPassphrase(e.target.value)}
+            placeholder={t.keyManager.keyPassphrase}
+            aria-label={t.keyManager.keyPassphrase}
+            autoComplete={storageLocked ? 'current-password' : 'new-password'}
+            className="w-full border-2 border-black px-3 py-2 text-xs"
+          />
+        )}
+        <button
+          type="button"
+          onClick={() => handleStorage(storageLocked ? 'unlock' : storageMode === 'signature' ? 'passphrase' : 'signature')}
+          disabled={storageBusy || !address || ((storageMode === 'signature' || storageLocked) && keyPassphrase.length < 8)}
+          className="border-2 border-black px-4 py-2 text-xs font-bold uppercase hover:bg-slate-50 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {storageLocked ? t.keyManager.unlock : storageMode === 'signature' ? t.keyManager.usePassphrase : t.keyManager.useSignature}
+        </button>
+        {storageError && <p className="text-xs text-red-600">{storageError}</p>}
+        {storageMessage && <p className="text-xs text-green-600 font-bold">{storageMessage}</p>}
+      </div>
     </div>
   );
 }
@@ -3,20 +3,25 @@
  *
  * Full-width voting breakdown with tall bars, ZK verification bar,
  * and Final Tally Detailed section matching the Page 2 design.
+ * Multi-choice polls get one bar per option from the verified tally.json.
  */
 
 import { useReadContract } from 'wagmi';
 import { TALLY_ABI } from '../../contractV2';
 import { useTranslation } from '../../i18n';
 import { ExecutionPanel } from '../governance/ExecutionPanel';
+import { useCoordinatorStatus, tallyArtifactUrl } from '../../hooks/useCoordinatorStatus';
+import { useOptionResults, type OptionResult } from '../../hooks/useOptionResults';
 
 interface ResultsDisplayProps {
   tallyAddress: `0x${string}`;
   pollAddress?: `0x${string}`;
   pollId?: number;
+  /** Option labels of a multi-choice poll; empty/absent for For / Against / Abstain */
+  voteOptions?: string[];
 }
 
-export function ResultsDisplay({ tallyAddress, pollAddress, pollId }: ResultsDisplayProps) {
+export function ResultsDisplay({ tallyAddress, pollAddress, pollId, voteOptions = [] }: ResultsDisplayProps) {
   const { t } = useTranslation();
 
   const { data: forVotes, isLoading: loadingFor, isError: errorFor } = useReadContract({
@@ -49,6 +54,12 @@ export function ResultsDisplay({ tallyAddress, pollAddress, pollId }: ResultsDis
     functionName: 'tallyVerified',
   });
 
+  // tally.json published by the coordinator (per-option results, roots, proofs)
+  const coordStatus = useCoordinatorStatus(pollId, tallyVerified === true);
+  const artifactUrl = coordStatus ? tallyArtifactUrl(coordStatus) : null;
+  const multiChoice = voteOptions.length > 0;
+  const optionResults = useOptionResults(tallyAddress, tallyVerified === true ? artifactUrl : null, voteOptions);
+
   const isLoading = loadingFor || loadingAgainst || loadingAbstain || loadingVoters || loadingVerified;
   const hasError = errorFor || errorAgainst || errorAbstain;
 
@@ -100,7 +111,7 @@ export function ResultsDisplay({ tallyAddress, pollAddress, pollId }: ResultsDis
 
   const explorerAddr = pollAddress || tallyAddress;
 
-  if (totalNum === 0) {
+  if (totalNum === 0 && !multiChoice) {
     // If totalVoters > 0 but for+against = 0, votes were verified but all invalid
     if (votersNum > 0) {
       return (
@@ -131,80 +142,84 @@ export function ResultsDisplay({ tallyAddress, pollAddress, pollId }: ResultsDis
           </div>
         </div>
 
-        <div className="space-y-12">
-          {/* FOR bar */}
-          <div>
-            <div className="flex justify-between items-center mb-2">
-              <div className="flex items-center gap-2">
-                <span className="material-symbols-outlined text-primary">thumb_up</span>
-                <span className="font-bold uppercase tracking-widest text-sm">{t.results.forLabel}</span>
+        {multiChoice ? (
+          <OptionBreakdown options={optionResults.options} unavailable={optionResults.isError} />
+        ) : (
+          <div className="space-y-12">
+            {/* FOR bar */}
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <div className="flex items-center gap-2">
+                  <span className="material-symbols-outlined text-primary">thumb_up</span>
+                  <span className="font-bold uppercase tracking-widest text-sm">{t.results.forLabel}</span>
+                </div>
+                <span className="text-3xl font-mono font-bold text-primary">{forPct}%</span>
+              </div>
+              <div className="w-full h-12 bg-slate-100 border-2 border-black">
+                <div
+                  className="h-full bg-primary transition-all duration-700"
+                  style={{ width: `${forPct}%` }}
+                  role="progressbar"
+                  aria-valuenow={forPct}
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                />
+              </div>
+              <div className="mt-2 text-[10px] font-mono font-bold text-slate-500 text-right uppercase">
+                {forNum.toLocaleString()} {t.completedResults.quadraticCredits}
               </div>
-              <span className="text-3xl font-mono font-bold text-primary">{forPct}%</span>
-            </div>
-            <div className="w-full h-12 bg-slate-100 border-2 border-black">
-              <div
-                className="h-full bg-primary transition-all duration-700"
-                style={{ width: `${forPct}%` }}
-                role="progressbar"
-                aria-valuenow={forPct}
-                aria-valuemin={0}
-                aria-valuemax={100}
-              />
-            </div>
-            <div className="mt-2 text-[10px] font-mono font-bold text-slate-500 text-right uppercase">
-              {forNum.toLocaleString()} {t.completedResults.quadraticCredits}
             </div>
-          </div>
 
-          {/* AGAINST bar */}
-          <div>
-            <div className="flex justify-between items-center mb-2">
-              <div className="flex items-center gap-2 text-slate-400">
-                <span className="material-symbols-outlined">thumb_down</span>
-                <span className="font-bold uppercase tracking-widest text-sm">{t.results.againstLabel}</span>
+            {/* AGAINST bar */}
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <div className="flex items-center gap-2 text-slate-400">
+                  <span className="material-symbols-outlined">thumb_down</span>
+                  <span className="font-bold uppercase tracking-widest text-sm">{t.results.againstLabel}</span>
+                </div>
+                <span className="text-3xl font-mono font-bold">{againstPct}%</span>
+              </div>
+              <div className="w-full h-12 bg-slate-100 border-2 border-black">
+                <div
+                  className="h-full bg-slate-700 transition-all duration-700"
+                  style={{ width: `${againstPct}%` }}
+                  role="progressbar"
+                  aria-valuenow={againstPct}
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                />
+              </div>
+              <div className="mt-2 text-[10px] font-mono font-bold text-slate-500 text-right uppercase">
+                {againstNum.toLocaleString()} {t.completedResults.quadraticCredits}
               </div>
-              <span className="text-3xl font-mono font-bold">{againstPct}%</span>
-            </div>
-            <div className="w-full h-12 bg-slate-100 border-2 border-black">
-              <div
-                className="h-full bg-slate-700 transition-all duration-700"
-                style={{ width: `${againstPct}%` }}
-                role="progressbar"
-                aria-valuenow={againstPct}
-                aria-valuemin={0}
-                aria-valuemax={100}
-              />
-            </div>
-            <div className="mt-2 text-[10px] font-mono font-bold text-slate-500 text-right uppercase">
-              {againstNum.toLocaleString()} {t.completedResults.quadraticCredits}
             </div>
-          </div>
 
-          {/* ABSTAIN bar */}
-          <div>
-            <div className="flex justify-between items-center mb-2">
-              <div className="flex items-center gap-2 text-slate-400">
-                <span className="material-symbols-outlined">remove_circle_outline</span>
-                <span className="font-bold uppercase tracking-widest text-sm">{t.results.abstainLabel}</span>
+            {/* ABSTAIN bar */}
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <div className="flex items-center gap-2 text-slate-400">
+                  <span className="material-symbols-outlined">remove_circle_outline</span>
+                  <span className="font-bold uppercase tracking-widest text-sm">{t.results.abstainLabel}</span>
+                </div>
+                <span className="text-3xl font-mono font-bold">{abstainPct}%</span>
+              </div>
+              <div className="w-full h-12 bg-slate-100 border-2 border-black">
+                <div
+                  className="h-full bg-slate-400 transition-all duration-700"
+                  style={{ width: `${abstainPct}%` }}
+                  role="progressbar"
+                  aria-valuenow={abstainPct}
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                />
+              </div>
+              <div className="mt-2 text-[10px] font-mono font-bold text-slate-500 text-right uppercase">
+                {abstainNum.toLocaleString()} {t.completedResults.quadraticCredits}
               </div>
-              <span className="text-3xl font-mono font-bold">{abstainPct}%</span>
-            </div>
-            <div className="w-full h-12 bg-slate-100 border-2 border-black">
-              <div
-                className="h-full bg-slate-400 transition-all duration-700"
-                style={{ width: `${abstainPct}%` }}
-                role="progressbar"
-                aria-valuenow={abstainPct}
-                aria-valuemin={0}
-                aria-valuemax={100}
-              />
-            </div>
-            <div className="mt-2 text-[10px] font-mono font-bold text-slate-500 text-right uppercase">
-              {abstainNum.toLocaleString()} {t.completedResults.quadraticCredits}
             </div>
           </div>
-        </div>
 
+        )}
       </div>
 
       {/* ZK Verification Bar */}
@@ -231,8 +246,78 @@ export function ResultsDisplay({ tallyAddress, pollAddress, pollId }: ResultsDis
         </a>
       </div>
 
+      {/* Tally artifact (tally.json) */}
+      {artifactUrl && coordStatus?.artifact && (
+        <div className="border-2 border-black bg-white p-4 flex flex-col md:flex-row items-center justify-between gap-4">
+          <div className="min-w-0">
+            <span className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest">sha256</span>
+            <code className="block text-xs font-mono text-slate-600 truncate" title={coordStatus.artifact.hash}>
+              {coordStatus.artifact.hash}
+            </code>
+          </div>
+          <a
+            href={artifactUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="shrink-0 border-2 border-black px-4 py-2 text-xs font-bold uppercase tracking-widest hover:bg-black hover:text-white transition-colors flex items-center gap-2"
+          >
+            {t.completedResults.tallyArtifact}
+            <span className="material-symbols-outlined text-sm">download</span>
+          </a>
+        </div>
+      )}
+
       {/* Execution Panel */}
       {pollId !== undefined && <ExecutionPanel pollId={pollId} />}
     </div>
   );
 }
+
+function OptionBreakdown({ options, unavailable }: { options: OptionResult[] | null; unavailable: boolean }) {
+  const { t } = useTranslation();
+
+  if (!options) {
+    return unavailable ? (
+      <p className="text-sm text-slate-500" role="status">{t.results.optionsUnavailable}</p>
+    ) : (
+      <div className="flex items-center gap-3">
+        <span className="spinner" aria-hidden="true" />
+        <span className="text-sm font-mono text-slate-500 uppercase tracking-wider">{t.results.optionsLoading}</span>
+      </div>
+    );
+  }
+
+  const total = options.reduce((sum, o) => sum + Number(o.votes), 0);
+  const leader = Math.max(...options.map((o) => Number(o.votes)));
+  return (
+    <div className="space-y-8">
+      {options.map((o, i) => {
+        const votes = Number(o.votes);
+        const pct = total > 0 ? Math.round((votes / total) * 100) : 0;
+        const leading = votes > 0 && votes === leader;
+        return (
+          <div key={i}>
+            <div className="flex justify-between items-center mb-2 gap-4">
+              <span className={`font-bold uppercase tracking-widest text-sm break-words ${leading ? 'text-primary' : 'text-slate-500'}`}>{o.label}</span>
+              <span className={`text-3xl font-mono font-bold ${leading ? 'text-primary' : ''}`}>{pct}%</span>
+            </div>
+            <div className="w-full h-10 bg-slate-100 border-2 border-black">
+              <div
+                className={`h-full transition-all duration-700 ${leading ? 'bg-primary' : 'bg-slate-500'}`}
+                style={{ width: `${pct}%` }}
+                role="progressbar"
+                aria-label={o.label}
+                aria-valuenow={pct}
+                aria-valuemin={0}
+                aria-valuemax={100}
+              />
+            </div>
+            <div className="mt-2 text-[10px] font-mono font-bold text-slate-500 text-right uppercase">
+              {votes.toLocaleString()} {t.completedResults.quadraticCredits}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -10,6 +10,8 @@ import { useState, useEffect } from 'react'
 import { useReadContract } from 'wagmi'
 import { POLL_ABI, MESSAGE_PROCESSOR_ABI, TALLY_ABI } from '../../contractV2'
 import { useTranslation } from '../../i18n'
+import { useCoordinatorStatus } from '../../hooks/useCoordinatorStatus'
+import { formatVoteSelection, type LastVote } from './voteUtils'
 
 interface TallyingStatusProps {
   pollAddress?: `0x${string}`
@@ -19,7 +21,9 @@ interface TallyingStatusProps {
   pollTitle: string
   pollDescription?: string | null
   pollId: number
-  myVote?: { choice: number; weight: number; cost: number } | null
+  myVote?: LastVote | null
+  /** Option labels of a multi-choice poll, for myVote.choice */
+  voteOptions?: string[]
   numSignUps: number
   onBack: () => void
 }
@@ -35,6 +39,7 @@ export function TallyingStatus({
   pollDescription,
   pollId,
   myVote,
+  voteOptions = [],
   numSignUps,
   onBack,
 }: TallyingStatusProps) {
@@ -108,14 +113,29 @@ export function TallyingStatus({
     return () => clearInterval(iv)
   }, [now, votingEndTime])
 
+  // Real progress from the coordinator status server (when configured)
+  const coordStatus = useCoordinatorStatus(pollId, !isFinalized)
+  const batch = coordStatus?.batch ?? null
+  const batchLabel = batch
+    ? (batch.kind === 'process' ? t.tallying.batchProgress : t.tallying.tallyBatchProgress)
+        .replace('{current}', String(batch.current))
+        .replace('{total}', String(batch.total))
+    : null
+  const batchDurations = batch ? coordStatus!.proofDurationsMs[batch.kind] : []
+  const avgProofSec = batchDurations.length > 0
+    ? batchDurations.reduce((a, b) => a + b, 0) / batchDurations.length / 1000
+    : null
+
   const elapsedSinceAnchor = (now - stepAnchor.time) / 1000
-  const remainingSec_raw = Math.max(0, remainingFromStep + BUFFER_SEC - elapsedSinceAnchor)
+  const remainingSec_raw = batch && avgProofSec !== null
+    ? Math.max(0, avgProofSec * (batch.total - batch.current + 1))
+    : Math.max(0, remainingFromStep + BUFFER_SEC - elapsedSinceAnchor)
   const isOverdue = remainingSec_raw === 0 && !isFinalized
 
   const choiceLabel = myVote
-    ? myVote.choice === 1
-      ? t.voteForm.for.toUpperCase()
-      : t.voteForm.against.toUpperCase()
+    ? formatVoteSelection(myVote, (choice) => voteOptions.length > 0
+      ? voteOptions[choice] ?? `#${choice}`
+      : choice === 1 ? t.voteForm.for : t.voteForm.against).toUpperCase()
     : '\u2014'
 
   return (
@@ -230,6 +250,9 @@ export function TallyingStatus({
                       <p className={`font-bold text-lg uppercase italic ${isProcessed ? 'text-black' : 'text-primary'}`}>
                         {t.processing.step2}
                       </p>
+                      {batchLabel && (
+                        <p className="font-mono text-xs font-bold text-slate-500 mt-1">{batchLabel}</p>
+                      )}
                     </div>
                   </div>
 
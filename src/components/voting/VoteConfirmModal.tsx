@@ -10,6 +10,8 @@ import { useTranslation } from '../../i18n';
 
 interface VoteConfirmModalProps {
   choice: number;
+  /** Option label of a multi-choice poll (default: For / Against by choice) */
+  choiceLabel?: string;
   weight: number;
   cost: number;
   onConfirm: () => void;
@@ -18,6 +20,7 @@ interface VoteConfirmModalProps {
 
 export function VoteConfirmModal({
   choice,
+  choiceLabel: optionLabel,
   weight,
   cost,
   onConfirm,
@@ -36,7 +39,8 @@ export function VoteConfirmModal({
     return () => { document.body.style.overflow = ''; };
   }, []);
 
-  const choiceLabel = choice === 1 ? t.voteForm.for : t.voteForm.against;
+  const choiceLabel = optionLabel ?? (choice === 1 ? t.voteForm.for : t.voteForm.against);
+  const choiceColor = optionLabel !== undefined ? 'text-black' : choice === 1 ? 'text-emerald-500' : 'text-red-500';
 
   return (
     <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onCancel} role="dialog" aria-modal="true">
@@ -45,7 +49,7 @@ export function VoteConfirmModal({
         <div className="space-y-4 mb-6">
           <div className="flex justify-between items-center p-3 border-2 border-slate-200">
             <span className="text-xs font-bold text-slate-500 uppercase">{t.confirm.choice}</span>
-            <span className={`font-display font-black text-lg uppercase ${choice === 1 ? 'text-emerald-500' : 'text-red-500'}`}>{choiceLabel}</span>
+            <span className={`font-display font-black text-lg uppercase ${choiceColor}`}>{choiceLabel}</span>
           </div>
           <div className="flex justify-between items-center p-3 border-2 border-slate-200">
             <span className="text-xs font-bold text-slate-500 uppercase">{t.confirm.weight}</span>
@@ -1,11 +1,12 @@
 /**
  * VoteFormV2 - MACI Encrypted Voting Form
  *
- * Quadratic voting: voters choose For/Against and pick their vote weight.
+ * Quadratic voting: voters choose For/Against (or one option of a
+ * multi-choice poll) and pick their vote weight.
  * Cost = weight² credits. Weight 1 = simple vote. Weight 3 = 9 credits.
  *
  * Flow:
- *   1. User selects vote choice (For / Against)
+ *   1. User selects vote choice (For / Against, or an option index)
  *   2. User picks vote weight via slider (default 1)
  *   3. BLAKE512 key derivation -> ECDH -> DuplexSponge encryption
  *   4. EdDSA-Poseidon signature
@@ -21,8 +22,8 @@ import { POLL_ABI, VOICE_CREDIT_PROXY_ADDRESS, ERC20_VOICE_CREDIT_PROXY_ABI, MAC
 import { useTranslation } from '../../i18n';
 import { VoteConfirmModal } from './VoteConfirmModal';
 import { TransactionModal } from './TransactionModal';
-import { preloadCrypto } from '../../crypto/preload';
-import { getLastVote, getMaciNonce, incrementMaciNonce } from './voteUtils';
+import { preloadCrypto, type CryptoModules } from '../../crypto/preload';
+import { getLastVote, getMaciNonce, incrementMaciNonce, formatVoteSelection, type LastVote, type VoteAllocation } from './voteUtils';
 import { storageKey } from '../../storageKeys';
 import { getLogsChunked } from '../../utils/viemLogs';
 import { estimateGasWithBuffer } from '../../utils/gas';
@@ -35,6 +36,8 @@ interface VoteFormV2Props {
   voiceCredits?: number;
   isExpired?: boolean;
   isRegistered?: boolean;
+  /** Option labels of a multi-choice poll; empty/absent for For / Against */
+  voteOptions?: string[];
   onSignUp?: () => Promise<void>;
   onVoteSubmitted?: (txHash: string) => void;
 }
@@ -49,6 +52,7 @@ export function VoteFormV2({
   voiceCredits = 100,
   isExpired = false,
   isRegistered = true,
+  voteOptions = [],
   onSignUp,
   onVoteSubmitted,
 }: VoteFormV2Props) {
@@ -56,6 +60,10 @@ export function VoteFormV2({
   const publicClient = usePublicClient();
   const [choice, setChoice] = useState<number | null>(null);
   const [weight, setWeight] = useState(1);
+  // Split mode (multi-choice polls): a weight per option, cost = sum of weight²
+  const [split, setSplit] = useState(false);
+  const [allocation, setAllocation] = useState<number[]>([]);
+  const [batchProgress, setBatchProgress] = useState<{ current: number; total: number } | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [txHash, setTxHash] = useState<string | null>(null);
@@ -63,6 +71,9 @@ export function VoteFormV2({
   const [txStage, setTxStage] = useState<TxStage>('idle');
   const [estimatedGasEth, setEstimatedGasEth] = useState<string | null>(null);
   const { t } = useTranslation();
+  const multiChoice = voteOptions.length > 0;
+  const optionLabel = (option: number) =>
+    multiChoice ? (voteOptions[option] ?? `#${option}`) : option === 1 ? t.voteForm.for : t.voteForm.against;
 
   // Read token address from voiceCreditProxy for dynamic links
   const { data: vcTokenAddress } = useReadContract({
@@ -116,8 +127,24 @@ export function VoteFormV2({
   const creditsRemaining = voiceCredits - creditsSpent;
 
   const MAX_WEIGHT = Math.floor(Math.sqrt(Math.max(creditsRemaining, 0)));
-  const cost = weight * weight;
+  const allocationEntries: VoteAllocation[] = voteOptions
+    .map((_, i) => ({ option: i, weight: allocation[i] ?? 0 }))
+    .filter((a) => a.weight > 0);
+  const cost = split
+    ? allocationEntries.reduce((sum, a) => sum + a.weight * a.weight, 0)
+    : weight * weight;
   const creditExceeded = cost > creditsRemaining;
+  const hasSelection = split ? allocationEntries.length > 0 : choice !== null;
+  // Highest weight option i can take with the other options unchanged
+  const maxOptionWeight = (i: number) =>
+    Math.floor(Math.sqrt(Math.max(creditsRemaining - cost + (allocation[i] ?? 0) ** 2, 0)));
+  const setOptionWeight = (i: number, w: number) =>
+    setAllocation((prev) => voteOptions.map((_, j) => (j === i ? w : prev[j] ?? 0)));
+  const selection: LastVote | null = split
+    ? allocationEntries.length > 0
+      ? { choice: allocationEntries[0].option, weight: allocationEntries.reduce((sum, a) => sum + a.weight, 0), cost, allocations: allocationEntries }
+      : null
+    : choice !== null ? { choice, weight, cost } : null;
 
   // Preload crypto modules in background on mount
   useEffect(() => { preloadCrypto(); }, []);
@@ -126,7 +153,8 @@ export function VoteFormV2({
   const wasRegisteredRef = useRef(true);
 
   const handleSubmit = async () => {
-    if (choice === null || !address) return;
+    if (!selection || !address) return;
+    const entries = selection.allocations ?? [{ option: selection.choice, weight }];
     wasRegisteredRef.current = isRegistered;
     const isReVote = getMaciNonce(address, pollId) > 1;
     setIsSubmitting(true);
@@ -282,67 +310,27 @@ export function VoteFormV2({
         votePubKey = newPubKey;
       }
 
-      // --- Step B: Send vote message ---
-      setTxStage('encrypting');
-
-      let ephemeral: Awaited<ReturnType<typeof crypto.generateEphemeralKeyPair>>;
-      let sharedKey: Awaited<ReturnType<typeof crypto.generateECDHSharedKey>>;
-      try {
-        ephemeral = await crypto.generateEphemeralKeyPair();
-        sharedKey = await crypto.generateECDHSharedKey(
-          ephemeral.sk,
-          [coordinatorPubKeyX, coordinatorPubKeyY],
-        );
-      } catch (ecdhErr) {
-        throw new Error('ECDH key exchange failed: ' + (ecdhErr instanceof Error ? ecdhErr.message : String(ecdhErr)));
-      }
-
-      const nonce = BigInt(getMaciNonce(address, pollId));
-      const stateIndex = BigInt(resolvedStateIndex);
-      const packedCommand = packCommand(
-        stateIndex,
-        BigInt(choice),
-        BigInt(weight),
-        nonce,
-        BigInt(pollId),
-      );
-
+      // --- Step B: Send vote messages ---
+      // One message per option, consecutive nonces, published highest nonce
+      // first: the coordinator processes last-first and needs ballot.nonce + 1.
       setTxStage('signing');
 
-      const SNARK_SCALAR_FIELD = 21888242871839275222246405745257275088548364400416034343698204186575808495617n;
-      const saltBytes = globalThis.crypto.getRandomValues(new Uint8Array(31));
-      const salt = BigInt('0x' + Array.from(saltBytes).map(b => b.toString(16).padStart(2, '0')).join('')) % SNARK_SCALAR_FIELD;
-
-      // cmdHash must match circuit: Poseidon(stateIndex, newPubKeyX, newPubKeyY, newVoteWeight, salt)
-      const cmdHashF = poseidon([
-        F.e(stateIndex),
-        F.e(votePubKey[0]),
-        F.e(votePubKey[1]),
-        F.e(BigInt(weight)),
-        F.e(salt),
-      ]);
-      const cmdHash = F.toObject(cmdHashF);
-
-      const signature = await crypto.eddsaSign(cmdHash, voteSk);
-
-      const plaintext = [
-        packedCommand,
-        votePubKey[0],
-        votePubKey[1],
-        salt,
-        signature.R8[0],
-        signature.R8[1],
-        signature.S,
-      ];
-
-      const ciphertext = await crypto.poseidonEncrypt(plaintext, sharedKey, 0n);
-
-      const encMessage: bigint[] = new Array(10).fill(0n);
-      for (let i = 0; i < Math.min(ciphertext.length, 10); i++) {
-        encMessage[i] = ciphertext[i];
+      const firstNonce = getMaciNonce(address, pollId);
+      const stateIndex = BigInt(resolvedStateIndex);
+      const messages: { encMessage: bigint[]; ephemeralPubKey: [bigint, bigint] }[] = [];
+      for (const [i, entry] of entries.entries()) {
+        messages.push(await encryptVote(crypto, poseidon, {
+          stateIndex,
+          option: BigInt(entry.option),
+          weight: BigInt(entry.weight),
+          nonce: BigInt(firstNonce + i),
+          pollId: BigInt(pollId),
+          voteSk,
+          votePubKey,
+          coordinatorPubKey: [coordinatorPubKeyX, coordinatorPubKeyY],
+        }));
       }
-
-      setTxStage('confirming');
+      messages.reverse();
 
       // Re-check wallet connection before submitting transaction
       if (!address) {
@@ -352,25 +340,38 @@ export function VoteFormV2({
         return;
       }
 
-      const hash = await publishWithRetry(pollAddress, encMessage, ephemeral.pubKey, address, setTxStage, publicClient ?? undefined);
-
-      setTxStage('waiting');
-      setTxHash(hash);
-
-      // Wait for on-chain confirmation before saving state (2 min timeout)
-      if (publicClient) {
-        const receipt = await publicClient.waitForTransactionReceipt({ hash, timeout: 120_000 });
-        if (receipt.status === 'reverted') {
-          throw new Error('Transaction reverted on-chain');
+      const hashes: `0x${string}`[] = [];
+      try {
+        for (const [i, { encMessage, ephemeralPubKey }] of messages.entries()) {
+          if (messages.length > 1) setBatchProgress({ current: i + 1, total: messages.length });
+          setTxStage('confirming');
+          const hash = await publishWithRetry(pollAddress, encMessage, ephemeralPubKey, address, setTxStage, publicClient ?? undefined);
+
+          setTxStage('waiting');
+          setTxHash(hash);
+
+          // Wait for on-chain confirmation before saving state (2 min timeout)
+          if (publicClient) {
+            const receipt = await publicClient.waitForTransactionReceipt({ hash, timeout: 120_000 });
+            if (receipt.status === 'reverted') {
+              throw new Error('Transaction reverted on-chain');
+            }
+          }
+          hashes.push(hash);
         }
+      } finally {
+        // Published messages hold their nonces, even if the batch stopped short
+        if (hashes.length > 0) {
+          for (let i = 0; i < messages.length; i++) incrementMaciNonce(address, pollId);
+        }
+        setBatchProgress(null);
       }
 
       // Only save state after confirmed on-chain
-      incrementMaciNonce(address, pollId);
-      saveLastVote(address, pollId, choice, weight, cost);
+      saveLastVote(address, pollId, selection);
       setCreditsSpent(address, pollId, cost);
 
-      onVoteSubmitted?.(hash);
+      onVoteSubmitted?.(hashes[hashes.length - 1]);
       setTxStage('done');
     } catch (err) {
       // Only log error type in production — never raw error objects with keys/signatures
@@ -426,7 +427,9 @@ export function VoteFormV2({
         title={t.voteForm.processing}
         steps={txSteps}
         currentStep={txStage}
-        subtitle={stageMessages[txStage]}
+        subtitle={batchProgress
+          ? `${stageMessages[txStage]} ${t.voteForm.stageBatch.replace('{current}', String(batchProgress.current)).replace('{total}', String(batchProgress.total))}`
+          : stageMessages[txStage]}
       />
     );
   }
@@ -454,7 +457,7 @@ export function VoteFormV2({
             <span className="text-xs font-bold text-slate-500 uppercase tracking-wide">{t.voteHistory.alreadyVoted}</span>
           </div>
           <div className="flex flex-wrap gap-4 text-xs font-mono text-slate-600">
-            <span>{t.voteHistory.lastChoice}: <strong className="text-black">{lastVote.choice === 1 ? t.voteForm.for : t.voteForm.against}</strong></span>
+            <span>{t.voteHistory.lastChoice}: <strong className="text-black">{formatVoteSelection(lastVote, optionLabel)}</strong></span>
             <span>{t.voteHistory.lastWeight}: <strong className="text-black">{lastVote.weight}</strong></span>
             <span>{t.voteHistory.lastCost}: <strong className="text-black">{lastVote.cost}</strong></span>
           </div>
@@ -495,97 +498,171 @@ export function VoteFormV2({
           <span className="w-2 h-2 bg-primary"></span>
           {t.voteForm.title}
         </h3>
-        <div className="grid grid-cols-2 gap-4" role="radiogroup" aria-label={t.voteForm.title}>
-          <button
-            className={`border-2 border-black py-6 font-black text-lg uppercase tracking-widest flex flex-col items-center justify-center gap-1 transition-all ${
-              choice === 1
-                ? 'bg-emerald-500 text-white'
-                : 'bg-white text-black hover:bg-slate-50'
-            }`}
-            style={{ boxShadow: choice === 1 ? '4px 4px 0px 0px rgba(16, 185, 129, 1)' : '4px 4px 0px 0px rgba(0, 0, 0, 1)' }}
-            onClick={() => setChoice(1)}
-            disabled={isSubmitting}
-            role="radio"
-            aria-checked={choice === 1}
-          >
-            <span className="material-symbols-outlined text-3xl">add_circle</span>
-            {t.voteForm.for}
-          </button>
-          <button
-            className={`border-2 border-black py-6 font-black text-lg uppercase tracking-widest flex flex-col items-center justify-center gap-1 transition-all ${
-              choice === 0
-                ? 'bg-red-500 text-white'
-                : 'bg-white text-black hover:bg-slate-50'
-            }`}
-            style={{ boxShadow: choice === 0 ? '4px 4px 0px 0px rgba(239, 68, 68, 1)' : '4px 4px 0px 0px rgba(0, 0, 0, 1)' }}
-            onClick={() => setChoice(0)}
-            disabled={isSubmitting}
-            role="radio"
-            aria-checked={choice === 0}
-          >
-            <span className="material-symbols-outlined text-3xl">remove_circle</span>
-            {t.voteForm.against}
-          </button>
-        </div>
+        {multiChoice && (
+          <div className="grid grid-cols-2 gap-2 mb-6">
+            {[false, true].map((mode) => (
+              <button
+                key={String(mode)}
+                type="button"
+                className={`border-2 border-black py-2 text-xs font-bold uppercase tracking-widest transition-colors ${
+                  split === mode ? 'bg-black text-white' : 'bg-white text-black hover:bg-slate-50'
+                }`}
+                onClick={() => setSplit(mode)}
+                disabled={isSubmitting}
+                aria-pressed={split === mode}
+              >
+                {mode ? t.voteForm.modeSplit : t.voteForm.modeSingle}
+              </button>
+            ))}
+          </div>
+        )}
+        {split ? (
+          <div className="flex flex-col gap-3">
+            <p className="text-xs text-slate-500">{t.voteForm.splitHint}</p>
+            {voteOptions.map((label, i) => {
+              const w = allocation[i] ?? 0;
+              return (
+                <div key={i} className="border-2 border-black flex items-center gap-3 pl-4" data-testid="split-option">
+                  <span className="flex-1 font-bold text-sm uppercase tracking-wide break-words">{label}</span>
+                  <button
+                    className="w-10 h-10 border-l-2 border-black flex items-center justify-center font-bold text-xl hover:bg-slate-100 transition-colors disabled:opacity-40"
+                    onClick={() => setOptionWeight(i, w - 1)}
+                    disabled={isSubmitting || w <= 0}
+                    aria-label={`${label} -1`}
+                  >
+                    -
+                  </button>
+                  <span className="w-10 text-center font-mono font-bold text-xl">{w}</span>
+                  <button
+                    className="w-10 h-10 border-l-2 border-black flex items-center justify-center font-bold text-xl hover:bg-slate-100 transition-colors disabled:opacity-40"
+                    onClick={() => setOptionWeight(i, w + 1)}
+                    disabled={isSubmitting || w >= maxOptionWeight(i)}
+                    aria-label={`${label} +1`}
+                  >
+                    +
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        ) : multiChoice ? (
+          <div className="grid grid-cols-1 gap-3" role="radiogroup" aria-label={t.voteForm.title}>
+            {voteOptions.map((label, i) => (
+              <button
+                key={i}
+                className={`border-2 border-black px-5 py-4 font-black text-base uppercase tracking-widest flex items-center gap-3 text-left transition-all ${
+                  choice === i
+                    ? 'bg-primary text-white'
+                    : 'bg-white text-black hover:bg-slate-50'
+                }`}
+                style={{ boxShadow: choice === i ? '4px 4px 0px 0px rgba(37, 99, 235, 1)' : '4px 4px 0px 0px rgba(0, 0, 0, 1)' }}
+                onClick={() => setChoice(i)}
+                disabled={isSubmitting}
+                role="radio"
+                aria-checked={choice === i}
+              >
+                <span className="material-symbols-outlined text-2xl" aria-hidden="true">{choice === i ? 'radio_button_checked' : 'radio_button_unchecked'}</span>
+                <span className="break-words">{label}</span>
+              </button>
+            ))}
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-4" role="radiogroup" aria-label={t.voteForm.title}>
+            <button
+              className={`border-2 border-black py-6 font-black text-lg uppercase tracking-widest flex flex-col items-center justify-center gap-1 transition-all ${
+                choice === 1
+                  ? 'bg-emerald-500 text-white'
+                  : 'bg-white text-black hover:bg-slate-50'
+              }`}
+              style={{ boxShadow: choice === 1 ? '4px 4px 0px 0px rgba(16, 185, 129, 1)' : '4px 4px 0px 0px rgba(0, 0, 0, 1)' }}
+              onClick={() => setChoice(1)}
+              disabled={isSubmitting}
+              role="radio"
+              aria-checked={choice === 1}
+            >
+              <span className="material-symbols-outlined text-3xl">add_circle</span>
+              {t.voteForm.for}
+            </button>
+            <button
+              className={`border-2 border-black py-6 font-black text-lg uppercase tracking-widest flex flex-col items-center justify-center gap-1 transition-all ${
+                choice === 0
+                  ? 'bg-red-500 text-white'
+                  : 'bg-white text-black hover:bg-slate-50'
+              }`}
+              style={{ boxShadow: choice === 0 ? '4px 4px 0px 0px rgba(239, 68, 68, 1)' : '4px 4px 0px 0px rgba(0, 0, 0, 1)' }}
+              onClick={() => setChoice(0)}
+              disabled={isSubmitting}
+              role="radio"
+              aria-checked={choice === 0}
+            >
+              <span className="material-symbols-outlined text-3xl">remove_circle</span>
+              {t.voteForm.against}
+            </button>
+          </div>
+        )}
       </div>
 
       {/* VOTE INTENSITY */}
-      <div>
-        <div className="flex justify-between items-center mb-6">
-          <h3 className="text-xs font-bold uppercase tracking-[0.2em] flex items-center gap-2">
-            <span className="w-2 h-2 bg-primary"></span>
-            {t.voteForm.weightLabel}
-          </h3>
-          <span className="text-xs font-mono font-bold bg-black text-white px-2 py-1 uppercase">{t.voteForm.cost} = {t.voteForm.weightLabel}²</span>
-        </div>
-        <div className="flex items-center gap-4 mb-8">
-          <button
-            className="w-16 h-16 border-2 border-black flex items-center justify-center font-bold text-2xl hover:bg-slate-100 transition-colors"
-            onClick={() => setWeight(Math.max(1, weight - 1))}
-            disabled={isSubmitting || weight <= 1}
-          >
-            -
-          </button>
-          <div className="flex-1 h-16 border-2 border-black flex items-center justify-center font-mono font-bold text-4xl bg-slate-50">
-            {weight}
+      {!split && (
+        <div>
+          <div className="flex justify-between items-center mb-6">
+            <h3 className="text-xs font-bold uppercase tracking-[0.2em] flex items-center gap-2">
+              <span className="w-2 h-2 bg-primary"></span>
+              {t.voteForm.weightLabel}
+            </h3>
+            <span className="text-xs font-mono font-bold bg-black text-white px-2 py-1 uppercase">{t.voteForm.cost} = {t.voteForm.weightLabel}²</span>
           </div>
-          <button
-            className="w-16 h-16 border-2 border-black flex items-center justify-center font-bold text-2xl hover:bg-slate-100 transition-colors"
-            onClick={() => setWeight(Math.min(MAX_WEIGHT, weight + 1))}
-            disabled={isSubmitting || weight >= MAX_WEIGHT}
-          >
-            +
-          </button>
-        </div>
-        <div className="px-2">
-          <input
-            id="vote-weight"
-            className="w-full h-1 bg-black appearance-none cursor-pointer"
-            type="range"
-            min="1"
-            max={Math.max(1, MAX_WEIGHT * MAX_WEIGHT)}
-            step="1"
-            value={cost}
-            onChange={(e) => {
-              const newCost = Number(e.target.value);
-              setWeight(Math.max(1, Math.round(Math.sqrt(newCost))));
-            }}
-            disabled={isSubmitting}
-            aria-describedby="vote-cost"
-          />
-          <div className="flex justify-between mt-4 text-xs font-bold text-slate-400 font-mono">
-            <span>{t.voteFormExtra.minCredit}</span>
-            <span>{t.voteFormExtra.maxCredits.replace('{n}', String(MAX_WEIGHT * MAX_WEIGHT))}</span>
+          <div className="flex items-center gap-4 mb-8">
+            <button
+              className="w-16 h-16 border-2 border-black flex items-center justify-center font-bold text-2xl hover:bg-slate-100 transition-colors"
+              onClick={() => setWeight(Math.max(1, weight - 1))}
+              disabled={isSubmitting || weight <= 1}
+            >
+              -
+            </button>
+            <div className="flex-1 h-16 border-2 border-black flex items-center justify-center font-mono font-bold text-4xl bg-slate-50">
+              {weight}
+            </div>
+            <button
+              className="w-16 h-16 border-2 border-black flex items-center justify-center font-bold text-2xl hover:bg-slate-100 transition-colors"
+              onClick={() => setWeight(Math.min(MAX_WEIGHT, weight + 1))}
+              disabled={isSubmitting || weight >= MAX_WEIGHT}
+            >
+              +
+            </button>
+          </div>
+          <div className="px-2">
+            <input
+              id="vote-weight"
+              className="w-full h-1 bg-black appearance-none cursor-pointer"
+              type="range"
+              min="1"
+              max={Math.max(1, MAX_WEIGHT * MAX_WEIGHT)}
+              step="1"
+              value={cost}
+              onChange={(e) => {
+                const newCost = Number(e.target.value);
+                setWeight(Math.max(1, Math.round(Math.sqrt(newCost))));
+              }}
+              disabled={isSubmitting}
+              aria-describedby="vote-cost"
+            />
+            <div className="flex justify-between mt-4 text-xs font-bold text-slate-400 font-mono">
+              <span>{t.voteFormExtra.minCredit}</span>
+              <span>{t.voteFormExtra.maxCredits.replace('{n}', String(MAX_WEIGHT * MAX_WEIGHT))}</span>
+            </div>
+            <p className="mt-3 text-xs text-center text-slate-400 font-mono">{t.voteForm.quadraticGuide}</p>
           </div>
-          <p className="mt-3 text-xs text-center text-slate-400 font-mono">{t.voteForm.quadraticGuide}</p>
         </div>
-      </div>
+      )}
 
       {/* Cost / Remaining grid */}
       <div className="grid grid-cols-2 gap-px bg-black border-2 border-black">
         <div className="bg-slate-50 p-6 flex flex-col">
           <h3 className="text-xs font-bold uppercase tracking-widest text-slate-400 mb-2">{t.voteForm.cost}</h3>
-          <span className="text-xs font-bold text-slate-500 mb-1">{t.voteForm.weightLabel}: {weight}&sup2;</span>
+          <span className="text-xs font-bold text-slate-500 mb-1">
+            {t.voteForm.weightLabel}: {split ? allocationEntries.map((a) => `${a.weight}²`).join(' + ') || '0' : `${weight}²`}
+          </span>
           <span className="text-2xl font-mono font-bold text-emerald-500">{cost}</span>
           <span className="text-xs font-bold text-slate-400 uppercase mt-1">{t.voteForm.credits}</span>
         </div>
@@ -632,7 +709,7 @@ export function VoteFormV2({
       <div className="pt-4">
         <button
           onClick={() => setShowConfirm(true)}
-          disabled={choice === null || isSubmitting || !address || creditExceeded}
+          disabled={!hasSelection || isSubmitting || !address || creditExceeded}
           className="w-full bg-primary text-white py-6 font-display font-black uppercase italic text-2xl tracking-widest border-2 border-black hover:translate-y-[-2px] hover:translate-x-[-2px] transition-all disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:translate-y-0 disabled:hover:translate-x-0"
           style={{ boxShadow: '4px 4px 0px 0px rgba(37, 99, 235, 1)' }}
           aria-busy={isSubmitting}
@@ -647,10 +724,11 @@ export function VoteFormV2({
         </div>
       </div>
 
-      {showConfirm && choice !== null && (
+      {showConfirm && selection && (
         <VoteConfirmModal
-          choice={choice}
-          weight={weight}
+          choice={selection.choice}
+          choiceLabel={multiChoice ? formatVoteSelection(selection, optionLabel) : undefined}
+          weight={selection.weight}
           cost={cost}
           onConfirm={() => {
             setShowConfirm(false);
@@ -693,8 +771,8 @@ export function VoteFormV2({
 
 // Vote history read + nonce management is in voteUtils.ts (shared with KeyManager)
 
-function saveLastVote(address: string, pollId: number, choice: number, weight: number, cost: number): void {
-  localStorage.setItem(storageKey.lastVote(address, pollId), JSON.stringify({ choice, weight, cost }));
+function saveLastVote(address: string, pollId: number, vote: LastVote): void {
+  localStorage.setItem(storageKey.lastVote(address, pollId), JSON.stringify(vote));
 }
 
 // Credit tracking (localStorage)
@@ -851,6 +929,69 @@ function packCommand(
   );
 }
 
+/** Pack, sign and encrypt one vote command for Poll.publishMessage() */
+async function encryptVote(
+  crypto: CryptoModules,
+  poseidon: Awaited<ReturnType<CryptoModules['buildPoseidon']>>,
+  cmd: {
+    stateIndex: bigint;
+    option: bigint;
+    weight: bigint;
+    nonce: bigint;
+    pollId: bigint;
+    voteSk: bigint;
+    votePubKey: [bigint, bigint];
+    coordinatorPubKey: [bigint, bigint];
+  },
+): Promise<{ encMessage: bigint[]; ephemeralPubKey: [bigint, bigint] }> {
+  const F = poseidon.F;
+
+  let ephemeral: Awaited<ReturnType<typeof crypto.generateEphemeralKeyPair>>;
+  let sharedKey: Awaited<ReturnType<typeof crypto.generateECDHSharedKey>>;
+  try {
+    ephemeral = await crypto.generateEphemeralKeyPair();
+    sharedKey = await crypto.generateECDHSharedKey(ephemeral.sk, cmd.coordinatorPubKey);
+  } catch (ecdhErr) {
+    throw new Error('ECDH key exchange failed: ' + (ecdhErr instanceof Error ? ecdhErr.message : String(ecdhErr)));
+  }
+
+  const packedCommand = packCommand(cmd.stateIndex, cmd.option, cmd.weight, cmd.nonce, cmd.pollId);
+
+  const SNARK_SCALAR_FIELD = 21888242871839275222246405745257275088548364400416034343698204186575808495617n;
+  const saltBytes = globalThis.crypto.getRandomValues(new Uint8Array(31));
+  const salt = BigInt('0x' + Array.from(saltBytes).map(b => b.toString(16).padStart(2, '0')).join('')) % SNARK_SCALAR_FIELD;
+
+  // cmdHash must match circuit: Poseidon(stateIndex, newPubKeyX, newPubKeyY, newVoteWeight, salt)
+  const cmdHashF = poseidon([
+    F.e(cmd.stateIndex),
+    F.e(cmd.votePubKey[0]),
+    F.e(cmd.votePubKey[1]),
+    F.e(cmd.weight),
+    F.e(salt),
+  ]);
+  const cmdHash = F.toObject(cmdHashF);
+
+  const signature = await crypto.eddsaSign(cmdHash, cmd.voteSk);
+
+  const plaintext = [
+    packedCommand,
+    cmd.votePubKey[0],
+    cmd.votePubKey[1],
+    salt,
+    signature.R8[0],
+    signature.R8[1],
+    signature.S,
+  ];
+
+  const ciphertext = await crypto.poseidonEncrypt(plaintext, sharedKey, 0n);
+
+  const encMessage: bigint[] = new Array(10).fill(0n);
+  for (let i = 0; i < Math.min(ciphertext.length, 10); i++) {
+    encMessage[i] = ciphertext[i];
+  }
+  return { encMessage, ephemeralPubKey: ephemeral.pubKey };
+}
+
 async function publishWithRetry(
   pollAddress: `0x${string}`,
   encMessage: bigint[],
@@ -8,7 +8,24 @@
 
 import { storageKey } from '../../storageKeys'
 
-export function getLastVote(address: string, pollId: number): { choice: number; weight: number; cost: number } | null {
+/** Weight on one option of a split vote */
+export interface VoteAllocation {
+  option: number;
+  weight: number;
+}
+
+/**
+ * Last confirmed vote. A split vote also lists its allocations; choice and
+ * weight then hold its first option and the total weight.
+ */
+export interface LastVote {
+  choice: number;
+  weight: number;
+  cost: number;
+  allocations?: VoteAllocation[];
+}
+
+export function getLastVote(address: string, pollId: number): LastVote | null {
   const key = storageKey.lastVote(address, pollId);
   const stored = localStorage.getItem(key);
   if (!stored) return null;
@@ -21,6 +38,12 @@ export function getLastVote(address: string, pollId: number): { choice: number;
   } catch { return null; }
 }
 
+/** "Label" for a single-option vote, "A ×2 · B ×1" for a split vote */
+export function formatVoteSelection(vote: LastVote, label: (option: number) => string): string {
+  if (!vote.allocations) return label(vote.choice);
+  return vote.allocations.map((a) => `${label(a.option)} ×${a.weight}`).join(' · ');
+}
+
 /**
  * Shared MACI nonce — votes AND key changes use the same counter.
  * In MACI reverse processing, only the message with nonce matching
@@ -19,9 +19,16 @@ export const MSG_PROCESSOR_VERIFIER_ADDRESS = (v2.msgProcessorVerifier || '0x000
 export const TALLY_VERIFIER_ADDRESS = (v2.tallyVerifier || '0x0000000000000000000000000000000000000000') as `0x${string}`;
 export const VK_REGISTRY_ADDRESS = (v2.vkRegistry || '0x0000000000000000000000000000000000000000') as `0x${string}`;
 
-// Default coordinator keys (from config.json, overridden by on-chain values when poll exists)
-export const DEFAULT_COORD_PUB_KEY_X = BigInt(v2.coordinatorPubKeyX || '111');
-export const DEFAULT_COORD_PUB_KEY_Y = BigInt(v2.coordinatorPubKeyY || '222');
+// Default coordinator keys (from config.json, overridden by on-chain values when poll exists).
+// Print them with `npm run keys -- pubkey` in coordinator/. Unset = (0, 0): proposals can't be created.
+export const DEFAULT_COORD_PUB_KEY_X = BigInt(v2.coordinatorPubKeyX || '0');
+export const DEFAULT_COORD_PUB_KEY_Y = BigInt(v2.coordinatorPubKeyY || '0');
+export const HAS_COORD_PUB_KEY = DEFAULT_COORD_PUB_KEY_X !== 0n || DEFAULT_COORD_PUB_KEY_Y !== 0n;
+
+// Circuit new polls are deployed for (dev: depth 2, 5 options; prod: depth 4, 25 options).
+// The coordinator proves each poll with the circuit profile of the same size.
+export const MESSAGE_TREE_DEPTH = v2.messageTreeDepth || 2;
+export const MAX_VOTE_OPTIONS = v2.maxVoteOptions || 5;
 
 // Poll/MP/Tally are deployed dynamically via MACI.deployPoll()
 export const POLL_V2_ADDRESS = '0x0000000000000000000000000000000000000000' as `0x${string}`;
@@ -69,6 +76,41 @@ export const MACI_ABI = [
     outputs: [],
     stateMutability: 'nonpayable',
   },
+  {
+    type: 'function',
+    name: 'deployPollWithOptions',
+    inputs: [
+      { name: '_title', type: 'string' },
+      { name: '_duration', type: 'uint256' },
+      { name: '_coordinatorPubKeyX', type: 'uint256' },
+      { name: '_coordinatorPubKeyY', type: 'uint256' },
+      { name: '_mpVerifier', type: 'address' },
+      { name: '_tallyVerifier', type: 'address' },
+      { name: '_vkRegistry', type: 'address' },
+      { name: '_messageTreeDepth', type: 'uint8' },
+      { name: '_voteOptions', type: 'string[]' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'deployPollWithMetadata',
+    inputs: [
+      { name: '_title', type: 'string' },
+      { name: '_duration', type: 'uint256' },
+      { name: '_coordinatorPubKeyX', type: 'uint256' },
+      { name: '_coordinatorPubKeyY', type: 'uint256' },
+      { name: '_mpVerifier', type: 'address' },
+      { name: '_tallyVerifier', type: 'address' },
+      { name: '_vkRegistry', type: 'address' },
+      { name: '_messageTreeDepth', type: 'uint8' },
+      { name: '_voteOptions', type: 'string[]' },
+      { name: '_metadataHash', type: 'bytes32' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
   {
     type: 'function',
     name: 'numSignUps',
@@ -254,6 +296,20 @@ export const POLL_ABI = [
     outputs: [{ name: '', type: 'string' }],
     stateMutability: 'view',
   },
+  {
+    type: 'function',
+    name: 'getOptionLabels',
+    inputs: [],
+    outputs: [{ name: '', type: 'string[]' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'metadataHash',
+    inputs: [],
+    outputs: [{ name: '', type: 'bytes32' }],
+    stateMutability: 'view',
+  },
   {
     type: 'event',
     name: 'MessagePublished',
@@ -555,4 +611,11 @@ export const TALLY_ABI = [
     outputs: [{ name: '', type: 'uint256' }],
     stateMutability: 'view',
   },
+  {
+    type: 'function',
+    name: 'tallyCommitment',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
 ] as const;
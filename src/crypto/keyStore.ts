@@ -1,38 +1,95 @@
 /**
  * Encrypted Key Storage
  *
- * Encrypts EdDSA private keys before storing in localStorage.
- * Uses Web Crypto API (AES-GCM) with wallet-address-derived key.
+ * Encrypts EdDSA private keys before storing in localStorage, under a key
+ * that the storage alone doesn't reveal: derived from a wallet signature
+ * over a dedicated message (default), or from a passphrase the user sets
+ * under Vote Protection. Format, key derivation and migration are the SDK's
+ * EncryptedStorage (sdk/src/encryptedStorage.ts).
  *
- * Not a substitute for proper key management in production —
- * but prevents plain-text exposure in browser DevTools.
+ * The signature is requested the first time a key is read or written in a
+ * session. Passphrase mode throws until unlockKeyStore() is called.
  *
- * Migration: reads plain-text keys from old format gracefully.
+ * Migration: `enc:` values under the old address-derived key and plain-text
+ * keys are still read, and re-encrypted in the new format once unlocked.
  */
+import { BrowserStorage } from '../../sdk/src/storage'
+import {
+  EncryptedStorage,
+  keyStoreRootFromPassphrase,
+  keyStoreRootFromSignature,
+  keyStoreMessage,
+  storedValueMode,
+  storedValueVersion,
+  type KeyStoreMode,
+} from '../../sdk/src/encryptedStorage'
 
-const SALT = new Uint8Array([
-  0x7a, 0x6b, 0x2d, 0x64, 0x65, 0x78, 0x2d, 0x6d,
-  0x61, 0x63, 0x69, 0x2d, 0x6b, 0x65, 0x79, 0x73,
-]) // "zk-dex-maci-keys"
+const vault = new EncryptedStorage(new BrowserStorage())
 
-const ENC_PREFIX = 'enc:'
+const modeKey = (address: string) => `sigil-keystore-mode-${address.toLowerCase()}`
 
-async function deriveKey(address: string): Promise<CryptoKey> {
-  const encoder = new TextEncoder()
-  const keyMaterial = await crypto.subtle.importKey(
-    'raw',
-    encoder.encode(address.toLowerCase()),
-    'PBKDF2',
-    false,
-    ['deriveKey'],
-  )
-  return crypto.subtle.deriveKey(
-    { name: 'PBKDF2', salt: SALT, iterations: 100_000, hash: 'SHA-256' },
-    keyMaterial,
-    { name: 'AES-GCM', length: 256 },
-    false,
-    ['encrypt', 'decrypt'],
-  )
+/** How the address's keys are protected; wallet signature unless a passphrase was set */
+export function getKeyStoreMode(address: string): KeyStoreMode {
+  return localStorage.getItem(modeKey(address)) === 'passphrase' ? 'passphrase' : 'signature'
+}
+
+export function isKeyStoreUnlocked(address: string): boolean {
+  return vault.isUnlocked(address)
+}
+
+/** Forget the unlocked key; the next read asks for a signature or passphrase again */
+export function lockKeyStore(address: string): void {
+  vault.lock(address)
+}
+
+async function signKeyStoreMessage(address: string): Promise<string> {
+  const provider = (window as unknown as { ethereum?: { request: (args: { method: string; params?: unknown[] }) => Promise<unknown> } }).ethereum
+  if (!provider) throw new Error('No wallet provider')
+  const message = keyStoreMessage(address)
+  return await provider.request({
+    method: 'personal_sign',
+    params: [
+      `0x${Array.from(new TextEncoder().encode(message)).map(b => b.toString(16).padStart(2, '0')).join('')}`,
+      address,
+    ],
+  }) as string
+}
+
+async function ensureUnlocked(address: string, mode: KeyStoreMode): Promise<void> {
+  if (vault.unlockedMode(address) === mode) return
+  if (mode === 'passphrase') throw new Error('Stored keys are locked. Enter your key passphrase under Vote Protection.')
+  vault.unlock(address, keyStoreRootFromSignature(await signKeyStoreMessage(address)))
+}
+
+/**
+ * Unlock passphrase-protected keys for this session. keys are storage keys
+ * to check the passphrase against; a wrong one throws and stays locked.
+ */
+export async function unlockKeyStore(address: string, passphrase: string, keys: string[]): Promise<void> {
+  vault.unlock(address, await keyStoreRootFromPassphrase(address, passphrase))
+  try {
+    for (const key of keys) {
+      const stored = localStorage.getItem(key)
+      if (stored && storedValueMode(stored) === 'passphrase') await vault.getSecret(key, address)
+    }
+  } catch (err) {
+    vault.lock(address)
+    throw err
+  }
+}
+
+/**
+ * Re-encrypt the given keys under a passphrase, or back under a wallet
+ * signature when passphrase is null. Unlocks the current mode first.
+ */
+export async function setKeyStorePassphrase(address: string, passphrase: string | null, keys: string[]): Promise<void> {
+  await ensureUnlocked(address, getKeyStoreMode(address))
+  const root = passphrase === null
+    ? keyStoreRootFromSignature(await signKeyStoreMessage(address))
+    : await keyStoreRootFromPassphrase(address, passphrase)
+  await vault.reencrypt(address, keys, root)
+  if (passphrase === null) localStorage.removeItem(modeKey(address))
+  else localStorage.setItem(modeKey(address), 'passphrase')
 }
 
 export async function storeEncrypted(
@@ -40,19 +97,8 @@ export async function storeEncrypted(
   value: string,
   address: string,
 ): Promise<void> {
-  const cryptoKey = await deriveKey(address)
-  const iv = crypto.getRandomValues(new Uint8Array(12))
-  const encoded = new TextEncoder().encode(value)
-  const ciphertext = await crypto.subtle.encrypt(
-    { name: 'AES-GCM', iv },
-    cryptoKey,
-    encoded,
-  )
-  const combined = new Uint8Array(iv.length + ciphertext.byteLength)
-  combined.set(iv)
-  combined.set(new Uint8Array(ciphertext), iv.length)
-  const b64 = btoa(String.fromCharCode(...combined))
-  localStorage.setItem(storageKey, ENC_PREFIX + b64)
+  await ensureUnlocked(address, getKeyStoreMode(address))
+  await vault.setSecret(storageKey, value, address)
 }
 
 export async function loadEncrypted(
@@ -62,26 +108,11 @@ export async function loadEncrypted(
   const stored = localStorage.getItem(storageKey)
   if (!stored) return null
 
-  // Encrypted format: "enc:<base64>"
-  if (stored.startsWith(ENC_PREFIX)) {
-    try {
-      const b64 = stored.slice(ENC_PREFIX.length)
-      const combined = Uint8Array.from(atob(b64), (c) => c.charCodeAt(0))
-      const iv = combined.slice(0, 12)
-      const data = combined.slice(12)
-      const cryptoKey = await deriveKey(address)
-      const decrypted = await crypto.subtle.decrypt(
-        { name: 'AES-GCM', iv },
-        cryptoKey,
-        data,
-      )
-      return new TextDecoder().decode(decrypted)
-    } catch {
-      return null
-    }
+  if (storedValueVersion(stored) === 2) {
+    await ensureUnlocked(address, storedValueMode(stored)!)
+  } else {
+    // Older format: still readable without unlocking, but migrate when possible
+    await ensureUnlocked(address, getKeyStoreMode(address)).catch(() => {})
   }
-
-  // Migration: plain-text from old format — re-encrypt and return
-  await storeEncrypted(storageKey, stored, address)
-  return stored
+  return vault.getSecret(storageKey, address)
 }
@@ -0,0 +1,62 @@
+import { useQuery } from '@tanstack/react-query'
+
+/**
+ * Live coordinator progress from the runner's status server
+ * (coordinator/src/status/server.ts → GET /status/polls/:id).
+ *
+ * Disabled unless NEXT_PUBLIC_COORDINATOR_STATUS_URL is set; callers fall
+ * back to on-chain flags + estimated timers when data is undefined.
+ */
+
+const STATUS_URL = (process.env.NEXT_PUBLIC_COORDINATOR_STATUS_URL || '').replace(/\/+$/, '')
+
+export type CoordinatorPhase =
+  | 'voting'
+  | 'merging'
+  | 'fetching'
+  | 'processing'
+  | 'tallying'
+  | 'publishing'
+  | 'finalized'
+  | 'failed'
+
+export interface CoordinatorPollStatus {
+  pollId: number
+  phase: CoordinatorPhase
+  step: number
+  totalSteps: number
+  batch: { kind: 'process' | 'tally'; current: number; total: number } | null
+  proofDurationsMs: { process: number[]; tally: number[] }
+  failures: number
+  lastError: string | null
+  artifact: { hash: string; uri: string | null } | null
+  updatedAt: number
+}
+
+const IPFS_GATEWAY = 'https://ipfs.io/ipfs/'
+
+/** Public link to a poll's tally.json: pinned copy if any, else the status server's */
+export function tallyArtifactUrl(status: CoordinatorPollStatus): string | null {
+  if (!status.artifact) return null
+  const { uri } = status.artifact
+  if (uri?.startsWith('ipfs://')) return IPFS_GATEWAY + uri.slice('ipfs://'.length)
+  if (uri?.startsWith('https://') || uri?.startsWith('http://')) return uri
+  return `${STATUS_URL}/status/polls/${status.pollId}/tally.json`
+}
+
+export function useCoordinatorStatus(pollId: number | undefined, enabled = true) {
+  const { data } = useQuery({
+    queryKey: ['coordinator-status', STATUS_URL, pollId],
+    queryFn: async (): Promise<CoordinatorPollStatus | null> => {
+      const res = await fetch(`${STATUS_URL}/status/polls/${pollId}`)
+      if (res.status === 404) return null
+      if (!res.ok) throw new Error(`Coordinator status ${res.status}`)
+      return (await res.json()) as CoordinatorPollStatus
+    },
+    enabled: enabled && !!STATUS_URL && pollId !== undefined,
+    refetchInterval: 5000,
+    retry: false,
+  })
+
+  return data ?? null
+}
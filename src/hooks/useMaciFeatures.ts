@@ -0,0 +1,41 @@
+import { useBytecode } from 'wagmi'
+import { toFunctionSelector } from 'viem'
+import { MACI_V2_ADDRESS } from '../contractV2'
+
+/**
+ * Which optional deploy functions the configured MACI has.
+ *
+ * MACIs deployed before multi-choice polls or poll metadata only have
+ * deployPoll, and calling the newer functions on them reverts. The dispatcher pushes every external
+ * selector (PUSH4), so the deployed bytecode tells whether a function exists
+ * before a transaction is sent.
+ */
+
+const DEPLOY_POLL_WITH_OPTIONS = toFunctionSelector(
+  'deployPollWithOptions(string,uint256,uint256,uint256,address,address,address,uint8,string[])',
+)
+const DEPLOY_POLL_WITH_METADATA = toFunctionSelector(
+  'deployPollWithMetadata(string,uint256,uint256,uint256,address,address,address,uint8,string[],bytes32)',
+)
+
+export interface MaciFeatures {
+  /** deployPollWithOptions: labelled multi-choice polls */
+  multiChoice: boolean
+  /** deployPollWithMetadata: polls tied to a metadata document by hash */
+  metadata: boolean
+  isLoading: boolean
+}
+
+/** Whether bytecode dispatches the 4-byte selector (0x-prefixed) */
+export function hasFunction(bytecode: string | undefined, selector: `0x${string}`): boolean {
+  return !!bytecode && bytecode.toLowerCase().includes(`63${selector.slice(2).toLowerCase()}`)
+}
+
+export function useMaciFeatures(): MaciFeatures {
+  const { data: code, isLoading } = useBytecode({ address: MACI_V2_ADDRESS })
+  return {
+    multiChoice: hasFunction(code, DEPLOY_POLL_WITH_OPTIONS),
+    metadata: hasFunction(code, DEPLOY_POLL_WITH_METADATA),
+    isLoading,
+  }
+}
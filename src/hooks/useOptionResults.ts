@@ -0,0 +1,71 @@
+import { useQuery } from '@tanstack/react-query'
+import { usePublicClient } from 'wagmi'
+import { TALLY_ABI } from '../contractV2'
+import { preloadCrypto } from '../crypto/preload'
+
+/**
+ * Per-option results of a multi-choice poll.
+ *
+ * Tally only publishes options 0-2 on-chain, so the counts come from the
+ * coordinator's tally.json. They are used only once the artifact's leaves
+ * hash to Tally.tallyCommitment(), the value the tally proofs verified.
+ */
+
+export interface OptionResult {
+  label: string
+  votes: bigint
+}
+
+interface TallyJson {
+  results: { tally: string[] }
+  perOptionSpent: { tally: string[] }
+  totalSpent: string
+}
+
+type Hasher = (...inputs: bigint[]) => bigint
+
+// Compact quinary root (zero-padded leaves), as in the tally circuit
+function quinaryRoot(hash: Hasher, leaves: bigint[]): bigint {
+  let level = [...leaves]
+  while (level.length > 1) {
+    const next: bigint[] = []
+    for (let i = 0; i < level.length; i += 5) {
+      const children = level.slice(i, i + 5)
+      while (children.length < 5) children.push(0n)
+      next.push(hash(...children))
+    }
+    level = next
+  }
+  return level[0] ?? 0n
+}
+
+export function useOptionResults(tallyAddress: `0x${string}`, artifactUrl: string | null, labels: string[]) {
+  const publicClient = usePublicClient()
+
+  const { data, isError } = useQuery({
+    queryKey: ['option-results', tallyAddress, artifactUrl],
+    queryFn: async (): Promise<bigint[]> => {
+      const res = await fetch(artifactUrl!)
+      if (!res.ok) throw new Error(`tally.json ${res.status}`)
+      const artifact = (await res.json()) as TallyJson
+      const onchain = await publicClient!.readContract({ address: tallyAddress, abi: TALLY_ABI, functionName: 'tallyCommitment' })
+
+      const poseidon = await (await preloadCrypto()).buildPoseidon()
+      const hash: Hasher = (...inputs) => BigInt(poseidon.F.toString(poseidon(inputs.map((x) => poseidon.F.e(x)))))
+      const tally = artifact.results.tally.map(BigInt)
+      const commitment = hash(
+        quinaryRoot(hash, tally),
+        BigInt(artifact.totalSpent),
+        quinaryRoot(hash, artifact.perOptionSpent.tally.map(BigInt)),
+      )
+      if (commitment !== onchain) throw new Error('tally.json does not match the on-chain tally commitment')
+      return tally
+    },
+    enabled: !!artifactUrl && !!publicClient && labels.length > 0,
+    staleTime: Infinity,
+    retry: false,
+  })
+
+  const options: OptionResult[] | null = data ? labels.map((label, i) => ({ label, votes: data[i] ?? 0n })) : null
+  return { options, isError: isError || (!artifactUrl && labels.length > 0) }
+}
@@ -234,8 +234,17 @@ export const en: Translations = {
     titleLabel: 'Proposal Title',
     titleMin: 'At least 3 characters required',
     titlePlaceholder: 'e.g. Community Fund Allocation',
+    optionsLabel: 'Vote Options',
+    optionsForAgainst: 'For / Against',
+    optionsMultiChoice: 'Multiple Choice',
+    optionPlaceholder: 'Option {n}',
+    addOption: 'Add Option',
+    removeOption: 'Remove option',
+    optionsHint: '2-{max} distinct, non-empty options',
+    optionsUnsupported: 'This MACI deployment predates multi-choice polls. Redeploy it to enable them.',
     descLabel: 'Description (optional)',
     descPlaceholder: 'Describe the proposal',
+    descLocalOnly: 'This MACI deployment predates shared descriptions: it is saved in this browser only.',
     durationLabel: 'Voting Duration',
     durationHours: 'hours',
     durationHint: 'Quick votes: 1-2 hours. Standard votes: 24-72 hours.',
@@ -244,6 +253,8 @@ export const en: Translations = {
     error: 'Failed to create proposal',
     errorOwner: 'Only the contract owner can create proposals',
     errorTokens: 'Insufficient tokens to create a proposal',
+    errorMetadata: 'Could not save the proposal description. Please try again.',
+    errorCoordinatorKey: 'Coordinator public key is not configured (config.json v2.coordinatorPubKeyX/Y)',
     checkingEligibility: 'Checking eligibility...',
     notEligible: 'Only admins can create proposals',
     ownerOnly: 'Currently, only the system administrator can create new proposals. Please contact the admin.',
@@ -331,6 +342,10 @@ export const en: Translations = {
     errorTimeout: 'Transaction timed out. Please check Etherscan and try again.',
     errorEncryption: 'Encryption error. Please refresh and try again.',
     quadraticGuide: '1 vote = 1 credit, 3 votes = 9 credits',
+    modeSingle: 'One option',
+    modeSplit: 'Split credits',
+    splitHint: 'Give each option its own strength. Cost = sum of each strength squared.',
+    stageBatch: '(message {current} of {total})',
   },
   keyManager: {
     title: 'Vote Protection',
@@ -347,6 +362,25 @@ export const en: Translations = {
     cancel: 'Cancel',
     success: 'Key changed. Your previous votes are now invalid. Please submit a new vote.',
     error: 'Key change failed. Please try again.',
+    backupTitle: 'Key Backup',
+    backupDesc: 'Download your keys and vote counters, encrypted with a passphrase, to restore them on another device. Without them you cannot re-vote after a key change.',
+    passphrase: 'Backup passphrase (at least 8 characters)',
+    exportBackup: 'Download Backup',
+    exporting: 'Encrypting...',
+    restoreBackup: 'Restore from Backup',
+    restoring: 'Restoring...',
+    backupSaved: 'Backup downloaded. Keep the file and passphrase somewhere safe.',
+    restored: 'Keys restored for {n} proposal(s).',
+    restoredSkipped: '{n} proposal(s) used on this device since the backup kept their current keys.',
+    storageTitle: 'Stored Key Protection',
+    storageSignature: 'Keys on this device are encrypted with a signature from your wallet.',
+    storagePassphrase: 'Keys on this device are encrypted with your key passphrase.',
+    storageLocked: 'Keys on this device are locked. Enter your key passphrase to vote.',
+    keyPassphrase: 'Key passphrase (at least 8 characters)',
+    unlock: 'Unlock',
+    usePassphrase: 'Use Passphrase Instead',
+    useSignature: 'Use Wallet Signature Instead',
+    storageUpdated: 'Stored keys re-encrypted.',
   },
   merging: {
     title: 'Preparing Results',
@@ -405,6 +439,8 @@ export const en: Translations = {
     overdueTitle: 'Processing Taking Longer',
     overdueDesc: 'This poll is still being processed. Results will appear automatically when ready.',
     overdueHint: 'Please check back later.',
+    batchProgress: 'Proof batch {current}/{total}',
+    tallyBatchProgress: 'Tally batch {current}/{total}',
     copyright: '\u00A9 2026 SIGIL — Built by Tokamak Network',
   },
   failed: {
@@ -435,6 +471,8 @@ export const en: Translations = {
     againstLabel: 'Against',
     abstainLabel: 'Abstain',
     creditsUnit: 'credits',
+    optionsLoading: 'Loading per-option results...',
+    optionsUnavailable: 'Per-option results are not available: tally.json is missing or does not match the on-chain tally commitment.',
     retry: 'Try Again',
   },
   noVotes: {
@@ -527,6 +565,7 @@ export const en: Translations = {
     currentStatus: 'Current Status',
     votingOpen: 'Voting Open',
     proposalDesc: 'Proposal Description',
+    links: 'Links',
     totalParticipants: 'Total Participants',
     users: 'Users',
     currentWeight: 'Current Weight',
@@ -550,6 +589,7 @@ export const en: Translations = {
     quadraticMagnitude: 'Quadratic Magnitude',
     zkVerified: 'Verification complete',
     viewOnExplorer: 'View on Explorer',
+    tallyArtifact: 'Tally data (tally.json)',
     proposalDetails: 'Proposal Details',
     titleLabel: 'Title',
     author: 'Author',
@@ -234,8 +234,17 @@ export const ko: Translations = {
     titleLabel: '제안 제목',
     titleMin: '최소 3자 이상 입력하세요',
     titlePlaceholder: '예: 커뮤니티 펀드 배분안',
+    optionsLabel: '투표 선택지',
+    optionsForAgainst: '찬성 / 반대',
+    optionsMultiChoice: '다중 선택',
+    optionPlaceholder: '선택지 {n}',
+    addOption: '선택지 추가',
+    removeOption: '선택지 삭제',
+    optionsHint: '서로 다른 선택지 2-{max}개',
+    optionsUnsupported: '현재 MACI 배포는 다중 선택 투표를 지원하지 않습니다. 사용하려면 MACI를 재배포하세요.',
     descLabel: '설명 (선택)',
     descPlaceholder: '제안에 대한 설명을 입력하세요',
+    descLocalOnly: '현재 MACI 배포는 공유 설명을 지원하지 않아, 설명은 이 브라우저에만 저장됩니다.',
     durationLabel: '투표 기간',
     durationHours: '시간',
     durationHint: '짧은 투표는 1~2시간, 일반 투표는 24~72시간을 추천합니다.',
@@ -244,6 +253,8 @@ export const ko: Translations = {
     error: '제안 생성에 실패했습니다',
     errorOwner: '컨트랙트 소유자만 제안을 생성할 수 있습니다',
     errorTokens: '토큰이 부족하여 제안을 생성할 수 없습니다',
+    errorMetadata: '제안 설명을 저장하지 못했습니다. 다시 시도해 주세요.',
+    errorCoordinatorKey: '코디네이터 공개키가 설정되지 않았습니다 (config.json v2.coordinatorPubKeyX/Y)',
     checkingEligibility: '제안 생성 자격을 확인하고 있습니다...',
     notEligible: '제안 만들기는 관리자만 가능합니다',
     ownerOnly: '현재 이 투표 시스템의 관리자만 새 제안을 만들 수 있습니다. 관리자에게 문의하세요.',
@@ -331,6 +342,10 @@ export const ko: Translations = {
     errorTimeout: '거래 처리 시간이 초과되었습니다. Etherscan에서 확인 후 다시 시도해주세요.',
     errorEncryption: '암호화 오류가 발생했습니다. 새로고침 후 다시 시도해주세요.',
     quadraticGuide: '1표 = 1크레딧, 3표 = 9크레딧',
+    modeSingle: '한 선택지',
+    modeSplit: '크레딧 나누기',
+    splitHint: '선택지마다 투표 강도를 정하세요. 비용 = 각 강도의 제곱의 합.',
+    stageBatch: '(메시지 {current}/{total})',
   },
   keyManager: {
     title: '투표 보호',
@@ -347,6 +362,25 @@ export const ko: Translations = {
     cancel: '취소',
     success: '키가 변경되었습니다. 이전 투표는 무효화되었습니다. 새로 투표해 주세요.',
     error: '키 변경에 실패했습니다. 다시 시도해주세요.',
+    backupTitle: '키 백업',
+    backupDesc: '키와 투표 카운터를 암호로 보호된 파일로 내려받아 다른 기기에서 복원할 수 있습니다. 키가 없으면 키 변경 후 다시 투표할 수 없습니다.',
+    passphrase: '백업 암호 (8자 이상)',
+    exportBackup: '백업 다운로드',
+    exporting: '암호화 중...',
+    restoreBackup: '백업에서 복원',
+    restoring: '복원 중...',
+    backupSaved: '백업을 내려받았습니다. 파일과 암호를 안전한 곳에 보관하세요.',
+    restored: '{n}개 제안의 키를 복원했습니다.',
+    restoredSkipped: '백업 이후 이 기기에서 사용한 {n}개 제안은 현재 키를 유지했습니다.',
+    storageTitle: '저장된 키 보호',
+    storageSignature: '이 기기의 키는 지갑 서명으로 암호화되어 있습니다.',
+    storagePassphrase: '이 기기의 키는 키 암호로 암호화되어 있습니다.',
+    storageLocked: '이 기기의 키가 잠겨 있습니다. 투표하려면 키 암호를 입력하세요.',
+    keyPassphrase: '키 암호 (8자 이상)',
+    unlock: '잠금 해제',
+    usePassphrase: '암호로 전환',
+    useSignature: '지갑 서명으로 전환',
+    storageUpdated: '저장된 키를 다시 암호화했습니다.',
   },
   merging: {
     title: '집계 준비 중',
@@ -405,6 +439,8 @@ export const ko: Translations = {
     overdueTitle: '집계가 지연되고 있습니다',
     overdueDesc: '현재 집계가 진행 중입니다. 완료되면 결과가 자동으로 표시됩니다.',
     overdueHint: '조금만 기다려주세요.',
+    batchProgress: '증명 배치 {current}/{total}',
+    tallyBatchProgress: '집계 배치 {current}/{total}',
     copyright: '\u00A9 2026 SIGIL — Built by Tokamak Network',
   },
   failed: {
@@ -435,6 +471,8 @@ export const ko: Translations = {
     againstLabel: '반대',
     abstainLabel: '기권',
     creditsUnit: '크레딧',
+    optionsLoading: '선택지별 결과를 불러오는 중...',
+    optionsUnavailable: '선택지별 결과를 표시할 수 없습니다: tally.json이 없거나 온체인 집계 커밋먼트와 일치하지 않습니다.',
     retry: '다시 시도',
   },
   noVotes: {
@@ -527,6 +565,7 @@ export const ko: Translations = {
     currentStatus: '현재 상태',
     votingOpen: '투표 진행 중',
     proposalDesc: '제안 설명',
+    links: '관련 링크',
     totalParticipants: '총 참여자',
     users: '명',
     currentWeight: '현재 크레딧',
@@ -550,6 +589,7 @@ export const ko: Translations = {
     quadraticMagnitude: '이차투표 규모',
     zkVerified: '검증 완료',
     viewOnExplorer: '탐색기에서 보기',
+    tallyArtifact: '집계 데이터 (tally.json)',
     proposalDetails: '제안 상세',
     titleLabel: '제목',
     author: '작성자',
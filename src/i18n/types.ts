@@ -214,8 +214,17 @@ export interface Translations {
     titleLabel: string
     titleMin: string
     titlePlaceholder: string
+    optionsLabel: string
+    optionsForAgainst: string
+    optionsMultiChoice: string
+    optionPlaceholder: string
+    addOption: string
+    removeOption: string
+    optionsHint: string
+    optionsUnsupported: string
     descLabel: string
     descPlaceholder: string
+    descLocalOnly: string
     durationLabel: string
     durationHours: string
     durationHint: string
@@ -224,6 +233,8 @@ export interface Translations {
     error: string
     errorOwner: string
     errorTokens: string
+    errorMetadata: string
+    errorCoordinatorKey: string
     checkingEligibility: string
     notEligible: string
     ownerOnly: string
@@ -311,6 +322,10 @@ export interface Translations {
     errorTimeout: string
     errorEncryption: string
     quadraticGuide: string
+    modeSingle: string
+    modeSplit: string
+    splitHint: string
+    stageBatch: string
   }
   keyManager: {
     title: string
@@ -327,6 +342,25 @@ export interface Translations {
     cancel: string
     success: string
     error: string
+    backupTitle: string
+    backupDesc: string
+    passphrase: string
+    exportBackup: string
+    exporting: string
+    restoreBackup: string
+    restoring: string
+    backupSaved: string
+    restored: string
+    restoredSkipped: string
+    storageTitle: string
+    storageSignature: string
+    storagePassphrase: string
+    storageLocked: string
+    keyPassphrase: string
+    unlock: string
+    usePassphrase: string
+    useSignature: string
+    storageUpdated: string
   }
   merging: {
     title: string
@@ -385,6 +419,8 @@ export interface Translations {
     overdueTitle: string
     overdueDesc: string
     overdueHint: string
+    batchProgress: string
+    tallyBatchProgress: string
     copyright: string
   }
   failed: {
@@ -415,6 +451,8 @@ export interface Translations {
     againstLabel: string
     abstainLabel: string
     creditsUnit: string
+    optionsLoading: string
+    optionsUnavailable: string
     retry: string
   }
   noVotes: {
@@ -507,6 +545,7 @@ export interface Translations {
     currentStatus: string
     votingOpen: string
     proposalDesc: string
+    links: string
     totalParticipants: string
     users: string
     currentWeight: string
@@ -530,6 +569,7 @@ export interface Translations {
     quadraticMagnitude: string
     zkVerified: string
     viewOnExplorer: string
+    tallyArtifact: string
     proposalDetails: string
     titleLabel: string
     author: string
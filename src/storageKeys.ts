@@ -18,6 +18,8 @@ export const storageKey = {
   stateIndex: (addr: string) => `${PREFIX}-stateIndex-${addr}`,
   stateIndexPoll: (addr: string, pollId: number) => `${PREFIX}-stateIndex-${addr}-${pollId}`,
   pollTitle: (pollId: number) => `${PREFIX}-poll-title-${pollId}`,
+  /** Description of a poll deployed without a metadata document (MACIs before deployPollWithMetadata) */
   pollDesc: (pollId: number) => `${PREFIX}-poll-desc-${pollId}`,
+  pollMetadata: (hash: string) => `${PREFIX}-poll-metadata-${hash}`,
   pollsCache: `${PREFIX}-polls-cache`,
 }
@@ -11,6 +11,9 @@ export interface ChainConfig {
   coordinatorPubKeyX?: string;
   coordinatorPubKeyY?: string;
   stateTreeDepth?: number;
+  /** Circuit new polls are deployed for: must match a coordinator circuit profile */
+  messageTreeDepth?: number;
+  maxVoteOptions?: number;
   maxVoters?: number;
   delegationRegistry?: `0x${string}`;
   delegatingVoiceCreditProxy?: `0x${string}`;
@@ -0,0 +1,72 @@
+import {
+  decodeEventLog,
+  numberToHex,
+  toEventSelector,
+  type AbiEvent,
+  type PublicClient,
+} from 'viem'
+import {
+  EventIndexer,
+  createDefaultIndexerStore,
+  type IndexerStore,
+  type LogSource,
+} from '../../sdk/src/indexer'
+
+// Shared by every component: one IndexedDB cache (keyed by chain id), one indexer per client
+const store: IndexerStore = createDefaultIndexerStore()
+const indexers = new WeakMap<PublicClient, EventIndexer>()
+
+export function viemLogSource(publicClient: PublicClient): LogSource {
+  return {
+    getBlockNumber: async () => Number(await publicClient.getBlockNumber()),
+    async getLogs({ address, topics, fromBlock, toBlock }) {
+      const logs = await publicClient.request({
+        method: 'eth_getLogs',
+        params: [{
+          address: address as `0x${string}`,
+          topics: topics as `0x${string}`[],
+          fromBlock: numberToHex(fromBlock),
+          toBlock: numberToHex(toBlock),
+        }],
+      })
+      return logs.map((l) => ({
+        address: l.address,
+        topics: l.topics,
+        data: l.data,
+        blockNumber: Number(l.blockNumber),
+        logIndex: Number(l.logIndex),
+        transactionHash: l.transactionHash ?? '0x',
+      }))
+    },
+  }
+}
+
+/**
+ * Decoded events from `fromBlock` to the head. Only blocks mined since the
+ * last call (plus a small reorg window) are fetched; the rest comes from IndexedDB.
+ */
+export async function getEventsIndexed<const E extends AbiEvent>(
+  publicClient: PublicClient,
+  address: `0x${string}`,
+  event: E,
+  fromBlock: bigint,
+) {
+  let indexer = indexers.get(publicClient)
+  if (!indexer) {
+    const chainId = publicClient.chain?.id ?? await publicClient.getChainId()
+    indexer = new EventIndexer(viemLogSource(publicClient), store, { namespace: String(chainId) })
+    indexers.set(publicClient, indexer)
+  }
+
+  const abi = [event] as const
+  const topic = toEventSelector(event)
+  const logs = await indexer.getLogs(address, topic, Number(fromBlock))
+  return logs.map((log) => ({
+    blockNumber: BigInt(log.blockNumber),
+    args: decodeEventLog({
+      abi,
+      data: log.data as `0x${string}`,
+      topics: log.topics as [`0x${string}`, ...`0x${string}`[]],
+    }).args,
+  }))
+}
@@ -0,0 +1,143 @@
+/**
+ * Passphrase-encrypted backup of the MACI keys this browser holds for the
+ * connected wallet: signUp key, state index, and each poll's rotated key and
+ * nonce. Format and checks are the SDK's (sdk/src/backup.ts); this module
+ * maps them onto the frontend's localStorage layout, where private keys are
+ * stored through keyStore.
+ */
+import type { PublicClient } from 'viem'
+import {
+  decryptKeyBackup,
+  encryptKeyBackup,
+  verifyBackupAccount,
+  KEY_BACKUP_VERSION,
+  type KeyBackupAccount,
+  type KeyBackupFile,
+  type KeyBackupPoll,
+} from '../../sdk/src/backup'
+import { MACI_DEPLOY_BLOCK, MACI_V2_ADDRESS } from '../contractV2'
+import { preloadCrypto } from '../crypto/preload'
+import { storageKey } from '../storageKeys'
+import { getMaciNonce } from '../components/voting/voteUtils'
+import { getEventsIndexed } from './eventIndexer'
+
+const SIGNUP_EVENT = {
+  type: 'event',
+  name: 'SignUp',
+  inputs: [
+    { name: 'stateIndex', type: 'uint256', indexed: true },
+    { name: 'pubKeyX', type: 'uint256', indexed: true },
+    { name: 'pubKeyY', type: 'uint256', indexed: false },
+    { name: 'voiceCreditBalance', type: 'uint256', indexed: false },
+    { name: 'timestamp', type: 'uint256', indexed: false },
+  ],
+} as const
+
+export interface KeyRestoreResult {
+  restoredPolls: number[]
+  /** Polls used in this browser since the backup; their local keys and nonces were kept */
+  skippedPolls: number[]
+}
+
+function parsePubKey(stored: string | null): [string, string] | null {
+  if (!stored) return null
+  try {
+    const parsed = JSON.parse(stored)
+    return [String(BigInt(parsed[0])), String(BigInt(parsed[1]))]
+  } catch {
+    return null
+  }
+}
+
+/** Encrypt everything stored for address across polls 0..pollCount-1 */
+export async function exportKeyBackup(
+  address: string,
+  pollCount: number,
+  passphrase: string,
+): Promise<KeyBackupFile> {
+  const cm = await preloadCrypto()
+  const pubKeyOf = async (sk: string, stored: string | null): Promise<[string, string]> =>
+    parsePubKey(stored) ?? (await cm.eddsaDerivePublicKey(BigInt(sk))).map(String) as [string, string]
+
+  const sk = await cm.loadEncrypted(storageKey.sk(address), address)
+  const polls: KeyBackupPoll[] = []
+  for (let pollId = 0; pollId < pollCount; pollId++) {
+    const pollSk = await cm.loadEncrypted(storageKey.skPoll(address, pollId), address)
+    const nonce = getMaciNonce(address, pollId)
+    if (!pollSk && nonce === 1) continue
+    polls.push(pollSk
+      ? { pollId, nonce, sk: pollSk, pubKey: await pubKeyOf(pollSk, localStorage.getItem(storageKey.pubkey(address, pollId))) }
+      : { pollId, nonce })
+  }
+
+  const storedIndex = localStorage.getItem(storageKey.signup(address)) && localStorage.getItem(storageKey.stateIndex(address))
+  const stateIndex = storedIndex ? parseInt(storedIndex, 10) : null
+  if (!sk && stateIndex === null && polls.length === 0) throw new Error('No keys stored for this wallet')
+
+  const account: KeyBackupAccount = {
+    maciAddress: MACI_V2_ADDRESS,
+    address,
+    stateIndex,
+    sk,
+    pubKey: sk ? await pubKeyOf(sk, localStorage.getItem(storageKey.pk(address))) : null,
+    polls,
+  }
+  return encryptKeyBackup(
+    { version: KEY_BACKUP_VERSION, createdAt: Math.floor(Date.now() / 1000), accounts: [account] },
+    passphrase,
+  )
+}
+
+/**
+ * Restore the connected wallet's account from a backup file (parsed JSON).
+ * The signUp key must match the SignUp event at the backed-up state index;
+ * nothing is written otherwise. Nonces never move backwards.
+ */
+export async function restoreKeyBackup(
+  publicClient: PublicClient,
+  address: string,
+  file: unknown,
+  passphrase: string,
+): Promise<KeyRestoreResult> {
+  const contents = await decryptKeyBackup(file, passphrase)
+  const account = contents.accounts.find((a) =>
+    a.maciAddress.toLowerCase() === MACI_V2_ADDRESS.toLowerCase() && a.address.toLowerCase() === address.toLowerCase())
+  if (!account) throw new Error('This backup has no keys for the connected wallet on this deployment')
+
+  let signUpPubKey: [bigint, bigint] | null = null
+  if (account.stateIndex !== null) {
+    const logs = await getEventsIndexed(publicClient, MACI_V2_ADDRESS, SIGNUP_EVENT, MACI_DEPLOY_BLOCK)
+    for (const log of logs) {
+      const args = log.args as { stateIndex?: bigint; pubKeyX?: bigint; pubKeyY?: bigint }
+      if (args.stateIndex === BigInt(account.stateIndex) && args.pubKeyX !== undefined && args.pubKeyY !== undefined) {
+        signUpPubKey = [args.pubKeyX, args.pubKeyY]
+      }
+    }
+  }
+  const cm = await preloadCrypto()
+  await verifyBackupAccount(account, signUpPubKey, cm.eddsaDerivePublicKey)
+
+  if (account.sk && account.pubKey) {
+    await cm.storeEncrypted(storageKey.sk(address), account.sk, address)
+    localStorage.setItem(storageKey.pk(address), JSON.stringify(account.pubKey))
+  }
+  if (account.stateIndex !== null) {
+    localStorage.setItem(storageKey.signup(address), 'true')
+    localStorage.setItem(storageKey.stateIndex(address), String(account.stateIndex))
+  }
+
+  const result: KeyRestoreResult = { restoredPolls: [], skippedPolls: [] }
+  for (const poll of account.polls) {
+    if (getMaciNonce(address, poll.pollId) > poll.nonce) {
+      result.skippedPolls.push(poll.pollId)
+      continue
+    }
+    if (poll.sk && poll.pubKey) {
+      await cm.storeEncrypted(storageKey.skPoll(address, poll.pollId), poll.sk, address)
+      localStorage.setItem(storageKey.pubkey(address, poll.pollId), JSON.stringify(poll.pubKey))
+    }
+    localStorage.setItem(storageKey.nonce(address, poll.pollId), String(poll.nonce))
+    result.restoredPolls.push(poll.pollId)
+  }
+  return result
+}
@@ -0,0 +1,69 @@
+/**
+ * Poll metadata (description, option labels, links) shared across browsers.
+ *
+ * CreatePollForm stores the document and deploys the poll with its hash;
+ * readers fetch it by Poll.metadataHash and accept it only if the hash
+ * matches (see sdk/src/metadata.ts). NEXT_PUBLIC_METADATA_URL points at the
+ * HTTP store; without one, documents stay in this browser's localStorage.
+ */
+import type { PublicClient } from 'viem'
+import {
+  HttpMetadataStore,
+  encodePollMetadata,
+  hashPollMetadata,
+  readPollMetadata,
+  type MetadataStore,
+  type PollMetadata,
+} from '../../sdk/src/metadata'
+import { POLL_ABI } from '../contractV2'
+import { storageKey } from '../storageKeys'
+
+const METADATA_URL = (process.env.NEXT_PUBLIC_METADATA_URL || '').replace(/\/+$/, '')
+
+/** Documents in localStorage, keyed by hash: readable by this browser only */
+export const localMetadataStore: MetadataStore = {
+  async put(metadata) {
+    const hash = hashPollMetadata(metadata)
+    localStorage.setItem(storageKey.pollMetadata(hash), encodePollMetadata(metadata))
+    return hash
+  },
+  async get(hash) {
+    const json = localStorage.getItem(storageKey.pollMetadata(hash.toLowerCase()))
+    return json === null ? null : JSON.parse(json)
+  },
+}
+
+export const metadataStore: MetadataStore = METADATA_URL ? new HttpMetadataStore(METADATA_URL) : localMetadataStore
+
+// Poll address → verified metadata, or null for a poll deployed without any; both
+// are fixed at deployment. A missing or unreachable document is looked up again.
+const cache = new Map<string, PollMetadata | null>()
+
+/**
+ * Verified metadata of the poll at pollAddr. Null for a poll deployed
+ * without metadata, or whose document is missing, unreachable or doesn't
+ * match its hash.
+ */
+export async function loadPollMetadata(
+  publicClient: PublicClient,
+  pollAddr: `0x${string}`,
+): Promise<PollMetadata | null> {
+  const key = pollAddr.toLowerCase()
+  if (cache.has(key)) return cache.get(key)!
+
+  let hash: `0x${string}`
+  try {
+    hash = await publicClient.readContract({ address: pollAddr, abi: POLL_ABI, functionName: 'metadataHash' }) as `0x${string}`
+  } catch {
+    // Polls deployed before metadataHash existed
+    return null
+  }
+  try {
+    const metadata = await readPollMetadata(metadataStore, hash)
+    if (metadata || BigInt(hash) === 0n) cache.set(key, metadata)
+    return metadata
+  } catch (err) {
+    console.warn(`Poll ${pollAddr} metadata:`, err instanceof Error ? err.message : err)
+    return null
+  }
+}
@@ -533,6 +533,146 @@ contract MACITest is Test {
         assertTrue(maci.canCreatePoll(address(this)));
     }
 
+    // ============ 12b. test_DeployPollWithOptions ============
+
+    function test_DeployPollWithOptions() public {
+        string[] memory options = new string[](4);
+        options[0] = "Option A";
+        options[1] = "Option B";
+        options[2] = "Option C";
+        options[3] = "Option D";
+        maci.deployPollWithOptions(
+            "Multi-choice",
+            POLL_DURATION,
+            COORD_PUB_KEY_X,
+            COORD_PUB_KEY_Y,
+            address(mpVerifier),
+            address(tallyVerifier),
+            address(vkRegistry),
+            MSG_TREE_DEPTH,
+            options
+        );
+
+        Poll poll = Poll(maci.polls(0));
+        assertEq(poll.numVoteOptions(), 4);
+        string[] memory stored = poll.getOptionLabels();
+        assertEq(stored.length, 4);
+        assertEq(stored[2], "Option C");
+
+        // Legacy polls carry no labels (for/against/abstain)
+        maci.deployPoll(
+            "Binary",
+            POLL_DURATION,
+            COORD_PUB_KEY_X,
+            COORD_PUB_KEY_Y,
+            address(mpVerifier),
+            address(tallyVerifier),
+            address(vkRegistry),
+            MSG_TREE_DEPTH
+        );
+        assertEq(Poll(maci.polls(1)).numVoteOptions(), 0);
+    }
+
+    function test_DeployPollWithOptions_InvalidCount_Reverts() public {
+        string[] memory one = new string[](1);
+        one[0] = "Only";
+        vm.expectRevert(MACI.InvalidVoteOptions.selector);
+        maci.deployPollWithOptions(
+            "Too few",
+            POLL_DURATION,
+            COORD_PUB_KEY_X,
+            COORD_PUB_KEY_Y,
+            address(mpVerifier),
+            address(tallyVerifier),
+            address(vkRegistry),
+            MSG_TREE_DEPTH,
+            one
+        );
+
+        string[] memory many = new string[](maci.MAX_VOTE_OPTIONS() + 1);
+        vm.expectRevert(MACI.InvalidVoteOptions.selector);
+        maci.deployPollWithOptions(
+            "Too many",
+            POLL_DURATION,
+            COORD_PUB_KEY_X,
+            COORD_PUB_KEY_Y,
+            address(mpVerifier),
+            address(tallyVerifier),
+            address(vkRegistry),
+            MSG_TREE_DEPTH,
+            many
+        );
+    }
+
+    // ============ 12c. test_DeployPollWithMetadata ============
+
+    function test_DeployPollWithMetadata() public {
+        bytes32 metadataHash = keccak256('{"description":"Fund the audit","title":"Audit","version":1}');
+        string[] memory noOptions;
+        maci.deployPollWithMetadata(
+            "Audit",
+            POLL_DURATION,
+            COORD_PUB_KEY_X,
+            COORD_PUB_KEY_Y,
+            address(mpVerifier),
+            address(tallyVerifier),
+            address(vkRegistry),
+            MSG_TREE_DEPTH,
+            noOptions,
+            metadataHash
+        );
+
+        Poll poll = Poll(maci.polls(0));
+        assertEq(poll.metadataHash(), metadataHash);
+        assertEq(poll.numVoteOptions(), 0);
+
+        // Polls deployed without metadata carry a zero hash
+        maci.deployPoll(
+            "Binary",
+            POLL_DURATION,
+            COORD_PUB_KEY_X,
+            COORD_PUB_KEY_Y,
+            address(mpVerifier),
+            address(tallyVerifier),
+            address(vkRegistry),
+            MSG_TREE_DEPTH
+        );
+        assertEq(Poll(maci.polls(1)).metadataHash(), bytes32(0));
+    }
+
+    function test_DeployPollWithMetadata_InvalidInput_Reverts() public {
+        string[] memory noOptions;
+        vm.expectRevert(MACI.ZeroMetadataHash.selector);
+        maci.deployPollWithMetadata(
+            "No hash",
+            POLL_DURATION,
+            COORD_PUB_KEY_X,
+            COORD_PUB_KEY_Y,
+            address(mpVerifier),
+            address(tallyVerifier),
+            address(vkRegistry),
+            MSG_TREE_DEPTH,
+            noOptions,
+            bytes32(0)
+        );
+
+        string[] memory one = new string[](1);
+        one[0] = "Only";
+        vm.expectRevert(MACI.InvalidVoteOptions.selector);
+        maci.deployPollWithMetadata(
+            "One option",
+            POLL_DURATION,
+            COORD_PUB_KEY_X,
+            COORD_PUB_KEY_Y,
+            address(mpVerifier),
+            address(tallyVerifier),
+            address(vkRegistry),
+            MSG_TREE_DEPTH,
+            one,
+            keccak256("metadata")
+        );
+    }
+
     // ============ 13. test_TransferOwnership ============
 
     function test_TransferOwnership() public {
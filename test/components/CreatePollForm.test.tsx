@@ -1,7 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { screen } from '@testing-library/react'
+import { screen, fireEvent, waitFor } from '@testing-library/react'
+import { encodeAbiParameters, encodeEventTopics, getAddress, parseAbiItem } from 'viem'
 import { renderWithProviders } from '../helpers/render'
 import CreatePollForm from '../../src/components/CreatePollForm'
+import { writeContract } from '../../src/writeHelper'
+import { metadataStore } from '../../src/utils/pollMetadata'
 
 let mockAccountState = {
   address: undefined as `0x${string}` | undefined,
@@ -13,10 +16,15 @@ let mockGateCount: unknown = 0n
 let mockGateInfo: unknown = undefined
 let mockTonBalance: unknown = undefined
 let mockLoading = false
+// MACI bytecode dispatching deployPollWithOptions and deployPollWithMetadata (PUSH4 selectors)
+const CURRENT_MACI_CODE = '0x6080604052630000000063323ac77963a07f76c9'
+let mockMaciCode: string | undefined = CURRENT_MACI_CODE
+const mockWaitForReceipt = vi.fn()
 
 vi.mock('wagmi', () => ({
   useAccount: () => mockAccountState,
-  usePublicClient: () => ({}),
+  usePublicClient: () => ({ waitForTransactionReceipt: mockWaitForReceipt }),
+  useBytecode: () => ({ data: mockMaciCode, isLoading: false }),
   useReadContract: (config: any) => {
     if (config?.functionName === 'canCreatePoll') return { data: mockCanCreate, isLoading: mockLoading }
     if (config?.functionName === 'proposalGateCount') return { data: mockGateCount, isLoading: mockLoading }
@@ -34,8 +42,11 @@ vi.mock('../../src/contractV2', () => ({
   VK_REGISTRY_ADDRESS: '0x0000000000000000000000000000000000000005',
   VOICE_CREDIT_PROXY_ADDRESS: '0x0000000000000000000000000000000000000006',
   MACI_ABI: [],
+  MESSAGE_TREE_DEPTH: 2,
+  MAX_VOTE_OPTIONS: 5,
   DEFAULT_COORD_PUB_KEY_X: '0',
   DEFAULT_COORD_PUB_KEY_Y: '0',
+  HAS_COORD_PUB_KEY: true,
   ERC20_VOICE_CREDIT_PROXY_ABI: [],
   ERC20_ABI: [],
   TIMELOCK_EXECUTOR_ADDRESS: '0x0000000000000000000000000000000000000000',
@@ -45,8 +56,17 @@ vi.mock('../../src/writeHelper', () => ({
   writeContract: vi.fn(),
 }))
 
+const METADATA_HASH = `0x${'ab'.repeat(32)}`
+
+vi.mock('../../src/utils/pollMetadata', () => ({
+  metadataStore: { put: vi.fn(), get: vi.fn() },
+}))
+
 vi.mock('../../src/storageKeys', () => ({
-  storageKey: vi.fn(() => 'test-key'),
+  storageKey: {
+    pollTitle: (pollId: number) => `test-poll-title-${pollId}`,
+    pollDesc: (pollId: number) => `test-poll-desc-${pollId}`,
+  },
 }))
 
 vi.mock('../../src/components/voting/TransactionModal', () => ({
@@ -64,6 +84,8 @@ describe('CreatePollForm', () => {
     mockGateInfo = undefined
     mockTonBalance = undefined
     mockLoading = false
+    mockMaciCode = CURRENT_MACI_CODE
+    localStorage.clear()
   })
 
   it('shows connect wallet message when not connected', () => {
@@ -91,4 +113,119 @@ describe('CreatePollForm', () => {
     const body = document.body.textContent || ''
     expect(body).toMatch(/제목|title|제안|proposal|기간|duration/i)
   })
+
+  it('edits the options of a multi-choice poll', () => {
+    mockAccountState = { address: '0x1234567890abcdef1234567890abcdef12345678', isConnected: true }
+    mockCanCreate = true
+    renderWithProviders(<CreatePollForm onPollCreated={onPollCreated} />)
+    expect(screen.queryByPlaceholderText(/Option 1|선택지 1/)).not.toBeInTheDocument()
+
+    fireEvent.click(screen.getByRole('button', { name: /Multiple Choice|다중 선택/ }))
+    const option = (n: number) => screen.getByPlaceholderText(new RegExp(`Option ${n}|선택지 ${n}`))
+    fireEvent.change(screen.getByLabelText(/Proposal Title|제안 제목/), { target: { value: 'Pick a colour' } })
+    fireEvent.change(option(1), { target: { value: 'Red' } })
+    fireEvent.change(option(2), { target: { value: 'red' } })
+    const submit = screen.getByRole('button', { name: /Generate Proposal|제안 생성/ })
+    expect(submit).toBeDisabled() // duplicate labels
+
+    fireEvent.change(option(2), { target: { value: 'Blue' } })
+    expect(submit).toBeEnabled()
+    const add = screen.getByRole('button', { name: /Add Option|선택지 추가/ })
+    for (let i = 0; i < 3; i++) fireEvent.click(add)
+    expect(add).toBeDisabled() // 5 options max
+    expect(submit).toBeDisabled() // empty labels
+  })
+
+  it('disables multi-choice polls on a MACI without deployPollWithOptions', () => {
+    mockAccountState = { address: '0x1234567890abcdef1234567890abcdef12345678', isConnected: true }
+    mockCanCreate = true
+    mockMaciCode = '0x608060405263ebe4667d' // deployPoll only
+    renderWithProviders(<CreatePollForm onPollCreated={onPollCreated} />)
+
+    expect(screen.getByRole('button', { name: /Multiple Choice|다중 선택/ })).toBeDisabled()
+    expect(document.body.textContent).toMatch(/predates multi-choice|다중 선택 투표를 지원하지/)
+  })
+
+  it('stores the metadata document and deploys the poll with its hash', async () => {
+    mockAccountState = { address: '0x1234567890abcdef1234567890abcdef12345678', isConnected: true }
+    mockCanCreate = true
+    vi.mocked(metadataStore.put).mockResolvedValue(METADATA_HASH)
+    vi.mocked(writeContract).mockRejectedValue(new Error('User rejected the request'))
+    renderWithProviders(<CreatePollForm onPollCreated={onPollCreated} />)
+
+    fireEvent.change(screen.getByLabelText(/Proposal Title|제안 제목/), { target: { value: 'Raise the quorum' } })
+    fireEvent.change(screen.getByLabelText(/Description|설명/), { target: { value: ' Turnout doubled. ' } })
+    fireEvent.click(screen.getByRole('button', { name: /Generate Proposal|제안 생성/ }))
+
+    await waitFor(() => expect(writeContract).toHaveBeenCalled())
+    expect(metadataStore.put).toHaveBeenCalledWith({
+      version: 1,
+      title: 'Raise the quorum',
+      description: 'Turnout doubled.',
+      author: '0x1234567890abcdef1234567890abcdef12345678',
+    })
+    const call = vi.mocked(writeContract).mock.calls[0][0] as { functionName: string; args: unknown[] }
+    expect(call.functionName).toBe('deployPollWithMetadata')
+    expect(call.args.slice(-2)).toEqual([[], METADATA_HASH])
+  })
+
+  it('deploys a poll without a description through deployPoll, which older MACIs have', async () => {
+    mockAccountState = { address: '0x1234567890abcdef1234567890abcdef12345678', isConnected: true }
+    mockCanCreate = true
+    vi.mocked(writeContract).mockRejectedValue(new Error('User rejected the request'))
+    renderWithProviders(<CreatePollForm onPollCreated={onPollCreated} />)
+
+    fireEvent.change(screen.getByLabelText(/Proposal Title|제안 제목/), { target: { value: 'Raise the quorum' } })
+    fireEvent.click(screen.getByRole('button', { name: /Generate Proposal|제안 생성/ }))
+
+    await waitFor(() => expect(writeContract).toHaveBeenCalled())
+    expect(metadataStore.put).not.toHaveBeenCalled()
+    const call = vi.mocked(writeContract).mock.calls[0][0] as { functionName: string; args: unknown[] }
+    expect(call.functionName).toBe('deployPoll')
+    expect(call.args).toHaveLength(8)
+  })
+
+  it('does not deploy when the metadata cannot be stored', async () => {
+    mockAccountState = { address: '0x1234567890abcdef1234567890abcdef12345678', isConnected: true }
+    mockCanCreate = true
+    vi.mocked(metadataStore.put).mockRejectedValue(new Error('HTTP 503'))
+    renderWithProviders(<CreatePollForm onPollCreated={onPollCreated} />)
+
+    fireEvent.change(screen.getByLabelText(/Proposal Title|제안 제목/), { target: { value: 'Raise the quorum' } })
+    fireEvent.change(screen.getByLabelText(/Description|설명/), { target: { value: 'Turnout doubled.' } })
+    fireEvent.click(screen.getByRole('button', { name: /Generate Proposal|제안 생성/ }))
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(/description|설명/i)
+    expect(writeContract).not.toHaveBeenCalled()
+  })
+
+  it('keeps the description in this browser on a MACI without deployPollWithMetadata', async () => {
+    mockAccountState = { address: '0x1234567890abcdef1234567890abcdef12345678', isConnected: true }
+    mockCanCreate = true
+    mockMaciCode = '0x608060405263ebe4667d63323ac779' // deployPoll + deployPollWithOptions
+    const deployPoll = parseAbiItem('event DeployPoll(uint256 indexed pollId, address pollAddr, address messageProcessorAddr, address tallyAddr)')
+    const pollAddr = '0x00000000000000000000000000000000000000aa'
+    vi.mocked(writeContract).mockResolvedValue('0xbeef')
+    mockWaitForReceipt.mockResolvedValue({
+      logs: [{
+        topics: encodeEventTopics({ abi: [deployPoll], eventName: 'DeployPoll', args: { pollId: 7n } }),
+        data: encodeAbiParameters(
+          [{ type: 'address' }, { type: 'address' }, { type: 'address' }],
+          [pollAddr, '0x00000000000000000000000000000000000000bb', '0x00000000000000000000000000000000000000cc'],
+        ),
+      }],
+    })
+    renderWithProviders(<CreatePollForm onPollCreated={onPollCreated} />)
+
+    expect(document.body.textContent).toMatch(/this browser only|이 브라우저에만/)
+    fireEvent.change(screen.getByLabelText(/Proposal Title|제안 제목/), { target: { value: 'Raise the quorum' } })
+    fireEvent.change(screen.getByLabelText(/Description|설명/), { target: { value: ' Turnout doubled. ' } })
+    fireEvent.click(screen.getByRole('button', { name: /Generate Proposal|제안 생성/ }))
+
+    await waitFor(() => expect(onPollCreated).toHaveBeenCalledWith(7, getAddress(pollAddr), 'Raise the quorum', 3600))
+    expect(metadataStore.put).not.toHaveBeenCalled()
+    const call = vi.mocked(writeContract).mock.calls[0][0] as { functionName: string; args: unknown[] }
+    expect(call.functionName).toBe('deployPoll')
+    expect(localStorage.getItem('test-poll-desc-7')).toBe('Turnout doubled.')
+  })
 })
@@ -2,8 +2,9 @@
  * KeyManager.test.tsx - EdDSA Key Management UI tests
  */
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { screen, fireEvent } from '@testing-library/react'
+import { screen, fireEvent, waitFor } from '@testing-library/react'
 import { renderWithProviders } from '../helpers/render'
+import { encryptKeyBackup } from '../../sdk/src/backup'
 
 vi.mock('wagmi', () => ({
   useAccount: () => ({
@@ -22,9 +23,17 @@ vi.mock('wagmi', () => ({
 
 vi.mock('../../src/contractV2', () => ({
   MACI_V2_ADDRESS: '0xABCDEF1234567890abcdef1234567890abcdef12',
+  MACI_DEPLOY_BLOCK: 0n,
+  MACI_ABI: [],
   POLL_ABI: [],
 }))
 
+vi.mock('../../src/utils/eventIndexer', () => ({
+  getEventsIndexed: vi.fn().mockResolvedValue([
+    { blockNumber: 10n, args: { stateIndex: 3n, pubKeyX: 456n, pubKeyY: 789n, voiceCreditBalance: 100n, timestamp: 0n } },
+  ]),
+}))
+
 vi.mock('../../src/writeHelper', () => ({
   writeContract: vi.fn().mockResolvedValue('0xtxhash'),
 }))
@@ -47,6 +56,7 @@ vi.mock('../../src/crypto/preload', () => ({
 }))
 
 import { KeyManager } from '../../src/components/voting/KeyManager'
+import { getEventsIndexed } from '../../src/utils/eventIndexer'
 
 describe('KeyManager', () => {
   beforeEach(() => {
@@ -116,4 +126,64 @@ describe('KeyManager', () => {
     fireEvent.click(helpBtn) // hide
     expect(screen.queryByRole('tooltip')).toBeNull()
   })
+
+  describe('key backup', () => {
+    const addr = '0x1234567890abcdef1234567890abcdef12345678'
+    const PASSPHRASE = 'correct horse battery staple'
+
+    async function backupFile(pubKey: [string, string]) {
+      const backup = await encryptKeyBackup({
+        version: 1,
+        createdAt: 0,
+        accounts: [{
+          maciAddress: '0xABCDEF1234567890abcdef1234567890abcdef12',
+          address: addr,
+          stateIndex: 3,
+          sk: '123',
+          pubKey,
+          polls: [{ pollId: 0, nonce: 3, sk: '123', pubKey }, { pollId: 1, nonce: 2 }],
+        }],
+      }, PASSPHRASE, { N: 2 ** 10, r: 8, p: 1 })
+      return new File([JSON.stringify(backup)], 'sigil-keys.json', { type: 'application/json' })
+    }
+
+    function restore(file: File) {
+      fireEvent.change(screen.getByLabelText(/backup passphrase/i), { target: { value: PASSPHRASE } })
+      fireEvent.change(document.querySelector('input[type="file"]')!, { target: { files: [file] } })
+    }
+
+    it('enables backup actions only with a long enough passphrase', () => {
+      renderWithProviders(<KeyManager {...defaultProps} />)
+      const download = screen.getByRole('button', { name: /download backup/i })
+      expect(download).toBeDisabled()
+      fireEvent.change(screen.getByLabelText(/backup passphrase/i), { target: { value: 'short' } })
+      expect(download).toBeDisabled()
+      fireEvent.change(screen.getByLabelText(/backup passphrase/i), { target: { value: PASSPHRASE } })
+      expect(download).toBeEnabled()
+    })
+
+    it('restores keys and nonces that match the on-chain SignUp', async () => {
+      localStorage.setItem(`maci-ABCDEF-nonce-${addr}-1`, '5')
+      renderWithProviders(<KeyManager {...defaultProps} />)
+      restore(await backupFile(['456', '789']))
+
+      expect(await screen.findByText(/restored for 1 proposal/i)).toBeInTheDocument()
+      expect(screen.getByText(/1 proposal\(s\) used on this device/i)).toBeInTheDocument()
+      expect(localStorage.getItem(`maci-ABCDEF-stateIndex-${addr}`)).toBe('3')
+      expect(localStorage.getItem(`maci-ABCDEF-nonce-${addr}-0`)).toBe('3')
+      expect(localStorage.getItem(`maci-ABCDEF-nonce-${addr}-1`)).toBe('5')
+      expect(localStorage.getItem(`maci-ABCDEF-pubkey-${addr}-0`)).toBe(JSON.stringify(['456', '789']))
+    })
+
+    it('rejects a backup whose key was not signed up at its state index', async () => {
+      vi.mocked(getEventsIndexed).mockResolvedValueOnce([
+        { blockNumber: 10n, args: { stateIndex: 3n, pubKeyX: 111n, pubKeyY: 222n, voiceCreditBalance: 100n, timestamp: 0n } },
+      ] as Awaited<ReturnType<typeof getEventsIndexed>>)
+      renderWithProviders(<KeyManager {...defaultProps} />)
+      restore(await backupFile(['456', '789']))
+
+      await waitFor(() => expect(screen.getByText(/not the one signed up at state index 3/i)).toBeInTheDocument())
+      expect(localStorage.getItem(`maci-ABCDEF-stateIndex-${addr}`)).toBeNull()
+    })
+  })
 })
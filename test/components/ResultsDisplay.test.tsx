@@ -28,6 +28,19 @@ vi.mock('../../src/components/governance/ExecutionPanel', () => ({
   ExecutionPanel: () => null,
 }))
 
+const mockCoordinatorStatus = vi.fn((): unknown => null)
+
+vi.mock('../../src/hooks/useCoordinatorStatus', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/hooks/useCoordinatorStatus')>()),
+  useCoordinatorStatus: () => mockCoordinatorStatus(),
+}))
+
+const mockOptionResults = vi.fn((): unknown => ({ options: null, isError: false }))
+
+vi.mock('../../src/hooks/useOptionResults', () => ({
+  useOptionResults: () => mockOptionResults(),
+}))
+
 import { ResultsDisplay } from '../../src/components/voting/ResultsDisplay'
 
 const TALLY_ADDR = '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa' as `0x${string}`
@@ -138,4 +151,46 @@ describe('ResultsDisplay', () => {
     renderWithProviders(<ResultsDisplay tallyAddress={TALLY_ADDR} />)
     expect(screen.getByRole('region')).toBeInTheDocument()
   })
+
+  it('links the tally artifact published by the coordinator', () => {
+    let callCount = 0
+    mockUseReadContract.mockImplementation(() => {
+      callCount++
+      if (callCount % 5 === 1) return { data: 3n, isLoading: false, isError: false, isPending: false }
+      if (callCount % 5 === 2) return { data: 1n, isLoading: false, isError: false, isPending: false }
+      if (callCount % 5 === 3) return { data: 2n, isLoading: false, isError: false, isPending: false }
+      if (callCount % 5 === 4) return { data: 0n, isLoading: false, isError: false, isPending: false }
+      return { data: true, isLoading: false, isError: false, isPending: false }
+    })
+    mockCoordinatorStatus.mockReturnValue({ pollId: 4, artifact: { hash: '0xfeed', uri: 'ipfs://bafyTally' } })
+    renderWithProviders(<ResultsDisplay tallyAddress={TALLY_ADDR} pollId={4} />)
+    expect(screen.getByText('0xfeed')).toBeInTheDocument()
+    expect(document.querySelector('a[href="https://ipfs.io/ipfs/bafyTally"]')).toBeInTheDocument()
+    mockCoordinatorStatus.mockReturnValue(null)
+  })
+
+  it('renders one bar per option of a multi-choice poll', () => {
+    let callCount = 0
+    mockUseReadContract.mockImplementation(() => {
+      callCount++
+      if (callCount % 5 === 1) return { data: 0n, isLoading: false, isError: false, isPending: false }
+      if (callCount % 5 === 2) return { data: 0n, isLoading: false, isError: false, isPending: false }
+      if (callCount % 5 === 3) return { data: 3n, isLoading: false, isError: false, isPending: false }
+      if (callCount % 5 === 4) return { data: 0n, isLoading: false, isError: false, isPending: false }
+      return { data: true, isLoading: false, isError: false, isPending: false }
+    })
+    mockOptionResults.mockReturnValue({
+      options: [{ label: 'Red', votes: 1n }, { label: 'Green', votes: 0n }, { label: 'Blue', votes: 0n }, { label: 'Cyan', votes: 3n }],
+      isError: false,
+    })
+    renderWithProviders(<ResultsDisplay tallyAddress={TALLY_ADDR} voteOptions={['Red', 'Green', 'Blue', 'Cyan']} />)
+    const progressBars = screen.getAllByRole('progressbar')
+    expect(progressBars.map((b) => b.getAttribute('aria-label'))).toEqual(['Red', 'Green', 'Blue', 'Cyan'])
+    expect(screen.getByText('75%')).toBeInTheDocument()
+
+    // tally.json missing or not matching the on-chain commitment: no bars
+    mockOptionResults.mockReturnValue({ options: null, isError: true })
+    renderWithProviders(<ResultsDisplay tallyAddress={TALLY_ADDR} voteOptions={['Red', 'Green', 'Blue', 'Cyan']} />)
+    expect(screen.getByRole('status')).toBeInTheDocument()
+  })
 })
@@ -204,4 +204,48 @@ describe('VoteFormV2', () => {
     const lockIcon = document.querySelector('.text-green-600')
     expect(lockIcon).toBeInTheDocument()
   })
+
+  it('renders one radio per option of a multi-choice poll and labels the confirmation', () => {
+    renderWithProviders(<VoteFormV2 {...defaultProps} voteOptions={['Red', 'Green', 'Blue']} />)
+    const radios = screen.getAllByRole('radio')
+    expect(radios.map((r) => r.textContent)).toEqual(['radio_button_uncheckedRed', 'radio_button_uncheckedGreen', 'radio_button_uncheckedBlue'])
+    fireEvent.click(radios[2])
+    expect(radios[2]).toHaveAttribute('aria-checked', 'true')
+    fireEvent.click(screen.getByRole('button', { name: /submit|제출|투표/i }))
+    expect(screen.getByRole('dialog')).toHaveTextContent('Blue')
+  })
+
+  it('splits credits across options of a multi-choice poll within the balance', () => {
+    renderWithProviders(<VoteFormV2 {...defaultProps} voiceCredits={5} voteOptions={['Red', 'Green', 'Blue']} />)
+    fireEvent.click(screen.getByRole('button', { name: 'Split credits' }))
+    expect(screen.getAllByTestId('split-option')).toHaveLength(3)
+    expect(screen.queryByRole('slider')).not.toBeInTheDocument()
+
+    const submitBtn = screen.getByRole('button', { name: /submit|제출|투표/i })
+    expect(submitBtn).toBeDisabled()
+
+    fireEvent.click(screen.getByRole('button', { name: 'Red +1' }))
+    fireEvent.click(screen.getByRole('button', { name: 'Red +1' }))
+    fireEvent.click(screen.getByRole('button', { name: 'Blue +1' }))
+    // 2² + 1² = 5 credits: nothing left for Green, and Blue can't go to 2
+    expect(screen.getByText(/2² \+ 1²/)).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Green +1' })).toBeDisabled()
+    expect(screen.getByRole('button', { name: 'Blue +1' })).toBeDisabled()
+
+    fireEvent.click(submitBtn)
+    const dialog = screen.getByRole('dialog')
+    expect(dialog).toHaveTextContent('Red ×2 · Blue ×1')
+    expect(dialog).toHaveTextContent('5 credits')
+  })
+
+  it('shows a previous split vote in the history banner', () => {
+    const addr = '0x1234567890abcdef1234567890abcdef12345678'
+    localStorage.setItem(`maci-ABCDEF-nonce-${addr}-0`, '3')
+    localStorage.setItem(
+      `maci-ABCDEF-lastVote-${addr}-0`,
+      JSON.stringify({ choice: 0, weight: 3, cost: 5, allocations: [{ option: 0, weight: 2 }, { option: 2, weight: 1 }] }),
+    )
+    renderWithProviders(<VoteFormV2 {...defaultProps} voteOptions={['Red', 'Green', 'Blue']} />)
+    expect(screen.getByText('Red ×2 · Blue ×1')).toBeInTheDocument()
+  })
 })
@@ -0,0 +1,105 @@
+/**
+ * Encrypted Key Storage Tests
+ *
+ * window.ethereum signs with a local viem account; legacyEncrypt() writes
+ * an `enc:` value the way keyStore did before wallet-derived keys.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { privateKeyToAccount } from 'viem/accounts'
+import {
+  getKeyStoreMode,
+  loadEncrypted,
+  lockKeyStore,
+  setKeyStorePassphrase,
+  storeEncrypted,
+  unlockKeyStore,
+} from '../../src/crypto/keyStore'
+
+const account = privateKeyToAccount(`0x${'42'.repeat(32)}`)
+const ADDR = account.address
+const SK_KEY = `maci-abcdef-sk-${ADDR}`
+const POLL_KEY = `maci-abcdef-sk-${ADDR}-0`
+
+const request = vi.fn(async ({ method, params }: { method: string; params: [`0x${string}`, string] }) => {
+  if (method !== 'personal_sign') throw new Error(`unexpected ${method}`)
+  return account.signMessage({ message: { raw: params[0] } })
+})
+
+async function legacyEncrypt(address: string, value: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const material = await crypto.subtle.importKey('raw', encoder.encode(address.toLowerCase()), 'PBKDF2', false, ['deriveKey'])
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: encoder.encode('zk-dex-maci-keys'), iterations: 100_000, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt'],
+  )
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(value)))
+  return 'enc:' + btoa(String.fromCharCode(...iv, ...ciphertext))
+}
+
+describe('keyStore', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    lockKeyStore(ADDR)
+    request.mockClear()
+    ;(window as unknown as { ethereum: unknown }).ethereum = { request }
+  })
+
+  it('encrypts under a wallet signature, requested once per session', async () => {
+    await storeEncrypted(SK_KEY, '12345', ADDR)
+    await storeEncrypted(POLL_KEY, '67890', ADDR)
+
+    const stored = localStorage.getItem(SK_KEY)!
+    expect(stored).toMatch(/^enc:v2:s:/)
+    expect(stored).not.toContain('12345')
+    expect(request).toHaveBeenCalledTimes(1)
+    expect(request.mock.calls[0][0].params[1]).toBe(ADDR)
+
+    lockKeyStore(ADDR)
+    expect(await loadEncrypted(SK_KEY, ADDR)).toBe('12345')
+    expect(await loadEncrypted(POLL_KEY, ADDR)).toBe('67890')
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+
+  it('migrates enc: and plain-text keys written by older versions', async () => {
+    localStorage.setItem(SK_KEY, await legacyEncrypt(ADDR, '12345'))
+    localStorage.setItem(POLL_KEY, '67890')
+
+    expect(await loadEncrypted(SK_KEY, ADDR)).toBe('12345')
+    expect(await loadEncrypted(POLL_KEY, ADDR)).toBe('67890')
+    expect(localStorage.getItem(SK_KEY)).toMatch(/^enc:v2:s:/)
+    expect(localStorage.getItem(POLL_KEY)).toMatch(/^enc:v2:s:/)
+  })
+
+  it('still reads older keys when the signature is refused', async () => {
+    localStorage.setItem(POLL_KEY, '67890')
+    request.mockRejectedValueOnce(new Error('User rejected the request'))
+
+    expect(await loadEncrypted(POLL_KEY, ADDR)).toBe('67890')
+    expect(localStorage.getItem(POLL_KEY)).toBe('67890')
+  })
+
+  it('switches to a passphrase and stays locked until it is entered', async () => {
+    await storeEncrypted(SK_KEY, '12345', ADDR)
+    await setKeyStorePassphrase(ADDR, 'correct horse battery', [SK_KEY, POLL_KEY])
+    expect(getKeyStoreMode(ADDR)).toBe('passphrase')
+    expect(localStorage.getItem(SK_KEY)).toMatch(/^enc:v2:p:/)
+
+    lockKeyStore(ADDR)
+    await expect(loadEncrypted(SK_KEY, ADDR)).rejects.toThrow('locked')
+    await expect(storeEncrypted(POLL_KEY, '1', ADDR)).rejects.toThrow('locked')
+    await expect(unlockKeyStore(ADDR, 'wrong horse battery', [SK_KEY])).rejects.toThrow('Cannot decrypt')
+    await expect(loadEncrypted(SK_KEY, ADDR)).rejects.toThrow('locked')
+
+    await unlockKeyStore(ADDR, 'correct horse battery', [SK_KEY])
+    expect(await loadEncrypted(SK_KEY, ADDR)).toBe('12345')
+
+    await setKeyStorePassphrase(ADDR, null, [SK_KEY])
+    expect(getKeyStoreMode(ADDR)).toBe('signature')
+    expect(localStorage.getItem(SK_KEY)).toMatch(/^enc:v2:s:/)
+  })
+})